@@ -0,0 +1,382 @@
+// Generates and inspects puzzles from the command line, using the exact same
+// generator the game does. Handy for checking upcoming puzzles offline.
+//
+//   npm run puzzle -- print --date 2022-03-14
+//   npm run puzzle -- json --number 120
+//   npm run puzzle -- print --number 120 --locale es
+//   npm run puzzle -- words --seed practice-abc --variant mini
+//   npm run puzzle -- benchmark --count 500
+//   npm run puzzle -- schedule --from 2026-10-19 --to 2027-10-18
+//   npm run puzzle -- verify
+//   npm run puzzle -- unpack-words --length 6 > six.txt
+//   npm run puzzle -- pack-words --input six.txt
+//   npm run puzzle -- unpack-words --length 5 --locale es > cinco.txt
+//   npm run puzzle -- word-sizes
+import { readFileSync, writeFileSync } from "fs";
+import { gzipSync } from "zlib";
+import generator, { RandomSeed } from "random-seed";
+import { buildFullBoard } from "../src/utils/board-builder";
+import { countBoardBuildingAttempts } from "../src/utils/generator";
+import { BoardConfigs, BoardVariant } from "../src/utils/game";
+import { findPlacedWords, printBoard } from "../src/utils/words-helper";
+import { rateDifficulty } from "../src/utils/difficulty";
+import { DefaultLocale, getLocale, Locale, Locales } from "../src/utils/locale";
+import { createPackedWordList, packWords } from "../src/utils/packed-words";
+import { words as EnglishExtraWords } from "../src/constants/words/extra-words";
+import { words as SpanishExtraWords } from "../src/constants/words/es/extra-words";
+import { words as GermanExtraWords } from "../src/constants/words/de/extra-words";
+import {
+  getBoardConfig,
+  getPracticePuzzle,
+  getPuzzle,
+  getPuzzleForDate,
+  getPuzzleNumber,
+  Puzzle,
+  PuzzleMode,
+} from "../src/utils/puzzle-calendar";
+import {
+  createScheduledPuzzle,
+  getPuzzleSchedule,
+  loadPuzzle,
+  ScheduledPuzzle,
+  verifyScheduledPuzzle,
+} from "../src/utils/puzzle-schedule";
+
+const ScheduleFile = "src/constants/puzzle-schedule.json";
+const ExtraWords: Record<Locale, string[]> = {
+  [Locale.English]: EnglishExtraWords,
+  [Locale.Spanish]: SpanishExtraWords,
+  [Locale.German]: GermanExtraWords,
+};
+const ExtraWordsDirectories: Record<Locale, string> = {
+  [Locale.English]: "src/constants/words/extra-words",
+  [Locale.Spanish]: "src/constants/words/es/extra-words",
+  [Locale.German]: "src/constants/words/de/extra-words",
+};
+const ExtraWordsFiles: Record<number, string> = {
+  2: "two",
+  3: "three",
+  4: "four",
+  5: "five",
+  6: "six",
+};
+
+const usage = `Usage: npm run puzzle -- <command> [options]
+
+Commands:
+  print        Print the solution board and the rack
+  json         Dump the rack and solution as JSON
+  words        List the words in the solution
+  benchmark    Compare the greedy and backtracking board builders
+  schedule     Add the daily puzzles from --from to --to to the schedule file
+  verify       Check that every puzzle in the schedule file is still valid
+  unpack-words Print the extra words of --length, one per line
+  pack-words   Pack the words in --input into the extra words of that length
+  word-sizes   Compare the size of the packed extra words to plain lists
+
+Options:
+  --date YYYY-MM-DD   The daily puzzle for a date (defaults to today)
+  --number N          The daily puzzle with this number
+  --seed SEED         Any seed, like one from a practice puzzle
+  --variant NAME      classic, mini or large, for --seed (overriding the seed's) and benchmark
+  --locale NAME       en, es or de, for --date, --number and the word lists (defaults to en)
+  --count N           How many seeds to benchmark (defaults to 1000)
+  --from YYYY-MM-DD   The first day to schedule (defaults to today)
+  --to YYYY-MM-DD     The last day to schedule (defaults to a year after --from)
+  --length N          How long the words are, for unpack-words
+  --input FILE        A file with one word per line, for pack-words
+
+Scheduled puzzles are what players get, and print, json and words show those.`;
+
+type Options = Record<string, string>;
+
+function parseArgs(args: string[]): [string | undefined, Options] {
+  const [command, ...rest] = args;
+  const options: Options = {};
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith("--")) fail(`Unexpected argument "${arg}"`);
+    options[arg.slice(2)] = rest[++i] ?? fail(`Missing a value for ${arg}`);
+  }
+  return [command, options];
+}
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${usage}`);
+  process.exit(1);
+}
+
+function getVariant(options: Options): BoardVariant {
+  const variant = (options.variant ?? BoardVariant.Classic) as BoardVariant;
+  if (!Object.values(BoardVariant).includes(variant)) fail(`Unknown variant "${variant}"`);
+  return variant;
+}
+
+function getLocaleOption(options: Options): Locale {
+  const locale = (options.locale ?? DefaultLocale) as Locale;
+  if (!Object.values(Locale).includes(locale)) fail(`Unknown locale "${locale}"`);
+  return locale;
+}
+
+// Seeds already say which locale they're for, so --locale only applies to
+// daily puzzles.
+function getPuzzleFromOptions(options: Options): Puzzle {
+  if (options.seed) {
+    // Practice seeds say what size they are, so only --variant overrides it.
+    const puzzle = getPracticePuzzle(options.seed);
+    return options.variant ? { ...puzzle, variant: getVariant(options) } : puzzle;
+  }
+
+  const locale = getLocaleOption(options);
+  if (options.number) {
+    const number = parseInt(options.number, 10);
+    if (isNaN(number) || number < 1) fail(`Invalid puzzle number "${options.number}"`);
+    return getPuzzle(number, PuzzleMode.Daily, locale);
+  }
+
+  if (options.date) {
+    return getPuzzleForDate(parseDate(options.date), locale);
+  }
+
+  return getPuzzleForDate(new Date(), locale);
+}
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split("-").map((part) => parseInt(part, 10));
+  if ([year, month, day].some(isNaN)) fail(`Invalid date "${value}"`);
+  return new Date(year, month - 1, day);
+}
+
+function describePuzzle(puzzle: Puzzle) {
+  return puzzle.mode !== PuzzleMode.Practice
+    ? `Puzzle #${puzzle.number} (${puzzle.date.toDateString()})`
+    : `Seed "${puzzle.seed}" (${puzzle.variant})`;
+}
+
+function print(puzzle: Puzzle) {
+  const [solution, letters] = loadPuzzle(puzzle);
+  console.info(describePuzzle(puzzle));
+  printBoard(solution, [], getBoardConfig(puzzle));
+  console.info(`Rack: ${letters.map(({ letter }) => letter.toUpperCase()).join(" ")}`);
+  const { dictionary, letters: bag } = getLocale(puzzle.locale);
+  console.info(`Difficulty: ${rateDifficulty(solution, dictionary, bag)}`);
+}
+
+function json(puzzle: Puzzle) {
+  const [solution, letters] = loadPuzzle(puzzle);
+  const output = {
+    seed: puzzle.seed,
+    number: puzzle.number,
+    variant: puzzle.variant,
+    letters: letters.map(({ letter }) => letter),
+    solution: solution.map((row) =>
+      new Array(getBoardConfig(puzzle).cols).fill(null).map((_, c) => row[c] || ""),
+    ),
+  };
+  console.info(JSON.stringify(output, null, 2));
+}
+
+function words(puzzle: Puzzle) {
+  const [solution] = loadPuzzle(puzzle);
+  console.info(describePuzzle(puzzle));
+  for (const { word, position, direction } of findPlacedWords(solution)) {
+    console.info(
+      `  ${word.padEnd(8)} ${direction.padEnd(6)} row ${position.row}, col ${position.col}`,
+    );
+  }
+}
+
+// Builds the same seeds with the greedy builder and the backtracking search,
+// so the two can be compared.
+function benchmark(options: Options) {
+  const count = parseInt(options.count ?? "1000", 10);
+  if (isNaN(count) || count < 1) fail(`Invalid count "${options.count}"`);
+  const variant = getVariant(options);
+  const config = BoardConfigs[variant];
+  const seeds = new Array(count).fill(null).map((_, i) => `benchmark-${i}`);
+
+  console.info(`Building ${count} ${variant} boards each way...`);
+
+  const attempts = new Array(16).fill(0);
+  const greedy = timeBoards(seeds, (random) => {
+    const tries = countBoardBuildingAttempts(random, config);
+    attempts[tries]++;
+    // Needing every try could mean the last one didn't work either.
+    return tries < 15;
+  });
+
+  const backtracking = timeBoards(seeds, (random) => buildFullBoard(random, config) !== null);
+
+  console.info("\nGreedy, attempts until every letter fit:");
+  attempts.forEach((freq, tries) => {
+    if (freq > 0) console.info(`  ${tries}\t${formatPercent(freq, count)}`);
+  });
+
+  console.info(`\n${"".padEnd(16)}First try   Full board   Average    Slowest`);
+  console.info(
+    [
+      "  Greedy".padEnd(16),
+      formatPercent(attempts[1], count).padEnd(12),
+      formatPercent(greedy.successes, count).padEnd(13),
+      `${greedy.average.toFixed(1)}ms`.padEnd(11),
+      `${greedy.slowest}ms`,
+    ].join(""),
+  );
+  console.info(
+    [
+      "  Backtracking".padEnd(16),
+      "-".padEnd(12),
+      formatPercent(backtracking.successes, count).padEnd(13),
+      `${backtracking.average.toFixed(1)}ms`.padEnd(11),
+      `${backtracking.slowest}ms`,
+    ].join(""),
+  );
+}
+
+function timeBoards(seeds: string[], build: (random: RandomSeed) => boolean) {
+  let successes = 0;
+  let slowest = 0;
+  const start = Date.now();
+  for (const seed of seeds) {
+    const boardStart = Date.now();
+    if (build(generator.create(seed))) successes++;
+    slowest = Math.max(slowest, Date.now() - boardStart);
+  }
+  return { successes, slowest, average: (Date.now() - start) / seeds.length };
+}
+
+function formatPercent(n: number, total: number) {
+  return `${((n / total) * 100).toFixed(2)}%`;
+}
+
+// Puzzles that are already scheduled are left exactly as they are, since
+// they're the ones people play. Take one out by hand to generate it again.
+function schedule(options: Options) {
+  const from = getPuzzleNumber(options.from ? parseDate(options.from) : new Date());
+  const to = options.to ? getPuzzleNumber(parseDate(options.to)) : from + 364;
+  if (to < from) fail("--to has to come after --from");
+
+  const puzzles = new Map<number, ScheduledPuzzle>();
+  getPuzzleSchedule().puzzles.forEach((entry) => puzzles.set(entry.number, entry));
+
+  let added = 0;
+  for (let number = from; number <= to; number++) {
+    if (puzzles.has(number)) continue;
+    puzzles.set(number, createScheduledPuzzle(getPuzzle(number)));
+    added++;
+  }
+
+  const sorted = Array.from(puzzles.values()).sort((a, b) => a.number - b.number);
+  writeFileSync(ScheduleFile, JSON.stringify({ puzzles: sorted }, null, 2) + "\n");
+  console.info(`Added ${added} puzzles to ${ScheduleFile} (${sorted.length} in total)`);
+}
+
+function verify() {
+  const { puzzles } = getPuzzleSchedule();
+  let failures = 0;
+  for (const entry of puzzles) {
+    const errors = verifyScheduledPuzzle(entry);
+    if (errors.length === 0) continue;
+    failures++;
+    console.error(`Puzzle #${entry.number} (${entry.date}):`);
+    errors.forEach((error) => console.error(`  ${error}`));
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} of ${puzzles.length} scheduled puzzles failed verification`);
+    process.exit(1);
+  }
+  console.info(`All ${puzzles.length} scheduled puzzles are valid`);
+}
+
+function getExtraWords(length: number, locale: Locale) {
+  const list = ExtraWords[locale].map(createPackedWordList).find((list) => list.length === length);
+  return list ?? fail(`There are no extra words of length ${length}`);
+}
+
+function unpackWords(options: Options) {
+  const length = parseInt(options.length ?? fail("Missing --length"), 10);
+  console.info(getExtraWords(length, getLocaleOption(options)).words().join("\n"));
+}
+
+// Replaces one of the extra words lists. Every word in the file has to be the
+// same length, and that's the list it replaces.
+function packWordsFile(options: Options) {
+  const input = options.input ?? fail("Missing --input");
+  const words = readFileSync(input, "utf8")
+    .split("\n")
+    .map((word) => word.trim().toLowerCase())
+    .filter(Boolean);
+  if (words.length === 0) fail(`There are no words in ${input}`);
+
+  const length = words[0].length;
+  const file = ExtraWordsFiles[length] ?? fail(`Can't pack ${length}-letter words`);
+  const packed = packWords(words);
+  const directory = ExtraWordsDirectories[getLocaleOption(options)];
+  writeFileSync(`${directory}/${file}.ts`, `export const words =\n  "${packed}";\n`);
+  console.info(`Packed ${createPackedWordList(packed).size} words into ${file}.ts`);
+}
+
+// How the packed lists compare to the array literals they used to be.
+function wordSizes(options: Options) {
+  const formatSize = (bytes: number) => `${(bytes / 1024).toFixed(1)} kB`.padStart(10);
+  const totals = [0, 0, 0, 0];
+
+  console.info("Length   Words      Array    (gzip)    Packed    (gzip)");
+  for (const packed of ExtraWords[getLocaleOption(options)]) {
+    const list = createPackedWordList(packed);
+    const lines = list.words().map((word) => `  "${word}",\n`);
+    const array = `export const words = [\n${lines.join("")}];\n`;
+    const sizes = [array, packed].flatMap((source) => [
+      Buffer.byteLength(source),
+      gzipSync(source).length,
+    ]);
+    sizes.forEach((size, i) => (totals[i] += size));
+    const counts = [String(list.length).padEnd(7), String(list.size).padStart(7)];
+    console.info(counts.concat(sizes.map(formatSize)).join(""));
+  }
+  console.info(["Total".padEnd(14)].concat(totals.map(formatSize)).join(""));
+}
+
+function run(command: string | undefined, options: Options) {
+  switch (command) {
+    case "print":
+      print(getPuzzleFromOptions(options));
+      break;
+    case "json":
+      json(getPuzzleFromOptions(options));
+      break;
+    case "words":
+      words(getPuzzleFromOptions(options));
+      break;
+    case "benchmark":
+      benchmark(options);
+      break;
+    case "schedule":
+      schedule(options);
+      break;
+    case "verify":
+      verify();
+      break;
+    case "unpack-words":
+      unpackWords(options);
+      break;
+    case "pack-words":
+      packWordsFile(options);
+      break;
+    case "word-sizes":
+      wordSizes(options);
+      break;
+    default:
+      fail(command ? `Unknown command "${command}"` : "Missing a command");
+  }
+}
+
+// Puzzles can't be built or checked without the extra words.
+const [command, options] = parseArgs(process.argv.slice(2));
+Promise.all(Object.values(Locales).map(({ dictionary }) => dictionary.load()))
+  .then(() => run(command, options))
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
@@ -1,13 +1,22 @@
 import "./App.css";
 import { useEffect, useMemo } from "react";
 import { ThemeProvider } from "@emotion/react";
+import { DndProvider } from "react-dnd";
+import { HTML5Backend } from "react-dnd-html5-backend";
+import { TouchBackend } from "react-dnd-touch-backend";
 import { GameProvider } from "./contexts/game";
 import { ModalsProvider } from "./contexts/modals";
 import { ToastProvider } from "./contexts/toast";
+import { PuzzleProvider } from "./contexts/puzzle";
 import { Scene } from "./Scene";
 import createPersistedState from "use-persisted-state";
 import { PersistedStates } from "./constants/state";
 import { Themes } from "./constants/themes";
+import { IsTouchDevice } from "./constants/game";
+
+// Touchscreen laptops count as touch devices too, and still need the mouse to
+// be able to drag tiles around.
+const TouchBackendOptions = { enableMouseEvents: true };
 
 const useDarkTheme = createPersistedState(PersistedStates.DarkTheme);
 
@@ -23,13 +32,20 @@ function App() {
 
   return (
     <ThemeProvider theme={theme}>
-      <ModalsProvider>
-        <ToastProvider>
-          <GameProvider>
-            <Scene />
-          </GameProvider>
-        </ToastProvider>
-      </ModalsProvider>
+      <DndProvider
+        backend={IsTouchDevice ? TouchBackend : HTML5Backend}
+        options={IsTouchDevice ? TouchBackendOptions : undefined}
+      >
+        <ModalsProvider>
+          <ToastProvider>
+            <PuzzleProvider>
+              <GameProvider>
+                <Scene />
+              </GameProvider>
+            </PuzzleProvider>
+          </ToastProvider>
+        </ModalsProvider>
+      </DndProvider>
     </ThemeProvider>
   );
 }
@@ -7,9 +7,12 @@ import { Canvas } from "./components";
 import { Controls } from "./components/Controls";
 import { Header } from "./components/Header";
 import { Modal } from "./components/Modal";
+import { DragPreview } from "./components/DragPreview";
 import { ModalsContext } from "./contexts/modals";
 import { PersistedStates } from "./constants/state";
+import { IsTouchDevice } from "./constants/game";
 import { GameContext } from "./contexts/game";
+import { PuzzleContext } from "./contexts/puzzle";
 import { useLocalStorageGC } from "./hooks/useLocalStorageGC";
 import { countValidLettersOnBoard } from "./utils/board-validator";
 
@@ -18,7 +21,9 @@ const useFirstTime = createPersistedState(PersistedStates.FirstTime);
 export const Scene: FC = () => {
   const { width, height } = useWindowSize();
   const { openInstructions, openStats, isStatsOpen } = useContext(ModalsContext);
-  const { board, isGameOver } = useContext(GameContext);
+  const { puzzle, config, board, isGameOver, loading, loadingFailed, retryLoading } =
+    useContext(GameContext);
+  const { practiceSeed } = useContext(PuzzleContext);
   const [isFirstTime] = useFirstTime(true);
   const alreadyShowedConfetti = useRef(false);
   const [showConfetti, setShowConfetti] = useState(false);
@@ -26,7 +31,7 @@ export const Scene: FC = () => {
   const score = useMemo(() => countValidLettersOnBoard(board), [board]);
 
   // Clean up old keys.
-  useLocalStorageGC();
+  useLocalStorageGC([puzzle.seed, practiceSeed]);
 
   useEffect(() => {
     let ts: ReturnType<typeof setTimeout>;
@@ -49,18 +54,35 @@ export const Scene: FC = () => {
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   useEffect(() => {
-    if (!alreadyShowedConfetti.current && isStatsOpen && isGameOver && score === 20) {
+    if (
+      !alreadyShowedConfetti.current &&
+      isStatsOpen &&
+      isGameOver &&
+      score === config.letterCount
+    ) {
       alreadyShowedConfetti.current = true;
       setShowConfetti(true);
     }
-  }, [isGameOver, isStatsOpen, score]);
+  }, [isGameOver, isStatsOpen, score, config]);
 
   return (
     <Container>
       <Header />
-      <Canvas />
-      <Controls />
+      {loadingFailed ? (
+        <LoadingFailed>
+          Couldn't build the puzzle.
+          <RetryButton onClick={retryLoading}>Try again</RetryButton>
+        </LoadingFailed>
+      ) : loading ? (
+        <Loading>Building the puzzle...</Loading>
+      ) : (
+        <>
+          <Canvas />
+          <Controls />
+        </>
+      )}
       <Modal />
+      {IsTouchDevice ? <DragPreview /> : null}
       {showConfetti ? (
         <Confetti
           numberOfPieces={600}
@@ -88,3 +110,35 @@ const Container = styled.div`
     z-index: 9999 !important;
   }
 `;
+
+const Loading = styled.div`
+  flex: 1;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  font-weight: 600;
+  opacity: 0.6;
+`;
+
+const LoadingFailed = styled(Loading)`
+  flex-direction: column;
+  opacity: 1;
+`;
+
+const RetryButton = styled.button`
+  height: 40px;
+  margin-top: 16px;
+  padding: 0 16px;
+  font-size: 0.9rem;
+  font-weight: 700;
+  text-transform: uppercase;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+  color: #ffffff;
+  background: #228be6;
+
+  &:hover {
+    background: #1c7ed6;
+  }
+`;
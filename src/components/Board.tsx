@@ -1,7 +1,8 @@
-import { FC, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { FC, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
 import styled from "@emotion/styled";
 import { useTheme } from "@emotion/react";
 import { css } from "@emotion/react";
+import { useDrag, useDrop } from "react-dnd";
 import { CursorDirections, Letter, Tile, TileChangeReason, TileState } from "../utils/game";
 import {
   createSuccessReveal,
@@ -11,18 +12,42 @@ import {
 } from "../constants/animations";
 import { GameContext } from "../contexts/game";
 import { AppTheme } from "../constants/themes";
+import { DragBoardTileItem, DragTileItem, DragTypes } from "../constants/game";
+import { HintKind, isPositionInWord } from "../utils/hints";
+import { WordFeedback } from "../utils/board-validator";
+import { PlacedWord } from "../utils/words-helper";
 
 type GridTileProps = {
   tile: Tile;
   hasCursor: boolean;
   hasCursorHighlight: boolean;
+  isHinted: boolean;
+  feedback: WordFeedback | null;
   handleTileClick: (tile: Tile) => void;
+  handleTileDrop: (tile: Tile, item: DragTileItem | DragBoardTileItem, type: string) => void;
   isGameOver: boolean;
 };
 
 export const Board: FC = () => {
   const theme = useTheme() as AppTheme;
-  const { board, updateCursor, isGameOver } = useContext(GameContext);
+  const {
+    config,
+    board,
+    updateCursor,
+    isGameOver,
+    placeLetterAt,
+    moveLetter,
+    hints,
+    wordFeedback,
+  } = useContext(GameContext);
+
+  const revealedWords = useMemo(
+    () =>
+      hints
+        .map((hint) => (hint.kind === HintKind.RevealWord ? hint.word : null))
+        .filter(Boolean) as PlacedWord[],
+    [hints],
+  );
 
   const handleTileClick = useCallback(
     (tile: Tile) => {
@@ -31,8 +56,19 @@ export const Board: FC = () => {
     [updateCursor],
   );
 
+  const handleTileDrop = useCallback(
+    (tile: Tile, item: DragTileItem | DragBoardTileItem, type: string) => {
+      if (type === DragTypes.BoardTile) {
+        moveLetter((item as DragBoardTileItem).position, [tile.row, tile.col]);
+      } else {
+        placeLetterAt(item.letter, tile.row, tile.col);
+      }
+    },
+    [placeLetterAt, moveLetter],
+  );
+
   return (
-    <Container theme={theme}>
+    <Container theme={theme} rows={config.rows} cols={config.cols}>
       {board.tiles.map((row) => {
         const rowId = row.map(({ id }) => id).join(",");
         return (
@@ -42,12 +78,15 @@ export const Board: FC = () => {
                 key={tile.id}
                 tile={tile}
                 handleTileClick={handleTileClick}
+                handleTileDrop={handleTileDrop}
                 hasCursor={board.cursor.row === tile.row && board.cursor.col === tile.col}
                 hasCursorHighlight={
                   board.cursor.direction === CursorDirections.LeftToRight
                     ? board.cursor.row === tile.row
                     : board.cursor.col === tile.col
                 }
+                isHinted={revealedWords.some((word) => isPositionInWord(tile, word))}
+                feedback={wordFeedback?.[tile.row][tile.col] ?? null}
                 isGameOver={isGameOver}
               />
             ))}
@@ -58,6 +97,12 @@ export const Board: FC = () => {
   );
 };
 
+enum TileHint {
+  None,
+  Revealed,
+  Locked,
+}
+
 enum GridTileState {
   Idle,
   PopIn,
@@ -71,10 +116,41 @@ const GridTile: FC<GridTileProps> = ({
   tile,
   hasCursor,
   handleTileClick,
+  handleTileDrop,
   hasCursorHighlight,
+  isHinted,
+  feedback,
   isGameOver,
 }) => {
   const theme = useTheme() as AppTheme;
+
+  // Placed letters can be dragged to another empty tile or back to the rack.
+  const [{ isDragging }, drag] = useDrag(
+    {
+      type: DragTypes.BoardTile,
+      item: (): DragBoardTileItem => ({
+        letter: tile.letter as Letter,
+        position: [tile.row, tile.col],
+      }),
+      canDrag: () => !!tile.letter && !tile.letter.locked && !isGameOver,
+      collect: (monitor) => ({ isDragging: monitor.isDragging() }),
+    },
+    [tile, isGameOver],
+  );
+
+  // Empty tiles accept letters from the rack as well as other placed letters.
+  const [{ isDropTarget }, drop] = useDrop(
+    {
+      accept: [DragTypes.Tile, DragTypes.BoardTile],
+      canDrop: () => !tile.letter && !isGameOver,
+      drop: (item: DragTileItem | DragBoardTileItem, monitor) => {
+        handleTileDrop(tile, item, monitor.getItemType() as string);
+      },
+      collect: (monitor) => ({ isDropTarget: monitor.isOver() && monitor.canDrop() }),
+    },
+    [tile, isGameOver, handleTileDrop],
+  );
+
   const prevLetter = useRef<Letter | null>(tile.letter);
   const prevChangeReason = useRef<TileChangeReason | undefined>(tile.changeReason);
   const [gridTileState, setGridTileState] = useState<GridTileState>(GridTileState.Idle);
@@ -129,6 +205,7 @@ const GridTile: FC<GridTileProps> = ({
 
   return (
     <TileWrapper
+      ref={(node) => drag(drop(node))}
       onTouchStart={() => handleTileClick(tile)}
       onClick={() => handleTileClick(tile)}
       // This prevents `onClick` from being fired if `onTouchStart` was fired.
@@ -136,8 +213,18 @@ const GridTile: FC<GridTileProps> = ({
       onTouchEnd={(e) => e.preventDefault()}
     >
       <TileContents
+        className={tile.letter ? "placed-tile" : undefined}
         hasLetter={!!tile.letter?.letter}
-        hasCursor={hasCursor && !isGameOver}
+        hasCursor={(hasCursor || isDropTarget) && !isGameOver}
+        isDragging={isDragging}
+        hint={
+          tile.letter?.locked
+            ? TileHint.Locked
+            : isHinted && !isGameOver
+            ? TileHint.Revealed
+            : TileHint.None
+        }
+        feedback={isGameOver ? null : feedback}
         hasCursorHighlight={hasCursorHighlight && !isGameOver}
         state={gridTileState}
         revealDelay={tile.row * 100 + tile.col * 100}
@@ -149,20 +236,21 @@ const GridTile: FC<GridTileProps> = ({
   );
 };
 
-const Container = styled.div<{ theme: AppTheme }>`
+// Sized to fit the tiles at each of the tile sizes below.
+const Container = styled.div<{ rows: number; cols: number; theme: AppTheme }>`
   position: relative;
   background: ${(p) => p.theme.colors.primary};
-  width: 360px; // 6 tiles * tile size
-  height: 360px;
+  width: ${(p) => p.cols * 60}px;
+  height: ${(p) => p.rows * 60}px;
 
   @media (max-height: 620px), (max-width: 370px) {
-    width: 320px; // 6 tiles * tile size
-    height: 320px;
+    width: ${(p) => p.cols * 54}px;
+    height: ${(p) => p.rows * 54}px;
   }
 
   @media (max-height: 580px) {
-    width: 290px; // 6 tiles * tile size
-    height: 290px;
+    width: ${(p) => p.cols * 48}px;
+    height: ${(p) => p.rows * 48}px;
   }
 `;
 
@@ -205,11 +293,25 @@ const TileWrapper = styled.div`
 const TileContents = styled.div<{
   hasLetter: boolean;
   hasCursor: boolean;
+  isDragging: boolean;
+  hint: TileHint;
+  feedback: WordFeedback | null;
   hasCursorHighlight: boolean;
   state: GridTileState;
   revealDelay: number;
   theme: AppTheme;
-}>(({ hasLetter, hasCursor, hasCursorHighlight, state, revealDelay, theme }) => {
+}>((props) => {
+  const {
+    hasLetter,
+    hasCursor,
+    isDragging,
+    hint,
+    feedback,
+    hasCursorHighlight,
+    state,
+    revealDelay,
+    theme,
+  } = props;
   let animation;
   let animationDelay = "0ms";
 
@@ -271,14 +373,27 @@ const TileContents = styled.div<{
     : theme.colors.primary;
   const borderColor = hasCursor
     ? cursorColor
+    : hint === TileHint.Locked
+    ? "#6aaa64"
+    : hint === TileHint.Revealed
+    ? "#f59f00"
     : hasLetter
     ? "#787c7e"
     : theme.colors.tileSecondary;
+  const borderStyle = hint === TileHint.Revealed && !hasCursor ? "dashed" : "solid";
+  // Assist mode outlines words on the outside so it doesn't fight the border.
+  const outlineColor =
+    feedback === WordFeedback.Valid
+      ? "#6aaa64"
+      : feedback === WordFeedback.Invalid
+      ? "#f03e3e"
+      : "transparent";
 
   return css`
     background: ${backgroundColor};
-    border: 2px solid ${borderColor};
-    transition: border 50ms ease-in, background 50ms ease-in;
+    border: 2px ${borderStyle} ${borderColor};
+    box-shadow: 0 0 0 2px ${outlineColor};
+    transition: border 50ms ease-in, background 50ms ease-in, box-shadow 50ms ease-in;
     color: ${theme.colors.text};
     min-height: 50px;
     min-width: 50px;
@@ -286,7 +401,7 @@ const TileContents = styled.div<{
     max-width: 50px;
     height: calc(100% - 10px);
     width: calc(100% - 10px);
-    opacity: 1;
+    opacity: ${isDragging ? 0.4 : 1};
     font-weight: 700;
     font-size: 24px;
     display: flex;
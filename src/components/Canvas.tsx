@@ -1,22 +1,217 @@
-import { FC } from "react";
+import { FC, useContext, useRef } from "react";
 import styled from "@emotion/styled";
+import { useTheme } from "@emotion/react";
 import { Board } from "./Board";
+import { AppTheme } from "../constants/themes";
+import { GameContext } from "../contexts/game";
+import { ModalsContext } from "../contexts/modals";
+import { useCamera } from "../hooks/useCamera";
+import { useTrackpadPanning } from "../hooks/useTrackpadPanning";
+import { useTouchPanning } from "../hooks/useTouchPanning";
+import { requestZoomIn, requestZoomOut } from "../utils/camera";
+import { Bounds } from "../utils/canvas";
+import { Config } from "../utils/game";
 
 type CanvasProps = {};
 
 export const Canvas: FC<CanvasProps> = () => {
+  const theme = useTheme() as AppTheme;
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const {
+    config,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    isGameOver,
+    assistMode,
+    tilesAreConnected,
+    boardLetterIds,
+  } = useContext(GameContext);
+  const { openHints } = useContext(ModalsContext);
+  const { camera, zoomCamera, panCamera, panCameraTo, resetCamera } = useCamera({
+    width: config.cols * Config.TileSize + Config.TileSpacing * 2,
+    height: config.rows * Config.TileSize + Config.TileSpacing * 2,
+  });
+
+  useTrackpadPanning(canvasRef, zoomCamera, panCamera);
+  useTouchPanning(canvasRef, camera, zoomCamera, panCameraTo);
+
+  const zoomIn = () => {
+    const { center, dz } = requestZoomIn(camera);
+    zoomCamera(center, dz);
+  };
+
+  const zoomOut = () => {
+    const { center, dz } = requestZoomOut(camera);
+    zoomCamera(center, dz);
+  };
+
   return (
-    <Container id="canvas">
-      <Board />
+    <Container id="canvas" ref={canvasRef}>
+      <Surface
+        style={{
+          transform: `scale(${camera.z}) translate(${camera.x}px, ${camera.y}px)`,
+        }}
+      >
+        <Board />
+      </Surface>
+
+      <HintControls>
+        <OverlayButton theme={theme} aria-label="Hints" disabled={isGameOver} onClick={openHints}>
+          <svg width="20" height="20" fill="none" viewBox="0 0 24 24">
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M12 4.75C8.82436 4.75 6.75 7.26944 6.75 10C6.75 12.0657 8.02131 13.2658 8.75 14.25C9.22844 14.8962 9.25 15.75 9.25 16.25H14.75C14.75 15.75 14.7716 14.8962 15.25 14.25C15.9787 13.2658 17.25 12.0657 17.25 10C17.25 7.26944 15.1756 4.75 12 4.75Z"
+            ></path>
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M10 19.25H14"
+            ></path>
+          </svg>
+        </OverlayButton>
+      </HintControls>
+
+      {assistMode && !isGameOver && boardLetterIds.size > 0 ? (
+        <IslandIndicator theme={theme} connected={tilesAreConnected}>
+          {tilesAreConnected ? "Connected" : "Not connected"}
+        </IslandIndicator>
+      ) : null}
+
+      <HistoryControls>
+        <OverlayButton
+          theme={theme}
+          aria-label="Undo"
+          disabled={!canUndo || isGameOver}
+          onClick={undo}
+        >
+          <svg width="20" height="20" fill="none" viewBox="0 0 24 24">
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M9.25 4.75L4.75 9.25L9.25 13.75"
+            ></path>
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M5.75 9.25H14C16.8995 9.25 19.25 11.6005 19.25 14.5V19.25"
+            ></path>
+          </svg>
+        </OverlayButton>
+        <OverlayButton
+          theme={theme}
+          aria-label="Redo"
+          disabled={!canRedo || isGameOver}
+          onClick={redo}
+        >
+          <svg width="20" height="20" fill="none" viewBox="0 0 24 24">
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M14.75 4.75L19.25 9.25L14.75 13.75"
+            ></path>
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M18.25 9.25H10C7.10051 9.25 4.75 11.6005 4.75 14.5V19.25"
+            ></path>
+          </svg>
+        </OverlayButton>
+      </HistoryControls>
+
+      <ZoomControls>
+        <OverlayButton
+          theme={theme}
+          aria-label="Zoom in"
+          disabled={camera.z >= Bounds.maxZ}
+          onClick={zoomIn}
+        >
+          <svg width="20" height="20" fill="none" viewBox="0 0 24 24">
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M12 5.75V18.25"
+            ></path>
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M18.25 12L5.75 12"
+            ></path>
+          </svg>
+        </OverlayButton>
+        <OverlayButton
+          theme={theme}
+          aria-label="Zoom out"
+          disabled={camera.z <= Bounds.minZ}
+          onClick={zoomOut}
+        >
+          <svg width="20" height="20" fill="none" viewBox="0 0 24 24">
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M18.25 12L5.75 12"
+            ></path>
+          </svg>
+        </OverlayButton>
+        <OverlayButton theme={theme} aria-label="Reset zoom" onClick={resetCamera}>
+          <svg width="20" height="20" fill="none" viewBox="0 0 24 24">
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M4.75 9.25V4.75H9.25"
+            ></path>
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M19.25 9.25V4.75H14.75"
+            ></path>
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M4.75 14.75V19.25H9.25"
+            ></path>
+            <path
+              stroke={theme.colors.text}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="1.5"
+              d="M19.25 14.75V19.25H14.75"
+            ></path>
+          </svg>
+        </OverlayButton>
+      </ZoomControls>
     </Container>
   );
 };
 
 const Container = styled.div`
   position: relative;
-  display: flex;
-  align-items: center;
-  justify-content: center;
   flex: 1;
   width: 100%;
   min-height: 360px; // 6 tiles * tile size
@@ -32,3 +227,84 @@ const Container = styled.div`
     min-height: 290px; // 6 tiles * tile size
   }
 `;
+
+// The board sits in the middle of a surface the size of the camera bounds,
+// which is what the camera pans and zooms around.
+const Surface = styled.div`
+  position: absolute;
+  top: 0;
+  left: 0;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  width: ${Bounds.maxX}px;
+  height: ${Bounds.maxY}px;
+  transform-origin: 0 0;
+  will-change: transform;
+`;
+
+const HintControls = styled.div`
+  position: absolute;
+  left: 8px;
+  top: 8px;
+  z-index: 1;
+`;
+
+const IslandIndicator = styled.div<{ connected: boolean; theme: AppTheme }>`
+  position: absolute;
+  right: 8px;
+  top: 8px;
+  z-index: 1;
+  padding: 6px 10px;
+  border-radius: 4px;
+  font-size: 0.8rem;
+  font-weight: 700;
+  text-transform: uppercase;
+  color: #ffffff;
+  background: ${(p) => (p.connected ? "#6aaa64" : "#f03e3e")};
+  opacity: 0.85;
+  pointer-events: none;
+`;
+
+const HistoryControls = styled.div`
+  position: absolute;
+  left: 8px;
+  bottom: 8px;
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  z-index: 1;
+`;
+
+const ZoomControls = styled.div`
+  position: absolute;
+  right: 8px;
+  bottom: 8px;
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  z-index: 1;
+`;
+
+const OverlayButton = styled.button<{ theme: AppTheme }>`
+  height: 32px;
+  width: 32px;
+  padding: 0;
+  border: 0;
+  border-radius: 4px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  cursor: pointer;
+  background: ${(p) => p.theme.colors.tileSecondary};
+  opacity: 0.85;
+
+  &:active:not([disabled]) {
+    background: ${(p) => p.theme.colors.buttonActive};
+  }
+
+  &:disabled {
+    opacity: 0.4;
+    cursor: default;
+  }
+`;
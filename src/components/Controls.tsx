@@ -1,19 +1,26 @@
-import { FC, useCallback, useContext, useEffect } from "react";
+import { FC, useCallback, useContext, useEffect, useMemo } from "react";
 import styled from "@emotion/styled";
 import createPersistedState from "use-persisted-state";
 import { useTheme } from "@emotion/react";
-import { Directions, Letter } from "../utils/game";
+import { useWindowSize } from "react-use";
+import { useDrag, useDrop } from "react-dnd";
+import { Directions, hasLockedLetters, Letter } from "../utils/game";
 import { GameContext } from "../contexts/game";
 import { PopIn } from "../constants/animations";
 import { ToastContext } from "../contexts/toast";
 import { AppTheme } from "../constants/themes";
 import { PersistedStates } from "../constants/state";
+import { DragBoardTileItem, DragTileItem, DragTypes } from "../constants/game";
+import { getLetterForKey } from "../utils/locale";
+import { HintKind } from "../utils/hints";
+import { getRackRows } from "../utils/rack-layout";
 
 const useHardMode = createPersistedState(PersistedStates.HardMode);
 
 export const Controls: FC = () => {
   const theme = useTheme() as AppTheme;
   const {
+    board,
     letters,
     boardLetterIds,
     setLetterOnBoard,
@@ -25,12 +32,24 @@ export const Controls: FC = () => {
     isGameOver,
     flipCursorDirection,
     unusedLetters,
+    removeLetterAt,
+    undo,
+    redo,
+    hints,
+    puzzle,
   } = useContext(GameContext);
   const { sendToast } = useContext(ToastContext);
   const [hardMode] = useHardMode(false);
 
   const disableEnterButton = !canFinish || isGameOver;
 
+  // Letters pointed out by the "longest word" hint.
+  const hintedLetterIds = useMemo(
+    () =>
+      new Set(hints.flatMap((hint) => (hint.kind === HintKind.LongestWord ? hint.letterIds : []))),
+    [hints],
+  );
+
   const onEnterPress = useCallback(() => {
     if (disableEnterButton) {
       console.info(hardMode);
@@ -54,6 +73,17 @@ export const Controls: FC = () => {
     }
   }, [hardMode, sendToast, disableEnterButton, unusedLetters, requestFinish]);
 
+  const onShiftPress = useCallback(
+    (direction: Directions) => {
+      if (hasLockedLetters(board)) {
+        sendToast("The board can't be moved while a hint has letters locked in place.");
+      } else {
+        shiftBoard(direction);
+      }
+    },
+    [board, sendToast, shiftBoard],
+  );
+
   const onLetterButtonPress = useCallback(
     (letter: Letter) => {
       setLetterOnBoard(letter);
@@ -67,6 +97,17 @@ export const Controls: FC = () => {
     function listenForKeyboard(event: KeyboardEvent) {
       const key = event.key.toLowerCase();
 
+      // Ctrl+Z to undo, Ctrl+Shift+Z to redo (Cmd on macOS).
+      if ((event.ctrlKey || event.metaKey) && key === "z") {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+        return;
+      }
+
       switch (key) {
         case "enter":
           requestFinish();
@@ -90,8 +131,10 @@ export const Controls: FC = () => {
           moveCursorInDirection(Directions.Right);
           break;
         default:
+          const letterForKey = getLetterForKey(key, puzzle.locale);
           const letterForKeypress = letters.find(
-            (letter) => letter.letter.toLowerCase() === key && !boardLetterIds.has(letter.id),
+            (letter) =>
+              letter.letter.toLowerCase() === letterForKey && !boardLetterIds.has(letter.id),
           );
           if (letterForKeypress) {
             setLetterOnBoard(letterForKeypress);
@@ -110,20 +153,47 @@ export const Controls: FC = () => {
     flipCursorDirection,
     moveCursorInDirection,
     requestFinish,
+    undo,
+    redo,
     isGameOver,
+    puzzle.locale,
   ]);
 
-  const topLetters = letters.slice(0, 8);
-  const middleLetters = letters.slice(8, 15);
-  const bottomLetters = letters.slice(15, 20);
+  // Dropping a placed letter back onto the rack takes it off the board.
+  const [, drop] = useDrop(
+    {
+      accept: DragTypes.BoardTile,
+      canDrop: () => !isGameOver,
+      drop: (item: DragBoardTileItem) => {
+        removeLetterAt(...item.position);
+      },
+    },
+    [isGameOver, removeLetterAt],
+  );
+
+  const { width: windowWidth } = useWindowSize();
+  const rackRows = getRackRows(letters, windowWidth);
+
+  const renderLetter = (letter: Letter) =>
+    boardLetterIds.has(letter.id) ? (
+      <DisabledLetterButton key={letter.id} disabled={true} theme={theme} />
+    ) : (
+      <RackLetter
+        key={letter.id}
+        letter={letter}
+        disabled={isGameOver}
+        hinted={hintedLetterIds.has(letter.id)}
+        onPress={onLetterButtonPress}
+      />
+    );
 
   return (
-    <Container>
+    <Container extraRows={Math.max(0, rackRows.length - 3)}>
       <ButtonsContainer theme={theme}>
         <BoardButton
           theme={theme}
           disabled={isGameOver}
-          onClick={() => shiftBoard(Directions.Left)}
+          onClick={() => onShiftPress(Directions.Left)}
         >
           <svg
             width="24"
@@ -158,7 +228,7 @@ export const Controls: FC = () => {
         <BoardButton
           theme={theme}
           disabled={isGameOver}
-          onClick={() => shiftBoard(Directions.Up)}
+          onClick={() => onShiftPress(Directions.Up)}
         >
           <svg
             width="24"
@@ -201,7 +271,7 @@ export const Controls: FC = () => {
         <BoardButton
           theme={theme}
           disabled={isGameOver}
-          onClick={() => shiftBoard(Directions.Down)}
+          onClick={() => onShiftPress(Directions.Down)}
         >
           <svg
             width="24"
@@ -236,7 +306,7 @@ export const Controls: FC = () => {
         <BoardButton
           theme={theme}
           disabled={isGameOver}
-          onClick={() => shiftBoard(Directions.Right)}
+          onClick={() => onShiftPress(Directions.Right)}
         >
           <svg
             width="24"
@@ -270,59 +340,16 @@ export const Controls: FC = () => {
         </BoardButton>
       </ButtonsContainer>
 
-      <LettersContainer theme={theme}>
-        <LettersRow>
-          {topLetters.map((letter) =>
-            boardLetterIds.has(letter.id) ? (
-              <DisabledLetterButton key={letter.id} disabled={true} theme={theme} />
-            ) : (
-              <LetterButton
-                disabled={isGameOver}
-                onClick={() => onLetterButtonPress(letter)}
-                key={letter.id}
-                theme={theme}
-              >
-                {letter.letter}
-              </LetterButton>
-            ),
-          )}
-        </LettersRow>
-
-        <LettersRow>
-          {middleLetters.map((letter) =>
-            boardLetterIds.has(letter.id) ? (
-              <DisabledLetterButton key={letter.id} disabled={true} theme={theme} />
-            ) : (
-              <LetterButton
-                disabled={isGameOver}
-                onClick={() => onLetterButtonPress(letter)}
-                key={letter.id}
-                theme={theme}
-              >
-                {letter.letter}
-              </LetterButton>
-            ),
-          )}
-        </LettersRow>
+      <LettersContainer ref={drop} theme={theme}>
+        {rackRows.slice(0, -1).map((row, i) => (
+          <LettersRow key={i}>{row.map(renderLetter)}</LettersRow>
+        ))}
 
         <LettersRow>
           <ActionButton disabled={isGameOver} onClick={() => onEnterPress()} theme={theme}>
             {"Enter"}
           </ActionButton>
-          {bottomLetters.map((letter) =>
-            boardLetterIds.has(letter.id) ? (
-              <DisabledLetterButton key={letter.id} disabled={true} theme={theme} />
-            ) : (
-              <LetterButton
-                disabled={isGameOver}
-                onClick={() => onLetterButtonPress(letter)}
-                key={letter.id}
-                theme={theme}
-              >
-                {letter.letter}
-              </LetterButton>
-            ),
-          )}
+          {rackRows[rackRows.length - 1].map(renderLetter)}
           <ActionButton disabled={isGameOver} onClick={backspaceBoard} theme={theme}>
             <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 0 24 24" width="24">
               <path
@@ -337,17 +364,52 @@ export const Controls: FC = () => {
   );
 };
 
-const Container = styled.div`
+type RackLetterProps = {
+  letter: Letter;
+  disabled: boolean;
+  hinted: boolean;
+  onPress: (letter: Letter) => void;
+};
+
+const RackLetter: FC<RackLetterProps> = ({ letter, disabled, hinted, onPress }) => {
+  const theme = useTheme() as AppTheme;
+  const [{ isDragging }, drag] = useDrag(
+    {
+      type: DragTypes.Tile,
+      item: (): DragTileItem => ({ letter }),
+      canDrag: () => !disabled,
+      collect: (monitor) => ({ isDragging: monitor.isDragging() }),
+    },
+    [letter, disabled],
+  );
+
+  const Button = hinted && !disabled ? HintedLetterButton : LetterButton;
+
+  return (
+    <Button
+      ref={drag}
+      disabled={disabled}
+      onClick={() => onPress(letter)}
+      theme={theme}
+      style={{ opacity: isDragging ? 0.5 : 1 }}
+    >
+      {letter.letter}
+    </Button>
+  );
+};
+
+// Racks with more than the usual three rows of letters need the extra room.
+const Container = styled.div<{ extraRows: number }>`
   position: relative;
   display: flex;
   align-items: center;
   justify-content: center;
   flex-wrap: wrap;
-  flex: 0 0 200px;
+  flex: 0 0 ${(p) => 200 + p.extraRows * 62}px;
   margin: 0;
 
   @media (max-height: 670px) {
-    flex: 0 0 140px;
+    flex: 0 0 ${(p) => 140 + p.extraRows * 50}px;
   }
 `;
 
@@ -377,6 +439,7 @@ const LettersContainer = styled.div<{ theme: AppTheme }>`
   flex-wrap: wrap;
   background: ${(p) => p.theme.colors.primary};
   width: 360px; // 6 tiles * tile size
+  max-width: 100%;
   min-height: 50px;
 `;
 
@@ -430,6 +493,10 @@ const LetterButton = styled.button<{ theme: AppTheme }>`
   }
 `;
 
+const HintedLetterButton = styled(LetterButton)`
+  box-shadow: inset 0 0 0 2px #f59f00;
+`;
+
 const DisabledLetterButton = styled(LetterButton)`
   opacity: 0.5;
 `;
@@ -0,0 +1,58 @@
+import { FC } from "react";
+import styled from "@emotion/styled";
+import { useTheme } from "@emotion/react";
+import { useDragLayer } from "react-dnd";
+import { AppTheme } from "../constants/themes";
+import { DragBoardTileItem, DragTileItem } from "../constants/game";
+
+// The touch backend doesn't render anything while dragging, so we draw the
+// letter being dragged under the player's finger ourselves.
+export const DragPreview: FC = () => {
+  const theme = useTheme() as AppTheme;
+  const { item, isDragging, currentOffset } = useDragLayer((monitor) => ({
+    item: monitor.getItem() as DragTileItem | DragBoardTileItem | null,
+    isDragging: monitor.isDragging(),
+    currentOffset: monitor.getSourceClientOffset(),
+  }));
+
+  if (!isDragging || !item || !currentOffset) {
+    return null;
+  }
+
+  return (
+    <Container>
+      <Tile
+        theme={theme}
+        style={{ transform: `translate(${currentOffset.x}px, ${currentOffset.y}px)` }}
+      >
+        {item.letter.letter}
+      </Tile>
+    </Container>
+  );
+};
+
+const Container = styled.div`
+  position: fixed;
+  pointer-events: none;
+  z-index: 100;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+`;
+
+const Tile = styled.div<{ theme: AppTheme }>`
+  height: 50px;
+  width: 50px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  border: 2px solid #787c7e;
+  background: ${(p) => p.theme.colors.primary};
+  color: ${(p) => p.theme.colors.text};
+  box-shadow: ${(p) => p.theme.accents.dropShadow};
+  font-weight: 700;
+  font-size: 24px;
+  text-transform: uppercase;
+  opacity: 0.9;
+`;
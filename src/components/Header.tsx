@@ -2,11 +2,15 @@ import { FC, useContext } from "react";
 import styled from "@emotion/styled";
 import { useTheme } from "@emotion/react";
 import { ModalsContext } from "../contexts/modals";
+import { GameContext } from "../contexts/game";
 import { AppTheme } from "../constants/themes";
+import { PuzzleMode } from "../utils/puzzle-calendar";
+import { BoardVariant, BoardVariantLabels } from "../utils/game";
 
 export const Header: FC = () => {
   const theme = useTheme() as AppTheme;
-  const { openInstructions, openStats, openSettings } = useContext(ModalsContext);
+  const { openInstructions, openStats, openSettings, openArchive } = useContext(ModalsContext);
+  const { puzzle } = useContext(GameContext);
 
   return (
     <Container theme={theme}>
@@ -36,8 +40,56 @@ export const Header: FC = () => {
             ></path>
           </svg>
         </Button>
+
+        {/* Archive */}
+        <Button onClick={openArchive}>
+          <svg
+            width="24"
+            height="24"
+            viewBox="0 0 24 24"
+            fill="none"
+            xmlns="http://www.w3.org/2000/svg"
+          >
+            <path
+              d="M4.75 8.75C4.75 7.64543 5.64543 6.75 6.75 6.75H17.25C18.3546 6.75 19.25 7.64543 19.25 8.75V17.25C19.25 18.3546 18.3546 19.25 17.25 19.25H6.75C5.64543 19.25 4.75 18.3546 4.75 17.25V8.75Z"
+              stroke={theme.colors.text}
+              strokeWidth="1.5"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            ></path>
+            <path
+              d="M8 4.75V8.25"
+              stroke={theme.colors.text}
+              strokeWidth="1.5"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            ></path>
+            <path
+              d="M16 4.75V8.25"
+              stroke={theme.colors.text}
+              strokeWidth="1.5"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            ></path>
+            <path
+              d="M7.75 10.75H16.25"
+              stroke={theme.colors.text}
+              strokeWidth="1.5"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            ></path>
+          </svg>
+        </Button>
       </ButtonContainer>
-      <Title theme={theme}>Cross Wordle</Title>
+      <Title theme={theme}>
+        {puzzle.mode === PuzzleMode.Archive
+          ? `Archive #${puzzle.number}`
+          : puzzle.mode === PuzzleMode.Practice && puzzle.variant !== BoardVariant.Classic
+          ? `${BoardVariantLabels[puzzle.variant]} Practice`
+          : puzzle.mode === PuzzleMode.Practice
+          ? "Practice"
+          : "Cross Wordle"}
+      </Title>
       <ButtonContainer>
         {/* Stats */}
         <Button onClick={openStats}>
@@ -0,0 +1,220 @@
+import { FC, useContext, useMemo, useState } from "react";
+import styled from "@emotion/styled";
+import { useTheme } from "@emotion/react";
+import { Modal } from "./Modal";
+import { ModalsContext } from "../../contexts/modals";
+import { PuzzleContext } from "../../contexts/puzzle";
+import { AppTheme } from "../../constants/themes";
+import { useStats } from "../../hooks/useStats";
+import { getPuzzleDate, PuzzleMode, todaysPuzzle } from "../../utils/puzzle-calendar";
+import { GameResult, getResultMarkers } from "../../utils/stats";
+import { DifficultyLabels } from "../../utils/difficulty";
+import { BoardConfigs, BoardVariant, BoardVariantLabels, Config } from "../../utils/game";
+
+const PageSize = 30;
+
+function formatPuzzleDate(puzzleNumber: number) {
+  return getPuzzleDate(puzzleNumber).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// Prefer the result from when the puzzle was played as a daily, since that's
+// the one that counts towards the stats people care about. Practice games
+// aren't tied to a day, so they never show up here.
+function getResultsByPuzzle(history: GameResult[]) {
+  const results = new Map<number, GameResult>();
+  for (const result of history) {
+    if (result.mode === PuzzleMode.Practice) continue;
+    const existing = results.get(result.puzzleNumber);
+    if (!existing || existing.mode !== PuzzleMode.Daily) {
+      results.set(result.puzzleNumber, result);
+    }
+  }
+  return results;
+}
+
+export const ArchiveModal: FC = () => {
+  const theme = useTheme() as AppTheme;
+  const { puzzle, openDailyPuzzle, openArchivePuzzle, openPracticePuzzle, newPracticePuzzle } =
+    useContext(PuzzleContext);
+  const { closeModal } = useContext(ModalsContext);
+  const { history } = useStats(PuzzleMode.Archive, puzzle.locale);
+  const [pages, setPages] = useState(1);
+
+  const resultsByPuzzle = useMemo(() => getResultsByPuzzle(history), [history]);
+
+  const puzzleNumbers = useMemo(() => {
+    const numbers = [];
+    const oldest = Math.max(todaysPuzzle.number - pages * PageSize, 1);
+    for (let n = todaysPuzzle.number - 1; n >= oldest; n--) {
+      numbers.push(n);
+    }
+    return numbers;
+  }, [pages]);
+
+  const hasMore = puzzleNumbers[puzzleNumbers.length - 1] > 1;
+
+  return (
+    <Modal>
+      <Title>Archive</Title>
+      <Paragraph>
+        Play any previous day's puzzle, or practice with unlimited random boards.
+      </Paragraph>
+
+      {puzzle.mode !== PuzzleMode.Practice ? (
+        <PuzzleRow
+          theme={theme}
+          onClick={() => {
+            openPracticePuzzle();
+            closeModal();
+          }}
+        >
+          <PuzzleName>Practice</PuzzleName>
+          <PuzzleDate>Random boards, no streaks</PuzzleDate>
+          <PuzzleResult>∞</PuzzleResult>
+        </PuzzleRow>
+      ) : null}
+
+      {[BoardVariant.Mini, BoardVariant.Large].map((variant) => {
+        const { rows, cols, letterCount } = BoardConfigs[variant];
+        return (
+          <PuzzleRow
+            key={variant}
+            theme={theme}
+            active={puzzle.mode === PuzzleMode.Practice && puzzle.variant === variant}
+            onClick={() => {
+              newPracticePuzzle(variant);
+              closeModal();
+            }}
+          >
+            <PuzzleName>{BoardVariantLabels[variant]}</PuzzleName>
+            <PuzzleDate>
+              {rows}×{cols} practice, {letterCount} letters
+            </PuzzleDate>
+            <PuzzleResult>∞</PuzzleResult>
+          </PuzzleRow>
+        );
+      })}
+
+      {puzzle.mode !== PuzzleMode.Daily ? (
+        <PuzzleRow
+          theme={theme}
+          onClick={() => {
+            openDailyPuzzle();
+            closeModal();
+          }}
+        >
+          <PuzzleName>Today's puzzle</PuzzleName>
+          <PuzzleDate>{formatPuzzleDate(todaysPuzzle.number)}</PuzzleDate>
+          <PuzzleResult>#{todaysPuzzle.number}</PuzzleResult>
+        </PuzzleRow>
+      ) : null}
+
+      {puzzleNumbers.map((puzzleNumber) => {
+        const result = resultsByPuzzle.get(puzzleNumber);
+        return (
+          <PuzzleRow
+            key={puzzleNumber}
+            theme={theme}
+            active={puzzle.mode === PuzzleMode.Archive && puzzle.number === puzzleNumber}
+            onClick={() => {
+              openArchivePuzzle(puzzleNumber);
+              closeModal();
+            }}
+          >
+            <PuzzleName>#{puzzleNumber}</PuzzleName>
+            <PuzzleDate>
+              {formatPuzzleDate(puzzleNumber)}
+              {result?.difficulty ? ` · ${DifficultyLabels[result.difficulty]}` : null}
+            </PuzzleDate>
+            <PuzzleResult>
+              {result ? `${result.score}/${Config.MaxLetters}${getResultMarkers(result)}` : "—"}
+            </PuzzleResult>
+          </PuzzleRow>
+        );
+      })}
+
+      {hasMore ? (
+        <MoreButton theme={theme} onClick={() => setPages(pages + 1)}>
+          Show more
+        </MoreButton>
+      ) : null}
+    </Modal>
+  );
+};
+
+const Title = styled.h1`
+  margin: 0 0 24px;
+  font-weight: 700;
+  font-size: 1.3rem;
+  letter-spacing: 0.025rem;
+  text-transform: uppercase;
+  text-align: center;
+`;
+
+const Paragraph = styled.p`
+  font-weight: 500;
+  font-size: 1rem;
+  text-align: center;
+  margin: 0 auto 24px;
+`;
+
+const PuzzleRow = styled.button<{ active?: boolean; theme: AppTheme }>`
+  width: 100%;
+  display: flex;
+  align-items: center;
+  border: 0;
+  border-bottom: 1px solid ${(p) => p.theme.colors.tileSecondary};
+  padding: 12px 8px;
+  background: ${(p) => (p.active ? p.theme.colors.highlight : "none")};
+  color: ${(p) => p.theme.colors.text};
+  font-size: 1rem;
+  cursor: pointer;
+  transition: background 50ms ease-in;
+
+  &:hover {
+    background: ${(p) => p.theme.colors.highlight};
+  }
+`;
+
+const PuzzleName = styled.span`
+  flex: 1;
+  font-weight: 700;
+  text-align: left;
+`;
+
+const PuzzleDate = styled.span`
+  flex: 2;
+  font-weight: 400;
+  opacity: 0.75;
+  text-align: left;
+`;
+
+const PuzzleResult = styled.span`
+  flex: 1;
+  font-weight: 700;
+  text-align: right;
+`;
+
+const MoreButton = styled.button<{ theme: AppTheme }>`
+  display: block;
+  height: 40px;
+  width: 120px;
+  margin: 24px auto 12px;
+  font-size: 0.9rem;
+  font-weight: 700;
+  text-transform: uppercase;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+  color: ${(p) => p.theme.colors.text};
+  background: ${(p) => p.theme.colors.tileSecondary};
+
+  &:active {
+    background: ${(p) => p.theme.colors.buttonActive};
+  }
+`;
@@ -0,0 +1,125 @@
+import { FC, useContext } from "react";
+import styled from "@emotion/styled";
+import { useTheme } from "@emotion/react";
+import { Modal } from "./Modal";
+import { GameContext } from "../../contexts/game";
+import { ModalsContext } from "../../contexts/modals";
+import { ToastContext } from "../../contexts/toast";
+import { AppTheme } from "../../constants/themes";
+import { HintKind, HintMarker } from "../../utils/hints";
+
+const HintDescriptions = [
+  {
+    kind: HintKind.RevealWord,
+    name: "Reveal a word",
+    description: "Outlines where one of the words goes on the board",
+  },
+  {
+    kind: HintKind.LockLetter,
+    name: "Lock a letter",
+    description: "Locks one letter into its spot on the board",
+  },
+  {
+    kind: HintKind.LongestWord,
+    name: "Longest word",
+    description: "Highlights the letters that make up the longest word",
+  },
+];
+
+export const HintsModal: FC = () => {
+  const theme = useTheme() as AppTheme;
+  const { hints, requestHint, isGameOver } = useContext(GameContext);
+  const { closeModal } = useContext(ModalsContext);
+  const { sendToast } = useContext(ToastContext);
+
+  return (
+    <Modal>
+      <Title>Hints</Title>
+      <Paragraph>
+        Stuck? Every hint you use shows up as a {HintMarker} when you share your score.
+      </Paragraph>
+
+      {HintDescriptions.map(({ kind, name, description }) => (
+        <HintRow
+          key={kind}
+          theme={theme}
+          disabled={isGameOver}
+          onClick={() => {
+            if (requestHint(kind)) {
+              closeModal();
+            } else {
+              sendToast("There are no more hints like that to give.");
+            }
+          }}
+        >
+          <Label>
+            <Name>{name}</Name>
+            <Description>{description}</Description>
+          </Label>
+          <Count>{HintMarker.repeat(hints.filter((hint) => hint.kind === kind).length)}</Count>
+        </HintRow>
+      ))}
+    </Modal>
+  );
+};
+
+const Title = styled.h1`
+  margin: 0 0 24px;
+  font-weight: 700;
+  font-size: 1.3rem;
+  letter-spacing: 0.025rem;
+  text-transform: uppercase;
+  text-align: center;
+`;
+
+const Paragraph = styled.p`
+  font-weight: 500;
+  font-size: 1rem;
+  text-align: center;
+  margin: 0 auto 24px;
+`;
+
+const HintRow = styled.button<{ theme: AppTheme }>`
+  width: 100%;
+  display: flex;
+  align-items: center;
+  border: 0;
+  border-bottom: 1px solid ${(p) => p.theme.colors.tileSecondary};
+  padding: 12px 8px;
+  background: none;
+  color: ${(p) => p.theme.colors.text};
+  cursor: pointer;
+  transition: background 50ms ease-in;
+
+  &:hover:not([disabled]) {
+    background: ${(p) => p.theme.colors.highlight};
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+`;
+
+const Label = styled.div`
+  flex: 3;
+  text-align: left;
+`;
+
+const Name = styled.p`
+  margin: 0 0 4px;
+  font-weight: 600;
+  font-size: 1.1rem;
+`;
+
+const Description = styled.p`
+  margin: 0;
+  font-weight: 400;
+  font-size: 0.9rem;
+  opacity: 0.75;
+`;
+
+const Count = styled.span`
+  flex: 1;
+  text-align: right;
+`;
@@ -4,11 +4,13 @@ import createPersistedState from "use-persisted-state";
 import { Modal } from "./Modal";
 import { PersistedStates } from "../../constants/state";
 import { GameContext } from "../../contexts/game";
-import { Config } from "../../utils/game";
+import { PuzzleContext } from "../../contexts/puzzle";
 import { ToastContext } from "../../contexts/toast";
+import { getLocale, Locale } from "../../utils/locale";
 
 const useDarkTheme = createPersistedState(PersistedStates.DarkTheme);
 const useHardMode = createPersistedState(PersistedStates.HardMode);
+const useAssistMode = createPersistedState(PersistedStates.AssistMode);
 
 type CrosswordleObj = {
   hash: string;
@@ -25,8 +27,10 @@ function getAppHash() {
 export const SettingsModal: FC = () => {
   const [darkTheme, setDarkTheme] = useDarkTheme(false) as [boolean, React.Dispatch<boolean>];
   const [hardMode, setHardMode] = useHardMode(false) as [boolean, React.Dispatch<boolean>];
-  const { unusedLetters } = useContext(GameContext);
+  const [assistMode, setAssistMode] = useAssistMode(false) as [boolean, React.Dispatch<boolean>];
+  const { config, unusedLetters } = useContext(GameContext);
   const { sendToast } = useContext(ToastContext);
+  const { locale, setLocale } = useContext(PuzzleContext);
   const hash = useMemo(() => getAppHash(), []);
 
   return (
@@ -52,7 +56,7 @@ export const SettingsModal: FC = () => {
               if (hardMode) {
                 setHardMode(false);
               } else {
-                if (unusedLetters.length === Config.MaxLetters) {
+                if (unusedLetters.length === config.letterCount) {
                   setHardMode(true);
                 } else {
                   sendToast("You can only turn on hard mode at the start of a game");
@@ -63,6 +67,33 @@ export const SettingsModal: FC = () => {
           />
         </ToggleContainer>
       </Setting>
+      <Setting>
+        <Label>
+          <Name>Assist mode</Name>
+          <Description>Checks your words as you go, marked with a 🔍 when shared</Description>
+        </Label>
+        <ToggleContainer>
+          <Toggle onClick={() => setAssistMode(!assistMode)} enabled={assistMode} />
+        </ToggleContainer>
+      </Setting>
+      <Setting>
+        <Label>
+          <Name>Language</Name>
+          <Description>Puzzles in {getLocale(locale).label}, with their own stats</Description>
+        </Label>
+        <LocaleOptions>
+          {Object.values(Locale).map((option) => (
+            <LocaleOption
+              key={option}
+              title={getLocale(option).label}
+              selected={option === locale}
+              onClick={() => setLocale(option)}
+            >
+              {option.toUpperCase()}
+            </LocaleOption>
+          ))}
+        </LocaleOptions>
+      </Setting>
       <TagContainer
         onClick={() => {
           window.open("https://github.com/nickzuber/cross-wordle", "_blank");
@@ -151,6 +182,25 @@ const Toggle = styled.div<{ enabled: boolean }>`
   }
 `;
 
+const LocaleOptions = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 6px;
+  flex: 2;
+`;
+
+const LocaleOption = styled.button<{ selected: boolean }>`
+  border: none;
+  border-radius: 4px;
+  padding: 4px 8px;
+  font-weight: 600;
+  font-size: 0.8rem;
+  color: #ffffff;
+  cursor: pointer;
+  background: ${(p) => (p.selected ? "#6aaa64" : "#787c7e")};
+  transition: all 150ms ease;
+`;
+
 const TagContainer = styled.div`
   margin: 48px auto 24px;
   display: flex;
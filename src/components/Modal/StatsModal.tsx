@@ -5,21 +5,34 @@ import { Modal } from "./Modal";
 import { GameContext } from "../../contexts/game";
 import { createSuccessReveal } from "../../constants/animations";
 import { countValidLettersOnBoard } from "../../utils/board-validator";
-import { Config } from "../../utils/game";
+import { DifficultyLabels } from "../../utils/difficulty";
+import { Board, BoardConfig, Letter } from "../../utils/game";
 import { ToastContext } from "../../contexts/toast";
 import { AppTheme } from "../../constants/themes";
+import { useStats } from "../../hooks/useStats";
+import { PuzzleContext } from "../../contexts/puzzle";
+import { Stats } from "../../utils/stats";
+import { getPuzzleDate, PuzzleMode, todaysPuzzle } from "../../utils/puzzle-calendar";
+import {
+  boardToGrid,
+  enumerateSolutions,
+  EnumerateResult,
+  isSameSolution,
+  solve,
+  SolverResult,
+} from "../../utils/solver";
+import { SolutionBoard } from "../../utils/words-helper";
+import { LoadableDictionary } from "../../utils/dictionary";
+import { getLocale } from "../../utils/locale";
 
 function zeroPad(num: number, places: number) {
   return String(num).padStart(places, "0");
 }
 
 function getTimeLeftInDay() {
-  const today = new Date();
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  tomorrow.setHours(0, 0, 0, 0);
+  const nextPuzzleDate = getPuzzleDate(todaysPuzzle.number + 1);
 
-  const ms = tomorrow.getTime() - today.getTime();
+  const ms = Math.max(nextPuzzleDate.getTime() - Date.now(), 0);
   const seconds = ms / 1000;
   const minutes = seconds / 60;
   const hours = minutes / 60;
@@ -30,20 +43,22 @@ function getTimeLeftInDay() {
   )}`;
 }
 
-function scoreToCompliment(score: number) {
-  if (score < 10) {
+// The thresholds are out of the classic 20 letters, scaled to the board size.
+function scoreToCompliment(score: number, letterCount: number) {
+  const percent = (score / letterCount) * 100;
+  if (percent < 50) {
     return "Better luck next time!";
   }
-  if (score < 14) {
+  if (percent < 70) {
     return "Not too shabby!";
   }
-  if (score < 16) {
+  if (percent < 80) {
     return "Nice.";
   }
-  if (score < 20) {
+  if (percent < 100) {
     return "Awesome!";
   }
-  if (score >= 20) {
+  if (percent >= 100) {
     return "Perfect — you're amazing!";
   }
   return "";
@@ -51,8 +66,12 @@ function scoreToCompliment(score: number) {
 
 export const StatsModal: FC = () => {
   const theme = useTheme() as AppTheme;
-  const { board, solutionBoard, getShareLink, isGameOver } = useContext(GameContext);
+  const { puzzle, config, board, letters, solutionBoard, difficulty, getShareLink, isGameOver } =
+    useContext(GameContext);
   const { sendToast } = useContext(ToastContext);
+  const { stats } = useStats(puzzle.mode, puzzle.locale, puzzle.variant);
+  const { dictionary } = getLocale(puzzle.locale);
+  const { newPracticePuzzle } = useContext(PuzzleContext);
   const [timeLeft, setTimeLeft] = useState(getTimeLeftInDay());
   const [showPreview, setShowPreview] = useState(false);
 
@@ -87,31 +106,43 @@ export const StatsModal: FC = () => {
   return (
     <Modal>
       <Title>Statistics</Title>
+      <StatsSummary stats={stats} showStreaks={puzzle.mode === PuzzleMode.Daily} />
+      <Subtitle>Score distribution</Subtitle>
+      <ScoreDistribution
+        stats={stats}
+        todaysScore={isGameOver ? countValidLettersOnBoard(board) : null}
+      />
       {isGameOver ? (
         <Fragment>
           <Paragraph>
             You were able to correctly use
             <Result>
-              {countValidLettersOnBoard(board)}/{Config.MaxLetters}
+              {countValidLettersOnBoard(board)}/{config.letterCount}
             </Result>
             letters on your board.
             <br />
-            <b>{scoreToCompliment(countValidLettersOnBoard(board))}</b>
+            <b>{scoreToCompliment(countValidLettersOnBoard(board), config.letterCount)}</b>
+            <br />
+            This puzzle was rated <b>{DifficultyLabels[difficulty].toLowerCase()}</b>.
           </Paragraph>
         </Fragment>
       ) : null}
       {!isGameOver ? (
         <MiniBoard
           theme={theme}
+          rows={config.rows}
+          cols={config.cols}
           hidePreview={true}
           message="You must submit your board before you can see today's original solution"
           isGameOver={isGameOver}
         >
-          <MiniBoardEmptyRows />
+          <MiniBoardEmptyRows config={config} />
         </MiniBoard>
       ) : (
         <MiniBoard
           theme={theme}
+          rows={config.rows}
+          cols={config.cols}
           hidePreview={!showPreview}
           message="Tap to see today's original solution"
           isGameOver={isGameOver}
@@ -140,10 +171,30 @@ export const StatsModal: FC = () => {
         </MiniBoard>
       )}
 
+      {isGameOver ? (
+        <BestPossible board={board} config={config} letters={letters} dictionary={dictionary} />
+      ) : null}
+
+      {isGameOver ? (
+        <OtherSolutions
+          board={board}
+          config={config}
+          letters={letters}
+          solutionBoard={solutionBoard}
+          dictionary={dictionary}
+        />
+      ) : null}
+
       {isGameOver ? (
         <ShareContainer>
           <ShareSection>
-            <Clock>{timeLeft}</Clock>
+            {puzzle.mode === PuzzleMode.Practice ? (
+              <NewPuzzleButton onClick={() => newPracticePuzzle(puzzle.variant)}>
+                New puzzle
+              </NewPuzzleButton>
+            ) : (
+              <Clock>{puzzle.mode === PuzzleMode.Daily ? timeLeft : `#${puzzle.number}`}</Clock>
+            )}
           </ShareSection>
           <ShareSection>
             <ShareButton onClick={onShareResults}>
@@ -200,135 +251,259 @@ export const StatsModal: FC = () => {
   );
 };
 
-const MiniBoardEmptyRows = () => {
+const StatsSummary: FC<{ stats: Stats; showStreaks: boolean }> = ({ stats, showStreaks }) => {
+  return (
+    <StatsRow>
+      <Stat>
+        <StatValue>{stats.gamesPlayed}</StatValue>
+        <StatLabel>Played</StatLabel>
+      </Stat>
+      <Stat>
+        <StatValue>{stats.averageScore.toFixed(1)}</StatValue>
+        <StatLabel>Average score</StatLabel>
+      </Stat>
+      <Stat>
+        <StatValue>{stats.perfectGames}</StatValue>
+        <StatLabel>Perfect games</StatLabel>
+      </Stat>
+      {showStreaks ? (
+        <Fragment>
+          <Stat>
+            <StatValue>{stats.currentStreak}</StatValue>
+            <StatLabel>Current streak</StatLabel>
+          </Stat>
+          <Stat>
+            <StatValue>{stats.longestStreak}</StatValue>
+            <StatLabel>Max streak</StatLabel>
+          </Stat>
+        </Fragment>
+      ) : null}
+    </StatsRow>
+  );
+};
+
+const ScoreDistribution: FC<{ stats: Stats; todaysScore: number | null }> = ({
+  stats,
+  todaysScore,
+}) => {
+  const mostGames = Math.max(...stats.distribution, 1);
+
+  return (
+    <DistributionChart>
+      {stats.distribution.map((games, score) => (
+        <DistributionColumn key={score}>
+          <DistributionBar
+            highlight={score === todaysScore}
+            style={{ height: `${(games / mostGames) * 100}%` }}
+          >
+            {games > 0 ? games : null}
+          </DistributionBar>
+          <DistributionLabel>{score}</DistributionLabel>
+        </DistributionColumn>
+      ))}
+    </DistributionChart>
+  );
+};
+
+// Runs the solver on demand, since it can take a second or two.
+type BestPossibleProps = {
+  board: Board;
+  config: BoardConfig;
+  letters: Letter[];
+  dictionary: LoadableDictionary;
+};
+
+const BestPossible: FC<BestPossibleProps> = ({ board, config, letters, dictionary }) => {
+  const theme = useTheme() as AppTheme;
+  const { sendToast } = useContext(ToastContext);
+  const [isSolving, setIsSolving] = useState(false);
+  const [result, setResult] = useState<SolverResult | null>(null);
+
+  function onSolve() {
+    setIsSolving(true);
+    // The solver needs every word, not just the common ones. Loading them
+    // also lets the button update before the solver ties up the page.
+    dictionary.load().then(
+      () =>
+        setTimeout(() => {
+          setResult(solve(letters, board, { dictionary }));
+          setIsSolving(false);
+        }, 50),
+      () => {
+        setIsSolving(false);
+        sendToast("Something went wrong.");
+      },
+    );
+  }
+
+  if (!result) {
+    return (
+      <SolveButton theme={theme} disabled={isSolving} onClick={onSolve}>
+        {isSolving ? "Solving..." : "Best possible from your board"}
+      </SolveButton>
+    );
+  }
+
+  return (
+    <Fragment>
+      <Paragraph>
+        The best we found starting from your board uses
+        <Result>
+          {result.score}/{letters.length}
+        </Result>
+        letters.
+        {result.exhaustive ? null : (
+          <Fragment>
+            <br />
+            There might be better, we ran out of time looking.
+          </Fragment>
+        )}
+      </Paragraph>
+      <MiniBoard theme={theme} rows={config.rows} cols={config.cols} isGameOver={true}>
+        {result.board.map((row, r) => (
+          <MiniRow key={r}>
+            {row.map((letter, c) => (
+              <MiniTileWrapper key={`${r}${c}`}>
+                {letter && !board.tiles[r][c].letter ? (
+                  <MiniTileContentsAdded theme={theme}>{letter}</MiniTileContentsAdded>
+                ) : (
+                  <MiniTileContents theme={theme}>{letter}</MiniTileContents>
+                )}
+              </MiniTileWrapper>
+            ))}
+          </MiniRow>
+        ))}
+      </MiniBoard>
+    </Fragment>
+  );
+};
+
+type OtherSolutionsProps = {
+  board: Board;
+  config: BoardConfig;
+  letters: Letter[];
+  solutionBoard: SolutionBoard;
+  dictionary: LoadableDictionary;
+};
+
+// Looks for other ways to use every letter, leaving out the original solution
+// since that one is already shown above.
+const OtherSolutions: FC<OtherSolutionsProps> = ({
+  board,
+  config,
+  letters,
+  solutionBoard,
+  dictionary,
+}) => {
+  const theme = useTheme() as AppTheme;
+  const { sendToast } = useContext(ToastContext);
+  const [isSearching, setIsSearching] = useState(false);
+  const [result, setResult] = useState<EnumerateResult | null>(null);
+  const [index, setIndex] = useState(0);
+
+  const playerGrid = boardToGrid(board);
+  const matchesOriginal = isSameSolution(playerGrid, solutionBoard);
+
+  function onSearch() {
+    setIsSearching(true);
+    dictionary.load().then(
+      () =>
+        setTimeout(() => {
+          const { solutions, exhaustive } = enumerateSolutions(letters, {
+            timeBudget: 2000,
+            config,
+            dictionary,
+          });
+          setResult({
+            solutions: solutions.filter((solution) => !isSameSolution(solution, solutionBoard)),
+            exhaustive,
+          });
+          setIsSearching(false);
+        }, 50),
+      () => {
+        setIsSearching(false);
+        sendToast("Something went wrong.");
+      },
+    );
+  }
+
+  const solutions = result?.solutions ?? [];
+  const current = solutions[index];
+
+  return (
+    <Fragment>
+      {matchesOriginal ? (
+        <Paragraph>
+          <b>Your board matches today's original solution!</b>
+        </Paragraph>
+      ) : null}
+
+      {!result ? (
+        <SolveButton theme={theme} disabled={isSearching} onClick={onSearch}>
+          {isSearching ? "Searching..." : "Other solutions"}
+        </SolveButton>
+      ) : (
+        <Paragraph>
+          We found {result.exhaustive ? "" : "at least "}
+          {solutions.length} other {solutions.length === 1 ? "way" : "ways"} to use every letter.
+        </Paragraph>
+      )}
+
+      {current ? (
+        <Fragment>
+          <MiniBoard theme={theme} rows={config.rows} cols={config.cols} isGameOver={true}>
+            {current.map((row, r) => (
+              <MiniRow key={r}>
+                {row.map((letter, c) => (
+                  <MiniTileWrapper key={`${r}${c}`}>
+                    <MiniTileContents theme={theme}>{letter}</MiniTileContents>
+                  </MiniTileWrapper>
+                ))}
+              </MiniRow>
+            ))}
+          </MiniBoard>
+          <SolutionPager>
+            <SolveButton theme={theme} disabled={index === 0} onClick={() => setIndex(index - 1)}>
+              Prev
+            </SolveButton>
+            <span>
+              {index + 1} of {solutions.length}
+              {isSameSolution(playerGrid, current) ? " (yours!)" : ""}
+            </span>
+            <SolveButton
+              theme={theme}
+              disabled={index === solutions.length - 1}
+              onClick={() => setIndex(index + 1)}
+            >
+              Next
+            </SolveButton>
+          </SolutionPager>
+        </Fragment>
+      ) : null}
+    </Fragment>
+  );
+};
+
+const MiniBoardEmptyRows: FC<{ config: BoardConfig }> = ({ config }) => {
   const theme = useTheme() as AppTheme;
   return (
     <Fragment>
-      <MiniRow>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-      </MiniRow>
-      <MiniRow>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-      </MiniRow>
-      <MiniRow>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-      </MiniRow>
-      <MiniRow>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-      </MiniRow>
-      <MiniRow>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-      </MiniRow>
-      <MiniRow>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-        <MiniTileWrapper>
-          <MiniTileContents theme={theme} />
-        </MiniTileWrapper>
-      </MiniRow>
+      {new Array(config.rows).fill(null).map((_, r) => (
+        <MiniRow key={r}>
+          {new Array(config.cols).fill(null).map((_, c) => (
+            <MiniTileWrapper key={c}>
+              <MiniTileContents theme={theme} />
+            </MiniTileWrapper>
+          ))}
+        </MiniRow>
+      ))}
     </Fragment>
   );
 };
 
 const MiniBoard = styled.div<{
+  rows: number;
+  cols: number;
   isGameOver: boolean;
   hidePreview?: boolean;
   message?: string;
@@ -336,8 +511,8 @@ const MiniBoard = styled.div<{
 }>`
   position: relative;
   background: ${(p) => p.theme.colors.primary};
-  width: 240px; // 6 tiles * tile size
-  height: 240px;
+  width: ${(p) => p.cols * 40}px; // tiles * tile size
+  height: ${(p) => p.rows * 40}px;
   margin: 0 auto;
 
   ${(p) =>
@@ -425,6 +600,11 @@ const MiniTileContentsSuccess = styled(MiniTileContents)<{
   animation-fill-mode: forwards;
 `;
 
+// Letters the solver added on top of the player's board.
+const MiniTileContentsAdded = styled(MiniTileContents)`
+  border-color: #228be6;
+`;
+
 // ====================================================
 
 const Title = styled.h1`
@@ -436,6 +616,76 @@ const Title = styled.h1`
   text-align: center;
 `;
 
+const Subtitle = styled.h2`
+  margin: 0 0 12px;
+  font-weight: 700;
+  font-size: 1rem;
+  letter-spacing: 0.025rem;
+  text-transform: uppercase;
+  text-align: center;
+`;
+
+const StatsRow = styled.div`
+  display: flex;
+  justify-content: center;
+  margin: 0 auto 24px;
+`;
+
+const Stat = styled.div`
+  flex: 1;
+  max-width: 80px;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  text-align: center;
+`;
+
+const StatValue = styled.div`
+  font-size: 1.8rem;
+  font-weight: 500;
+  font-variant-numeric: proportional-nums;
+`;
+
+const StatLabel = styled.div`
+  font-size: 0.7rem;
+`;
+
+const DistributionChart = styled.div`
+  display: flex;
+  justify-content: center;
+  align-items: flex-end;
+  height: 100px;
+  margin: 0 auto 24px;
+`;
+
+const DistributionColumn = styled.div`
+  height: 100%;
+  width: 14px;
+  margin: 0 1px;
+  display: flex;
+  flex-direction: column;
+  justify-content: flex-end;
+  align-items: center;
+`;
+
+const DistributionBar = styled.div<{ highlight: boolean }>`
+  width: 100%;
+  min-height: 2px;
+  display: flex;
+  justify-content: center;
+  align-items: flex-start;
+  border-radius: 2px 2px 0 0;
+  font-size: 0.6rem;
+  font-weight: 700;
+  color: #ffffff;
+  background: ${(p) => (p.highlight ? "#6aaa64" : "#787c7e")};
+`;
+
+const DistributionLabel = styled.div`
+  font-size: 0.6rem;
+  margin-top: 2px;
+`;
+
 const Paragraph = styled.p`
   font-weight: 500;
   font-size: 1rem;
@@ -486,6 +736,72 @@ const ShareSection = styled.div`
   align-items: center;
 `;
 
+const NewPuzzleButton = styled.button`
+  height: 40px;
+  width: 120px;
+  display: flex;
+  justify-content: center;
+  align-items: center;
+  font-size: 0.9rem;
+  text-transform: uppercase;
+  font-weight: 700;
+  letter-spacing: 0.25px;
+  border: none;
+  background: #228be6;
+  color: #ffffff;
+  border-radius: 4px;
+  cursor: pointer;
+  transition: background 100ms ease-in;
+
+  &:hover {
+    background: #1c7ed6;
+  }
+
+  &:active {
+    background: #1971c2;
+  }
+`;
+
+const SolveButton = styled.button<{ theme: AppTheme }>`
+  display: block;
+  height: 40px;
+  margin: 24px auto 0;
+  padding: 0 16px;
+  font-size: 0.9rem;
+  font-weight: 700;
+  text-transform: uppercase;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+  color: ${(p) => p.theme.colors.text};
+  background: ${(p) => p.theme.colors.tileSecondary};
+
+  &:active {
+    background: ${(p) => p.theme.colors.buttonActive};
+  }
+
+  &:disabled {
+    cursor: default;
+    opacity: 0.75;
+  }
+`;
+
+const SolutionPager = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 12px;
+  font-weight: 700;
+
+  button {
+    margin: 12px 0 0;
+  }
+
+  span {
+    margin-top: 12px;
+  }
+`;
+
 const ShareButton = styled.button`
   height: 40px;
   width: 120px;
@@ -5,13 +5,22 @@ import { ModalsContext } from "../../contexts/modals";
 import { InstructionsModal } from "./InstructionsModal";
 import { StatsModal } from "./StatsModal";
 import { SettingsModal } from "./SettingsModal";
+import { ArchiveModal } from "./ArchiveModal";
+import { HintsModal } from "./HintsModal";
 import { FadeIn } from "../../constants/animations";
 import { AppTheme } from "../../constants/themes";
 
 export const Modal: FC = () => {
   const theme = useTheme() as AppTheme;
-  const { isInstructionsOpen, isStatsOpen, isSettingsOpen, isAnyModalOpen, closeModal } =
-    useContext(ModalsContext);
+  const {
+    isInstructionsOpen,
+    isStatsOpen,
+    isSettingsOpen,
+    isArchiveOpen,
+    isHintsOpen,
+    isAnyModalOpen,
+    closeModal,
+  } = useContext(ModalsContext);
 
   if (!isAnyModalOpen) {
     return null;
@@ -25,6 +34,10 @@ export const Modal: FC = () => {
         <StatsModal />
       ) : isSettingsOpen ? (
         <SettingsModal />
+      ) : isArchiveOpen ? (
+        <ArchiveModal />
+      ) : isHintsOpen ? (
+        <HintsModal />
       ) : null}
     </Container>
   );
@@ -13,3 +13,8 @@ export type DragBoardTileItem = {
   letter: Letter;
   position: [number, number];
 };
+
+// Touch devices don't support native HTML5 drag and drop, so they get the
+// touch backend instead (along with a custom drag preview).
+export const IsTouchDevice =
+  typeof window !== "undefined" && ("ontouchstart" in window || navigator.maxTouchPoints > 0);
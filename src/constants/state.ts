@@ -1,16 +1,40 @@
-import { seed } from "../utils/words-helper";
+import { DefaultLocale, Locale } from "../utils/locale";
 
 export const PersistedStorage = {
   Stamp: "_cross-wordle-game__",
   SeedDivider: "_.-sEeD-dIvIdEr-._",
 };
 
+// States that belong to a single puzzle are namespaced by the puzzle's seed,
+// which is what lets us keep several puzzles around at once and clean them up
+// later on.
+export function getSeededStates(seed: string) {
+  return {
+    GameOver: seed + PersistedStorage.SeedDivider + PersistedStorage.Stamp + "game-over",
+    Board: seed + PersistedStorage.SeedDivider + PersistedStorage.Stamp + "todays-board",
+    Letters: seed + PersistedStorage.SeedDivider + PersistedStorage.Stamp + "todays-letters",
+    History: seed + PersistedStorage.SeedDivider + PersistedStorage.Stamp + "board-history",
+    Hints: seed + PersistedStorage.SeedDivider + PersistedStorage.Stamp + "hints",
+    Assisted: seed + PersistedStorage.SeedDivider + PersistedStorage.Stamp + "assisted",
+  };
+}
+
 export const PersistedStates = {
   FirstTime: PersistedStorage.Stamp + "first-time",
-  GameOver: seed + PersistedStorage.SeedDivider + PersistedStorage.Stamp + "game-over",
-  Board: seed + PersistedStorage.SeedDivider + PersistedStorage.Stamp + "todays-board",
-  Letters: seed + PersistedStorage.SeedDivider + PersistedStorage.Stamp + "todays-letters",
   Stats: PersistedStorage.Stamp + "stats",
   DarkTheme: PersistedStorage.Stamp + "dark-theme",
   HardMode: PersistedStorage.Stamp + "hard-mode",
+  AssistMode: PersistedStorage.Stamp + "assist-mode",
+  PracticeSeed: PersistedStorage.Stamp + "practice-seed",
+  Locale: PersistedStorage.Stamp + "locale",
 };
+
+// Stats and practice puzzles are kept separately for each locale. English
+// keeps the states it had before there were other locales.
+export function getLocaleStates(locale: Locale) {
+  const suffix = locale === DefaultLocale ? "" : `-${locale}`;
+  return {
+    Stats: PersistedStates.Stats + suffix,
+    PracticeSeed: PersistedStates.PracticeSeed + suffix,
+  };
+}
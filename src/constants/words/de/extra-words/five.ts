@@ -0,0 +1,2 @@
+export const words =
+  "5|0aaken2len4s3st3te2rau3on2see4n4r4s3ig1baca3de3ka3rt3sa4i3te2bas4t4u3et3og2don3ul2ece3le4s3ns3rn2gab0abgas2her3in3ob3ub2iam3lo2kam2lad4s3ud2ner2ort2ram3in3uf3ät2sah3ud2tat3ei4s3ue4n4t2uja2weg3og2zgl3og3ug1ccra0achat4z3er3im3se3te2ker3ja2res3yl2tio1dala3ma4s3na2dax3en3on2ele4n4s4t3pt3rn2ieu3ge2ler3ig3on2min2ner4x0adobe3lf3rf3ur2ram4r3ia4g2ult2win1erob2tit1ffen3ig4n4x2ros2ter1gape3ve2ens4t2fas2ger2ile3os2nat3es2ora2ram4r3ia0aguti1haus2ern2len3ff2mad3en4t3st3te2nde3en3in3st3te2orn1idas2gen2oli2res2sch1kaba2ita2kad3us2ola2ral3en2tei4n4s3ie0aktin4v3or2ute2üfi1laaf3nd4e4t3rm3un2ban4s3en3it3um4s2dis2ena3ph3rt3xa2gen4r3is2ias3bi3ce3en3ja3na3ta0aliud2kan3en4r3in3yl2lah3da3ee4l4m4n4r3od3wo3yl4s3zu2mar3en2not2ois2pen3ha3in2tai4n4r3em4n4r4s0altin3öl2une2win4s2zey1mara2bai3er3ig3ra2ero2iga4o3na4e3sh2man3ei4n4r3on2ors2per2rei3um2sel2tes2öbe1nale2bau3ei0anbot2del4n3ys2gab3el4r3ie3le3us2hat3in3ob3ui2ika3me3on3ta2jas2kam3er4s3um2lag3og2mut2nam4s3es3ie2ode2ruf0anrät2sah3og2tat3ik3je3on3ue4n4t2yon2zog3ug2öde1orta1part2hel2ian2noe2oll2pel3le2ril2sis1quin1rals2bat2che3or3us2eal3na0arfst2gem4n4r4s3on4t3us2ial4n3de3el4n4r2kan3us2les2man3em4n4r4s3in3ut2ndt3es3im4s3os2oma3sa2pad0arrak4y3ha2sch3en2tel4n4t3ig3ur4s2uba1sant2cot3us2iat3en2ket3us2pie4k2sad4i4m3el4n4r4s4t2tat3er4s0astor3ra2yls1tair3ri2ems2hen3os2man3en4t2oll3me4s2zen1udio4s4t2gen4s3it3ur2let3os2rel3um2tan3ie3or4s2weh4i0auxin1vare2end3rs2iso3vs3är1ward4e1xels2ial3om1yold2ran1zius2nar2one2ubi3rn0baack3de3ls2bel3si3ys2che4s3ke4t3on2den4r0bades4t2fög2gel3no2hai3ne4t3re3öl2iao2kel4n3us2lda4o3ge4s4t3is3je3le4s4t3sa3te3ve3yk3ze4t2mbi2nal0banat3da4e4s3ge4t3ja4o3ne4s4t3se3tu2rbe4i4y3de4o3em4n4r4s3gt3is3ke3nd3on3st3te4h3yt2sal0basar3el4n3ic4l4s3ke3ra3se4o3ta2tch3en4t3ik3on4r3st2ude3en4s3le3ms3st3te2yer2zar1each3me4t3ta4e0beats2bel4n3op3ra3st3te2cks4y2eck3il3ng3st3te2gab3ib2hob3uf2ide4l3ge3le4s3ne4s3ss3ze4t4u2kam2lag4s0beleg3la4e4o4s4t3og3ud2mba3me2nin3no4s4y2ppo2rgs4t3it3me3nd4s4t3ta4i4s3ät2sah4n3ch3te3ät2tel0beten4r4t3on3te4i4s4y2uge4t3le3te4h3ys2vor2weg3og2yer2zog3ug1ibax3el4r2det2ege4t3nn3re4s3se4t3te0bigos2har2ken4r4s2lch3de4s3ge3le4s4y2mbo3se4t2nde3go3om3se3är2oöl2rgt3ke3ma3te2sam3on3se4t2tok3ze2wak0bizet1jörn1lach3ge3ir3nd4k3se4s4t3ue2ech3ib4s3tz2ich4k3de3eb4s3mp3nd4i2och4k3gs3nd3ss2ubb3es3ff3se0blute4s4t2ähe4t3st3ue2öde3ke4t2ühe4t3ml3te1oard2bby3ot2cke4s4t2dys2gen4y3ig3st2hei3le3ne3re4s4t2ier0boing2jar3en2ldo3id3le2mbe4o2nds3go3ns3us3ze2ome4s4t3te4s2rax3de4s3ge4t3is3ke3na4s3te2sch4o3on3se0boten4t3in3ox3st2ule2vin2wie3le4s2xen4r3te2zen1raai3ch4k3nd3ss4t3te3ue4n4s4t3ve4o2eak3hm3ie4s4t0brent4z3st3tt3ve4i3ze4n2ian3ch3es4t3gg3me3ng4k3se3te2oms3nx4y3ot3te3wn2uce4h4k3mm3no2yan2üel3hl0brüht3nn3sk3te1uach2ben3is2che4s4t3ks2ddy3en2ffo2ges3gy2hei4n3le4t3ne3st3te2ken3st2lin3le4i4y2mse4t2nde0bunds3ny3te2ran3da3en3ka4e3ma3sa4e4t2sen3hs3ig3se4i2tan3ch3en3in3or3te3yl3ze1yron2tes1äche3kt2der2hen2lde0bälge3le2nde3ke2ren3in3te2sse2ten4t2umt1öcke2den2gen2hme2ige2lls2rde3ek3ge3se2sem4n4r4s2ten4t1ücke4t2gle2hel3ne0büken3st2low2nde2rde3ge4t3os2sse4t3te2tte0caban2che2ddy3iz2ipi2jus2lau3be2meo3pe4s4t3us2nna3on2pes3ri2rds3go3la0carlo4s3ol2sus2thy3os2usa2van3um1ella4e4i4o2nts2res3ny2uta1hamp3os4t3rm4t3ts2eck3fs3wa2ice4k3le4i3na4o0chips2lor2oke3nz3rs3se2ris3om2uck3nk3rs2ääs2öre1idre2nch3dy2rca2sco2tys2vil2zek1laas3im3ns3ra4e4k3sh3us2ean2int3ps0clogs3ne3ud3wn2ubs3ny2äre1oach3te4s2bla3ol2dec4n4s4x3on2las3ts2mbo3ic2nny2ole2rps3sa4o2sta2tta2uch3nt3pe4s0court2ver1rack3sh3wl2edo3ek3ma4e4t3ws2ime2oon3ss2wth1urie3ry1yber2rus1äsar1ölom1üpli0dabei2chs2ddy2esh2für2her3in3me2ina3sy0dakar3er2lag4i3is3li2men3it3ms2ndy3ks4t3ny3te2ran3be4t3in4o3ms3ob3re3ss3ts3um2sig2tei4n4s4x3iv3um0daube3er3ne3ss2vid4s4t3on4r4s1eale4s4t2bil4t3üt2can3ks4t2ert2foe2gen2hne4t2ich3ne4s3st2kan3or2lft3hi0delir3le3ta2mos3ut2nar3di3en3im3ke4t2pot3pe4s2rbe4y3ek4m4n4r2sto2tto2uce3te4z2von4t2zil1habi3ka1iana4e0dicht3ke2ebe4s3go3hl3le3me3ne4t3se3tz2jon2ldo3le4s2mer3li3me4t2nar3er3ge4i4o4s3os2ode2pol3pe4t2rex0dirks3ne2sco3ko4s3po3se4t2vas3en3is2wan2xie1ocht3ke4s4t2dos2gen3ge4y3ma3on2hle3na2lby3ce4h3de3le4y3os0domen4s2nar4u3ez3ga3na3ut2ofe4i3rs2pen4r2ras3er3fe4s3ia4s4t3ne4s3re4t2sen3is3se2ver2yen3le1raht3ll0drama3ng3uf4s2eck3fs3he4s4t3in3ss2ift3ll3nk3tt3ve2oge3he4n4t3ps2uck3de3ms3se2äut2öge2ück3se1uale2bai3io0ducht3ke4t2den2ell3ro3tt2fte4s2kat2lde2mas3me4i4y3pf2ngs3ja3st2plo2rst2sel2tte4s2zen3te1ylan1ämme4t3on2nen3in0därme1öbel2del2ner2rre4t3te2sen3ig3te1übel3le2fte2ker2nen3ge4t3kt3ne4t2ren4r3fe4t3re2sen0eagle2rls3th1bart2ben4s0ebbte2ene3rn4s4t2nen4r4t2ola1chos3se3te2ken4r3ig3st3te1dams2das3ie2eka3ns3rs2gar2ikt3th2lem4n4r4s2ukt2win0efeus2fet1geln4s2gen4r2ons1hern2len3in2ren3st3te1iben2che4t2dam3en4r4s2ere4n4t2fel4r2gen3ne2lat3en3ig3st3te0eimer2nar3em4n4r4s3ig3st3te2ses3ig2tel4r3le3re2zes1kele4n4s4t2lat3ig2top2zem1lans3th2che4s2ena4d3ve2fen0elfer3te2ger2ias3sa4e3te3za2kes2len4r3is2mar2oah3ge2pel2sas3es3pe2ter2vis1mail2den4r2ile4s4y3re4s2mas3er3ys0emnid2oji2por2ser3ig1nden4s4t2gem4n4r4s3st3te2net3is3ui2orm2ten2zym1ozän1pheu2son1rato2bat3en4s3in3ot3se4t3te0erden4t3ig3öl2gab2hob2ica4h4s3ka4s2ker3or2lag3en3ös2nas3ie3st2pel2ror3ät2sja3te4i2tag2win3og2zen4s3og1saus0esche2eln4s3ns2pen2sai4y3er4x3ig3os2ten4r3in1tage3ts2han3en4r3ik4n3os2mal2ons2sch2ter2uis2was3er2üde1uböa2gen0eulan3en4r2mel2pen2rem4n4r4s3os2ter3in1vent2ita1wald2ert2ige1xakt2cel2ile4s2tra2xon1yrir1zzes0faber3io2che4s4t3to2dem0fader4s2hen3le3re2ina3re2ken4s3ir3ts2lbe3co3ke3le4s4t3te3ze4t2mos2nal3ge4o4s4t3ny3on3ta2rad3ce3ne0farns3re3si2san3el4n4r3se4t3te2tal3um3wa2ule4t3na4e4s3st2xen3te2zit1eber2ddo2gen4r3st3te2hde3le4t2ien0feige3le4t3me3nd4e3st3xe4t2lde4s3ge3in4x3le4s2men3ur2nce3ne2rge3id3ne3se2sch3te4s2tal3en3te3us3wa0fezen1iale3ts2bel4r2cht3ke4s4t2del3uz2ele4t3pe4t3se3te2ght3ur2les4t3me4s4t3ou3ze4t2nal3ca3de3ge4t0finit3ne3te2ona2rma3ne3st2tis3te2xem4n4r4s3te3um1jord2ärd1lach3ir3me3re3sh3ts3ue4m4t2ehe4t3tt3ur2ick3eg0flieh3nk4t3rt2ogt3hs4t3ps3ra4i3ss3tt3ws3yd2uch3ge4s3id3ke3or3re4s3se4h2yer2öge3ha4e4t3ze2üge1ocht0focus2kal3us2lge4t3ie4o3ks2nds3ts2ppe4t2rce3ds3en3ke3ma4e4t3sa4t3te4h4s3um2ssa2ton4s3ze2uls2yer1rack0fragt3me3nc4k4z3ss3tz2eak3ch3ia4e4t3md3rk3ud4e4t3ya2ies3so4s4t3tz2ohe3mm3nt3rt3st2ust2äse4t2öde0fröne4t3re2ühe1uder2ffi2gen3st3te2hre4t3se2lda2nde4i3ke4s4t3zt2ran3ie3or3ry3th3ze4t2sel3se4t2ton3ur2zzi0fuzzy1äden3le2hig3re4t2kal2lle4t2nde3ge4t2rbe4t3se2ule2zes1öhne4s4t3re4s2rde2tal3en3us1üdle2gen3st3te2hle4t0führe4t2lle4t2nen3ft3te2rst3th3ze2sse0gaben3is3le3st3un2den2ffe4t2gen2ius2lan3en3le4o2may3ba4e3en4s4t3ma0gange4s3ja3su3ze2rbe4o3de3em4n4r4s3ne4i4s3te4z2sel4n4s3ig3se4i3öl2tes3te4s2ube3ch4k3di3en0gauls3ss2zas3en1ebar3er4t3ot2cko2ert3st2her3st3ör2ien4r3ge4t3le4t3sa4s3ze4t2lbe3de4s3ee3le4t3se3te0gemme3üt2nas4u3en3fs3ie3om3re4o3ts3ua4g4s2ode3rg2ras3be4t3da4s3en3os3te4i4s3ät2sas3te3ät2tan3to0getue2uzt2yer2äst2ölt2übt1hali3na1ibst2cht2ere4t3ss2fte4s2gue2lbt3de3et2nas3ge4t3st2rls3os3re2tta4i2zeh1lans4z3ss0glast3tt4z3ub4k2eis2ich3ed3ma3om3tt2omm3ot3sa3tz2uck3fe3on2ühe4t1mail2ünd1neis2ome4s1odot2gel3hs2jim2lda4e4s0golem3fe4s4t3le2mez2ngs2ofy2rch3en3ki2sse4t2ten3ha3ik4n3te2uda2yas1rabe4s4t3ce3de4s3ls3mm4s3nd4t3ph0grase4s4t3te4s3ue4s4t3ve2eco3de3en3if4s4z3ll3mm3ta4e2iel3ff3ko3ll3mm3nd3ot3ps3ss2oat3be3gs3ll0groom3sz3up3wl2ube4t3ft3pp2äbt3me4t3te2öle4t2übe3ne4t3ss1sälz1uano3ve2ben2cci3ke4t2dok2fel2ide4o2lag3ly2mma0gummi3pe2nne3st2ppy2rde3kt3rt3te3us2sla4e4i3tl4o2tem4n4r4s2yot1yros3us2sis1äben3st2hne4t2lte2mse2nge3se3ze0gären3te2ste2ule1ödel2nne4t2pel2ran3en2sse2tze1ülle2sel3se2ter3ig0haack3re4s4t3se2ben4t3il4t3ub2cke4s4t2dal3er0hades3re2fer3fs3te2gen4r3le2hns2ien4s3fa3ku3ne4s3ti2ken3ka3st3te2lal3be3de3ft3le4s4t3ma4e4s3se3te0hamam4s3en3ms2nau3ds3fs3gs3ja3na4e4i4o4s3oi3sa4e4i3zi2ori2pag3py2ram3dt4y3em4n3fe3ke4t3ns3re0harro4t4y3st3te4z3ze4t2sch3el4n3pe3se4o4t3te2tte2ube3ch3en4r3fe4f3ke3lk3ne3pt3sa4e4s4t3te0havel2xen2ydn1eavy2bei4l4n4r3le3st2cht3ke4s4t2dda2ere4s2fen3ig3te4s2gel4n4r3st3te2hle4t3re2ide4i3ke0heiko3le4s4t3me4s3ne4i4o4t4z3sa3ze4t2lau3be3ds4t3en3fe4t3ga4e3ix3la4e4t3ma4e4s3ot2mau0hemds3er3me4t2nan3dl3na4e4i3ri4y3ze2rab4n3be3de4s3me3ne3oe4n4s3rn3se3ta4z3um3zl4t4u2sse2tze0hetzt2uen4r3ke3le4t3ss3te2xan3en4r3te2yne1icks2ebe3fe3lt3ss3ve4t3zu2fel2lda4e3fe4t3le2nab4n3de4i4u0hinge4t3ke4t3zu2obs2ppe4o2rne4i4s3se3te2sse4t2wis1leza1mong1obby3el4n3le3st2chs3ke4t2den2fer4s3fe4t2hem0hohen4r4s3le3ns2lde3en3la4e4y3me4s3st3te3zt2man3er3ie3os2nda3en4y3za2ody3rn2psa4e4t2raz3ch3de3en0horns3st3te3us2sea4n3sa3ts2use2wdy1ubei4r4s2cke2del2fen4s2gos2hns2jus2lda2man3es3id4l3or4s3us2nan3de4s3ne0hunni3te2pen3st3te2ren3ra3st3te2sar3ch3ky3sa4e3te3um2tes3us3ze1yade2dra2men3ne2pen4s3he2äne1äbig2fen2her3ne2kle0hälse2nde3ge4t2ren3me4t3te2sin2tte2uer3fe4t3sl3te1öben2fen4r2hen4r3le4t3ne4t2ker2rer3ig3st3te1übel4n2fte0hülfe3le4t3se2nen2pfe4t2rde3th2ten4r4t3te0iahen1biza2sen1cons1daho2eal3en3nt2iom4t3st2ole4s2una2yll1ftar1geln4s4t0igitt2lus2naz2ors1hnen2rem4n4r4s1jjar1kone2tus1leus2ias3um2jas2kas2ler3ig2ona2tis1mage4o3me4s2ker3re2men4r3un2ola2pfe0impft1nbus2dem4r4s4x3ie4k4o4z3us2ert2fam3ix3os2ges3ke3os2kas2lay2nen4r3ig2put2ste2tel3im3ro3us2uit1onen2was0ippen3on1raks3ns2den2ene2ina2mas2rem4n4r4s3ig3st3te1saac4k2che4l2lam2mus2sel1taka3lo2ems1vans2rit1wans2rit1zmir0jabot2cht0jacks4y3ob2den2ffa2gen3st3te2hns3re4s3ve3we2ina2kob2lon3ta2mbe3es3ie3mt2nas3dl3et3na3us2pan3se4t2son2uch3le0jault3se4t2vas1eans2cke2dem4n4r4s2eps2her2len2men2nas3em4n4r4s3ni4y3te2rez3ry2sse3us2ton3te3zt2uen2ver1ihad0jilke2mmy2nyu1obbe4t2che4s2dat3id2els2gas3ge4t3in4s2hle4t3ns2int2ker3us2lle2nah4s3es2ppe2sef3ua2ule2yce1uana4s0jubel3le2cke4t2das3en3os3äa2ist2kai2lei4s3ia4e4s2mbo3ps2ngs3is3ta2ppe4s2ras3ij4s3or3te3ys2sos2tta2wel2xen0juxes3ta4e1ähem4n4r4s3re4t2ten4t1örgs1üdin2rük0kaaba2bel3is3le3od3ul2cke4t2der3is3uk2ffs3ir3ka2hal3la4e3ns0kains3ro2jak4l2kis2lbe4s4t3eu3if4s3ks3le3me3te2mee4n3in3ms3st2nal3in3ji3on3te4s3un4s2per3ok4s3pa0kappe4t3ut2ras4t3de3el4n3ge4o3in3la4s3ma3ok4l4s3re4t3st2san3el3ko3se3te3us2tar3en4r3hi3ia3ja0kauen3fe4s4t3ri3st3te2zoo1ebab3se2cke2der2fir2gel3le2hle3re4t2ife4t3ke3le4s4t3me4s4t3ne4s3th2kse2lch0kelim3le4y3te2mal3po2ndo3em3ia3ne4t4y3ts2rbe4t3le4s3ne4s3ry3ub3ve3we2sse2tel3on2uch3le2vin1haki3ne4s0khmer1icke4s4t2ele4s3me3ns3pe3se3tz3ws2ffe4t2lbe4i3le4t3os3ts2mme2ndl3ne4s3os2osk3to2pfl3pa4e4t2ras0kirch3ne3re2tas3en3te4s3ze2wis1jell1laas3ck3ge4t3mm3ns3pp4s3ra4e4o4t3ue4s4t2ebe4t3es3id4e3mm3tt0kleve2ick3ff3ma3ne3pp3rr2omm3ne4s4t3pf4s3se4s3tz2ubs3ft3ge3mp2äre4t2öne4t2üse3tz1nabe3ck3ll3pp3rr3st0knauf4r2eif3te2ick3en4s4t3ff3tz2orr3te2uff3rr3st3te4s4t2öpf2üll3pf1oala2ban3el4n4r3ra2che4s4t2dak3es0kodex2gge2hls2ine2jen2kke3on4s3se4t2lbe3ik3ja3lo3on2mas3bi3et3ik3ma4e4t2nak3do3go3to3us2pfe4s3ie3pa3ra0kopte2ram4n3bs3ea3fu3ns3ps3se4o4t2sak3en3te2tau3en3ze4t1raal3ch3ds3in3ke3le3me4s4t3nk4s3pp3ss3tz0kraul4s4t3xe2ebs3do3me4l4s3nz3pp3ta3uz2ida3ll3mi3po3se2och3ko3pf3ss2ude3gs3ke3me4m3pp3se2ähe4t3ne0kröne4t3se3te2üge1ubas3en3us2der2fen2gle2hle3ns2jon2lis3te4s2mme3ys2nde3os3ze2pee3on3pe2rde3en3ie3se4k4t3ts0kurve4t3ze2sch3el2tte1wass1yoto2rie2udo1äfig2hne2lte2men4t3me4t3pe3st2ppi2sen4r4s3ig2the2ufe3ze1öbes2che2der2lns2nne0könnt2pfe4t2rbe3en2tel4r1übel2fer2hen3le4t3ne2ken2nde2ren3st3te3ze4t2sse4t3te0laach3ge2ban3el4n3il3oe4r3st0labte2che4s4t3ke4l4s2den4r4t3ys2ffe2gen4r3os3st2har3me4t3ti2ibe4s3ch3en3la2kai3en2lle4t2mas3ee3ms0lande4s3ge4t3ka3ze2ote2ppe2ras3ry3ve2sch3en4r3sa4e4i4o4t3te3ur2tex3te3ze4t2ube4s3ch3de3em4n4r0laues3fe4s4t3ge4t3ne3ra3se4t3ta4e2xem4n4r4s1ears3se4t2ber3st3te3us2cce3ke4s4t2dig2eds3re4t3ze0lefze2gal4t3en4r3st3te2hen3me4s3ne4t3re4t2ibe4s4t3ca4h3de4s3er3he4t3me4t3ne3te2mgo3ma3on3ur0lenas4u3de3in4s3ke4t3ne3ze2one4s2pas3ra2rne4t2sbe3er2tal3te3zt2una2vel3is3ke2wis2xem3ik1hasa1iane2ban2der4s0lidos2ebt3ds3fe4t3ge4t3ht3nz3se4s4t2fte4s2gen4r3ht2ken4s3ör2lie3le4i4y2mas3bo3es3it2nda4e4t3ie0linke4s4t3on3se3um4s4x2ons2pid3om3pe3si2sas3sy3zt2ter3ho3te3ze2ven3ia4d1loyd1obby3en4s3st3te2che4s4t0locke4t3ro2den3ge3re2fts2gen3ge4t3ik4n4s3os3st2hen3ne4s4t2ipe3re3tz2kal3us2lch3li2oks2pez2rch3ds3en3ke0losem4n4r4s3te2ten4s4t3os3se4t3te4i4o3us2uis2ver2yal1ucas3ca3hs3ia3ka4y2den4r4t3st2gau3en4r3st0lugte2igi3sa4e2kas3en2lle4t2men2nar3ch3ge3te3ze2pen3fe4t3us2rch2ser2tte2xor3us2zia4d3on1yder3ia2nch2ons2rik2sin0lyssa1äden3st2gen3st2hme4t2nge4s2rme4s4t2sen3st2ufe4t3se3te1öbau2hne4t2sen4r3te2ten4t2wen3in1übke2cke2fte2gde0lügen3st2nen2ste2tte0maare2cao3he4o4s4t3is3ke2dam3en3ig2fia2gda3en4r3gi3ie3ma3na3ot3st2hdi3le4s4t3ne4t0maier3ke3le4s4t3ne4s4z3ss3um2jas3or2kak3el3is3ro2lad3er3ik4s3le4s3me4t4ö3st3ta4e3us3ve2mas3bo0mamma4e3pf2nch3da4l4y3ga4e4o3ie3ko3na4e4s3on3ta2ori2ppe2rco4s3ei4k4n3ga4e3ia4e4n4o4ä3ke0marko4s4t3ls3ne3ta3ys2sel4n4r3ke3sa4e4t3ut2tch3er3he3je3ta4e4i3ur3ze2uem4n4s3ke3le4s4t3re0mause3ve2xim2yas3en4r3im2zda3is3ze1edea3ia2ere4s2hle4s3re4t2ide3er3ke4o3le3ne4s4t3se4t2kka2lde3ke4t0melle3os2mel4n3me2nge4t3ke3no3sa3üs2ran3ck3ke4t3oe3ze4t2son3se4i4t3ut2tal3ro3te3ze2ute2yer2zie1iami3ue0miaut2cha4i3ks4y2das3de2efs4t3le3ne3re3se3te3ze2gda2kes3ro3we2lan3be3de3et3iz3je3ka3le3os3va2men3ik3te0minen3gs3im4s3na4e3sk3us3ze2ras3ko3ow2sch3sa4e4t3te2tau3ra2xed4n4r3te1neme1obbt3il2cca2dal3el4m4n4r0modre3ul4s2ers2fas2gle3ul2hel3ns3är2ild2kka2lar3ch3en3ke3le4i4y2mme3os2nde3em4t3go3is3om3te4y2ore4s3se0moped3ps2ral3de4s3es3os3ph3se3us2sel4r4s3ts3ul2tel3iv3te4o3ze4t2unt3se2vie1ucke4s4t2ffe3ti2gel3ge2hen0muhme2kös2lch3de3is3la3ti2mie3ms3ps2nde3go2rks3re4t2sen3il3se4t2ten4s4t4x3ig3on3ti2zak3in1ylau2ope2rre3te0myste2the2xom2zel4t1ädel2gde3en2hen4r3ne3re3st3te2ren2sse3te2use2zen1öbel2gen4t2hre2lln2nch2pse2sen4r2wen1ücke2dem4n0müder4s2hen3st3te2lls2nde3ze4t2rbe2sli3se4t2tze0nabel4n3ob2cho3kt2dir3ja2gen4r3le3st3te2hem4n4r4s3ie3mt0nahst3te3um4r2ila3ve2mas4z3en3ib3ur2ncy3du3ny2omi2pfs3pa2rbe3de3ew3is3re4t2sal3en3hi3se2tal3iv3ur2uen3gh0nauru2vis2xos2zis1eben3ra3st2cke4t2ger4v3ro3us2hme4t3ru2ide4s3ge4t3ll3ns2lke3ly2nne4t2ons2pal3pe4s4t2rds0neris3os3ve4s4t3ze2sts2tte4o3ze2uem4n4r4s3me3ne4t3ss3öl2xus1goni2uni1icke4i4t3äa2dda3el3le2eby3ls3re0niers3se4t3te2gel4r2kes3on4s2lle2mmt2nas3ja2obe4s2ppe4t2qab2san3se3te2val3ea2xen3on2zza3äa1oahs2bel3le2cke3tu0nodus3ös2emi2kia2lde3te2men2nan3ne2ppe2ras3ma4e3ne3th2tar3en3iz2vum2wak1ubuk2gat2lpe2men2rse2ten3te3ze4t1yala2lon1ägel0nähen4r3me4t3re4t3st3te2nie2pfe2sle3se4t1ölen3st3te2ren2ten3ig1üsse2tze4t0oasen1bama2ere4s2hut2ige2lag2oen4r2sen0ochse2ker2tan1deln3ms3on3ur2ilo3ns3os3um1ehme2lde2sum1fens2fen1heim2ios2ren4s1ikos1kapi2tal4n4v2uli1lafs2die2egs3um2fen2gas0olive2lem4n4r4s2per4s2sch2ymp1maha3ni4s2ega3ns1nyxe1pake3le3pa2els3ra4n2fre2iat3tz3um2tik2uwo1rale3ng2bis4t2cas0ordal3en4r3ne2eal2ffs2gan3ie2ija3on3ya2jol2kan3us2log2nat2omo2ten4s4t1saka3ma2car3hi2kar2los2man2ram2sis3är2tau3en0otaku2mar2ter3os1ukie2ten4t1vale4s2ids1wnen1xfam2ide4s2yde1ybin1zean2ons0paare4s4t2blo2cht3ke4s4t2ddy3ua2ffe4t2gan3en0pakte4s2las4u3en3ma4e4s2mpa4e4s2nda3el3ik3ne2ola4o2pas3er3pe4t3st3ua2rat3ia4s3ka4e4s4t3ma3se0parte4s4y3ze2sch3sa4e4t3ta4e2tch3en4r3in4o3na3te4s3ze4t2uke4t3la4i4o4s4y3sa4e4t2via2wel0peaks2chs2dal3ro2ers2gau3el3gy2ile4t3ne3tz2kig2lle4t3te3ze2nes3ig4l4s3ne4t4y2ppe4t3si2rcy3du3le4t3ry0perso3th3us2sel4n3os3to2ter3it3ra4i3to3ze4t1fade4s3ff3hl3lz3nd3ue4s2eil2iff2ote2uhl3nd2ühl1hage3se3tt2lox0phnom2yle2öbe1iano2cke4t2eck3ks3pe4s4t3rs3ta2jin2kee4n3se4t3te2law3le3ze2mpf2nax3gs3ie3ke3ne4t3ot3te2otr0piper3ox3pi2rna3ol2sas3se4t3te2xel2zza1jotr1lage4t3id3ne4s4t3st3to4t3ue3ya3za2ebs3na4k2ins2opp3ts2ump3to0pläne1neus1oche4t3ke2dex2ems2fen3st3te2gen3ge2int2kal3er2lar3ch3en3ig4n4o4s3ka3le3os3yp2mps2nte3ys2ole4s4t0popel4n3os3pe4t2ren3no3st3ta4i4o4s3ös2sen3se3te2tis3te2wer1rada4o3gs3ha4m3ia3ll2iel4m4s3ma4e3nt0prinz3on4r3se2obe4t3fi3ll4o3mi3sa4t3tz3xy2unk2äge4t2üde3fe4t1salm1ucks2del4r3re2ffe4s2len3ke4s3le4i0pulpa4e3se4t3te4s2mas3pe4s4t2nks4t3ze2pen3se4t2rem4n4r4s3im4n2she4t3sy3te2ten4r3in3te4o3ze0putzt1ylon2xis1ärke2sse1öbel2mps2nal2pke2ter3te1üree2tts3ze0qatar1oppa1uaas3de4t3is3ke4t3le4i4m3nt3rt4z3si4t2eck3en0quell3nt3re4t3st3ue2ick3ll3nn4t3rl3to4t2oll3ta4e2äke4t3le4t0raabe2bat3bi3ea4n2che3ke2dar4u3ek4s3le0radom4n2ffe4t2gen3st3te2hel4n3ms4t2ine4s2kel2lfs3le3ph2mbo3en3in3me4t3pe2nch3de3ft3ge4s4t3is3ke4t0ranze2oul2phe3id3pe4t2rem4n4r4s2sch3en4r3se3te3ur2tes4t3io3te3ze4t2ube4s4t3ch3di3em4n4r4s3fe0rauft3ke3me4s3ne4t3pe3st3te2vel4n4r2yon1eale4o2bbe3en3us2che4t3ke4t3to2den4t2ede3ll3mt2gel4m4r4s0regex3ie3le3ne3st3te2hau3en3na2ibe4t3ch3fe4t3he4n4t3ki3me4s4t3ne3ss4t3te3ze4t2kle2lax2mis4x3us0renal3ke4t3ne4t3te2rik3um2sch3et3te4s2tro3te2uen3ig3se4s3te2vue1hede3in3ma3ns2ode3ne1iads2cas3in3ke4y2ebe0riebt3fe4t3ge3sa3te2ffe4s2gel3id3or2lke3le2nds3ge4o4s4t3ne4t2oja2ppe2spe3se4t2tas3en3te3us3ze4t2yal0rizin1obbe4t3en3in3ot2cht3ke4s4t4y2del4n4o4t3in3le2gen4r2hem4n4r4s3re4s3öl2jer2lex3fs3le4i4o0rollt3of3uf2man3eo3ys2nde4o3in3ja3ny2sel4n4s3ig4s3se3te2tem4n4r4s3he3or3te3ze4t2uen3ge3te2ver2wdy0royal3ce1ubel3in3ra2cke4s4t2del4r3is2fer4s3st2gby2hen3la3ms3st3te2ine4s2mba3or3pf3se4t2nde3en3ge2pfe4t0rupie3pe2ral2sch3hs3se4t2ten3hs3te2wer1äche4t2der2kle2nge3ke2son2ten4r3in3st2ude3me4t1öbel2che4t3ke2hre4t2mer0rösch3te4i2tel4n4r4t3ha1üade2ben4r2cke4t2dem4n4r4s2gen3ge3st3te2hme4t3re4t2lps2pel2ste2tli0saale4s3mi0sachs4t3ke4s4t2fed4s3ts2ger3st3te2hel4n3ib3nt3ra3st3ti2int3te2kko3ra2lam3bt3do3em3ly3mi3on3pe3sa3to0salut3ve3ze4t3är2mba3en3my3oa4s3ts2naa3de4s4y3ft3go4t3ka4t3ne4t3ta3ya4o2ppe2rah4s3de3gs3in4s0sasak3se4t2tan3in3te3yr3ze2uce3di3en3fe4t3ge4t3ls3ms3na3re3se4t3te2ven3oy2yda1cala3ns2hab4h4l4m4r0schau3em4r4u3ia4s3ma4u3ob4n4r4t3ub4f4r3wa3äm2ifi2oop3re3ts4t3ut2rip1echs2dan3um2gel4n3ge3le3ne0seher3ne4t2ide4l3en3ft3ge3ke4o3le4s4t3ne4s3st2kel3te4s2lbe3en3ig2mem3it2nat3de3fs3ge4t3il3ke4t0senne3se3ta2oul2poy3ps2rbe3en4r3ge3ie4n3nf3um3ös2sam3le2tup3ze4t2ufz2xen4s3ta4e3us1hake3rp3ws2ell2ire4t0shoah3na3ps3ws1iams2biu2cht3ke2ebe4s4t3ch3de3ge4s4t3he4t3ke3le4s3na3ze4t2gel3gi3le3ma2khs2las4u3be0silen3ge3ke3os3ur2mon3ri3se2nah4i3ge4t3je3ke4t3ne4s4t3ti4o3us2oux2ppe2rup2sal3si4y2tar3es3te3us3ze0sitzt2van2wan2xta1kala4e4p3te4s2ene2ier3ff3ll3ns2oda2uff3nk2ype1lang3sh3we2ice4k3ps2oop3ts2ums1mall3rt2ogs1nack2obs0snuff1oaps3ve2cke2das3en3om2est2fas3er3ft3ia4e3te2gar3en4s3st2hle3ne4s2lar3ch3de4o4s3ei4n3id3le4t3ms0solon4s2mit3me2nar3de3gs3ja3nt3or3st3ys2oft2rbe3ge4t3ry3te2sse2ter2uks3nd3th2was3ie2yka2zis1pace4k3lt3nn4s0spant3re4t3tz2eck3ed4r3ie4l4s4t3lt4z3rr3zi2ice3en4t3ke3ll3na4d4s4t3on3tz2lit2ore4n3ts4t2ray0spree4u3it3öd2uke4s4t3le4t3nd3rt3te2ähe4t3ne3te4i2üle4i4t3re4t1quaw1taat3bs3ch4k3de3ff3ge3hl3kt0stall3nd4k4z3rb4e4r4s4t3si3tt3ub4e4s4t2eak3ck3ge4s3he4t3if4g4l3le4l3no4z3rz3te4l4s0steve3yr2ich4k3ef4g4l4r3ft3le4l4s3no3pp3rb2off3la3ma3ne3pf4p3re4m4y3ss2reb4u3ia4p3oh2ube3ck0studi3fe4t3hr3ka3mm3nk4t3pa4s3re4z3ss3te4z2yle4t2äbe2öbe3re4s4t2ück1uada4e2che4t3re2dan3le3or2fet0sufis2hle4t2ite2jet2lky3ze4t2mer3ma4e4t3pf2omi2per3ra2ren3fe4t3re4t2san3hi3is2tje1vana4e2ear3ns1wana4e3si0swati2ift3ng3ss4t1ylts2rah3er3te2sop1zech3ne1äbel2cke2end4s2fte2gen4r3st3te2hen4t2len2mig2nge3ke3ne2rge2sse2ten4t0sätze2uen3ft3ge4t3le3me4t3re1öder2hne4t2lde2nke3ne2ren1üden2hne4t2lze2nde2sse4t0tabak3or3us2cho2del3ig3le2fle3ts0tagen4s3st3te2iga2kel3le3te4s2lar3er4s3gs3ib3je3ke4s3on3us2mil3pa2nds3ga4o4s3ja3ka4e4s4t3na4e0tanse3ze4t2pas3en4s4t3ir3pe4t3se4t2ran3gi3if3ne4t3ot3te4u2ser3ks3te2tar3en4t3ra3st3ze2uen4s3fe0tauft3ge4t3on3pe3st3te2xen3ie4s3on3us1eams2bet2ddy2eei3ns4y3re4s4t2gel2ich3fi3ge4s3le4s4t3ns4t2lex0tells2mpi4o2ndo3ne4o3or2rme4s3ra4y2sje3la3sa3te4s2tum2ufe3re4o2wet2xas3el3te1hais3le2eia4n3ke3ma3os3rr0these3ta2iel3lo3ng3ol2ora4n4s2ron2uja3le3re4n1iara2ber4t2cke4s4t2den2eck3fs3re4s2ffy2ger3on2lde3ge4t3li0tills4y2men4r4s3id3ms4y3or2nas3te2pis3pe4s4t2ret3ol2tan3el4r3os3te3us1jark1oast2bak3el4n3st3te2ddy3es0tofus2gen3os2ken3io3yo2lle4t2mmy3sk2nal3en4r4s3ga3ic4g3us2ols2pas3fs3oi4s3pt2rah3en4s3fe4s3ii3so3te0torus2sca3en3te2tal3em4n4r4s3os3um2uch3gh3ri4s4t2wer2xin1rabe4i4t3ck3de3fo4t3ge4t3il4n3kl4t3mp0trams3ne4k4s3po4p3ra3sh4s3ue4f4t3ve2ebe3ck3ff3ib4f3ma3nd3te3ue2ial4s3ck3eb4l4r3ff4t3ke3nk0triol4s3ps3st3tt2oas3er3ff3gt3ia3ja3ll3pf3ss3tt4z2uck3de4i3gt3he3mm3nk3pp3st3te2äfe3ge4t3ne4t3te0träum2öge3te2übe4t3ge4t1suba1ubel4n4r3us2che4s3ke2dor2end2ffe4s2kan2lpe2mbe3or2nen4r3is3ke4t3st3te2pel3fe0tupft2ran4s3bo3in3ko4u3me4s3ne4t2sch3se4i2tel4n4t3or3si3te4i3us1wain2edt3ed4f4t3ns3te2ist1ylom2pen0typik3us2ros2son1äler2nze2ten4r4t3ig1öfte2nen3is3st3te2pfe2rin2ten4t1ücke2lle4s2rbe3en3ke3me4t2ten0ubier2oot1chta1dine0uetze1fern4s4t1hren1lema2ken3ig3st3te3us2las2men4r2tra1mami2bau3er3og3ra2gab2her3in2kam2lad3ud2sah2tue4n4t2weg2zog0umzug1nart2bar2fug2gar3ut2ion3ts2kel4n3te2mut2nas2rat3uh2ser2tat3en3ig3ot2zen2äre1rahn3ls4t3ns2ban4r2iel3ge3ns2nen0uroma3pa2son3us2typ1sanz2chi2ern4s2lar1tahs3ns2eri2rum1vala2ula1zend0vacat3ha3ke2der3uz2gem4n4r4s3il2kat2let3id4n2mps0varel3ia4x3us2sen2tis1egan4s2ith4s2lar3in3um2nda3en3ia3lo3ns3us3ös2rbs3di3gl3se3ve2spa3ta4e3uv2tos1ichy3ki0vicky2deo2ech3hs3le3re4t2gil2kar2lla2nci3ko3yl2ola4e2per2ral3en3il3us2sit3ta3um2tae4l3en3is3ro3us2ura1lies1ogts0vogue2igt3le2kal2lar3ke4s3le3ta4e3um3vo2pos2rab4n3ig3ne2ten3iv3um3ze2ute1ulgo3va2oto1äter2xjö1ögle3te2lle3va2ner0waadt2ben2che4s4t3ke2den3is2fer3fe2gon3st3te2hns3re4t2ise2lde4i3en4s3ke4t3le4s4t3te3ze4t3öl2mme3pe0wanda3ge3ja3ke4t3ne3st3ze2ran4y3bt3en3ft3in3me3na4e4t3st3te3um3ve3we3ze2sch3en4r2ten4t3te4s2yne0weben4r3st3te2cke4t2del4r3ge3le3ro2gen4s2hen3le3re4s4t3st3te2ibe3ch3da3he4t3le4l4t3ne4s4t3se0weiss4t3te2lch3fe3ke4t3li4t3pe3se2nde3ig2rbe4t3de3fe4t3ke4s4t3ne3ra3st3te4h4s2sel4r3ir3pe3si0weste2tte3ze4t1higs3st1iche4s4t3ke2der3me3re2ede3ge4t3he4l3ke3ns3sn4o4t2kis2lde3le4i4y3ma4s3na2nde0winds3ke4s4t2ppe4t2rbt3ft3ke4t3re4t3st3te4s2sch3se4t2tib3we3ze2yot1obei2che2dan3ka2für2gen3st3te2her3in0wohle4s3ne4t2lff4s3ga3le4t3of2mit2nne2ods4y2ran3in3ld3ms3te4s3um2ssi2tan2von4r1rack3ng2uke1uchs4t2hne2lff0wulst2mme2nde2ppe4t2rde3fs3me4s4t2sch3le3ts1ädli2gen3st2hle4t3ne4t3re4t2lle3ze4t2nde2ren4t3mt3st1ögen4t0wölbe4t3fe2rth1ühle4t2rde3fe3ge4t3ze4t2ste2ten4t0xaver1enia4e4x3on4s2res3ox2tra1hosa1iang1ylan3em3it3ol4n0yacht0yahoo2men2pok2rds3en1east2ntl2rba2tis1ogas3in4s2mud2rck3ks2ung1pern1tong1ucca2kon2rok1vonn1ürük0zabel2cke2gel4n2hle4t3me3na4s0zaire2kat2mak3ba4o3ia4e2nke4t2pfe4t3pe4t2rah3en3ge3in3ma3te2ume4s3ns3pe3st1ebra3us2che4t3ke2der2hen3nt0zehre4t2ige4t3he4t3ss3tz2lge3le3ot3te2nit3ta3zi2rre4t2sel3te2ter3re2uge4s4t2ven1icke4t2ege3he4t3le4s0zielt3me4t3pt3re4t3st2lie3le4i2mts2nke4s4t3ne4s3se2ons2ppe4o2rbe3ka3pe4t2sch3ka2tat3ze2vil4s1loty1obel0zockt2fen3fe4t2gen3st2las3le4s4t2nal3en2ome4s4t2pfs2res3ns3ro2sse2ten3ig3te1uave2bau3er2cht3ke4t2dem2gab3es0zugig2kam2lus2mal3ba2nft2pfe4t2rek3re4t3uf3ät2sah2tat3un4t2vor2zog3ug1wane4g2eck3it2ick3ng3rn3st2ote2ölf1ymny2rus0zyste1ähem4n4r4s3le4t3me4t3re2kum2sur2ume4t3ne4t1ögen4t3st2kum2lle3om2pfe1ücke4t2gel4n3ig3le2nde2rne4t0äbich2sch2ten1chte3ze4t2ker1ffen3in3st3te1geus2ide2äis1hren1lter1mter1neas1olus2nen1quer1rger2mel4r2zte1sche2end3st2sen4t2ten4t0äthan3en4r3in3yl2sch2zen3te1ugen3st3te1xten1ämol0ödeme3re3st3te2nis1ffne2ter1lbad2end4s2gas2ige2ten4t2ung1tzis0übeln4s3nd0übens3rm4n4s2lem4n4r4s2rig2ten4t1lmen1ppig";
@@ -0,0 +1,2 @@
+export const words =
+  "4|0aach2ke2le3s3t2re2st1bba3o3t2da3i2ee3l2ia3s2os2ri1cer2he2id2ne2re2ta2yl1dam3r2da3i3o2el3n0ader2je2le1far2ra3o1gar3w2fa2ge3i3o2il3o2on2ra1hab2le2me3t2ne3t2oi1ibi2da3s2nu2pi1jax2ka1kan2en0akku2ne2te3s2ut2yn1lba3e3i3o2di3o2ex2fa3s2ge2is3x2ki2lg3s3y2ma3i3o2oe2ta3e3i3o1mbo2en0amid3n3s2ke2me2ok3r3s2ts2un3r1nal2di3y2is2ja2ke2na3e3i3o2te3i2us1pel3r3x2ia2ps1qua1ral3s0aren3s2ge2id3e2ke2me3s2nd3e3o2ri2te2ve1sch2ia2ot2se3i3t2yl1tem2me2om2ze1udi2en3r2fi3l3m3s0aula2ma2ra1val2es2is3v2us1xel2is2on1zid3n2ol2ur2zo1öde0baak3l3n3r3s3z2ba3s3u3y2ck2de3i2ff2hr0baht3ö2it2ke3u2ld3g3i3z2ne3g3n2rb3e3g3i3k3s2se3s3t2ud3e3s3t2zi1eas3t3u2be3t2ck0bede2ep3r3t2il3z2la3l3t2nn3s3z2os2rn3t2se2ta3e3r2ug1iak3s2bi2eg3n2ke2ll2ms2nd2om2rg3k0biss3t2ts2wa1lad3g3s2ei3u2og2öd2ün1oah3s2bs2ck2de3o3y2gt2hr2je2la2nd3g3i3n3s2om2ra3d3g0born2ss2te3s2xe3t2ys1rar3t3v2ei2ie3g3t2od3m2ut2ät1spw1ube3i2ck2de3o2ff2gs2he3t2kt2ll2ms2nd0bure2tt3z2xe1yte1zgl1äbä2te3z1öel3n2ge2hm2ig2ll2se2te1ück2hl2ke3t2ro2si2tt0caen2lw2mp2pa3e3o3s2rd0carl3p2sa3h3t2to3s2va1ego2nt1hat2ic3p2or2ur1iao2ty1lan2ip2ou2ub1oat2ca2da3e2ke2la3t2ok3l2rd3k0coup1ree3w2ow2ux3z1trl1ups2rd2ts1yan0dack2da2hl3n2li2me3m2na2rf3i3m3t2ta3e3o2un3s2ve2zu1eal2ck0degu2hu2ko2ll2mo2nk3n2os2pp2rb3o2ut1ias2do2eb3z2li3l2ng3o2or2pl3s2rk3n2sk2to2va2xi2ät1obl3u0doch3k2do2ge2ha2jo2ku2le3l2me3s2of2pe2ra3n2se3t2wn1ram3n2eh2in2um1ual2ce3k2ff3t2ke2ma3p2ng0duos2st2tt2ze3t1wog1äne1öns2rp2se3t1üna3e3n2rr2se3t0earl2st3y1bbe3t3y2el3r2ne2on2ro1cho3t2kt2us0edam2da3e3y2el3n3r2le2na1feu1gal2el3r2ge2on3s1hec3n3r2rt1ibe2de3s2er2gg2ke2lt2na3t2se3s1kel0ekle2rü1lak3n2ba3e2ch2de2ea2fe3i3t2is2ke3o2la3e3i2sa3e2ul2ze1mil3r2ma3i3y2pl2se2us1nge3l0engt2no1pen2ik2oc3s1rbe3t2en2ft2go2ic3k3s2le2ms2na2os2st2ze1sau2ch2pe2ra2se3o3t2te1tat2on2ui1uch0euer2re1vas2tl1wig1xil2on3t2po0fack2de2hl3r2ir2ke3t2lb3k3z2ma2nd3g3s3t2rm3n2se3s2ta2ul3n2xe0faxt2ye1eed3n2ge3t2hl2ig3l3m2ls2nn3z2rn2ta3e2wr2ze1iat2bu2ck2el3s2fa2le3s3z2na3d3e3g3k0finn2ps2rm3n2tz2xe3t2zz1lak3t3u2ex2ip2og3h3p3r3w2uh3r3t2äz2öz1ock2lk2nd3t2od2rd3k3t2te0foto2ul1rag2ed3i3u2on3r2üd1uas2ge3t3u2hr2ji2lk3l2nd3k2rt3z1ähe1öhn3r1üge3t2hl2ll2nf2rs0gabe3i0gabt3y2ga3e3s2la3t2me3s2ng3t2re3n3t3y3z2sa3e2te3t2ue3l3r2yo2za3e1ebe3t2ch3k2ek2he0gehl3t2il3z2ll3s2ne3f3s3t2ra3d3m3o3t2sa3t2ta1hee1ibt2er2gs2lt2na3g3s2ps2rl3o1lan2ey2ut0glüh1nom2us1oal3r2bi2ch2de3l2gh2je2lf3o2ng2re2se3s3u2te2ut2ya1rad3f3l3m3n3t3y3z2ip3t2og0gros2ub1uck2pf2ru2ss2te3s1ysi1äbe3t2re3t1öre3z2tz1üte0haag3n3s2be3t2ch3k2ff3t2ha3n2ie3n3s2jo0hake3t2lf3l3m3o3t2mm2nf3g3s2rk3m3n3r3z2ss3t2tz2ue3t2xe1ebe3t2ck2da3i3y2er2fe2ge3t0hehl3r2ia3l3n2li3m2mi2ra3b3d3o3r2te3z2us3t2xt2ym1iat2eb2gh2hi2lf2ng3z2ob2pp2rn3t2ts2wi0hoax2bo3t2ch3k2fe3s2he3l3n2ld3e3m3t3z2me3o3s2nk2pi3p3s2rb3n3t2st2tt2ya3m1rsg1ttp1ube0hubs2ch2fe3s2gh3o2hn3u2la3d2me2nt2pe3f3t2re3i3t2ts3u2us1yle2pe1ält2me2pe2ss1öbe2fe2he2re3i0hört1übe2ne2pf2te0iaht1ban2is2or1chs2ke2on1das2en2ol1gbo2lu2or1hde2ne1job1kea3r2on1lex2ja2ka2se1mam2me3o1nas0inch3l2es2fo2ga3e3o2ka3l2ne3s2ro2st2ti2uk1ons2ta2wa1pso1rak3n2en2in3s2ma2re3t1sar2ba2ch2en2is0isny2st1tem2zo1van1wan0jack2de2gd3e3t2hn2na3e3s2rl2va2zz1ean2ck2ep2ff2in2na3e3s2pk2su2ts3t1ims2na0jive1oan2bs2ch2do3s2el2ga3i2hn2jo2ke2na2op2pe2rg2st2ta2ur1uan2ba2da3e3o3y2hu2le3i2mp2ng3i3k0juno2pp2ra3e3i3y2so3t2te2xe3t1äck2he2te1örg3n0kack2di2ff2hl3m3n2ik3n3s2ka3i2li3k2ma3i3p0kamt2nt3u2on2po3s2rg3l3o3t2ta3e3h3i3z2ub3e3f3m3t3z2wi1cal1eck2hl3r2il3m3n2ks2nn3t0kerf3l3n2ss1ffr1han1iba2ck2ds2en3r3s3w3z2ga2ki2ll3o3t2mm3s2ng2pf3p2ra3n3s2ta3s3t3z2wi0klan3u2eb3e3i2io2on3s2ub2är1nan2ox2ut1oan2da3e3i2fi2go2hl2is2je2ka3s2la2ma3i3m2ng3z2og2pp0kora3d3e3k3n2st2to3s1rad3l3m3n2em3n2im2ot2ud3g3x1uba2es2fe2hn2li3m3t2nd3o3z2rs3t3z0kyll2ma1äme3t2te1öln1ühn2re3t2ss0labe3t2ch3k2de3y2ff2ge3o3t2hm3n3r2ib3e2ke2la3e2ma2nz2os2ra0lars2ss3t2te3z2ub3e3f3s2va2xe1ead3r3s2be3t2ch3k2da2es2ge3o3t2hl3m2ib3f3h3m3n3s2kt0lena3i3z2on3s2se3t2un2ve3i3y1ich2dl3o3s2ef3h3k3s2ft2ga2ke2la3o3y2ma3o2na3d3k3z2ra0lire2sa3e3p3t2tt2ve1kws1obe3s3t2de3i3z2ft2ge3o3s3t2he3n3r2it2ki3s2la2ok3p2rd3e3i2se0lost2te3s1uca3h3y2de2es2ge3s3t2he2is2ke2la3u2mp2na3d2pe2tz1ynn2on2ra2se1ädt2ge3t2rm2se1öge2li0löse3s3t2te1übz2de2ge3t2tt0maar3s3t2ch3s2de2gd2hd3l3r2id3l3n3s2ja3o2ki2le3i3l3m3s3t0malz2ma3i2ng3x2os2ps2rc3e3i3k3l3s3x3y2ss3t2te3t3z2ue3i3l3t2xe3i2ya3o3r3s1ega2lk0meme3o3s2nu3ü2rk2ta3s3t3z1iau2ch3k2di2ed3f3s2ke2ld3f3z2me3t2ne3g3i3t2ra2so3s3t2xe0mixt2zo1oab2bs3y2de3i3s2fa2hn3r2in2la3e3k3l2mo2na3i3o3s3t2or3s2pp3s2rd3e2se3t2xa1sec0muff2li3l3m2mm3u2rg2se3s2te3s3z1yom3n3p2ra1ähe3t2re3z1öge3t2hl3n2se1üht2rb0naab2be2ge3t2he0nahm3t2iv2ja2ma2na3e3o3u2os2pf2rr2to2ue2vi3y2zi1eer2id3l2mo2na3n2on2pp2rd3o3v3z2ss2tt2ue0news1ick3o2et2gl2ke3o2ll3s2mm2na3o2ob2ue2xe1oah3m2ir2ne3n2ob2ra3d3m2ta3e2va1sec1ute2uk1äht2ta0näto1öle3t2te0oahu2se1ben3r2ig2oe2st2us1chs2ke1dde2el3m3n3r2in2or1ger1hio2re3s1kay1laf2de2eg2ga2iv2le0olli2pe2uf1man3r3s2en2is2me2sk1nna2us2yx1pak3l3s2el3n2us1ral2ca2do2el2ff2is2ne2te3s1ske2lo2si1tto0ouge2te2zo1val3r2er2id2um1wen1xer2id2yd1zon0paar2ck2ge2ir2kt2li3m3s2ns2pi3p3s2ra3d3i3t2st2te3t0patz2ul1eak2ch2er2in2lz2ng2rl3m3u2so3t2tz1fad3u2ui1hil2on1iaf2ck2ep3r2ke3t2le3s2ng3k3s3t2pe0pipi3s2sa3s2us1kws1lan3u3y2ot2us2ön1neu1oem3t2fe3t2go2hl2le3o3s2mp2ny2ol2pe3o2re3t3z2se2ti0pott3z1rag2im3x2of2üm1ubs2ck2ff2le3k3s3t2ma3p2nk2pe3s2re2te3t3z1änz1ütt3z0qoph1uad3i3l2er2iz0raab2de3i3l3s2ff2ge3t2he3m3n2id3n3s2ki2lf2nd3g3k3n2ps2re2sa3e3s2te3s3z2ub3e3f3p0raus3t1eal2be2ck2ed3p3s3t2ff2ge3t2ha3e3s2if3m3z2my2nn3s2sp2ue3t1hön1iad3l2ca3k3o2eb3d0rief3k3s3t2ff2ga2nd2os2ss3t2ta3e3t3z1obe2ch2da3e2he3r2lf3l2ma3s3y2sa3i3s3t2ta3e3h0rott3z1uby2ch3k2di2fe3s3t2hm3r3t2in2ms2ne3s3z2ss2te3h1yan1äss2te1öhm2rd2te3z1üde2ge3t2hr0saab0saar3t2ba2fe2ga3e3o3t2ht2id2ke2le3m3ü2me3i3s3t2ng3i3k3n2ra3g3i2ss2tt2ue3f3g3l3m0saus3t1can3t2hi1ean3t2ch2en3s2he3t2id3f3m2jl2kt2lb3m2nj3n2pp3t2rs2ts3z2xt3y1haw2it2op3t0show1ial3m2ch2eh3l2ff2kh2lk3o3t2ms2na3d3g2on2re2ta3e2wa2xt1kai3t2in3s2ye3r1lip2ot2uf3m1mog0smok1nap2ob1oap2da3e2fa3f3t2gs3t2ja2ko2ld3e3i3l3o2ma2ng3y2re2tt2uk3l2zi1pam3n3r3t3y2ie0spin2ot2uk3r2ät1tab3d3g3k3n3r3u2ck2eg3h3r3t2il2oa3b2yx2ör1uch2ez2ff3i2hl2lm3z2mm2nd2pi0supp2re3i2sa3e3i2va2wa1ven1wag1yke2lt1äen2gt2he2le2st2te2ue1öge0tabe3s3u2ck3o2de2el2ff3t2ge3s3t0tajo2kt2lg3k3s2nd3g3k3n2pe3p2ra3o2sk2tt2ub3e3t2xa3e3i1eak3m2ds2en3r3s2ig3n2le3l2rm0terz2st2xt1hai3n2ea3o2on3r2ug3l3m3n1ick2de2ll3o2me3m3o3s2na2pi2sa2to1obe3i3t2de3s2ff3u0toga3o2ll2ms2ne3i3s3y2ol2pp3s2ra3e3f3i3r3s3t3y2st2te3o2ur2wn1rab3f3g3m3n3t3u2io0trip2og2ug2äf3g2üb1uba3e2ck2ff2mb2ne3k3s3t2pi2rf3n2st2te3u1wen3r2ix1ype3s1äte1öff2le3z2ne3t0törn2te1üll2re2te0ucha1dos1fer2os1hus1kas1lan2fs2is2ke3s3t2la2me3s2na2pt1mso1nis3t3x2ka3e3t2na2ze2är0ural3n3t2du2ea2ig3n2ne2st2te2uk1ser2us1tah3n3s2es2ta1wes1zen0vage2mp2se2ti1eda2it2ld3o2na3e3n2ra0verb3l3o3s2to1ieh3l2ke2na2sa2ta3o2va2ze1lax2og1ogt2lk3t2ng2po2rm3n3s2ss1rba0waag3l2be2ch2de3i0wadl2ge3t2hl3n3r2id2ke2le3l3m3s3z2ms2nn3t2rb3e3f3p3t2te3t1ebe3t2ck2da2ed2ft2ge3s2he0wehr3t2ib3h3z2lk3s2ps2rd3g3k3l2st2tt1hig3p1ich2ed3f3n3s2ki2ll2ms2na3k2rd3f3r3t2tz1odu0woge3t2hl2ks2od2rd2zu1rap1udu2lf3l2nd3e2rf3t3z2st2tz1äge3t2re3t1öbe2ge1ürm2st2te0xbox1eno0yaki3s2le0yams2na3g3n2rd2wl1eti1ips1lid1oga3i2ni2rk1sop1uan2ko1ves1ärb0zach3k2fu2gt2hm2in2nk2pf2um1ebu2ck2he3r3s0zeig3l2ll2no2ro2ta3t2ug3s1hou1ieh3r2mt2nk3n3s2on2pp2ta2vi1ofe3f2gt2la2ne2om3s2pf2rn2te1uck2ge0zugs2lp3u2ni2pf2se1wäg1yan1zgl1ähe1öge3t1ück2ge2nd0äber2te1dil1ffe3t1hre1lte1rar1sen3r2op2se2te1tna2ze3t1uge0äugt1xte0ödem3n3r3s3t2ön1fen1hmd2rn1kos1len2ig2st2te1sch2el3n1tzi0üben2le2st2te";
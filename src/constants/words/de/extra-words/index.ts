@@ -0,0 +1,12 @@
+import { words as Two } from "./two";
+import { words as Three } from "./three";
+import { words as Four } from "./four";
+import { words as Five } from "./five";
+import { words as Six } from "./six";
+
+// The rest of the German words, from the Wiktionary words in the
+// all-the-german-words package, without abbreviations and with ß spelled ss.
+// They're packed with `packWords` like the English ones. Run
+// `npm run puzzle -- unpack-words --length N --locale de` to get one back as
+// a list, and `pack-words --locale de` to put it back after editing it.
+export const words = [Two, Three, Four, Five, Six];
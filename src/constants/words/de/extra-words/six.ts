@@ -0,0 +1,2 @@
+export const words =
+  "6|0aachen5r2dler2lend3ten2ners2raus3gau3hus3ons2send1bachi3dan4on3gta3kan4us3sie3tis4on2bach4nd4te4ue5s5t3ild4ss3ogt3öge2dach3eel0abduls3üse5t2ebbe5t3lie3nde5s3rle2fall4nd5g3iel4ng3log4ug3uhr2gabe5t4lt4ng4se3ebe5t4he5t4ld3ibt4lt4ng3oss4tt0abgrub3uss2hake5t4lf4ng4ue5t3ebe5t3ing3obt4ld5e5t3ält3öre5t2iose3rre5t3tur2jage5t3ekt2kamt4nn4ue5t3ehr2lade4ge0ablagt4ss4uf5t3ege5t4se5t3ief3uft3ädt3öse5t4te2male5t4ss3ähe5t3ühe5t2nage5t4hm4ki3orm2oral4te5s2rate4um3ede0abrege5o5t3ieb5t4ss3ufe5s5t4pt2sage5t4ht4ng5k4ss4tz3ehe5t4nt5z3ude5s4rd3äge5t4he2teil3rat4ug3ust3öne0abtönt4te2ulie3sir4us2wahl4rb5f3ege5s4hr3ich4es4nd3ogt3urf3äge5t2zogt3ugs3öge3üge2äsen1ccess3ras2ella3rra3sal3tal5t4on4yl0achaia4lm4te5z3eln4rn3ill4ms3med3ner3oli3sel5n4ig3tel5m5n5r5s5t3ual3äer4ne2idum5r2kere5n5s5t2olon2quit2ryls0action1dagio3lar3mek2cock2dend3ons2ebar3lar4ig4nd5s4st4te3mar3nau4in4om3rig2helm2idas3pös2lern5s3ige3ung2mins3und2obes3lar4fs4ph0adonai5j4is3rfs4no2rett3ian4ge2ular4te2vent4rb2ward5e5t2ygea3ton1eneis2robe1ffekt3ige4ne4xe3rös3äre2ghan2rika2ters1gadez4ir3met4ie0agatha5e3ven2bald3ert2ency4da2frid2iere5t3lem5n5r5s2laia2neta2ogik3nal4ie2utis1hmadi3ten5t2nden5t3eby4nd5s3ten5t3ung2orne0ahorns2rens3tal1igner3olf2kana3ido2ping2rach3bag4us3olo1kanje3zie2elei2kade3ord2tant3eur3ien4on4va5e3uar2utem5n5r5s2zent4pt3ise1ladin0alagwa3lie3nin4us3rme5s3ska3wit2bans3edo4re5n5o5s5t3ino4zo3oin3uin4ms3win2ekto3lla3ppo3rte3vit3wit3xej4ie5s2fard3ger0alfher3ker3ons3rad4ed3uin2gier2ibis3ces3ens3nea3oth2kali4ne5s3uin2lahs3dem3een4in4le5s3gäu3hie3ium3rad3tag3üre2mend3see3und2onso0alonzo2paka3ine2raun3ich2senz3ter4on2tach4ir4ne5s4re5m5s3bau3eln4na4re5n5s5t3gas3heu4of3man3ona4rt3rad5m5t4eh0altsee3weg3äre3öle5s2ugäl3mna5i3nit3rad1malfi4ia5e3nda3zon2berg3ige3oss3ros2eise3lia5e2iant3ens3gas4os3kal3nen3sch3xie2mans2nion0amniot2oral4ph2peln4re3fer3lex2rita3ums2seln2uzgo2ylen4um2öben1nabol3lem5n5r5s4og3nas3tas4ol5m2band4ue5s5t3ete3iss3rät3öte0ancona2dere5s3orn3rea5j5w2ecke5t3kle3rbe3tte2fall4nd5g3iel4ng4xe5t3log4ug3uhr3üge5t2gabe5t3ebe5t4he5t4la5e0angeln5o5t4rn5s5t3ibt4na5g4om3ler3ola4ra3äbe2habe5t4lt4nd5g4st4ut3ebe5t4im3ieb4ng3obt3upe5t3ält3öhe4re0anhört2ikas3lin3ons3söl3tas2juta2kamt4ra4uf3ere5n5s5t3ick3lam3äme5t2lage4ss4uf5t3ege5t4se3ief3öte3üge5t2male5t3ute0annage5t4hm4ns3exe3ies4ka3ähe5t2oden3mal4er4ie3nym3rak2rate4ue5t3ede4ge5t4iz3ief5t4ss3ufe5s5t2sage5t4ht4tz0ansehe5t4lm3gar3itz3off3äge5t4he2taue5t3eil3ifa4ke3jes3ons3raf5g5t4im4ug3ust2wahl4lt4rb5f3ehe5t3ies3urf2zahl3ogt0anzugs3üge2ämie2öden5t1orist3ten1pache3kwa3rte3tit2fels2ikal2lomb2olda4lo5s3rem4ie2peal4ll3les5t2rils2side2uler2ökie1quila1raber3fat3gon3mäa0ararat3wak2buse2cade3hen4iv2duin2eale5s3ndt4en3zzo2gali3los3ons3uni2iane3dem5n5r5s3ern5s3sch2kade3ona4se3tis2mada4gh4ni3bad0armeen3ins3los3zug2ndts3hem3ika4ms3old3ulf2omas4en2rays3est3oba2sens2tern4te3hur3ige4st4um3ois2ubas2znei3tes1sbach3est3irg2chau4en5r0aschug3ona2ebie3mie2hram2iate3ens3mov2kari3ese2mara2pekt4rg3iks2sads3eln4st4ts3isi3lar3uan2tana3ern3hma3ral4id2zese1taman3ris3xie3yal2hena0athene5s3let4on2lant4tl2mend5s4st4te3ung2olle5s3mar4en3nal4ie3pie2rien4um2test3ich4ka4la2zend1ubade3ing2dits3rey2fass3bau4og0aufbot3gab3hat4in4ob3kam3lad5g5s4ud3ruf3sah3tat4ue5n5t3weg4og3zog4ug2gust2rels3ich3ora2sbat5u3gab3hob4ub3kam3lag5s0auslud5g3ruf3sah4en5r4og3ter4in3weg4og3zog4ug3übe5t2tark3eln3ist3ler3ors4öl3sch2wald3eia2xine5s1vance4ti4yu3tar2enue3rbo0averse2ital1wards4in1xiale3nit3ome5s1ymara1zalee4ie2etat4on4yl2imut3nös2nars2onal3ren2teke2ubis3len3rit2ymit4on0baader2bels4tt3ist3uza3ypo4öl0baches3ile3ken5s4st4te4up2dend5s4rn5s4st4te2ffer2gage3dad3els3ger2hnen4st4te3ren2ikal3ley4li3ram3ser4se2jado2kken4ie2laie0balata3boa3der4ig4ur3gen5s4st4te3ise3kan4en4on3lei5n5s5y4on4re4st4te3sam3ten4in3zac4en5r4te2mako3bis4us3mel0banale3den5s5t4it4st3gem5n5r5s4st4te4ui3jar4os4ul3ken5r3nen5r4ig4st4te3oni3que3tje4us2obab2ppen2rada3bar4ie0barbla5i4ro3den4in4ot3ett3gen4st3huf3ium3ken3men5r3ney4im3ock4lo4ne5s3ras4el5n3sch4et4oi3tel5n5s3uch3yon4te0baryts2sale5t4re5s3els3ics3ken4in3ler3ses5t4in4um3tei5n5s4le2tate3est3ist3man3zen2uakt4mt4rt3chs3end5s4rn5s3gut0bauhof3klo3mes4le4öl3ort3pin3rat3sch3tag4en5t4yp3weg4ut3xit3zug2yern4ux2zare1eagle3men5r4st4te3ten5s4le4me3uty2bakt4ue0bebaut3els4nd5s3ras3ten5t3ust2cken5r4um4ys2darf3ien2ehre5t3ide4le5t3nde4ge5t3rbe5t4en3ten5s4le2fahl4ll4nd3ehl0befiel3uge5t4hr4nd2gabt4nn4st3ebe5t4he5r5t3ibt4er4ng5n3oss3rub3uss2hage5t4lf5t4ng4ue5t3ebe5t4lf4xe5t0behobt4st3ufe5s5t3ält4nd3üte2idem5n5r5s3gab4en5s3kam3lag4en5s3nah4en5s3rat4re5t4ut3sel4se5t3tel5n3zen0beizer4te2jagt4he5t2kamt3enn3omm3äme5t2lade4gs4ng3che3ebe5t4ge5s5t3ial5r4ef5h4ze3len4is4os4st4te3ogt4hn3sen0beluga3zig3ädt4ge3üge5t2male5t4ss3bel3men3ühe5t2nage5t4hm3der3enn3gel3imm4ns4to3nos3ote3son3zin4oe5l2quem2rate3ber3ede0beredt4it4ue5t3gab5n4en5r5s4ig3ief5t4ng4tt3kel3lin3nau4ds4er4ie3och3ste3tas4ha4is3ufe5s5t4he5t3yll2sage0besagt4ht4me5t4ng5n4ss4tz3ehe5t4ns3inn4tz3off4rg3ser4re3tem5n5r5s4ie3äte2tagt3end5s4st4te3hel3one5s5t0betraf5g5t4og4ug3tag4el5n5s5t4is4le4ys3öre5t2ugel5n5r4st4te3len4te3ron3tel5n5t4le2warb5f3ege5t4is0bewerb3ies4rb5f3ogt3urf3öge2zieh4rk3ogt3ugs3öge3üge2äuge5t1hakti2ikku2utan1iafra3nca2beln4rn3lis2derb4ts2eder3gen4st3lke3nen3ren5s0biesen3ten5r5t2fang2gott2hari2kend4rn5s3ini2lanz3bao3che3den5r5s5t3gen3iär3let4ys2mbam4es3mel4le3sen4te2nary3den5r5t0bingen3nen3ome5s3sen3zen3äre2odom3gas4en3hof3nik3pol3tin4op4yp3zid3öls2rdie3ett3git4st3ken3mas3nen3the2sher3mut3ons3sau4el5n0bisses4ig3tro4um2tbus3map3ter5t2waks2zarr3eps3one1jörns1labla3cky3den3gen3irs3ken4ig3nke5o3sen4ig4se3tts3uem5n5r5s3zar4er0bleche5s5t4kt3ibe5t4ch3nde3sse3uel2icht4ke5s5t3ebe5t3mps3nde4ke5t3tze5t2ochs4ke5s5t3ggt3nde3sse2uffe5s5t0bluhme3mig3sen3ten5r5s5t4ig2ähen4st4te3ser4se3uen4st4te2öcke3dem5n5r5s3ken4st4te3sse2ühen4st4te3ten1oards2bbau2ccia0bocher4um3kau4en5s4ig4st4te3use2dden3ega4ns3olz2eing2fist2gart3dan3ens4ys3ige3ner3ota2heme3len3nen4re3ren5r4st4te2idae3ler0boinae2kkie2lero3ide3len3zen2mbay4en5r4ig4te3mel5r2nbon3dia3gen4os3mot3ner5t3obo3sai3zen2ogie3men4st4te3ten5s5t2rden5s0bordun3eal3gen4st4te3ken4ig4um3nas4eo3ste3ten2schs3eln3kop3sen5s3ton2test3ten2unce4ty2vine4st2wden3ies3len5r2xart3end5s4rn0boxers3fan3set3ten5t4yp2zens3ner1rache5t3hms3kel3mme3nde5s5t5y3sil4se3ten5t4ze4öl3uch4en5r4ne5s4se5t4te3vem0braven5r5s2eaks3che5t3gen3hna3ien4ig4te3men5r4se5t3nda4ne5t3sts3ton4ts3vis3xit3zen2icht3dge3efe5s3ggs3lli4on3nge0bringt3sen3ten4in4ta3xen2ocke5t3dem5r4le3ich3kat4er3mid3nze3ten5s3wse5t2uchs3mme5i5t3nch4ei4ft4os4st3tal4ei5n0brutto4us2yans2äche3gen3nde3sig3tel5r4st3une5t4te2ösel2üche3der3gge3hen4st4te3lle5t3ndl4ne5s3ske4te3ten5r5t1ubele2chau0buchen5s4se5t4te3kel4le4ow2ddel4ha4ys3get3ike3oka2enos2ffet2gfix3gys2hend3len5r4st4te3nen3ruf3ten5t2kett3kal3lee2lbus3gur0bullen4ig5s4ös2mmel3sen4te2nden5s3gee3ker3sen3tem5n5r5s2rdas3eau3gau4en5r4os4ul5s3kas3lak3mas3nus3ren3ton2sart3bau0busens3fan3hof3ing3kap3sen5s4is3typ4ür3uki4ng2tans3jer3ler3ton3zen2yout2zzer1yline2pass2ssus2zanz1ächen3kst2dern2hend2lgen5r3len2ndel5n0bänder5t3ken5r2rbel3nau3ten4ig2ssen2test3zen2uche3men4st4te1öcken2hmen5r4in2igem5n5r5s2lken3ler4re2rsen2sere2test1ücher4se3ken0bückst4te2dner2fett3fel4le2gele5n5s5t2hler3nen2lows2ndel5n4ig4le3zli2rden5t3gen5r4in4st4te3ste3zel2sche3sen5r4te3ten0büttel5n3zow0cabrio2cher5s2ddie4ys2esar2issa2lais3cit3las3vin3wer2mion3pen5r4st4te4us2ncan3did3nes3ons3tor3yon2pone4te2rban4id4on0cardin3ina3las4os5w3men3nap3ola5s3sta3ter3uso2sein3ino3par3sis3ten4le4or4ro2thys3ull2yman1edric2line3ler5s4os2nter4re5o2rcus0cerium3nys3vix2ssna2tera2ylon1hagas3ise3kra3let3mez4ps3nce4el3rge4ly4me4on4ta5s3tte3uvi3wer2ecke5s5t3der3fin3lat3mie3ops3rub0chiara3cem5n5r5s3les4is4le5t3nas4in4on4tz3rac5l3tin4on2leuh3ors2oice3kes3mez3pin3ral4da4ea5s4in4us2rist3ome5s0chucks3rer3zpe2ören1icero2nema2rage3cus3ren4us2ster2trat4in1laims4re3que3ras3ude4se3vus2eane3ver2ient3nch3ppe5t3que3via2ones3wns2utch1oachs0coaten5t2bain4lt3urg2cain3hem2decs4in4nd3ons2elom2gnac2hiba2itus2lani3lie5n3mar3tan2medy3ics3paq2ncha3dor3nor3rad3tra2okie3lem5n5r0cooles3per2rdon3ona3pus3tex5z3vey2sima3wig2ttas2uchs3nty3pon3sin2vern5s5t2wboy2yote1racke5s5t3mer3shs3wls3yon2edos3men5s4ig4st0cremte3ole2impe5t2ozon2uise3soe3yff1upido2rare3ies4um3rys3sor3tis3uba2scus2tten5r1yanid2borg2mbal2pern1äsars3ium0dachau4es4se4te3kel2ddys2esch0daewoo2fina2gmar2heim3lem4ie3mes3ome2imio4yo2kern3ien3ota2llas4es3äge2mals4st3ian3mar4er5s3num3per4fe5s5t2nach3dys3iel3ken5s0dankst4te3nen3one3tes4on3zig2phne2rauf5s3ben4ot4st4te3ein3fst4ur3gun3ios4us3mes3ren3tat4un3win2sass3ein3sow2tend3ing4vs3tel0datums2uben3ere5n5t3men3nen5r2vida5s4na2weil1ealen5r4st4te2bian4le3ora3üts2ckel5n5r4st4te2fekt3tig2gens3out2hnen4st4te0deibel3che5s3mos3nem5n5r5s3xis2kade4ne5s3okt4rs3ret3urs2lfin4ts3his3ikt3len3ors3phi3tas3uxe2mand3ent5z3min2nare5s3gel0denims4se3ker4st3nis3tal4in3ver2pots3pen4re2rart3bem5n5r5s4ys3lei3mal2sign3mal5n3pot3sau4em5n4in2tail3lef5v2uten5t0device4se3ons4te2zent5z1habis1iadem3kon3ler4og3nas2bbuk2chte3kem5n5r5s4te2daxe3ier2eben5s4in3che3gos3len3mel3nen5r4st4te0dieppe3sel5m5n5r5s4ig3ter2ffus2gest3ger2ktat4um2ldos2mere3men5r4st4te2nant4re5s3ers3gel5n5r5s4le4os3kel3ner2oden0diorit3xid5n4yd2plom3ole5s3pen4st4te3tam2rekt3ham3ndl4en2scos3kos4us3ney3pos4ut3sen4te3tal4el2vers2wane5s2zain2äten1jango2erba0djihad1mitri1njepr1ochte5s3ken4st4te2doma2ggen3mas4en2hlen2lche5s3den3ent3ine3lar4em5n5r5s4ys3man4en2main4rt3bai5u3hof3ina0domini5o3see3tor4ür3äne2nald3ezk3gle3jon3nas4re3uts2ofem5n5r5s4is2pend3ing3pel4ik4le2rade5o3fen5s3ier3nen5s4ig4um0dorpat3ren4st4te3sal4ch4um3ten4ig2sage2tter2uble2xale2yens3les2zent1rache5t3gee3hte3lle4on3mas4en3ngs5t3pee3vit2ecks5t3hen5r0drehko4st4te3ien5r4st3mel3nke3sse2ifte3lle5s5t3nge5t4ks3tte3ver2oben3gen3hen4ne4st4te3ide3nte3sch4te2ucke5s5t3den0druide3sch4en4in4us2yade2ähte3nge5t3uen2ögem5n5r5s3hne5t2üben5r3cke5t3sen4ig1ualem5n5r5s4in5s2bais3cek3ios3lee0dublin2cken4st4te2dele5n5t4ns2elle5s3tte5s2ftem5n5r5s5t4ig4öl2ktil4us2lden5t2mdum3mem5n5r5s4ys3ont3pfe2ncan0dunges3jas3kle3lop3ste2plex4ik3ont2rban3chs3fte3ste2sche5t3els3sel3ter2tten2wock2zend5s4st3ten5t1ylans2namo4st2opol1ächer4te2mmen4st0dämmte3ons3pfe5t2rmen1öbeln4rn3lin2deln5s2mitz2nern3itz3kes2rfer3ing3ner3ren4st4te3tes2send5s3ige3ten5t1übeln5t2ften2lmen2mmer2ngen0dünger4st4te3kel5n4te3nem5n5r5s4st4te4öl3ste3ung2pier3pel2rens4rs3fen4te3ing3rem5n5r5s3ste2send3sel3ter0ebbend3ten0ebenda4em5n5r5s4so3rts2nend4st4te1choen3sen3tem5n5r5s2kard5t3bau3ert3hof3ige3ten4or3weg2lair1damer2ding2ekas2gars2iere5t0ediger3kte5s3son3ths4or2lere2mund2uard3kte5s2ward1fendi2feff4kt4ts3lux1gbert2mont2oist3man1hedem3los3rne3ste2lert2rbar3end5s3los3sam3ten0ehrtet3ung1ichel5n4st4te2ernd5s4st4te2fere5n5s5t3fel3orm3rig2gelb4ne5s3nen5r5t2haut2klar2land3een4nd5s4rs3gut3ige0eilten5t3ung3zug2mern5s2nbau4it4og3ehe4nd5s3gab3her4ob3ige5t3las4ud3mal3rad3sah5m4en5r4og4äe5t3tel5n5t3weg0einwob3zel4ig4og4ug3öde4le5t3übe5t2rund2sarm3bad5r4är3ens4rn3fan3hai3ige3ler3ner4ot3see3tag4ee2tere5n5s5t3lem5n0eitler5s3orf3rig1kelig4nd5s4st4te2krin2lats3ige3oge2tope2zeme5s1laste3tiv2bing3rus3tal2chen5s2eate3gie3ktr3nas4de5s3ven4in2feck0elfern5s3mal3tel5m5n5r5s4or2imar3ses3ten4är3zas2mars2ohim3xal2sass3ter4ra2vira2zach1manze2blem3ryo2dens2erit3sis2ilia5e5o3rat0emiren3sch2maus2otiv2pire3ore3yem3öre5t2sern3ige1ndarm5t3end5s4st4te3ige5t3los3orf4st3see3tag3ung4ro3zug2fant2geln5s4re5n0engine3obe3ste3ten5t2igma2keln5s2nepe2orme2rico2tbot3ere5n5t3hob3ity3kam3lud3ree3zog4ug2vers2zian3yme5s1piker4ie4ur3log3rus3sch0epitom2oche3nym3pöe3xid4yd2pich3ler2sons1quipe1rahne5t2bach4mt4ue5t3bau3ebe5t4nd5s3gut3hof3ium3ost3sen3ten5t3weg2dbau4oa3end0erdens4st4te3gas3ige4ng3mut3nah3pol3see3tag4or3ung3weg3öle5s2eile5t3mit3rbt2fand3olg3ror3uhr4rt2gabt3ebe5t4he5t3ibt4ng0ergoss3uss3äbe2halt4rd3ebe5t3obt4le5t3ält3öbe4he5t4re5t2ichs3kas3nye3wan2jagt2kern5s3ner3ort3ürt2lagt4ss3ebe5t4ge5t0erlitt3öse5t2mass3üde2nest4ut3ste3ten5t2ogen3ngo3siv3tik2peln5s2rang4ta5e3ege5t3iet3öte2sann4tz3ehe5t3off3par3tem5n5r0erstes2trag4ug3öne5t2warb3eis4rb3ies4ns4rb3ogt3äge5t2zabt4mt3bau3end3hof3ogt3zug3ähl1scape3hel5n5r3ort3udo2elei4in2kimo2lohe0esprit3uma2says3bar3end5s5z4rn5s3igs2ters3hal4er2zett1tagen3lon3min3ppe2hans3ers3ins3nie2isch2lich2waig2ymon2üden1ugene5s2klid2lers2nuch0eurige3one4pa3yök2tern5s3ins1vasiv2chen2elyn3nts2onik1walds2igem5n5r5s1xakte3men3rch2eget2frau2ilen3tus2kret3urs2mann2nazi2odus3gam4en3nym0exoten4ik5n2pert3ort2tase5y3ern3ras4em2zess1zzich0fabele5n5t4rs3ian3rik2chen5s4st4te3ial3kel4le2dens4re2enza2gott2hlem5n5r0fahles3nde4en3rer4ig2ible3rem5n5r5s2kend3ire3ten5s4or4um5r2lbel5m5n5r5s3ken3lbö4es3ott3ten5r5t4ig3zen5s0falzte2mily3ose2nale4rt3den5t4st3ges2rang3bei5n4ig3men5r3nen5s2sane5s3cho3ele5n5t4nd4re5n5t3net3sen5s4on4te0fasten5t3zie2tale3ima3ums3was3zke2uche5t3lem5n5r5s4ig4st4te3nen5s3sts2vela2xend5s4st3ten5t2zial4te5s1ebril2chte3ker0fedder3ere5n5t3ora3rig2erie2gend5s3ten5t2hden3len4st4te2iend4re5n5t3gem5n5r5s3len4st4te3nde4em5n5r5s4st0feiste3xen4te2kund2lbel3der5s3gen3ine4pe3len5s4ow3sig2nder3nek3zen2rial4en3kel3mat4is3nab4em5n5r5s3rit4um3sen3til2sche0fessel4le3tem5n5r5s4on2tsch3tem5n5r5s5t4ig3zen4ig2ucht3dal4el3ere5n5s5t3rig5o1iaker3len3sko2beln4rn3rin4om0fibrös2chte3ken5r4st4te2dele2eber4re3del3len4st3pen4se5t4te3ren3sco4em5n5r5s4ta2garo3hts2ktiv2lder3ets3ius3men5r5s0filmst4te3ous3ter3zen5r5s4ig4te2mmel2nale5s4nz3cas3der5t4ig3gen4st3ish4te3ken3nen4ig5n3ten2psig2rmen3nen4is3rel3ste0firsts2sche5s5t3kus3ole3tel5n2tsch3tem5n5r5s3zel2xend5s3ten5t1jodor3rde5s1lache5s5t4on3den3ggt3irs3kon3men4me5t0flanke3shs3tow4us3uem5n5r5s4ms4se4te3vio4on2ecke5s3ece3gel3hen4st4te3iss3nne5t3ppe3xem4iv4ur2icht4ke5r5s5t0fliegt4he5t4se5s5t3nke4te3ppe5t3rte5s3tze5t2oate3cht4ke5t3gen4st3hen5s4st3ppe5t5y3ral4en5s4id5n5s0flosse5t3tte2uche5s5t3der3ges3ida5e5s3mmi3nke3ors3ppe5t3ren5s3sen3ten5t2yern5s2äche3dle3min3zen2ögen5t3hen4st3sse0flösst3ten5t2üche3gel5n4ge3sse1ohlen2kale3ker2lgen4st4te3ien3ter2ndue2ppen4st4te2rbes3dre3int3ken3mal5t4el5n5r4st4te4öl0forsch4te3tan4is3ums2ssil2tzen2ulen4te2wler2yers1racht4ks3ger4il4st4te3men5s3nce5o5s4ka5e5o5s4se5t4zi3sse5t3tze0frauen4ke2eaks3che3ddy3iem5n5r5s4in4st4te3mde3ren3ske5o4se5t3uds4st4te3vel4le3yja2iaul3eda5e4re5t4se3gid3ngs0frisst4te4ur4ör3tes4te4ze3vol2ohem5n5r5s3mme5t3nen3ren4st3sts2ugal2äcke3sen5r4se4te2önen4st4te3ste2ühem5n5s1uchse0fuchst3ose2dern2gend5s3ger3ten2hren4st2jian2ldas2mmel4le2nden5s4is4us3ken5r5s4le4st4te3zel5n2rage3che5t3ien5r4os3ore0furors3ten3zen5s4te2sels3ion3sel5n5s4te3uma2tons3sal4ch3ter4re3ure5s1ächer2dele5n5t2hige3ren4st4te2kale2llen4ig4st4te0fänden5t3gen5r4st2rben5r4st4te3sen3öer2sser2uste1öhnen4ig4st4te3ren2rden4re3mig2tale3zel1üchse2gend5s3sam3ten5t3ung2hlen5r0fühlst4te3rer4st4te2llen5r4ig4st4te2ndig3fen5r4te3sch2rder3zen2ssen2ttre0gabbro3ele5n5t3ler3uns2ckre2dget3mer2ffel5n5r4st0gaffte2gaku2hnit2inze2lant3ens3gen3ina4on3lat4en5r5y4ig4up3mei3opp3ten5t4ür3way2mbas4ia5t3ing3mel2ndhi3eff3ges3ner3ove3ser0ganter4je3zem5n5r5s2okao2rage4nt4us3ben4os3cia3den3end5s3gut3nen5s2sart3end3hof4ub3jet3mai3sen3ter5s4od5n4ro3uhr0gaszug3öle2tsch3ten5r4in2uben3cho4ks3kel4le3lle3men3ner2vial1dansk2ynia1eaalt4st3hnt3lmt3tzt2bart4ut3ebt4in4ll4nd5s4rn5s4te0gebets3iet4kt4ss3lök4üt3ote5s4xt3räu3urt3äck4ht4lk4re5t3ühr2cken4os2deck4ih4rn3ieh3opt3uld4zt3ärm3öns4st3üst2ebbt3ggt0geehrt3ilt4nt4st3rbt4zt2fach4hr4kt4st4xt3egt4it4ll3iel4xt4zt3ror3äss3üge5t4hl2gart4st3eit4nd3ner3ärt2habe5t4kt4lt0gehaue5t3eft4ge5t4im4nd5k5s4ul5t4xt3irn3len3olt4nt3ren3uft4pe5t4rt3weg3ypt3öft4lz4re5n5s5t2iaht3end4rn0geiers3fer3gen5r4st4te3lem5n5r5s4st4te3rrt3sel5r4ha4te5s3zen5s4ig4te2jagt3eut3uxt2kaut3rös3urt3äst3ört3ürt2labt0gelage4ng4ss3bem5n5r5s3der5s3ebt4es4ge5t4is5t4nk3ikt4nd3len5r4te3obe5t4ht4st3ten5t3ugt4mp3äuf5t3öst0gelüst2mach4hl4lt4ra3ein3imt4ni4xt3men3uht3äht4ss3üht4se4te5s2nagt4ht4nt4st4ue3der3ehm4ra4se5t3fer3ial4ck4es4sa0genius3ome5s4rt4ss3res3ter4il3uas4in4ss3äht4se3ölt4rt3üge5t2odät3rge5i5s3top2palt4rd3est3ikt3oft4gt4lt4st3ult4pt0gepäck2rade4gt4ld4nn4rd4st4te4um5t3ben5r4st4te3das4es3ede4gt4ut3iet4ng4ss3man4er3not3old4nt3ret4it3son4te5l0gerten3uch4fe4he5t3äte5s3öll3ügt4st2sagt4mt4ng4ut4vt3che3eke4ll4nk4tz4xt3ims4ne3pan4ür3ten4ik4us4ör4üt3uch4ms0gesägt4lz4ss4te3öff2tagt4ne4pt4ut3ier4mt3obe5t4se5t3reu3tos3ues4nt3ypt3önt4se2ulkt3nkt2wagt4hr4lt4nd5n3ebe5t4hr0geweht4ih4rk4se3inn4rk5r4ss3oge5t3ägt4hr3ölk3ühl4rm5z2ysir2zagt3eit4ug3irp3ähe4nk2äfft3ste3tzt3ugt2ölte2übte1frett1hanas3sel0ghetto1ianna5i2bbon2deon2ebel3per3ren4ig4st4te3sse5t2ften5s5t4ig2gant3erl3olo2lben3den3lef3tst2mpel2ngen5r4st3kgo2otto2pfel4le0gipsen5r5s2rren2scht3ela2tter2ulia1lacee4is3nze3ren4us3sau4en5r5s4ig4ur3tte4ze3ube5t2eise4te2icht3din3eds3mme5t4pf3nde0glitte2obal4en4in4us3cke3ria5e3sse3tze5t2ucke5s3ten2ycin3kol3phe2änze5t3ser3tte2ömme2ücke5s5t3hen4st4te1nadau4en2eise2itze0gnoien3men3sis2ädig1oalie2ckel2derl2ethe2kart2ldap4ei5n5s4ig3ems3fen5r5s4st4te3zow2mera2nade3del3gen2ogle4ol2rani3don3kis2sche3lar0gospel3sen3win2tcha3has4ic3tes3zig1rabbe4en5s4ow3ces4ht4ia3den5r5s3fem5n4ie5k5t3ham3mms5y3nat4de4it4ne5y3ppa0grasen5s4ig4te3ten5s4in5s3uem5n5r5s4pe4se5t4te3vid5s4ur3zer4ie5l2egor3ife5t4se3lle3nze5t3tel5s4he0greven2iebe5s4ne5t4ss3ffe5s5t3lle5s5t3mma5e5s3ngo4se5t3ppe3son3wna2obem5n5r5s3den3ggy3lle5s5t3nau3ove0groovt5y3ppe3sny4se3tte5o3wer2uben5r4st3fti3mby3nde4ge4ze5t3ppe3sel2äben5r4st3fin3men4st4te3ser3ten4ig3uel2öber3den0grölen4st4te3sse2übel4le3ezi3nau4de4em5n5r5s4st4te3sse5t3tze1spusi2taad3uri1uanin3ven2cken5r4st4te2drun2elfe2ides4os3nea0guinee2lags3den3lys2mmer4is4ös2ndel3man3nar3ter2ppys2rage3gel4le3ion3ken4ha4st4te3ren4te3ten5t2sche3lar3ses3taf5v2that3tat4un0guttut2yana1ynoid2ttja1äbest2hnen4st4te2lten2msen2ngen4ig3sen2rend5s3ten5t3ung2sten2ulen1ödels2ffel2nnen5r4st4te3tje2ring2ssel2tter4in3zen0gülden3len3tig2nter2rten5t2ssen3ten2tern3ige0haager3rdt4en5s4ig4st4te4öl2bana3end5s4rn4st3ibi4ts2chel4se3ken5r4st4te2dere0hadern5t3ith3ron3sch2fens4rl5s3fen5s3ner3tel5n5t4öl2gana3ele5n5s5t4ns4re3gai4is3nau2haha2iart3der3fas3ger3kus3nan0hainen5s3tis2kama3eln4nd5s3ler3omi3ten5t2lali3bem5n5r5s3den3fen4st3ite3lel5n5r5y4ig4te3men5s3oid3sen5s3ter0haltes5t4ig3ver2meln3let3mel2naus3del4ke4le4ys3fen5s4öl3gar4es3iel3nah5s4el5s3ois3sel5n5r3tel4ig3uta2pere5n5t0happen4ig3tik2rald4re4ss3der3ems3fen3ibo3ken4st4te3lem5y3men3nen3old3ren4is4os4st4te4ys3sch3tau4em5n5r5s4ha3uka0harvey3zen5r5s4ig4te4öl2sard3che5t3eln3pel3san4en5r5s4os4te3ten5t4ig2tten5t2uben3che5s5t3end5s4rn5s3fen0hauffs3pts3sen5r5s4sa5e4te3ten5t2waii2ydns1eader3lth2bbel3ele5n5s5t4nd5s4rn5s3ron3ung2chel4le4se4te5s3ken4st0heckte3tor2dwig2eren5s2ferl3ten5r5s5t2gels4nd5s4rn5s3ten5t2hlen5r4st4te3rem5n5r5s2iden4in5s3kel5s4le4os0heilem5n5r5s4ig4st4te3men5s4se5t3ner5s4os4ze3rat3ser4sa5e5t3ter3zei5n5r4te4öl2ktar4ik4or2lden4in3ena0helene5s3fer3gas4es3ion5s4um3las4em5n5r5s4st4te3men5s4ut3ote2mden5s3men4st4te2ndel3gst3kel5n5r3nas4ef5n0henner5s4ig3rik5s4ys3tai2ptan2rald4uf5s3bar4ei5m5n5r5s3den5r5s4is3ein4ro3gab4en3hat3ing3kam3mes3ner5s4ie0heroen4in4ld4on3pes3ren4in4je3tas4en4ha4ie3vor3weg4ig3zen4ig4og4te2siod3sen5s4in5t3tia2tero3zen5r4te3äre2uend4re0heuern5t3len5r4st4te3rig3tig2witt2xans3end5s4st3ten5t1iatus2droa2ebei5n5s4st3fel4ür3lte3ran4in4ro4um4zu3sig4se5t0hieven4st4te2lary3das4en5s3fen4st3ton2nauf5s3bog3dre4us3ein3gab4en4st3kam4el5n4st4te3nen3sah3tan5t4en5r4un5t0hinweg3zog2phop3pem5n5r5s4ie4us2rnen5s3sch3ten4in2ssen4te3ton2tler3zig1leban2upan1obbit4ys3ele5n5s5t2cken5r5y4st4te0hodens2esch2fakt4lm4mt4rt4ue3bad5u3ers3fie4st4te3gut3rat3see3tag4or4yp4ür3weg3zug2heit3lem5n5r5s3nes2ldem5n5r5s0holend5s3ger3ist3ler3men5s3pre3ten5t3zei5n5r5s4ig4te4öl2mann3ers2ndas3end4tt3ige5s3nef3shu2odie2pfen3lit3pel5r4la0hopple3sen5r4te2rche5t3den3mon3nes4ig3ror3ste5s3ten5s5t2spiz3tel4ie2tdog3els3key2ward1ubarm3bel3ers5t3rad3weg2chen3kel5n0hucker2deln4rn5t3son2fart3ner2lman3ock2mane3bug3ide3mer4us3ors3pen4le2nden5s3gen3nen3ten3zen2patz3end5s3ten5t2rend3one3ten5t0hurtig2sche5t3kys3sen4it3ten5t3ums2tlos3ton3ung3zel1ybrid5s2drat4id2mens3nen4ik4us2pend3hen2änen1äckse2ferl3ner2hnen2kele5n5t2lfte0hälsen3tst2mmer2ndel5n3ger4ig4st4te3sel2rene3men4st4te3ten5r5t2tten5t2ufen4ig4st4te3ser3ten5t1öchst3ker2here3len4st4te0höhnen4st4te2kern2llen3zer2rart3bar3end5s4rn5s3gas3ige3ner4um3sel3ten5t3weg2xter1übner3sch2fner3ten2geln5s3lig2hner2llen4st4te0hülsen2ndin2pfen5r4st4te2rden2stle2tend5s4rn5s4st4te3ten3ung0iahend2mben4us1badit2erer4ia2idem3zas2sens1dahos2eale5s3ell3fix2iome5s0idolen2ylle5s1gelst2natz1hrige3zen1jssel1karus2onen1llern3ing1mages3men2biss2itat2kere5n5s5t2mens3une2pala3fen4st4te3ort3uls1ndaba3ern5s4xe0indien4go4ks4os4ra4um3oor3ult4si2erte2fame4nt3ekt2gmar3olf3rid3wer2halt2land4ut4ys3ett3ine2nere5n5t3ige4ng3tal3ung2puts2sbes0inseln4rt3ult2takt3els4rn3ime5i3ron5s2vers4st2zell4st1onien5r1raker3ner2dene2enes4ik2gend2isch4öl3tis2land2onie2real4nd5s4re3ige0irrsal4te3ten5t4um3ung3weg2ving1saacs4ks3bel2chgl4ia5m4ls2idor2lams4nd2mael4il2obar3dom3gen3lat4de3mer3nzo3ton5p3zym2rael1taker0italer4ic2haka2zund1voire3rer2rith1wanow2rith1zmirs0jacken4ie3obi5s5y2deit2ffas2gden3end5s3ger3sch3ten5t3uar2hren5s3wes2inas2kobi5s3ute0jalons2mben4us3ies4la3men5r4re4st4te2ndls3ina5e3ker3nek5s4ik5s3sen3uar2pans3sen5r4te2rgon3men2smin3per4is3tik2uche3len0jaulst4te3nde3sen2vier2wohl4rt2zzen5r4ig1eanne2cken5r5s4in2doch2etze2hova2lzin2mals4nd3ens3gum2naer3nis4ys3sen2remy3ome3rys3sey2saja0jeside3sen5s3uit2tlag3ons3set4ki3ten5t3zig2uend2zide1ieper2ngle2rrin2tter1obben5r4st4te2chem5n5s3kei5l5y2deln5t3ide5s3kur0jodler2ggen5r4st3urt2hann3len4st4te3nny2ints2kern5s2llen2plin3pen2rdan3uri2sefa5s4ph3hua3uas2vial1uanas2bele5n5s5t2chen4he4ze0juchzt3ken4st4te2dika4th3ogi4ka3äas2gend2hnke2lian5s4en5r4us2mbos3pen5r2neau3gem5n5r5s4st3ior4us3ker4ie3tas2rist3ten0justin5z4us2ttas2wels2xend3ten5t1ägern5s2hren4ig4st4te2nner2tend5s4st4te1üchen2deln2lich2nger4st2rgen0kaarst2bale3ble3ele5n5s5t0kabine3rio3uff4ki4ls2chel4in3ken5r4st4te2ddig5k3enz4rn5s4tt2ffer3kas3tan2gura2hlem5n5r5s3mig2iman3nit3ros3ser3zen2jaks0kajüte2kadu4os4po3tee4us2land3ben5s4in4re4te3eun3iko4um3kar4en5s4ig4st4te4ül3las4es4us3mar4us3tem5n5r5s3uga0kalzit2meen4le5s4nz3ine5s3mel5s3pen4fe5s2naan4da4ke4ls4ri3del4is3eel3ker3nen4st4te3ons4pe3sas3tel5n5t4ig4on0kantor3uri4te3zel4le3äle3üle2olin2paun3ern5t3ier3lan3osi3pen5s4st4te3sel4id4le3utt4ze2rate3ben4id4ol5n3dan4en4ia3ens0karenz3gem5n5r5s3ibe5u4es4na5s4ös3las3mas4el5n4in3nat4er3obe4la3ree5n5r4st4te3see4ts3tei5n4on3zer3äer0kasack3bah3ein4ln3ino3par4er3sel5n4ia5e3ten4or3uar2tana4rr5s3ern5s3his3ias4on3jas3ode3rin3tun3zen2ubar3dal3end5s4re0kauern5t3fes4st4te3nas3sal3tel5n5t3zes4ig2viar2yser2zike1eaton2babs2ckem5n5r5s2eper2firs2gele5n5s5t3ler2hlen4ig3ren5r0kehrst4te2ifen4st4te3len5r4st4te3men5s4st4te4öl3nem5n5r5s3rin3tel2ksen5s2lbra3che5s3len4ys3oid3ten5r4in3vin0kempen2nias3nel5n5r4st4te3zan2pler2rala3bel5n4st4te3ken5r3len3mes4it3nel5n5r4ig4öl3pen3rin3zen2ssel5m5n5r5s0ketone5s3sch3tel5n5t3zer4in2uche5t3len3per3sch2vins2ynes1hagan3nat4en2omas1ibbuz2cher3ken5r4st4te2ebig3fer3ken5r3len5r3men0kienöl3pen3sel5n5s4ig3wer2ffen5r4st4te2gali2kuyu2lian3len5r4st4te2mber3men3ono2nase3des3nes3ski3zig3äde2oske5s2pfel3pah4en0kipper4st4te2rmes3ren3sch3tag2shon3lew3met3ten2tend3sch3tel5n5t3zel5n4le1jetil1lacke5s5t3dde3ffe5t3gen4st4te3mme4pe3ngs0klangt3ppe5t4se3ras4em5n5r5s4te3ube5t4en4se5t4te3vus2eben5r4st4te3cks3hen3ide5s4en4ne4st3mme5t3rus3tte0kletze3ver5s2icke5s5t3ent3ffe5s3mas5x4me5t3nge5t4ik4ke5t3ppe3rre5t2oake3ben4ig3mmt3nen4st4te4us3pfe5t4pe0kloppt4se3tze5t4ür2ugem5n5r5s3ppe2äffe5t3ger3nge3ren4st4te2ömme3nen4st4te3sse3ten4ze2üfte3ger3sen3ver1naben3cke5i5s0knackt3gge3lle5s5t3ppe3rre5t4zt3sti3uer4fs4rs2ebel4le3cht3ife5t4pe3ten5t2icke5s5t3end5s4st4te3ffe5s5t4te0knigge3lch3pse5t3rps2obel4le3fel3lle3pfs3rke3spe3ten5t4ig2uffe5t3rre5t3ten2äste3uel4fe2ödel3pfe5t3sel2ülch4le5t3pfe5t0koalas2balt4ne3ern3old3ras2cher4st4te4um2dein4xe2ggen3nak5t2hlen2itus2jote2kain3eln5t4tt3kus3ons3sen5r5s4te2lben3jas3lar4eg0koller4in4re3one4ss3ter2mbis3edo3mas4is4od4st4un3tur2ncha5e3dom5r3fix4us3gos3ica3kav3nex4te3rad3sul5m3ten5r4or5s0kontra5e4ur3vex4oi3zil5s2peke3fes3ien4st3pel5n4le3ten4in3ula2rane5s3bes3del4on3eas3fus3ken4ig3nei5s3ona3pus3ral3sar0korsen4in3tex3yza2send3mos3ovo3rae3sät3ten5t4ow4üm2taus3end4xt3ten5r3zen4ig4te1raale3bbe3che5s5t3gen3ins3kau4el5n4ow0kralle5t3men5r4pe5f4st4te3nen5s4ke5t3sse3ter4ze5t3ule5s5t4se5s5t4ts3yon2ebse3dit3ide4se5t3mig4ls4pe0kreole3pis4ps3sde4ke4se3tas4er4hi4in3uth4ze5t2ibbe3ege5s5t3mis3ppe3sen4is3tik2oate3cht3kus3nau4en4os3sch4se2udem5n0kruder5s3ges3men4me3ppe5s3ste2ypta5e2äfte3gen3hen4st4te3mer4le3nen4ke5t4ze3tze2öche3ger3nen4st4te3pfe3sus3ten2ücke3gen0krüger3mel4le4me5t3sch1ubbuz3ist2cken2fiya2gele5n5t3lig3uar2hkot3len2lant5z3ler4re3ten5s4ig4ur5s2mmer5t3pan4el2nden4ig0kundin4us3ene3gfu3kel2pfer3ido3ons3pel5n4le2ramt4nt3bad4el4le3den4in3end3gan3ien5r4os3ort3sen5s4iv4or4us3ven4ig4st0kurvte3zem5n5r5s4um2sche5t3ine3kus3ses3tos2ttel5n5r2vert2wait3eit1wanza1yklop2rill4tz2ushu1äfern5s3ige5s2hnen2lber3ken3ter2mest0kämmen4st4te3pen4fe5t2nnel2rger2send3ige3ten2tner3zin2ufen5r1öchen5r4in2dere5n5s5t2hler2lner3sch2nige5s3ner4te2pfen5r4st0köpfte3per2rben3end3nen5r4ig2ster2tern5s3hen3ner3tel5r1übeln5s2chel5n3ken2hlem5n5r5s4st4te3nem5n5r5s2kens2mmel4re0künden5r5t3ste2pers2rass3bis3end5s3ten5t3zel5n5r4te2ssen5r4te3ten5r0laabla2bele5n5s5t4nd5s4re5n5t3ial4en0labile3ore5s4ur3sal3ten5t3ung2cher4se5t4te3kel5n5r5s3tat2dakh3bar3end5s4rn5s3ies4no5s3ung3wig2ffem5n5r5s0lagere5n5s5t3une2hmem5n5r5s4st4te2ibes3che5t3kal3las3sse3tie2kens3ota3tat3une2lish3len4st4te2mbda3ina3men5s3pen3äng0lancia3dab5u4ei5n5r5s5t3gem5n5r5s4st4te4ue4öl3kas4er3zen2oten4in2ppen4ig5n3sus3top2rven3ynx2sche3ern5s4st0lasker3san5s4et4os3ten5r5t3ziv4lo2tein4nt5z3ina5o4um3kes3rie3sch3ten3zen5s4te2uben5s3cha3des3ere5n5t3fes3gen0laugst4te3nch4en4ig3ras4en3sen5r4ig4te3tem5n5r5s5t2vabo3oir2wine2xans3ere2yout1eader3gue3ken3sen4te2bach3end5s4rn3los0lebtag4en5t2chze5t3kem5n5r5s4st4te2dern5s3ige3rig2erem5n5r5s4st4te2fzen2gale4to3end5s4re5n5s3ion4st3ten0legtet3uan4ng2hens3men4ig3nen4in4st4te3ren4st4te2iben5r5s3che3der5s5t4ig3ern5t3hen4st3men4ig4st4te3nen4öl3sem0leisen5r5s4te3ten5t2ktor2mken3mas2nden3ins3ken5r4st4te3non3zen2oben3ner5s4id5e2pcha3rös3ton2rche3ner4st4te2sart3bar4en0lesbos3end5s4rn5s3lie3ung2tale3ten5r4in3zen4te2ucin3gne3ten3ven2veke4ls3uka2xeme5s3ika1hasas2otse1ianen2bera5o3ido3yen5r2chen0lichte5s2dern2ebem5r5s4ig4st4te3der5s3fen5r4re4st3gst3hen4st3ken5s3sse5t2ften5s5t2gand4se3ist3nin3ula2iert2kend0liktor3öre5s2lian4en3lis4ys2mbus3ite5s3mat3one2ndas5u4em5n5r5s4ow4re3eal5r3gam4en4ua3ien3kem5n5r5s4st4te0linnea5n3sen4te3zer2pide3oid3pen3tau2quid4or2sene3ple3ten5t4ig3zts2tern5s3ten5t4st3zen2vide4us3ree2zenz1loyds1obbys3end5s3ten0lobtet2ccum3hau4en5r5s4st4te3ken5r4ig4re4st4te2dere5n5t3ges3sch2ggen5r4ia4st4te3ins3out2hend3mar3nen5s4st4te0loipen2jban2kale5s2lita3lar4is2ndon2oten2renz3iot3sch2send5s4re4st3kam3tag4en5t3ung3zog2tend4st4te3har3ion3sen4in4te3tes4os0louisa5e3nge3vre2yale1uanda2bawa3ina3lin3min2chse3ius3kau2ddit3ern5s4st3ger3wig2ftig2gano3end3ten5t2igis3ses2krez2llen4st4te2mbal3ens0lumpen4ig4ur2nare3gen3ker3ten3zen2pfen5r4te3ine2rche3ker3tag2saka3che3ter2tein3her3ize3sch3ter2xors2zern3ide1ybien2chee5n2dien2kien2mphe0lyncht2oner2sins2zeen4um1ächle2hmen4st4te2lles2mmel5r2nder4le3gen5r4st2ppen2rche3men5r4ig4st4te2sest3ion3sig3tig4re2tare2ufen5r0läufig4st3sen3ten5t4re1öcher3ken2ffle2hnen5r4st4te2sbar3che5t3end5s4st3sen5s3ten5t2tbar3end5s4st4te3hen3pin3ung1übben0lübeck3kes3sch2chow3ken2ften5r5t2gend5s3ner2mmel2pfen2sten5r2tter3zel5n4ow0maaike3sai2buse2caos3her4os4st4te3ken5r2dame3era3ige0madita3jar3len3rid2ffay4ia3ios4ös2gens4re5n5t3gie3ier3mas3nat4et4um5s3yar2hdis3len5r5s4ow4st4te3mud3nen5r4st4te0maiden3ers3hof3kes3len5r4st4te3nau4es3ses3tag3weg2jore5s3uro2kake4lu3eln5s3ing3ler3ron5s2labo4de4ga4ie4te5s4wi3bec0malend5s4rn5s3ibu4er3men4st4te4ös3tas4en5r5t3ven3zes4ig3äse2mbos3mon4ut3pft2nage5t4ma4ti4us3che3dat4el4ys3ege0mangan5s4el4le4os3ien5r4la4ok4tu3kei4os3nas4en5s4it3ske3tas4ik4ra4ua3ual4el2oist3ris2ppen3uto2quis2rabu4ne3cel4os0marcus3der3end5s3gen4it4ot3ias4el5n5s4ka4na5e5o4on5s4ta4us3ken5r5s5t4ig4os5v4ts4up5s3len5r5y0marlis4on5w3mel4or3ode4ne5i3ret4in3sch4er3ter4ha4in4re3vin3yam3zin2scha5e3ern5u3hie3kat4en4il3sai5s4el5n5s0massig5v4te3ten5r5s2tern3jes3rix3sch3tem5n5r5s3ura3zen2uere5n5t3ken3len5s4ig4st4te3ren5r3sen5r4re2xima5e0maxims2yday3ens4rs2zzen1eckre2deas3ial5n5s5t4ch5i4en4na4um3ley3usa5e2eren5s2gara3äre2hlen5s4ig3med5t3ren5r4st4te0meiden5t3ers3kes3len5r3mel3nem5n5r5s4st4te3ose3sen4te2kkas3ong2lano3den5r5t3ina3ken5r4st4te3lah4es4um3one3tau0memels3men3ory2nage3del5n4ig3gen4st4te3hir3inx3ora3sch4en5s4ur3tal4or3zel2ppen2rgel5r3ian4no3kel5n5r4st4te4ur3lan0merlin4ot3zen4ig4te2sial3mer3ner3sel5n4ie3usa2tall4xa3eor4rn5s3han4yl3ier3ope3ren4ik4os4um3ten3zen5r3öke2uten4re2xiko0meyers2zzie1iamis3sma3uen4st4te2chas4el3ker5y4ys3mac2dder2eden5r5t4st3fen4ig4st4te3lke3nen3sem5n5r5s3ten5r5t3zen0mignon3uel2kado3ron5s2lane5o5s3ben3dem5n5r5s3ena4ts3ich4eu3ler3ton3upa2mend4se3ose3ten2ndel5n5r4re3eur3ima3nan4ig0minoer3sch4ks3zöl2ozän2rage3iam3jam3kos3ror2scha5e5t3ere3pel3sal4en4is4te3tel5n5r5t4ig2tbau3gab3hat4in3kam3ose3ren3tel0mitten4ig4le4un3zog4wa2xend5s4rn4st3ten5t4ur1oabit2bben4st4te3ile2chte3kup2dale3der3ele5l5n5s5t4ms4na4re5n5s0modert4st3rig4ow3ula5e5o5s2gele5n5t3ler3uls2hair4wk3nöl3ren2kant3ett3ick3kas2lare3che5s3dau3ise3ken3lig5s3och3tke4on0moment2naco4de4ko4te5s3den5s4än3ets3ica4ka4st4ta3roe3sun3tan4ur2oren5s4ig3sen5s4ig2peds3pel5n3sen5s4ig4te2rast0morbid4us3den5s5t4io3gig3itz3oni3ris3sch4en4te3tal3äne2saik3ere5n5s5t3kau4wa3lem3sad4ul3ten5r5s2tels3her3ion4ve0motivs3ors4wn3tek5n4os3zen4ig4te2unte3sse2vens2zart1ucken4is2ffel5n5s4ig5n3tis2gabe3gel2hend2kosa2lden3lah3mig3tis2mbai3ien3pel0munden5s5t3kle3ter2ppet2rano3cia3ing3kse5t3mel4le3nau3phy3ray4en4st4te3äne2scat4hi3eal4en4um3ils4zi3kat5u4el3lim3sel0musste3ter4re2tant4se3end4st4te3ige4st3los3tis3ual4ng1yelin4om5n2iase3tis2kene5ä3ose2lady3ord2ogen3pem5n5r5s4ie3sin2rrhe0myrten2stik2then4os4us2zels1ächte2deln5s2gden2hder3end5s3len3nen3ren5r3ten5t2kele5n3lig2lzen5r2nade3gel3ner4in3tel2rker4te3zen0mässig3ten5r5t2uler3sen4le2zene5s1öbeln5s3ius2chte2gend5s4st2hren2ller4ns2nche5s2psen2rder3ike3ser3tel2ttke1ücken2dere2geln2hend5s0mühlen3sal5m3ten5t2llen5r4st2ndel5n5r5t4ig3zen5r4te2rbem5n5r5s3itz2slis3sen4ig4te2tter3zen0nabeln5s2chen4ts3ken0nackig4te2dele5n5t3ine3jas2gana5o3ele5n5s5t4nd5s4rn5s3old3ten5t2hbar3end4zu3ije3men4st3ost3ten5t2ivem5n5r0naives2jade2mens2ncys3dus3nte3sen3tes2palm3fes3ier3ola5i2rben4ig3ren4st4te3vik3wal2sale3che5t3daq3sau4em5n5r5s3tie2tale5i0natals3han3ion4ve3ron3ter3ura5e2urus3sea3tik2vaho4jo2watl1donga1eapel2beln5s5t3lig3ras2ckar4en4st4te2ffen2gern5s3rid4os3wer2hmer0nehrus2iden5r5s5t3gen4st4te3sse2ktar4on2lken3son2nnen5r4st2odym3gen4äa2pali5s3pen5r4st4te3tun2reid3oli3uda3val4en4ig0nervst4te4us4ös3zen5s4öl2ssel3ter5s4or2ttem5n5r5s3zen5r5s2ualm4mt3bad5u3ere5n3fra3gut3hof4ub3lot3men3nen5r0neunte3ral4en4om5n3ton5r4ra3weg3zug3öls2vada2wari3bie3ton1iacin3mey2bble2chte5s3kel5n4is4st4te3las3ola5e2dger2ebel3der3ren0niesen5r4ky4le4te3ten5t2gers3ger3rer2kita3kei3las3ola2lote3tal2mbus3itz3mer4st3rod2nive3jas2ppel5n5s4on4st4te2sche3san3ten0nistet2trat4id5t2veau2xons2zzas1obels3lem5n5r5s3ody2cebo3ken2dien4um3öse2esis3tik2hwer2kias2ldes3ens2made3ens3ina2nius3nen2ppen2rden3mal0norman4en3nen3ton2ssen2tare5s4ue5s3bau3hof3ion3ruf3tat4un5t4ür3weg2ugat2vara3ell3ial4ze1uance2bien5r2ckel3lei2dist2gats3get2klei0nuklid2llen4te4um3pen2meri5o2rage3sia2ssig4öl2tend3ria3ten4ig3zen5r4te1yanja2lons2mpha5e1ächst4te2fels2geln2hend5s4re5n5t3gut0nähmen5t4st3ren4st4te3ten5t2pfen2rrin2sele5n5t3sen4te1ölend5s3ten2rend3gle2tige5t1üffel2ssen3ter2tzen4te0obacht3dja3mas3zda2dach0obelix3nan3rau4em5n5r5s4in4st3ser2frau2igem5n5r5s2jekt2lagt4st4te3igo3ong2mann2oist3lus2rist2skur3tes3zön2usse2wohl2zwar1ccupy0oceana2hsen2kham1delnd3nse3ssa3urs2iums1erder2tker1ffene3ice3set1gmios1heims2msch1jibwa5e1kapis2kult2olyt2tale4nt4ve3ett3ole3roi2ular1ldbie3ies2fert2ivem0oliven5r5s4ia2lsch2mütz2ymps1mahas3ner2inös1nager3nie2keln5s3oid2line1ozyte1pakem5n5r5s3len2eron2fere5n5s5t2hrys2iate3oid3ums2peln0optima4on1racle3kel4le3lem5n5r5s3nje3tor2bita5s2dens4re5n5s5t3nen5r5t2eade3gon3xin2gane5s3eln3ien2ient3ons3ssa2kane0orkans2nate3bau2plid2tega4nd5s4st4te3ler3olf3rud5n3ung3win2well1sakas2cars2hana2iris2kars2loer2mane3ium3ose2ning2sete2talb4ra5m3bau3end0ostens4rn3hof3kap3ler3oma3rom3see3tor3ung3weg2wald1thmar2itis2mars2tawa3ern5s3mar3one1utend4st4te3fit3ing3law4et3put2vert1valem5n5r0ovales3mbo2ipar2ulum1wambo2egeh1xalat2ford2iden5s2ygen1ybins1zeane5s3lle4ot0paaren5s4ig4st4te2blos2chte3ino3ker4st4te2ddel4le3uas2ella2ffen0paffst4te2gane3ode2kete5s3ten5s2lace4is4st3end3las3mar5s4en5r4in4öl3oma2mela3pas4el4ig2nade4ma3das3eel4ls3gen4äa3ier0pankow3nen3sen3ter4ry3zer2olos2paya3eln4rs3hos3ist3pel5n4ig4st4te4us3uas3yri2rade3del5r4on3ese3fum4üm3ias3kas4en5r5s0parkst4te3mas3ole5i3sec5n5r3tei4ie4ys2scal4ha5e3ing3pel3sah5s5t5u4ee5n5s4im5v4ow4te4us3ten4is4or4ös0patent4rn5s3hos3ina3mos3ras4es4ia5c4on3sch3tex3zen5r4ig4te2ukal4en5r4st4te3las4is4us4ys3sen4te2vane3ian5s2wels0pawlow3nee1echer4ig3ten2dale5s4nt3den3ell3ros2geln5s3gys2ilen4st4te2king3tin2llen5t4st4te3men3zen5s4ig2ndel4le3kun3nal4en0penner4st4te4ys3sum3tan4en4in2pita3pen4ig4st4te3sin5s3tid2rfid3len4on4st4te3mer3nod3ron3ser4il5s4on2send4ta5e3sar0petent4rs3its3ras4us3ten3zen5r4te1faden5s3ffe3hls3nds4ne3rre3uen2eife5t4le5s3rch4de3tte2iffe5s5t2laum3ege5t3ock3ugs0pflüge5t2orte3ten2riem3nak3opf2uhle3nde5s3sch2ähle5t3nde2ühle3tze1hagen3lli3rao4ma4os3sen5r3tte2enol2iale3ole2loem4xe2obie4os3nem0phonie3ton2rase3yne2uket2ylen4um3sik5s2äake2önix1iaffe3get3nos3zza2chen3kel5n4st4te4up2dder3gin2efig4ke3ken3pen5r4se5t4te3rce0pierre3tro4ät2kant4ss3ees4nd3sen4te3ten2lger3len3sen3zen5s2ment3mel3ock3pen4fe5s2ndar3ien3kel4le3nen4st4te3sel4le3ten3yin0pipapo3ock3pau4in5s2quet2rmin3nas3oge4le5s3sch3äus2ssen5r4te3ten4ol2xeln5s2zzas4en1lache4ke3gen4st4te3kat3nar4ck4en5r0planes5t4ke4st4te4um3que3sma4te3tin4on5s4te5s4ze5t3uen4ze3yer3zet2egie3ite3mpe3num3rem3ssa3thi3uel4ra3xus2icht3nse0plinte2ombe3ppe5t3siv3tin4te2ugin3mpe5s3ral3tos2änen3rre5t3tte4ze2örre2üsch1neuma1ochen4st4te3ken2dest3ien4um3sol2esie3ten4ik5n0pofend3ten2gend3rom2inte5s2kale5s3ere5n5t2lack4re3der3eis4ns3ice4er4ge3kas4en3len5r5x4ux3och3rad3ski3ung3yen2made4li0pommes3pon4ös2ncho3gau4id3ton4us2olen4st4te2panz3ele5n5t4ye3pen5r4ig4st4te2rnos3ree3tal4os3zin3öse2send5s4ur3sen4um0postau4ei5n5r5t4um2tent5z3ter2wern3idl1racht3ger4ma3hle5t3lle5t3nge5t4ke4ze5t3sse5t3ter4ze3wda3xen4ie5s2eetz0pregel3ise5t3kär3llt3row3sse5t4to2icke3ele5s4se5s5t3mar5s5t4el5n5r4iz4us4är3nte5s3ori5s3sen4ka4ma3vat0probat4en4st4te3fan4il5s5t4os3kop3let4in4og3mis4pt3nom3pan4en5r4in4st3sit4od4te3ton4ze5t3ust3xys2unke5s5t0prunus3sik4se4te3zze2äfix3gen4st4te3lat3mie3rie3ser5s3tor3zis2üdem5n5r5s3fen5r4st4te3gel4le1salms2eudo2yche5o1ublik2cken0pudels4re5n5s5t3rig2eblo3ril4to2ffen5r4re2lend3ken3len4is4us3que3sar4en5s4te3ten5s3ver2mmel3pen4st4te2ncto3ier3jab0punker4ig4te5o5s3sch3zen2pend3pen4ig3sen5r4te2rine5s4st3pur3ser2shen5r4st4te3sys3tel5n5t3zta2tbus3ern5s3ins3sch0putten5r3zar4en5r5s4ig4te2zzle1ygmäe2jama2lone2ogen2thia4on1äpste2rken2ssen1öbeln5s5t3ler2keln5t2lten5r3zen2mpel2nale2tten1ümpel2rees0qigong2ndar1uaack3bbe3der4ra3gga3ken4te3len4le4me5s5t3ndt4ts3ppe3rks4re4ta5e4ze3sar4te5s2ebec3cke3ens3lle5t3nya3rab0queren4st4te3ste2iche3eke5t3lle5t3noa4ta5e4är3rle5s5t3tos4te2mran2okka3llt3ren4um3tal5s4en2äken5r3len5r4st4te0quölle0rabatt5z3bis3iat2chel5n3ing3ker5t2dars5t3ele5n5t3fan3hof3ial4en4os4um5s3ler3oms4ns3rum3typ3weg2eter2fael3fen4ke0raffst4te2gend5s3out3ten5t3uhn4sa2hden3els3men4ig4st4te2iden3nen5r3son2keln4te2llen4ig4ye3phs2mbos4ur3mel5n4le4st4te0ramona3pen3sau4ch4es2ndes3gen5r5s4ig4st4un3kam4en4st4te3nen4te3zen4ig2ouls2pfen3hia3ide4er3pel5n5r3ses4öl2rere3ste0rasant5z3che3end5s4rn4st4ur3ier3pel3sel5n4ig4le3ten5r5t2tend5s3ing4on3los3sam4ch3tan4en4re3zen4te2uben5s4st0raubte3che5s5t3end5s4re5t3fen4st4te3mes3nen4st4te4ze5t3pen3sch4te3ten5t3xel2vels4rs2yons2ziel3zia1eader3gan3lem5n0realer5s4os2bbau3ell5n3oot2chen4ne4st4te5s3ife3ken4st4te3lam2dder3end5s4st4te3lef3ner3uit2ebok3den5r3lle2ffen3lex4ux0reform2gale5s3ele5n5t4nd5s5t4re4st3gae4io3ime4na5e4on3ler4os3nen5r5t4um3sam4te3ten5t3ula4ng2herl2iben4st0reiche5s5t3fem5n5r5s4st4te3gen3hen5r4st4te4um3men5s4st4te3nem5n5r5s3ser5s4ig4se5t4te4öl3ten5t0reizen5s4te2keln5t3ord3rut3tal4or4um3urs2lais4xe5t3ief4kt4ng2make3ise3ple3ter2nale4te3dre3ken4st4te3nau4er5s4st3oir0renten2plik3ort3til2sets3ort3tei5n5s2them4ra3ina3our3ten5r5t3urn2uend3ige3sen4se3ten5r2vals3ers3ier5w3uen2zent4pt4ss1haphe0rheine5s3sus3tor3uma3ydt2inow3zom2oden4os1ialto3nne2bose2chte3ken2ebel5n4st3che5t3del5r3fen4st3gel5n3men5r3sen5s4ig5n0rieten5t4st2ffel5n5s3ifi2gaer3ide4ps3ole5t2jeka2klef2lkes3len2mini2nden5r5s3gen5r5s4st3nen4st2ppen4le2siko3pen3sen5s0rissig2tsch3ten5t4st3ual3zel5n4te2vale3ier1oadie2bben4ie4st4te3ert3ins3ust2chen4st4us3kau4en5r5s4ig4st4te2dele5n5s0rodelt4nd5s4os4st4te3gau3ing5s3ler3ung2gers3gen3ner2hbau3erz3gas3rau4en5s3öle5s2koko2land3len5r4ig5s4os4st4te2mane0romani5o5s3eos3mee5l3rod3zug2nald3dos3jas2seau3ige4na5e3sen5s3ten5s5t4ig4ow4ra2tary3her4of4ut3ohr3tal4en5t4on0rotzen4ig4te2uges3ten5r2wdys2xane2yale1uanda2bbel3eln5s4ns3ine5s3rik4um2cken4st4te3ola2deln5s4re5n5s5t3olf2fart3bus3end0rufens4rs3ton2gbys2hend5s3ige3las3mes3ten5t2inen4ös2kola2mbog3mel3ore5t3pel4fs3sen4te3äne2ndem5n5r5s5t4um3ges3kel3ter0runway3zel4le2pert3fen4st4te3ien3pig3tur2rale3see2ssen5s4ig5n4ki4te2tsch3ten1ächen5r4st4te2dere5n5t2kele5n5t2nder4re0rängen2tien3sle2uber3dig3men4st4te1öchen4le4st3ken2dele5n5t2hren4st4te2mern5s2ntge5t2ssel5r3ten5r5t2teln4nd4re4te3ung0rübsen2ckst4te2ebli2ffel2gend5s3ten5t2hmen4st4te3rei5n5r4ig4st4te2lpse5t2mpfe2peln5s2sche3sel3ten5r5t4ig2then3tle2üdig0saales3row3ten2bbat4el5r3ina5e3äer2chau4en5r4se5o4te3ken5s4st4te2ddam3ist2eima2fari3lor3ran3ten5s4ig2gbar3end5s3ten0sagtet2hara3ibs3nen4ig4st4te2igon3son3ten2kkos3ral4um2lami4te5s3bei5n4st4te4öl3den4os3ems3ier4ne4va3lys3men3ome5o4ns0saloon4pp3tos3ven3zen5s4ig4te3ärs2mara3bas4ia3ens3ira3met4le3oas3pan4le3son3ten5s4ig3uel2ndau4en5r5s4hi4ig4oz4ra0sandro4te4ys3fte3gen4st3itz3ken4st3nen4st2phir3pho2rahs3din3ges3kom3nen4ia3ong3tre2scha3kia3sen2tang5s3ins4re3rap3tel5m5n0satter5s4le3urn3yrn3zes2ucen3dis3end5s3fen3gen5r4st4te4ut3lus3mes3nas4en3rem5n5r5s3sen5r4te3ten5t2vant3end1campi0scania4ne5t2haab5f5n4be5t4ch4de4fe5f5s5t4hs4le5k5l5s5t5u4mo4ng5i5k5z4pp4re5f5t4ue5t0scheck4el5r4it4lf5l5m4ma5m4nk4ol4pp4rf5t5z4ue5t3ick4eb5d5f5n5r5t4it4lf5h5l5t5y4nn4pp0schiri4ss4wa3lag5u4ei4ot4uf5g3mal4er4id4ok4us4äh3nur4öd3oah4bt4ck4ko4la5l5z4ne5t4of5l4pf4re5f5t0schose5s4te5t3rak5m5t4ie4ot4äg3ubs4fa5t4he5s4ld5p5t5z4mi4nd4po4ra5f5z4ss4te5t5z3waz4en4of0schwor4ul5r4yz4är4ör4ül3äbe4le5t4me5t4re3öbe4ne4pp5s4rl3übe4fe4re5t4tz2illa2ores3tch4ts3uts2reen3ipt1ebcha2chst0seeaal4mt4rm5t3bad5r4är3gel5n3hof4ub3kuh3len5r4os5w4ze3not3ohr4rt3sen3tor4yp3uhr3weg3zug2gele5n5s5t4ns3gen0segler3nen5t3way2hakt3end5s4rn5s3nde4en4ig4st4te3ren2iche5t3del5n4ig3end4rn3fen4ig4st4te3ger3hen5r3kos3len5r0seiles4st4te3mig3nem5n5r5s3tab4en3wal2kret3ten5s4or2lbem5n5r5s4ig4st3ens3fie3ige3lin3ten2meme5s3mel2nate5s3den0sender5t3eca3fes4öl3gen4st4te3ile4or4um3kel5n5r4st4te3nen5r5s3sen4or2ouls2ppel3sis3tim4um2quel2rail4ph3ben4in3ena0sergej4io3ial4en4fe4ös3mon3ums3ver4il4us3öse2sams2tups3zei5r4te2uche3fze5t2veso2xend3ist3tal4en3ual1forza1haker3nty3ron2eila3lls0sherpa4ry2into3raz4ts3sha2oddy3gun3ppe5t3rts2rimp2ukan1ichel4te3kel5n4ig4re2dney2eben5r5s4st4te3che5t3den5r5t4le3gel0siegen5r5s4le4st4te3hst3len3nas3rra3sta3zen4te2geln3gis3len3mar3nal4et4um3rid4un3urd2kkim2lage3ben5r3kes3ozi3via5o2mbel0simile5i3mer3ona5e5s3pel4le3sen5s4on2ndhi3ger4le4st3ken4st3nen5s4ig4st3ter3zig2phon3pen2rene3ius3ren3ups2ssis2tcom3ten0sitter3zes2xtus1kalar4de4en4ps3ten5r5s2etch2iass3bob5x3ern3gel3lls3ort3tag3zze2lave3era2onti5o3pje4us3tom2ript2unks2ylla3pen3the0slalom3wen4in2ipon2ogan3vio1malte3rte2egma2iley3ths2oken2utje2yrna1nacks2iper2öben5r1obald2ccer3kel5n5t2dala4nn4ss3oku4ms2eben3sts2fern3fen0soffst3ias3ort3tem5n5r5s4ie2hlen3nes2iree2jaöl2lala4na5g4re3bad3che3dat4en5s3eis4nn3ide4st3lst4te3ons3tau2mali2nant4re0sonars4te3den5r4re3ett3jas3nen4ig4st4te3ore3tra2phia5e3ran2rani4ya3ben5t4in4us3gen4st4te3ten5r2sein3sen2tten2ulig3nds0souper3rce2viel2weit4to3jet3ohl2zial4us1packo3gat3lte5s3nen5s4ge4ne5s5t3rer4re4st4ta5e3sse5t4ti3tel5n4ha4ig2echt0specks3ere5s3ien4se5t3lze3nde4ge3rma4re5t3sen3yer3zis2hinx3ynx3äre2icke3een4le5s5t4ss5t3kes3lle3nal5t4de5s4nt0spinös3one5s3rit3tal4zt2leen3iff4nt4ss4ts5t2oren4ne5s5t4ts3tte5s2raak4ch4ng4ye5s5t3ech4iz3ich4ng5t4ts5z0spross3uch3öde3ühe5t4tt2ucke5t3ken4st4te3len4st4te3ren4te5s3ten4um2ähen5r4st4te3nen3sse3tem5n5s2önne2ülen4st4te0spüren4st4te1quare4sh4ws3ire1ranan1taate5s3ben5s4il3cht4ks3del5r5s3hle5s5t3ken5t4ig4st4te3lin4ls3mme5s5t4pe0stampf3nde5s4kt4ze5t3pel4fe5t4le3rbt4en4ke4re5t4te5s5z3sis3tik5n5v4or4te4ue5r5s5t3ube5s5t4de0stauen5r4ne5t4pe4st4te2eaks3che5t4ke5t3ert3fan4fi3gen3her4le5t4st3ife5f5t4ge5s5t4le4ne5s4ss3len4la0stelle5t4ze5t3mma5e5t3nök3ppe5t3rbe5t4eo4il4ke4ne5s4up3tem5n5r5s4ig3uer3ven5s4ia3yrs2iche5s5t4ke0sticks5t3ebe5t4ge5t4hl4le5s4re5s5t4ss3fte5s3gma3len5s4le5t3mmt3nke5t3ppe5t3rbt4ne2oben3cke5s5t3ffe0stoffs3kes3lpe4ze3ned5s3pfe5t4pe5s5t3rch4es4ms4no4ys3sse5t2rack4fe5f5t4hl4mm4ng4ps4ss3ebe5t4ck4et4if0streik5t4ng4ss4ue5t3ich5k4ke5t4ng4pp5s4tt3obe4hs4ma5e5s4om3uma4nk5z3öme5t2uart3bbi4en5r3cks3die5o0stufen4ig4st4te3hle5s3ken3lle4pe3mme4pf3nks4ts3pas4id4or4se5t3rem5n5r5s4me5s3ten4ze5t2ylen5s4st4te4us0styrax4ol2äben3che3dte3hle5t3lle3mme3nde4ke3rke5t3tte3ube5t2öben5r3cke3hne5t3ren5r4st4te3sse5t2über3cke5s3hle3lpe0stülpt3nde3rbe4me5t4ze5t3tze5t1uaden2baru3ito3lim3til4yp3urb2cher4st4te2dans3ele5n5t3oku2eben3ven2ffix3ist2hlen4st4te2isse0suiten3zid2jets2lcus3fat4id5t4ur3kys3las3tan3zen5r4ig4te2mbwa3ers3men5r4st4te3pfs2nnit2perb3pen4ig4ly2rcot3fen5r4st4te0surimi3ren4st4te3vey2ssex2tane2zuki1venja1watch2eben3nja2inge5t3tch1ydney2enit2kora2lphe3ter3via5e2mbol2node3tax2rern5s3ien5r2stem1zenar4en0szenig2illa2ylla1äbeln5s2ckel5n2ende2ftel5n2gend5s3ten5t2hest2mann3ige2nfte3gen5r3ken2rgen2ssen5t2test3tel3zen2uere5n5t3fer4st0säugen5r4st4te3len3men5r4ig4st4te3ren3sle1öhlig3nen4st4te2lden3ler2rens1üchte2darm4ue3bad5u4oa3ens3gas3hof3kap3ost3pol3see0südtor4ür3weg3zug2ffig2hnen4st4te2lzen2mpfe2nden5r4ig2perb2ssem5n5r5s4te0tabaks3gha3lar4et3ula2chos3ken5r4le2dele5n5s5t0tadler2fele5n5t3ten2gaus3bau3ein4nd5s3gen3ner3ten5t3ung2hiti2ifun3lle3peh3wan2kele5n5s5t3ten5s5t4ik5l2lare5s4ue0talbot3ent4rn5s3ges4ig3ion3kau4en4um3mud3ons3ung2mara3ile3mus3pen4on3tam2nach3dem3gas4en5r4os3jas3kei5n5r4st4te3nen0tannin3tal4en4ra3zes4te2pend4rn4te3fer3ire3pen4st4te3sen4ig4te2rdiv3ent3get3ife5s3nen5r4st4te3ock4ko4ts3ski3tan4us0tarzan2ssen3ten5r5t2tami4re5s3est3ius3ort3tag4je4oo3zen2ubem5n5r5s3cha5e5t3end5s4rn3fen4st4te3gen4st4te3mel0taunus3rin5s4us3sch3ten5t2xler3ons2ylor1chibo1eaken3mer3ser2beth2chno3kel2ddys3eum2eart3nie4ys3ren4st4te4öl3weg2flon2gels2iche5s3gen0teiges4ig3ler5s4st4te3nts2kkno3tur2lege3gte3lur3tow3ugu2mpel4os4us2nach3der3gen3nen4is3ors3sid4or3uis3öre2resa3men4in3när3pen0terror3zen2slas3sin3tat4en5r5t2thys3ris2ufel5n3rem5n5r5s2xaco3mex3ten5r5s5t4il4ur2zett1hales4ia2eben3iss5t3ken4la0thelma3mar5s4en4se3rke4me5o3sen3urg2iele4ss3los3ngs2olos3mas3rax4id4ns2read3ill4ps3one5s5t2ules2ymin4us1ibets2cken5r5t0tickst4te2ecks3fem5n5r5s4st3gel3ren5s2flis3oso2gere5n5s5t3ris2krit2lden3gen5r4st4te3lys3man3sit2mbre3end4rs3ide4ng0timmys3ors2nnef3ten2ppen5r4le4se5t4te2rade4na3ols2sche5s5t2tans3ele5n5s5t3job3ten2voli2zian1jumen1mesis1oaste5s2bago3end5s0tobias3ler3ruk3ten5t2ffee2ggle3oer2kens3ios2ledo3lem5n5r5s4st4te3uol2mbak2nale4rm5t3ers3gas4ut3hof3ics4ge4ka3los3nen3rad0tonruf3sur3ton2pase3fen5s4it3hit4us3job3pen4te3zug2rarm4us3bau4en3dis3eck4ro4ut3fen5s4ig3gau4gl3ies3kel3los3oss3por3sos0torten4ur3weg2send5s4st3ten5t2tale3eis4ms2ughe3lon3pet3ren4is4te2wers2xine5s2yota1rabbi4en5r4ig5s4st4te3cer4ht4ke5s0trackt3der3fen4ik4os4st3gik3ils3jan3kls4te5s3lje3mpe5s3nce4en4ig4ks5t4se3pez4pe4se5t3sse3ten5t4st4te3ube4dl0trauen5r4fe4ma5s4st4te2eaty3ber3cke5s5t3ffe5s5t3ibe5t4fe3mor3nds5y4ne5t4se3sen4or4pe3ten5r5t3uem5n0treuer5s3vor2iade4ge3bal4un5s5t3cia4ks5y3ebe5s5t4fe5t4ll4nt4rs4st4ze5t3fft3gon3kes4ot3mme5t3nke5t4om0trinär3ole3pel4le3sha4te3ton4te5s2ogen5s4st3ias4ka3jas3lle5s5t3mbe4pe3pen5z4fe5s5t4po4us3sse4ts3tte5s4ze0trotzt3yer2ubel3cks3dis4le3gen4st3hen3lla5i3man4pf3nks3ppe5s3sts2äfen5t3gem5n5r5s4st3nen4ke5t4st4te3ten3ume5t0trödel4le3gen3ste3ten2übem5n5r5s4st4te3gen4st1schad5u4üs2onga2wana1uareg2bist3uli2chen5s3son2dors2ende2ffen2gend2kane5s2lpen2mbem0tumben5r5s3mle3ore5s3uli5t2ndra3ell4nd4rn5s3ica4ka4ng3ken4st4te3ten4ig2peln5s3fen5r4st4te2rban4os3gor3ing5s0turkey3mes3nen5r4st4te4us3tle2sche5t2tand3end5s4st4te3ors3sis3tel2valu2wort1wains2eets2iete3ngo3sts1ycoon2phus2rann1äfele5n5t2lern0tändle3zen5r4le2tern5s4st3ige5t2uber3fer1öging2lpel3ten3zer2nend5s4rn3ten5t3ung2pfen5r2tend5s4st4te3ung1ücher3ken2deln2ffel0tüftle2llen2mpel2nche5t2pfel2rart3kei5n4in5s4st4te3men5r4st4te3pin2test4te0ubiern2untu1ecker2lzen1ferte1ganda1hland1igure1kasse2elei1lanen2cera0ulkend5s3ige3ten5t2mers2rich4ke2ster2tima5o3ras1marme5t2band4ue5s5t3rer2fang3eld3iel4ng3log3uhr2gabt4ng3ebe5t4he5t4ld0umgibt4ng3oss3rub3uss2habe5t4ng4ue5t3ege5t2kamt3ehr3äme2lade4ge4nd4uf5t3ege5t3ief3uft3ädt2nähe5t2pole5t2riss4tt2saht0umsatz3ehe5t3äge5t2tost3rug3ust2wand4rb5f3ege5s4ht4lt3ogt2zogt3ugs3öge3üge1nanim2band4re3ill3unt2cool3tad2dank3ine5g2eben3cht0unedel4le3hre3ins3sco2fair4ll3ein4rn3lat3rei4oh3ugs2garn3eil4ld4rn3uis4te2heil3old2iert3kal5t4um3mog3sex3ted4är3vok2kend5s0unklar4ug3ten2lieb3ust2mass3uts2nütz2paar2rast4ts3eal4if5n3uhe4nd2sere4xy3inn3tet2tere5m5n5s3ief5r3ote3reu2wahr3eit4rt3ohl0unwort2zahl4rt3eit3ial2ärem5n5r5s1pdate2load1racil3del3hns3lte3nia4os4us2bane4re3ild2chig3ool2darm2erde3ter3wig2farn3lut3orm2gent5z0uriels3gem5n5r5s3nal2laub5t2meer3itz3und2ning4tz2omas3pas2sinn3ula2teil4xt3ier3yps2vieh3olk2wahl4ld3eib4lt3ort2zeit2ämie1sance2beke0uschis2edom3net3rin2tica2uell1terus2kiek2land2opia5e1vular0vagant3ina2kant5z3uen4um3zin2lenz3ide4ns4um3ley3uta2mpir4yr2rize2sall2ters1eadar2chta0vedute2gane2ktor2lare3den3ens3ins3ten2nlos3til3öse2rbal5t5u4ei5n4is4og5t4um3den4is4un3ein4na3gab4eh4ib5l4or3hau4ob0verhör3kam3lag5s4eg4or4ud3mag3ona3rat4uf4ät3sag5h5l4en5s4us3tan4ex4ue5n3weh4ob3zog4ug3öde4lt3übe5t2spas4er0vespre3ton3uvs2ttel5r1iabel3gra2ctor2deos2ehes3lem5n5r5s3nne3ren5r4te3wer2kare5s3tor2lbel3len3mar2ncis3eta3yls2olas4en2pern2rale0virgel4il3ile2sage3ier4on4te5s3kos3ser3ums2tale5i2vian4en1liese2otho1oerde2gels3ler3tei5s2ipen2kale5s2lant4re3ens3ker5s3lei5m0vollen5r5s5y3ute3vos5x2odoo2ramt4rm4ue5f5s3bad5u4ei3dem5r3gab3hat4er4in4of4ub5t3ige3kam3lag5s4ud3ort3rat0vorruf3sah3tag4ex4or3weg3zog4ug2tant3end3ing3ums2udou2yeur1reden1uelta2lgär3kan3ven1ätern1ögele5n5t3ten2lker3ler4ig0waagen2bern5t2chau4em0wachen5r5s4se5t4te3ken5r4le2dern2ffel5n2gend5s3gon3ner4is3ons3ten5t2hlen3rem5n5r5s4ig4st4te2isen2jang2lart3dau0waldes4ig5s3hai3ken5r4st4te3len5r5s4is4st4te3one3rat3ser3ten5r5t3zen5r4te3öle5s2mpum3ser5s2ndel5n5t4le0wandst4te3gen3ken4st4te3nen3zen2piti3pen4ne2rane3ben4st3fen4st3hol3mem5n5r5s4up3nau4en5r4ow4st4te3tes5t4he3vit0warwit3zen4ig2sabi3che5t3sre2tend5s4st4te3son3ten4ig2uwau2xing1ebart3ber3cam3end5s4rn5s3log3ten5t2chte3kst4te2dele5n5s0wedelt2ener2gart3bau4og3gab3hat4of3kam3los3sam3tue5n5t3zog4ug2hend5s3mut3ner3ren4ig4st4te3tat4en5t4ue5n5t2ibel5r0weibes3che5t3den5t3hen5r4st4te3len5r4ls4st4te3mar3nen5s4ig4st4te3sel5m5n5r5s4se5t3tab4em5n5r5s0weitet3zen2lche3fen4in3kem5n5r5s4st4te3len4ig4st4te3pen3sch4en5r5s3ten3zow2ndel5n5t4ig5n3ige3zel2rben5r3dau0werden5r5t3fel5r3gen3kel5n5s4le4st4te3mut3nau4er3tem5n5r5s5t4ig2sels4ns3ire5s3ley3pen3sel5n4is3ten2tten0wettet4in3zen4te1hisky1ichen4se5t4te3kel5n4le2dder3ere5n5t3get3men5t3rig2ebke3che3den5r3gen4st4te3hre3ner3sel5n2glaf0wigwam2ldau4em5n5r5s3len4ia5g5s4st4ys3mas3nas3son3zen2mmen5r5t4le4re3pel5r2ndau4bö4ei5l5n5s5t4ig4ow0winkel5n5r4st4te3ner3sch4en4le3zer4ig2pfel3pen4st4te2rbel4le4st3fst3ges3ken5r4st4te3rem5n5r5s4st4te3sch3tel0wirten5s4in2sche5t3ent3mar4ut3pel4re2tten4ib4re3wen5r3zen5s4ig4le2zard1ochen2dkas2gend3ten2hlan4er5s4ig3nst4te2iwod2lfes0wolkig3lig4te2mbat2nach3nen4ig2ofer3pie2rauf5s3den3ein3ten5s2tans1racks3ngt3sen2inge5t2ucke3ken2änge1ucher4st4te2lfen4fs3ing3ste2mmen0wundem5n5s4re3sch2ppen5r4st4te2rden5t3fes3men5s4ig4st4te3zen4le2scht3ele5n5t3ste2tsch1ymeer1ächst2gbar3end5s3ung2hlen0wähler4st4te3nen4st4te3ren4st4te2lder3len5r3zen5r4te2mser2nden2rest3men5r4st4te3ter2sche5t3ser1ögest2lben5r4st4te3fen0wölfin3len2rter1üchse2hlen5r4st4te2lste2mmen5t2nsch2rden5t4ig3fel5n4le3gen5r4st4te3mer3ste3zen4ig4te2sche3ste3tem5n5r0wüstes2tend5s4st4te0xander4ra3ten4hi2vers3ier1eller2nien4on2rose3xes1inhua1oanon2chil1uzhou1ylose2stos4us0yahoos2kuza2maha2nkee3nic3tra2stik1ehuda2oman0yezide1ippie1ogini2rker3uba1perit1uccas2ppie2rumi1vette2onne0zacken4ig2ddik2gend5s3reb2hler4st4te3mem5n5r5s3nen5s4ig2ires2nder3gen3ken4st0zankte2pfen4ig4st4te3pel5n5r4le4st4te2rgen3tem5n5r5s2ster2ubre3der4re3mes3nes3sel5n4te2zaki3iki1denka5o1ebaot3ras2chen0zecher4st4te3ken2dent4rn3ong2hner4te5s3ren4st4te2iger4st4te3hen4st3len3sig3ten4ig2llen5r3ten5r5s5t2ment2naga3its3sor0zensur5s2phir4yr3ter2rbst3fen3gen3ium3kau3leg3nag3ren4st4te3säg3vix2tere5n5t3tel4le2ugen5r4in4ma4st4te1huang1ibebe2chte3ken0zickig4st4te2egel5n5r3her4st3len5s4st4te3men5r4st4te3pen4te3rat4de4en4st4te3sar4el2ffer2gmal3ste2kade2lien2mbal4el0zimber3töl2nder3ken5s4ig4st4te3nen3sen5s2pfel3pen5r4os2rbel3kel4le4on4us3pen4st4te3rus2sche5t3ter2tate5s3her3tau4er0zittre3zen2vile1obeln5s2cken5r4st2diak2ffen4st4te2llen4st4te2mbie5g2nale2omen4st4te3top2pfes4ig2rnes4ig3ros2ssen3ter2tige3tel4ig0zuband4ue5s5t3ern5s3iss3rot2cken4st4te2eile5t3rst2fall3iel3log3ror3uhr3üge5t2gabe5t4ng4rm5t3bus3ebe5t4he5t3hub0zugibt4ge4ng3oss3rad3tor4yp3ute3weg3äbe2haue5f5t3ält3öre5t2kauf3ost3äme2lage4uf3ege5t4id3ief3uft3öte2mass3ute2nahm4me3der0zungen3ähe5t2pass3fen4st4te2rast4te3ede3ief5t4tt3ren4st4te3ufe5s5t3ück2sage5t4ht4mt4tz3ehe5t3ähe2tage3eil3raf5t0zutrug3uns4st2viel2warf3ege4he5t3ies2zele5n5t3ogt3ugs3öge5t3üge1vieri1wackt3ngs5t2ecke5s3ien5r4ge5s5t4te3rch4ge5s0zwettl2icke5t3lch4le3nge5t3rne5s5t3ste2änge5t2ölft1yanid2gote2klen4on5p4us2mase3bal2pern3rer2sten2thos3ode1ähere3ler4st4te3men0zähmst4te3nen2nker2sium2umen4st4te3nen4st4te1ögere5n5t4st2llen4ig2pfen2rbig1üchte3ken4st4te2gele5n5s5t3ige2nden5r5t4le0zündöl3fte3gle2rich3nen4st4te0ächten5t3zen5r4te2kern1fften5t1hnele5n5t1ijsch1lchen2tere1mtern1ndere5n5t2gste2igma1olien1pfeln1rgere5n5s0ärgert3ste2meln5s4re3ste2sche2zten4in1sende2sest2test3het3uar1thers2zend5s4st3ten5t3ung1ufnen2gend3ten5t2ssre0öcalan2hsle1demen3rem5n5r0öderes3ste2ipal4us2land1fchen2fner5t2ters1kogas3nom4ym3top1lakne2baum3erg3ild3oss2ende2fass3eld3ilm3und2gase2hahn4us5t2igem5n5r5s2krug0ölleck2ofen2pest2saat4nd3pur2tank3est3uch2wert2zeug1sfass2trus1tztal0übelst3nde2lere3ich2rige2test1ppige";
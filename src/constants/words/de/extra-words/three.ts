@@ -0,0 +1,2 @@
+export const words =
+  "3|0aab2d2k2p2r2s1ba2c2i2k2o2t2u1ch1da2e2i2o1go1ha2n2r1in2r2s1ja1kt1lb2e2f2i2k0all2m2p2s2u2z1mi2y1nm2n1po2p2t1ra2g2i2o2s1se2i2s1tü1ua2b2e2g2l1ve1xa1ye0bah2i0bam2n2r2t2y1de1ea2n2o1im2n2o2t1la1oa2b2g2h2n2r2t2x2y1rr1sp1ub2g2h2k2n1zw1äh0böe2s1üx0cab2p1er2s1he2i2r1is1op2x1ru1um2p2t0dag2n2o2r2t2u2x1eo2z1gl1ia2p2s2t2v0dom2n2u1pa2i1ry1to2v1un2o2r2x1ää0eau1ch2k2u1de1go1in1lb2i2m2z1mo2s2u1nd2k2z1rk2n0erz1sc1ta2c2h1va2i2t1we1xt0fad2x1eb2d2h2s2x2z1is2t1on2x1rl1tp1ug2l2t2x0gag2n2u2y0geb2h2i2l2n2o2r2s1gf1ib2g2n2s1nu1oa2f2i2n2r1un2y1äa2b1ör0hab2g2u2y1bf1eb2i2y0hie2p2s2t1ob2i2l1ub2f2i2k1ör0iah2n1bo1ck1da2i2o1lm2z1mo1na2c2g2h2n1od2n1re2r1ss0ist1th2z0jab2k2m2n2p2s1et2u1im2n1ob2d2e2n2t2y1ul2r2s2x1äh0kab2k2m2p2r2t2u1ea0ken2y1fm2r2z1ha1ia2d2m2p2r2t1lo1oi2r2t1yu1ür0lab2i2r2s2u2x1ea2e2g2i2k2o2u2w0lex1fd1id2s2z1kw1og2t2u1td1ud2g2k2v2x0maa2c2o2p2u2x2y1em2t1ia2n2o2r2x1oa2b2d0mol1rd1uh2s1äh2r1üd2h0naz1ee2t2w1id2l2x1ov1ut0obi1ch1de2o1es1ff2t1gi1ha2m2o1je1ka2i2t0olf2l2m1mi1pi1rk1tt1ut0pad2h2n2r2s2x1ep2r2u1fg1hi1ia2k2n1kw1oe2p2s2t1ro2ä1si2t1ub0puh2r2t0qmm1ua2e2o0raa2b2e2g2h2n2p2r2s2u2x2y1eg2n2x1ho1ia2f2o1oh2m2n2y1uh2n0rus1äf2t1üd0sag2h2m2n2o1ek2m2n2t2x1ic2r1ka2y1od2l2n1pa2e1ri1td1ub2d2e2r1äe2t1üd0tab2k2m2o2u2y2z1bc1ed2l2x1ic2m1ja1om2p1ue2t2x1wi1yp2r0udo1fa2f2o1ke1lf2i2k2m1ms0uni2o1ps1rd2i2s1sf2w1ta2e2z1we1zi0vag2n1gl1ia2f2s1on2x0was2t2u1eb2s1ik2m1ob2g2k2n0wow1ww1yk1är0yak2m1en1in1ue0zar1ea2n2r1ig1og1wo1äh0äbi1on1ra1se2t0öde1ha2i2r1ko1le2s2t1re1se0ösi0übe2t";
@@ -0,0 +1,2 @@
+export const words =
+  "2|0aa1d1i1r1s1w0ba1i1ö0ca1m1o0dm1r0eh1l1x1y0fa1f0go0ha1e1i1m1o1z1ä1ü0ia0jg0kg0km1p0la1i1t0mg1i1l1m1o1r1s1t1y0ne1m1o1r1u1y1ö0os1z0pa1i1o1u0qi1m0ra1e0se0ss1t0to1u1ö0ud1i1r1z0vs0wa1g1u0xi0yi0äh0öd";
@@ -0,0 +1,208 @@
+export const words = [
+  "abend",
+  "alles",
+  "ampel",
+  "angst",
+  "apfel",
+  "armee",
+  "asche",
+  "atlas",
+  "bauch",
+  "bauer",
+  "beere",
+  "berge",
+  "beruf",
+  "besen",
+  "biene",
+  "birne",
+  "bitte",
+  "blatt",
+  "blitz",
+  "blume",
+  "boden",
+  "brief",
+  "brust",
+  "brühe",
+  "busch",
+  "bäume",
+  "bügel",
+  "dampf",
+  "danke",
+  "decke",
+  "durch",
+  "eisen",
+  "engel",
+  "enkel",
+  "ernte",
+  "essen",
+  "fabel",
+  "faden",
+  "fahne",
+  "fahrt",
+  "farbe",
+  "feder",
+  "feier",
+  "feuer",
+  "fisch",
+  "fleck",
+  "fluss",
+  "flöte",
+  "frage",
+  "fuchs",
+  "gabel",
+  "geben",
+  "gegen",
+  "gehen",
+  "geist",
+  "gerne",
+  "glück",
+  "gnade",
+  "gross",
+  "grund",
+  "gruss",
+  "gurke",
+  "hafen",
+  "hagel",
+  "hallo",
+  "handy",
+  "heiss",
+  "hitze",
+  "honig",
+  "hotel",
+  "hölle",
+  "hören",
+  "hügel",
+  "insel",
+  "jacke",
+  "junge",
+  "jäger",
+  "kakao",
+  "kamel",
+  "kampf",
+  "kanne",
+  "karte",
+  "katze",
+  "kerze",
+  "kette",
+  "kiste",
+  "klang",
+  "klein",
+  "knopf",
+  "kohle",
+  "kraft",
+  "kranz",
+  "kreis",
+  "krieg",
+  "krone",
+  "kugel",
+  "kunst",
+  "käfer",
+  "könig",
+  "küche",
+  "lampe",
+  "leben",
+  "leder",
+  "leise",
+  "lesen",
+  "leute",
+  "licht",
+  "liebe",
+  "liste",
+  "malen",
+  "mauer",
+  "meter",
+  "milch",
+  "mitte",
+  "monat",
+  "motor",
+  "musik",
+  "mühle",
+  "nacht",
+  "nadel",
+  "nagel",
+  "nebel",
+  "neffe",
+  "nicht",
+  "nudel",
+  "onkel",
+  "opfer",
+  "orgel",
+  "paket",
+  "pferd",
+  "pflug",
+  "pilot",
+  "pirat",
+  "platz",
+  "preis",
+  "puppe",
+  "quark",
+  "radio",
+  "raten",
+  "regal",
+  "regen",
+  "reise",
+  "riese",
+  "rinde",
+  "rufen",
+  "ruhig",
+  "sache",
+  "sagen",
+  "sahne",
+  "salat",
+  "salbe",
+  "sauer",
+  "schaf",
+  "schuh",
+  "schön",
+  "seele",
+  "sehen",
+  "seife",
+  "seite",
+  "sonne",
+  "spass",
+  "spiel",
+  "sport",
+  "stadt",
+  "stamm",
+  "stark",
+  "stein",
+  "stern",
+  "stirn",
+  "stock",
+  "stolz",
+  "strom",
+  "stuhl",
+  "sturm",
+  "suppe",
+  "tafel",
+  "tante",
+  "tasse",
+  "taube",
+  "teuer",
+  "tiefe",
+  "tisch",
+  "tonne",
+  "traum",
+  "trost",
+  "unter",
+  "vater",
+  "vogel",
+  "vögel",
+  "waage",
+  "wagen",
+  "weide",
+  "welle",
+  "wesen",
+  "wiese",
+  "wolke",
+  "wurst",
+  "wärme",
+  "zange",
+  "zeile",
+  "zunge",
+  "zweig",
+  "zwerg",
+  "zähne",
+  "äpfel",
+  "übung",
+];
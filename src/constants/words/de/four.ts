@@ -0,0 +1,242 @@
+export const words = [
+  "aber",
+  "acht",
+  "affe",
+  "alle",
+  "also",
+  "arzt",
+  "auch",
+  "auge",
+  "auto",
+  "bach",
+  "bahn",
+  "ball",
+  "band",
+  "bank",
+  "bart",
+  "baum",
+  "beim",
+  "bein",
+  "berg",
+  "bett",
+  "bier",
+  "bild",
+  "blau",
+  "blut",
+  "boot",
+  "brot",
+  "buch",
+  "bunt",
+  "burg",
+  "chef",
+  "dach",
+  "dank",
+  "dann",
+  "dass",
+  "dein",
+  "dich",
+  "dick",
+  "dies",
+  "dorf",
+  "dort",
+  "drei",
+  "dumm",
+  "eben",
+  "ecke",
+  "ehre",
+  "eile",
+  "eine",
+  "eins",
+  "ende",
+  "ente",
+  "erde",
+  "esel",
+  "etwa",
+  "eule",
+  "euro",
+  "fach",
+  "fall",
+  "fast",
+  "fein",
+  "feld",
+  "fell",
+  "fest",
+  "fett",
+  "film",
+  "flug",
+  "form",
+  "frau",
+  "froh",
+  "früh",
+  "fuss",
+  "gans",
+  "ganz",
+  "gast",
+  "gelb",
+  "geld",
+  "gern",
+  "gift",
+  "glas",
+  "gold",
+  "gott",
+  "grab",
+  "gras",
+  "grau",
+  "grob",
+  "grün",
+  "gurt",
+  "haar",
+  "halb",
+  "hals",
+  "hand",
+  "hart",
+  "hase",
+  "haus",
+  "heft",
+  "heim",
+  "held",
+  "hell",
+  "hemd",
+  "herz",
+  "hexe",
+  "hier",
+  "hose",
+  "hund",
+  "idee",
+  "igel",
+  "ihre",
+  "jahr",
+  "jede",
+  "kalb",
+  "kalt",
+  "kamm",
+  "kann",
+  "kiel",
+  "kind",
+  "kinn",
+  "kino",
+  "klar",
+  "klug",
+  "knie",
+  "koch",
+  "kopf",
+  "korb",
+  "kuss",
+  "käse",
+  "kühe",
+  "kühl",
+  "lamm",
+  "land",
+  "lang",
+  "laut",
+  "leer",
+  "leid",
+  "lieb",
+  "lied",
+  "loch",
+  "luft",
+  "lust",
+  "löwe",
+  "mann",
+  "maus",
+  "meer",
+  "mehl",
+  "mehr",
+  "mein",
+  "mond",
+  "mund",
+  "möwe",
+  "müde",
+  "mühe",
+  "müll",
+  "nach",
+  "name",
+  "nase",
+  "nass",
+  "nein",
+  "nest",
+  "netz",
+  "neun",
+  "noch",
+  "null",
+  "nuss",
+  "nähe",
+  "ofen",
+  "ohne",
+  "oper",
+  "papa",
+  "park",
+  "pass",
+  "pilz",
+  "post",
+  "rabe",
+  "rast",
+  "raum",
+  "rede",
+  "rein",
+  "reis",
+  "rest",
+  "ring",
+  "rock",
+  "rose",
+  "ruhe",
+  "rund",
+  "rübe",
+  "saal",
+  "sack",
+  "saft",
+  "salz",
+  "sand",
+  "satz",
+  "sehr",
+  "seil",
+  "sein",
+  "seit",
+  "senf",
+  "sieb",
+  "sieg",
+  "sinn",
+  "sitz",
+  "sohn",
+  "stur",
+  "säge",
+  "süss",
+  "tanz",
+  "teil",
+  "tief",
+  "tier",
+  "tipp",
+  "topf",
+  "treu",
+  "tuch",
+  "turm",
+  "vier",
+  "voll",
+  "wald",
+  "wand",
+  "warm",
+  "weil",
+  "wein",
+  "weit",
+  "welt",
+  "wenn",
+  "wert",
+  "wild",
+  "wind",
+  "wolf",
+  "wort",
+  "wurm",
+  "zahl",
+  "zahn",
+  "zart",
+  "zaun",
+  "zehn",
+  "zeit",
+  "zelt",
+  "ziel",
+  "zoll",
+  "zwar",
+  "zwei",
+  "übel",
+  "über",
+];
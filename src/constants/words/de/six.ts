@@ -0,0 +1,166 @@
+export const words = [
+  "arbeit",
+  "banane",
+  "becher",
+  "besuch",
+  "billig",
+  "bitten",
+  "blumen",
+  "brezel",
+  "brille",
+  "bruder",
+  "brücke",
+  "butter",
+  "bäcker",
+  "denken",
+  "doktor",
+  "donner",
+  "dunkel",
+  "eltern",
+  "fahren",
+  "fallen",
+  "falsch",
+  "fangen",
+  "fehler",
+  "felsen",
+  "fertig",
+  "finden",
+  "finger",
+  "flagge",
+  "fliege",
+  "fragen",
+  "freude",
+  "freuen",
+  "freund",
+  "frisch",
+  "frosch",
+  "frucht",
+  "früher",
+  "führen",
+  "garten",
+  "gesund",
+  "gleich",
+  "gürtel",
+  "halten",
+  "hammer",
+  "heftig",
+  "heimat",
+  "helfen",
+  "herbst",
+  "himmel",
+  "hoffen",
+  "hummel",
+  "hunger",
+  "hängen",
+  "insekt",
+  "kaffee",
+  "kamera",
+  "kammer",
+  "kanone",
+  "kaufen",
+  "keller",
+  "kinder",
+  "kirche",
+  "kissen",
+  "klasse",
+  "kochen",
+  "koffer",
+  "kommen",
+  "kuchen",
+  "können",
+  "körper",
+  "lachen",
+  "lassen",
+  "laufen",
+  "lehrer",
+  "leicht",
+  "leiden",
+  "leiter",
+  "lernen",
+  "lieben",
+  "liegen",
+  "lustig",
+  "löffel",
+  "lösung",
+  "machen",
+  "mantel",
+  "messer",
+  "minute",
+  "mittag",
+  "montag",
+  "morgen",
+  "mutter",
+  "nehmen",
+  "nudeln",
+  "nummer",
+  "orange",
+  "packen",
+  "papier",
+  "reisen",
+  "reiter",
+  "rennen",
+  "ritter",
+  "rätsel",
+  "rücken",
+  "sauber",
+  "schatz",
+  "schaum",
+  "schein",
+  "schere",
+  "schiff",
+  "schild",
+  "schirm",
+  "schlaf",
+  "schnee",
+  "schrei",
+  "schule",
+  "schwan",
+  "schwer",
+  "sessel",
+  "setzen",
+  "sicher",
+  "singen",
+  "sitzen",
+  "sollen",
+  "sommer",
+  "sparen",
+  "spinne",
+  "spitze",
+  "sprung",
+  "später",
+  "stange",
+  "stehen",
+  "stimme",
+  "strand",
+  "stunde",
+  "suchen",
+  "tanzen",
+  "tasche",
+  "teilen",
+  "teller",
+  "tomate",
+  "tragen",
+  "treppe",
+  "tunnel",
+  "warten",
+  "wasser",
+  "wecken",
+  "wecker",
+  "werfen",
+  "wetter",
+  "winter",
+  "wissen",
+  "wohnen",
+  "wolken",
+  "wollen",
+  "wunder",
+  "wurzel",
+  "zahlen",
+  "zauber",
+  "zeigen",
+  "ziehen",
+  "zimmer",
+  "zucker",
+  "zählen",
+  "öffnen",
+];
@@ -0,0 +1,118 @@
+export const words = [
+  "aal",
+  "alt",
+  "amt",
+  "ans",
+  "arm",
+  "art",
+  "ast",
+  "auf",
+  "aus",
+  "axt",
+  "bad",
+  "bau",
+  "bei",
+  "bis",
+  "bus",
+  "bär",
+  "das",
+  "dem",
+  "den",
+  "der",
+  "des",
+  "die",
+  "dir",
+  "ehe",
+  "eid",
+  "eis",
+  "elf",
+  "eng",
+  "fan",
+  "fee",
+  "fix",
+  "für",
+  "gab",
+  "gar",
+  "gas",
+  "gut",
+  "hai",
+  "hat",
+  "her",
+  "heu",
+  "hin",
+  "hof",
+  "hut",
+  "ich",
+  "ihm",
+  "ihn",
+  "ihr",
+  "ins",
+  "kai",
+  "kuh",
+  "kur",
+  "lag",
+  "lob",
+  "lok",
+  "los",
+  "mag",
+  "mai",
+  "mal",
+  "man",
+  "mit",
+  "mut",
+  "nah",
+  "neu",
+  "nie",
+  "not",
+  "nun",
+  "nur",
+  "ohr",
+  "oma",
+  "opa",
+  "ort",
+  "ost",
+  "pol",
+  "rad",
+  "rat",
+  "reh",
+  "rot",
+  "ruf",
+  "rum",
+  "sau",
+  "see",
+  "sei",
+  "sie",
+  "ski",
+  "sog",
+  "tag",
+  "tal",
+  "tat",
+  "tee",
+  "tod",
+  "ton",
+  "tor",
+  "tot",
+  "tun",
+  "tür",
+  "uhr",
+  "uhu",
+  "und",
+  "uns",
+  "vom",
+  "vor",
+  "wal",
+  "war",
+  "weg",
+  "weh",
+  "wem",
+  "wen",
+  "wer",
+  "wie",
+  "wir",
+  "wut",
+  "zeh",
+  "zoo",
+  "zug",
+  "zum",
+  "zur",
+];
@@ -0,0 +1,24 @@
+export const words = [
+  "ab",
+  "ah",
+  "am",
+  "an",
+  "au",
+  "da",
+  "du",
+  "ei",
+  "er",
+  "es",
+  "im",
+  "in",
+  "ja",
+  "je",
+  "na",
+  "ob",
+  "oh",
+  "so",
+  "um",
+  "wo",
+  "zu",
+  "öl",
+];
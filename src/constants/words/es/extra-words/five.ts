@@ -0,0 +1,2 @@
+export const words =
+  "5|0ababa3ca4o3da4i3ja4e3la4e4o3na4e4o3si3ta4e4i4o3ña4e4o2ece3te4o2iar4s3na4e4o3so3ta4e0abito2oba4e4o3ca4o3fa4e4o3ga4o3li3na4e4o3ya4e4o3zo2ran4s3en4s3ia4d4o4s2sit2ubo3ce3je3ra0abure4o3sa4e4o3za4o1caba4e4o3ma4e4o3na3ra4e4o3so3ta4e4o2ebo3ce3da4e4o3ma3pa4e4o3ra4e0aceta4o3za4o3ña2hin4s2ial4r3da4o3je3lo3mo3on2les3la2mes2nes2oca4o3da4e4o3ge4i3ja4o3la4e4o3pa0acope4o3ra4e4o3sa4e4o3ta4e4o2res3oe4y2tas3ea3os3ua4e4o2uda4e4i4o3ea4o3la4e4o3na4e4o0acure3sa4e4o3ta4i4o3yo3ña4e4o1dala3ma4e4o3za2ema4e4o2iad4n4r4s3en4s3os3va4e2oba4e4o3ra0adore4o3sa4e4o2rad4l4n4r4s3en4s2uar3ce4i3fe3ja4e4o3la4e4o3na4e4o3ra4e4i4o2ven1edas3os0aerea4o2tas1faca4e3ga4o3ma4e4o3na4e4o3ra4e3ta4e4o2ead4n4r4s3en4s2iar3ce3ja4o3la4e4o3na0afine4o3zo2lui2oca4o3fa4e4o3ga4o3na4o3ra4e4o3sa4e4o2tas2ufa4e4o3ma4e4o1gace3mi3na4e4o3pe0agata3ve2ios3ta4e4o2nus2ola4e4o3ra4e4o3ta4e4o2ras4z3es3ia4e4o3or4s2uad4i4n4r4s4y3ce3da0aguen4s3in4o3ti3za4o1haja4e4o2ija4e4o3la4e4o3na3ta4e4o2oga4o3ya4e4o2uma4e4o3sa4e4o1illo0aillu2nas2rad4n4r4s3ea4e4n4o4s3on2sas3la4e4o2tes1jaba3da4o3is3ja3ra4e3se2ead4n4r4s3be3en4s0ajeis3na4o3os3ra4o3te2ice3es3pa3za4o2obo3ra4e4o3ta4e4o2uar3ma4e4o3na4o1laba4e4o3co3da4o3fa0alaga4o3ju3la4o3ma4o3na4o3ui3zo2bar4s3ea4e4o3in3or4s3um4r2cas3ea4n4s3or2dea2ead4n4r4s3ce0aleda3en4s3fs3ga4o3ja4e4o3la4e4i4o3ma3ro3ta4o3ve3ya3zo2fad4n4r4s3en4s3il4z3oz2gar4s3ol0algos3un2hoz2iad4n4r4s3ca3en4r4s3fa3ga4o3ja4e4o3mo4s3oj3sa4e4o3ña4e4o2jez3or2len2mas3ea4z0almos3ud2nas3os2oba4e4o3ca4o3es3ja4e4o3la4e4o3ma4e4o3na3ra3sa3ta4e4o3ya2pes2tar4s3ea4e4o0altor4s2uas3ce3da4e4i4o3la3na4e4o3za4o2veo2zad4n4r4s3os1maba3da4o3ga4o3is3la4e4o3na4e4o0amara4e4o3sa4e4o3ta4e4o3ña4e4o2bar4s3la4e4o3on4s2eba3is3la4e4o3na4o3os3ra4e4o2ias3ba0amibo3da3na4e4o3ri3to2ola4e4o3mo3na4e4o3ve4i2pay3la4o3on4s3ra4e4o2uga4o3la4e4o3ra4e4o0amuso1nabi3co3de3fe3mu3na3ta2cas3ha4e3la4e4o3on3ua2dad4n4s3el4n4s3on2ead4n4r4s3en4s3ga4o3ja0aneje4o3to3xa4e4o2gla4o3or3ra3us2ida4e4o3ma4e3on3sa4e4o3to3ña4e4o2jeo2oas3do3la4e4o3na3ta0anote4o2sar4s3ia4e4o2tas3ia4s3ro2ual4s3da4e4o3la4e4o3os3ra4o1ocar2jad4n4r4s3en4s3os2nia4o0aorta2vad4n4r4s3en4s1paga4o3le3ra4e4o3ña4e4o2ead4n4r4s3en4s3ga4o3la4e4o3na4e4o3os3ra0apere4o3se2ice3la4e4o3os3pa4e4o3ri3ta4e4o3ña4e4o2nea2oca4e4o3da4e4o3la4e4o3ne3sa4e4o0apoya4e3za4o2res3oa4e4o2tar4s3os2una4e4o3ra4e4o3se4o3ña4e4o1quea4l4o1raba4e4i4o3da4o3is0arana3ra4e3sa4e3za3ña4e4o2bor2cad4n4r4s3ea4n4s3ha4i3on4s2dan4s3ea4d4n4r4s3ia4d4l4o0ardor3ua4o2eas3ca3is3la4e4o3ne4o3pa3te2fad4n4r4s3en4s3il2gan3el4n3on4s4t3ue4i2ias3ca4o3da0arido3es3ja4e4o3lo3os2lad4n4r4s3en4s3os2mad4n4r4s3en4s3on4s2nas3es2oca3ma4e4o2pad4n4r4s0arpen4o4s3ia3on2que2ras4z3ea4e4o4s3ia4e4o3ua4e4i4o2tal4s3es3os2ula3po3ña4e4o2zon1saba3ca4o0asada3is3ra4e4o3se2car4s3ia4o3os3ua2ead4n4r4s3da4e4o3en4s3is3la4e4o3os3sa4e4o2gan4s2ian0asias3ca4o3da4o3la4e4o3na3ra4e2mar4s2nal4s3os2ola4e4o3ma4e4o3na4e4o2pad4n4r4s3ea4e4n0aspeo4s3ic4d3ro2tas3er3il3ro3ur2uma4e4i4o3ra4e4o3so1taba4e3ca4o3da4o3is3ja4e4o3pa4e4o3ra0atare3se3ud3ña4e4o2ear4s3ce3is3je3os3ri3sa4e4o3ta4e4o3za4o2iba4e4o3ca4e4o3na4e4o3pa4e0atipo3za4o2las2oad4n4r4s3ba4e4o3en4s3ja4e4o3le3mo3na4o3ra4e4o2rae3il4o3oz2ufa4e4o3ra4e0aturo3sa4e4o3ve4o1ucas2daz3io2ges3ur2las3la4e4o2nad4n4r4s3en4s2pad4n4r4s3en4s2ras3ea4o2sol2tan0autor4s1vada4e4o3ha4e4o3la4e4o3ra4o3ti2ece3na4e4i4o3za4o2iad4n4r4s3ca3da4o3en4s3ne4o0avios3sa4e4o3va4e4o2oca4o2ugo1xial3la1yaco3te2ead4n4r4s3en4s2ora3te2uas3de4o3ga3na4e4o3so1zada3ga0azago3la3ra4e4o2con2eri2imo2oad4n4r4s3ca4o3en4s3ga4o3la4e4o3ra4e4o3ta4e4o2tor2uas3ce3da3la0azule4o3ts3za4o1ñada4e4i4o2eda4e4i4o3ja4e4o3ra4o2ida4e4i4o3la4e4o3na4o2oja4o3ra4e4o0añosa4o2uda4e4o0babas3ea4e4l4o3is3le3or2can4s3he3ia4n3on2dal4n4s3ea4n3il2fle2gad4n4r4s3os3re0bague2hai2ida3fa4o3la4o2jad4n4s3ea4e4l4n4o4s4z3ia4n4o3on4s2lad4j4n4r4s4y3da4e4o3ea0balee4n4o4s3in3on4s3sa4o3ta4o2mba4u2nal4s3ca4e3da4o3ir3jo3tu3yo3zo2que2rba4e4o3ca3da4e4o0bares3ia4l4o4s3ns3on4s3ra4e4i3za2sad4l4n4r4s3ca3en4s3is3na3ta4e4o2tan4s3ea4e4l4n4o0bates4y3ia4d4n4o4r4s3on4s3ua2ula3re3sa3za2yal4s3on4s3ua4s2zar4s3os2ñad4n4r4s3en4s3il3os0beata4o2ban4s3ed4n4s3ia4o2cad4n4r4s2del2fad4n4r4s3en4s3os3re2gum2ige2jin2lda4e4o3en4s4z3fa0belfo3ga3io3la4o3ua2mba4e4o3ol2nes2oda4o3ri2que2rbi3ma3on3ra4e4o3ta3za2sad4n4r4s3en4s3os2tas3el0betun2uda4o2yes2zar3on4s1iaza2bis2cal3ha4e3is3os2des3on2ela2faz3es2gas2jao4s3ol2lao3es3is3la3ma4e4o2mba2nad0binan4r4s3ea4e4n4o4s3go3za2ota2ras3la4e4i4o3os2sad4n4r4s3el4n4s3os3te2tad4n4r4s3en4r0bites3or2zas3ca4o3ma4e4o3na1laos3va4o2eda4o2oca4o4s2ues3sa1oato2bas3ea4e4o3os2cal4s3ea4e4l4o3ha0boche4o3in4o3on4y2das3es3on2fan4r4s3en4s3ia3os2gad4n4r4s3ue2hio2ina3ra3te2jad4n4r4s3ea4e4n0bojeo4s3os2lar4s3do3ea4e4o4s3in4s3la4e4o3on4s3so2mba4e4o2nal3es3ga4o3os3zo2que4i2rax3da4e0bordo3eo3ia3la3na4e4i3os3ra4e4o3to2sar3on3ta2tad4n4r4s3ea4e4n4o4s3in3on4r4s2xea4e4o4r0boxes2yad4l4n4r4s3en4s2zal4s3on4s1raca4o3ga3ma4e4o3sa3va3za3ña2ead4n4r4s3ca4e4o3en4s3ga0brego3te3va3za4o3ña2ial3ba3ce3da3ol4s3se4o3za4o2oas3ca4e3me4o3ta4e4o3za4o2uce3go3ja4e4i4o0bruma4e4o3na4o3ta4o4s3za4o3ña4e4i4o1uaro2bas3is3on2cal3ea4e4n4o4s3he3io3le3os2das3in2ega3na0buera2fad4n4r4s3en4o4s4t3ia3on4s2gle2hio3os2ida4o2jeo4s3ia3os2lar4s3bo3da3es3in4s3la4e4i4o0bulon4s3to2nas3io2que2ras3da4o3el4o3ga4o3il4o4s3la4e4o3os3ra2sco3es3to2ten3ia2yos2zad4n4r4s3on0buzos0cabal4s3ed4n4r4s3ia4o3os3re4o2can4s3ea4e4n4o4s3ha4e4o4u3le3os3to3uy2das3is3os2eis3na0caera4e2fes3iz3re2gad4n4r4s3on3ue2hiz2ian4s3co3da4o3es3ga4o3ma3re3te2jas3el3in4s3on4s2lad4n4o0calar4s3ca4e4o3da4o3ed4n4r4s3ia4o4s4z3la4o3me4o3on4s3ta3va4e4o3za4o2mal4o4s3ba4e0cambo3io3on3pa4e2nas3da4e4i4o3ea4e4o4s4y4z3ga4o3ia4l3je3oa4n4s3sa4e4o3ta4e4u2oba4o0capad4n4r4s4z3ea4e4l4n4o4s3ia4n4o4s3on4s3pa3ta4e4o3uz2qui2rao4s4u4y3ba3ca3da4e4o0carea4e4l4o4s4y3ga4o3ia4e4o4s4z3la4o3me3on4s3pa4e4i4o3ra3vi2sad4l4n4r3ca4o3ea4n0caseo4s3ia4s3on4s3pa3ta4o2tad4n4r4s3ea4e4n4o4s4y3in3on4s3re2uba3ca4e3da3je3la3no3ri4o0cause4o3ta4o3za2vad4n4r4s3ea4n4s3ia4o4s3on4s2yan4s3os2zad4n4s3on4s3uz2ñad4l4n4r4s3ea0cañee4n4o4s3is3on4s1eaja4o2bad4n4r4s3en4s3il3on4s3ra4o3ti3us2cal4s3ea4e4o2dan4s3ed4n4r0cedes3ia4o3ro2fea4e4o3os2gad4r4s3ua4e2iba4o2jad4n4r4s3en4s3os2lad4n4r4s3da3en4s3fo3ia3la0cello3os3ta2mas3bo2nad4l4n4r4s3ca4o3en4s3ia4s4t3sa4e4o3ts2pas3os3ti2qui2ras3co3da3ea4o3io3na0cerne4i4o3on4s3pa3ra4e2sad4n4r4s3en4s3io3ta4o2til4s3me3ra4e4o2uti2ñad4n4r4s3en4s3ia4d0ceñir4s3os1haca4e4o3fa4e4o3is3ja3la4e4o3ma4e4o3na4e4o3pa4e4o3ta4o3ul4z3va4e4o3ya4e0chayo3za4o2eca4o3fs3je3la4e4i4o3pa4e4o3ra4o3sa4o3ta4o2iad4n4r4s3cs3da4o3en4s3fa3is3le0chima4e4o4u3na4e4o3pa4e4s3ra4i3sa4t3ta4e4o3va4e4o3za2oba3ca4o3fe3la4o3na4o3pa4e4o0chora4e4i4o3ta4e4o3va3ya4e4o3za4o2uas3ca4e4o3fa4e4o3la4e4o3na3pa4e4o3ra4o4u3ta4e0chuto4s3va3ya4o3za4o3ña4o1iaba3do3is3ni3ra4e3se3to2bal3is2cas3ca3la4e4o2des3ra4o2eca3ga3is3mo3no0cifra4e4o2gua2jas2lio3la2mar4s3ba3ia3pa2nas3ca4s3es3ia3te4o2pes3os2rca4e3io3ro2sca4o3ma4e4o3ne3ta0citad4n4r4s3en4s3ra2vil2ñan4s3en4s1laco4s3ma4e4o3pa3ra3va4o2ema3ro2ica4s3ma3ps3sa4e4o2oca4o0clona4e4o3ra4e4o3ta2ube4s1oana3ti2bas3ea4z3il3la3os3ra4o2cad4l4n4r4s3ea4d4e4o4r4s3ha4i0cocho3ia4o3ol4s3ui4y2dal4s3ea4e4o4z3in3on4s2eva4o2fan4s3ia4n3re2ged4n4r4s3ia4o3on2ima4e0coine3po3ta4e4o2jal4n4s3ea4e4o3in3on4s2lad4n4r4s3ea4e4n4o4s3ga4o3in3la3ma4e4o3on4s0colpa4e3za2mal4n4s3ba4e4o3ed4n4s3ia4c4o4s3ta4o3un2nca3ga4o3os3ta4e4o2ona2pad4l4n4r4s0copea4c4e4n4o4s4y3ie4n4o3la3on4s3ra3ta4o2que4i2rad4n4r4s3be3ca4o3da3ea4e4n4o4s3io0coris3la4e4o3ma3no3os3pa4s3ra4e4i4o3sa4e4o3ta4o3ua3va4e4o3za4o2san3ca4o3ed4n4r4s3ia0cosio3os3pe3te4o2tad4n4r4s3en4s3in4s3on4s3ua2vad4n4r4s3en4s2xal4s3is2yan4s3es3ol2ñac4s3ea0coñee4o3on4s1racs3sa4o3za2ead4n4r4s3ce4i3do3ed4n4s3ia3me4o3pe4s3sa4o3ta3yo2iad4n4r4s3ba0cribe4o3ca4s3da3en4s3na4e4o3os2oad4n4r4s3co3en4s3ma4e4o3no3ss3to3za2uce3da4o3el3ja4e4i0crujo3or3ps3za4o1uaba3co3da4o3ja4e4o3pe3si3ta4e4i2bas3il3os3ra4e4i4o2cad4n4r4s3ha4e4i4o0cucos3us4y2eca4e4o3la4e4o3ra3te4o3va3za4o2ica4o3da4e4o3ja3lo3na4o3ta2jas3es3in4s3on2lar4s0culea4e4n4o3ia4o4s3le3on4s3pa4e4o3ta4o2mas3ba4e4o3el3pa2nad4n4r4s3da4e4i4o3ea4e4n0cuneo4s2ota2pes3le3on4s2que2rad4l4n4r4s3ca4o3da4o3en4s3ia4e4l4o4s3os3ra4e4o4y3sa4e4i0curta4e4i4o3ul3va4e4o2san4s3ca4o4u3en4s3ia4d4o4r4s3ma3pa3ul2tas3er4s3io4r4s3os3ra4e0cuyas3eo4s3os2zas3co3ma3os3ul2ñad4l4n4r4s3en4s3os0daban4s3le2cha3ia4o2das3or4s2gas2hir2ifa2jao2las3go0dalia3la4e4o2mas3il3os2nce3di4o3es3go3ta4e4o3zo2qui2ran4s3do3es3ga3ia2tad4n4r4s3ea4e4n4o4s0datil3os2uco3da2zas2ñad4n4r4s3en4s3os1eban4s3da4o3ed4n4r4s3ia4l4o3la3os3ut2cae4i3ia4d4s3or0dedal3eo3il2esa2jad4n4s3en4s3os2lco3es3ga3ia4o3la4o3ta2mas3os2nde3sa4o3ta4e4o2pon2que2rbi2sca3da4e0desdi3ea4e4s3ga3oi3ta4e4o3us2tal3en2uda4o2ven2yes2zma4e4o2ñar1iada4o3na3ño2caz3en4s3ho3ta4e4o2ego0diera4e3se4i3te4o2gan4s3na4e4o2jes2lui2man4s3en4s3ia4d4o4r4s3os2nar4s3es3os2odo3sa4o2que2ran0diras3ia2sca3on3ta4e4o2tas2uca2van4s3os2ñad4n4r4s3en4s1obla4o2cas3es3il3ta4o2dos2gal4s3ma3os3re2lad0dolar4s3ed4r4s3ia4o3os2mad4n4r4s3bo3en4s3os2nad4n4r4s3de3en4o4s2pad4n4r4s3en4s2rad4l0doran4r4s3en4s3ia4o3mi3na3so2sel4s3is2tad4l4n4r4s3en4s3or2ñas3ea4e4o1raba3ga4o3ma2eas3na4e0dreno2ias3no3za2oga4o3pe2upa3sa4o1seda1ubas3da3io2cal4s3es3he4o3os3to2dad4n4r4s3en4s2ela4e4o3to3ña0dueño2gos2jos2lar4s3ia2man4s3en4s3ia4d4o4r4s2nas3da4o2pla4o2rad4n4r4s3en4s3os0ebano2ria4o1chad4n0echar4s3en4s2uas3os1dema2ila3ta4e4o2rad4n4r4s3en4s2uca4e4i4o3je4o1febo3ta4o2lui2oro1gena4o2ida2uar0eiras1jido3on2ote1lami3ta4o2che2ega4i4o3mi3pe3ta4o3va4e4o2fos2ida4e4i4o3ge3ja4e4o3te2las3es3os2ote0eluda4e4i4o1mana4e4o2bai2ita4e4i4o2pos3ra4e4o2ues3la4e4o1nana4o2cia2eal4s3ja4e4o3ma3os2oja4e0enria4e4o2say2teo4s3ra4o2ula2ves3ia4e4o2zas1olia4o2nes1pale3ta4e4o2ica4o2oca3da4o3ta4o3xi1quis1raba3da0erado3is3je3la3ra4e3se2bio2cer2ebo3is2gio3ui2ial4s3ce3ge4i3ja4o3na3os3za4o2mar2oga4o2rad4j4n4r4s0erren4s3os2uta4e4o1scas4y3oa2mui2nob2pay3ia4e4n4o2qui2tad4n4s4y3en4r4s3il4o3ol4r4s4y3ro2ula0etano3pa2ica4o3lo3mo2nea4o3ia2ola4o2usa1ubea4o2ros1vada4e4i4o2ita4e4o2oca4o3he1xida3ge4i3ja4o3la4e0exilo3ma4e4i4o2odo3ra4e4o2pia4e4o3on2tra2uda4e4o0fabas3la3os3ro2cas3er4s3ha4e4o3il3on3to2das3os0faena4e4o2gos4t2ina4o2jad4n4r4s3ea4e4n4o4s3in3ol4n4s2laz3ca4e4o3la4e4o3os3sa4e4o3te0falto3ua2mas2nal3es3go2qui2rad4s3da4e4o3ia4o3ol4n4s3pa3ra4o3sa3te2ses3ol4s3ta4o2tal4s3or4s3ua0fatuo2una4o2vor4s2xea4e4o4s2yas2ñad4n4r4s3en4s1ebea4o3le2cal3es3he4o2eza2jes2lon3pa4e4o3us2mad4n0femar4s3en4s3ur2nal3da4i3ix3ol2ral4z3ie4o4r3mi3oz3ra4e4o4y2sta2tal4s3en3or4s3ua2uca4o3da4e0feudo3ra1iaba3ca3da4o3is3na3ra4e3se3ts2bra2car3en4s3ha4e4o3us2deo2eis3mo3ro2fad4n4r4s3en4s3is2gle0figon2jad4n4r4s3en4s3on4s2lad4n4r4s3en4s3fa3ia4e4n4o4s3lo3ma4e4o4s3on4s2mos2nad4l4n0finar4s3ca4o3en4s3ge4i3ia4d4o4r4s3ja4o3os3ta4e4o2que2rma4e4o2san3co3ga4o3ta4o2zad4n4r0fizas3on2ñes1laca3ma3on3sh3to3va4o2eco3ja4e4o3ma4e3os3ta4e4o3xo2ipa4e4o2oja4o3ra4e4o3ta4e4o0fluia4d4r4s3jo3or3ya4e4o1obia2cal4s3ha3ia4o3os2fas3os2gon2isa4o2jas2lga4o3ia4e4o3la4e4o3uz2mes0fonda3es3il4o3je3os2que2ral4s3ca4e3ja4e4o3me4o3no3os3ra4e4o3te3um3za4o2sad4l4n4r4s3ca4o0fosen4s3il3or4s2ton4s2vea1racs3da4e4o3ga3ña4e4i4o2ece3do3ga4o3ia4d4r4s3na4e3on4s3sa4e4o0freta4e4o3za4o2ian4s3ca4o3en4s3or4s3sa4e4o3ta4e4o2oga4o3ta4e4o2uia4d4r4s3te4o3ya4e0fruyo1ucar3hi3ia3os2dre2ere4o3sa4e3ts2fad4n4r4s3en4s3os3us2gan4r4s4z3ir3ue2ina2lar4s3ge4i3ja4o0fulla2mad4n4r4s3en4s3on2nca4o3da4e4i4o3ge4i3ja4o2ras3or4s3to2sas3ca4o3il3or4s3ta4e4o2til0futon3re2ñar0gaban4r2cel3ha4e4i4o2fad4n4r4s3ea4e4n4o4s3os2gas3os2ita2jes3os2lan4s3ce3ea4o4s3ga0galgo3io3la4e4o3on4p4s3ua2mas3ba3ma3on4s2nad4n4s3en4s3ga3sa4o3ta4e2ras4y3ba4e4o3fa3ia4o0garla4e4o3ma3os3pa4e4o3re4i4o3ua4e4o3za4o2sas3ea4e4o4s3on3ta4e2tas3ea4e4o2uss2via2yad4n0gayar4s3en4s3os2zas3na4e4o2ñan4s3en4s3ia4d4l4n4r4s3on1elan4r4s3en4s3fe2mas3ia4d4r4s2nes0genio3ol3te2oda2rbo2sta4e4o2tas1ibad4n4o4r4s3en4s3on2gas2las3es3is3va4o2man4s3en4s3io2nea2rad4n4r0giras3en4s3os2ses3te1lase3yo2eba3ra2ial4s3de3fo2obo3sa4e4o2uma1neis2omo1oben3io2cen4s3ha4o2das3eo3os2fas3io0gofos3ra4e4o2las3ea4e4o4s3fa4o4s3pe2mar4s3el4r3ia2nce3go2rda3ga3ja3ma4e4o3ro2tas3ea4e4o3on0goyas3os2zad4n4r4s3ne3on4s1raba4e4o3da4e3fo3is3ja4o3ma4e4o3na4d4e4t3os3pa4e4o3sa4o3ta0grate4o3va4o2eba3ca4o3da3en3lo3no3ña2ial3da3fa4e4o3ja3ll3ma3pa4o3sa4u3ta4e4o2oad4n4r4s3en0groes3gs3jo3mo3sa4o2uas3ia4d4r4s3ja4e4i4o3mo3pa4i3ta3ya4e4o3ña4e4i4o1uaba4o3ca4o3do3is0guaja4e3la3ma4e4o3no3os3pa4e4o3ra4e4i4o3sa4o3ta4e4o3ya4e4o2bia2era4o3to3ña2iad4n4r4s0guida4o3en4s3fa3ja4o3la4o3na4o3on3pa4e4o3ra4e4i4o3sa4e4o3ta4e4o3ye3ña4e4o2jas2lag4r0gulas4y3es2mia2rda4o3is3us2sta4e2zga4o3la0habar4s3er3ia4l4z3le4o3on3ra4e3us2can3ed4n4s3ha4e4o0hacia2dar4s3os2fiz2gan4s2iga2lad4n4r4s3da3en4s3la4e4o3on4s2mez3pa4o2nzo2pax2ran4s3ba4e4o3ca3da0harem4n3ia3ma3on3pa3re3ta4e4o2tea4e4o3os2ute2var3os2yal4n4s3os2zas1eben3ra2ces3ha4o2ded4r4s3ia4o0hedor2lad4r4s3ea4e4o3io3or2mos2nal4r3de4i3il3os3ry2rba4e4o3ia4d4l4r4s3ma3oe3pe3ra4e4o3tz0herve4i2spa4e4i4o2tea4o2vea2ñia4d4r4s1iato2cos2dra2eda4e4o3la4e3na3ra4e4o2gas3os3ui2jas3ea4e4o0hijos2lad4n4r4s3en4s3io3os2men3no3pa4e4o2nca4o3di4u2pad4n4r4s3en4r4s3os3py2rco3io3ma4e4o0hisca3pa4e4i4o2tad4n4r4s3en4s3on4s2ñan4s3en4s3ia4d4r4s1obby3os2cen4s2gos2jas3ea4e4o2lan3co0holea4e4o3ga4o3la4e4o2mes2nda4o3go3ra4e4o2pan4r4s3ea4e4n4o4s3os2que2ras3ca4o3da3ma3na4e0horra4e4o2sca4o3pa3te2tos2ves2yad4n4r4s3en4s3os2zad4n4r4s1uaca4o3je3os2cha4o3ia2eca4o3go3la4e0huelo3ra4o3sa4o3va4e2ian4s3ch3da4o3fa3la4o3ra4e4o2lad4n4r4s3ea4e4n4o4s3la3te2mad4n4r0humas3ea4e4n4o4s3il3os3us2nas3da4e4i4o3os2pes2ras3ga4o3is3on3ra3ta4e4o2sar3ma4e4o3os2tas3ia0huyan4s3en4s0ibais2era4o2ice1caco2eis2hal3os3us2ono2tus1dead4l4n4r4s4y3en4s3os2olo1glus2nea4o2uar1jada2iyo2uju0ileon4s3sa4o2ion2ota2uda4e4i4o3sa4o1mada3na4e4o2bui2ela2ita4e4o2par3ia4o3la4e4o3on1nane2cas3oa4e0incoo2das3ex3ia4o3os2fla4e4o2gas3le3on3re2ope2put2ris2sta4e4o2ter3is3ui2var1ones2tas1psis1rada4o3ni2eis2gan4s0irgue2ian4s3de3sa4e4o2rui2upe1sbas2lam4n4s3eo2oca2tmo1tala4o2ems3ra4e4o2ria4o2zaj1zaba3da4o3is3ra4e3se0izote0jabas3is3le3ra4e4i4o2cal4s3er3ha3os3ta4e4o2das3ea4e4o4s3ia4e4o2ece3za4o2gua2iba3ma2jay2lad0jalan4r4s3da4e4o3ea4e4n4o4s3ma3on2mad4n4r4s3ba4e4o3en4s3on2nes2pon2que2ral4s3ba4e4o3ca0jarda3os3ra4e4o2sad4n4r4s3en4s3pe2tas3eo4s3ib3os2uda4o3ja3la3ta4o2vas3os2yan2ñas3os1ebes2dad4n4r0jedas3en4s2fas3es2ito2jen2liz2mal3es2que2ras3bo3ez3ga3pa2tad4n4r4s3ea4e4n4o4s3on4s1ibes3ia2cos2fas3ia0jigas3ue2jas3ea4e4o2mad4n4r4s3en4s3ia4o2nda3es2ote2pas3ia4e4o4s2ras3el3on2sca2tad4n4r4s3en4s0jiñad4n4r4s3en4s1obar3os2cha4e4o3on4s2dan4s3ed4n4r4s3ia4o3on2for2lin2ndo3ia4o2pan4r4s3ea4e0jopen4o4s3os2ras3co3fe3ga4e3ro2sas2tas3es3os2ule2yas3el3on4s1uana2bas3on4s2cas3os2das3ia4o3os2ega3ra3za0jugad4s3os3ue2jea4e4o2lia3os2man4r4s3ea4e4n4o4s3il3os2nce4i4o3ta4e3za4o2pas3ea4e4o3on2rad0juran4r4s3co3el4n4s3os2sis3ta4e4o2tas3ia2via2zga4o2ñan4s3en4s3ia4d4r4s0labeo4s3ia4l3or3ra4e0labro2cad4n4r4s3ea4e4n4o4s3ha4o3ia4o3on3ra4e4o3ta4e4o2das3ea4e4o3on4s3ra4e4o2gar3os0lagua2ica4o3da4o2jas2man4s3ba4e4i4o3ed4n4r4s3ia4n4o3pa4e4o2nar4s3ce3da4e4o3ga3ia4o3za0lanzo2pas3on4s3sa4o2que2rda4e4o3es3ga3ra3va2sar4s3ca4o3er3os3ta4e4o3un2tan4s4z3ea4e4n4o4s0latex3ia4d4n4o4r4s3on4s2uda4e4o3na3ro3ta4o2vad4n4s3en4s2xad4n4r4s3en4s3os2yad4n4r4s0layen4s2zad4n4r4s3os2ñad4n4r4s3en4s1eais2cha4o3os2das3on4s2eis3ra4e2gad4l4n4r4s3on4s3ra4e0legro3ua4e4i2ian4s3da4o3la3ma2jas3ia4o2las3os2man4s3bo3po3ur2nas3ca3es3on3ta4e2ona2pra2ras3da4o2sas0lesea4e4o3na3os3te2tal3ea4o3on2uco3da4e4o2vad4n4r4s3en4s2yes2zda3na4e2ñad4n4r4s3en4s3os1iaba0liada4o3is3na3ra4e3se3za2bad4n4r4s3en4r4s3ia4o3on3ra2ceo3ia4o3or3ua4e4o2der4s3ia4e4o3on0liega4o3is3va4e2gad4n4r4s3ht3io3on3ue4r2jad4n4r4s3en4s2lac4o4s3io3os2mad4n4r4s3bo3en4s0limos2nao4r3ce3da4e4o3ee4o3fa3io3on4s2osa4o2pas3es3is3on2ras3ia4o3on2sas3es3ia4e4o4s3ol4s3ta0liste2tad4n4r4s3en4s3io4s3re4o3uo2uda4e4o2vor2zas3os2ños1laca3ga4o3me4o3na4o3pa4e4o2eca4o3ga0llego3na4e3ra3va4e4o2ora4e4o3sa3ve4i1oaba3da4o3is3ra4e3se2bas3by3ea4e4o3os2cal4s3ea4e4o3ha0loche3os3ro2don4s3ra2eis2gar3ia4s3os3ra4e4o2ica3na4o2las3ea4e4o3io4s3os2mas3ba4o3ea4e4o3os2nas0lonco3ga4o3ja2ras3ea4e4o4s3os3za2sad4n4r4s3en4s2tas3ea4e4o4s3in3os2zas1ucas3en4s3he4o3ia4d0lucio4r4s3ra4e4o2dan4s3en4s3ia4d4e4o4r4s3os2eñe2gre2ian4s3da4o3ra4e3sa2jad4n4r4s3en4s0lujos2los3us2mas3bo3en3ia2nar4s3ch3ea4e4l4o4s3fa2pas3ia3us2rte2sas3ca4o3os2tea4o3os2via2xad4n4r4s0luxen4s2yan4s3en4s2zca4o1ycra0mabis3le2cal4n4r4s3ea4e4n4o4s3ha4e4i4o3ia4o4s3la3on3ro3ua2dor0maesa4e4o3ña4o2fia2gas3ia4e4n4o3ma3na4o3os3ra4o3ue2hon2ido2jad4l4n4r4s3ea4e4n4o4s3os2lar0malas3ea4e4o4s3is3la4e4o3on4s3ta3va4e4o2mad4n4r4s3bi4o3en4s4y3ia3on3ua4t2nad4l4n4r0manas3ca4o3da4e4i4o3ea4e4n4o4s3ga3ia4d4o4r4s3os3sa4o3to3us2oma3ri2pas3ea4e4o3os2que4i0maras3ce4i4o3ea4e4o4s3ga4o3ia3lo3on4s3ra4e4o3sa4o3ta4e3za2sad4n4r4s3ca4o3ea4e4n4o0mases3ia3lo3on3te4o2tad4n4s3ea4e4n4o4s3iz3on4s3ul2ula4e4o3ra4e4o2yad4l4n4r4s3ea4e4n0mayeo4s3os2zad4n4r4s3na4e4o3os2ñas3ea4e4o3io3os1baya1eaba3da4o3is3ja3no3ra4e3se3to2cas3ed4n4r0meces3ha4e4o3ia4o3os2das3ia4d4e4r4s3os3ra4e4o2eis2gas3os2iga4o2jan4s3ed4n4r4s3ia4o2lad4r0melas3ca3ga4o3is3la4e4o3sa3va2mas3ez3os2nad4n4r4s3da3ea4e4n4o4s3ge3or3sa4o4u3ta4i4o3us0meona2rad4n4r4s3ca4o3en4s4y3go3la4o3ma4e4o3ol4s3sa2sad4n4r3en4s3ma4o3on3ta4o2tad4n4s0meted4n4r4s3ia4o3ra2yas3or2zan4s1iaba3do3ga4o3is3ja3ra4e3se3us3ña4e4o2cas3er4s3ha4e4o3os3ra0micro2dan4s3en4s3io2eis3la4e4o3ra2gad4n4r4s3ra4e4o3ue2jos2lan3es3is3la4o3pa2mad4n4r4s3en4s0mimos2nad4l4n4r4s4z3en4s3ga4o3ia4e4o3ue2oma3na3pe2rad4n4s3en4s3la4e4o3on3ra3to3za2sad4l0misan4r4s3en4s3ia4l4o3ma3ta4e4o2tan4s3in3on4s3ra4e4o2ura2xta4o2zas3os2ñon1oais3re2ble2cad4n4r0mocas3ea4e4o3ha4e4o3il3os2dal4s3em3io3os2fad4n4r4s3en4s2gas3ol4n4s2hin3os3ur2jad4n4r4s3el0mojen4s3il4s3on4s2lad4n4r4s3da4e4o3ed4n4r4s3ia4o3la4e3on4s3sa4o2mea4e4o3ia4o3os2nas0monda4e4o3ea4e4o3fi3ga4o3is3ja4e3os3ra3se3ta4o2pan4s2que2rad4l4n4r4s3bo3ca4o3de4i3ea4n0moreo4s3fa4e4o3ga3ia4d4s3ma4e4o3on4s3ra4o3sa4e2sco3en3te4o2tas3ea4e4l4o4s3il4n3on4s0moved4r4s3ia4l4o2xas3te2yas3os2zas3os2ñas3on4s1uare2ble2cas3ha3os2dad4n4r4s3en4s4z3os2eca3la4e4o0muera4e4o3so3va4e4o2fas3la3ti2gad4n4r4s3en4s3ia4d4l4o4r4s3le3or3re3ue2ian4s3da4o3ra4e0mujan4s3ol2lar4s3eo4s3la4e4i4o3os3sa4o3ta4e4o2nas2rad4l4n4r4s3en4s3ga3ia4o3os3ta4o2san0musar4s3ca4o3en4s3ga4o3ia4o4r4s3lo3os2tad4n4r4s3en4s3is3ra4o3ua4o2yan4s3en4s2ñan4s3en0muñes3ia4d4r4s3on0nabab4l4r4s3is3la3os2car4s3ed4n4s3ha4o3ia4o3os3re2dad4l4n4s3en4s3ga3ir0nafra4e4o3ta2gua2hoa3ua2ife4s3pe3re2jas2lca3ga2nas4y3ce3ea4e4o3sa4u3ta4e4o2pas3ea4o2que2rco3do3es0narra4e4o2sal4s3on4s2tal4s3ia4o3os3ri2uta2val4s3es3io2zca4o3is1ebel3is3li3ro2cea4e4o3ia4o2gad4r0negas3ra3ue4s2jas3os2ldo3es2mas3ea4o4s3on2nas3es3ia2pes2ron2sga4o2tas3os2uma2vad4r4s3os3us2xos1iara3zo2che0nicho3le3ol2dal3ia4o3os2ega4o3la4e4o3ta3va4o2gua2lad3on2mba4e4o3ia4o2nfa4o3ot2oto2pas3is3on4s2qui0niste2tor4s3ra4e4o2vea4l4o2xte2ñas3ea4e4o4z3os1obel3le2cas3ir3la2dal3os2ema2gal2lis4t2mas3on4s2nas3es0nonio3os2pal2que2ray3ia3ma4e4o2tad4n4r4s3en4s3os3ro2vad4l4n4r4s3el4n4s3ie2yos1ubes3ia4l4o3la0nuble4o2cas3he3ir3os2das3os2era3sa4o3va4e3za2las3os2men3os2tra4e4i4o2ños0oasis1belo3sa4o2ice3to2lea2oes3lo0obrad4n4r4s3en4s2sta4e4o2ten2ues2via4e4o1capi3so2elo3na2hos2iad4n4r4s3en4s3os2les3ui2ote2ras3es4y0ocuje3me4o3pa4e4o1deon2iad4n4r4s3en4s3os2res1fita1gaño2ros1hmio1iais2ble2das3io3or4s2gan4s2mos2ran4s3ia2slo0oiste1jala4e4o2ead4n4r4s3en4s3os3ra3te2ito3va2osa4o3ta2uda4o1lais3je2ead4n4r4s3en4s3is3os3ra4e0olian4s3da4o3os3va4e4o2lao4r4s2mas3os2ote2ura1mani3so2bus2ega3ro3ya2ina4e4o3sa4o3ta4e4i4o2oto1ncea0oncee4o4s2das3ea4e4o3ra2ece4i2ice2oto2zas1paca4o3da4o3lo2era4e4o2ila4e4o3ma4o3na4e4o3os2one2tad0optan4r4s3en4s2use4o1raba3da4o3is3je3le3ra4e3se3te2bes2cas3en4s3os2ead4n4r4s3en4s3is3os3ro2fos0orfre2gia2ibe3es3na4e4o3ol3ve2lad4n4r4s3en4s3os2nad4n4r4s3ea4e4n4o4s2oya2tos2uga3jo2zad4n4r0orzas1saba3da4o3is3ra4e3se2cas3os2ead4n4r4s3en4s3is3os3ra4o3ta2mio2osa4o2tas3ia3ra4o2uda4o3na4o0otate2ead4n4r4s3en4s3ro2ila4e4o2oba3ña4e4o2ras3es3is3os1vaba3da4o3is3la4e4o3ra4e3se2eis3ra4o0ovido3na4o2nis2olo3sa4o2ula4e4o1xead4n4r4s3en4s2ida4e4o1yera4e3se1zena2ona4o0pacae4s4y3ed4n4r4s0pacha4o3ia4o3on4s3ta4e4o3us2fia4o2gad4n4s3el3os3ro3ua4e2hua2ico3la3na3ra4e4o2jar4s3ea4e4l0pajeo4s3il3la3on4s3uz2las4y3ca4o3ea4e4o4s3ia4e4o4s3la4e4o3me4o3on4r4s3pa4e4i4o3ta0palto2mba3pa3ue2nal4s3ca4o3da4o3el4s3ga3ji3os3sa3ty3ul3za2pad4l4n4r4s4z3ea4e4n4o4s3in3on0papos3ua4s2rad4l4n4o4r4s3ca4e4o3da4o3ea4e4l4n4o4s3go3ia4d4o4r4s3la4e4o3ne3os3pa0parpe4o3ra4e4o3si3ta4i4o3va4o2sad4n4s3co3ea4e4n4s3il3ma4e4o3os3pa4e4o3te4o2tan4o4s0patax4y3ea4e4o4r4s3in4o4s3on4s2uji3la4e4o3se4o3ta4e4o2vas3es3ia3on4r4s2xte2yad4n4r4s0payen4s3os2zca4o3os2ñal3il3ol4s1eais3je3la4e4o3na3ña2bre2cad4n4r4s3es3ha4e3io3ta4e4o2dal3ia4d0pedio4s3os3ro2eis3ra4e2gad4n4s3on4s3ue2ian4s3do3na4o2jes3in2lad4n4r4s3de3ea4e4n4o4s3is3la0pello3ma3on4s3ta3us3vi2mon2nad4l4n4r4s3ca4o3da4e4i4o3en4s3is3ol4s3sa4e4o2ora2pas3es3la4o0pepon3us2que2ral4s3ca3de4i3is3le4o3na4o3ol4s3ra3sa3ta3us2sad4n4s3ce4o3en4s3ga4o3ia3ol4r4s0peste2tad4n4r4s3en4s3os3ra2uco3mo2zon2ñas3ol4n4s1iaba3da4o3fa4e4o3is3la4e4o3ra4e3se2bas3es3il0picad4l4n4s3ea4o3ha4e4i4o3on4r4s3uy2dan4s3en4s3io3on2eis3jo2fas3ia4e4o2gra4e4o3ua2hua2jas0pijes3in3os3ul4y2lad4n4r4s3ca3en4o4s3la4e4o3me3on4s2nal4r4s3ce3es3ga4o3na3ol4s3te4o3za0pinzo2ojo3la4e4o3na2pad4n4r4s3en4s3ia4e4l4o4s3on4s2que2rad4l4n4r4s3ca4o3en4s3la3on4s0pirra4e4i4o3ul4s2sad4n4r4s3ca4o3en4s3on4s3pa4e4o3te4o2tad4l4n4o4r4s3ea4e4n4o4s0pitia4o4s3on4s2ula4e4o3ne3re2vot2xel2zca4o3za2ñal4s3en3on4s1laca4e4i4o3ga4o3na3ye4o3zo3ña4e0plañi4o2ebe3ca3ga4o3na4o3on3pa3xo2ica3sa4e4o2oma4e2ugo1obla4e4o3os3ra2cas3ha4o3os2dad4l4n4r4s0poded4n4s3ia4o3on3ra4e2ino3sa4e2lar3ca4o3ea4n4o4x3in4o4r4s3la3os2mar4s3ez3os3pa4o2nci3ed0ponen4s4y3ga4o3ia4s3to2pad4n4r4s3el4n4s3os3ti2rco3ga4o3no3os3ra4o3ta4e4o2sad4n4r4s3ca0posea4e4i4n4o4s3ma4o3on4s3ta4e2tad4n4r4s3ea4e4n4o4s3os3ra4o2yad4l4n4r4s3en4s3os0pozal4s3ol4s1rado3os3va4o3za2ear4s3da3sa4o4t3ve4i3ña4e4o2ima4e3on4r3va4e4o2oal4s3ba4e4o0proco3el3fa4e3is4z3le3na4o3ra3sa2una4o1sies1uaba3da4o3is3ra4e3se2ber4s3is2cha4o3ia2din4o4r3or3ra0pudre4i4o3us2eda4e4o3is2fos2gas3il3na4e4o2jad4n4r4s3en4s3os2lan4s3en4s3ga3ia4d4o4r4s3la0pulle4o3pa3sa4e4o2mas3ba2nan4r4s3ce3en4s3ga4e4i3ia4d4o4r4s3ja4o3ta4e3za4o2pad4n4r4s0pupen4s3os3us2ras3ea4e4o4s3ga4o3in3os3ra4e4i4o2ses3pa4o2tal4s3ea4e4o3on4s2yad4n4r4s3en0puyes3on4s2zle3ol2ñal4r3ir3os1ymes0queco3da4e4o3ja4e4o3ma4e4i4o3na3pa4i4o3ra4e4o2ias3en4r3fs0quijo3la4o3ma4o3na4o3os3pa4u3sa4e4o3ta4e4o4u3vi3za3ña4e4o0rabal4s3ea4e4l4o3ia4e4l4o0rabis3on4s2cea4e4l4o3ha4e4o3or4s2dal4r4s3es3ia4e3on2eis3ra4e2fal4s3ea4e4o4s4z3ia2gua4s0rahez2ian4s3ce3da4o3ga4o3jo3za4o2jad4n4r4s3en4s3on2las3ba4e4o3ea4e4o3la4e4o4y3os3va4e0ralvo2mal4s3ea4e4o3io3on4s3pa4e4o2nas3da4s3go3os2pad4n4r4s4z3en4s3os3ta4e4o2que2ras3ea4e0rareo3os2sad4n4r4s3ca4o3el4n4s3ga3is3os3pa4e4o2tas3ea4e4o3io3os2uca4o3da4o3li3ta2yad4n4r0rayas3en4s3on4s2zar4s3ia2ñas3os1eaje3la3ma4e4o3ra4e4o3ta4e4o2bla4e4o3ol3us2cae4i3el4n4s3ia0recio3le3re3ta4e4o3ua2dad4n4r4s3el4n4s3il3ol4r3ro2fez2gad4r4s3ia4d4o4r4s3le4o3ue2haz3en0rehui4s2ian4s3da4o3la4e4o3ne4o3ra4e2jal4s3in3on4s3us2lax3ea4e4i4j4o4s3sa4o3va4e4o2mad0reman4r4s3en4s3os2nal3ca4o3da4e4i4o3es3ga4o3il4o3os3ta4e4o2oca3jo2pon4s3ta4e4o2sal3es3ma0resol3pe3ta4e2tad4l4n4r4s3el4n4s3in3or4s3ro2uma3na4e4i4o2vea4d4n4o4r4s3io2yad4n4r4s0reyen4s2zad4n4s3no3on4s2ñia4d4r4s1iada3is3ta2bas2cas3en4s3ia4o3os2ega4o3la4e4o3ra4e3se2fad4n0rifar4s3en4s3le2gen4s3il4o3or3ua4e2jan4s3os2lad4n4r4s3en4s2mad4n4r4s3el4n4s3us2nda4e4o0ringa4o2oja2pia4e4o2sas3ca4o3os3pa4e4o2tma4e3on4s2val2zad4l4n4r4s3on4s2ñan4s3en4s3on1oais3na0roano2bad4n4s3da3en4s3in3la4e4o3os4t3ra4e2cas3ea4e4n4o4s3ha4e4o3ia4e4n4o3os2dad4l4o0rodas3ea4e4o3ia4l4o3os2eis3la3ra4e3te2gad4r4s3os3ue2ian4s3da4o3ga4o2jal4s3ea4e4o4z3os2lad0rolan4r4s3da4e4o3en4o4s3la4e4o3os2man4s3bo3ea4o3in4s3os3pa4e4i4o2nca4e4o3da4e4o3es0ronza4o2pas3on2que2rad4n4r4s3en4s3ro2sal4n4r3ca4o3ea4e4n4o4s3jo3on4s3ta4e4i4o2tad4l4n0rotar4s3en4s3or4s2uge2yan4s3os2zad4n4r4s3na4e4o3on4s2ñad4l4n4r4s3en4s3ia1uaba3da4o3is3na0ruano3ra4e3se2bea4o3ia4n4s3lo3or3ra4o2cad4n4r4s3ha4e4o3ia4o3os2das3os2eca3de4o3ga4o3is3jo0rueño2fas3on4s2gad4n4r4s3by3en4s3ia4d4o4r4s3ue2ina4e4o2jan4s3ia4e4o2lad4n4r4s3en4s3os0rumba4e3ia4e4o4s3or4s2nas3es3ga4o3os2pia2que2ral3ru2sas3co3el4s3ia3os3ta4e4i4o2tad4n4r4s3el0ruten4s2ñad4n4r4s3en4s3ia4d4r4s0sabea4d4n4o4r4s3ia4o4r3le3ra4e2cad4n4s3es3ha4e4o3ia0sacie4o3on4s3ra4e4o2eta4e4i4o2fir2gas4z3us2ina4e4o2jad4n4r4s3en4s3ia3on2lad4n4r4s4z3ce0salda4e4o3ea4e4n4o4p4s3ga4o3ia4d4n4o4s3la4e4o3ma4e4o3ol4n3pa3so3ta4e4o3va4e4o0saman4s3ba4o3ia4o3pa2nad4n4r4s3co3ea4e4n4o4s3go3ie3ja4e4o3os3sa4o3ta2pas3ea4e4o3os2que0saran4o3da4e4o3ga4o3ia4s3na3ro3ta3za4o2sal2tan4s3en3in4s3os2uce4o3di3na2via2xea4o3os2yal4s3on0sayos2zon2ñas1eais2bes3os2cad4n4s3on4s3ta3ua2dad4l4n4r4s3ea4e4n4o4s2gad4r4s3ri3ue4i4n4r2ibo0seico3se2jes2les3la4e4o2mas3en3is2nas3da3es3il3os3ta4e4i4o2ora2pan4s3es3ia3to2que2ran4s3ba4o3es3ia0serie4o3na3on3pa3ra4e4o3vi4o2sea4e4n4o4s3ga4o3il4s3ma4o3os2tal4s3os2xad4n4r4s3en4s3ma0sexmo3os3ta4o2ñas1hort2uar1ibil2clo3us2das3ra2ega4o3na3so2fon3ue2gan4s3la3ma3na4e4o3ua4e2jes3us2lba4e4o0siles4x3fo3ga4o3os3va2mas3ia4l4o3on3pa3un2nga4o3os2oux2pes2que2ras3ga4o3ia4n4o3le3os3te3va4e4o0sisad4l4n4r4s3ca3ea4e4n4o4s3mo3on2tas3ia4e3os3ua4e4o1oasa4e4o2bad4n4r4s3en4o4s3on4s0sobra4o2cas4z3he3ia4o3ol2das3io2eza2fas3is2gas3un2jas2lad4s4z3da4e4o3ea4e4n4o4r4s3fa3ia4o3la0sollo3os3ta4e4o2mas3os2nad4r4s3da4e4o3es3io3sa4o3ta4o2pad4n4r4s3ea4e4n4o4s3ie3la4e4o0sopon4r2rba4e4i4o3ce3da3es3go3na4e4o3or4s3ra2sal4r4s3ia3os2tad4n4r4s3en4s3il3ol4s2voz2yas0soñad4r4s1port2ray1tand1uaba4o3ta4o3zi2ban4s3en4o4s3ia4d4o4s3te2che3ia3os3re3us2dad4n4r4s3en4s0sudor2eca4o3la4e3na4e4o3ro3va4o3ña4e2fis3ra4e4i4o2ido3ta4e3za4o2las3co3la2mad4n4r4s3en4s0sumia4d4o4r4s3os3us2nca4o2per3la4e4i4o3on3ra2ral4s3ca4o3da4e4i4o3es3fs3ge4i3is3ja4o3ta0surte4i4o2ses3to2tas3es3il2yas3os2zon0tabal4s3ea4s3is3le4o3on4r4s3us2car4s3en4s4t3ha4e4o3on4s0tafia3on4s3ur2gua2has3ur2ifa3ga3ma4e4o3na4o3pa3ra4e3ta2jad4n4r4s3ea4e4n4o4s3in3on4s3us2lad0talan4r4s3co3ea4d4n4s3go3in4o3le4o3ma3on4s3pa3ud2mal3ba4o3il4z3os3ul2nas3ca4o3da3es3ga4e0tangi3ja4o3or4s3ta4o3za2pad4n4r4s3ea4e4n4o4s3ia4e4n4o4r4s4z3on2que2rad4n4r4s4y3ca0tarco3da4o3ea4n4s3in3ja4e4o3ma3ot3ra4o3so3ta2sad4n4r4s3ca4o3en4s3ia4o4s3to2tas4y3os3ua0tatue4o4s2uca4o3la3ro2xis3on2yos3ul2zad4n4r4s3on2ñad4n4r4s3ed4n4r4s3ia3os1eame2bea4o2cas3es3ha0teche3le4o3ol2das3io2fes2gea4o3ua4e2hul2ina2jad4n4r4s3ed4n4r4s3ia4o3on4s2lar4s3es4x3on2mad4n0temar4s3ed4n4r4s3ia4o3po3us2nas4z3ca3de4i3ed4s3ga4o3ia4o3or3sa4e4o3ta4e4o3ue2osa4o2pes0tepus4y2que2rca3ma4o3na4e4o3os3sa4e4o2sad4n4r4s3en4s3is3la3on4s3ta4e4o2tad4n4r4s3en4s0teton3ra4o2xes3to2yas3os3us2ñas3ia4d4r4s1iaca3ra2bar3es3ia4e4o3or2cas3os2ene3sa4o2fas3on4s3us2gra3ua0tigue2jas3os3ul2las3da4e4o3es3ia4n3la4e4o3ma3os2mad4n4r4s3ba4o3en4s3ol4n4s3pa2nas3ca4o3ea0tineo3ge3os3te4o2pas3is3le3oi4s4y2que4i2rad4n4s3en4s3ia4o3on4s3ro3so3te2sis3te3us2tad4n4r4s0titea4e4n4o4s3il4s3os2zas3na4e4o3on4s2ñan4s3en4s1laco1oaba3da4o3is3ra4e3se2bar4s2cad4n4r4s0tocen4s3ha4e4o3ia4o3on4s3te2das3ia3os2eis3sa2fos2gan4r4s3ue2jal3os2las3da4e4o3es3la4o3mo3on3va0tomad4n4s3en4s3in3on4s2nad4l4n4r4s3ca3do3el4n4r4s3ga4o3os3ta2pad4n4r4s3ea4e4n4o4s0topia4l3on4s2que4i2ral4s4x3ca4e4i4o3da4o3ea4e4o4s3ga4o3il4o3mo3na4e4o3on4s3pe3ra4o0torso3ta3va4o2san4s3ca4o3ed4n4r4s3ia4o3ta4e4o2tal3em4s3is3ol2vas2zad4l4n4r4s3os2ñas3il1raba0trabe4o3ca4e3ed4n4r4s3fa3ga3ia3jo3ma4e4o3pa4e4o3ro3ta4e3vo3za4o2ebo3ce3fe3ja3ma4e4i4o0trena4o3os3pa4e4o3ta2iad4l4n4r4s3bu3ce3en4s3ga3le3na4e4o3os3pa4e3sa4e4o3za4o2oca4e4o0troja4e3la4e3na4e4o3pa4o3ta4e4o3va4e4o3za4o2uca4o3es3fa4e4o3ja3sa4t1uani2bas3os2can4s3ia0tucos3un2das3el2eca4o3ra4o2fea4e4o3os2ina2lar3es3io3la4e4i4o3pa2mbe4o3or4s2nad4l4n4r4s3ca4o0tunda4e4i4o3ea4e4l4n4o4s3jo3os3ta2pan4s3en4s3ia4d4n4o4r4s3os2rar3ba4e4o3ca4o3ma3na0turne3on3ra4e4o2sad4n4r4s3ca4o3en4s3on4s2tas3ea4e4o4s3ia3or4s3us2yas3os2zas0ubica4o3es3os2res0ucase2hus1ebos1fana4e4o1gres1jier2ule1laga3la3no2ema2pos2tra2uas3la4e4o1mbra4o2ero1nais2cen4s3ia4d4o4r4s2gen4s0ungia4d4o4r4s2ian4s3ca3da4o3ra4e2jan4s2tad4n4r4s3en4s3os2zan4s1paba3da4o3is3ra4e3se2eis2upa0uraos3pe3to2bes2cas3es2dan4s3en4s3ia4d4o4r4s3us2eas2gen4s3ia4d4o4r4s2ica4o2jan4s2nas2tas2ubu3cu0uruga1saba3da4o3is3je3ra4e3se2eis2gos2ias3er3na2ted2ual3ra4e4o1tero1vada3te2eas3ra4o2iar2ula1ñada4o3is3te2era0uñere4o3se3ta2ian4s3da4o3ra4e2osa4o2udo0vacad4n4r4s3ia4e3os3ua4o2dea4e4o4s3os2fea4e4o2gad4n0vagar4s3on4s3ue2had4n4r4s3ea4e4n4o4s3os2ida3na2jea4e4o2lar3ed4n4r4s4t3ga4o3ia4o4s3la0vallo3on4r3sa4e4o3ua4e4o3va2mos2nas3ea4e4o3os2que2rad4l4n4r4s3ea4e4n4o4s3ga3ia4e4o4s0variz3on2sar4s3ca4o3os3ta4o2ter4s3io2yan4s1eais2cen2dad4n4r4s3en4s2gas2ian4s2jad4n4r4s3en4s2lad0velan4r4s4y3en4s3is4z3lo3on4s4z2mos2nal4s3ce4i3da4e4i4o3ga4o3ia4d4r4s3te4o3us3za4o0veran4s4z3ba4o3es3ga4e3ia4l3ja3me4u3os3sa4e4o3te4i2ste4i2tad4n4r4s3ea4e4n4o4s3on4s0vezad4n4r4s1iada3ja4o2bra4e4o2cha4e4o4y3ia4e4o3os3to2das3eo4s3on3ro2eja3ne3ra4e3sa4e2gas3ia0vigie4o2les3la3os2mos2nal4r3ca4o3os3ta2ola4e4o2rad4l4n4r4s3en4o4s3go3il4o3ol4n2sad4n4r4s0visco3ea4e4n4o4s3ir3on4r4s3te2tad4l4n4r4s3en4s3or4s3re2udo2vac4d4n4r4s4z3en4s4z3ia0vivid4o4s3on4s2ñas1oace2cal3ea4e4o4s2dca3us2ila2lad4s3ca4o3ea4e4o3on3ts3ve4i4o2mer2raz2sea4e4o0votad4n4r4s3en4s3os3ri2zna4e4o1udus2ela4e3sa4o2lgo3to3va2sco0xecas2non1inca2ote1olas3os0yabas2cal4s3ed4n4r0yaces3ia4o3on2gan4s3ua2iti2les2mao3bo3pa2nas3ta4e4o2pad4n4r4s3en4s3us2que4i2rda3es4y3os2tai4y3es0yayas3os2zca4o3ga4o1ebos2cos2dgo3ra2gua2lgo3mo2mas2ndo3es3te2ral3ba3ga4o3ma4e4o3na4o3os3ra4e4o3si3ta0yerto3vo2sal4r3ca3on4s2tis2yes3os2zgo1inas3es2ras3os1odad4n4r4s3en4s3os2gar4s3os3ui4r2las2qui2ris2ses2yos0yucal4s3pa2dos2gos2mba4o2nga3ta4o2ras3es2tas3es2yal3os0zabra4o2cas3ea4e4o2des2fad4n4r4s3en4s3ia4o4r0zafon4s3ra4e2gal4s3ua2hen3on2ida3na4o2jon2las3ba4o3ea4e4o3la4e4o2mba4o3pa4e4o2nas3ca4o3ga3ja0zanje4o2pad4n4r4s3ea4e4n4o4s2que2rbo3ca4o3es3ja3pa4e4o3za4o2tas2yas2zas3os1ebra2das2gri2ina2jel2nda0zendo3es3it2tas1incs1ocad4n4r4s3lo3os2fra2ilo3zo2lle2mas3bi3os3pa4o2nal4s3da3ta4o3za4o2pas3es3os2que2rra0zotal3es3ol1uavo2bia2das2eca4o3la2iza2lla4e4o3us2mas3ba4e4o3os2nas3za2pia2ras3ba3ce4i3da4e4i4o3ea4e0zureo3os3ra4e4i4o3za4o2zar3on2ñan4s3en4s3ia4d4r4s3os0ñajas3os2mes3pi2ndu3ga4o2pas2que2tas3ea4e4o0ñatos2ñas3os1ecas3la3os2nga4o2que1inga2pes2que2res2sca2zca1ocas3ha3lo3os2las2nga4o2qui2ras3bo3es2ñas3ez3os1ublo2cas3os0ñudos2rda4o2tas3os2zco";
@@ -0,0 +1,2 @@
+export const words =
+  "4|0abad3r2es3y2ia2ra3e3i3o2ur1cal3s2hi2le2me2ne2re2ta3o1dan2ia3e3o3r2or2ra3e3o2ul1eda3o2ta0afan3z2ea3e3o3r2in2ra3o2ta1gil3o2ra3e3o2ue3o3r1ina2ra3o2sa2te1jad3n3r3s2ea3e3n3o3s0ajis2os1lan3r3s2ba3o2ca3e2ea3e3f3o2fa3e3o2ga3o2ia3e3m3o3s2la3i3u2mo2na3o2oe3n2ua0alud2za3o1mad3n3r3s2bo2el3n3s2ia3n3r3s2ol3s2po1nal3s3y2ca2de3o2ea3e3o2gu2is2oa3n3s0ansa3i2ta3i2ua3o1oja3e3o2va3e3o1pea3e3o3x2io3s2on3s2ta3o2ud1que3i1rad3n3r3s2ca3e3o0arda3e3i3o2ea3l3n3s2fa3e3o2ia3o2la3e3o2ma3e3o2na2on3s2pa3e3o2ra3e2ta3e3o1sad3n0asar3s3z2ca3o2ea3e3n3o3s2ga3o2ia3d3n3o3r3s2ma2na3o2pa3e3o2ta1tad3l3n3r3s2ea3n0ateo3s2oa3e3l3o2un1uca2ge2la2na3e3o2pa3e3o2ra2to1val2en3s2ia3e3o2ol1xil3s2on1yas3u2ea3e0ayeo3r3s2me2os2ua1zar2oa3e3o3r3s2ua3d3l3r3t1ñal3s2il3r2os0baba3i2ca2da2ga3o2ja3e3o2la0bale3o2os2ri3n3o2sa3o2ta3e3i3o2ul2ya3o3u2za3o2ña3e1eba3e3i3o2ca3o2fa3e3o2is2la2sa0bese2ta2zo1ibi2ci2de2es2fe2ga2ja2le2na3e3o2ra3o2sa3e3o2ta3e3o3s2za1lao2es2oc1oas2ba3o2de3y0boer2fa3e3o2ga3o2il2ja3e3o2li3o2na3o2om2ro2te3o2us2ya3e3o2za3o1ran2ea3e3n3o2in3o2oa0brut1uas2ba3i2ce3o2da2en3s3y2fa3e3o2ho2je3o2la3e3i3o2na2ra3i3o2so2yo2za3o1yte0cabe3o2ca0cace3o2di3o2ed3n3s2ga3o2ia3d3s2ji3o2la3e3i3o2na3e3o2os2pe3i3o2ri3o2se3i2ta3e3o0cauz2va3e3i3o2ya3o2za3o2ña3e3i3o1eas2ba3e3o3u2ca2da3e3i3o2fo2ga3o2ja3e3o2la3e3o0cema2ne3i3o3t2os2pa3o2ra2sa3e3o2ña3e3i3o1hai3l3n3o3s3u2ef3s2ia3c3e3i3n3o3p3s0choz2ua3j3s3t3z1iad3n3r3s2bi3o2ca2es2ja2ma2na3c2os2pe3o2te3o2ña3e3o1lac3n2ic3n3p2oc0clon2ub1oas2ba3o2ca3e3i3o2da3o2fa2ge3i2is2ja3o2le3o2mi2no2pe3o2ra3e3i3o2se3i3o2ta3e0coti3o2va3e3o2xa2ya2ña3o1rac3n3s2ee3i3p2ia3c3e3n3o2oa3e3l3n3o2up1uan2ba2ca3o3u2es0cuin3s2ja3e3i2li3o2ma2na3e3o2pe3o2re3i3o2sa3e3i3o2ta3e3i3o2ya3e3o2za3o2ña3e3o0daba2ca2da2ga2is2la2ra3e2ta3e3o2za2ña3e3o1eal3n3s2ba3i3o2ci2is2ja3e3o2le2mo2sa3e3o1ial0dias3y2ez2ga3o2je2ma3e3i3o2na3o2ra3e2ta2va3o2ña3e3o1oca2do2ga3o2la3e3i3o2ma3e3o3s0dona3d3e3o2pa3e3o2ra3e3o2ta3e3o2ña1rea2ia3l1ual3s2ba2co2de3o2go2ho2jo2la2ma3e3i3o2na0duos2ra3e0echa3e3o2os2ua3o3s1den2il2ra3e3o1fes2od1gos1ira1jem3s1les2fo2le1mes2ir2us1nde2ea3o3s2ta0ente2za1pos1rad3l3r3s2en2go3s2ia3o2os2ra3e3o1sas2ca2er3s2os1tas2er1uro1vos1xir1ñes0faba3o2ca2da3o0fago2ja3e3o2lo2me2no2ra3o2so2ta3o2vo2ya2ña3e3o1eas2je2ma3e3o2os2ta3o1iad3n3r3s3t2ce2da0fido2el3n3s2fa3e3i3o2go2ja3e3o2le3m3o2mo2na3e3i2to2us2za3o2ñe1lan2eo2or2ui3x1oco2fa3o0foja2me2na3o2ro2sa3e3o2ya1rac3y2ei3o3y3z2ia3e3o3z2ui1uco2el3r3t2fa3e3o3u2ga3o2ir2la0fuma3e3o2ra3o2sa3o0gafa3e3o2ga3o3s2is2je3o2la3o2ma3o2ne3g3o2on2ps2ra3o2sa2ta2ya3e3o0gaza2ña3e3i3o1eas2la3e3o2ma3i2no2os2ta1iba3e3o2ga2la3i2ma3e3o2re3o1las2ia1oce2da3o2fa3o0gogo2ja2la3f2ma2ng2ya3o2za3o1rao3y2es3y2oa3e3g3o3s2ua3i1uao3s3u3y2ey2ia3e3n3o2ja2la0gura3i3o3u0haca2do2ga3o2la3e3l3o2mo2ra3e2to2vo2ya3o2za1ede3i2la3e3o2no2ri2ñi1ice3o2el2ga0higo2la3e2pa3e3o2ta3e3o2zo2ña3e3i3o1obo2ce2go2me2pa3e3o2to2ve2ya3e2za3o1uao2be2ia3d3r0huis2la3e3o2ma3e3o2na3o2pe2ra3i2so2ta2ya3e3o0iban3s2is2on1cen3s2ho3u2or1das2ee3m3o2os2us0iglu1jar1leo1mam3n1nca2da3o2ga2ri2ti1ota1pil2si1ran3s2es2ga3o2ia3l3s1sas2ba1tem1xil1zad3n3r3s0jaba3i0jaca3o2da3e2en3z2is2la3e3o2ma3e3o2ne2ra3o2sa3e3o2ta3e3o2ul2va3o2zz2ña3o1eas2be2da3e0jedo2fa2me2ra2ta3e3o1ibe2co2es2fa2ga2ma3e3o2ne2pa3i2ra2ta3e3o2ña3e3o1obo2co2da3e3i3o2pa0jope3o2ra2sa2ta3e3o2yo1uan2ba3o2ca3o2do2ey3z2ga2lo2ma3e3o2pa2ra3e3o2si2ta2ña3e3i3o0labe0laca3e3o2da3y2is2ja2ma3e3i3o2pa3o2sa3o2te3i3o2ud2ve3o2xa3e3o2ya3e3o2za3o2ña3e3o0leal3n3s2co2da3o2ed3n3s2ga3o2ia2ja2la3o2ma3e2na3e2os2ra3o2sa3o2va3e3o3s2yo2ña3e3o0liad3n3r3s2ba3e3o2en3s2ga3o2ja3e3o2la3o2me3o2no2os2pa2ra2sa3o2ta3e3o2za3o2ña3o1lar0load3n3r3s2ba2ca2en3s2la3i3o2ma3o2na2or2ra3d3o2sa3e3o2ta3e3o2za1uas2ca3e3i3o2da3e0ludi3o2es2ia3d3r3s2ja3e3o2lo3u2ma2pa2sa3o2to2xa3e3o2ya3e3o0mabi2ca3e3h3o2ga2iz2ja3e0majo2la3i2me3o3s2na3e3i2po2ra3o2se3o2te3o2ya3e2za3o2ña3o1ead3n3r3s2ca3e3i3o2da3i0medo2en3s2ga3o2ja3e3i3o2la3e3o2ma3o2na3e3o3u2on2ra3e3o2se3o2te3i3o2ya2za3o1iad3n0miar3s3u2ca3o2da3e3o2en3s2ga3o2jo2li2ma3e3o2ne3o2os2ra3e3o2sa3e3o3s2ta3o2za3o1oai0moca3o2da2er2fa3e3o2ga3o2ho2ja3e3i3o2la3e3i3o2mo2na3i2pa2ra3e3i3o2ta3e2ve3i2xa2ya0moyo2za2ña3o1uca3o2da3e3o2er3s2fa2ga3e3i3o2ia3d3r3s2ja3o2la3e3o2na2on2ra3e2sa3e3i0muso2ta3e3o2ya3e3o2ña3e3i3o0naba3i3o2ca3e3i3o2de3i2if2ja2na2os2pa2sa3o2ta3o2va2zi1eas0nebi2ga3o2is2ja3o2ma3e2na3e2on3s2pe2ta3o2va3e3o2xo1ial3s2el3s2pa2to1oca2do2li2ma3e3o2na0nono2te3o2va3e3o2xa2yo1uca3o2da2la3o2mo2ño0oboe3s2re3o2ue3s1cal3s2ia3e3o2le2ra3e1das2ia3e0odre1gro1hms1ian3s2da3o2ga3o2ra3e1jal3r2ea3e3n3o1lea3d3e3o3r3s2ia3o2la2ma3o2or1mbu1nas2de0onix2za1pas2en2io2on2ta3e3o2us1que1rad3l3n3r3s2be2ca3e3o2ea3e3n3o3s2fo2in3s2la3e3o2na0orne3o2on3s2to2za3o1sad3n3r3s2ca3o2ea3e3n3o3s2ta3e1tar2ea3e3o2os2re3i1vad3l3n3r3s0oven3s2ia3l3o2ni2os1xea3e3o2te1yen3s0paca3e3i3o3u2ga3o2is2ja3e3o2le3i2na3o2pe3o3u2re0pari3o2sa3e2te3i2ul2va3o2ya3e3o2zo2ñi3o1che3s1eal3n3s2ce3h3o2di3o2ed3n3r3s2ga3o2ia0peje2la3e3u2ne3i3o2on3r2pa3e3u2ri3o3u2se2ta3e3o2yo2ña3o1iad3l3n3r3s2ba3e2ca3o2da0pide3o2en2ja3e3o2la3e3o2na2on3s2pe3i3o2ra3e3o3u2sa3e2ta3e3i3o2us2ña3o1les2im3n2us0poas2bo2ca3h2da3e3o2ma3o3s2ni2pe3o3s2ra3o2sa3e3o2ta3e3o2ya3e3o2za1rao2ea3s3z2oa3s0puad3n3r3s2de3o3u2en3s2fo3s2ga2ja3e3o2la3e3i3o2ma2na3e3i3o2pa3e3o3u2ra3e2se3o0puta3o3s2ya3e3o2ño1yme0queo2ia3d3f3n3o3s0raba3i3o2co2da2ed3n3r3s2fa3e2gu2ia3l3n3z2ja0raje3o2la3o2mo2nd3o2pa3e3o2ra2sa3e3i3o2ye3o2za2ña3o1eas2ce2da3e3o2ga3i3o2ia3d3r3s0reja3o2le2ma3e3o2ne3o2os2po3s2se2ta3e2ve3i2ya3e3o2za3o2ñi1ial3n3s2ba2ca3e2el3n3s2fa0rife3o2ge2ja3o2la3e3o2ma3e3o3u2ng2os2so2ta3e3o2za3o2ña3e3o1oan3s2ba3e3o3s2ce3o2da0rode3o2ed3l3n3r3s2ga3o2ia2ja2la3e3o2ma3i3o2ra3e3o2se3o2ta3e3o2ya3o2za3o2ña3e3o0ruad3n3r3s2bi3o2ca3o3s2da3o2en3s2fa3o2ga3e3i3o2in2ja3o2la3e3o2mi3o2na3o2sa3o2te0ruto2ña3e3i3o0saca2ga3o3u2hs2in2ja3e3o2le3i3o2ma2na3e3t2os2pa2ri2ta3o2uz2xo2ya3o2ña1ean0seas2be3o2ca3e3o2de3o2er2ga3o2je2ma2na3e3o2or3s2pa3e2re2si3o2ta3e3o3s2xa3e3o3y2ña0sian2cu2da2en3s2ga3o2ju2lo2ma2no2pe2ra3o2sa3e3o2ta3o2us1lip1oba3e3o2ca2da2ez2fa3i2ga2is2ja0sole2ma3o2na3e3o2pe3o2ra3o2sa3o2ta3e3o2ya2ña3e3o1pot1uba3i3o2co3u2da3e3o2fi2la2me3i0sumo3u2pe3o2ra3f3i2so2te2ya3o0taba3i3o3u2ca3e3o3s2el2fo2ha2ja3e3o3u2la3e3o2mo2na3o0taos2pe3o2ra3e3o2sa3e3i3o2ta3e3o3u2us2xi2yo2zo2ña3e3i3o1eas2ca2da2fe2ja3e3i3o2le3l0teme3i3o3u2na3e2pe3u2ro2sa3e3o3t2ta3e3o2ul2ya3o3u2ña3i1ias2be2ca3o3s2fa3o2ja3o2la0tile3o2ma3e3o2na3o2os2pa3i3o2re3o2su2ta3e3i3o2zo2ña3e3o1oad3n3r3s2ba2ce3o2da2en3s0tofo2ga3o2jo2la3e2me3o2na3e2pa3e3o3s2ra3y2sa3e3i3o2te3i2ur2va2za3o2ña1rae3s2eo2ia3e0trio3s2oj3l3x3y2ue3n1uba2ca3o2da2fo2is2le2mo2na3e3o2pa3e3i3o3s2ra2sa3e3o2ta3e3o3u0tuve3o2ya2za0ubes2io3s2re1ced2hu2is1gre1lpo2ua1mju1nan2ce3i2en3s2ge3i2ia3d3o3r3s2ja3o3u2ta3e0unto2za3o1pad3n3r3s2en3s1rao3s2be2ca3e2da3e3i3o3u2ea2ge3i2ja3o2na2os2ta1sad3n3s2en3s0usgo2ia2os2te1tas2il1val2ea3s2is1ñan3s2en3s2ia3d3r3s0vaco2de3o2fo2ga3o2ha3e3o2is2li3s2na3o0vara3e3i3o2sa2te2ya1ean3s2ce2da3e3o2er2ga2ia3s2ja3e3o2le3o2ni2ra3e3o2ta3e3o2za3o1ial0vias2co2de2ga2lo2ne2ps2ra3e3o2sa3e3o2ta3e3o2va3e3i2ña1odu2la3e3o3t2sa3o2ta3e1udu0xeca1ies0xola3o0yaba2ca3e3i2ga3o2le2na3g2pa3e3o3u2re3o2ya3o1ebo2co2ro2so2ti2ye3o1ina2ra3o1oda3e3o0yoes2ga3o2la2ri2yo1uan2bo2ca2do2go2re2so2ta3e2yo0zaca2de2fa3e3o2ga2la2na2pa3e3o2ta2ya2za3o1eda0zeta1inc1oca3o2ma3o2os2pa3e3o2te1uas2da2lu2ma3s2na2ra3o2zo2ña3e3i3o0ñaja3o2me2pa2ta3o2ña3o0ñeca3o1ipe2re1oca3o2la2ra2ña3o1uca3o2do2es2ta3o";
@@ -0,0 +1,12 @@
+import { words as Two } from "./two";
+import { words as Three } from "./three";
+import { words as Four } from "./four";
+import { words as Five } from "./five";
+import { words as Six } from "./six";
+
+// The rest of the Spanish words, from the an-array-of-spanish-words package
+// with the accents taken off (but not the tilde on the ñ).
+// They're packed with `packWords` like the English ones. Run
+// `npm run puzzle -- unpack-words --length N --locale es` to get one back as
+// a list, and `pack-words --locale es` to put it back after editing it.
+export const words = [Two, Three, Four, Five, Six];
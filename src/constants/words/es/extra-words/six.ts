@@ -0,0 +1,2 @@
+export const words =
+  "6|0ababas4ol3cal5s4ha5e5o4os3das4es4ia5s3jad5n5r5s4en5s3lad5n5r5s4ea5e5n5o5s4la5e5o3nad5n0abanar5s4da4ea5e5n5o5s4os4to3rca5o4se3sis4ta5e5o3tan5s4en5s4ia5d5o5r5s3zon3ñad5n5r5s4en0abañes2dica5o2eces3dul3jar5s4ea5e5o4on3lda5e5o3nuz3rra5e5o3son3tal5r4es4os3yes2icha5e5o3ete3geo3nad5n5r0abinas4en5s3pon3sal4ma5e5o3tad5n5r5s4en5s4on2jura5e5o2lano2nega5o2obad5n5r5s4en5s4ra3cad5n5r5s0abofan5r5s4en5s3gad5n5r5s4ue3lia5d5o5r5s4la5e5o4sa5e5o3mba5e5o3nad5n5r5s4da5e5o4en0abones4os3que3ral4da5e5o4ra5e5i5o4so4ta5e5o3yad5n5r5s4en5s3zos2raca5e5o4is4sa5e5o4za5o3ece0abrego4va5e5o4za5o3ian5s4ga4ra5e3oga5o4jo4ma5e5o3uce4ma5e5o4no4za5o4ño2sida5e2ubos3cen5s3ena5e0abueno3jes3lia4on4ta5e5o3nda5e5o3rad5n5r5s4en5s4ra5e5i5o3sad5n5r5s4en5s4on5s3zan5r5s1cabad0acaban5s4en5s4os3cha5e5o4ia3dia5o3ece3lda5e5o4ia4la5e5o3mad5n5r5s4en5s4pa5e5o3nas4to3rad5n0acarar5s4ea5e5n5o5s4os4ra5e5o3sos3tad5n5r5s4en5s4os3ule2ceda5e5i5o4so3ion2ebal4os3cen5s4ha5e0acecho3dad5n5r5s4en5s4ia4os3ifa4ta5o3lga3mas3nsa5e5o3pad5n5r5s4en5s4ta5e5o3rad5n5r5s4ba5o0acerca5o4en5s4ia4os4ta5e5o4va5e5o3tal5r4in4re3zad5n5r5s4os3ñas2haca5o4ra5e5o4ta5e5o3ica5o0achies4na5e5o4ra4va5e5o3oca5o4la5e5o4te3uar4la5e5o4ma4ra5e5o2iaga5o4no3bar3che3das4ez4ia4os3ema0acieme5o3gos3jes3los3mos4ut3ron2lama5e5o4ra5e5o3las3oca5o2ocan5r5s4ea5e5o4ha5e5o4il4la5e5o3dad5n0acodar5s4en5s4os3ged5n5r5s4ia5o3jan5s3lad5n5r5s4en5s4ga5o4la5e5o3mba5e5o3pad5n5r5s4en0acopes4ia5e5o4la5e5o3que3rad5n5r5s4ce4da5e5o4en5s4na5e5o4os4ra5e5i5o4ta5e5o4va5e5o0acorza5o3sad5n5r5s4en5s4os4ta5e5o3tad5n5r5s4en5s2rata3ece5i4er3iba5e5o3ois4na5o2teas3iva5e5o0actora3riz3uad5l5n5s4en5s2ucia5e5o3dan5s4en5s4ia5d5o5s3eas4os3ita5e5o3lad5n5r5s4en5o5s4la0acumen3nad5n5r5s4en5s3osa5o3pea5e5o3rda5e5o4es3sad5n5r5s4en5s4on3tis3yos3ñad5n5r5s4en5s1dagio0adagua5e5o3las4id3mad5n5r5s4en5s3nes3pta5e5o3rce4ga5o4me4va5e5o3zas2ecua5e5o3lfa3mad5n5r5s4en0ademes3nda4ia4sa5e5o3pta5o3rra3uda5e5o2heri2iaba4da5o4fa4is4na5o4ra5e4se3cta5o3eis4so4ta5e5o3vas4es0admira5e5o4ta5e5i5o2nada5o4ta5o2obad5n5r5s4en5s4io4os3nar4de4io5s3pta5e5o3rad5n5r5s4en5s0adormi4na5e5o3sad5n5r5s4en5s2raba4da5o4is4ra5e4se3ece4de4is4za5o3ian4ce4za5o2uana5e5o3car4en5s0aducia5d5r5s3eña5e5o3fes4re3jad5n5r5s4en5s3lad5n5r5s4ce5i4en5s4on4ta5o4za5o3nad5n5r5s0adunca5o4da5e5o4en5s4ia3ran5s4en5s4ia5d5o5r5s3sta5o3zca5o2veni4ra5e5o3ine5o1ereas4os1fable3cas4ed0afacen5r5s4ia3gan5s3mad5n5r5s4en5s3nad5n5r5s4en5s4os3ran5s4ia3sia3tad5n5r5s4en5s2eaba4da5o0afeais4ra5e4se3cha5o4ta5e5o3eis3ita5e5o3lio4pa5e5o3rir4ra5e5o2gana5o2iche3ela5e5o3jar5s4os3lad5n0afilar5s4en5s4ia5e5o4on5s3nad5n5r5s4ca5o4en5s4os3rma5e5o2lata5e5o3ige5i4ja5o3oja5e5o4ra0aflore5o3uia5d5r5s4jo4ya5e5o2ocad5n5r5s3fan5r5s4en5s3gad5n5r5s4ue3lla5e5o3nas4da5e5o4ia0afonos3que3rad5n5r5s4ca5o4en5s4os4ra5e5o3san5r5s4ca5o4en5s2reta5e5o4ñi3ica5o4ña5e5o2tosa5o0afuera5e5o3fad5n5r5s4en5s4on3mad5n5r5s4en5s3ste1gaces4ha5e5o3don3lla5e5o5u3mis3nad5n5r5s4en0aganes3pes3rba5e5o4ra5e5o3tas3ves2ente2ible3les3tad5n5r5s4en5s2nada5o2obia5e5o3gia3lad5n5r5s4en5s4pa0agolpe5o3nal4ia3rad5r5s3sta5e3tad5n5r5s4en5s3via2race4da5e5o4fa5o4ma5e5o4va5e5o4za5o3ear4da0agrede5i5o4ga5o4ta4za3iad5n5r5s5z4en5s4on5s4pa5e5o4sa5e5o3uma5e5o4pa5e5o4ra2uaba4ce4da0aguade5o4is4je5i4pe4ra5e4se4ta5e5o4ya5o4za5o3cen5s4ia3das4ez4os3eis4la4ra5e5o3ija5e5o4la4os0aguita5e5o3jal5r5s4on3osa5o3tis3zad5n5r5s4os1hajad5n5r5s4en5s2echa5e5o3lea5e5o3rir2ijad5n5r5s0ahijen5s3lad5n5r5s4en5s4os3nca5o3tad5n5r5s4en5s4os2ogad5n5r5s4os4ue3nda5e5o3rca5o4ma5e5o0ahorna5e5o4ra5e5o3tar5s3yad5n5r5s4en5s2uata5e5o3cha5e5o3eca5o4sa5e5o4va5e5o3mad5n5r5s0ahumen5s3sad5n5r5s4en5s1ijada2llos4us2mara2ndia5e5o2raba4da5o4is4ra5e4se3bag3ead5n5r5s4en5s4is4os3osa0airoso2slad5n5r5s4en5s1jaban5s3das4os3jay3mos3ndo4go3ran5s4en5s4ia4on3sen5s4te2eaba4da5o4is4ra5e4se3eis0ajemos3nar5s4jo4os4uz3ras4os3tes2iaco3cen5s3llo3mez3pas3zad5l5n5r5s2obar3cha5e5o3lin5o3nje5o3rad5n5r5s0ajorca4en5s4os4ra5e5o3tad5n5r5s4en5s2uara5e5o3man5r5s4en5s3nas4os4ta5e5o3sta5e5o1labad5n5r0alabas4ea5e5n5o5s3cet4ha5e4ia5e5o4os4re3dar5s4os4ra5e5o3fia3gad5n5r5s4ue3jor4us3las5u5y4ia0alalos3mar5s4in4os4pa5e5o4ud3nas4ce4os4za5o3rbe4de4es4ga5o4ia4me5o4oz3ste3tar4es4on3uda5e4is3ves3zan0alazor5s2baca4da4la4na5o4zo4ñi3ead5n5r5s4do4en5s4ra5o3ina5o4ta3ugo4ra2caci4li4na3eas4do4is3ino4on3oba0alcuza4ña5o2daba3eas4on3ina5o4za2eaba4da5o4is4ra5e4se3bre5o3ces4he3das3eis3gad5n5r5s4on4ra5o4ue3jad5n0alejar5s4en5s4ur3lad5n5r5s4en5s4is4os3man5s3nta5e5o3ona5e5o3pin3rce4on5s4ta5e5o3sna3tas4ea5e0aleteo4os3uda5e5o3ves4in3xia3yas3zna5e5o4os2faba4do4is4ja4ma4na4ra5e4se4ya3eis3oli2gaba4ra3ida5o3osa5o3una0algund5o2haja5e5o5u4mi3eli4ña5e5o3oli4ri2iaba4da5o4ga4is4ra5e4se3ble3cas4er3eis4na5e5o3fas3gad5n5r0aligas4er4ue5i3jad5n5r5s4en5s4os3mon5s3nda5e5o4ea5e5o3oli3pus3ron3sad5l5n5r5s4en5s4ma4os4ta0aliste5o3tan3via5e5o3zar3ñad5n5r5s4en5s4os2jaba4ma3ibe3uba4ma2lana5e5o3ega5o3ora4za5o2maja5e5o4ro3eas0almeja5i4na5e5o4te4za5o3iar3odi4na4ra5i3udi2nada5o4fe3edo2obad5n5r5s4en5s3cad5n5r5s3dio3eta3gar3jad0alojan5r5s4en5s3lad5n5r5s4en5s3mad5n5r5s4ba5e5o4en5s3nas4es4so3que3sas4na3tad5n5r5s4en5s0aloyas2paca3ina5o2quez2rota2sine2tana5o3ead5n5r5s4en5s4ra5e5o4za4ña5o3iro4va5o3ura2ubia3cen5s4ha5e5o4in0alucon3dan5s4el5n5s4ia5d5o5r5s4os3fra5e5o3gar3las3mna3nan5r5s4en5s3zad5n5r5s2veos3ina5o2zaba4da0alzado4is4ra5e4se1maban5s3cha5e5o3das4eo4or5s3gad5n5r5s4os4ue3ina5e5o3lad5n5r5s4en5s4la5e5o0amalos3mos3nad5l5n5r5s4do4ea5e5n5o5s4sa5e5o4ta5e5o3rad5n5r5s4ca5o4en5s4ga5o4ia4on5s0amarra5e5o3sad5n5r5s4en5s4ia5o4te3tad5l5n5r5s4en5s3uta3ñad5n5r5s4en5s4os2bigu4to3lad5n5r0amblas4en5o5s3ula5e5o2ebas4eo3cha5e5o3lad5r5s4es4ga5o4ia4la5e5o4os3mos3nas4es4os4te5o3rad5n5r0ameras4en5s2ibas4os3das4os3ela5e5o3gad5n5r5s4ue3mia3nad5n5r5s4en5s4os3res4is3sta5e5o3tos2nios2obla5e0amoblo3cha5e5o3lad5r5s4da5e5o4es4la5e5o3mos3nal5n5r5s4en5s4io4ta5e5o3ral4ca5o4es4fa5o4io0amorra5e5o3sca5o3ved5r5s4ia5o2para5e5o4ya5e5o3ere3lia5e5o3ona3rad5n5r5s4en5s3ula4ta5e5o2ucha0amuche5o3ela5e5o4va5e5o3far3gad5n5r5s4ue3ina5e5o3lan5r5s4en5s3rad5n5r5s4ca5o4en5s4ra5e0amurro3sca5o4ga5o4os3zga5o1nabis3cos3dea5e5o5s4on3fes4re3lco4es3mus3nas5y3rco3tas3via3yes2cada5o3had5n5r5s0anchen5s4oa5e5o5r5s3ila3lad5n5r5s4en5s3ora5e5o3uas4co4da5o4sa2daba4da5o4is4na4ra5e3eis4ro3ina0andino4to3oba4la4na3uve5o2eaba4da5o4is4je4ra5e4se3bla5e5o3eis3gad5n5r5s4ue3jad5n5r5s4en5s4ir4os0aneldo3mia3ota3tos3xad5n5r5s4en5s4os2feta3ion3ora2garo4zo3ina3las4os3oja4ra3ues4la5e5o2hela5e5o2iaga3dad5n5r0anidas4en5s4ia5e5o3ego4ja5e5o3lla5e3mad5n5r5s4en5s4os3sad5l5n5r5s4en5s3tos3ñan5r5s4en5s0anjeos3ova2obio3che3dos3lad5n5r5s4en5s3mia3nas4es3ria4za3tad5n5r5s4en5s3xia2quea5e5o2siad5n5r5s4en5s0ansina4on2tana4ño3eca5o4jo4la5e5o4na4on4ra5o4ve5i3ias4er3oja5e5o3rax4os2ubla5e5o3dad5n5r5s4en5s0anulad5n5r5s4en5s4os3ras4ia4os2zola5e5o1ojaba4da5o4is4ra5e4se3eis2nias4os2rtas2vaba4da5o4is4ra5e4se3eis0apacer4ha5e5o3gad5n5s4on4ue3lea5e5o4pa5e5o3nda5e5o4te3rad5n5r5s4ca5o4ea5e5n5o5s4ir4ra0aparre5o4ta5e5o4va5e5o3sta5e5o3tan4ia3ñad5n5r5s4en5s4os2eaba4da5o4is4la5e5o4ra5e4se3cha5e0apecho3eis3gad5n5r5s4os4ue3lad5n5r5s4da5e5o4en5s4la5e5o3nad5n5r5s4ca5o4en5s3ona5e5o3rad0aperan5r5s4ea5n5s4na5e5o4os4ra5e5o3sta5e5o2iada5e5o4na5e5o3cal4es3lad5n5r5s4en5s3nto3oja0apioje5o4la5e5o3pan5r5s4en5s3ris3tad5n5r5s4en5s3ñad5n5r5s4en5s2laca5e5i5o4na5e5o4za5o0aplega5o3ica5o3oma5e5o2neas2ocad5n5r5s4en5s4ha5e5o3dad5n5r5s4en5s4os3geo3lad5n5r5s4en5s3ned0aponen5r5s4ga5o4ia3que3rca5o4ia4ta5e5o3sad5n5r5s4en5s4ta5e5o3yad5n5r5s4en5s4os3zan5r5s0apresa5e5o4ta5e5o3isa3oad5n5r5s4ba5e5o4en5s2sara3ide2tera5o2ulso3nan5r5s4en5s4ta5e5o3rad5n5r0apuras4en5s4on5s4ra5e5i5o3ñad5n5r5s4ea5e5n5o5s1queas4ja5e5o4la5e4os4ra5e5o4sa5e5o3iva0aquivo1raban5s4es4ia5o4le4os3cea5o3das4or5s4ro3lia3mea5o4io4os3nas4do4es3ran5s4en5s4ia4on3sas4en5s4te0arauja3zas3ñad5n5r5s4en5s4il4on5s2bola5e5o2caba4da5e5o4is4na5o4ra5e4se3eas4do3has4is3ial4na5e5o0arcion3osa3ual2dais3eas4is4ra5e5o3ian5s4da5o4ta5e3ora3uas4os4ra2ecas4er3ito3lad5n5r5s4en5s3mos3nad5l5n0arenar5s4ca5o4en5s4ga5o3ola3pas3sta3tes2faba4da5o4is4ra5e4se3eis2gado4na5o4ya5e5o4ña3ent3ila4va5o3oma0argots3ues4ia5d5r5s4ya5e5o2iana5o3cad5n5r5s3das4ez4os3eta5e5o3jas4es4os3llo4os3mez3olo3que3sca5o4ta0arlaba4da5o4is4ra5e4se3eis3ota5e2maba4da5o4is4jo4ra5e4se3eis4ro3iña5e5o2nadi3ica2ocas3mad5n5r5s4en5s0aromos3nes2paba4da5o4is4ra5e4se3eis4os3ias3ona5e5o2quea5e5n5o5s2raba4ez4la5e5o4na5e5o4pa5e5o4sa0arrase5o4te3ead5n5r5s4ci4do4en5s4os3iad5l5n5r5s5z4be5o4ce4da5e5o4en5s4fe4ge5i4ja5o4ma0arrime5o4ta5e5o4za5o3oaz4ba5e5o4ga5o4ja5e5o4ma5e5o4pa5e5o4ta5e5o4ya5e5o3uad5n5r5s0arruen5s4fa5e5o4ga5o4is4ma5e5o4ta5e5o2tado3ejo4ra5o4sa3ica5o4ga5o4na3uña2uera3gas3las3pos3ñad5n5r0aruñas4en5s4on5s2veja5o1saban5s3cad5n5r5s4es3das4or5s3eta5e5o3lir4ta5e5o3mos3ndo3que3ran5s4ea5e5n0asareo5s4ia4on5s3sen5s4te3yar2cari3eta3ias4os4ro3osa5o3rea5o3uas2eaba4da5o4is4ra5e4se3cha5e5o3dad5n5r0asedas4en5s4ia5e5o3eis3lad5n5r5s4en5s3mos3njo4so4ta5e5i5o3qui3ria5e5o4ra5e5o4to3sad5n5r5s0asesen5s4or4ta5e5o2gais2iais4na5o3cad5n5r5s3das4os4ua5o3era5e4se3gna5e5o3lad5n5r5s4en5s4la4os0asimos3que3ran5s4ia5o3sta5e5i5o2mosa5o2nada5o3ico4na5o3una5o2ocia5e5o3lad5n5r5s4da5e5o4ea5e5n0asoleo5s3mad5n5r5s4en5s4os3nad5r5s4da5e5o3rda5e5o2paba4da5o4is4ra5e4se3ean5r5s4en5s4is4ra0aspero3ics4de4ra5e5o3ros2quea5e5o2tada5o4to3ero3ral4os3uta5o2ubia5e5o3ela5e5o4na5e5o4ta5o3lca5o3man0asumas4en5s4ia5d5o5r5s3nta5e3rad5n5r5s4ca5o4en5s3sta5e5o1tabal5n5s4es4la5e5o3cad5n5s4ir0atadas4or5s3fea3ira5e5o3jad5n5r5s4ea5n5s4ia4os3lar3man4os3nco4do4or3pad5n5r5s4en5s3que3ran5s4ea0ataree5n5o5s4fe4ia4on3sca5o4en5s4te3tay3uca5o3via5e5o3xia3ñan4en5r4ia2ecen5s3dia5e5o3jes3mba5e5o0atemos3nde5i4ea5o5r5s4ga5o4ia4ta5e5o4ua5e5o3ria5d5o5r5s4ra5e5o3sad5n5r5s4en5s4ta5e0atesto3tad5n5r5s4en5s3zad5n5r5s2ibad5n5r5s4en5s3cas4en5s4os3ene4sa5e5o3fle3lda5e5o3nad5n5r0atinas4en5s4ge5i4ja5o3pan5r5s4en5s4la5e5o3sba5e5o3zad5n5r5s2leta2oaba4da5o4is4ra5e4se3bad5n0atobar5s4en5s3cha5e5o3eis3jad5n5r5s4en5s3les4la5e5o4on3mir4os3nal5r5s4da5e5o4ia4os4ta5e5o0atorad5n5r5s4en5s4ga5o4on5s4ra2raca5o4ed5n5r5s4ia4je5o4pa5e5o4sa5e5o3eva5e5i5o4zo3ios0atrita5o3oja5e5o4na5e5o4pa5e5o2uera5e5o3fad5n5r5s4en5s3nes3rad5n5r5s4da5e5i5o4en5s4ra0aturre5o3sad5n5r5s4en5s3tia1uctor2dios4ta5e5o2gita3ura5e5o2laga3ica5o3lad5n5r5s4en5s4os2naba4da5o4is0aunara5e4se3eis3iga2paba4da5o4is4ra5e4se3eis2reas4os4ro3ica5o4ga3ora2stro2tora2xina2yama1vadad5n5r5s4en5s3had5n0avahar5s4en5s3lad5n5r5s4en5s4la5e5o4ua5e5o3nce4te4za5o3ras4os3tar4is2ecen5s3lar3nad5n5r5s4en0avenes4ga5o4ia5d5r5s4ta5e5o3rar4ia5e5o4na5o4sa5o3zad5n5r5s4on2iaba4da5o4is4ra5e4se3cas4ia0avicie5o3das4ez4os3eis4ja5e5o4ne4sa5o3lar4es3sad5n5r5s4en5s4on5s4pa5e5o4ta5e5o3vad5n5r5s0aviven5s3zor2ocad5n5r5s3que2ugos1xcale2ilar5s4es3oma4te2ones1yacos4ua3les3tes3yau5y2eaba4do4is4ra5e4se4ye3eis3res4ma0ayerme5o2oras4ea5o3tes2udad5n5s4en5s3gas3nad5n5r5s4en5s4os3sta5e5o1zacan4he3das4on3gad5n5r5s4on4ue0azahar3las4ea3nca3que3rad5n5r5s4be4ea5e5n5o5s4ja2cale3ona2eris2imos4ut2oaba4da5o4is4ra5e4se4to3cad5n5r0azocas3eis3far4ra3gad5n5r5s4ue3ica5o3lad5r5s4ea5o4va5e5o3mar3nce4za5o3que3rad5n5r5s4en5s4os4ra0azorre5o3tad5n5r5s4ea5n5s4on2teca2uana5o4ya5o3cen5s4he3das4es3ela5e5o3fra5e5o3lad5n5r5s4ea5e0azulen5o5s4on3res3tea3zad5n5r5s1ñacal4ea3dan5s4en5s4ia5d5o5r5s3fea4il3les3res3ses3zme3ñay2edan5s4en5s0añedia5d5o5r5s3jad5n5r5s4en5s5z4os3ras4os2icos3dan5s4en5s4ia5d5o5r5s3lad5n5r5s4en5s3nas0añinos2ojal5s4os3rad5n5r5s4en5s3sas4os2ublo3dad5n5r5s4en5s3sga5o0babaca5o4da4za3ead5n5r5s4en5s4os0babera5o3les3osa5o2cada4na5o4ra3era4ta3hea5e5o5s3ias4ga4lo4na3ulo2dajo4na4za3eas3ian4la4na2fles2gaba4do4is4je0bagara5e4sa5e4yo4zo3res3ual4en5s4io2hais4ri3ias3una5o2idas3fas4os3lad5n5s4en5s4ia5o4on3vel2jaba4da5o4is0bajara5e4se3ead5n5r5s4en5s4is4ra5o4te4za3ial4ni4os3oca3una5o4ra2laba4ca4da5i5o4go4is4je4mo4no4ra0balare4se4ta5e4yo4zo3boa3che4on3dad5n5r5s4ea5e5n5o5s4ia5o4on5s3ead5n5r5s4en5s4is4le4os4ro0balice4do4ju4ta5e5o4za5o3lar4et3ota5e5o3sar5s4ea5e5o4on5s3tas4eo4os4ra3uma5e2mbas4ea5e5o4uc5s0banaba4na5o3cad5l5n5r5s4es4os3das4ea5e5o4in5r4os4ul3jos3que3tus3yos3zon5s2obab2quea5e5o5s4ia5o2raca0baraha4ja5e5o4ta4ña5o3bad5n5r5s4ea5e5n5o5s4on5s3cal5s4eo4ia4on5s3dad5l5n5r5s4en5s4os0barema5e5o4ta3ias4ca5o4es4os4ta3loa5e5o3man3niz3oto3rad5l5n5r5s4ea5d5e5n5o5r5s4ia5l4on5s0baruca3zal5s4on2saba4da5o4is4ra5e4se3car5s3eis3ica5o3nas3tad5n5r5s4ea5e5n5o5s4ir4on5s3uco2tais4na0batane5o4ta5o4va5o4zo3ead5n5r5s4en5s4os4ra5o3ial5n5s4da5o4ra5e3oja5e5o4la3uas4ca5o4da4ta0baudio3las4es3rac4es3san5s3yua3zas2vara5o2yana5o3eta3oco4sa3uas4ca4es2zuca5o2ñaba4da5o4is4ra5e4se3eis4ro1eatas4os0bebais3eis4ra5e3ian5s4do2caba4da5o4is4ra5e4se2dano3ela3uro2faba4da5o4is4ra5e4se3eis2gums2icon2juco2lcho3dad5r5s0belesa4zo4ño3fas4os3gas3ica5o4da4os3las4os2mbas4es4on5s2nina5o4ta5o3jui3tos3zoe5l2ocia5o3das4ez4os3ris2quen5s0berbis3ceo3eca5o3ilo3lin3mas3nes4ia3ona4zo3rad5n5r5s4ea5e5n5o5s4in4os3zal5s2saba4da5o4is4na4ra5e4se0beseis3ico3tia3uca5o4go2tica5o4jo3ume2udez2zaar3oar4te3uda5o1iarca3zas2baro3ies3lia2ceps3has4es4in4os3oca2elas4da5e5o4ga0bielgo3nal4es4io4za3rga5o4no4zo3ses2fera5o3ida5o2gama5o4ro4to3ote3udi2jaos2laos3iar3lar5s4on3mad5n5r5s4en5s0biloca5o2mana5o3bas4re2naba4da5o4is4ra5e4se4zo3ead5n5r5s4en5s4is3gos4ui3uba5o3zas2ombo3tas2peda5e5o3ode0biraro3icu3lad5n5r5s4en5s4is4on5s3ome3ria3uje5i2saba4da5o4is4ra5e4se4ya5o3bis3eca5o4is4la5e5o3nes0bisoja5o4ña5e5o3pon3tec5s2taba4da5o4is4mo4ra5e4se3eis2viri2zaza3cad5n5r5s4os3mad5n5r5s4en5s3nas3que0blabla3nca4da5e5i5o3smo4on3zer2edos3nda2inca5o4da5e5o2ocad5n5o5r5s3nda5o3que2usas4on1oalar3tos2bada3ead5n5r0bobeas4en5s4ra3ina5e5o3ore2caci4da5o4na4ta4za5o3ead5n5r5s4ce4en5s4la5e5o4ra4to4za5o3had5n5r0bochas4en5s4in4os3ina5e5o4os3ona4ta3uda5o2dega5o3igo4jo3rio2eres2faba4do4is4ra5e4se3eis4na4ta4ña3ias2gaba4da0bogado4is4ra5e4se3uen5s2hema5o4na4ña3ios3rio2icot3les3nas3ras2jaba4da5o4is4ra5e4se4zo3ead5n5r5s4en5s4is0bojeos3ote2lada5o4ga4zo4ño3dos3ead5n5r5s4en5s4os4ra5o4ta5e5o3ido4na4sa4ta3lad5n5r5s4en5s4ir4on0bollos3ola5o3sas4ea5e5o4in4on5r5s3uda5o2mbas4ea5e5o5s4in4on5s2nasi3dad3eta5e3gas4os3ico4na4ta4zo3ote0bonsai3zos2quea5e5o5s4in5s2rato3bor3dad5n5r5s4ea5e5n5o5s4on5s3eal5s4os3ias4co3las4on3nas4ea5e5o0bornes4is3ona3rad5j5n5s4en5s4on5s3tal4os3uca4ga4jo4ro2snia5o3tar5s4ea5e5o2taba4da5o4is4na4ra5e4se0botead5l5n5r5s4en5s4is4ja4ro3ica4ga4ja5o4na4to3osa5o4to3uto2vaje3eda3ida5o4na5o2xead5n5r5s4en5s0boxeos3ita5o2yaba4da5o4is4ra5e4se3eis4ra5o3una5o2ñiga5o1racas4ea5e5o4il4os3gas3hon3mad5n5r5s4en5s3nca0brandy4es4za3sas4ca4ea5e5o4il3vas4ea5e5o4ia5o4os3zal5s4os3ñas2eaba4da5o4is4ra5e4se3cas4en5s4ha4ol0brecos3eis3gad5n5r5s4ue3nca4es3que3sca5o3tea5e5o5s4on3val5s4es3zad5l5n5r5s4os3ñal5r5s2iaga5o3bar0bribas4ia4on4ri3cen5s4ho3das4on3ega3lla5e3nca5o4da5e5o4es4za3osa5o3san5r5s4ca5o4en3zad5n5r5s4na0briñon2ocal5s4ea5e5n5o5s4ha5e5o4ol4ul3dio3lla5e5o3mad5n5r5s4ea5e5n5o5s4os3nca5e5o4zo3sla0brotad5n5r5s4en5s4on5s3zad5n5r5s4na5o2ucen5s3gos3jan5s4ea5e5n5o5s5z4ia5d5o5r5s4os4ul0brumad5l5n5r5s4en5s4os3nas4ca4os3sca5o3tal5s4ez4os3zad5n5r5s4os3ñan5s4en5s4ia5d5r5s4os1uaros0bubala5o3osa5o2care5o3ead5n5r5s4en5s4is4os4ro3hes4in4on3ios3les2dare3ica5o4on2egas3nas4os3ras3tre3yes2faba4do0bufais4la5o4na5o4ra5e4se3eis4os4te5s3ido3ona2gles2hedo4ro3ios2idas4os3tre2jaja3eda5o4os4ta3ias4er2lbar4os4ul3eco0bulero4to3ica5o4es3lan5s4en5s4ia5d5r5s4on3tos3ulu2nios2ques2raco4to3che3das4el4os3eos4ta3gas4es4os3iel5s4la0burile5o4os3lad5n5r5s4en5s4on3ral5s4ez4il4os3uca4jo2scad5n5s4on5s3era5o4ta3ier4to3que3ter4os2taca4no0butias4ro3ron3uco2zaba4do4is4no4ra5e4se0cabala5e5o4re4za4ña3dal3ear4is4ra5o4te4zo3ian5s4da5o4la4na4os3lea0cablee5o5s3ran5s4ea5e5o4ia5o4on5s3uda4re4ya5o2cabo4na4os4ro3ead5n5r5s4en5s4is4os4ra4ta3had5n0cachar5s4ea5e5n5o5s4on5s4ua5s3ica3les3ota3tea5o4os4us3ulo2dava3die3ejo4ra4te3ies4ra3mia5o3oce4zo3uca5o0caemos3nas3ran5s4ia2feto3ila3res3tan2gaba4da5o4is4ra5e4se3ona3uen5s2hita3uin2iais3ble3cos3das4es4os3fan3gan5s4ua3man0caimas4os3que3rel3ste3tea5e5o5s2jera4ta5e3ies4ga5o3uil2laba4ca4da5o4is4je4mo4os4pe4ra5e4se4ta5e5o4zo0calaña5o3cad5n5r5s4en5o5s4ha4io4os3das4ea5e5n5o4os4ra5e3eis4jo4ra5o4sa4ta4za4ña5o3ian5s4be0calibo4ce5o4da5o4fa4ga4ma4na4vo4za5o3lad5n5o5r5s4ea5e5n5o5s4on5s3mad5n5r5s4en5s4os3oma0calosa5o4te4yo4ña3pul3que3tas3uga4ma4ra5o4yo3vad5n5r5s4en5s5z4os3zad5n5r5s4on5s2mada4ma4os4ra5o0camaru4za3bad5n5r5s4en5s4ia5e5n4on5s4ra4uj5r3ela5e5o4na4ra5o3iar5s4lo4na5e5i4ta3ota5e3pad0campal5n5r5s4ea5e5n5o5s4os4us3uza4ña2naca5o4na4pe3can4el5r4ha5o4in4on5s4ro3dad5n5r5s4en5s0candil5s4or3ead5n5r5s4ca5e5i5o4en5s4lo4ro4su3fin4or3gad5n5r5s4re5o4ue3ias4ca4da5o4ja5o4me0canina5o3jea5e5o5s3oas4pe4ra5o4sa5o3sad5n5r5s4en5s4ia5o4on5s3tad5l5n5s4ea5e5l5n5o5s0cantia5l5o4on5r5s4us3uda5o4la4ta5e5o2obas4os3lin2paba4da5o4is4ra5e4se4za5o3dal3ead5n5r5s4en5s0capeis4ja4lo4on5s4ro4ta3ias4os4ta3ola5e5o4na5e5o4ta5e5o3pas3tad5n5r5s4en5s4or3uca5e4li5o4za0capuzo2quis2raba5e5o4ca5u4da5o4go4ja5o4ma5o4os4pa5e4re4te5o4us5z4ya4ña3bas3caj5s5x4el4on3dad5l0cardan5r5s4en5s4on5s3ead5n5r5s4ce5i4en5s4na5e5o4os4ra5o4sa4ta5o4za3gad5n5r5s4os4ue3iad0carian5r5s4be5u4en5s4os4te4ña5e3las4in4on5s3mel5n5s4in3nal4ea5e5o5s4uz3oba4ca4la5o4na4ta5o0carozo3pan5s4en5s4ia5d5o5r5s4os3ral5o5s4ic5l4on5s3tea5e5o5r4on3uja4ru4to3vis2saba5e4ca4da4is0casara5e4se3cad5n5r5s4ol5s4ue3eas4is4os4ra5o4ta5e5o3ias4da4na5o3ona3pas4ia5o3que3tas4el4or5s4ra0castre5o4ua5o3ual4ca2taba4da5o4is4na4ra5e5i5o4se4ta5e5o3ead5n5r5s4cu4en5s4is4la4os4ra4ta5e0cateto4ya3ibo4fa4no4on4ra5e4ta5e4va5i5o3odo3res4in2ubas3cas5u4el5s4ha5e5o4os3dal5s4on3jes3las3nos3que0cauris4os3sad5l5n5r5s4ea5e5n5o5s4on3tas4in4os3zas2vaba4da5o4is4ra5e4se3eas4is4ro4to3ial5r5s4es0cavila5e5o4os2yada5o4ma4na4pa4ri4ya3ena4ra5e4se3ota5e3uca5o2zaba5e4da5o4is4ra5e4se4ta3uda5o2ñaba4da0cañado4is4ma5o4ra5e5i5o4se4za5o3ead5n5r5s4do4en5s4is4os4ra5o4ta5e3ita4za5o3ona4ta3uto1eajas4os0cebaba4da5e5o4is4ra5e4se3eis4ra5o3ona3ras3ues2cead5n5r5s4en5s4os3ial5s4na5e5o4on3ubo2dais4zo3eis4ra0cedere3ian5s4da5o4za5o3ras4ia4on5s3ula5e5o2falo3ead5n5r5s4en5s3iro2gaba4da5o4is4ja5o4ma4ra5e4se0cegata5o3uas2ibal5s4on5s2jaba4do4is4ra5e4se3eis3uda5o2laba4da5o4is4je4ra5e4se3das3eis4ra5e3fos3ias4be4ca0celico3lar5s4os3oma4sa5o3tas3ula2mbos3ita2naba4da5o4ga4is4ra5e4se4ta3cas4ha4io4os3dal4ea4ra5e5o3efa4ga5o0ceneis4ro4te3ias4es4ts4za5o3osa5o4te3sad5l5n5r5s4en5s4or5s3ten4on4ra5e5o3uro2pazo3eda4ra3ita3ola4te0cepren2quia5s2rate5o4za3bas3cad5n5r5s4ea5e5n5o4ha5e5o4os3das4ea5e5o4on5s3eal5s4os4ra5o4te4zo0cereña5o3ina4os4ta5o3nas4ea5d5e5o5r5s4ia5d5o5r5s4os3oma4sa5o4te5o3pas3que3rad5s4il4on5s3uca0ceruma4sa3val4iz2saba4do4is4ra5e4se3eis3ion5s3ped3tas4on5s3ura2tano3ica5o4lo4na3mes3ona3ras4es4os2utis2ñaba4da5o0ceñais4ra5e4se3eis3ian5s4da5o4ra5e3osa5o3uda5o1hacal5s4en5s4ha5i5o4on5s4ra3dor3fad5n5r5s4en5s0chafla5e5o3gra3ima4ra5o3jas3lad5n5r5s4en5s5t4la5e5o4on3mad5l5n5r5s4ba4en5s4os4pa5e5o5u0chanas4ca5e5o4da4es4fa4ga5o4ta5e5o4za3ola3pad5n5r5s4ea5e5l5n5o5s4ia5n4le4on5s4ul5z3que0chaqui3ral4ca5o4la5e5o4ol4pa4ra5e5o3sca5o4is4pa5e5o3tas4ea5e5l5o4on5s3vad5l5n5r5s4ea5n0chaves4on5s3yad5n5r5s4en5s4os3zad5n5r5s4os3ñar2eada3cad5n5r5s4he4os3ira3jes3las4es4in5s4os3nca3pas0chepea5e5o5s4ia3que3ral5s4na5e4os4va3sas4os3tas4os3uta5o3vio2iaba4do4is4ra5e4se3cas4ha5e5i5o4le4os0chidas4os3eis3fas4la5e5o3gre4ua5i3ies4ta3lar4ca5o4es4la5e5o4pe3mad5n5r5s4ba5o4en5s4on5s4us3nad0chinan5r5s4da4ea5e5n5o5s4ga5o4in4os4to3pas4ea5e5n5o5s4ia5e5o3ras4ca4is4la5e5o4re3sas4ca0chisco4es4ma5e5o4pa5e5o4ta5e5o5u3tad5n5r5s4en5s4on5s3vad5l5n5r5s4ea5e5n5o5s4ia5e0chivio4on5s3zas2obas3cad5n5r5s4es4ha5e5o4la5e5o4oe5n5s3fer5s3jin3las4ca5o4ea5e5o4ga4la5e5o0cholos3mba5o4pa3nas4go4os4ta3pal5s4ea5d5e5o5s4os3que3rad5n5r5s4ba5o4ca4ea5e5n5o5s4is4la5o0choros5y4ra5o4ti3spa5e5o3tar5s4ea5e5o5s4is4os3vas3yad5n5r5s4en5s3zas4na5o4os4pa5e5o2ucao5s0chucen5s4ha5e5o4os4ua3eca5o4ta3fad5n5r5s4en5s4la5e5o3ica5o3jes3las4ea5e5o5s4la5o4on5s3mba0chumbe5o4pa5e3nas4ga5o3pad5n5r5s4en5s4in4on5s3ras4co4la5o4os4ra5e5i5o4us3sca5o4ma4pa3tad5n0chutar5s4en5s4os3vas3yas4os3zad5n5r5s4on5s3ñas4os1iaban5s3mos3ndo4ea5s4is3ran5s4en5s4ia4on3sen5s4te0ciatos2baje3dad3era3ica3ola5o2cera5o3ion3lad5n5r5s4en5s4on5s3uta2dral5s4ia4os2ecas3gan5s4os4ue3los3mos3nos4te0ciento3rna5e5o4ra5e5o4ta5o4va5o4zo2fela3rad5n5r5s4en5s2gala3oto3uas2liar4os3las2mate3bas4el4la5e5o4ra0cimbre5o3era5o3pas2ncas4el4ha5e5o4os3ema3gla5e5o3ias4ca5o4fe3tad5n5r5s4en5s4os4ra2payo3era3ion3ota5e0cipres4ia5o2rate3ces4on5s4ui3ial4os3ros2scad5n5r5s4on5s3ion3mad5n5r5s4en5s3nes3que3tas3ura2taba4da5o4is0citana5o4ra5e4se3eis3iso3ola4ra4te3ron2veta5o3ica5o2zaña5e5o2ñais3era5e4se1lacos3mad5n5r5s4en5s4or3nes4ga0clapas3que3rar5s4ea5e5o4in4or5s3ses3vad5l5n5r5s4ea5e5n5o5s4os3xon3zol2emas3ros2icas4he3mas5x3nes3peo0cliper3sad5n5r5s4en5s4os2oaca3cad5r5s4he3nad5n5r5s4en5s3que3rad5l5n5r5s4en5s4os3set3tas4ea5e0cloteo2ubes3eca5o1oaita3lla3nas3rta5e5o3tis2baya5o3eas3ija5e5o3las3rad5n5r5s4ea5e5n5o5s4os2caba4da5o4is0cocama4ra5e4se4vi3cix3ead5n5r5s4en5s4is4ra5e3has4ea5e5o5s4ia5o4os3ian5s4da5o4ne5o3lea3ono4ra0cocosa5o4ta5e3tel3uis4yo2dazo3ead5n5r5s4en5s4na4os4ra5o4so3ice4na3ujo2endu3vas4os2fias3res2geis4ra5e3ian5s0cogida5o3ote3uil4ja2hete3iba5e5i5o4ta3oba5e5o2icoy3hue3mas4ea5e5o5s3nes3pos3ron3tad5l5n5r5s4en5s4os0cojais3ead5n5r5s4en5s4ra3ijo3obo3uda5o2laba4da5o4is4na4ra5e4se4yo4ña3cha5e5o3ead5n5r5s4en5s4ga0colegi4is4os4ra5o4ta5o3gad5r5s4ue3ica5o4ga5e5o4ja5o4ma5e5o4no4sa4ta4za3las4on3mad5n5r5s4en0colmes4os3obo4ca5o4na5o4ra5e5i5o4so4te4ño3par5s3uda5e5i5o4na4ro3zas2mais3bad5n5r5s4en5s4os3edi0comeis4ra5e4ta5e5i5o3ian5s4ca5o5s4de5o4go4no4sa5e5o4te4za3oda5o3pas4on4ra5e5o4to3tas4os3una0comuña2nana4to3cas4ha5o4ia4on3dal4es4ir4on5r3eja4xa5o3fer4ia5e5n5o3gal5s4io4os4ri3ica5o4za3oce5i4to0conque3rea5e5o3sta5e5o4ul3tad5l5r5s4en5o4ia5l4ra5e5i3uco3ven4oy2onas3pta5e5o2paba4da5o4is4no4ra0copare4se4zo3ead5n5r5s4ca5s4en5s4is4la5e5o4os4ra5o4ta5e3iad5n5r5s4en5s4la5e5o4na5e5o0copion3las4ea5e5o4on3osa5o3ras3tas4os3uda5o4la5e5o2quea5e5n5o5s4is2raba4da5o4is4je4na4ra5e4se4za0corbes3can5r5s4el4ha5e5o4or5s3dal4el4on3ead5n5r5s4en5s4ga5o4is4os4te3ies4on5s4ta5o4za3lad5n0corlar5s4ea5e5n5o5s3mas3nac5l4ea5e5o5r4il4os3ojo4la4na5e5o4to4za5o3pas4us3que3ral5n5s4ea5d0corree5n5o5s4ia5o4oa5e5i5o5s3sas4ea5e5o5s4os3tad5n5o5s4en5s4il4on5s3uas4ja4ña3vad5l5n0corvar5s4en5s4os3zas4os2saca5o4is3can5r5s4on3eis4no4ra5e3ian5s4da5o4ja5o3mos3pel5s3que5i3tad5l5r0costas4ea5e5o5s4il4on5s4ra5o2taba4da5o4is4na4ra5e4se3ear4is4ja5e5o4ra5o3ica5e4es4la5o4za5o0cotona4ta5o3ral3uas4da5o4fa4za2ulis2vaba4da5o4is4ra5e4se3eis2xcox2yota5e2zais2ñacs4zo3ean5r5s4en5s4te1ranea5e0craneo5s3sas4os3ter3zas2eaba4da5o4is4ra5e4se3cal4ed5n5s4ia5o3dos3eis4ra5e3ian5s4da5o3mad5n5r5s4en0cremes4or3pes3sas4os4pa5o4ta3tas3yer3zca5o2iaba4da5o4is4lo4ra5e4se3bad5n5r5s4en5s4os3cas4ri3dar3eis3men0crimno3nad5n5r5s4en5s3pta3sis4ma4ol4pa5e5i5o4ta5o2oaba4do4is4ja5e5o4ra5e4se4ta3che4os3eis3les3mad0croman5r5s4en5s4os3nes4os3que3ton5s2ucen5s3das4ia5o4os3eza3jan5s4en5s4ia5d5o5r5s3pal3ral3zad5n5r0cruzas1uabas3cha5e4os3das4os4ra5e3ima3jad5n5r5s4en5s4os3les3mil3ndo4ta5o3pes3rta5e4zo3sia3tas4es4is2bana5o0cubata3eba4ra5o4ta5o3ica5o4ja5e5o4la5e5o4to3ran5s4en5s4ia5d5o5r5s2caba4da5o4is4ra5e4se4yo0cucaña3had5n5r5s4en5s4is4os3uba5o4li4ya5o2dria5o2ecas4en5s4os3lan5s4en5s4ga5o4mo3nca5o4da4ta5e0cueras4do4ea5e5o4na5o4os4va5o3sco4ta5e5o3tes4os3vas3xca3zan5s4os2fica5o4fa5o2icas4os4uy3dad5n5s4en0cuides4os3jas4en3lio4la5e5o4os3nas4es4os3ses3tar5s4ea5e5o2jara3ies2lada4ta3ead5n5r5s4ca5o4en5s4ra5o0culias4os3les3men3ona4te3pad5n5r5s4en5o5s3tas4or5s3uca2mana5o4ru3bas4ea5e5o5s4ia4os3pas4la5e5i5o0cumula5e5o2naba4da5o4is4ra5e4se3cho5u3dan5s4en5s4ia5d5o5r5s3ead5n5r5s4en5s4is4os4ra5o4ta0cuotas4ea5e5o2pana3ido3les3ula2quea5e5n5o5s2raba4ca4da5o4is4ra5e4se4to3cas4os3das4os3eis4ña3ial5r5s4el0curies4os4ta3rad5n5r5s4en5s4os3sad5n5r5s4en5s4is4or5s3tan5s4en5s4ia5d5o5r5s4os3uba5o4ca0curucu4ja4ma4ro5u3vad5n5r5s4en5s4os2sais3cos4us3ian5s4da5o4ra5e4ta3mas3pas3qui3tra5e5i5o3ube4co4sa0cutete3ies3ral5s4es5z3usa2yada4na5o3eos4ro3uji2zcos4uz3mas2ñaba4da5o4is4pe4ra5e4se3eis4te1zarda0dabais3les2chas3ias4on0dacios2dera5o3iva3ora2game2ifas3mio2jaos2laga3ias4nd3lad5n5r5s4en5s2mero2ncen5s3dis3esa3gos3ica5o3tas4es4os3zad5n5r0danzas4on2rdos3eis3ian5s4co2taba4da5o4is4ra5e4se3ead5n5r5s4en5s4is4os4ra5o3iva5o3ura2ucos3das2vala5e5o0dañaba4da5o4is4ra5e4se3eis3ina5o3osa5o1eanes2bais4jo4ta5e5i5o3eis4la5e5o4ra5e3ian5s4da5o4ta5e5o0deblas3oca5o3uta5e5o5s2cada4ed5n5r5s4ia4na5o4pa5e5o4yo3ena5o4so3ian5s4da5e5i5o4ma5o3ora5e0decoro3usa5o2dada4lo4zo3eos4te3ica5o3ola5e5o3uce5i4je5o2feca5o4ri4sa5o4ña5o3iar4na5e5i5o3uir2gano2hesa0dehese5o2idad3smo4ta3xis2jaba4da5o4is4ra5e4se3eis2lado4nt4ta5e5o3cos3ega5o4ta5o3fin3gas3ias4os4ra5e5o4to0deltas3uda5e5i5o2mode4le5i4ra5e5o3uda5e5o2nega5o3gue3ota5e5o3sar5s4os3tad5l5r5s4on3uda5e5o2para0depare5o3ila5e5o4ra5e5o3one3ura5e5o4se5o4ta5e5o2rbis3iva5e5o3mis3oga5o3rui2sala5e5o4ma5e5o4se0desasi4ta5e5o3cae5i5s3dad5n5r5s4el5n5s4io4on5y3ead5n5r5s4ca5o4en5s4nd4os4ño3faz3gas3haz3iño0deslei4ia5e5o5z4oa5e5o3man3oia5d5r5s4ja5e5o4la5e5o4sa5e5o4va5e5o4ye5o3pea5e5o3que3tez0destin3uca5o4da5e5o4na5e5i5o4sa5e5o4ña5e5i5o3vai5n4ia5e5o2tall4sa3ene3ona5e5o3rae5s3uve5o0deudas4or5s3ton2vala5e5o4na5e5o5t3ela5e5o4ni3ina5e5o4sa3ora5e5o4ta5o2xtro2zmad5n5r5s4en5s1iabla0diadas4os3les3nas3ria5o3sen3zoa5e5o3ños2buja5e2chas4os3tad5n5r5s4en5s2dima5o2eces3dro3gos3nta5o3ran5s4en5s0dieron3sel5n5s4is3tad5n5r5s4en5s3zma5e5o2fama5e5o3eri3ila5o3lui3uma5e5o4sa5o2gais3eri3ita5e5o3nan0dignar5s4en5s4os2jera5e4se2lata5e5o3ema3uia5d5r5s4ya5e5o2mais4na5e5o3ero3ian5s4da5o4ra5e4ta5e0dimiti5o2namo3tel2odos3ica5o3nea3sas4es4ma2pnea5o3olo3uta5e5o2ques2rcea5o3eis3ham4em3ian5s4ge5i4ja5o4ma5e5i0dirimo2scad5l5n5r5s4os3eca5o4ña5e5o3ida5e5i5o4pa5e5o3nea3ona5e5o3par4on3que3tad5l5n5r5s4en0distes2tado3era5o3ono2ucas4on3rna5o2vaga5o3ida5e5i5o4na5e5o4sa5e5o2zque2ñaba4da5o4is4ra5e4se3eis1oblad5n0doblar5s4en5s5z4on5s2cena5o4ta3tas4os2gmas3res2laba4da5o4is4je4ma5e4ra5e4se3eis4ra5e3ian5s4da5o3man0dolmen3ope4ra4sa5o2maba4da5o4is4ra5e4se3bos3eis4ña5e5o3ina5e5o2naba4da5o4is4ra5e4se3cel3ear4is3osa5o0dopaba4da5o4is4je4ra5e4se3eis2raba4ce4da5o4is4ra5e4se3eis3ias4ca5o4os3man4ia5d5s3nas3sal4os2taba4da5o0dotais4ra5e4se3eis2vela5e5o2zava5o2ñead5n5r5s4en5s1rabas3cma3gad5n5r5s4ea4os4ue3mas4on3pea5e5o3que2enad0drenan5r5s4en5s2iada5e3bla5e5o3les3nos3zas2ogad5n5r5s4ue3pes2uida3pas3sas4os1sedas1uales3rte2bios3nio2cado3had5n5r0duchas4en5s4os3til4or5s2daba4da5o4is4ra5e4se3eis3osa5o2echa5o3lan5s4en5s4os3nda5e5o3rma5e5o4na5o0duetos3ñas4os2lces3ero3ias3zal4on5r2mais3ian5s4da5o4ra5e2ndas4os2plas4ex4os2ques2raba4do4is4ra5e4se3eis4za3ina3mio0ebanos2rias4os2urno1carte2cema2epto2haba4da5o4is4ra5e4se3eis3ona2loga2oica5o2tima2uleo2zema1dades2ecan3mas3nes2icto3las4es3tad5n5r0editas4en5s4or2raba4da5o4is4ra5e4se3eis3isi2ucad5n5r5s4en5s4ia5d5r5s3que3zca5o1fable2ebos3ndi3sia5o3tas0eficaz3gia5e5o2luia5d5r5s4ya5e5o2odes3ros2ugio3nda5e5i5o1gidas3pan2loga2resa5e5o1jabra5e5i5o3rbe2erce5i4za0ejerzo2idal4os2otes1lamis3nio3tas4os2ches2ebor3cta5o3gas4ia5d5o5s4os3mis3nco3pes3vad5n5r5s4en5s2idan5s4en5s4ia0elidid5o5r5s3gen5s4io5r3jad5n5r5s4en5s3pse3sea5o4ia5o3tes4ro3xir2mete2ogia5e5o3nga5o3tes2udan5s4en0eludes4ia5d5o5r5s1manad5n5r5s4en5s2bace4ia5d5r5s4jo4la5e5o4te4za5o3eba5e5i5o4ro3ica5o4ja0embije5o3oba5e5o4ca5e5o4ja5e5o4la5e5o4na5e5o4ta5e5o4za5o3rea5e5o3uda5e5o4ta5e5i5o0emelga3rge5i4ja5o3sis2igra5e5o3res3sor3tan5s4en5s4ia5d5o5r5s2paca5o4ja5e5o4la5e5o4na5e5o4pa0empape5o4ta5e5o4va5e5o4ña5e5o3ece4da5e5o4ga5o4la5e5o4pa5e5o4ro4za5o4ña5e5o3ica5o4la0empile5o4na5e5o4pa5e5o3lea5e5o3oce4pa5e5o4ra5e5o4ta5e5o4za5o3rad5n5r5s4en5s3uja5e5o0empura5e5o4ta5e5o4ña5e5o2ulad5n5r5s4en5s4os1nagua5e5o3lba5e5o3nar5s4ca5e5o4os4te4za5o3rca0enarco3spa5e5o4ta5e5o3tia5o2caba5e5o4da5e5o4ja5e5o4la5e5o4ma5e5o4na5e5o4pa5e5o4ra5e0encaro4sa5e5o4va5e5o4ña5e5o3ela5e5o4pa5e5o4ra5e5o4ta5e5o3ias4me5o4na5o4so3oba5e5o4ge0encogi4ja5e5o4la5e5o4na5e5o4ra5e5o4va5e5o4ña5e5o3uba5e5o4la5e5o4na5e5o2dama5e5o3eja0endeña5e5o3ina5o4ta5e5o4ña5e5o3ona5e5o4sa5e5o3ura5e5o2ebro3jad5n5r5s4en5s3ldo3mas3ros4va5e0enervo2fada5e5o4ja5e5o3iar4la5e5o3oca5o4ta5e5o3ria5e5o3usa5e5i5o4ña5e5o2gace4fa5e5o4ta5e0engato4za5o4ña5e5o3eño3iba5e5o4na3obe4la5e5o4ma5e5o4ra5e5o3rei4ia5e5o2hado3ena5e5o3ila5e5o0enhoto2igma2jaba5e5o3eba5e5o4co4ro4ta5e5o3ica5o3oya5e5o3uga5o4ma5e5o4ta5e5o2lace4ma5e5o4ta5e0enlato4za5o3ice4ga5o4za5o3oce4da5e5o4ma5e5o4sa5e5o4za5o3uce5i4ta5e5o2mara5e5o4ta5e5o3ela0enmele5o3ona5e5o4ta5e5o2odio3jad5n5r5s4en5s4on5s3yar2raba5e5o4ce4fa5e5o4ma5e5o4sa5e5o4ya0enraye5o4za5o3eda5e5o4ja5e5o3iad5n5r5s4ce4en5s4za5o3oca5o4da5e5o4ja5e5o4la5e5o4ma5e0enromo4na5e5o4ña5e5o3uga5o4na5e5o2saca5o4ya5e5o4ña5e5o3eba5e5o4na5e5o4ra5e5i5o4ña5e0enseño3ila5e5o3oga5o4pa5e5o4ta5e5o4ña5e5o3uga5o2tada5o4ma5e5o3eca5o4ja5e5o4la5e5o4na4os0entera5e5o4sa5e5o3iba5e5o4ce4la5e5o4na5e5o4sa5e5o4za5o3ola5e5o4na5e5o4ra5e5o4ña5e0entoño3rad5n5s4en5s4on3uba5e5o4ma5e5i5o4pa5e5i5o4ña5e5o2ulas2vaca5o4ra5e5o4sa5e5o3ega5o0envera5e5o3iad5n5r5s4da5e5o4en5s4ga5o4na5e5o4on5s4ra5e5o4sa5o4te2yesa5e5o3uga5o2zima1ocena0eoceno2lias4ca5o4os4to2sina1pacta3tad5n5r5s4en5s2icas4os3gea5o2ocas3das4os3xis2ulon1queco3ida5o4na5o4pa5e4te1raban0erabas3das4os3jes3las4es3mos3ndo3ran5s4en5s4ia5o4on3sen5s4te2bios2ebos3cha4ta5o3mos2gios3uen4ia5d5r5s2iaza5o0ericen5s3gen5s4ia5d5o5r5s3jan5s3nas4ge3zad5n5r5s4on5s2mita2ogad5n5r5s4ue2raba4da5o4is4ra5e4se0errata3eal4is3ona2ucta5e5o3tad5n5r5s4en5s4os2vato1sbara5e5o4te3oce4za5o2cais4jo4le5o4ma5e5o4pa5e5o0escara5e5o4sa5o4va5e5o4ña5e5o3ila4ta3oas4be5o4ca5e5i5o4da5e5o4ge5i4ja5o4la5e5o4ma5e0escomi5o4po4ra5e5o4sa5e5o4ta5e5o4yo4za5o4ña5e5o3uda5e5o4na4pa5e5i5o4ra5e5o4sa5o2enia0esenio2fera3oga5o4la5e5o4ta5e5o4ya5e5o3uma5e5o2guin2lava5o3eer4ir3ora2mena4ra5e5o3ola3uia5d5r5s4ya0esmuye5o4ña5e5i5o2nifa5e5o3obs2otra5o2pade5o4hi4is4la5e5o4ta5o3edo4ja5e4ra5e5o4sa5e5o4ta5e0espeto3iad5n5r5s4en5s4ga5o4na5e5o4on4ra5e5o4ta5e5o3lin3ora5o4se3uma5e5o4ta5e5o2quia5e5l0esquio5s2taba4ca5o4da5o4fa5e5o4is4ja5e5o4la5o4ra5e4ña5e5o3eba5e5o4ce4is4la5o4ma4pa4ra5e0estero4ta4va4za5o4ña5o3iba5e5o4la5e4ma5e5o4os4ra5e5o4va5o3oce4fa5e5o4la4ma4pa4ra4va5e5o0estoza5o3ral4es4ia5e5o4os3uca5o4fe5o4ra5e5o4ve5o2ulas2vara5e5o1tanol5s3pas3ria5o4ra2erea5o5s4na5o0etesio2icas4os3los3mos3ope3tes2neas4os3ias4ca5o2olas4ia5o4os2usas1ubeas4os2nuco2ripo1vacua5e5o3dan5s4en5s4ia5d5o5r0evadis3lua5e5o3sor2ento3rta5e5i5o2itad5n5r5s4en5s2ocad5n5r5s3que1xacta5o3lta5e5o3men3rca5o2cava5e5o0exceda5e5i5o4so3ita5e5o3lui3usa5e5o2ecra5e5o3dra3nta5e5o3rgo2hala5e5o3iba5e5i5o3uma5e5o2igen5s0exigia5d5o5r5s4ua5o3jan5s3lad5n5r5s4en5s4ia5e5o3man5s4en5s4ia5d5o5r5s3sta5e5i5o3tos0exodos3rad5n5r5s4en5s4na5e5o2pedi4la5e5i5o3iad5n5r5s4da5e5o4en5s4ra5e5o3one3res3use5o2tasi0extrae5s2udad5n5r5s4en5s3lta5e5o2voto1yecta5e5o0fabada3lar5s3ril3uco4la5e5o2cata4zo3era5o4ta5o3had5n5r0fachas4ea5e5n5o5s4os3ial4es4on3tor3ula2diga2enad5n5r5s4en5s3ton2gote5s2ical3nas4os3que3san2jaba4da5o4is4na0fajara5e4se4zo3ead5n5r5s4en5s4is4ro3ina2lago3cad5n5r5s4es4on3dar5s4ea5e5o4on3ena3ica5o4da5o3lad0fallan5r5s4en5s4os3opa3que3sad5n5r5s4ea5e5n5o5s4ia4os3tad5n5r5s4en5s4on5s3uas4ca2mbre3osa5o0famula5o2neca4ga3gal5r4os2quin5r5s2rala4on3dad5n5r5s4el5n5s4on5s3era5o3fan3ias4na4os4ña5o3ola4ta3pas0farras4ea5e5o4os3sar5s3tar2scal4es3tas4os2tiga5o4mi3uas4la5o4os2ucal4es3nas4os3sta5o3tor2vela3ila2xead5n5r5s0faxeen5s2yado3uca2zaña2ñaba4da5o4is4ra5e4se3eis3osa5o1ebeas4os3les3ril2chad5n5r5s4en5s4os3ial3ula2dega5o4ra5e0federo2faut2ismo2lice4da5o4na5o4pe3ona3pad5n5r5s4ea5e5n5o5s4os2maba4da5o4is4ra5e4se3bra3eis4ra3ina2nazo0fendas4is4oz3ece5i3ica5e5o2riad5l5n5r5s4da4en5s4na5o3lin3mio5s3odo3rad5r5s4ea5o5s4on5s3til3ula0fervor2stea5e5o4in4on2tida5o3uas2ucas4ha5o4os3dad5l5n5r5s4en5s4os3ras1iaban5s4le3cas3das4or5s3mos3nas4do0fianza3ran5s4en5s4ia4on3sco4en5s4te2bras3ula2ceis3had5n5r5s4en5s2deos4ua2ebre3les3mos3ras4os4ra5e5o2faba4do0fifais4ra5e4se3eis3ies2garo3les3ure5o2jaba4da5o4is4ra5e4se3eis4za3ona2laba4da5o4is4ra5e4se4zo3eis4li4na5o0filera4te3fas3iad5l5n5r5s4en5s4li3loa5s3mad5n5r5s4en5s3osa5o3tra5e5o3uda5o3van2naba4da5o4is4ra0finare4se3cad5n5r5s4ha5e5o3eis4sa4ta4za3gen5s4ia5d5o5r5s3ian5s4da5o4ra5e4ta5o3jan5s3oli3que0fintad5n5r5s4ea5e5n5o5s3ura2ofio3rdo2ques2rmad5l5n5r5s4en5s4on3ula5o2scal4os3gad5n5r5s4on4ue3ica0fisico4on3tas4ol5s4ra3ura5e5o2ucia3ses2zaba4da5o4is4ra5e4se2ñana1lacas4on5s3gra5e5o3mas4ea5e5n5o3nco4es0flatos3uta3vas4os2ebil3cha5e5o4os4ta5e5o3gma3jad5n5r5s4en5s3mas4es4on3tad5n5r5s4ea5e5n5o5s4os0flexor5s2ipad5n5r5s4ea5e5n5o5s2oema3jas4ea5e5l5o4os3rad5l5n5r5s4ea5e5n5o4in4on3tad5n5r0flotas4en5s2ueco3ian5s4da5o4ra5e3jos3ora5e5o3xes3yan5s4en5s1obias4ca5o2chas3ias4no4os3ulo2doli2gaje4ta3osa5o0foguea5e5o2lder3gar4os3iad5n5r5s4en5s4on5s3lad5n5r5s4en5s4on2mite2nazo3dac5s4ea5e5o4on5s4ue3ema0fonica5o4os3jes3ola3tal2ques2rada5o4na5o4ña5o3caz4ir3era5o3iga5o3jad5n5r5s4en5s3lon3mad5l5n5r5s4en0formes4ol5n3nel4ir3ofa5o3rad5n5r5s4ea5e5n5o5s4os3tin3ums3zad5l5r5s2saba4da5o4is4ra5e4se3cas4os0foseis3ura2tuto2veas2xino1radad5n5r5s4en5s3gas4il4or4ua5e5o3ile4re3mea3nca5o4ge5i4ja5e5o3que3sca5o4ea5e0fraseo5s4is3tas3ude3ñan5s4ed5n5r5s4ia2ecen5s3gad5r5s4on4ue3ian5s4da5o4la5e4ra5e3jol5n4ul3nad5n0frenar5s4en5s4os3sad5l5n5r5s4ca4en5s4no4on3tad5n5r5s4en5s3zad5n5r5s2iais3cad5n5r5s4es3ega0friego4ra5e4se3gia5o3jol5n3que3sad5n5r5s4ca4en5s4ia5o4ol5n5s3tad5n5r5s4en5s4os3ura2ogad5n5r0frogas4ue3nda5e4te3tad5n5r5s4en5s4is2ufru3gal3ian5s4do4ra5e3nce5i4za5o3tad5l5n5r4ea5e5n5o5s0frutos3yan5s4en5s1uchis3ila5e5o3sia2dres2egos3les4go4la5e5o3ran5s4ce4en5s4on5s4za5o3sen5s2faba4do4is4ra0fufare4se3eis3ues2gaba4da5o4is4ra5e4se3ida5o3uen5s2imos3nas3sca4te2lana5o3cir4ro3era5o3gen5s4ia5d5o5r5s0fulgor3ica4go3jan5s3las3mar2maba4da5o4is4ra5e4se4ta3eis3iga5o3ona4sa5o2ncad5n5r5s4he3dad5n5r5s4en5s0fundia5d5o5r5s4os3ene3gen5s4ia5d5o5r5s3jan5s3que2rcia3gon3ias4ca5o3lon3nia3ris3tar2sada5o3car5s4os3ila0fusile5o4on3tal5n5s4es4os2tbol3esa3res3ura4ta5o2ñica5o4da5o0gabasa4ta5o4zo3ejo4la3ina4ta3ote3uzo2cela4ta3has4es0gachis4on5s2dida5o2faba4da5o4is4ra5e4se3ead5n5r5s4en5s4is4te5i2gate3uea5e5o2itas2jero3osa5o2lana5o4po0galata4yo3ces3don3eas4ga4na5o4on5s4ra5o4sa3gas4os3iba5e5o4ca5o4ma4os3lad5n5r5s4ea5e5n5o5s4on0gallos3opa5e5o5s4ta3pon3uas2mada3baj5s5x4oa5x4uj5x3eto3ita5e5o3mas3una5o4za2naba4da4is4ra5e4se3cha3dir0gandul3eis4ta3gas3osa5o3sas4ea5e5o4os3tas4es3zua5e5o2ollo3nes2raba4ma4ta3bad5n5r5s4ea5e5n5o5s4in4on0garbos3cia3eta5e3fas4ea5e5o4io3gal4ol3ias4fa5o4os4ta5o3lad5n5r5s4en5s4os3mas3ojo4sa5o3pad5n5r5s0garpen5s3rad5n5r5s4ea5e5n5o5s4ia5d5o5r5s4on3uan5r5s4en4fa4jo3vin3zas4on5s2sajo3con3ead5n5r0gaseas4en5s3oil3tad5n5r5s4en5s4os2tada4zo3ead5n5r5s4en5s4ra5o3una5o4ña2ucha5o3don2vera4ta3ial5s4na0gavion3ota2yaba4da5o4is4ra5e4se4ta3eis3ola3uba2zapa5o3gaz3mia5e5o4ol3nad5n5r5s4en5s3uza2ñais3era5e4se3ian0gañias4do4ra5e3ote1ehena2iser4ha2laba4da5o4is4ra5e4se3dre3eis3fes3ida5o2mela3ian5s4do4na5e5o4ra5e3osa5o2nera0genere5o3ial4ca5o4os4pa3oli4ma3tes4il5o3uli2odas3ide2pida5o2rbos3man4en2stad5n5r5s4ea5e5n5o5s4or5s2tica0getico3ula5o1hanes1ibaba4da5o4is4ra5e4se3eis3osa5o2gote2lada3ies4to3vas4os2mais2neta2raba4da5o4is4ra5e4se3eis3ino3ola0gistes2tana5o1labra5o3cis3dio3nde3sea5e5o5s4to3uca5o3yos2ebas3ras2icol3des3fos3oma2obal4os3ria5e5o3sad5n5r5s4en0gloses3tal4is4on2uglu3mas3tea5n5o1nomon5s3sis1obios2ceis4te3has4os2deos4ña5o3iza5o2fios3rad5n5r5s4en5s2ldre3ead5n0golear5s4en5s4ro4ta3fan5s4ea5e5o4in4os3osa5o3pea5e5o5s3uba2mena4ra5o3ias4na4ta3osa5o2nada3cea5e5o0gonces4hu3ela4te3gos2rbiz3dal5s4or5s3gas4on5r4uz3ila3jal5s4ea5e5o3mad5n5r5s4en5s3ras4ea5e5o4in4on0gorros2spel2tead5n5r5s4en5s4le4os4ra5o3ica5o3ona4sa5o2zaba4da5o4is4ra5e4se3nes3ona4sa5o3que1rabad5n5r0grabas4en5s3cia5l3dad5n5r5s4en5o5s4os4ua5e5o3fia5o4os3gea3jas4ea5e5o4os3mad5l5n5r5s4en5s0gramil4os4pa3nad5n5r5s4ce4da4ea5e5l5n5o5s4os4za3pad5n5r5s4en5s4os3sas4or5s4po3tad5n5r5s0graten5s4il5n5s4os3vad5n5r5s4en5s3zna5e5o3ñon2ebas3cas4os3dal5s3gal3los3mio3sca4es3uge3yes3ñas2idar5s3ega0griego4ta5e5o3fad5n5r5s4en5s4on5s3lla5e5o3mas3nga5o3pad5l5n5r5s4en5s4os3sea5e5o5s4ma4on0grisus3tad5n5s4en5s4on5s3ñon2oaba4do4is4ra5e4se3eis4ra3gui3jos3mos3pos3sca4es5z4or5s2uera5o4sa5o3ian5s0gruido4ra5e3jan5s4en5s4ia5d5o5r5s3lla5o3mos3pal5s4is4os3tas3yan5s4en5r5s3ñan5s4en5s4ia5d5r0gruñis4on1uaban5s4os4ul3cal5s4ha5e5i5o4ia4os3dal4ra4ua3gra4ua3ica4mi4na4ra5o4ta4ño3jar5s4es3las4da5o0gualve3mas4es4il4os4pa3ndo5u4ga5o4in4os4ta5e3pas4ea5e5o5s4os3ral5n5o5s4da5e5o4ea5e5n5o5s0guaria5d5n5o5r5s4na5e5i5o4os4ra5o4te3sas4ca4ea5e5o4on5s4to3tas4ea5e5o5s4on5s3yad5n5r0guayas4en5s4os3ñil2bias2echo3ldo4fa5o4te3mul3ras4os3tos3yes3ñas2iaba4da5o4is4je4ra5e4se3eis3fas3jas4on5s3las4la0guille5o4os3mba3nas4da5e5o4ea5o5s4ga4ja5o4os3pad5n5r5s4en5s4il4ur3ras4es4is4os4re5o3sad5n5r0guisas4en5s4os3tad5n5r5s4en5s4on5s3yes3zga5o3ñad5n5r5s4en5s4ol5s2lags3lan3osa5o2mena3ias2rbia5o3das0gurdos3ies4pa4sa3ues4pa2sano3tad5n5s4en5s4os2zgas4os3las3man0habada5o4na5o3eis3ian5s4da5o4ta5e5o3lad5n5s0hablen5s3ran5s4ia2ceis4ra3had5n5r5s4ea5e5n5o5s4is4on5s3ian5s4na5e5o2dada5o2fnio2gais2igas2laba4da5o0halaga5o4is4ra5e4se3con3das4ea5e5o3eis3ifa4to3lad5n5r5s4en5s3oza2maca5o4go3bre3pas4on3udi2nega3gar2rapo3bad0harban5r5s4en5s3cas3das3eis4ms3ian5s4ja3mas3nal4ea5e5o3ona3pas4ia3rea5e5o4ia3tad5n5r5s4en5s4on5s0hasani3sio3tia5e5o2taca4da4jo3ead5n5r5s4en5s4ra5o3ijo2utes2vara2yaca4is3edo4na5o3uco2zana4ña1ebeta5e5o3ras4ea0hebreo2chas4or5s2dais3eis4ra5e3ian5s4do2gira2jira2laba4da4is4je4ra5e4se3ead5n5r5s4en5s4is4na5o4ra5o3ice0helion5s2mbra3ina2nazo3chi3ded5r5s4ia5d5o5r5s3ide3rio2rbad5l5r5s3cio3eda5e5o4ja5e3ian5s4do4ra5e3mas0hernia5e5o3oes3pes4il3rad5j5r5s4en4in4on3ula5o3ved5r5s4ia5d5o5r5s4or2sita5e5o3pan5s4en5s4ia0hespio5r5s2teas4os4ra3ica5o4ta3ria2veas2ñian5s4da5o4ra5e1iante3tos2blea5o2caco2dras4ia2ebre3dan5s4en5s4ra3lan5s0hielen5s4os3mal3nas4da5e5o3ran5s4be5o4en5s4os4ra5e4va5e5o2gado4ja4te3uis2jato3ead5n5r5s4en5s3ole0hilaba4da5o4is4ra5e4se4za3eis4ra5o4ña3ios3van2mnos3pad5n5r5s4en5s4la5e5o2ncad5n5r5s4ha5e5i5o0hincon5s3dis4us3oja5e5o3que2paba4do4is4ra5e4se3eis3ica5o4do3nal3osa5o3pie2rais3cos3mad5n5r5s4en5s3vio2scal0hiscas3opa5e5o3pan5s4en5s4ia5d5o5r5s2taba4da5o4is4ra5e4se3eis3ita2ñais3era5e4se3ian5s4da5o4ra5e0hoceis4ra5o4te3hio3ica5o4no2gaza4ño2jead5n5r5s4ce5i4en5s3osa5o3uda5o2lcos3ead5n5r5s4en5s3gad5r5s0holgon4ue3lad5r5s4in3mio2mbro2ndas4ea5e5o4on5s3gos3ora5e5o3rad5n5r5s4en5s2paba4do4is4ra5e4se3ead5n0hopear5s4en5s4is4os2ques2raco4da5e5o3cas4on5s3das4io3ita3mas3nad5n5r5s4ea5e5n5o5s4ia4os3rad5n5r0horras4en5o5s4or5s3tal2scas4os3tal4ia5l2vera5o2yaba4da5o4is4ra5e4se3eis3ita3osa5o2zaba4da5o4is4ra5e4se0huacal5s4ha5e5o4os3ico4no4ño3jes3ngo3rpe3sca2chas4ea5e5o2ebra3cas4os3lan5s4en5s4ga5o4la5e5o3mul3ras4ca0huerco4os4ta3sas4os4te3tar3vad5n5r5s4ea5e5n5o5s4il4on2iais3che5o3das4or5s3las4os4te3mos3pil3ran5s4ia0huiros3ste2jier2laba4do4is4na5o4ra5e4se3ead5n5r5s4en5s4is4ra5o3las3tes2maba4da5o4is4na5e4ra5e4se4za0humazo3ead5n5r5s4da5o4en5s4is4ra5o3ica5o4da5o4ta3osa5o2nche3dan5s4en5s4ia5d5o5r5s2raco4ña5o0hurera3gad5n5r5s4on4ue3ies3ona3ras3tad5n5r5s4en5s4os2sada3era5o3ita3mad5n5r5s4ea5e5n5o5s4os2tias0huyais3era5e4se3uya5o0ibamos2eras4ia5o4os2ices3dem2ones1cacos3rea5o4ia5o2emos2onos3res2tiol1dalia5o2eaba4da5o4is4ra5e4se0ideeis3osa5o2ilio3ota2olos3nea5o2umea5o1glues2nara5o4va5o3eas4os3ita5o3ora5e5o4ta5o2reja2uada5o4la5e5o4na3edo0ijadas4ea5e5o3res2illo3yos2ujus1lapso2egal3sas4os2iaca5o3ria5o2otas2udan5s4en5s4ia5d5o5r5s3sas4os1madas3mes3nad5n0imanar5s4en5s4ta5e5o2bele3iar3uia5d5r5s4ya5e5o2elas2illa3tad5n5r5s4en5s2pago4la3edi4la5e5i5o4ra0impere5o4to5u3ias4da5e5o4os3lad5n5r5s4en5s3one3une4ra5o4se5o4ta5e5o1nanes2cida5e5i5o4sa5o4ta0incite5o3lin4ui3oad5n5r5s4en5s4la4na5e5o3uba5e5o4sa5e5o2daga5o3exa5e5o3ias4ca5e5o4go4na5e0indino4os4za5o3ole3uce5i4je5o2edia3pta5o3rme4te4va5e5o2fama5e5o3era5i5o3ida5o4el4ja5o4ma5o3lad5n0inflar5s4en5s4ui3ula4sa5o2geri3les3ona3res2hala5e5o3iba5e5i5o3uma5e5o2icia5e5o4ua5o2jeri2mola5e5o4ta0inmoto3une4ta5e5o2nata5o3ota5o4va5e5o2ocua5o3pes4ia2sana5o3eri3ita5o3ola5e5o3tad5n5r5s4en5s3uda5e0insudo4la4ma5e5i5o2tima5e5o3uba5e5o4ia5d5r5s4ya5e5o2ulta5o3nda5e5o3til2vada5e5i5o3iar4da5o0invita5e5o3oca5o1onica5e5o4za5o1pegue2iles1queña5o1rania5o5s3qui3sco3yol2emos2gais3uen5s4io2iais3dea5o5s4io3les3sad0irisan5r5s4en5s3tis2onia2real3iga5o4ta5e5o3oga5o3uia5d5r5s4ya5e5o2unes3pes1satis2iaca5o3dra5o2lams3eos4ta0isleña5o3ote2ocas2tmos1talas4os2erad5n5r5s4en5s2rias4os1verna5e5o1xiles1zaban5s3das4os3mos3ndo3ran5s4en5s4ia4on3sen0izases4te2otes0jabada5o4li4ta5o3eba4ca4ga4ra3ies4no3les3ona5e5o3ran5s4en5s4ia5d5o5r5s3uco4go2capa4ra5o0jacena3has4on3tan5r5s4en5s3ulo2dead5n5r5s4en5s4os3iad5n5r5s4en5s2ecen5s3nes3zad5n5r5s2guar5s4el0jaguey2hari2ibas3mas3que2laba4da5o4is4pa4ra5e4se3das4es4os4re3ead5n5r5s4co4en5s4is4os3ifa3mas3ona5e5o2maba0jamada5o4is4ra5e4se3ban5r5s4en5s4ra5e5o3eis4te3ila3ona3uas4ga4ra5e5o2nana5o3gua2pona3uta2quea5e5l5o0jaques4ir2raiz4na5o4pa4zo3bad5n5r5s4en5s3cas4ha4ia5e5o3das3eta3ica5o4fa5e5o3opa5e5o4sa5o3rad5n0jarrar5s4ea5e5n5o5r5s4on5s2saba4da5o4is4ra5e4se3eis3pea5e5o5s4on2teos3ibs2udas4os3jas3las4es3ria3tas0jautos2vera2yana2zmin1edaba4da5o4is4ra5e4se3eis3ive3rea2itos2nabe2ques2rbos3gal5s4on3ife3pas3sey3uga2taba4da5o4is4ra5e4se0jetazo3ead5n5r5s4en5s4is3ona3uda5o1ibara5o3ias4on2cama4ra5o3ota5e2fera5o3ias2gote3ues2jead5n5r5s4en5s4os0jijona2leco3ote2maba4da5o4is4ra5e4se3eis3ias4os3pla5e5o2ncha5o3das3eta5e3gla5e5o3jol3ojo2otes2pata5o3iad5n5r0jipias4do4en5s4os2ride3pea5e5o2scas2taba4da5o4is4ra5e4se3eis2ñaba4do4is4ra5e4se3eis1obada3ero2chad5n5r5s4en0joches3osa5o4te2dais3eis4ra5e3ian5s4da5o4on3ona2glar3uer2joba4ta5o2lina5o4to3lin3ote2ndos3ias4ca5o4os3uco2paba4do0jopais4ra5e4se3ead5n5r5s4en5s4is4os2rcos3dan3fes3gas4es3nal3oba5e5o4po3rar4os2stra2tera5o2vial2yera5o3osa1uanas0juanes3rda2bada3ete3ila5e5o2caro2dgar3iar5s4on5s2eceo5s3gan5s4os4ue3ras4ga3yes3zas2gaba4da5o4is4ra5e4se3lar3osa0jugoso2icio3lin2jead5n5r5s4en5s4os4ña5o2lepe3ias4os2maba4do4is4ra5e4se3ead5n5r5s4en5s4is4ra2ncal5r4ea0juncen5o5s4ia5d5o5r5s4os3ene3gla3ior5s3tad5n5r5s4en5s3zan5s2pead5n5r5s4en5s3ona2quea5e5o2raba0jurada5o4is4ra5e4se3cos3dia3eis4ra5o2stad5n5r5s4en5s4os2tias2vias2zgad5n5r5s4ue2ñais3era5e4se3ian5s4da0juñido4ra5e0labaro3eos3ial5s4os3ora5e5o3rad5n5r5s4en5s4io4os3ura5e5o2caba4da5o4is4ra5e4se4ya5o3ead0lacean5r5s4en5s4is4na4ra5e5o3has4os3ias4os4va5o3ona3rad5n5r5s4en5s3tad5n5r5s4ea5n5o5s2dano0ladead5n5r5s4en5s4os4ra5o3ina5o3rad5n5r5s4en5s2gaña3opo3uas4na2ical5s4ho4os3lan3ren3smo4ta2jazo2mais3ban0lambas4da4ed5l5n5o5r5s4ia5o4on3eis4ra5e3ian5s4da5o4na5e5o3osa5o3pad5n5r5s4ea5e5n5o5s0lampos2nada5o3can4ea5e5n5o5s4ha5o3das4es4os4ra5e3era5o3gas4or3ias4os3osa5o3uda5o4za3zad5n5r5s4on0lapice4da5e5o4ta4za5o3ona3sos4us2quea5e5n5o5s2rdad5n5r5s4ea5e5n5o5s4on5s3eña5o3gad5n5r5s0largor5s4ue3ice4je3ras3val5s2saña3cad5n5r5s3que3tad5n5r5s4en5s4on5s4ra5e5o2tais4zo3ead5n5r5s4en0latees4ra5o3ian5s4do4go4na5e5o4ra5e4vo3osa5o3ria3via5o2ucha3dad5n5r5s4en5s4os3nas3rea5e5l5o4os0lautas4os2vaba5o4da4is4je5o4ra5e4se3eis3ija2xaba4da5o4is4ra5e4se3eis2yaba4da5o4is4ra5e4se3eis2zaba4da5o0lazais4ra5e5o4se3rar2ñaba4da5o4is4ra5e4se3eis1eales3mos2beni3rel4on2chad5l5n5r5s4en5s4in4on5s3tor2edor3mos0leeran5s4ia2gaba4da5o4is4jo4mo4no4ra5e4se4ña3ion3rad5n5r5s4en5s4on3uas4en5s4is2iais3ble3das4os3las3mas0leimos3smo4ta5e2jana5o4zo3ias4os3ote3ura2lili2mnia5o3pos2ncas3del3eas3ice4za5o3tas4or5s3zal2onas4es2pera5o3ras3ton2rcha0lerdas4ea5e5o5z4on5s3nea5o2sbia5o3ead5n5r5s4en5s4os4ra3ion4va5o3nas3tes2tame3eas4os3ijo3ona3ura2ucos3dad0leudan5r5s4en5s4os2vaba4da5o4is4ra5e4se3eis3iga5o4ta5e5o3osa3udo2xema3ica5o2yera5e4se2zdas3nas2ñaba4da5o0leñais4me4ra5e4se4zo3eis4ra5o3osa5o1iaban5s3das4os3mos3nas4do4ta5e3ran5s4en5s4ia4on3sen5s4te3ton3zas2baba0libada5o4is4ra5e4se3eis4la5o4ra5e5o3ias4ca5o4do4os3rad5n5r5s4ea5e5n5o5s2caon3eos3ias4os4ta5e0licito3tor3uad5n5r5s4en5s4or2dera5e5o3iad5n5r5s4en5s4os2ebre3gas4os3mos3nta5o4za5o3var2fara2gaba4da5o0ligais4ra5e4se3era5o3ios3ona3uen5s4la2jaba4da5o4is4ra5e4se3eis3osa5o2lacs4os3ili4os2maba4co4da5o4is4ra5e0limase4za5o3bos3eis4ra5o4ta4ña5o3ita5e5o3osa5o3pia5e2naje4os4za3cea5e5o5s4ha5e5o3dad5n5r5s4el0linden5s4on5s3ead5l5n5r5s4en5s4os4ra5o3fas3gue3ier4os3tel2ones3rna3sas4os2pido3oma3uda5o2quen2rada5o3ias4ca0lirico4os2sera3iad5n5r5s4en5s4na4on3tad5n5r5s4el5n5s4in4on5s3ura2taba4da5o4is4ra5e4se3eis4ra3ica0litico4ga5o4na4os3ote3res4os3uos2udad5n5r5s4en5s4os2vida5o4ng1lacas3gad5n5r5s4ue3jua3mad5n5s4ea5e5n0llameo5s3nas4ca4de4ea5e5o4os4ta5o3pad5n5r5s4en5s3res3vea5e5o5s4in2ecas4os3gad5n5s4ue3nad5n5r0llenas4en5s5z4os3ras3uda5e5o3vad5n5s4en5s2icta2oica3rad5n5s4en5s4on5s3sas3ved5r5s4ia5o2ucho3eca4va0llueve5o1oaban5s4le3das4or5s3mos3nda5o4za3ran5s4en5s4ia4on3sen5s4te2bada5o4to3ead5n5r5s4en5s4ra5o0lobina3osa5o3ulo4na5o2cata5o3ead5n5r5s4en5s4ra5o3has4es3ion3rio4os3uaz4ta5e5o2dera3osa5o4ño3ras2emos2gias0logica5o3rad5n5s4ea5e5n5o5s4os3uer2icas3nas4os3smo4ta2jana5o3eña5o2laje3ead5n5r5s4en5s3ita2mada4je3bas0lombos3ead5n5r5s4en5s4ra4ta3osa5o3uda5o2ncha4os3eta3gar5s4or5s4ui3jas2ores2quea5e5o2rcha3ead5n5r5s4en0lorees4ro3iga3zas2saba4da5o4is4ra5e4se3eis4ta3ina5o2tead5n5r5s4en5s4os4ra5o3ice4za5o2zana5o1ubina3ola5o0lucana5o3era5o4ta3had5n5r5s4en5s3ian5s4da5o4lo4na4on5s4ra5e3rad5n5r5s4en5s4os3uma5o2dada4is0ludiad5n5r5s4ca5o4da5o4en5s4on5s4ra5e3ria2egos3llo3nga5o2gano3res3ues2iais3das4os3mos3ran5s4ia3sas4es4mo0luiste2jaba4da5o4is4ra5e4se3eis3osa5o2lues2mbar4re3ias3pen2nada5o3ead5n5r5s4en5s4ta5o3fas3ula2pias4na5o3ulo0luques2rtes2stra5e5o2tada5o3eas4os3osa5o3ria2vias4ta2xaba4da5o4is4ra5e4se3eis2yais3era5e4se2zcan5s0mabies3les3olo2caba0macabi4ca5o4do4is4na4ra5e4se3ead5n5r5s4en5s4is4lo4os4ra5e5o4ta3had5n5r5s4ea5e5n5o5s4ia0machin5o5s4on5s3ias4ce4os4za5o3las3oca4na4pa3ros3uas4ba4ca5o4la5e5o4to2dama3eja4ro3ona3ras4ea5e5o5s0madriz3ura5e2esas4es4il3ñas4os2fias3ufa5o2gaña3iad5n5r5s4ca5o4en5s3mas3nas4os4um3ras4ea5e5o5z4os3uer5s0maguey4jo2hona2icea5e5o5s3dos3lla5o3mon3nel3ten4re3zal2jaba4da5o4is4no4ra5e4se3ead5n5r5s4en5s4is4za3zen0malafa4ga4je4ta5o4ya5o3dad3ead5n5r5s4en5s4ra5o4va5o4za3ies4na5o3lad5n5r5s4en5s4in4os3oca4ja0malojo4sa5o3sin3tas4ea5e5o5s4on3uca5o4la5o3vad5n5r5s4en5s4is5z4on2maba4da5o4is4ra5e4se3bis4la0mambos4ru3eis3ias4la4ta3ola4na4sa5o3uas4ja5e5o4ts2naba4da5o4is4ra5e4se4ti5o4zo3cad5n5r5s4er4he5o0manchu4os3dad5n5r5s4en5s4il5s4on5s4ra3ead5n5r5s4en5s4is4ja5e5o4ro4ta5o3fla3gad5n5r5s4la0mangle4on5s4ue3ian5s4da5o4es4ja4la5o4ra5e4ta5o3jar4ua3ojo4la5o3que3sas4ea5e5o4os3tas4ea5e5n5o0mantes4is4on5s4ra3ual4da5o2oris2pead5n5r5s4en5s4os3ire3uro2quea5e5n5o5s4is2rabu4ca5o4ti4ña5e5o3cad0marcan5r5s4ea5e5n5o5s4ha5e5o4ia5d5o5r5s4os3dal3ead5l5n5r5s4en5s4os4ra5o4ta3fil4uz3gad0margal5n5r5s4en4ue3ial5s4ca5e4da5e4na5e4ol5n4za5o3jal3los3mol5r3ojo4la4ma5o4ta5e3que3rad5n5r0marras4ea5e5n5o5s4os3sas4os3tas4in5r3ufa4ga4ja3zal5n5s4os2saba4da5o4is4je4ra5e4se3cad5n5r5s3ead0masean5r5s4en5s4is4ra3hca3ias4ca5o4la5o4ta4va5o3los3oca4na4ra3que3tel5r4il5n4os2taba4co4da5o4is4ra0matare4se4te3ead5n5r5s4en5s4is4os4ra5o4te3ice5o4ne5o4za5o3ojo4na4sa5o3raz4iz3ula4te2ulad5n5r5s0maulen5s4la5e5o4on3ras4es4os3ser2vita2xima5e5o2yaba4do4is4ra5e4se4te3ead5n5r5s4en5s4is4to3ido3ora2zaba0mazada5o4is4na4ra5e5i4se4zo3nad5n5r5s4en5s2ñead5n5r5s4en5s4ra5o3ios3oco4sa5o1bayas1eaban5s3das4os0meajas3mos3ndo4os3ran5s4en5s4ia4on3sen5s4te3tad4os3uca2cana5o4te5o3eis4ra5e3had5n5r5s4en5s4on3ian5s0mecida5o2dano4ño3iad5l5n5r5s4ca4da5o4en5s4na4os4ra5e4ta5e5o4um3rad5n5r5s4en5s4os3ula4sa2emos0megano3uez2hala2igas4os3tad2jais4la4na3eis4ra5e3ian5s4da5o3ora5e5o2laba4da5o4is4ra5e4se4za3cas3dar3eis4na5o0melera5o3gad5n5r5s4os4ue3ica5o4na5o4on4sa4to3lad5n5r5s4en5s4on3oja5o4na4sa5o4te3sas3vas2mada3ela0memora5e5o2naba4da5e5o4is4je4ra5e4se4za3das5z3ead5n5r5s4en5s4is4os4sa3gia4ua5e5o3hir3ina5o3jui0mensas4il4os4us3tad5l5r5s4es4ia5d5s4ol5n5r3uda5o4za5o2ollo3nas4es2raba4da5o4is4ra5e4se3cad5l5n0mercar5s4ed3ece5i4is3gon5s3ina5o4ta5e5o3las4in4on5s3mad5n5r5s4en5s3ode3que3sas3uca5o4sa2saba4da5o0mesais4na4ra5e4se3eis4ra4ta3ias4ta3tal5s4er4os3ura5e5o2tais4no4te3eco4is4ra5e4te3ian5s4da5o4lo3odo4pa0metras4os2zais3cal4la5e5o1iaban5s3dor3gad5n5r5s4ue3jas3mos3ndo3ran5s4en5s4ia4on3sen5s4ma4te3ñad5n5r5s0miañen5s2cado3has4es4os3ron5s3ure2dais2edos4ro3lan5s4en5s4ga5o4sa3mos3nta5e5o3ras4da4la4ra3ses2gaba4da5o4is0migaja4ra5e4se3rad5n5r5s4en5s3uen5s2hrab2jero2lano4ra3deu4iu3ena5o4on3iar4co4ta5e5o3lar5s4on5s3oca4rd0milpas4ea5e5o2maba4da5o4is4ra5e4se3bra5e5o3eis3ica5o3osa5o2naba4da5o4is4ra5e4se3eis4ra5o3gad5n5r0mingas4os4ue3iad5n5r5s4en5s4ma5o4na5o4os3ora5e5o3tio3ues4ta5e2omas3nas3pes4ia3sis2quis2raba4do4is4ra5e0mirase3eis3lan5r5s4en5s4os3ona3ras3tos3zas2saba4do4is4ra5e4se3eis4ra5o3ias4on5s4va5o3mas4os3tad5n5r5s0misten5r5s4ol5s2tayo3ica5o4ga5o3ote3rad5l5n5r5s4en5s3ulo2uras2xoma3tas4os2zcal2ñona4sa1oares2blar2caba4da5o4is0mocana5o4ra5e4se3ead5n5r5s4en5s4ro4te4ña3had5n5r5s4en5s4il4os3ion4ta5o3lin3osa5o4vi2dela5e5o0modems4ra5e5o3ica5o4os3osa5o3ula5e5o2eres2faba4da5o4is4ra5e4se3eis4ta3lea5e5o4ir2gata5e5o3ola4na4te0mohada3ece5i4da4ña5o3ina5o3osa5o2ises2jaba4da5o4is4ma4ra5e4se3eis4ra4te4ña5o3ies4na4to3ona5e5o2laba4da0molado4is4ra5e4sa5e3dad5n5r5s4ea5e5n5o5s3eis4ja4ra5e5o4ta4ña5o3ian5s4da5o3lar5s4ea5e5o0molles5z4ir3ona4sa5o4te3sas4os2mead5n5r5s4en5s4ra5o3ias4os2nada4go3dad5n5r5s4en5s4on5s3ead5n5r0moneas4de5o4en5s4ma4ra3fis3gas4ol5s3ita5o3jas4es4ia5l5o3ona4te3ras3ses3tad5n5r5s4ea5e5n5o5s4on0montos3zon2quea5e5n5o5s2raba4da4ga5o4is4ra5e4se4to4va5o3bos3cad5l5n5r5s4on3daz4ed5r5s4ia5o3eas0moreda4is4na5o4os4ra4te3fad5n5r5s4ea5n5s4os3gas4on4ue3ian5s4ra5e4to3les4on3man5r5s4en5s4on3ojo0morona4sa5o3que3ral5s4ea5e5o4on5s3sas4es3tal3uga5o4la4na5o4ro4sa2scad5n5r5s4on5s3que3tea5e5n5o0mostos4ra5e5o2tacu3ead5n5r5s4en5s4ja5e5o4ra5o4te3ila5e5o4va5e3ora4sa5o3ril5z3uda5o2usse2vais3eis0movera5e3ian5s4da5o2yana2zote2ñita3ona3uda5o1uares2bles2cama5o4ra3eta3has4in4os3osa5o3ura2daba4da5o4is4ra5e4se3eis0muebda4la5o3cas4in3lan5r5s4en5s4le4os3nda3ran5s4da5e5o4en5s4go4mo4ta5o3sca5o4os3van5s4en5s2flas0muflir3tis2gaba4da5o4is4ra5e4se3ian5s4do4ra5e3les3res4on3uen5s5t2iais3das4os3mos4uy3ran5s4ia3sca4te2jada4is0mulada5i4ta5o3eos4ra5o4ta5o3ita5o3lan5s4en5s4ia5d5r5s4os3sas4os3tad5n5r5s4en5s2ncha5o3dos2ones0muquir2raba4da5o4is4ra5e4se3ceo4io3eis4na4ño3gas4on3ias4ce4do3ria5e5o3tal5s4on5s2sais3cas4os3eal4os4po3gas0musgos3ian5s4co4do4ra5e4ta5e5o4vo3lim4os3mon3ola3tia5e5o3uca5o2taba4da5o4is4ra5e4se3eis3ila5e5o3ras0mutros3ual5s4os2yais3era5e4se2ñais3eco4ra5e4se3ian5s4da5o4ra5e0nababo5s4to3ies4na4za3las3ori2cara3eis4la4ra5e0nachas4os3ian5s4da5o2daba4do4is4ra5e4se3eis2frad5n5r5s4en5s3tas2gual5s2hoas3ual5s2iboa3fes3lon3pea5e5o5s0naires2lcas3gar5s4on2mora5e5o2ncea5e5o5r5s4he5i3ead5n5r5s4en5s3ita3sas4us3tad5n5r5s4en5s2palm3eas0napelo4os4ña5o3ias2ques2rcos3dos3ina3rad5n5r5s4en5s4ia3tex3val2scer3uda5o2tias4os4va5o3ral4is4on3ura2usea5e5o0nautas2vajo4zo3ega5o4ta3ios2yade2zari3can5s3ora3ula1earca2beda3ies3lis3ral4os2cead5n5r5s4en5s3ias4os3ora3tar4on2gaba4da0negado4is4ra5e4se3ral5s4ea5e5o4or5s2ises2ldos2meas4os2neca5o3ias2ones2pote2rita3oli3vea5o4ia5e5o2scia5o3gad5n0nesgar5s4ue2umas3ral3tle4ra5o2vaba4da5o4is4ra5e4se4zo3eis4ro3iza3osa5o1iales3ras3zos2cena5o3hes4os3les2dada3ias4os0nidria5o2ebla3gan5s4os4ue3lad5n5r5s4en5s3rvo3tas4os3van5s4en5s2gola3uas2mbad5n5r5s4en5s4os3ias4os2nfas0ninfea4os3gun3ots2obio2pona2quel4is2sayo3tes2tida5o3rad5l5n5r5s4en5s4os2veas4la5e5o4os3osa5o2xtes2ñada4ta5o3ead0niñean5r5s4en5s4ra5o4ta1obles2ceda3hes3ion4va5o3las2dulo2emas3sis2gada2lies2mada5e3bra5o3ica5o4na5e5o2nada4ta5o0noneca5o3ios4us2quea5e5o5s2rais3ial5s3mad5l5n5r5s4en5s3tea5e5o5s2taba4da5o4is4ra5e4se3eis3ros2vaba0novada5o4is4ra5e4se4ta5o3eis4le5o4na5o3iad5n5r5s4en5s4os1ubada5o3ias4os3lad5n5r5s4en5s4os3osa0nuboso2ches3leo2dosa5o3rir2eces3ras3vas4es4os3zas2mera5e3ida2ncio2tran5s4en5s4ia5d5o5r5s5z3ual0obceca5o2elos3sas4os0obices3spa5e5o3tos3ubi2jeta5e2lada4ta5o3eas3iga5o4to2olos2raba4da5o4is4je4ra5e4se3eis4ra5o3izo2sesa5o3tan5r0obsten2tene3ura5e5o4sa5o4ve5o2uses2viad5n5r5s4en5s4os1cales3pis3sos2cisa5o2eano3los3nas2hava5e5o2iaba4do4is4ra0ociare4se3eis3osa5o2luia5d5r5s4so4ya5e5o2oeña5o3tal4es3zol2tano4va5e5o3eto2ujes3lar4ta5e5o3mes4os3pad5n0ocupar5s4en5s3rra5e5i5o4so1diaba4da5o4is4ra5e4se3eis3osa5o3sea2rero3ina1estes1fenda5e5i5o4sa3rta5e5o2fset0oficia5e3dio3tas2rece5i3ica5o2usca5o1hmica5o4os1iamos2bles2dios3ora2gais2reis3ian5s2slos1jalad5n5r5s4en5s3nco2eaba4da5o0ojeais4ra5e4se3eis3nes3ras3tea5e5o5s2imel3tos3val5s2oche3sas4os3tas2udas4os1lajes3mos2eaba4da5o4is4je4ra5e4se4za0oledor3eis3ico4na3mos3osa5o3ran5s4ia2fato2iais3das4os3era5e4se3mos3ngo3sca5o4te3vad5n5r5s4en5s4os2lado4os3era0ollero4ta3uco2meca4da5o2ores3tes2vida5e1magua3nis3sos2bria3ues2egas3nto3ros3yas2inad5n5r5s4en5s3sas4os3tan5s4en5s4ia0omitid5o5r5s2otos1nagra5o2cead5n5r5s4en5s4jo4na5o3ita2dead5n5r5s4en5s4os3ina3osa5o3rar3ula5e5o2eced0onecen5r5s4ia5o3zca5o2ices3que2osma3tos2tica5o4na2usta5o2zava5o1olito1pacad5n5r5s4os3das4os3los3nte3que2cion2enes3rad0operan5r5s4en5s4ia2iada5o4ta5o3lan5r5s4en5s3mas4os3nad5n5r5s4en5s2oned5n5r5s4ga5o4ia3rto2rima0oprime5i5o2taba4da5o4is4ra5e4se3eis3ica5o4ma5e5o2ugna5e5o1raban5s3das4or5s3jes3les3mos3ndo4es4te3ran5s0oraren5s4ia5o4on3sen5s4te3tes2bita5e5o2ceis3ina2dago3ena5e5o4ña5e5o3iga2eaba4da5e5o4is4ra5e4se3bce3eis0orejas4ea5e5o4on3mos3nga4se4za3ros2feon3ica5o3res2gano3ias2ibes3gen3lle5o3nad5l5n5r5s4en5s3pie3ves2laba4da5o0orlais4ra5e4se3eis2mesi3ino2naba4da5o4is4ra5e4se4to3ead5n5r5s4en5s4is2onda5o4es4ja3pel3yas3zuz2tega3iga4va0ortivo3osa2ugas3jos2zaba4do4ga4is4ra5e4se4ya3oyo1saban5s3das4ia4os3mos3ndo3ran5s4en5s4ia5o4on3sen5s4te2cila5e0oscilo3ulo4ra2eaba4da5o4is4ra5e4se3eis3mos3ras4ia4os3zno2mios2osas4os2taga3ero3ial5s4on3ral5s4on5s3ugo2udas4os3nas0osunos1taria5o3tal4es2eaba4da5o4is4ra5e4se3eis3ros2ilad5n5r5s4en5s3tis2obas3man4ia3rga5o3ñad5l5n5r5s4en0otoñes4os2raño3ora4si2ubre1utput1vaban5s3das4os3lad5n5r5s4en5s4os3mos3ndo4te3ran5s4en5s4ia5o4on3sen5s4te2ejas0ovemos3ras4ol5s2idos3les4la5e5o3nas4os2oide3los3sas4os2ulad5n5r5s4en5s4os1xalme2eaba4da5o4is4ra5e4se3eis2idad0oxidan5r5s4en5s4os3mel3uro1yendo4te3ran5s4en5s4on3sen5s1zenas2onas4os0pabilo3lar3ulo2cada5o4es4na4ta5o4ya3eis4ra0pacere4ña5o3has4on5s3ian5s4da5o4on3ora4ta3tad5n5r5s4en5s4os3ues2ddle3ece5i3rea5e5o5s4on2fias4os3lon0pagaba4da5o4is4lo4na5o4ra5e4se4ya4za3ine5o3oda4te3ros3uas4en5s4ro2huas2icos3las4on3nas4el3pai5y3rad5n5r0pairas4en5s4os3ses2jada5o4ra4za5o3ead5n5r5s4en5s4ra5o3iza5o3osa5o4te3uil4na5o4zo2lada5o4zo3cas4os0palead5l5n5r5s4en5s4ra5o4ta5o3iad5n5r5s4da5o4en5r5s4os4to4za3lad5n5r5s4en5s4on3mad5n0palmar5s4ea5e5n5o5s4os3omo4te3pad5n5r5s4en5s4is4os3qui3tas4os3uda5e5o2mbas4il3ela4ma3pas4ea5e5o0pampon3ues2nace4da5o4ma4re3cas4ha5o4it4os3dar5s4ea5e5o4os3ela4ra5o3gal5s4ue3ica5o4da4zo3jis3oja4li4sa0panoso3que3sas3uda5o3zas4on2paba4da5o4is4ra5e5o4se4ya5o3ead5n5r5s4en5s4is4ra5o3ila4on4ro4sa3ona3uas0papuda5o4es4la2quea5e5o4in2raba4ca4do4is4je4ma5e5o4os4ra5e4se4ta3cas4es4ha5e5o4ir4os3dal5s4ea5e0pardeo4os3ead5n5r5s4ce5i4en5s4is4ja5o4os4sa3gos3ian5s4da5o4os4pe4ra5e3lad5n5r5s4en5s4on3nes0parola5i3pad5n5r5s4en5s3qui3rad5l5n5r5s4el5n5s4on5s3sec4is3tan5s4ea5e5n5o5s4ia5d5l5o0partir5s4os3vas4os2saba4da4is4je4ra5e4se3cal4on4ua3ead5n5r5s4en5s4is4os4ra5o3ion4to4va5o3mad5n5r0pasmas4en5s4on5s3osa5o4ta5e3pan5r5s4en5s4ie3sim3tad5n5r5s4ea5e5n5o5s4le4on5r5s3uda5o4la0pataca5o4da4je5u4os3ead5n5r5s4en5s4na4os4ra5o4ta3ies4na5e5o4os4to4za3oja5o4na4sa5o4ta3ria5o0patron3uco4da5o2ujil5s3lad5n5r5s4en5s3sad5n5r5s4en5s3tad5n5r5s4en5s4os2vada4na3era5o4sa3ias4da0pavido3ona5e5o3ura2xtes2yaba4da5o4is4na4ra5e4sa5e4ya3eis4sa3ula5o2zcan5s4on3ote2ñera5o4ta5e5o3ito3osa5o0pañusa5o1eajes3lad5n5r5s4en5s3mos3nas4es3ton3ñas2beta5e3ida3res2caba4is4ra5e5i4se3era5o4to4ña5o3had5l5n0pechar5s4ea5e5n5o5s4il5n4os3ina4os3ora4sa5o3tad5n5r5s4en5s2dazo3ian5s4da5o4os4ra5e3ral4ea5s0peemos3ran5s4ia2gaba4da5o4is4ra5e4se4ta3ona4te3ual4en5s2huen2iais3mos3nad5n5r5s4en5s3ste2jina5o2laba4da5o0pelais4je4ra5e4se4za3des3ead5n5r5s4en5s4is4la5e4on4ro4te3gar3las4in4on5s3mas3ona4sa5o4te5o3tas4re0peluca4da5o4es4sa3vis2naba4da5o4is4me4ra5e4se3cal5s4os3dan5s4ed5n5r5s4ia5l5o4ol5n4ra5e5o3eca0peneis4ne4ra5e5o3ino3osa5o3sad5s4el4il2ones4ia5o4za3rar5s4es4ia2pazo3ena5e5o3ian4on4ta5o3las4os4um3ona0pepues2quen5s4in2rada3cal5n5s4ha5e5o3ded5s4ia5o5s5z3ece5i4da4ne4ro4ta5o3fil3gal3ica5o4ma5e5i5o0perine4ta5e5o3lad5n5r5s4en5s3mea5e5o3nas4ea5e5o4il5o4os3ojo4la4ne4ra5e5o4te3que3ras4ea5e5o0perros3sas3tas3ues2saba4da4is4je4me4ra5e4se3cad5n5s3eis4ra5o4ta5e3gar4ua3iar4ma5o3que3tes3uda5o4ña5o2taba0petaca5o4do4is4lo4ra5e4se5o4te3eis4ra3isa5o5u4za5o3ral5s4ea5l5o2ucos3mos2yera5e4se3ote2zuña2ñedo4ra5e0peñero3ola1iaban5s3che3das4or3fad5n5r5s4en5s3lad5n5r5s4en5s3mos3ndo4es4os4ta5e5o3ran5s4en5s4ia4oa0piaron3sen5s4te2caba4da5o4is4na4ra5e5o4se4za5o4ña5o3eas4os3has4el5s4in5s4oa5n5s3ola4na4sa5o4ta0picote3uda5o4ya2dais3gin3ola4na2edad3jos3les4ga5o3mos3nsa5e5o3rda5e5o4ia5o3sco3zas4go2fano4ro3iad5n5r5s4en0pifies2gmea5o3res3uas2huas2jada3ije3ota5e3uda5o4yo2laba4da5o4ga4is4ra5e4se3cas4ha3eis4os4ra5o4ta3ila5o3lad5n0pillar5s4ea5e5n5o5s4os3mes3oro4sa5o4ta5e5o3pil3tra5o3ven2mpin4la5e5o2nada5o4to4za3cen5s4ha5e5o0pineal4da5o4ra5o3gad5n5r5s4os4ue3ito3jar3nas3ole4sa5o3rel3tad5n5s4ea5e5n5o5s4on5s3uca4la3zad5n0pinzar5s4on2ocha3jos3lad5n5r5s4en5s5t4in3nas4es4ia3rno2paba4da5o4is4ra5e4se3eis4ra5o4ta4ño3iad5n5r0pipias4en5s4la4ta3ona4te2quea5e5n5o5s2raba4da5o4is4ra5e4se4ta4ña3cad5n5r5s4os4un3eca4is3ica5o4pi0pirita3las3opo3que3ran5r5s4en5s4is4ol3ues4ja5o4la5i5o2saba4da5o4is4na5o4ra5e4se3cas4is4os3eis3pad5n0pispar5s4ea5e5n5o5s3tad5n5r5s4ea5e5n5o5s4on5s2taba4co4da5o4is4os4ra5e4se4ya5o4zo4ña3ead0pitean5r5s4en5s4is4le4ra5o3ias4ca5o4do4ma4os3ora4te3pit3reo3uca5o4da5o4sa5o4to2ujar3lad5n5r5s4en0piules3nes3res3ses2vota5e5o5s2xide3ton2yama2zate3cad5n5r5s4os3ote3que2ñata1lacad5n5r5s4ea5d5e5l5n5o5r5s0placet4ia5o3fon3gad5l5n5r5s4ia5e5o4ue3nas4co4ea5e5o5s4ga4os4te5o3que3sma5e5o4ta5e3tal5s4ea0platee5l5o4on5s3uso3yad5n5r5s4en5s4on5s3zas4ca5o4os3ñan5s4en5s4ia5d5r5s2ebea5o5s3cas3gad5r0plegas4ue3ita5o3nas4os3pas3ura3xos2icas3ega5o3nto3sad5n5r5s4en5s2omad5n5r5s4ea5e5n5o5s4os3rar2umas4ea0plumee5o4in4on3ral3ses3teo3via1neuma1obeda3lad5r5s3res2cero4ta3has4os3ima4on3oyo3ulo2daba4da5o4is4ra5e4se3eis3ian5s0podida5o4os4um3ran5s4es4ia5r2emas3sia3tar5s2inos3sas4es2laca5o4da3cad5n5r5s4os3der3eas4os4ra4vi3ice4da5o0polios4po4za3las4ea5e5o5z4os3olo4na5o3que3uta5o3vea5e5o4os2mada3elo3pas4ea5e5o4is4on5s3ulo2nasi3cha5e0poncho4il5s3dra5e3eca4is3gan5s4os3ian5s3tea5e5o4in4on5s2paba4da5o4is4ra5e4se3eis3lin3ote3tis3ulo2quer4il0porcal4el4he3fia5e5o3gad5n5r5s4ue3nos3oro4sa5o4ta5o3que3ral5s4ea5e5o4on5s3tad5l5n5r5s4ea5e0porten5o5s4on5r2saba4da5o4is4ra5e4se3cas3ean5s4ed5n5r5s4ia5s4ra5o4sa5o4yo3ito3mas4os3pon3tal5r0postas4ea5e5o5r5s4in4on5r4ra5o2taba4da5o4is4je4la4ra5e4sa5e3ead5n5r5s4en5s4is4ra5o3ito3oca0potoco4si3ras4ea5e5o4il4os2visa2yaba4do4is4ra5e4se4ta3eis2zole1radal4os3sio4ma3vas4os3xis2eces4ia5e4oz3dar4io3gar0pregon3mia5e5r3nda5e5i5o4se5o3pea5e5o4on3sar5s4ea4os4ta5e5o3tal4il4or3vea5d5n5o5r5s4ia5o0preñad5n5r5s4en5s5z2iado3ego4sa4ta5o3mad5l5n5r5s5z4ea5e5n5o5r5s4or5s4us3nga5o3ora3sas4co0prisma4te3vad5n5r5s4en5s2obad5r5s4os3caz4er4os3eja5e5o4za3fas4es3gne3les3nas4os4ta5o3pao4ia5o4on3ras0prosas4ea5e5o3teo4io4on3vea5e5i5n5o2ueba5e5o3ina3nas4os1sique1tosis1uaban5s3das4os3mos3ndo3ran5s4en5s4ia4on0puasen5s4te2bera5o3ica5o2cara3ela3has4es4is4os3ias2dela5e5o3ica5o4os3ran5s4en5s4ia5d5o5r5s3ues2ebla5e0puedan5s4en5s3mos3rca5o4il4ro4to3sta5o2gnad5n5r5s5z4en5s2jaba4da5o4is4me4ra5e4se3eis3ido2lais3cra5o0pulgar5s4on3ian5s4da5o4ra5e3lad5n5r5s4en5s3mon3pas4ea5e5o4os3que3sad5n5r5s4ea5e5n5o5s4os0pulula5e5o2mita2nais3cen5s4ha5e5o3eña5o3gas4en5s4ia5d5o5r5s3ian5s4ca5o4da5o4ra5e3jan5s3tad5l0puntan5r5s4ea5e5l5n5o5s4os4ua5e5o3zad5n5r5s4on5s2paba4do4is4ra5e4se3eis3ila5o3osa5o3usa2quio0purana3ead5n5r5s4en5s4ra4te4za3gad5n5r5s4ue3ica5o4na3ran5s4en5s4ia5d5o5r5s3uha2spas4os2tada3ead0putean5r5s4en5s4ro3uto5u2yaba4da5o4is4ra5e4se4zo3eis3uda5o2zles2ñada5o3era4ta5e0quasar3ter2ebra5e5o3che4os0quedad5n5r5s4en5s4os3gua3jad5n5r5s4en5s4os3mad5n5r5s4en5s4is4on5s3nas3pan5s4is3ras4ed5r5s0queria4os4ra5e4ub4va3sea5e5o4os3tro3ule2iaca3bey3che4io3dam3era5e5o4ta5e5o3jal5r4os3las4la4ma4os3mas4ba0quimbo4on5s3nal5o5s4ce4de4es4go4os4ta5e5o4ua3ote3pas4us3que3rie3sas4ca5o4es4ta5e5o3tad5n5r5s4en0quites4on5s4us3vis3zas3ñad5n5r5s4en5s4on5s2orum0rabada4no3ead5n5r5s4en5s4os4ra3iad5n5r5s4ca5o4da0rabido4en5s4la5e5o4no4on4ta4za3ona4sa5o3uda5o4la2cana5o3ead5n5r5s4en5s4ro3had5n5r5s4ea5e5n0racheo5s3ial4ma5e5o4on2diad5l5n5r5s4ca5o4en5s4os2edor3mos3ran5s4ia2faga3ead5n5r5s4en5s3ias2glan3uas0rahali2iais3ble3cea5e5n5o5s3das4os3gal5n5r5s4on3jos3les3mos3nes3ste3zad5n5r5s2jaba4da5o4is4ra5e4se3eis0rajeta3ona2lbad5n5r5s4en5s3ead5n5r5s4en5s4on5s4za3lad5n5r5s4en5s4on5s3vad5n5r5s4en5s2mada0ramaje3bla3ead5l5n5r5s4en5s4os4ra5o3ial4la4na4os4ro4to4za3nea5o3ojo4na4sa5o3pad5n5r5s4en5s3uja0ramujo2ncar4ha5e5o4ia5e5o4la5e5o4or3das4ea5e5o3ero3gos4ua3ina4ta3ula4ra3zal4on2paba4da5o4is4ra5e4se0rapaza3eis3ida4na4ta4ña5e5o3osa5o3tad5n5r5s4en5s4or5s3uce4za5o2quea5e5o5s4is2read5n5r5s4en5s0rareza2saba4da5o4is4ra5e4se3cad5n5r5s4le4on3eis4ra5o4te3gad5n5r5s4on5s4ue3ies4on3mia3pad5n5r5s0raspea5e5n5o5s4on3que3tel4ra5e5o3ura5e5o2tead5n5r5s4en5s4os4ra5o3iga5o4na5e5o4os4ño3ona5e0ratono2ucas4os3dal5s4os3lis3tas2viol2yaba4da5o4is4na5o4ra5e4se3eis4ra5e5o4se3ido3osa5o2zada5o4go3ias3ona5e0razono1eabra5e5i5o3cia5o3jes3las4ce4es4me4za5o3mad5n5r5s4en5s3rad5n5r5s4en5s4ma5e5o3tad5n5r0reatas4en5s4os2baba4ja5e5o4na5e5o4sa5e5o4ta5e5i5o4ña5e5o3eca5o4la5e5o3ina5e5o4ta5e5o0reblad5n5r5s4en5s3oce4jo4sa5e5o4ta5e5o4za5o3ufa5e5o4ja5e5o4ta5e5i5o2caba5e5o4da5e5o0recaed5n5r5s4ia4la5e5o4ma5e5o4ta5e5o4va5e5o4yo4zo3eba5e5o4is4ja5e5o4la5e5o4sa5e5o0recete5o4ñi3ial5s4ba5e5i5o4en4os4pe4ta5e5o4ña5e5o3les4ui3oce5i4da5e5o4ge5i4ja5o4la5e5o0recoma5e5i5o4rd4sa5e5i5o4va5e5o3rea5e5s4ia5e5o3tad5l5n5r5s4en5s4or5s3uas4da5e5i5o0recula5e5o4ra5e5o4sa5e5o4ña5e5o2daba4da5o4is4ra5e4se4ya4ño3eci4is4ra5o4ña3ice4ez4ga5o4je5o0redila5e5o4ma5e5i5o4os4ra5e4to3ola5e5o4ma4ra5e5o4va3rar4os3uce5i4je5o2fajo3eri3ina5e5o3lex4ui0refran4ei4ia5e5o3uta5e5o2gaba4ce4da5o4is4jo4la5e4ra5e4se4ta5e5o4za5o4ña5e5i5o3gae3ian5s4da0regido4on5s4ra5e3lad5n5r5s4en5s4on3ojo4na3ula5e5o2hace4ga5o4la5i4ra5e3eri3ice4la5e5o4zo3oga5o0rehoya5e5o3uia5d5r5s4sa5e5o4ya5e5o2iais3das4or5s3lad5n5r5s4en5s4on3mos3nad5l5n5r5s4en5s0reinos3ran5s4ia3ste3tre2jaca5o4da5o3ega5o4ra5o3ita5e5o2lace4ja5e5o4ma5e5i5o4ta5e5o4va5e5o4za0relazo3ean5s4ed5n5r5s4ga5o4ia4ja5e5o4va5e5o4yo3iga5o4ma5e5o3sas4os3uce5i3vad5n5r5s4en5s0remaba4do4is4na5e5o4ra5e4sa5e4ta5e5o3ece5i4da5e5i5o4is4ja5e5i5o4ra5o4sa5e5o4ta5e5i0remeto4za5o3ida5e5o4el4ge4ra5e5o4sa5o4ta5e5i5o3oce4ja5e5o4le5i4ra4ta5o4ve5i4za5o3uda5e0remudo4ga5o2nace5i4na5o3cas4or5s3dad5n5r5s4en5r5s4ia5d5r5s4on3ega5o4ta3gad5n5r5s4le4os4ue0renios3ova5e5o3tad5n5r5s4en5s4os5y2obra5e5o2pace5i4ga5o4jo4po4ra5e5o4sa5e5o3ela5e5i5o4or0repera4sa5e5o4ti3ica5o4na5e5o4pi4sa5e5o4ta5e5o3oda5e5o4ne4sa5e5o4ya5e5o3ses3tad5n5r5s0repten5s4il3uja5e5o4la5e5i5o4se5o4ta5e5o2sabe4ca5o4le5i4na5e5o4yo3eca5o4da4ga5o4pa4ra5o0reseña5e5o3ida5e5i5o4ga5o4na5e5o4sa5e5o3mas3oba5e5o4li4na5e5o3ped5s3tad5n5r5s4ea5e5n0resteo5s4os3uda5e5o4ma5e5i5o4pe5o2taba4ca5e5o4da5o4is4ja5e5o4ma5o4ra5e4sa5e5o4za5o3eis0reteja5e5i5o4ne4sa5e5o4ñi3ica5o4na5e5o4ra5e5o4ña5e5i5o3oba5e5o4ca5e5o4ma5e5o4za5o0retoña5e5o3rae4il4os3ulo4ve5o2umas3nan5s4da5e5i5o4en5s4ia5d5o5r5s4ta5e5o2vean5s4ce4ia5s4la0revele5i5o4na5e5i5o4ra5e4sa5e5o4za5o3ida5e5o4ne5o4ra5e5o4sa5e5o4va5e5i5o3oca5o4la0revole5o5u4ta5e5o2yaba4da5o4is4ra5e4se3eis3una5o2zaba4da5o4ga5o4is4ra5e4se3nos3uma5e5o4ra2ñian5s0reñida5o4ra5e1iacho3das3les3mos3tas2bazo3era5o4te3osa2ceis3ial5s4no4os3ota3tus3ura2egan5s4os4ue3lad5n5r5s4en5s0rienda5o3pto3ran5s4en5s4on3sen5s4go2faba4da5o4is4ra5e4se3eis4ña5o3les2gida5o3uas4es2jais3osa5o2laba4do4is0rilara5e4se3eis2maba4da5o4is4ra5e4se3eis4ro3ues2ndan5s4en5s4io3gad5n5r5s4la5e4ue3ran3tel2ojas2piad5n5o0ripiar5s4en5s4os2sada3cad5l5n5r5s4os3ica4on3pad5n5r5s4en5s4os3que3tra5e2tmad5n5r5s4en5s4os3ual0rivera2zaba4da5o4is4ra5e4se3oma4sa5o2ñais3era5e4se3osa5o1oamos3nas4es4os3tan2baba4da5o4is4lo4ra5e4se3eco4is0robezo3lad5n5r5s4en5s4on3ora5e5o4ts3rar5s4es2cada3ean5r4en4is4ra5o3had5n5r5s4en5s4os3iad5n5r0rocias4en5s4no4on5s3oco4la5o4sa5o4to2daba4da5o4is4ja5e4os4ra5e4se3ead5n5r5s4en5s4is4la4na5o0rodeon5s4ra5o4te3ias4os2edor3las4es3mos3ran5s4ia3tes2gaba4da5o4is4ra5e4se2iais3das4os3gan5s3mos3ste2jead5n5r0rojeas4en5s4ta5e5o3iza5o3ura2laba4do4is4ra5e4se4zo3dad5n5r5s4en5s4on3eis4os3lad5n5r5s4en5s4on0rollos2mana5e5i5o4za3bal4os3eas4os4ra5o3ies3pan5s4ed5n5s4ia5o4on2ncad5l5n5r5s4ea5e5n5o5s4ha0ronche5o4on5s3dad5n5r5s4el5n5s4in5s5z4on5s3fea3que3ron3zad5l5n5r5s2paje3era5o4ta2ques2raba4da5o0rorais4ra5e4se3eis3ros2saba4da5o4is4ra5e4se3bif3cad5n5r5s4on5s3ead5n5r5s4en5s4is4os4ra5o4ta3iga0rosigo3jos3oli3que3tan5s4en5s4ia5d5o5r5s4ro2taba4do4is4je4ra5e4se3eis3osa5o3ula5e5o4ra5e5o2yais3ega0royera5e4se2zaba4da5o4is4ra5e4se3nad5n5r5s4en5s4os2ñaba4da5o4is4ra5e4se3eis3ias4ca3osa5o1uaban5s3das0ruados3mos3nas4do4es4os4te3ran5s4en5s4ia4on3sen5s4te2beas4os4ta3ial5s4el5s4on5s3los3ras4os2caba4da5o4is0rucara5e4se3had5n5r5s4en5s4os3ias4os2deza2ecas3dan5s4en5s4os3gan5s4os4ue3jos3llo3mos3zno3ños2feta3ian2gaba4da0rugado4is4ra5e4se3ian5s4do4ra5e3osa5o3uen5s2idal4os3nad5n5r5s4en5s2jais3iad5n5r5s4en5s2laba4da5o0rulais4ra5e4se3eis4ro4ta2mana5o3bad5n5r5s4ea5e5n5o5s4on5s3iad5n5r5s4en5s4on3ora5e5o3rum2ncho0rundel3fla5e5o3gas4os3ica5o3run2pias3tor2quen5s2scos3ias3tan5s4en5s4ia5d5o5r5s4ra5e5i5o2taba4do4is4ra0rutare4se3eis4na5o4ra5o3ila5e5o4na2ñaba4da5o4is4ra5e4se3eis4ra5e4se3ian5s4da5o4ra5e0sabalo4na5o4ya0sabbat3eas4is4la4os3ian5s4cu4da5o4la4na5o4os3lea5e5o5s4on3oga3ran5s4ia3uco4go4lo2caba4da5o4is4ra5e0sacase4te3ere3had5n5r5s4en5s4os3iad5n5r5s4en5s4os4ña3ona3ras4es4is4os3uda5e5i5o2dica5o2etad5n5r0saetas4ea5e5n5o5s4ia5n5s4on2fari3ena3ica5o2gati3ita3oma3ues4la2hina3uma5e5o2inad5n5r5s4en5s4os2jaba4da0sajado4is4ra5e4se3eis4la5e5o3ias4no3ona2laba4da5o4is4me5i5o4ra5e4se3ces3dad5n5r5s4en5s4os4ra5e0salean5r5s4en5s4ga5o4is4ma4ps4ra5o4sa4ta3gad5n5r5s4ue3ian5s4ca5o4do4na5o4os4va5e5o3lad5n0sallar5s4en5s3mad5n5r5s4ea5e5n5o5r5s4on5s3oma5e5o3pas3sas4ea5e5o3tad5n5s4ea5e5n5o5s0salton5s3uda5e5o4te3vad5n5r5s4en5s4ia4os2mago4ra3bas4os3ias4os3pan5s3uel4ga5o4hu4ro2naba4da5o4is4na0sanano4ra5e4se4te3cha5o4os4ta3dez4io3ead5n5r5s4en5s4is3gos4ra5o3ies3jad5n5r5s4en5s3sas4on5s3tas0santol5n5s2pada3ead5n5r5s4en5s4li4ra3ida5o4na5o4to3ote2quea5e5n5o5s2rama4os4pe4sa4za5o3cia3das4es0sardio4on5s3gal5s4os3ias3nas3ria5o4os3tal5s3zos2stra5e2tina5e5o4ra5o4va5o3ura5e5o2uces4os3dis3nas3rio3tor0sauzal2vias2xeas4os3osa5o2yama3ugo2zona5e5o2ñosa5o3uda5o1eamos2bado3iya3oro4sa5o3uda5o2caba4da5o4is4no4ra5e4se3ena0seceno4so3oya3tas4or3uas5z4la4ra2daba4da5o4is4ra5e4se3ead5n5r5s4en5s4is4ra5o4ña5o3osa5o3uce5i4je0sedujo2gaba4da5o4is4ra5e4se3lar3ote3ris3uia5d5s4ra5o2ibos3cos3sen5s4mo2llad5n5r5s4en5s4os3vas2mble4ra5e0sembro3eja5e5o4ma3ita3ola2nada5o4ra3das4os3eca3ior3sor3tad5r5s4ia5d5s4on2oras4es2pais4lo4ra5e5o3ias3sis3tos0sequen5s4ia5o2rado4je4no3bal5s4ia5o4os3eis4na5e5i5o4te4ña3iad5l5n5r5s4ca5o4en5s4jo4os3mon3nas0seroja5o4sa5o3pas4ea5e5o4ol3rad5r5s4in4on3var4ia5d5l5o5r5s4os2sada4mo3ead5n5r5s4en5s4na4os0sesera3gad5n5r5s4os4ue3ies4on3mas4os3tar4ea5e5o4il3uda5o2tena5e5o4ro3ico4ma5o3uni4ra2vera5o3iro2xaba4do0sexais4ra5e4se3eis3mas4os3tas4il4os3ual2ñala5e5o3era5o1herpa2unte1iames2bila2cana5o3los3ono4te3ula5o4ri2dosa5o3ras2egan0siegas4ue3nas4do4es4ta5e5o3rpa5e4ra5e5o4va5o3sos4ta3tes2fues2gais3ila5e5o3las4os3mas3nad5n5r5s4en5s0signos3ogo3uas4en5s4io2jues2laba5e5o3bad5n5s4en5s4on5s3ero3fos3gad5n5r5s4ue3ice3lar5s4in4on3uro3vas2mada0simado3bol3ias4ca5o4os3pas3ula5e5o2ncro3fin3gad5n5r5s4la5e5o4ue3ica5o3oca4do3tio2ques2rena3gad5n5r5s4os0sirgue3ias4os4ri3les3oco4pe3ria3tes3van5s4en5s4io2saba4da5o4is4ra5e4se3cas3ead5n5r5s4en5s4is4os4ro3mos0sisona3tro2tiad5l5n5r5s4en5s4os3uad5n5r5s4en5s1oalce4za5o3sad5n5r5s4en5s2baba4co4da5o4is4ja5e0sobajo4ra5e4se3eis4ja5o4os3ija5e5o4na3ona3rad5n5r5s4en5s4ia5o2capa5e5o4te4va5e5o3hes3ial5s4os0socola5e5o4ro2dero3ica5o4os2eces2fera5o3ies4on4to3oca5o4ra3rei4ia5e5o2guea5e5o2laba4ce4da5o4is4na5o4pa0solape5o4ra5e4se4za5o3dad5n5r5s4eo3ead5n5r5s4en5s4is4jo4os4ra5o4ta4va5e5o3fas4ea5e5o3ian0solias4da5e5o4os4ta5o4vo3lar5s4os3omo3tad5r5s3uto3ver2mali4ta5e5o3bre5o3era5o4ta5e5i5o3ier2naba4da0sonado4is4ja4ra5e4se4ta3dad5n5r5s4ea5e5n5o5s3eis4to3ica5o4os3ora5o3rei4ia5e5o3sas4ea5e5o4os0sontas4os2paba4da5o4is4po4ra5e4se3ead5n5r5s4en5s4is4ra5o4sa5e5o4te4ña3ies3lad5n5r5s4en5s4on0soplos2rban5s4ed5n5r5s4ia5o4os3che5i3das4ez4on5s3gos3nad5n5r5s4en5s3osi3ras3tea5e5o2saña5e5o3ega0sosego4ra5o3ias3ten2taba4do4is4na5i5o4ra5e4se3eis4ra4ña5o3uer2viet2ñaba4da5o4is4ra5e4se3eis4ra1peech2rint1tabat0suabas4os3dir3rda3tas4os3ves3zis2bais3eos3ian5s4da5o4ra5e4ta5o3tes3ven3yaz2ceda5e5i5o4so3hel5s4il3ias4os3osa0sucoso3res3ubo4la2daba4ca4da5o4is4ra5e4se3eis3osa5o2ecas4os3gra5o3lan5s4da5e5o4en5s4os4ta5e5o3nan5s0suenen5s3ros3ste3ter3vas4os3ñan5s4en5s4os2fete3ies4ja5o3lar3oca5o3ran5s4en5s4ia5d5o5r5s2geri2idos3nda3tas0suizas4on5s2jeta5e5o2lcar4os3las3tan2maba4ca4da5o4is4ra5e4se3eis3ian5s4da5o4ra5e4sa5o3mum2ncas4ho4os2pera0supere5o3ina5o4ta5o3lan5s4en5s4ia5d5o5r5s3one3ura5e5o4se5o4ta5e5o2rada4zo3cad5n5r5s4ir4os0surdan5s4en5s4ia5d5o5r5s3eña5o3gen5s4ia5d5o5r5s3jan5s3que3tan5s4en5s4ia5d5o5r5s4os3ubi0suruvi2sana5o3era5o3tos2tura5e5o2yate0tabaco4no3eas4fe3ica5o4da5o4es4na3lad5n5o5r5s4ea5e5n5o5s4on3uco0tabues4la5e5o2caco4da4na4ta4zo4ña5o3eis4ta5s3had5n5r5s4en5s4on5s3ita5o3til4os3uru2eles2fias2gala5o3uan0taguas2hali3eli4ña5o3ona2ichi3fas3gas3man5r5s4en5s3nas4os3pas3ras4es3tas2jaba4da5o4is4ra5e4se3ead5n5r5s4en0tajees4is4ro3ues4go2laba4da5o4is4je4mo4ra5e4se4ya3cos3eas4ga5o4is4ro4te3gos3ion5s3lad5n5r5s4en5r5s0tallon5s3mas3pas3que3vez2mara4ña5o3bas4os4re3eme3ice4za5o3ojo3pax4on3tan3uga4ja5o2nate3cad5n5r5s3das4ea5e5m0tandeo3gad5n5r5s4en5s4ia5d5o5r5s4on5s4ue3ica5o4no3jan5s3ora3que3tan5s4ea5e5o4os4ra3zas2paba4da0tapado4is4lo4ra5e5o4se4te4zo3ead5n5r5s4en5s4is4na4os4ra4te3iad5l5n5r5s4ce4da5o4en5s4na4za0tapizo3ona5e5o3sia3uda5o4ja5e5o4ya2quea5e5o5s4in2raba4ce4da5o4fe4is4je4ma4ra5e5i4sa5e5i4za5o0tarbea3cas4os3dad5n5r5s4ea5e5n5o5s4ia5o4on5s3eas4co4is3gua5m3hui3ida4fa5e5o4ma4na3jad5n5r5s0tarjen5s3mas3ope4ts3ras4ea5e5o4os3sos3tan5s3uga5o4ma4sa2saba4da5o4is4jo4ra5e4se3cad5n5r5s4os3eis4le0tasias4os3que3tar5z4os3ugo2tami4re3ema5e5o4ti3ita3uad5n5r5s4en5s2ucad5n5r5s3jel4ia3las3que3ros3teo2xcal2yuya0tazaba4da5o4is4ra5e4se4ña3mia2ñaba4da5o4is4ra5e4se3eis4ra5e4se3ian5s4da5o1eacea5o3mes2bana5o3eos2cali3had0techan5r5s4en5s4os3ina3las4ea5e5o5s4os3uan4in2dero4um3iar4os2flon2geas4os3ual5s4es2inas3smo4ta2jaba4da4is4na0tejano4ra5e4se3eis4ra5e5o3ian5s4da2lega4le4ra5o4ta4ña5o3ina3les4iz3son2maba4do4is4ra5e4se3bla5e5o3eis0temera5e3ian5s4da5o3osa5o3pla5e5o4os2nace4da4te4za3cas3dal4ea5d5e5l5o5r5s4ia5o4on4ra5e3eis3gan0tengas4ue3ian5s4da5o4os3ora3sad5n5r5s4en5s4on5r5s3tad5r5s4on3ues4ta3zon2oria3sas4os2palo3ues2ques4io2rbio0tercas4er4ia5e5o4os3edo4re4sa4te3gal3liz3mal5s4es4ia4os3nas4es5z4os3ral4ea5e5o4on5r3sad5n5r5s4en0terses4os3til3zon2saba4da5o4is4la5o4ra5e4se3eis4la4ra3ina3las3oro3tad5n5r5s4ea5e5n5o5s4on4uz3ura2taba0tetada5o4is4no4ra5e4se3eis4ra5o3ina3ona3uan4da2ucra5o3les3rgo3ton2xana5o3tal4il4os2yues2zada5o2ñian5s4da5o4ra0teñire1iacas3ras2biad5l5n5r5s4en5s4os4si2cera5o3tac3uco2ende5o4en5s4ta5e5o3rna5o3sas4os4ta5o2fica5o2gana0tigras4es3uas4es2juil2ldad5n5r5s4en5s4on3ias4ca5o4la3lad5n5r5s4en5s4os3mas3osa5o2maba4da5o4is4lo4ra0timare4se3bal5s4ea5e5o4on5s5y4ra5e5o3eis3ida5o3ote3pas4le2naco4da5o4ja4pa3cad5n5r5s3dio3elo4os3ges0tingle3ola3que3tad5n5r5s4en5s4in4or5s2oneo3rba2pazo3eja5o3ica5o3les3ois3ula2quea5e5o5s4is2raba4da5o4is4je0tirajo4na5o4ra5e4se3eis4la4ta3ias4os4ta5e5o3ona3ria4os3sos3ulo2sana3era3ica5o3tea5e5o5s3ues2taba4do4is4ra0titare4se3ead5n5r5s4en5s4is4os4re3ies4la5e5o3uba5e5o4la5e5o2uque2zana4te3nad5n5r5s4en5s4on3ona0tiñais3era5e4se3osa5o1lacos3zol1oaban5s3das4os3mos3ndo3ran5s4en5s4ia4on3sen5s4te2baja3era3oba4sa5o2caba4da5o4is0tocara5e4se4ta4ya5o3eis3has4es4os3ias4no4os3oco4na3tes3uyo2dera5o2emos3sas2fana3fee2gaba4da5o4is4ra5e4se3uen5s0toison2jino2lano3dad5n5r5s4en5s4os3ena4ra5e5o4te3las4er4ir4on5s3mos3vas2maba4da5o4is4ra5e4se4za3eis3iza0tomona2naba4da5o4is4ra5e4se3cas3diz4os3eis4ma3gas4os3ica5o4na3tas4ea5e5o4os2paba4da5o4is4ra5e4se3ead5n0topear5s4en5s4is4ra5o4ta5e5o3ias4ca5o4na5o2quen5s4is2rada3cal5s5z4ed5r5s4ho4ia5o4os3das4os3ead0torean5r5s4en5s4os4ra5o4te3gas4os3ica5o4os4to3mos3nad5n5r5s4ea5e5n5o5s4os3osa5o3pes3rad5n5r0torras4ea5e5n5o5s3sos3tas4ea5e5l5o4ol5r3uno3vas4os3zal4on2sais3cas4os3eis4ra5e3ian5s4da5o4ga5o3tad0tostar5s4on2tems3ies3ola4po4ra3uma5o2xica5o4na2zaba4do4is4ra5e4se3uda5o2ñina1rabad5l5n5r5s4ea5n5s4on3cas0tracen5s4ia5o4to3eis4ra5e3fas3gad5n5r5s5z4on5s4ue3ian5s4da5o4ga5o4na4te4ña3jea5e5o5s4in3lla0tramad5n5r5s4en5s4os4pa3nca5e5o4sa5e5o4za5o3pas4ea5e5o5s4io4os3que3ros3sca4es4ga5o4oi4te5o0trasve5i3tad5n5s4en5s4os3uco4ma3ves3zad5n5r5s4os2ebol5s3cen5s4ha5o3fes3gua3jas3mad5n5r5s4ed5n5r0tremes4ia5o5s4ol5r5s3nas4ca5e4es4os4te4za5o3pad5n5r5s4en5s3ses4na3tas3zna2iaba4ca4da5e5o4is4ra0triare4se4te3bal4ui5s3cen5s4os3duo3eis3gal5s4la4on5s3les4la5e5o3nad5n5r5s4ca5o4en5o5s4os3odo3pas0tripes4ie4la5e5o4ol5n3que3sad5n5r5s4ca5o4en5s4mo4te3tio4on3vio3zad5n5r5s2ocad5r5s4ea5e5n5o0troces4ha4ir4la4os3feo3ica3jas4el5s3las4es4la3mba5o4pa5e5o3nad5r5s4ca5e5o4ga4io4os4za5o3pas4el4os0troque3sas3tad5n5r5s4en5s4on3upe3vad5n5r5s4en5s4os3xes3zad5n5r5s4os2ucad5n5r5s4ha5o4os3eca5o0truena5e3fad5n5r5s4en5s3han3jal5s3lla5e5o3mao3nca5o4es3que3sas3tro1uanis3reg3tua2bano2cada3ias3ura2ecas4os3ras4ca0tuerce4os4ta5o4za5o3sta5e5o2fead5n5r5s4en5s3osa5o2inas2lios4pa3lan5s4en5s4ia5d5r5s3pas2mbad5l5n0tumbar5s4en5s4on5s3ida5o3ulo2naba4do4is4ra5e4se3cas4os3dan5s4ea5e5n5o5s4ia5d5o5r5s4ra3ead5n0tunear5s4ci4en5s4is4ra5o3gra5o4us3ica5o3jos3tas4un3una2pais4ya3ian5s4da5o4es4ra5e2rbad5l5n5r5s4en0turbes4ia5o5t4on5s3cas4os3eca3ion3mas4ix3nad5n5r5s4en5s4ia5o4os3qui3rad5n5r5s4en5s4il4on5s3ula0turulo4ru4ta2saba4da5o4is4ra5e4se3cal5s4os3eis3ona2tano3ead5n5r5s4en5s4la5e5o4os3ias3ora5e5o3riz2yuyo0ubajay2icad5n5r5s4ua5o3que2rera1cases1fanan5r5s4en5s4ia4os1lagas3las3nos2cera5e5o2emas2luco2tima5e5o3ras4iz2ulad5n0ulular5s4en5s1mbela3ral5s4ia5o4os2eros1nalba5o3mos2cial5n5s4da5o4on4ra5e2dosa5o3ula5e5o2gian5s4da5o4ra0ungire3uis2iais4ta3ble3cas4os3dad5s4or5s3era5e4se3mos3ran5s4ia3sex4on4te2jais2taba4da5o4is4ra5e4se4za3eis3osa0untoso3ura2zais1paban5s3das4os3mos3ndo3ran5s4en5s4ia4on3sen5s4te2emos2upas1racho3jea5e5o3nia5o3pes3tos2bana5o2dais3ian0urdias4da5o4ra5e2emia3nte3ter4ra2gian5s4da5o4ra5e2icas4os3nal2jais2pila2raca2sina2ubus3cus3gas3tau1saban5s3das4or5s3gre0usamos3ndo4za3ran5s4ce4en5s4ia4on3sen5s4te2emos2illo3nas3ria2lero2taga3ion2urad5n5r5s4ea5e5n5o5s4pa5e5o0uteros2iles2opia2rera5o1vadas4uz3les3tes2eral5s4os2illa5o2ular5s1ñadas4os3mos3tes2endo3ran5s4en5s4on5s3sen5s3tas2iais3das0uñidos3mos3ran5s4ia3ste2osas4os2udos0vacaba4da5o4is4je4ra5e5i4se3cea5o3iad5n5r5s4en5s4la5e5o4os3uas4na0vacune5o4os2dead5n5r5s4en5s4ra3osa5o2fead5n5r5s4en5s3osa5o2gaba4do4is4ra5e4se3ido4na3uea5e5n5o0vagues2haba4do4is4je4ra5e4se3ead5n5r5s4en5s4is3ido2idas3nas3ven2jead5n5r5s4en5s2laca5o4is3dra5e3eis4ts0valgan5s4os4us3ian5s4da5e5o4es4ja3lad5n5r5s4en5s3ona4ra5e5o3sad5n5r5s4en5s3uad5n5r5s4en0values3var5s2nead5n5r5s4en5s3ova2pora5e5o3ula5e5o2quea5e5n5o5s2raba4da5o4is4ra5e4se4zo3ead5n5r0vareas4en5s4is4os4ta3gas3iad5n5r5s4ce4en5s4ta4zo3ona2sado3cas4on5s3era3ija4to3tas4os2taje3ios2yais1eamos2ceis4ra0vecero3ina3tor2daba4da5o4is4ra5e4se3eis4ja3ija3uño2edor2gada4na5o3eta5e5o3osa5o3uer2iais3nte2jaba4da5o4is4ra5e0vejase3eis4ra4ta5e3iga3uca5o2laba4da5o4hi4is4je4ra5e4se3cro3eis4ja5e5o4ra5o4ta5e3ica5o4te3lon5s3mez0veloce3udo2nada5o4je3ced5n5r5s4ia5o3dad5l5n5r5s4ed5n5r5s4ia5o5s4os4ra5e3eno4ra5e5o4ta5o0vengad5n5r5s4ue3ial5n5s4da5o4na5o3osa5o3tad5r5s4ea5e5o4or3zan5s2rana5e4ta5o3bal5s4os3dal4ea0verdee5l5o5s4in4on5r3eda4is3gas4el5s4on3ian5s4ja3jas3mes4us5t3nal3ron3sad5l5n5r5s4ea5e5n5o5s0versos4ta3ted5r5s4ia5o2sque3tal4es4ia5d5r5s2taba4da5o4is4ra5e4se3ead5n5r5s4en5s4is3ona2zaba4da5o0vezais4ra5e4se1iable3das4or3jad5n5r5s4en5s3les3nda3ria5o2bora3rad5n5r5s4en5s2chad5n5r5s4en5s3iad5n0viciar5s4en5s4os3tor5s3uña2deos3ria5e3ual4ño2eira3jas4os3ndo4en5s4ta5e3ran5s4en5s4on4ta5e5o3sas4en5s0vigiad5n5r5s4en5s4la5e5o4on3ora5e5o4ta3ues2lano3era4za3ico3lar5s2mbre2naza5o3cas4ha4os3ica5o4lo3osa5o0vinote3tas2olad5n5r5s4en5s4ia4on2raba4da5o4go4is4je4ra5e5o4se3eca5o4is4os3gen4os3ica5o4na4os3ola5o0virote3rey3tud3ule4ta2saba4da5o4is4je4ra5e4se3cos3ead5n5r5s4en5s4is4ra3ion4te5o4va5o3tan5s4ea5e5n0visteo5s4io4os3ual4ra2taba4da5o4is4ra5e4se3eis4la5o3ola3ral4ea5o5s3ulo2udal5s4ez4os2vaba4cs4da5o4is4ra0vivare4se3eis4ra5o4za3ian5s4da5o4ra5e3ona2yela2ñedo4ra5o4ta1ocead5n5r5s4en5s4os4ra5o2dcas3ues2ilas2laba4da0volado4is4ra5e4se3cad5r5s3ead5n5r5s4en5s4is4os3ido4ta5e5o3que3sca5o3tea5e5o4io3uta3ved5s4ia5o0volvos2mica5o4ta5e5o2race2sead5n5r5s4en5s4os2taba4da5o4is4ra5e4se3eis3iva5o3ris2yeur2znad5n5r5s4en5s0vudues2elan5s4ca5o4en5s4os4ta5o4va5e5o2lgar4os3vas2sted0xecuda5o1ilema2ncas2otes1ochil0yabuna2care4ta3eis4ra5e3ian5s4do0yacija4os2gais3ual5r5s4re5t2itis2mana4os3bos3pas2nqui3tad5n5r5s4en5s2paba4da5o4is4ra5e4se3eis3ues2ques4il5s0yarara4vi3das3ura5o2tais4ro2utia2xche2zcan5s3gan5s1edras2guar5s2ismo4ta2lgos3mos2meni2ntes2rbal5s4ea5e5o3gan5s4ue3mad5n0yermar5s4en5s4os3nas4os3ran5s4en5s4os3sey4is3tas4os3vos2scas3era5o3osa5o2yuno2zgos1odaba4da5o4is4ra5e4se3eis0yodura5e5o2guis2idad2nqui2quey4is2reña5o1uanes2cazo3han3pas2doca2gada3ula5e5o2mbas4os3eca5o2ngas3que3tar5s4os2ruma5o2sana5o0yusera5o3iva5o2yera5o3uba0zabeca3ida4la3oya5e5o3ras4os3uca5o2cate3ead5n5r5s4en5s4os3uto2faba4da5o4is4ra5e0zafari4se3eis4ro3ias4os4ra5o3ran5s4es2gala4ya3ual5n5s4ia2hena4ri3ina3ora5e5i5o2idas3nas4os2jari2lama5o3bas4os0zalead5n5r5s4en5s4ma4os3lad5n5r5s4en5s3oma4na2mbas4oa5s4ra3ina5e5o3pad5n5r5s4ea5e5n5o5s0zampon3uja5o4ra5o2nate3cas4on5s3dia3gas4on3jad5n5r5s4en5s4on5s2paba4do4is4ra5e4se4ta3ead5n5r5s4en0zapees4is4os3ita5o3ote3uce4za5o2quea5e5o5s2rajo4te4za5o3bos3cas4ea5e5o4il4os3ina3jas3pad5n5r5s4ea5e0zarpen5o5s3ria5o3zal5s4os2tara3ico2zosa5o1egris2inas2lota5e2ndal5s4os3its2ugma1igoto3zag2nnia2rcon2szas1ocaba4da5o4is4lo4ra0zocare4se4ta5o3los3ola5e5o2fras2ilos3zos2lles2mbis3pas4os2ncea5e5o3das3ote3tas4ea5e5o4os3zas4os2oide2pisa2quen5s2rita0zorito3ras4ea5e5o4on5s3zal2ster1uavos2bias2ecas4os3las2inda3zas4on2laca5o3lan5r5s4en5s4on3ues2maca5o4ya3bad5n5r0zumbas4el5n5s4on5s3osa5o2ncha5e5o3zas4un2pias2rana5o3bas3cen5s4ia5d5o5r5s3dal5n5s4ea5e5n5o5s0zurdia5d5o5r5s4os3ead5n5r5s4en5s4os3ita5o4za3rad5n5r5s4ea5e5n5o5s4ia5d5e5o5r5s4on0zurubi3zan5s2tana5o2ñais3era5e4se3ian5s4da5o4ra5e0ñacara2gaza2mpea5e5o4is2ndus3gas4os4ue2ques2rusa5o2tead5n5r5s0ñateen5s3usa5o2ñara3iga5o1eclas3uda5o2ngas4os4ue2ques1ingas2ques2scas3ñil2zcas1ochas3los2mbla5o2ngas4os2quis2rbos1ublar2dosa5o2rdas4os0ñuzcos";
@@ -0,0 +1,2 @@
+export const words =
+  "3|0aba1ca1es1ga1he2i2o1ja2e2i1le2i1me2i1na2o1pa2i1re1se2i2o1ta2e2o1un1vo1ya2o1zo1ña0bao0bel2n2s2y1is2t1le1oa2j2l2n2u2x1ua2e2m2z0cai2o2p2r2s2y2z1ea2o2s1ha2e2o1ia2d0cie2o1lo1oa2r2y2z1ui2s2y2z0dad1ea2l2n2s2y1ij2n2x1om2y1ua2o2x2z0ecu1es1fe1le1me2u0ene1on1pa2o1re2g2o1ta1vo1ñe0fai2n2r2s2x2z1er2s2z1ia2e2l2o1on1ua2l0gag2l2p2y1ea2l0gen2o2s1il2n2s1ro1ua0hao2z1er2z1in1uf2i2m2y0ice1es1on1re1sa1za2o0jai2n2u1ea2t1ur0lar2y0lea2e2i2n2v1ia2d2e2s1le1oa2e2o1ua2e2i2x0mam2n1ea2e2o1ie2r2z1oa2l2r1ue2i2r2s0nao1ea2n2o1ia2n1on0oas1bo1es1hm1ia2d2l2s1le2i1na1pa1ra2e2i1se1to1va2e2o1xe1ye2o0paf2l0pao1ea2e2i2o2s1ia2n2o2s1le1oa2m2p2s1re2o1si1ua2e2f2m2o2s2t0qui0rad2e2i2s1ea2i0reo1ia2e1oa2b2e2i2o2s1ua2c2e2n2o2s0sah2n2o2z1el2n2o2s2t1ic2j2l2s2u1or2s1ud0tac2o2s2u2z1er2s2x1ic1oa2e2l2n2o2p1ui2l2n2p0ube2i1ce2i1es1fa2o1ju1ne2i1pa2e2o0ura2o1sa2e1ta1ve2i1zo1ñe2i2o0val1ed1id2l2p2s1os0yal2z1en2s1in1od2s0zas1en1is1ua2m0ñas1or0ños1us";
@@ -0,0 +1,2 @@
+export const words =
+  "2|0ad1h1j1r1x0be1u0ca1e1u0do0ea1t1x0fa1i1o1u0ge0hi0in0ja1e1i1o1u0na1e0oa1c1i1x0pe1u0ro0so0ta1o0uh0xi0ye0za0ña1o1u";
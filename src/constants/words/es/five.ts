@@ -0,0 +1,336 @@
+export const words = [
+  "abajo",
+  "abeja",
+  "abril",
+  "abrir",
+  "acero",
+  "actor",
+  "agudo",
+  "aguja",
+  "ahora",
+  "amiga",
+  "amigo",
+  "ancho",
+  "andar",
+  "angel",
+  "animo",
+  "antes",
+  "apoyo",
+  "arbol",
+  "arena",
+  "arroz",
+  "asado",
+  "atras",
+  "avion",
+  "ayuda",
+  "bahia",
+  "baile",
+  "bajar",
+  "banco",
+  "barco",
+  "barro",
+  "beber",
+  "bicho",
+  "bolsa",
+  "bravo",
+  "brazo",
+  "breve",
+  "brisa",
+  "broma",
+  "bueno",
+  "burro",
+  "busca",
+  "cable",
+  "cabra",
+  "cacao",
+  "calle",
+  "calma",
+  "calor",
+  "campo",
+  "canal",
+  "canto",
+  "carne",
+  "carro",
+  "carta",
+  "casas",
+  "causa",
+  "cazar",
+  "cerca",
+  "cerdo",
+  "cerro",
+  "chica",
+  "chico",
+  "ciego",
+  "cielo",
+  "cinco",
+  "cinta",
+  "circo",
+  "claro",
+  "clase",
+  "clave",
+  "cobre",
+  "coche",
+  "color",
+  "comer",
+  "conde",
+  "copia",
+  "coral",
+  "corte",
+  "cosas",
+  "costa",
+  "creer",
+  "crema",
+  "cuero",
+  "curso",
+  "danza",
+  "decir",
+  "dedos",
+  "dejar",
+  "deseo",
+  "dicha",
+  "dieta",
+  "disco",
+  "doble",
+  "dolor",
+  "ducha",
+  "dulce",
+  "duque",
+  "enero",
+  "enojo",
+  "entre",
+  "error",
+  "estar",
+  "exito",
+  "falda",
+  "falta",
+  "fecha",
+  "feliz",
+  "feria",
+  "fiera",
+  "flaco",
+  "fondo",
+  "forma",
+  "frase",
+  "freno",
+  "fruta",
+  "fuego",
+  "fuera",
+  "furia",
+  "ganar",
+  "garra",
+  "gasto",
+  "gatos",
+  "gordo",
+  "gorra",
+  "grado",
+  "grano",
+  "grave",
+  "gripe",
+  "grupo",
+  "gusto",
+  "habla",
+  "hacer",
+  "hasta",
+  "hielo",
+  "hogar",
+  "honor",
+  "horno",
+  "hotel",
+  "huevo",
+  "humor",
+  "igual",
+  "jabon",
+  "joven",
+  "juego",
+  "jugar",
+  "julio",
+  "junio",
+  "junto",
+  "labio",
+  "lapiz",
+  "largo",
+  "lavar",
+  "leche",
+  "lejos",
+  "lento",
+  "letra",
+  "libre",
+  "libro",
+  "limon",
+  "linea",
+  "listo",
+  "llama",
+  "llave",
+  "lleno",
+  "lucha",
+  "luego",
+  "lugar",
+  "madre",
+  "mango",
+  "manta",
+  "marca",
+  "marzo",
+  "matar",
+  "mayor",
+  "medio",
+  "mejor",
+  "melon",
+  "menos",
+  "mente",
+  "mesas",
+  "metal",
+  "metro",
+  "miedo",
+  "mirar",
+  "mismo",
+  "mitad",
+  "monte",
+  "morir",
+  "mosca",
+  "motor",
+  "mucho",
+  "mujer",
+  "mundo",
+  "museo",
+  "nacer",
+  "nadar",
+  "nadie",
+  "nariz",
+  "negro",
+  "nieto",
+  "nieve",
+  "noche",
+  "norte",
+  "novia",
+  "novio",
+  "nuevo",
+  "nunca",
+  "oeste",
+  "orden",
+  "oreja",
+  "oveja",
+  "padre",
+  "pagar",
+  "palma",
+  "papel",
+  "pared",
+  "parte",
+  "pasar",
+  "paseo",
+  "pasta",
+  "pausa",
+  "pecho",
+  "pedir",
+  "pegar",
+  "peine",
+  "perla",
+  "perro",
+  "pesar",
+  "pesca",
+  "piano",
+  "picar",
+  "pieza",
+  "pinta",
+  "pista",
+  "plano",
+  "plata",
+  "plato",
+  "playa",
+  "plaza",
+  "plomo",
+  "pluma",
+  "pobre",
+  "poder",
+  "poema",
+  "poeta",
+  "pollo",
+  "polvo",
+  "poner",
+  "primo",
+  "prisa",
+  "pulpo",
+  "punto",
+  "queso",
+  "radio",
+  "rasgo",
+  "raton",
+  "razon",
+  "regla",
+  "reina",
+  "reloj",
+  "resto",
+  "rezar",
+  "ritmo",
+  "robar",
+  "rodar",
+  "rosas",
+  "rubio",
+  "rueda",
+  "ruido",
+  "rumbo",
+  "sabor",
+  "sacar",
+  "salir",
+  "salsa",
+  "salud",
+  "santo",
+  "secar",
+  "selva",
+  "señal",
+  "señor",
+  "siete",
+  "siglo",
+  "silla",
+  "sitio",
+  "sobre",
+  "solar",
+  "sordo",
+  "suave",
+  "subir",
+  "sucio",
+  "suelo",
+  "sueño",
+  "tabla",
+  "tacto",
+  "talla",
+  "tango",
+  "tarde",
+  "techo",
+  "tecla",
+  "temor",
+  "tener",
+  "tenis",
+  "terco",
+  "tigre",
+  "tinta",
+  "tirar",
+  "tomar",
+  "tonto",
+  "torre",
+  "trago",
+  "traje",
+  "trato",
+  "trigo",
+  "tumba",
+  "turno",
+  "unico",
+  "union",
+  "vacio",
+  "valle",
+  "vapor",
+  "veces",
+  "vejez",
+  "venta",
+  "verde",
+  "viaje",
+  "viejo",
+  "vigor",
+  "virus",
+  "vista",
+  "visto",
+  "viuda",
+  "vivir",
+  "volar",
+  "vuelo",
+  "zorro",
+];
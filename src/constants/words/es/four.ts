@@ -0,0 +1,225 @@
+export const words = [
+  "agua",
+  "aire",
+  "alma",
+  "alta",
+  "alto",
+  "amor",
+  "anda",
+  "ante",
+  "base",
+  "baño",
+  "beso",
+  "bien",
+  "boca",
+  "boda",
+  "bola",
+  "bota",
+  "cada",
+  "caer",
+  "cafe",
+  "caja",
+  "cama",
+  "capa",
+  "cara",
+  "casa",
+  "caso",
+  "cena",
+  "cero",
+  "cien",
+  "cine",
+  "cita",
+  "cola",
+  "coma",
+  "come",
+  "como",
+  "copa",
+  "cosa",
+  "crea",
+  "creo",
+  "cruz",
+  "cual",
+  "cubo",
+  "cura",
+  "dado",
+  "dama",
+  "debe",
+  "dedo",
+  "dice",
+  "dijo",
+  "dios",
+  "doce",
+  "duda",
+  "duro",
+  "edad",
+  "ella",
+  "ello",
+  "eran",
+  "eres",
+  "esta",
+  "este",
+  "esto",
+  "fama",
+  "fase",
+  "fila",
+  "fino",
+  "foca",
+  "foto",
+  "gana",
+  "gato",
+  "gira",
+  "gota",
+  "gran",
+  "gris",
+  "haba",
+  "hace",
+  "hada",
+  "hija",
+  "hijo",
+  "hilo",
+  "hoja",
+  "hola",
+  "hora",
+  "hoyo",
+  "hubo",
+  "idea",
+  "isla",
+  "jefe",
+  "joya",
+  "jugo",
+  "lado",
+  "lago",
+  "lana",
+  "lata",
+  "lava",
+  "leer",
+  "leon",
+  "lima",
+  "lobo",
+  "loco",
+  "lodo",
+  "luna",
+  "mago",
+  "malo",
+  "mama",
+  "mano",
+  "mapa",
+  "masa",
+  "mata",
+  "mayo",
+  "mesa",
+  "meta",
+  "miel",
+  "mina",
+  "modo",
+  "mono",
+  "moto",
+  "mozo",
+  "muro",
+  "nada",
+  "nado",
+  "nave",
+  "nido",
+  "niña",
+  "niño",
+  "nota",
+  "nube",
+  "nudo",
+  "nuez",
+  "obra",
+  "ocho",
+  "odio",
+  "ojos",
+  "olas",
+  "once",
+  "onda",
+  "osos",
+  "otra",
+  "otro",
+  "pala",
+  "palo",
+  "papa",
+  "para",
+  "paso",
+  "pata",
+  "pato",
+  "peca",
+  "pelo",
+  "pena",
+  "pera",
+  "pesa",
+  "peso",
+  "piel",
+  "pies",
+  "pino",
+  "pipa",
+  "piso",
+  "plan",
+  "poco",
+  "polo",
+  "pone",
+  "popa",
+  "pozo",
+  "puro",
+  "rama",
+  "rana",
+  "raro",
+  "rata",
+  "rato",
+  "raya",
+  "real",
+  "reto",
+  "rico",
+  "risa",
+  "roca",
+  "rojo",
+  "ropa",
+  "rosa",
+  "ruta",
+  "sabe",
+  "saco",
+  "sala",
+  "sano",
+  "sapo",
+  "seda",
+  "seis",
+  "sera",
+  "sido",
+  "sola",
+  "solo",
+  "sopa",
+  "sube",
+  "suma",
+  "tapa",
+  "taza",
+  "tela",
+  "tema",
+  "tira",
+  "tiza",
+  "toca",
+  "todo",
+  "toma",
+  "tono",
+  "toro",
+  "tren",
+  "tres",
+  "tubo",
+  "tuyo",
+  "unas",
+  "unos",
+  "usar",
+  "uvas",
+  "vaca",
+  "vale",
+  "vaso",
+  "vela",
+  "vena",
+  "vida",
+  "vino",
+  "vivo",
+  "voto",
+  "yate",
+  "yema",
+  "zona",
+  "zumo",
+];
@@ -0,0 +1,7 @@
+import { words as Two } from "./two";
+import { words as Three } from "./three";
+import { words as Four } from "./four";
+import { words as Five } from "./five";
+import { words as Six } from "./six";
+
+export const words = Two.concat(Three, Four, Five, Six);
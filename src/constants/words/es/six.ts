@@ -0,0 +1,258 @@
+export const words = [
+  "abrigo",
+  "abuela",
+  "abuelo",
+  "acabar",
+  "aceite",
+  "acento",
+  "actuar",
+  "acudir",
+  "agenda",
+  "agosto",
+  "alarma",
+  "alegre",
+  "alumno",
+  "amable",
+  "amigos",
+  "anillo",
+  "animal",
+  "apagar",
+  "arriba",
+  "asunto",
+  "atacar",
+  "aunque",
+  "ayudar",
+  "azucar",
+  "bailar",
+  "barato",
+  "barrio",
+  "basura",
+  "bañera",
+  "bebida",
+  "blanco",
+  "bonito",
+  "borrar",
+  "bosque",
+  "brillo",
+  "buscar",
+  "cabeza",
+  "cadena",
+  "cajero",
+  "cambio",
+  "camino",
+  "camion",
+  "camisa",
+  "canela",
+  "cantar",
+  "carbon",
+  "cariño",
+  "cartas",
+  "cartel",
+  "casado",
+  "cereza",
+  "cerrar",
+  "ciudad",
+  "clavel",
+  "cocina",
+  "codigo",
+  "colina",
+  "collar",
+  "comida",
+  "conejo",
+  "correr",
+  "cortar",
+  "crecer",
+  "cuadro",
+  "cuarto",
+  "cuatro",
+  "cuello",
+  "cuento",
+  "cuerda",
+  "cuerpo",
+  "cuidar",
+  "cumbre",
+  "dentro",
+  "diablo",
+  "dibujo",
+  "diente",
+  "dinero",
+  "doctor",
+  "dormir",
+  "dragon",
+  "efecto",
+  "elegir",
+  "encima",
+  "enorme",
+  "entrar",
+  "equipo",
+  "escala",
+  "escena",
+  "escoba",
+  "espada",
+  "espejo",
+  "esposa",
+  "esposo",
+  "estilo",
+  "estufa",
+  "fiesta",
+  "figura",
+  "flores",
+  "frente",
+  "fresco",
+  "frutas",
+  "fuente",
+  "fuerte",
+  "futuro",
+  "ganado",
+  "gancho",
+  "garaje",
+  "gemelo",
+  "grande",
+  "granja",
+  "gritar",
+  "guerra",
+  "gustar",
+  "hablar",
+  "harina",
+  "helado",
+  "herida",
+  "hierba",
+  "hierro",
+  "hombre",
+  "huerto",
+  "huevos",
+  "humano",
+  "idioma",
+  "imagen",
+  "jarabe",
+  "jardin",
+  "jirafa",
+  "jueves",
+  "juntos",
+  "ladron",
+  "lavado",
+  "lengua",
+  "lentes",
+  "letras",
+  "libros",
+  "limpio",
+  "llamar",
+  "llegar",
+  "llevar",
+  "llorar",
+  "lluvia",
+  "locura",
+  "lograr",
+  "madera",
+  "maduro",
+  "maleta",
+  "mancha",
+  "manera",
+  "mantel",
+  "marido",
+  "marino",
+  "marron",
+  "martes",
+  "mañana",
+  "medico",
+  "mentir",
+  "mesero",
+  "minuto",
+  "mirada",
+  "molino",
+  "moneda",
+  "morado",
+  "motivo",
+  "mueble",
+  "muerte",
+  "musica",
+  "muñeca",
+  "nacion",
+  "navaja",
+  "nevera",
+  "nombre",
+  "novela",
+  "numero",
+  "objeto",
+  "oficio",
+  "olvido",
+  "orilla",
+  "oscuro",
+  "paella",
+  "pagina",
+  "pajaro",
+  "paloma",
+  "parada",
+  "parque",
+  "pasado",
+  "pastel",
+  "patata",
+  "payaso",
+  "pecado",
+  "pelota",
+  "pensar",
+  "pepino",
+  "perder",
+  "perdon",
+  "pereza",
+  "pesado",
+  "pescar",
+  "piedra",
+  "pierna",
+  "pijama",
+  "pincel",
+  "pintar",
+  "pintor",
+  "planta",
+  "postre",
+  "precio",
+  "premio",
+  "prensa",
+  "pueblo",
+  "puente",
+  "puerta",
+  "rapido",
+  "receta",
+  "recreo",
+  "regalo",
+  "rincon",
+  "romper",
+  "sabado",
+  "salida",
+  "saltar",
+  "sandia",
+  "sangre",
+  "sarten",
+  "seguir",
+  "semana",
+  "sentir",
+  "señora",
+  "silbar",
+  "simple",
+  "sombra",
+  "sonido",
+  "suerte",
+  "tambor",
+  "teatro",
+  "tejado",
+  "tejido",
+  "tiempo",
+  "tienda",
+  "tierra",
+  "tijera",
+  "toalla",
+  "tomate",
+  "tratar",
+  "trueno",
+  "varios",
+  "vecino",
+  "verano",
+  "verdad",
+  "vidrio",
+  "viento",
+  "violin",
+  "visita",
+  "volcan",
+  "volver",
+  "zapato",
+];
@@ -0,0 +1,126 @@
+export const words = [
+  "ajo",
+  "ala",
+  "ama",
+  "amo",
+  "ara",
+  "aro",
+  "asa",
+  "ave",
+  "año",
+  "bah",
+  "bar",
+  "bus",
+  "cae",
+  "cal",
+  "can",
+  "col",
+  "con",
+  "dan",
+  "dar",
+  "das",
+  "dia",
+  "dio",
+  "don",
+  "dos",
+  "eco",
+  "ego",
+  "eje",
+  "era",
+  "esa",
+  "ese",
+  "eso",
+  "fea",
+  "feo",
+  "fin",
+  "fue",
+  "fui",
+  "gas",
+  "gol",
+  "han",
+  "has",
+  "hay",
+  "hoy",
+  "hoz",
+  "iba",
+  "ida",
+  "ido",
+  "ira",
+  "las",
+  "leo",
+  "les",
+  "ley",
+  "lio",
+  "los",
+  "luz",
+  "mal",
+  "mar",
+  "mas",
+  "mes",
+  "mia",
+  "mil",
+  "mio",
+  "mis",
+  "muy",
+  "nos",
+  "oca",
+  "oda",
+  "oir",
+  "ojo",
+  "ola",
+  "oro",
+  "osa",
+  "oso",
+  "pan",
+  "par",
+  "paz",
+  "pez",
+  "pie",
+  "pon",
+  "por",
+  "que",
+  "red",
+  "res",
+  "rey",
+  "rio",
+  "rol",
+  "ron",
+  "sal",
+  "sea",
+  "sed",
+  "ser",
+  "sin",
+  "sol",
+  "son",
+  "soy",
+  "sur",
+  "sus",
+  "tal",
+  "tan",
+  "tea",
+  "ten",
+  "tez",
+  "tia",
+  "tio",
+  "tos",
+  "tus",
+  "una",
+  "uno",
+  "uso",
+  "uva",
+  "uña",
+  "van",
+  "vas",
+  "vea",
+  "ven",
+  "veo",
+  "ver",
+  "ves",
+  "vez",
+  "via",
+  "vio",
+  "voy",
+  "voz",
+  "zar",
+  "zoo",
+];
@@ -0,0 +1,42 @@
+export const words = [
+  "al",
+  "as",
+  "ay",
+  "da",
+  "de",
+  "di",
+  "eh",
+  "el",
+  "en",
+  "es",
+  "fe",
+  "ha",
+  "he",
+  "id",
+  "ir",
+  "la",
+  "le",
+  "lo",
+  "me",
+  "mi",
+  "mu",
+  "ni",
+  "no",
+  "oh",
+  "os",
+  "pi",
+  "re",
+  "se",
+  "si",
+  "su",
+  "te",
+  "ti",
+  "tu",
+  "uf",
+  "un",
+  "va",
+  "ve",
+  "vi",
+  "ya",
+  "yo",
+];
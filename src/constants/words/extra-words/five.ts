@@ -1,8638 +1,2 @@
-export const words = [
-  "aahed",
-  "aalii",
-  "aargh",
-  "abaca",
-  "abaci",
-  "aback",
-  "abaft",
-  "abaka",
-  "abamp",
-  "abase",
-  "abash",
-  "abate",
-  "abbas",
-  "abbes",
-  "abbey",
-  "abbot",
-  "abeam",
-  "abele",
-  "abets",
-  "abhor",
-  "abide",
-  "abler",
-  "ables",
-  "abmho",
-  "abode",
-  "abohm",
-  "aboil",
-  "aboma",
-  "aboon",
-  "abort",
-  "about",
-  "above",
-  "abris",
-  "abuse",
-  "abuts",
-  "abuzz",
-  "abyes",
-  "abysm",
-  "abyss",
-  "acari",
-  "acerb",
-  "aceta",
-  "ached",
-  "aches",
-  "achoo",
-  "acids",
-  "acidy",
-  "acing",
-  "acini",
-  "ackee",
-  "acmes",
-  "acmic",
-  "acned",
-  "acnes",
-  "acock",
-  "acold",
-  "acorn",
-  "acred",
-  "acres",
-  "acrid",
-  "acted",
-  "actin",
-  "actor",
-  "acute",
-  "acyls",
-  "adage",
-  "adapt",
-  "addax",
-  "added",
-  "adder",
-  "addle",
-  "adeem",
-  "adept",
-  "adieu",
-  "adios",
-  "adits",
-  "adman",
-  "admen",
-  "admit",
-  "admix",
-  "adobe",
-  "adobo",
-  "adopt",
-  "adore",
-  "adorn",
-  "adown",
-  "adoze",
-  "adult",
-  "adunc",
-  "adust",
-  "adyta",
-  "adzes",
-  "aecia",
-  "aedes",
-  "aegis",
-  "aeons",
-  "aerie",
-  "afars",
-  "affix",
-  "afire",
-  "afoot",
-  "afore",
-  "afoul",
-  "afrit",
-  "after",
-  "again",
-  "agama",
-  "agape",
-  "agars",
-  "agate",
-  "agave",
-  "agaze",
-  "agene",
-  "agent",
-  "agers",
-  "agger",
-  "aggie",
-  "aggro",
-  "aghas",
-  "agile",
-  "aging",
-  "agios",
-  "agism",
-  "agist",
-  "aglee",
-  "aglet",
-  "agley",
-  "aglow",
-  "agmas",
-  "agone",
-  "agons",
-  "agony",
-  "agora",
-  "agree",
-  "agria",
-  "agues",
-  "ahead",
-  "ahold",
-  "ahull",
-  "aided",
-  "aider",
-  "aides",
-  "ailed",
-  "aimed",
-  "aimer",
-  "aioli",
-  "aired",
-  "airer",
-  "airns",
-  "airth",
-  "airts",
-  "aisle",
-  "aitch",
-  "aiver",
-  "ajiva",
-  "ajuga",
-  "akees",
-  "akela",
-  "akene",
-  "alack",
-  "alamo",
-  "aland",
-  "alane",
-  "alang",
-  "alans",
-  "alant",
-  "alarm",
-  "alary",
-  "alate",
-  "albas",
-  "album",
-  "alcid",
-  "alder",
-  "aldol",
-  "alecs",
-  "alefs",
-  "aleph",
-  "alert",
-  "alfas",
-  "algae",
-  "algal",
-  "algas",
-  "algid",
-  "algin",
-  "algor",
-  "algum",
-  "alias",
-  "alibi",
-  "alien",
-  "alifs",
-  "align",
-  "alike",
-  "aline",
-  "alist",
-  "alive",
-  "aliya",
-  "alkyd",
-  "alkyl",
-  "allay",
-  "allee",
-  "alley",
-  "allod",
-  "allot",
-  "allow",
-  "alloy",
-  "allyl",
-  "almah",
-  "almas",
-  "almeh",
-  "almes",
-  "almud",
-  "almug",
-  "aloes",
-  "aloft",
-  "aloha",
-  "aloin",
-  "alone",
-  "along",
-  "aloof",
-  "aloud",
-  "alpha",
-  "altar",
-  "alter",
-  "altho",
-  "altos",
-  "alula",
-  "alums",
-  "alway",
-  "amahs",
-  "amain",
-  "amass",
-  "amaze",
-  "amber",
-  "ambit",
-  "amble",
-  "ambos",
-  "ambry",
-  "ameba",
-  "ameer",
-  "amend",
-  "amens",
-  "ament",
-  "amias",
-  "amice",
-  "amici",
-  "amide",
-  "amido",
-  "amids",
-  "amies",
-  "amiga",
-  "amigo",
-  "amine",
-  "amino",
-  "amins",
-  "amirs",
-  "amiss",
-  "amity",
-  "ammos",
-  "amnia",
-  "amnic",
-  "amoks",
-  "amole",
-  "among",
-  "amort",
-  "amour",
-  "ample",
-  "amply",
-  "ampul",
-  "amuck",
-  "amuse",
-  "amyls",
-  "ancon",
-  "anear",
-  "anele",
-  "anent",
-  "angas",
-  "angel",
-  "anger",
-  "angle",
-  "angry",
-  "angst",
-  "anile",
-  "anils",
-  "anima",
-  "anime",
-  "animi",
-  "anion",
-  "anise",
-  "ankhs",
-  "ankle",
-  "ankus",
-  "anlas",
-  "annal",
-  "annas",
-  "annex",
-  "annoy",
-  "annul",
-  "anoas",
-  "anode",
-  "anole",
-  "anomy",
-  "ansae",
-  "antae",
-  "antas",
-  "anted",
-  "antes",
-  "antic",
-  "antis",
-  "antra",
-  "antre",
-  "antsy",
-  "anvil",
-  "aorta",
-  "apace",
-  "apart",
-  "apeak",
-  "apeek",
-  "apers",
-  "apery",
-  "aphid",
-  "aphis",
-  "apian",
-  "aping",
-  "apish",
-  "apnea",
-  "apods",
-  "aport",
-  "appal",
-  "appel",
-  "apple",
-  "apply",
-  "apres",
-  "apron",
-  "apses",
-  "apsis",
-  "apter",
-  "aptly",
-  "aquae",
-  "aquas",
-  "araks",
-  "arbor",
-  "arced",
-  "arcus",
-  "ardeb",
-  "ardor",
-  "areae",
-  "areal",
-  "areas",
-  "areca",
-  "areic",
-  "arena",
-  "arete",
-  "argal",
-  "argil",
-  "argle",
-  "argol",
-  "argon",
-  "argot",
-  "argue",
-  "argus",
-  "arhat",
-  "arias",
-  "ariel",
-  "arils",
-  "arise",
-  "arles",
-  "armed",
-  "armer",
-  "armet",
-  "armor",
-  "aroid",
-  "aroma",
-  "arose",
-  "arpen",
-  "arras",
-  "array",
-  "arris",
-  "arrow",
-  "arses",
-  "arsis",
-  "arson",
-  "artal",
-  "artel",
-  "artsy",
-  "arums",
-  "arval",
-  "arvos",
-  "aryls",
-  "asana",
-  "ascot",
-  "ascus",
-  "asdic",
-  "ashed",
-  "ashen",
-  "ashes",
-  "aside",
-  "asked",
-  "asker",
-  "askew",
-  "askoi",
-  "askos",
-  "aspen",
-  "asper",
-  "aspic",
-  "aspis",
-  "assai",
-  "assay",
-  "asses",
-  "asset",
-  "aster",
-  "astir",
-  "asyla",
-  "ataps",
-  "ataxy",
-  "atilt",
-  "atlas",
-  "atman",
-  "atmas",
-  "atoll",
-  "atoms",
-  "atomy",
-  "atone",
-  "atony",
-  "atopy",
-  "atria",
-  "atrip",
-  "attar",
-  "attic",
-  "audad",
-  "audio",
-  "audit",
-  "auger",
-  "aught",
-  "augur",
-  "aulic",
-  "aunts",
-  "aunty",
-  "aurae",
-  "aural",
-  "aurar",
-  "auras",
-  "aurei",
-  "aures",
-  "auric",
-  "auris",
-  "aurum",
-  "autos",
-  "auxin",
-  "avail",
-  "avant",
-  "avast",
-  "avens",
-  "avers",
-  "avert",
-  "avgas",
-  "avian",
-  "avion",
-  "aviso",
-  "avoid",
-  "avows",
-  "await",
-  "awake",
-  "award",
-  "aware",
-  "awash",
-  "awful",
-  "awing",
-  "awned",
-  "awoke",
-  "awols",
-  "axels",
-  "axial",
-  "axile",
-  "axils",
-  "axing",
-  "axiom",
-  "axion",
-  "axite",
-  "axled",
-  "axles",
-  "axman",
-  "axmen",
-  "axone",
-  "axons",
-  "ayahs",
-  "ayins",
-  "azans",
-  "azide",
-  "azido",
-  "azine",
-  "azlon",
-  "azoic",
-  "azole",
-  "azons",
-  "azote",
-  "azoth",
-  "azure",
-  "baaed",
-  "baals",
-  "babas",
-  "babel",
-  "babes",
-  "babka",
-  "baboo",
-  "babul",
-  "babus",
-  "bacca",
-  "backs",
-  "bacon",
-  "baddy",
-  "badge",
-  "badly",
-  "baffs",
-  "baffy",
-  "bagel",
-  "baggy",
-  "bahts",
-  "bails",
-  "bairn",
-  "baith",
-  "baits",
-  "baiza",
-  "baize",
-  "baked",
-  "baker",
-  "bakes",
-  "balas",
-  "balds",
-  "baldy",
-  "baled",
-  "baler",
-  "bales",
-  "balks",
-  "balky",
-  "balls",
-  "bally",
-  "balms",
-  "balmy",
-  "balsa",
-  "banal",
-  "banco",
-  "bands",
-  "bandy",
-  "baned",
-  "banes",
-  "bangs",
-  "banjo",
-  "banks",
-  "banns",
-  "banty",
-  "barbe",
-  "barbs",
-  "barde",
-  "bards",
-  "bared",
-  "barer",
-  "bares",
-  "barfs",
-  "barge",
-  "baric",
-  "barks",
-  "barky",
-  "barms",
-  "barmy",
-  "barns",
-  "barny",
-  "baron",
-  "barre",
-  "barye",
-  "basal",
-  "based",
-  "baser",
-  "bases",
-  "basic",
-  "basil",
-  "basin",
-  "basis",
-  "basks",
-  "bassi",
-  "basso",
-  "bassy",
-  "baste",
-  "basts",
-  "batch",
-  "bated",
-  "bates",
-  "bathe",
-  "baths",
-  "batik",
-  "baton",
-  "batts",
-  "battu",
-  "batty",
-  "bauds",
-  "baulk",
-  "bawds",
-  "bawdy",
-  "bawls",
-  "bawty",
-  "bayed",
-  "bayou",
-  "bazar",
-  "bazoo",
-  "beach",
-  "beads",
-  "beady",
-  "beaks",
-  "beaky",
-  "beams",
-  "beamy",
-  "beano",
-  "beans",
-  "beard",
-  "bears",
-  "beast",
-  "beats",
-  "beaus",
-  "beaut",
-  "beaux",
-  "bebop",
-  "becap",
-  "becks",
-  "bedel",
-  "bedew",
-  "bedim",
-  "beech",
-  "beefs",
-  "beefy",
-  "beeps",
-  "beers",
-  "beery",
-  "beets",
-  "befit",
-  "befog",
-  "began",
-  "begat",
-  "beget",
-  "begin",
-  "begot",
-  "begum",
-  "begun",
-  "beige",
-  "beigy",
-  "being",
-  "belay",
-  "belch",
-  "belga",
-  "belie",
-  "belle",
-  "bells",
-  "belly",
-  "below",
-  "belts",
-  "bemas",
-  "bemix",
-  "bench",
-  "bends",
-  "bendy",
-  "benes",
-  "benne",
-  "benni",
-  "benny",
-  "bents",
-  "beret",
-  "bergs",
-  "berme",
-  "berms",
-  "berry",
-  "berth",
-  "beryl",
-  "beset",
-  "besom",
-  "besot",
-  "bests",
-  "betas",
-  "betel",
-  "beths",
-  "beton",
-  "betta",
-  "bevel",
-  "bevor",
-  "bewig",
-  "bezel",
-  "bezil",
-  "bhang",
-  "bhoot",
-  "bhuts",
-  "biali",
-  "bialy",
-  "bibbs",
-  "bible",
-  "bices",
-  "biddy",
-  "bided",
-  "bider",
-  "bides",
-  "bidet",
-  "bield",
-  "biers",
-  "biffs",
-  "biffy",
-  "bifid",
-  "bight",
-  "bigly",
-  "bigot",
-  "bijou",
-  "biked",
-  "biker",
-  "bikes",
-  "bikie",
-  "bilbo",
-  "biles",
-  "bilge",
-  "bilgy",
-  "bilks",
-  "bills",
-  "billy",
-  "bimah",
-  "bimas",
-  "bimbo",
-  "binal",
-  "bindi",
-  "binds",
-  "bines",
-  "binge",
-  "bingo",
-  "binit",
-  "bints",
-  "biome",
-  "biont",
-  "biota",
-  "biped",
-  "bipod",
-  "birch",
-  "birds",
-  "birks",
-  "birle",
-  "birls",
-  "birrs",
-  "birse",
-  "birth",
-  "bises",
-  "bisks",
-  "bison",
-  "bitch",
-  "biter",
-  "bites",
-  "bitsy",
-  "bitts",
-  "bitty",
-  "bizes",
-  "blabs",
-  "black",
-  "blade",
-  "blahs",
-  "blain",
-  "blame",
-  "blams",
-  "bland",
-  "blank",
-  "blare",
-  "blase",
-  "blast",
-  "blate",
-  "blats",
-  "blawn",
-  "blaws",
-  "blaze",
-  "bleak",
-  "blear",
-  "bleat",
-  "blebs",
-  "bleed",
-  "bleep",
-  "blend",
-  "blent",
-  "bless",
-  "blest",
-  "blets",
-  "blimp",
-  "blimy",
-  "blind",
-  "blini",
-  "blink",
-  "blips",
-  "bliss",
-  "blite",
-  "blitz",
-  "bloat",
-  "blobs",
-  "block",
-  "blocs",
-  "bloke",
-  "blond",
-  "blood",
-  "bloom",
-  "bloop",
-  "blots",
-  "blown",
-  "blows",
-  "blowy",
-  "blubs",
-  "blued",
-  "bluer",
-  "blues",
-  "bluet",
-  "bluey",
-  "bluff",
-  "blume",
-  "blunt",
-  "blurb",
-  "blurs",
-  "blurt",
-  "blush",
-  "blype",
-  "board",
-  "boars",
-  "boart",
-  "boast",
-  "boats",
-  "bobby",
-  "bocce",
-  "bocci",
-  "boche",
-  "bocks",
-  "boded",
-  "bodes",
-  "boffo",
-  "boffs",
-  "bogan",
-  "bogey",
-  "boggy",
-  "bogie",
-  "bogle",
-  "bogus",
-  "bohea",
-  "boils",
-  "boing",
-  "boite",
-  "bolar",
-  "bolas",
-  "bolds",
-  "boles",
-  "bolls",
-  "bolos",
-  "bolts",
-  "bolus",
-  "bombe",
-  "bombs",
-  "bonds",
-  "boned",
-  "boner",
-  "bones",
-  "boney",
-  "bongo",
-  "bongs",
-  "bonks",
-  "bonne",
-  "bonny",
-  "bonus",
-  "bonze",
-  "boobs",
-  "booby",
-  "booed",
-  "boogy",
-  "books",
-  "booms",
-  "boomy",
-  "boons",
-  "boors",
-  "boost",
-  "booth",
-  "boots",
-  "booty",
-  "booze",
-  "boozy",
-  "boral",
-  "boras",
-  "borax",
-  "bored",
-  "borer",
-  "bores",
-  "boric",
-  "borne",
-  "boron",
-  "borts",
-  "borty",
-  "bortz",
-  "bosks",
-  "bosky",
-  "bosom",
-  "boson",
-  "bossy",
-  "bosun",
-  "botas",
-  "botch",
-  "botel",
-  "bothy",
-  "botts",
-  "bough",
-  "boule",
-  "bound",
-  "bourg",
-  "bourn",
-  "bouse",
-  "bousy",
-  "bouts",
-  "bovid",
-  "bowed",
-  "bowel",
-  "bower",
-  "bowls",
-  "bowse",
-  "boxed",
-  "boxer",
-  "boxes",
-  "boyar",
-  "boyla",
-  "boyos",
-  "bozos",
-  "brace",
-  "brach",
-  "bract",
-  "brads",
-  "braes",
-  "brags",
-  "braid",
-  "brail",
-  "brain",
-  "brake",
-  "braky",
-  "brand",
-  "brank",
-  "brans",
-  "brant",
-  "brash",
-  "brass",
-  "brats",
-  "brava",
-  "brave",
-  "bravi",
-  "bravo",
-  "brawl",
-  "brawn",
-  "braws",
-  "braxy",
-  "brays",
-  "braza",
-  "braze",
-  "bread",
-  "break",
-  "bream",
-  "brede",
-  "breed",
-  "brees",
-  "brens",
-  "brent",
-  "breve",
-  "brews",
-  "briar",
-  "bribe",
-  "brick",
-  "bride",
-  "brief",
-  "brier",
-  "bries",
-  "brigs",
-  "brill",
-  "brims",
-  "brine",
-  "bring",
-  "brink",
-  "brins",
-  "briny",
-  "brios",
-  "brisk",
-  "brits",
-  "britt",
-  "broad",
-  "brock",
-  "broil",
-  "broke",
-  "brome",
-  "bromo",
-  "bronc",
-  "brood",
-  "brook",
-  "broom",
-  "broos",
-  "brose",
-  "brosy",
-  "broth",
-  "brown",
-  "brows",
-  "brugh",
-  "bruin",
-  "bruit",
-  "brume",
-  "brunt",
-  "brush",
-  "brusk",
-  "brute",
-  "bubal",
-  "bubby",
-  "bucko",
-  "bucks",
-  "buddy",
-  "budge",
-  "buffi",
-  "buffo",
-  "buffs",
-  "buffy",
-  "buggy",
-  "bugle",
-  "buhls",
-  "buhrs",
-  "build",
-  "built",
-  "bulbs",
-  "bulge",
-  "bulgy",
-  "bulks",
-  "bulky",
-  "bulla",
-  "bulls",
-  "bully",
-  "bumfs",
-  "bumph",
-  "bumps",
-  "bumpy",
-  "bunch",
-  "bunco",
-  "bunds",
-  "bundt",
-  "bungs",
-  "bunko",
-  "bunks",
-  "bunns",
-  "bunny",
-  "bunts",
-  "bunya",
-  "buoys",
-  "buran",
-  "buras",
-  "burbs",
-  "burds",
-  "buret",
-  "burgh",
-  "burgs",
-  "burin",
-  "burke",
-  "burls",
-  "burly",
-  "burns",
-  "burnt",
-  "burps",
-  "burro",
-  "burrs",
-  "burry",
-  "bursa",
-  "burse",
-  "burst",
-  "busby",
-  "bused",
-  "buses",
-  "bushy",
-  "busks",
-  "busts",
-  "busty",
-  "butch",
-  "buteo",
-  "butle",
-  "butte",
-  "butts",
-  "butty",
-  "butut",
-  "butyl",
-  "buxom",
-  "buyer",
-  "bwana",
-  "bylaw",
-  "byres",
-  "byrls",
-  "byssi",
-  "bytes",
-  "byway",
-  "cabal",
-  "cabby",
-  "caber",
-  "cabin",
-  "cable",
-  "cabob",
-  "cacao",
-  "cacas",
-  "cache",
-  "cacti",
-  "caddy",
-  "cades",
-  "cadet",
-  "cadge",
-  "cadgy",
-  "cadis",
-  "cadre",
-  "caeca",
-  "cafes",
-  "caffs",
-  "caged",
-  "cager",
-  "cages",
-  "cagey",
-  "cahow",
-  "caids",
-  "cains",
-  "caird",
-  "cairn",
-  "cajon",
-  "caked",
-  "cakes",
-  "cakey",
-  "calfs",
-  "calif",
-  "calix",
-  "calks",
-  "calla",
-  "calls",
-  "calms",
-  "calve",
-  "calyx",
-  "camas",
-  "camel",
-  "cameo",
-  "cames",
-  "campi",
-  "campo",
-  "camps",
-  "campy",
-  "canal",
-  "candy",
-  "caned",
-  "caner",
-  "canes",
-  "canid",
-  "canna",
-  "canny",
-  "canoe",
-  "canon",
-  "canso",
-  "canst",
-  "canto",
-  "cants",
-  "canty",
-  "caped",
-  "caper",
-  "capes",
-  "caphs",
-  "capon",
-  "capos",
-  "caput",
-  "carat",
-  "carbo",
-  "carbs",
-  "cards",
-  "cared",
-  "carer",
-  "cares",
-  "caret",
-  "carex",
-  "cargo",
-  "carks",
-  "carle",
-  "carls",
-  "carns",
-  "carny",
-  "carob",
-  "carol",
-  "carom",
-  "carpi",
-  "carps",
-  "carrs",
-  "carry",
-  "carse",
-  "carte",
-  "carts",
-  "carve",
-  "casas",
-  "cased",
-  "cases",
-  "casks",
-  "casky",
-  "caste",
-  "casts",
-  "casus",
-  "catch",
-  "cater",
-  "cates",
-  "catty",
-  "cauld",
-  "caulk",
-  "cauls",
-  "cause",
-  "caved",
-  "caver",
-  "caves",
-  "cavie",
-  "cavil",
-  "cawed",
-  "cease",
-  "cebid",
-  "cecal",
-  "cecum",
-  "cedar",
-  "ceded",
-  "ceder",
-  "cedes",
-  "cedis",
-  "ceiba",
-  "ceils",
-  "celeb",
-  "cella",
-  "celli",
-  "cello",
-  "cells",
-  "celom",
-  "celts",
-  "cense",
-  "cento",
-  "cents",
-  "ceorl",
-  "cepes",
-  "cerci",
-  "cered",
-  "ceres",
-  "ceria",
-  "ceric",
-  "ceros",
-  "cesta",
-  "cesti",
-  "cetes",
-  "chads",
-  "chafe",
-  "chaff",
-  "chain",
-  "chair",
-  "chalk",
-  "champ",
-  "chams",
-  "chang",
-  "chant",
-  "chaos",
-  "chape",
-  "chaps",
-  "chapt",
-  "chard",
-  "chare",
-  "chark",
-  "charm",
-  "charr",
-  "chars",
-  "chart",
-  "chary",
-  "chase",
-  "chasm",
-  "chats",
-  "chaws",
-  "chays",
-  "cheap",
-  "cheat",
-  "check",
-  "cheek",
-  "cheep",
-  "cheer",
-  "chefs",
-  "chela",
-  "chemo",
-  "chert",
-  "chess",
-  "chest",
-  "cheth",
-  "chevy",
-  "chews",
-  "chewy",
-  "chiao",
-  "chias",
-  "chick",
-  "chico",
-  "chics",
-  "chide",
-  "chief",
-  "chiel",
-  "child",
-  "chile",
-  "chili",
-  "chill",
-  "chimb",
-  "chime",
-  "chimp",
-  "china",
-  "chine",
-  "chink",
-  "chino",
-  "chins",
-  "chips",
-  "chirk",
-  "chirm",
-  "chiro",
-  "chirp",
-  "chirr",
-  "chits",
-  "chive",
-  "chivy",
-  "chock",
-  "choir",
-  "choke",
-  "choky",
-  "cholo",
-  "chomp",
-  "chook",
-  "chops",
-  "chord",
-  "chore",
-  "chose",
-  "chott",
-  "chows",
-  "chubs",
-  "chuck",
-  "chufa",
-  "chuff",
-  "chugs",
-  "chump",
-  "chums",
-  "chunk",
-  "churl",
-  "churn",
-  "churr",
-  "chute",
-  "chyle",
-  "chyme",
-  "cibol",
-  "cider",
-  "cigar",
-  "cilia",
-  "cimex",
-  "cinch",
-  "cines",
-  "cions",
-  "circa",
-  "cires",
-  "cirri",
-  "cisco",
-  "cissy",
-  "cists",
-  "cited",
-  "citer",
-  "cites",
-  "civet",
-  "civic",
-  "civie",
-  "civil",
-  "civvy",
-  "clach",
-  "clack",
-  "clade",
-  "clads",
-  "clags",
-  "claim",
-  "clamp",
-  "clams",
-  "clang",
-  "clank",
-  "clans",
-  "claps",
-  "clapt",
-  "claro",
-  "clary",
-  "clash",
-  "clasp",
-  "class",
-  "clast",
-  "clave",
-  "clavi",
-  "claws",
-  "clays",
-  "clean",
-  "clear",
-  "cleat",
-  "cleek",
-  "clefs",
-  "cleft",
-  "clepe",
-  "clept",
-  "clerk",
-  "clews",
-  "click",
-  "cliff",
-  "clift",
-  "climb",
-  "clime",
-  "cline",
-  "cling",
-  "clink",
-  "clips",
-  "clipt",
-  "cloak",
-  "clock",
-  "clods",
-  "clogs",
-  "clomb",
-  "clomp",
-  "clone",
-  "clonk",
-  "clons",
-  "cloot",
-  "clops",
-  "close",
-  "cloth",
-  "clots",
-  "cloud",
-  "clour",
-  "clout",
-  "clove",
-  "clown",
-  "cloys",
-  "cloze",
-  "clubs",
-  "cluck",
-  "clued",
-  "clues",
-  "clump",
-  "clung",
-  "clunk",
-  "coach",
-  "coact",
-  "coala",
-  "coals",
-  "coaly",
-  "coapt",
-  "coast",
-  "coati",
-  "coats",
-  "cobbs",
-  "cobby",
-  "cobia",
-  "coble",
-  "cobra",
-  "cocas",
-  "cocci",
-  "cocks",
-  "cocky",
-  "cocoa",
-  "cocos",
-  "codas",
-  "codec",
-  "coded",
-  "coden",
-  "coder",
-  "codes",
-  "codex",
-  "codon",
-  "coeds",
-  "coffs",
-  "cogon",
-  "cohog",
-  "cohos",
-  "coifs",
-  "coign",
-  "coils",
-  "coins",
-  "coirs",
-  "coked",
-  "cokes",
-  "colas",
-  "colds",
-  "coled",
-  "coles",
-  "colic",
-  "colin",
-  "colly",
-  "colog",
-  "colon",
-  "color",
-  "colts",
-  "colza",
-  "comae",
-  "comal",
-  "comas",
-  "combe",
-  "combo",
-  "combs",
-  "comer",
-  "comes",
-  "comet",
-  "comfy",
-  "comic",
-  "comix",
-  "comma",
-  "commy",
-  "compo",
-  "comps",
-  "compt",
-  "comte",
-  "conch",
-  "condo",
-  "coned",
-  "cones",
-  "coney",
-  "conga",
-  "conge",
-  "congo",
-  "conic",
-  "conin",
-  "conks",
-  "conky",
-  "conns",
-  "conte",
-  "conto",
-  "conus",
-  "cooch",
-  "cooed",
-  "cooee",
-  "cooer",
-  "cooey",
-  "coofs",
-  "cooks",
-  "cooky",
-  "cools",
-  "cooly",
-  "coomb",
-  "coons",
-  "coops",
-  "coopt",
-  "coots",
-  "copal",
-  "coped",
-  "copen",
-  "coper",
-  "copes",
-  "copra",
-  "copse",
-  "coral",
-  "corby",
-  "cords",
-  "cored",
-  "corer",
-  "cores",
-  "corgi",
-  "coria",
-  "corks",
-  "corky",
-  "corms",
-  "corns",
-  "cornu",
-  "corny",
-  "corps",
-  "corse",
-  "cosec",
-  "coses",
-  "coset",
-  "cosey",
-  "cosie",
-  "costa",
-  "costs",
-  "cotan",
-  "coted",
-  "cotes",
-  "cotta",
-  "couch",
-  "coude",
-  "cough",
-  "could",
-  "count",
-  "coupe",
-  "coups",
-  "court",
-  "couth",
-  "coved",
-  "coven",
-  "cover",
-  "coves",
-  "covet",
-  "covey",
-  "covin",
-  "cowed",
-  "cower",
-  "cowls",
-  "cowry",
-  "coxae",
-  "coxal",
-  "coxed",
-  "coxes",
-  "coyed",
-  "coyer",
-  "coyly",
-  "coypu",
-  "cozen",
-  "cozes",
-  "cozey",
-  "cozie",
-  "craal",
-  "crabs",
-  "crack",
-  "craft",
-  "crags",
-  "crake",
-  "cramp",
-  "crams",
-  "crane",
-  "crank",
-  "crape",
-  "craps",
-  "crash",
-  "crass",
-  "crate",
-  "crave",
-  "crawl",
-  "craws",
-  "craze",
-  "crazy",
-  "creak",
-  "cream",
-  "credo",
-  "creed",
-  "creek",
-  "creel",
-  "creep",
-  "creme",
-  "crepe",
-  "crept",
-  "crepy",
-  "cress",
-  "crest",
-  "crews",
-  "cribs",
-  "crick",
-  "cried",
-  "crier",
-  "cries",
-  "crime",
-  "crimp",
-  "cripe",
-  "crisp",
-  "croak",
-  "croci",
-  "crock",
-  "crocs",
-  "croft",
-  "crone",
-  "crony",
-  "crook",
-  "croon",
-  "crops",
-  "crore",
-  "cross",
-  "croup",
-  "crowd",
-  "crown",
-  "crows",
-  "croze",
-  "cruck",
-  "crude",
-  "cruds",
-  "cruel",
-  "cruet",
-  "crumb",
-  "crump",
-  "cruor",
-  "crura",
-  "cruse",
-  "crush",
-  "crust",
-  "crwth",
-  "crypt",
-  "cubby",
-  "cubeb",
-  "cubed",
-  "cuber",
-  "cubes",
-  "cubic",
-  "cubit",
-  "cuddy",
-  "cuffs",
-  "cuifs",
-  "cuing",
-  "cuish",
-  "cukes",
-  "culch",
-  "culet",
-  "culex",
-  "culls",
-  "cully",
-  "culms",
-  "culpa",
-  "culti",
-  "cults",
-  "cumin",
-  "cunts",
-  "cupel",
-  "cupid",
-  "cuppa",
-  "cuppy",
-  "curbs",
-  "curch",
-  "curds",
-  "curdy",
-  "cured",
-  "curer",
-  "cures",
-  "curet",
-  "curfs",
-  "curia",
-  "curie",
-  "curio",
-  "curls",
-  "curly",
-  "curns",
-  "currs",
-  "curry",
-  "curse",
-  "curst",
-  "curve",
-  "curvy",
-  "cusec",
-  "cushy",
-  "cusks",
-  "cusps",
-  "cusso",
-  "cutch",
-  "cuter",
-  "cutes",
-  "cutey",
-  "cutie",
-  "cutin",
-  "cutis",
-  "cutty",
-  "cutup",
-  "cyano",
-  "cyans",
-  "cycad",
-  "cycas",
-  "cycle",
-  "cyclo",
-  "cyder",
-  "cylix",
-  "cymae",
-  "cymar",
-  "cymas",
-  "cymes",
-  "cymol",
-  "cynic",
-  "cysts",
-  "cyton",
-  "czars",
-  "daces",
-  "dacha",
-  "dadas",
-  "daddy",
-  "dados",
-  "daffs",
-  "daffy",
-  "dagga",
-  "dagos",
-  "dahls",
-  "daily",
-  "dairy",
-  "daisy",
-  "dales",
-  "dally",
-  "daman",
-  "damar",
-  "dames",
-  "damns",
-  "damps",
-  "dance",
-  "dandy",
-  "dangs",
-  "danio",
-  "darbs",
-  "dared",
-  "darer",
-  "dares",
-  "daric",
-  "darks",
-  "darky",
-  "darns",
-  "darts",
-  "dashi",
-  "dashy",
-  "dated",
-  "dater",
-  "dates",
-  "datos",
-  "datto",
-  "datum",
-  "daube",
-  "daubs",
-  "dauby",
-  "daunt",
-  "dauts",
-  "daven",
-  "davit",
-  "dawed",
-  "dawen",
-  "dawks",
-  "dawns",
-  "dawts",
-  "dazed",
-  "dazes",
-  "deads",
-  "deair",
-  "deals",
-  "dealt",
-  "deans",
-  "dears",
-  "deary",
-  "deash",
-  "death",
-  "deave",
-  "debar",
-  "debit",
-  "debts",
-  "debug",
-  "debut",
-  "debye",
-  "decaf",
-  "decal",
-  "decay",
-  "decks",
-  "decor",
-  "decos",
-  "decoy",
-  "decry",
-  "dedal",
-  "deeds",
-  "deedy",
-  "deems",
-  "deeps",
-  "deers",
-  "deets",
-  "defat",
-  "defer",
-  "defis",
-  "defog",
-  "degas",
-  "degum",
-  "deice",
-  "deify",
-  "deign",
-  "deils",
-  "deism",
-  "deist",
-  "deity",
-  "deked",
-  "dekes",
-  "dekko",
-  "delay",
-  "deled",
-  "deles",
-  "delfs",
-  "delft",
-  "delis",
-  "dells",
-  "delly",
-  "delta",
-  "delve",
-  "demes",
-  "demit",
-  "demob",
-  "demon",
-  "demos",
-  "demur",
-  "denes",
-  "denim",
-  "dense",
-  "dents",
-  "deoxy",
-  "depot",
-  "depth",
-  "derat",
-  "deray",
-  "derby",
-  "derma",
-  "derms",
-  "derry",
-  "desex",
-  "desks",
-  "deter",
-  "detox",
-  "deuce",
-  "devas",
-  "devel",
-  "devil",
-  "devon",
-  "dewan",
-  "dewar",
-  "dewax",
-  "dewed",
-  "dexes",
-  "dexie",
-  "dhaks",
-  "dhals",
-  "dhobi",
-  "dhole",
-  "dhoti",
-  "dhows",
-  "dhuti",
-  "dials",
-  "diary",
-  "diazo",
-  "diced",
-  "dicer",
-  "dices",
-  "dicey",
-  "dicks",
-  "dicky",
-  "dicot",
-  "dicta",
-  "dicty",
-  "didie",
-  "didos",
-  "didst",
-  "diene",
-  "diets",
-  "dight",
-  "digit",
-  "diked",
-  "diker",
-  "dikes",
-  "dikey",
-  "dildo",
-  "dills",
-  "dilly",
-  "dimer",
-  "dimes",
-  "dimly",
-  "dinar",
-  "dined",
-  "diner",
-  "dines",
-  "dinge",
-  "dingo",
-  "dings",
-  "dingy",
-  "dinks",
-  "dinky",
-  "dints",
-  "diode",
-  "diols",
-  "dippy",
-  "dipso",
-  "direr",
-  "dirge",
-  "dirks",
-  "dirls",
-  "dirts",
-  "dirty",
-  "disci",
-  "disco",
-  "discs",
-  "dishy",
-  "disks",
-  "disme",
-  "ditas",
-  "ditch",
-  "dites",
-  "ditsy",
-  "ditto",
-  "ditty",
-  "ditzy",
-  "divan",
-  "divas",
-  "dived",
-  "diver",
-  "dives",
-  "divot",
-  "divvy",
-  "diwan",
-  "dixit",
-  "dizen",
-  "dizzy",
-  "djinn",
-  "djins",
-  "doats",
-  "dobby",
-  "dobie",
-  "dobla",
-  "dobra",
-  "docks",
-  "dodge",
-  "dodgy",
-  "dodos",
-  "doers",
-  "doest",
-  "doeth",
-  "doffs",
-  "doges",
-  "dogey",
-  "doggo",
-  "doggy",
-  "dogie",
-  "dogma",
-  "doily",
-  "doing",
-  "doits",
-  "dojos",
-  "dolce",
-  "dolci",
-  "doled",
-  "doles",
-  "dolls",
-  "dolly",
-  "dolma",
-  "dolor",
-  "dolts",
-  "domal",
-  "domed",
-  "domes",
-  "domic",
-  "donas",
-  "donee",
-  "donga",
-  "dongs",
-  "donna",
-  "donne",
-  "donor",
-  "donsy",
-  "donut",
-  "dooly",
-  "dooms",
-  "doomy",
-  "doors",
-  "doozy",
-  "dopas",
-  "doped",
-  "doper",
-  "dopes",
-  "dopey",
-  "dorks",
-  "dorky",
-  "dorms",
-  "dormy",
-  "dorps",
-  "dorrs",
-  "dorsa",
-  "dorty",
-  "dosed",
-  "doser",
-  "doses",
-  "dotal",
-  "doted",
-  "doter",
-  "dotes",
-  "dotty",
-  "doubt",
-  "douce",
-  "dough",
-  "douma",
-  "doums",
-  "doura",
-  "douse",
-  "doven",
-  "doves",
-  "dowdy",
-  "dowed",
-  "dowel",
-  "dower",
-  "dowie",
-  "downs",
-  "downy",
-  "dowry",
-  "dowse",
-  "doxie",
-  "doyen",
-  "doyly",
-  "dozed",
-  "dozen",
-  "dozer",
-  "dozes",
-  "drabs",
-  "draff",
-  "draft",
-  "drags",
-  "drail",
-  "drain",
-  "drake",
-  "drama",
-  "drams",
-  "drank",
-  "drape",
-  "drats",
-  "drave",
-  "drawl",
-  "drawn",
-  "draws",
-  "drays",
-  "dread",
-  "dream",
-  "drear",
-  "dreck",
-  "dreed",
-  "drees",
-  "dregs",
-  "dreks",
-  "dress",
-  "drest",
-  "dribs",
-  "dried",
-  "drier",
-  "dries",
-  "drift",
-  "drill",
-  "drily",
-  "drink",
-  "drips",
-  "dript",
-  "drive",
-  "droit",
-  "droll",
-  "drone",
-  "drool",
-  "droop",
-  "drops",
-  "dropt",
-  "dross",
-  "drouk",
-  "drove",
-  "drown",
-  "drubs",
-  "drugs",
-  "druid",
-  "drums",
-  "drunk",
-  "drupe",
-  "druse",
-  "dryad",
-  "dryer",
-  "dryly",
-  "duads",
-  "duals",
-  "ducal",
-  "ducat",
-  "duces",
-  "duchy",
-  "ducks",
-  "ducky",
-  "ducts",
-  "duddy",
-  "duded",
-  "dudes",
-  "duels",
-  "duets",
-  "duffs",
-  "duits",
-  "duked",
-  "dukes",
-  "dulia",
-  "dulls",
-  "dully",
-  "dulse",
-  "dumas",
-  "dumbs",
-  "dumka",
-  "dumky",
-  "dummy",
-  "dumps",
-  "dumpy",
-  "dunam",
-  "dunce",
-  "dunch",
-  "dunes",
-  "dungs",
-  "dungy",
-  "dunks",
-  "dunts",
-  "duomi",
-  "duomo",
-  "duped",
-  "duper",
-  "dupes",
-  "duple",
-  "dural",
-  "duras",
-  "dured",
-  "dures",
-  "durns",
-  "duroc",
-  "duros",
-  "durra",
-  "durrs",
-  "durst",
-  "durum",
-  "dusks",
-  "dusky",
-  "dusts",
-  "dusty",
-  "dutch",
-  "duvet",
-  "dwarf",
-  "dweeb",
-  "dwell",
-  "dwelt",
-  "dwine",
-  "dyads",
-  "dyers",
-  "dying",
-  "dyked",
-  "dykes",
-  "dykey",
-  "dynel",
-  "dynes",
-  "eager",
-  "eagle",
-  "eagre",
-  "eared",
-  "earls",
-  "early",
-  "earns",
-  "earth",
-  "eased",
-  "easel",
-  "eases",
-  "easts",
-  "eaten",
-  "eater",
-  "eaved",
-  "eaves",
-  "ebbed",
-  "ebbet",
-  "ebons",
-  "ebony",
-  "eched",
-  "eches",
-  "echos",
-  "eclat",
-  "ecrus",
-  "edema",
-  "edged",
-  "edger",
-  "edges",
-  "edict",
-  "edify",
-  "edile",
-  "edits",
-  "educe",
-  "educt",
-  "eerie",
-  "egads",
-  "egers",
-  "egest",
-  "eggar",
-  "egged",
-  "egger",
-  "egret",
-  "eider",
-  "eidos",
-  "eight",
-  "eikon",
-  "eject",
-  "eking",
-  "elain",
-  "eland",
-  "elans",
-  "elate",
-  "elbow",
-  "elder",
-  "elect",
-  "elegy",
-  "elemi",
-  "elfin",
-  "elide",
-  "elint",
-  "elite",
-  "eloin",
-  "elope",
-  "elude",
-  "elute",
-  "elver",
-  "elves",
-  "embar",
-  "embay",
-  "embed",
-  "ember",
-  "embow",
-  "emcee",
-  "emeer",
-  "emend",
-  "emery",
-  "emeus",
-  "emirs",
-  "emits",
-  "emmer",
-  "emmet",
-  "emote",
-  "empty",
-  "emyde",
-  "emyds",
-  "enact",
-  "enate",
-  "ended",
-  "ender",
-  "endow",
-  "endue",
-  "enema",
-  "enemy",
-  "enjoy",
-  "ennui",
-  "enoki",
-  "enols",
-  "enorm",
-  "enows",
-  "enrol",
-  "ensky",
-  "ensue",
-  "enter",
-  "entia",
-  "entry",
-  "enure",
-  "envoi",
-  "envoy",
-  "enzym",
-  "eosin",
-  "epact",
-  "epees",
-  "ephah",
-  "ephas",
-  "ephod",
-  "ephor",
-  "epics",
-  "epoch",
-  "epode",
-  "epoxy",
-  "equal",
-  "equid",
-  "equip",
-  "erase",
-  "erect",
-  "ergot",
-  "erica",
-  "ernes",
-  "erode",
-  "erose",
-  "erred",
-  "error",
-  "erses",
-  "eruct",
-  "erugo",
-  "erupt",
-  "ervil",
-  "escar",
-  "escot",
-  "eskar",
-  "esker",
-  "essay",
-  "esses",
-  "ester",
-  "estop",
-  "etape",
-  "ether",
-  "ethic",
-  "ethos",
-  "ethyl",
-  "etnas",
-  "etude",
-  "etuis",
-  "etwee",
-  "etyma",
-  "euros",
-  "evade",
-  "evens",
-  "event",
-  "evert",
-  "every",
-  "evict",
-  "evils",
-  "evite",
-  "evoke",
-  "ewers",
-  "exact",
-  "exalt",
-  "exams",
-  "excel",
-  "execs",
-  "exert",
-  "exile",
-  "exine",
-  "exist",
-  "exits",
-  "exons",
-  "expat",
-  "expel",
-  "expos",
-  "extol",
-  "extra",
-  "exude",
-  "exult",
-  "exurb",
-  "eyers",
-  "eying",
-  "eyras",
-  "eyres",
-  "eyrie",
-  "eyrir",
-  "fable",
-  "faced",
-  "facer",
-  "faces",
-  "facet",
-  "facia",
-  "facts",
-  "faddy",
-  "faded",
-  "fader",
-  "fades",
-  "fadge",
-  "fados",
-  "faena",
-  "faery",
-  "faggy",
-  "fagin",
-  "fagot",
-  "fails",
-  "faint",
-  "fairs",
-  "fairy",
-  "faith",
-  "faked",
-  "faker",
-  "fakes",
-  "fakey",
-  "fakir",
-  "falls",
-  "false",
-  "famed",
-  "fames",
-  "fancy",
-  "fanes",
-  "fanga",
-  "fangs",
-  "fanny",
-  "fanon",
-  "fanos",
-  "fanum",
-  "faqir",
-  "farad",
-  "farce",
-  "farci",
-  "farcy",
-  "fards",
-  "fared",
-  "farer",
-  "fares",
-  "farle",
-  "farls",
-  "farms",
-  "faros",
-  "farts",
-  "fasts",
-  "fatal",
-  "fated",
-  "fates",
-  "fatly",
-  "fatso",
-  "fatty",
-  "fatwa",
-  "faugh",
-  "fauld",
-  "fault",
-  "fauna",
-  "fauns",
-  "fauve",
-  "favas",
-  "faves",
-  "favor",
-  "favus",
-  "fawns",
-  "fawny",
-  "faxed",
-  "faxes",
-  "fayed",
-  "fazed",
-  "fazes",
-  "fears",
-  "fease",
-  "feast",
-  "feats",
-  "feaze",
-  "fecal",
-  "feces",
-  "fecks",
-  "feeds",
-  "feels",
-  "feeze",
-  "feign",
-  "feint",
-  "feist",
-  "felid",
-  "fella",
-  "fells",
-  "felly",
-  "felon",
-  "felts",
-  "femes",
-  "femme",
-  "femur",
-  "fence",
-  "fends",
-  "fenny",
-  "feods",
-  "feoff",
-  "feral",
-  "feres",
-  "feria",
-  "ferly",
-  "fermi",
-  "ferns",
-  "ferny",
-  "ferry",
-  "fesse",
-  "fetal",
-  "fetas",
-  "fetch",
-  "feted",
-  "fetes",
-  "fetid",
-  "fetor",
-  "fetus",
-  "feuar",
-  "feuds",
-  "feued",
-  "fever",
-  "fewer",
-  "feyer",
-  "feyly",
-  "fezes",
-  "fiars",
-  "fiats",
-  "fiber",
-  "fibre",
-  "fices",
-  "fiche",
-  "fichu",
-  "ficin",
-  "ficus",
-  "fidge",
-  "fidos",
-  "fiefs",
-  "field",
-  "fiend",
-  "fiery",
-  "fifed",
-  "fifer",
-  "fifes",
-  "fifth",
-  "fifty",
-  "fight",
-  "filar",
-  "filch",
-  "filed",
-  "filer",
-  "files",
-  "filet",
-  "fille",
-  "fillo",
-  "fills",
-  "filly",
-  "films",
-  "filmy",
-  "filos",
-  "filth",
-  "filum",
-  "final",
-  "finch",
-  "finds",
-  "fined",
-  "finer",
-  "fines",
-  "finis",
-  "finks",
-  "finny",
-  "finos",
-  "fiord",
-  "fique",
-  "fired",
-  "firer",
-  "fires",
-  "firms",
-  "firns",
-  "firry",
-  "first",
-  "firth",
-  "fiscs",
-  "fishy",
-  "fists",
-  "fitch",
-  "fitly",
-  "fiver",
-  "fives",
-  "fixed",
-  "fixer",
-  "fixes",
-  "fixit",
-  "fizzy",
-  "fjeld",
-  "fjord",
-  "flabs",
-  "flack",
-  "flags",
-  "flail",
-  "flair",
-  "flake",
-  "flaky",
-  "flame",
-  "flams",
-  "flamy",
-  "flank",
-  "flans",
-  "flaps",
-  "flare",
-  "flash",
-  "flask",
-  "flats",
-  "flaws",
-  "flawy",
-  "flaxy",
-  "flays",
-  "fleam",
-  "fleas",
-  "fleck",
-  "fleer",
-  "flees",
-  "fleet",
-  "flesh",
-  "flews",
-  "fleys",
-  "flick",
-  "flics",
-  "flied",
-  "flier",
-  "flies",
-  "fling",
-  "flint",
-  "flips",
-  "flirt",
-  "flite",
-  "flits",
-  "float",
-  "flock",
-  "flocs",
-  "floes",
-  "flogs",
-  "flong",
-  "flood",
-  "floor",
-  "flops",
-  "flora",
-  "floss",
-  "flota",
-  "flour",
-  "flout",
-  "flown",
-  "flows",
-  "flubs",
-  "flued",
-  "flues",
-  "fluff",
-  "fluid",
-  "fluke",
-  "fluky",
-  "flume",
-  "flump",
-  "flung",
-  "flunk",
-  "fluor",
-  "flush",
-  "flute",
-  "fluty",
-  "fluyt",
-  "flyby",
-  "flyer",
-  "flyte",
-  "foals",
-  "foams",
-  "foamy",
-  "focal",
-  "focus",
-  "foehn",
-  "fogey",
-  "foggy",
-  "fogie",
-  "fohns",
-  "foils",
-  "foins",
-  "foist",
-  "folds",
-  "folia",
-  "folio",
-  "folks",
-  "folky",
-  "folly",
-  "fonds",
-  "fondu",
-  "fonts",
-  "foods",
-  "fools",
-  "foots",
-  "footy",
-  "foram",
-  "foray",
-  "forbs",
-  "forby",
-  "force",
-  "fordo",
-  "fords",
-  "fores",
-  "forge",
-  "forgo",
-  "forks",
-  "forky",
-  "forme",
-  "forms",
-  "forte",
-  "forth",
-  "forts",
-  "forty",
-  "forum",
-  "fossa",
-  "fosse",
-  "fouls",
-  "found",
-  "fount",
-  "fours",
-  "fovea",
-  "fowls",
-  "foxed",
-  "foxes",
-  "foyer",
-  "frags",
-  "frail",
-  "frame",
-  "franc",
-  "frank",
-  "fraps",
-  "frass",
-  "frats",
-  "fraud",
-  "frays",
-  "freak",
-  "freed",
-  "freer",
-  "frees",
-  "fremd",
-  "frena",
-  "frere",
-  "fresh",
-  "frets",
-  "friar",
-  "fried",
-  "frier",
-  "fries",
-  "frigs",
-  "frill",
-  "frise",
-  "frisk",
-  "frith",
-  "frits",
-  "fritt",
-  "fritz",
-  "frizz",
-  "frock",
-  "froes",
-  "frogs",
-  "frond",
-  "frons",
-  "front",
-  "frore",
-  "frosh",
-  "frost",
-  "froth",
-  "frown",
-  "frows",
-  "froze",
-  "frugs",
-  "fruit",
-  "frump",
-  "fryer",
-  "fubsy",
-  "fucks",
-  "fucus",
-  "fudge",
-  "fuels",
-  "fugal",
-  "fuggy",
-  "fugio",
-  "fugle",
-  "fugue",
-  "fugus",
-  "fujis",
-  "fulls",
-  "fully",
-  "fumed",
-  "fumer",
-  "fumes",
-  "fumet",
-  "fundi",
-  "funds",
-  "fungi",
-  "fungo",
-  "funks",
-  "funky",
-  "funny",
-  "furan",
-  "furls",
-  "furor",
-  "furry",
-  "furze",
-  "furzy",
-  "fused",
-  "fusee",
-  "fusel",
-  "fuses",
-  "fusil",
-  "fussy",
-  "fusty",
-  "futon",
-  "fuzed",
-  "fuzee",
-  "fuzes",
-  "fuzil",
-  "fuzzy",
-  "fyces",
-  "fykes",
-  "fytte",
-  "gabby",
-  "gable",
-  "gaddi",
-  "gadid",
-  "gadis",
-  "gaffe",
-  "gaffs",
-  "gaged",
-  "gager",
-  "gages",
-  "gaily",
-  "gains",
-  "gaits",
-  "galah",
-  "galas",
-  "galax",
-  "galea",
-  "gales",
-  "galls",
-  "gally",
-  "galop",
-  "gamas",
-  "gamay",
-  "gamba",
-  "gambe",
-  "gambs",
-  "gamed",
-  "gamer",
-  "games",
-  "gamey",
-  "gamic",
-  "gamin",
-  "gamma",
-  "gammy",
-  "gamps",
-  "gamut",
-  "ganef",
-  "ganev",
-  "gangs",
-  "ganja",
-  "ganof",
-  "gaols",
-  "gaped",
-  "gaper",
-  "gapes",
-  "gappy",
-  "garbs",
-  "garni",
-  "garth",
-  "gases",
-  "gasps",
-  "gassy",
-  "gasts",
-  "gated",
-  "gates",
-  "gator",
-  "gauds",
-  "gaudy",
-  "gauge",
-  "gault",
-  "gaums",
-  "gaunt",
-  "gaurs",
-  "gauss",
-  "gauze",
-  "gauzy",
-  "gavel",
-  "gavot",
-  "gawks",
-  "gawky",
-  "gawps",
-  "gawsy",
-  "gayal",
-  "gayer",
-  "gayly",
-  "gazar",
-  "gazed",
-  "gazer",
-  "gazes",
-  "gears",
-  "gecko",
-  "gecks",
-  "geeks",
-  "geeky",
-  "geese",
-  "geest",
-  "gelds",
-  "gelee",
-  "gelid",
-  "gelts",
-  "gemma",
-  "gemmy",
-  "gemot",
-  "genes",
-  "genet",
-  "genic",
-  "genie",
-  "genii",
-  "genip",
-  "genoa",
-  "genom",
-  "genre",
-  "genro",
-  "gents",
-  "genua",
-  "genus",
-  "geode",
-  "geoid",
-  "gerah",
-  "germs",
-  "germy",
-  "gesso",
-  "geste",
-  "gests",
-  "getas",
-  "getup",
-  "geums",
-  "ghast",
-  "ghats",
-  "ghaut",
-  "ghazi",
-  "ghees",
-  "ghost",
-  "ghoul",
-  "ghyll",
-  "giant",
-  "gibed",
-  "giber",
-  "gibes",
-  "giddy",
-  "gifts",
-  "gigas",
-  "gighe",
-  "gigot",
-  "gigue",
-  "gilds",
-  "gills",
-  "gilly",
-  "gilts",
-  "gimel",
-  "gimme",
-  "gimps",
-  "gimpy",
-  "ginks",
-  "ginny",
-  "gipon",
-  "gipsy",
-  "girds",
-  "girls",
-  "girly",
-  "girns",
-  "giron",
-  "giros",
-  "girsh",
-  "girth",
-  "girts",
-  "gismo",
-  "gists",
-  "given",
-  "giver",
-  "gives",
-  "gizmo",
-  "glace",
-  "glade",
-  "glads",
-  "glady",
-  "glair",
-  "gland",
-  "glans",
-  "glare",
-  "glary",
-  "glass",
-  "glaze",
-  "glazy",
-  "gleam",
-  "glean",
-  "gleba",
-  "glebe",
-  "glede",
-  "gleds",
-  "gleed",
-  "gleek",
-  "glees",
-  "gleet",
-  "glens",
-  "gleys",
-  "glial",
-  "glias",
-  "glide",
-  "gliff",
-  "glime",
-  "glims",
-  "glint",
-  "glitz",
-  "gloam",
-  "gloat",
-  "globe",
-  "globs",
-  "glogg",
-  "gloms",
-  "gloom",
-  "glops",
-  "glory",
-  "gloss",
-  "glost",
-  "glout",
-  "glove",
-  "glows",
-  "gloze",
-  "glued",
-  "gluer",
-  "glues",
-  "gluey",
-  "glugs",
-  "glume",
-  "gluon",
-  "gluts",
-  "glyph",
-  "gnarl",
-  "gnarr",
-  "gnars",
-  "gnash",
-  "gnats",
-  "gnawn",
-  "gnaws",
-  "gnome",
-  "goads",
-  "goals",
-  "goats",
-  "goban",
-  "gobos",
-  "godet",
-  "godly",
-  "goers",
-  "gofer",
-  "gogos",
-  "going",
-  "golds",
-  "golem",
-  "golfs",
-  "golly",
-  "gombo",
-  "gonad",
-  "gonef",
-  "goner",
-  "gongs",
-  "gonia",
-  "gonif",
-  "gonof",
-  "gonzo",
-  "goods",
-  "goody",
-  "gooey",
-  "goofs",
-  "goofy",
-  "gooks",
-  "gooky",
-  "goons",
-  "goony",
-  "goops",
-  "goopy",
-  "goose",
-  "goosy",
-  "goral",
-  "gored",
-  "gores",
-  "gorge",
-  "gorps",
-  "gorse",
-  "gorsy",
-  "gouge",
-  "gourd",
-  "gouts",
-  "gouty",
-  "gowan",
-  "gowds",
-  "gowks",
-  "gowns",
-  "goxes",
-  "goyim",
-  "graal",
-  "grabs",
-  "grace",
-  "grade",
-  "grads",
-  "graft",
-  "grail",
-  "grain",
-  "grama",
-  "gramp",
-  "grams",
-  "grana",
-  "grand",
-  "grans",
-  "grant",
-  "grape",
-  "graph",
-  "grapy",
-  "grasp",
-  "grass",
-  "grate",
-  "grave",
-  "gravy",
-  "grays",
-  "graze",
-  "great",
-  "grebe",
-  "greed",
-  "greek",
-  "green",
-  "grees",
-  "greet",
-  "grego",
-  "greys",
-  "gride",
-  "grids",
-  "grief",
-  "griff",
-  "grift",
-  "grigs",
-  "grill",
-  "grime",
-  "grimy",
-  "grind",
-  "grins",
-  "griot",
-  "gripe",
-  "grips",
-  "gript",
-  "gripy",
-  "grist",
-  "grith",
-  "grits",
-  "groan",
-  "groat",
-  "grogs",
-  "groin",
-  "groom",
-  "grope",
-  "gross",
-  "grosz",
-  "grots",
-  "group",
-  "grout",
-  "grove",
-  "growl",
-  "grown",
-  "grows",
-  "grubs",
-  "gruel",
-  "grues",
-  "gruff",
-  "grume",
-  "grump",
-  "grunt",
-  "guaco",
-  "guano",
-  "guans",
-  "guard",
-  "guars",
-  "guava",
-  "gucks",
-  "gudes",
-  "guess",
-  "guest",
-  "guffs",
-  "guide",
-  "guids",
-  "guild",
-  "guile",
-  "guilt",
-  "guiro",
-  "guise",
-  "gulag",
-  "gular",
-  "gulch",
-  "gules",
-  "gulfs",
-  "gulfy",
-  "gulls",
-  "gully",
-  "gulps",
-  "gulpy",
-  "gumbo",
-  "gumma",
-  "gummy",
-  "gunks",
-  "gunky",
-  "gunny",
-  "guppy",
-  "gurge",
-  "gurry",
-  "gursh",
-  "gurus",
-  "gushy",
-  "gussy",
-  "gusto",
-  "gusts",
-  "gusty",
-  "gutsy",
-  "gutta",
-  "gutty",
-  "guyed",
-  "guyot",
-  "gybed",
-  "gybes",
-  "gypsy",
-  "gyral",
-  "gyred",
-  "gyres",
-  "gyron",
-  "gyros",
-  "gyrus",
-  "gyved",
-  "gyves",
-  "haafs",
-  "haars",
-  "habit",
-  "habus",
-  "hacek",
-  "hacks",
-  "hadal",
-  "haded",
-  "hades",
-  "hadji",
-  "hadst",
-  "haems",
-  "haets",
-  "hafis",
-  "hafiz",
-  "hafts",
-  "hahas",
-  "haika",
-  "haiks",
-  "haiku",
-  "hails",
-  "hairs",
-  "hairy",
-  "hajes",
-  "hajis",
-  "hajji",
-  "hakes",
-  "hakim",
-  "haled",
-  "haler",
-  "hales",
-  "halid",
-  "hallo",
-  "halls",
-  "halma",
-  "halms",
-  "halos",
-  "halts",
-  "halva",
-  "halve",
-  "hamal",
-  "hames",
-  "hammy",
-  "hamza",
-  "hance",
-  "hands",
-  "handy",
-  "hangs",
-  "hanks",
-  "hanky",
-  "hansa",
-  "hanse",
-  "hants",
-  "haole",
-  "hapax",
-  "haply",
-  "happy",
-  "hards",
-  "hardy",
-  "hared",
-  "harem",
-  "hares",
-  "harks",
-  "harls",
-  "harms",
-  "harps",
-  "harpy",
-  "harry",
-  "harsh",
-  "harts",
-  "hasps",
-  "haste",
-  "hasty",
-  "hatch",
-  "hated",
-  "hater",
-  "hates",
-  "haugh",
-  "haulm",
-  "hauls",
-  "haunt",
-  "haute",
-  "haven",
-  "haver",
-  "haves",
-  "havoc",
-  "hawed",
-  "hawks",
-  "hawse",
-  "hayed",
-  "hayer",
-  "hazan",
-  "hazed",
-  "hazel",
-  "hazer",
-  "hazes",
-  "heads",
-  "heady",
-  "heals",
-  "heaps",
-  "heard",
-  "hears",
-  "heart",
-  "heath",
-  "heats",
-  "heave",
-  "heavy",
-  "hebes",
-  "hecks",
-  "heder",
-  "hedge",
-  "hedgy",
-  "heeds",
-  "heels",
-  "heeze",
-  "hefts",
-  "hefty",
-  "heigh",
-  "heils",
-  "heirs",
-  "heist",
-  "helio",
-  "helix",
-  "hello",
-  "hells",
-  "helms",
-  "helos",
-  "helot",
-  "helps",
-  "helve",
-  "hemal",
-  "hemes",
-  "hemic",
-  "hemin",
-  "hemps",
-  "hempy",
-  "hence",
-  "henna",
-  "henry",
-  "hents",
-  "herbs",
-  "herby",
-  "herds",
-  "heres",
-  "herls",
-  "herma",
-  "herms",
-  "herns",
-  "heron",
-  "heros",
-  "herry",
-  "hertz",
-  "hests",
-  "heths",
-  "heuch",
-  "heugh",
-  "hewed",
-  "hewer",
-  "hexad",
-  "hexed",
-  "hexer",
-  "hexes",
-  "hexyl",
-  "hicks",
-  "hided",
-  "hider",
-  "hides",
-  "highs",
-  "hight",
-  "hiked",
-  "hiker",
-  "hikes",
-  "hilar",
-  "hillo",
-  "hills",
-  "hilly",
-  "hilts",
-  "hilum",
-  "hilus",
-  "hinds",
-  "hinge",
-  "hinny",
-  "hints",
-  "hippo",
-  "hippy",
-  "hired",
-  "hirer",
-  "hires",
-  "hissy",
-  "hists",
-  "hitch",
-  "hived",
-  "hives",
-  "hoagy",
-  "hoard",
-  "hoars",
-  "hoary",
-  "hobby",
-  "hobos",
-  "hocks",
-  "hocus",
-  "hodad",
-  "hoers",
-  "hogan",
-  "hoggs",
-  "hoick",
-  "hoise",
-  "hoist",
-  "hoked",
-  "hokes",
-  "hokey",
-  "hokku",
-  "hokum",
-  "holds",
-  "holed",
-  "holes",
-  "holey",
-  "holks",
-  "holla",
-  "hollo",
-  "holly",
-  "holms",
-  "holts",
-  "homed",
-  "homer",
-  "homes",
-  "homey",
-  "homos",
-  "honan",
-  "honda",
-  "honed",
-  "honer",
-  "hones",
-  "honey",
-  "hongs",
-  "honks",
-  "honky",
-  "honor",
-  "hooch",
-  "hoods",
-  "hoody",
-  "hooey",
-  "hoofs",
-  "hooka",
-  "hooks",
-  "hooky",
-  "hooly",
-  "hoops",
-  "hoots",
-  "hooty",
-  "hoped",
-  "hoper",
-  "hopes",
-  "hoppy",
-  "horah",
-  "horal",
-  "horas",
-  "horde",
-  "horns",
-  "horny",
-  "horse",
-  "horst",
-  "horsy",
-  "hosed",
-  "hosel",
-  "hosen",
-  "hoses",
-  "hosta",
-  "hosts",
-  "hotch",
-  "hotel",
-  "hotly",
-  "hound",
-  "houri",
-  "hours",
-  "house",
-  "hovel",
-  "hover",
-  "howdy",
-  "howes",
-  "howff",
-  "howfs",
-  "howks",
-  "howls",
-  "hoyas",
-  "hoyle",
-  "hubby",
-  "hucks",
-  "huffs",
-  "huffy",
-  "huger",
-  "hulas",
-  "hulks",
-  "hulky",
-  "hullo",
-  "hulls",
-  "human",
-  "humic",
-  "humid",
-  "humor",
-  "humph",
-  "humps",
-  "humpy",
-  "humus",
-  "hunch",
-  "hunks",
-  "hunky",
-  "hunts",
-  "hurds",
-  "hurls",
-  "hurly",
-  "hurry",
-  "hurst",
-  "hurts",
-  "husks",
-  "husky",
-  "hussy",
-  "hutch",
-  "huzza",
-  "hydra",
-  "hydro",
-  "hyena",
-  "hying",
-  "hylas",
-  "hymen",
-  "hymns",
-  "hyoid",
-  "hyped",
-  "hyper",
-  "hypes",
-  "hypha",
-  "hypos",
-  "hyrax",
-  "hyson",
-  "iambi",
-  "iambs",
-  "ichor",
-  "icier",
-  "icily",
-  "icing",
-  "icker",
-  "icons",
-  "ictic",
-  "ictus",
-  "ideal",
-  "ideas",
-  "idiom",
-  "idiot",
-  "idled",
-  "idler",
-  "idles",
-  "idols",
-  "idyll",
-  "idyls",
-  "igloo",
-  "iglus",
-  "ihram",
-  "ikats",
-  "ikons",
-  "ileac",
-  "ileal",
-  "ileum",
-  "ileus",
-  "iliac",
-  "iliad",
-  "ilial",
-  "ilium",
-  "iller",
-  "image",
-  "imago",
-  "imams",
-  "imaum",
-  "imbed",
-  "imbue",
-  "imide",
-  "imido",
-  "imids",
-  "imine",
-  "imino",
-  "immix",
-  "imped",
-  "impel",
-  "impis",
-  "imply",
-  "inane",
-  "inapt",
-  "inarm",
-  "inbye",
-  "incog",
-  "incur",
-  "incus",
-  "index",
-  "indie",
-  "indol",
-  "indow",
-  "indri",
-  "indue",
-  "inept",
-  "inert",
-  "infer",
-  "infix",
-  "infos",
-  "infra",
-  "ingle",
-  "ingot",
-  "inion",
-  "inked",
-  "inker",
-  "inkle",
-  "inlay",
-  "inlet",
-  "inned",
-  "inner",
-  "input",
-  "inset",
-  "inter",
-  "intis",
-  "intro",
-  "inure",
-  "inurn",
-  "invar",
-  "iodic",
-  "iodid",
-  "iodin",
-  "ionic",
-  "iotas",
-  "irade",
-  "irate",
-  "irids",
-  "iring",
-  "irked",
-  "iroko",
-  "irone",
-  "irons",
-  "irony",
-  "isbas",
-  "isled",
-  "isles",
-  "islet",
-  "issei",
-  "issue",
-  "istle",
-  "itchy",
-  "items",
-  "ither",
-  "ivied",
-  "ivies",
-  "ivory",
-  "ixias",
-  "ixora",
-  "ixtle",
-  "izars",
-  "jabot",
-  "jacal",
-  "jacks",
-  "jacky",
-  "jaded",
-  "jades",
-  "jager",
-  "jaggs",
-  "jaggy",
-  "jagra",
-  "jails",
-  "jakes",
-  "jalap",
-  "jalop",
-  "jambe",
-  "jambs",
-  "jammy",
-  "janes",
-  "janty",
-  "japan",
-  "japed",
-  "japer",
-  "japes",
-  "jarls",
-  "jatos",
-  "jauks",
-  "jaunt",
-  "jaups",
-  "javas",
-  "jawan",
-  "jawed",
-  "jazzy",
-  "jeans",
-  "jebel",
-  "jeeps",
-  "jeers",
-  "jefes",
-  "jehad",
-  "jehus",
-  "jells",
-  "jelly",
-  "jemmy",
-  "jenny",
-  "jerid",
-  "jerks",
-  "jerky",
-  "jerry",
-  "jesse",
-  "jests",
-  "jetes",
-  "jeton",
-  "jetty",
-  "jewed",
-  "jewel",
-  "jibbs",
-  "jibed",
-  "jiber",
-  "jibes",
-  "jiffs",
-  "jiffy",
-  "jihad",
-  "jills",
-  "jilts",
-  "jimmy",
-  "jimpy",
-  "jingo",
-  "jinks",
-  "jinni",
-  "jinns",
-  "jisms",
-  "jived",
-  "jiver",
-  "jives",
-  "jivey",
-  "jnana",
-  "jocko",
-  "jocks",
-  "joeys",
-  "johns",
-  "joins",
-  "joint",
-  "joist",
-  "joked",
-  "joker",
-  "jokes",
-  "jokey",
-  "joles",
-  "jolly",
-  "jolts",
-  "jolty",
-  "jones",
-  "joram",
-  "jorum",
-  "jotas",
-  "jotty",
-  "joual",
-  "jouks",
-  "joule",
-  "joust",
-  "jowar",
-  "jowed",
-  "jowls",
-  "jowly",
-  "joyed",
-  "jubas",
-  "jubes",
-  "judas",
-  "judge",
-  "judos",
-  "jugal",
-  "jugum",
-  "juice",
-  "juicy",
-  "jujus",
-  "juked",
-  "jukes",
-  "julep",
-  "jumbo",
-  "jumps",
-  "jumpy",
-  "junco",
-  "junks",
-  "junky",
-  "junta",
-  "junto",
-  "jupes",
-  "jupon",
-  "jural",
-  "jurat",
-  "jurel",
-  "juror",
-  "justs",
-  "jutes",
-  "jutty",
-  "kabab",
-  "kabar",
-  "kabob",
-  "kadis",
-  "kafir",
-  "kagus",
-  "kaiak",
-  "kaifs",
-  "kails",
-  "kains",
-  "kakas",
-  "kakis",
-  "kalam",
-  "kales",
-  "kalif",
-  "kalpa",
-  "kames",
-  "kamik",
-  "kanas",
-  "kanes",
-  "kanji",
-  "kaons",
-  "kapas",
-  "kaphs",
-  "kapok",
-  "kappa",
-  "kaput",
-  "karat",
-  "karma",
-  "karns",
-  "karoo",
-  "karst",
-  "karts",
-  "kasha",
-  "katas",
-  "kauri",
-  "kaury",
-  "kavas",
-  "kayak",
-  "kayos",
-  "kazoo",
-  "kbars",
-  "kebab",
-  "kebar",
-  "kebob",
-  "kecks",
-  "kedge",
-  "keefs",
-  "keeks",
-  "keels",
-  "keens",
-  "keeps",
-  "keets",
-  "keeve",
-  "kefir",
-  "keirs",
-  "kelep",
-  "kelim",
-  "kelly",
-  "kelps",
-  "kelpy",
-  "kemps",
-  "kempt",
-  "kenaf",
-  "kench",
-  "kendo",
-  "kenos",
-  "kepis",
-  "kerbs",
-  "kerfs",
-  "kerne",
-  "kerns",
-  "kerry",
-  "ketch",
-  "ketol",
-  "kevel",
-  "kevil",
-  "kexes",
-  "keyed",
-  "khadi",
-  "khafs",
-  "khaki",
-  "khans",
-  "khaph",
-  "khats",
-  "kheda",
-  "kheth",
-  "khets",
-  "khoum",
-  "kiang",
-  "kibbe",
-  "kibbi",
-  "kibei",
-  "kibes",
-  "kibla",
-  "kicks",
-  "kicky",
-  "kiddo",
-  "kiddy",
-  "kiefs",
-  "kiers",
-  "kikes",
-  "kilim",
-  "kills",
-  "kilns",
-  "kilos",
-  "kilts",
-  "kilty",
-  "kinas",
-  "kinds",
-  "kines",
-  "kings",
-  "kinin",
-  "kinks",
-  "kinky",
-  "kinos",
-  "kiosk",
-  "kirks",
-  "kirns",
-  "kissy",
-  "kists",
-  "kited",
-  "kiter",
-  "kites",
-  "kithe",
-  "kiths",
-  "kitty",
-  "kivas",
-  "kiwis",
-  "klong",
-  "kloof",
-  "kluge",
-  "klutz",
-  "knack",
-  "knaps",
-  "knars",
-  "knaur",
-  "knave",
-  "knead",
-  "kneed",
-  "kneel",
-  "knees",
-  "knell",
-  "knelt",
-  "knife",
-  "knish",
-  "knits",
-  "knobs",
-  "knock",
-  "knoll",
-  "knops",
-  "knosp",
-  "knots",
-  "knout",
-  "known",
-  "knows",
-  "knurl",
-  "knurs",
-  "koala",
-  "koans",
-  "koels",
-  "kohls",
-  "koine",
-  "kolas",
-  "kolos",
-  "konks",
-  "kooks",
-  "kooky",
-  "kopek",
-  "kophs",
-  "kopje",
-  "koppa",
-  "korai",
-  "korat",
-  "korun",
-  "kotos",
-  "kotow",
-  "kraal",
-  "kraft",
-  "krait",
-  "kraut",
-  "kreep",
-  "krill",
-  "krona",
-  "krone",
-  "kroon",
-  "krubi",
-  "kudos",
-  "kudus",
-  "kudzu",
-  "kugel",
-  "kukri",
-  "kulak",
-  "kumys",
-  "kurta",
-  "kurus",
-  "kusso",
-  "kvass",
-  "kyack",
-  "kyaks",
-  "kyars",
-  "kyats",
-  "kylix",
-  "kyrie",
-  "kytes",
-  "kythe",
-  "laari",
-  "label",
-  "labia",
-  "labor",
-  "labra",
-  "laced",
-  "lacer",
-  "laces",
-  "lacey",
-  "lacks",
-  "laded",
-  "laden",
-  "lader",
-  "lades",
-  "ladle",
-  "laevo",
-  "lagan",
-  "lager",
-  "lahar",
-  "laich",
-  "laics",
-  "laigh",
-  "laird",
-  "lairs",
-  "laith",
-  "laity",
-  "laked",
-  "laker",
-  "lakes",
-  "lakhs",
-  "lalls",
-  "lamas",
-  "lambs",
-  "lamby",
-  "lamed",
-  "lamer",
-  "lames",
-  "lamia",
-  "lamps",
-  "lanai",
-  "lance",
-  "lands",
-  "lanes",
-  "lanky",
-  "lapel",
-  "lapin",
-  "lapis",
-  "lapse",
-  "larch",
-  "lards",
-  "lardy",
-  "laree",
-  "lares",
-  "large",
-  "largo",
-  "laris",
-  "larks",
-  "larky",
-  "larum",
-  "larva",
-  "lased",
-  "laser",
-  "lases",
-  "lasso",
-  "lasts",
-  "latch",
-  "lated",
-  "laten",
-  "later",
-  "latex",
-  "lathe",
-  "lathi",
-  "laths",
-  "lathy",
-  "latke",
-  "latte",
-  "lauan",
-  "lauds",
-  "laugh",
-  "laura",
-  "lavas",
-  "laved",
-  "laver",
-  "laves",
-  "lawed",
-  "lawns",
-  "lawny",
-  "laxer",
-  "laxly",
-  "layed",
-  "layer",
-  "layup",
-  "lazar",
-  "lazed",
-  "lazes",
-  "leach",
-  "leads",
-  "leady",
-  "leafs",
-  "leafy",
-  "leaks",
-  "leaky",
-  "leans",
-  "leant",
-  "leaps",
-  "leapt",
-  "learn",
-  "lears",
-  "leary",
-  "lease",
-  "leash",
-  "least",
-  "leave",
-  "leavy",
-  "leben",
-  "ledge",
-  "ledgy",
-  "leech",
-  "leeks",
-  "leers",
-  "leery",
-  "leets",
-  "lefts",
-  "lefty",
-  "legal",
-  "leger",
-  "leges",
-  "leggy",
-  "legit",
-  "lehrs",
-  "lehua",
-  "leman",
-  "lemma",
-  "lemon",
-  "lemur",
-  "lends",
-  "lenes",
-  "lenis",
-  "lenos",
-  "lense",
-  "lento",
-  "leone",
-  "leper",
-  "lepta",
-  "letch",
-  "lethe",
-  "letup",
-  "leuds",
-  "levee",
-  "level",
-  "lever",
-  "levin",
-  "lewis",
-  "lexes",
-  "lexis",
-  "lezzy",
-  "liana",
-  "liane",
-  "liang",
-  "liard",
-  "liars",
-  "libel",
-  "liber",
-  "libra",
-  "libri",
-  "lichi",
-  "licht",
-  "licit",
-  "licks",
-  "lidar",
-  "lidos",
-  "liege",
-  "liens",
-  "liers",
-  "lieus",
-  "lieve",
-  "lifer",
-  "lifts",
-  "ligan",
-  "liger",
-  "light",
-  "liked",
-  "liken",
-  "liker",
-  "likes",
-  "lilac",
-  "lilts",
-  "liman",
-  "limas",
-  "limba",
-  "limbi",
-  "limbo",
-  "limbs",
-  "limby",
-  "limed",
-  "limen",
-  "limes",
-  "limey",
-  "limit",
-  "limns",
-  "limos",
-  "limpa",
-  "limps",
-  "linac",
-  "lindy",
-  "lined",
-  "linen",
-  "liner",
-  "lines",
-  "liney",
-  "linga",
-  "lingo",
-  "lings",
-  "lingy",
-  "linin",
-  "links",
-  "linky",
-  "linns",
-  "linos",
-  "lints",
-  "linty",
-  "linum",
-  "lions",
-  "lipid",
-  "lipin",
-  "lippy",
-  "liras",
-  "lirot",
-  "lisle",
-  "lisps",
-  "lists",
-  "litai",
-  "litas",
-  "liter",
-  "lithe",
-  "litho",
-  "litre",
-  "lived",
-  "liven",
-  "liver",
-  "lives",
-  "livid",
-  "livre",
-  "llama",
-  "llano",
-  "loach",
-  "loads",
-  "loafs",
-  "loams",
-  "loamy",
-  "loans",
-  "loath",
-  "lobar",
-  "lobby",
-  "lobed",
-  "lobes",
-  "lobos",
-  "local",
-  "lochs",
-  "locks",
-  "locos",
-  "locum",
-  "locus",
-  "loden",
-  "lodes",
-  "lodge",
-  "loess",
-  "lofts",
-  "lofty",
-  "logan",
-  "loges",
-  "loggy",
-  "logia",
-  "logic",
-  "logoi",
-  "logos",
-  "loins",
-  "lolls",
-  "lolly",
-  "loner",
-  "longe",
-  "longs",
-  "looby",
-  "looed",
-  "looey",
-  "loofa",
-  "loofs",
-  "looie",
-  "looks",
-  "looms",
-  "loons",
-  "loony",
-  "loops",
-  "loopy",
-  "loose",
-  "loots",
-  "loped",
-  "loper",
-  "lopes",
-  "loppy",
-  "loral",
-  "loran",
-  "lords",
-  "lores",
-  "loris",
-  "lorry",
-  "losel",
-  "loser",
-  "loses",
-  "lossy",
-  "lotah",
-  "lotas",
-  "lotic",
-  "lotos",
-  "lotte",
-  "lotto",
-  "lotus",
-  "lough",
-  "louie",
-  "louis",
-  "loupe",
-  "loups",
-  "lours",
-  "loury",
-  "louse",
-  "lousy",
-  "louts",
-  "lovat",
-  "loved",
-  "lover",
-  "loves",
-  "lowed",
-  "lower",
-  "lowes",
-  "lowly",
-  "lowse",
-  "loxed",
-  "loxes",
-  "loyal",
-  "luaus",
-  "lubes",
-  "luces",
-  "lucid",
-  "lucks",
-  "lucky",
-  "lucre",
-  "ludes",
-  "ludic",
-  "luffa",
-  "luffs",
-  "luged",
-  "luger",
-  "luges",
-  "lulls",
-  "lulus",
-  "lumen",
-  "lumps",
-  "lumpy",
-  "lunar",
-  "lunas",
-  "lunch",
-  "lunes",
-  "lunet",
-  "lunge",
-  "lungi",
-  "lungs",
-  "lunks",
-  "lunts",
-  "lupin",
-  "lupus",
-  "lurch",
-  "lured",
-  "lurer",
-  "lures",
-  "lurid",
-  "lurks",
-  "lusts",
-  "lusty",
-  "lusus",
-  "lutea",
-  "luted",
-  "lutes",
-  "luxes",
-  "lweis",
-  "lyard",
-  "lyart",
-  "lyase",
-  "lycea",
-  "lycee",
-  "lying",
-  "lymph",
-  "lynch",
-  "lyres",
-  "lyric",
-  "lysed",
-  "lyses",
-  "lysin",
-  "lysis",
-  "lyssa",
-  "lytic",
-  "lytta",
-  "maars",
-  "mabes",
-  "macaw",
-  "maced",
-  "macer",
-  "maces",
-  "mache",
-  "macho",
-  "machs",
-  "macks",
-  "macle",
-  "macon",
-  "macro",
-  "madam",
-  "madly",
-  "madre",
-  "mafia",
-  "mafic",
-  "mages",
-  "magic",
-  "magma",
-  "magot",
-  "magus",
-  "mahoe",
-  "maids",
-  "maile",
-  "maill",
-  "mails",
-  "maims",
-  "mains",
-  "mairs",
-  "maist",
-  "maize",
-  "major",
-  "makar",
-  "maker",
-  "makes",
-  "makos",
-  "malar",
-  "males",
-  "malic",
-  "malls",
-  "malms",
-  "malmy",
-  "malts",
-  "malty",
-  "mamas",
-  "mamba",
-  "mambo",
-  "mamey",
-  "mamie",
-  "mamma",
-  "mammy",
-  "manas",
-  "maned",
-  "manes",
-  "mange",
-  "mango",
-  "mangy",
-  "mania",
-  "manic",
-  "manly",
-  "manna",
-  "manor",
-  "manos",
-  "manse",
-  "manta",
-  "manus",
-  "maple",
-  "maqui",
-  "march",
-  "marcs",
-  "mares",
-  "marge",
-  "maria",
-  "marks",
-  "marls",
-  "marly",
-  "marry",
-  "marse",
-  "marsh",
-  "marts",
-  "marvy",
-  "maser",
-  "mashy",
-  "masks",
-  "mason",
-  "massa",
-  "masse",
-  "massy",
-  "masts",
-  "match",
-  "mated",
-  "mater",
-  "mates",
-  "matey",
-  "maths",
-  "matin",
-  "matte",
-  "matts",
-  "matza",
-  "matzo",
-  "mauds",
-  "mauls",
-  "maund",
-  "mauts",
-  "mauve",
-  "maven",
-  "mavie",
-  "mavin",
-  "mavis",
-  "mawed",
-  "maxes",
-  "maxim",
-  "maxis",
-  "mayan",
-  "mayas",
-  "maybe",
-  "mayed",
-  "mayor",
-  "mayos",
-  "mayst",
-  "mazed",
-  "mazer",
-  "mazes",
-  "mbira",
-  "meads",
-  "meals",
-  "mealy",
-  "means",
-  "meant",
-  "meany",
-  "meats",
-  "meaty",
-  "mecca",
-  "medal",
-  "media",
-  "medic",
-  "medii",
-  "meeds",
-  "meets",
-  "meiny",
-  "melds",
-  "melee",
-  "melic",
-  "mells",
-  "melon",
-  "melts",
-  "memos",
-  "menad",
-  "mends",
-  "mensa",
-  "mense",
-  "menta",
-  "menus",
-  "meous",
-  "meows",
-  "mercy",
-  "merde",
-  "merer",
-  "meres",
-  "merge",
-  "merit",
-  "merks",
-  "merle",
-  "merls",
-  "merry",
-  "mesas",
-  "meshy",
-  "mesic",
-  "mesne",
-  "meson",
-  "messy",
-  "metal",
-  "meted",
-  "meter",
-  "metes",
-  "meths",
-  "metis",
-  "metre",
-  "metro",
-  "mewed",
-  "mewls",
-  "mezes",
-  "mezzo",
-  "miaou",
-  "miaow",
-  "miasm",
-  "miaul",
-  "micas",
-  "miche",
-  "micks",
-  "micra",
-  "micro",
-  "middy",
-  "midge",
-  "midis",
-  "midst",
-  "miens",
-  "miffs",
-  "miffy",
-  "miggs",
-  "might",
-  "miked",
-  "mikes",
-  "mikra",
-  "milch",
-  "miler",
-  "miles",
-  "milia",
-  "milks",
-  "milky",
-  "mille",
-  "mills",
-  "milos",
-  "milpa",
-  "milts",
-  "milty",
-  "mimed",
-  "mimeo",
-  "mimer",
-  "mimes",
-  "mimic",
-  "minae",
-  "minas",
-  "mince",
-  "mincy",
-  "minds",
-  "mined",
-  "miner",
-  "mines",
-  "mingy",
-  "minim",
-  "minis",
-  "minke",
-  "minks",
-  "minny",
-  "minor",
-  "mints",
-  "minty",
-  "minus",
-  "mired",
-  "mires",
-  "mirex",
-  "mirks",
-  "mirky",
-  "mirth",
-  "mirza",
-  "misdo",
-  "miser",
-  "mises",
-  "misos",
-  "missy",
-  "mists",
-  "misty",
-  "miter",
-  "mites",
-  "mitis",
-  "mitre",
-  "mitts",
-  "mixed",
-  "mixer",
-  "mixes",
-  "mixup",
-  "mizen",
-  "moans",
-  "moats",
-  "mocha",
-  "mocks",
-  "modal",
-  "model",
-  "modem",
-  "modes",
-  "modus",
-  "moggy",
-  "mogul",
-  "mohel",
-  "mohur",
-  "moils",
-  "moira",
-  "moire",
-  "moist",
-  "mojos",
-  "mokes",
-  "molal",
-  "molar",
-  "molas",
-  "molds",
-  "moldy",
-  "moles",
-  "molls",
-  "molly",
-  "molto",
-  "molts",
-  "momes",
-  "momma",
-  "mommy",
-  "momus",
-  "monad",
-  "monas",
-  "monde",
-  "mondo",
-  "money",
-  "mongo",
-  "monie",
-  "monks",
-  "monos",
-  "monte",
-  "month",
-  "mooch",
-  "moods",
-  "moody",
-  "mooed",
-  "moola",
-  "mools",
-  "moons",
-  "moony",
-  "moors",
-  "moory",
-  "moose",
-  "moots",
-  "moped",
-  "moper",
-  "mopes",
-  "mopey",
-  "morae",
-  "moral",
-  "moras",
-  "moray",
-  "morel",
-  "mores",
-  "morns",
-  "moron",
-  "morph",
-  "morro",
-  "morse",
-  "morts",
-  "mosey",
-  "mosks",
-  "mosso",
-  "mossy",
-  "moste",
-  "mosts",
-  "motel",
-  "motes",
-  "motet",
-  "motey",
-  "moths",
-  "mothy",
-  "motif",
-  "motor",
-  "motte",
-  "motto",
-  "motts",
-  "mouch",
-  "moues",
-  "mould",
-  "moult",
-  "mound",
-  "mount",
-  "mourn",
-  "mouse",
-  "mousy",
-  "mouth",
-  "moved",
-  "mover",
-  "moves",
-  "movie",
-  "mowed",
-  "mower",
-  "moxas",
-  "moxie",
-  "mozos",
-  "mucid",
-  "mucin",
-  "mucks",
-  "mucky",
-  "mucor",
-  "mucro",
-  "mucus",
-  "muddy",
-  "mudra",
-  "muffs",
-  "mufti",
-  "muggs",
-  "muggy",
-  "muhly",
-  "mujik",
-  "mulch",
-  "mulct",
-  "muled",
-  "mules",
-  "muley",
-  "mulla",
-  "mulls",
-  "mumms",
-  "mummy",
-  "mumps",
-  "mumus",
-  "munch",
-  "mungo",
-  "munis",
-  "muons",
-  "mural",
-  "muras",
-  "mured",
-  "mures",
-  "murex",
-  "murid",
-  "murks",
-  "murky",
-  "murra",
-  "murre",
-  "murrs",
-  "murry",
-  "musca",
-  "mused",
-  "muser",
-  "muses",
-  "mushy",
-  "music",
-  "musks",
-  "musky",
-  "mussy",
-  "musth",
-  "musts",
-  "musty",
-  "mutch",
-  "muted",
-  "muter",
-  "mutes",
-  "muton",
-  "mutts",
-  "muzzy",
-  "mynah",
-  "mynas",
-  "myoid",
-  "myoma",
-  "myope",
-  "myopy",
-  "myrrh",
-  "mysid",
-  "myths",
-  "mythy",
-  "naans",
-  "nabes",
-  "nabis",
-  "nabob",
-  "nacho",
-  "nacre",
-  "nadas",
-  "nadir",
-  "naevi",
-  "naggy",
-  "naiad",
-  "naifs",
-  "nails",
-  "naira",
-  "naive",
-  "naked",
-  "naled",
-  "named",
-  "namer",
-  "names",
-  "nanas",
-  "nance",
-  "nancy",
-  "nanny",
-  "napes",
-  "nappe",
-  "nappy",
-  "narco",
-  "narcs",
-  "nards",
-  "nares",
-  "naric",
-  "naris",
-  "narks",
-  "narky",
-  "nasal",
-  "nasty",
-  "natal",
-  "natch",
-  "nates",
-  "natty",
-  "naval",
-  "navar",
-  "navel",
-  "naves",
-  "navvy",
-  "nawab",
-  "nazis",
-  "neaps",
-  "nears",
-  "neath",
-  "neats",
-  "necks",
-  "needs",
-  "needy",
-  "neems",
-  "neeps",
-  "negus",
-  "neifs",
-  "neigh",
-  "neist",
-  "nelly",
-  "nemas",
-  "neons",
-  "nerds",
-  "nerdy",
-  "nerol",
-  "nerts",
-  "nertz",
-  "nerve",
-  "nervy",
-  "nests",
-  "netop",
-  "netts",
-  "netty",
-  "neuks",
-  "neume",
-  "neums",
-  "never",
-  "neves",
-  "nevus",
-  "newel",
-  "newer",
-  "newie",
-  "newly",
-  "newsy",
-  "newts",
-  "nexus",
-  "ngwee",
-  "nicad",
-  "nicer",
-  "niche",
-  "nicks",
-  "nicol",
-  "nidal",
-  "nided",
-  "nides",
-  "nidus",
-  "niece",
-  "nieve",
-  "nifty",
-  "nighs",
-  "night",
-  "nihil",
-  "nills",
-  "nimbi",
-  "nines",
-  "ninja",
-  "ninny",
-  "ninon",
-  "ninth",
-  "nipas",
-  "nippy",
-  "nisei",
-  "nisus",
-  "niter",
-  "nites",
-  "nitid",
-  "niton",
-  "nitre",
-  "nitro",
-  "nitty",
-  "nival",
-  "nixed",
-  "nixes",
-  "nixie",
-  "nizam",
-  "nobby",
-  "noble",
-  "nobly",
-  "nocks",
-  "nodal",
-  "noddy",
-  "nodes",
-  "nodus",
-  "noels",
-  "noggs",
-  "nohow",
-  "noils",
-  "noily",
-  "noirs",
-  "noise",
-  "noisy",
-  "nolos",
-  "nomad",
-  "nomas",
-  "nomen",
-  "nomes",
-  "nomoi",
-  "nomos",
-  "nonas",
-  "nonce",
-  "nones",
-  "nonet",
-  "nonyl",
-  "nooks",
-  "nooky",
-  "noons",
-  "noose",
-  "nopal",
-  "noria",
-  "noris",
-  "norms",
-  "north",
-  "nosed",
-  "noses",
-  "nosey",
-  "notal",
-  "notch",
-  "noted",
-  "noter",
-  "notes",
-  "notum",
-  "nouns",
-  "novae",
-  "novas",
-  "novel",
-  "noway",
-  "nowts",
-  "nubby",
-  "nubia",
-  "nucha",
-  "nuder",
-  "nudes",
-  "nudge",
-  "nudie",
-  "nudzh",
-  "nuked",
-  "nukes",
-  "nulls",
-  "numbs",
-  "numen",
-  "nurds",
-  "nurls",
-  "nurse",
-  "nutsy",
-  "nutty",
-  "nyala",
-  "nylon",
-  "nymph",
-  "oaken",
-  "oakum",
-  "oared",
-  "oases",
-  "oasis",
-  "oasts",
-  "oaten",
-  "oater",
-  "oaths",
-  "oaves",
-  "obeah",
-  "obeli",
-  "obese",
-  "obeys",
-  "obias",
-  "obits",
-  "objet",
-  "oboes",
-  "obole",
-  "oboli",
-  "obols",
-  "occur",
-  "ocean",
-  "ocher",
-  "ochre",
-  "ochry",
-  "ocker",
-  "ocrea",
-  "octad",
-  "octal",
-  "octan",
-  "octet",
-  "octyl",
-  "oculi",
-  "odder",
-  "oddly",
-  "odeon",
-  "odeum",
-  "odist",
-  "odium",
-  "odors",
-  "odour",
-  "odyle",
-  "odyls",
-  "ofays",
-  "offal",
-  "offed",
-  "offer",
-  "often",
-  "ofter",
-  "ogams",
-  "ogees",
-  "ogham",
-  "ogive",
-  "ogled",
-  "ogler",
-  "ogles",
-  "ogres",
-  "ohias",
-  "ohing",
-  "ohmic",
-  "oidia",
-  "oiled",
-  "oiler",
-  "oinks",
-  "okapi",
-  "okays",
-  "okehs",
-  "okras",
-  "olden",
-  "older",
-  "oldie",
-  "oleic",
-  "olein",
-  "oleos",
-  "oleum",
-  "olios",
-  "olive",
-  "ollas",
-  "ology",
-  "omasa",
-  "omber",
-  "ombre",
-  "omega",
-  "omens",
-  "omers",
-  "omits",
-  "onery",
-  "onion",
-  "onium",
-  "onset",
-  "ontic",
-  "oohed",
-  "oomph",
-  "oorie",
-  "ootid",
-  "oozed",
-  "oozes",
-  "opahs",
-  "opals",
-  "opens",
-  "opera",
-  "opine",
-  "oping",
-  "opium",
-  "opsin",
-  "opted",
-  "optic",
-  "orach",
-  "orals",
-  "orang",
-  "orate",
-  "orbed",
-  "orbit",
-  "orcas",
-  "orcin",
-  "order",
-  "ordos",
-  "oread",
-  "organ",
-  "orgic",
-  "oribi",
-  "oriel",
-  "orles",
-  "orlop",
-  "ormer",
-  "ornis",
-  "orpin",
-  "orris",
-  "ortho",
-  "orzos",
-  "osier",
-  "osmic",
-  "osmol",
-  "ossia",
-  "ostia",
-  "other",
-  "ottar",
-  "otter",
-  "ottos",
-  "ought",
-  "ounce",
-  "ouphe",
-  "ouphs",
-  "ourie",
-  "ousel",
-  "ousts",
-  "outby",
-  "outdo",
-  "outed",
-  "outer",
-  "outgo",
-  "outre",
-  "ouzel",
-  "ouzos",
-  "ovals",
-  "ovary",
-  "ovate",
-  "ovens",
-  "overs",
-  "overt",
-  "ovine",
-  "ovoid",
-  "ovoli",
-  "ovolo",
-  "ovule",
-  "owing",
-  "owlet",
-  "owned",
-  "owner",
-  "owsen",
-  "oxbow",
-  "oxeye",
-  "oxide",
-  "oxids",
-  "oxime",
-  "oxims",
-  "oxlip",
-  "oxter",
-  "oyers",
-  "ozone",
-  "pacas",
-  "paced",
-  "pacer",
-  "paces",
-  "pacha",
-  "packs",
-  "pacts",
-  "paddy",
-  "padis",
-  "padle",
-  "padre",
-  "padri",
-  "paean",
-  "paeon",
-  "pagan",
-  "paged",
-  "pager",
-  "pages",
-  "pagod",
-  "paiks",
-  "pails",
-  "pains",
-  "paint",
-  "pairs",
-  "paisa",
-  "paise",
-  "palea",
-  "paled",
-  "paler",
-  "pales",
-  "palet",
-  "palls",
-  "pally",
-  "palms",
-  "palmy",
-  "palpi",
-  "palps",
-  "palsy",
-  "pampa",
-  "panda",
-  "pandy",
-  "paned",
-  "panel",
-  "panes",
-  "panga",
-  "pangs",
-  "panic",
-  "panne",
-  "pansy",
-  "panto",
-  "pants",
-  "panty",
-  "papal",
-  "papas",
-  "papaw",
-  "paper",
-  "pappi",
-  "pappy",
-  "paras",
-  "parch",
-  "pardi",
-  "pards",
-  "pardy",
-  "pared",
-  "pareo",
-  "parer",
-  "pares",
-  "pareu",
-  "parge",
-  "pargo",
-  "paris",
-  "parka",
-  "parks",
-  "parle",
-  "parol",
-  "parrs",
-  "parry",
-  "parse",
-  "parts",
-  "party",
-  "parve",
-  "parvo",
-  "paseo",
-  "pases",
-  "pasha",
-  "passe",
-  "pasta",
-  "paste",
-  "pasts",
-  "pasty",
-  "patch",
-  "pated",
-  "paten",
-  "pater",
-  "pates",
-  "paths",
-  "patin",
-  "patio",
-  "patly",
-  "patsy",
-  "patty",
-  "pause",
-  "pavan",
-  "paved",
-  "paver",
-  "paves",
-  "pavid",
-  "pavin",
-  "pavis",
-  "pawed",
-  "pawer",
-  "pawky",
-  "pawls",
-  "pawns",
-  "paxes",
-  "payed",
-  "payee",
-  "payer",
-  "payor",
-  "peace",
-  "peach",
-  "peage",
-  "peags",
-  "peaks",
-  "peaky",
-  "peals",
-  "peans",
-  "pearl",
-  "pears",
-  "peart",
-  "pease",
-  "peats",
-  "peaty",
-  "peavy",
-  "pecan",
-  "pechs",
-  "pecks",
-  "pecky",
-  "pedal",
-  "pedes",
-  "pedro",
-  "peeks",
-  "peels",
-  "peens",
-  "peeps",
-  "peers",
-  "peery",
-  "peeve",
-  "peins",
-  "peise",
-  "pekan",
-  "pekes",
-  "pekin",
-  "pekoe",
-  "peles",
-  "pelfs",
-  "pelon",
-  "pelts",
-  "penal",
-  "pence",
-  "pends",
-  "penes",
-  "pengo",
-  "penis",
-  "penna",
-  "penne",
-  "penni",
-  "penny",
-  "peons",
-  "peony",
-  "pepla",
-  "pepos",
-  "peppy",
-  "perch",
-  "perdu",
-  "perdy",
-  "perea",
-  "peril",
-  "peris",
-  "perks",
-  "perky",
-  "perms",
-  "perry",
-  "perse",
-  "pesky",
-  "pesos",
-  "pesto",
-  "pests",
-  "pesty",
-  "petal",
-  "peter",
-  "petit",
-  "petti",
-  "petto",
-  "petty",
-  "pewee",
-  "pewit",
-  "phage",
-  "phase",
-  "phial",
-  "phlox",
-  "phone",
-  "phono",
-  "phons",
-  "phony",
-  "photo",
-  "phots",
-  "phpht",
-  "phuts",
-  "phyla",
-  "phyle",
-  "piano",
-  "pians",
-  "pibal",
-  "pical",
-  "picas",
-  "picks",
-  "picky",
-  "picot",
-  "picul",
-  "piece",
-  "piers",
-  "pieta",
-  "piety",
-  "piggy",
-  "pigmy",
-  "piing",
-  "pikas",
-  "piked",
-  "piker",
-  "pikes",
-  "pikis",
-  "pilaf",
-  "pilar",
-  "pilau",
-  "pilaw",
-  "pilea",
-  "piled",
-  "pilei",
-  "piles",
-  "pilis",
-  "pills",
-  "pilot",
-  "pilus",
-  "pimas",
-  "pimps",
-  "pinas",
-  "pinch",
-  "pined",
-  "pines",
-  "piney",
-  "pingo",
-  "pings",
-  "pinko",
-  "pinks",
-  "pinky",
-  "pinna",
-  "pinny",
-  "pinon",
-  "pinot",
-  "pinta",
-  "pinto",
-  "pints",
-  "pinup",
-  "pions",
-  "pious",
-  "pipal",
-  "piped",
-  "piper",
-  "pipes",
-  "pipet",
-  "pipit",
-  "pique",
-  "pirns",
-  "pirog",
-  "pisco",
-  "pisos",
-  "piste",
-  "pitas",
-  "pitch",
-  "piths",
-  "pithy",
-  "piton",
-  "pivot",
-  "pixel",
-  "pixes",
-  "pixie",
-  "pizza",
-  "place",
-  "plack",
-  "plage",
-  "plaid",
-  "plain",
-  "plait",
-  "plane",
-  "plank",
-  "plans",
-  "plant",
-  "plash",
-  "plasm",
-  "plate",
-  "plats",
-  "platy",
-  "playa",
-  "plays",
-  "plaza",
-  "plead",
-  "pleas",
-  "pleat",
-  "plebe",
-  "plebs",
-  "plena",
-  "plews",
-  "plica",
-  "plied",
-  "plier",
-  "plies",
-  "plink",
-  "plods",
-  "plonk",
-  "plops",
-  "plots",
-  "plotz",
-  "plows",
-  "ploys",
-  "pluck",
-  "plugs",
-  "plumb",
-  "plume",
-  "plump",
-  "plums",
-  "plumy",
-  "plunk",
-  "plush",
-  "plyer",
-  "poach",
-  "pocks",
-  "pocky",
-  "podgy",
-  "podia",
-  "poems",
-  "poesy",
-  "poets",
-  "pogey",
-  "poilu",
-  "poind",
-  "point",
-  "poise",
-  "poked",
-  "poker",
-  "pokes",
-  "pokey",
-  "polar",
-  "poled",
-  "poler",
-  "poles",
-  "polio",
-  "polis",
-  "polka",
-  "polls",
-  "polos",
-  "polyp",
-  "polys",
-  "pomes",
-  "pommy",
-  "pomps",
-  "ponce",
-  "ponds",
-  "pones",
-  "pongs",
-  "pooch",
-  "poods",
-  "poofs",
-  "poofy",
-  "poohs",
-  "pools",
-  "poons",
-  "poops",
-  "poori",
-  "poove",
-  "popes",
-  "poppa",
-  "poppy",
-  "popsy",
-  "porch",
-  "pored",
-  "pores",
-  "porgy",
-  "porks",
-  "porky",
-  "porno",
-  "porns",
-  "porny",
-  "ports",
-  "posed",
-  "poser",
-  "poses",
-  "posit",
-  "posse",
-  "posts",
-  "potsy",
-  "potto",
-  "potty",
-  "pouch",
-  "pouff",
-  "poufs",
-  "poult",
-  "pound",
-  "pours",
-  "pouts",
-  "pouty",
-  "power",
-  "poxed",
-  "poxes",
-  "poyou",
-  "praam",
-  "prahu",
-  "prams",
-  "prang",
-  "prank",
-  "praos",
-  "prase",
-  "prate",
-  "prats",
-  "praus",
-  "prawn",
-  "prays",
-  "preed",
-  "preen",
-  "prees",
-  "preps",
-  "presa",
-  "prese",
-  "press",
-  "prest",
-  "prexy",
-  "preys",
-  "price",
-  "prick",
-  "pricy",
-  "pride",
-  "pried",
-  "prier",
-  "pries",
-  "prigs",
-  "prill",
-  "prima",
-  "prime",
-  "primi",
-  "primo",
-  "primp",
-  "prims",
-  "prink",
-  "print",
-  "prion",
-  "prior",
-  "prise",
-  "prism",
-  "priss",
-  "privy",
-  "prize",
-  "proas",
-  "probe",
-  "prods",
-  "proem",
-  "profs",
-  "progs",
-  "prole",
-  "promo",
-  "proms",
-  "prone",
-  "prong",
-  "proof",
-  "props",
-  "prose",
-  "proso",
-  "pross",
-  "prost",
-  "prosy",
-  "proud",
-  "prove",
-  "prowl",
-  "prows",
-  "proxy",
-  "prude",
-  "prune",
-  "pruta",
-  "pryer",
-  "psalm",
-  "pseud",
-  "pshaw",
-  "psoae",
-  "psoai",
-  "psoas",
-  "psych",
-  "pubes",
-  "pubic",
-  "pubis",
-  "puces",
-  "pucka",
-  "pucks",
-  "pudgy",
-  "pudic",
-  "puffs",
-  "puffy",
-  "puggy",
-  "pujah",
-  "pujas",
-  "puked",
-  "pukes",
-  "pukka",
-  "puled",
-  "puler",
-  "pules",
-  "pulik",
-  "pulis",
-  "pulls",
-  "pulps",
-  "pulpy",
-  "pulse",
-  "pumas",
-  "pumps",
-  "punas",
-  "punch",
-  "pungs",
-  "punka",
-  "punks",
-  "punky",
-  "punny",
-  "punto",
-  "punts",
-  "punty",
-  "pupae",
-  "pupal",
-  "pupas",
-  "pupil",
-  "puppy",
-  "purda",
-  "puree",
-  "purer",
-  "purge",
-  "purin",
-  "puris",
-  "purls",
-  "purrs",
-  "purse",
-  "pursy",
-  "puses",
-  "pushy",
-  "pussy",
-  "puton",
-  "putti",
-  "putto",
-  "putts",
-  "putty",
-  "pygmy",
-  "pyins",
-  "pylon",
-  "pyoid",
-  "pyran",
-  "pyres",
-  "pyric",
-  "pyxes",
-  "pyxie",
-  "pyxis",
-  "qaids",
-  "qanat",
-  "qophs",
-  "quack",
-  "quads",
-  "quaff",
-  "quags",
-  "quail",
-  "quais",
-  "quake",
-  "quaky",
-  "quale",
-  "qualm",
-  "quant",
-  "quare",
-  "quark",
-  "quart",
-  "quash",
-  "quasi",
-  "quass",
-  "quate",
-  "quays",
-  "quean",
-  "queen",
-  "queer",
-  "quell",
-  "quern",
-  "query",
-  "quest",
-  "queue",
-  "queys",
-  "quick",
-  "quids",
-  "quiet",
-  "quiff",
-  "quill",
-  "quilt",
-  "quins",
-  "quint",
-  "quips",
-  "quipu",
-  "quire",
-  "quirk",
-  "quirt",
-  "quite",
-  "quits",
-  "quods",
-  "quoin",
-  "quoit",
-  "quota",
-  "quote",
-  "quoth",
-  "qursh",
-  "rabat",
-  "rabbi",
-  "rabic",
-  "rabid",
-  "raced",
-  "racer",
-  "races",
-  "racks",
-  "racon",
-  "radar",
-  "radii",
-  "radio",
-  "radix",
-  "radon",
-  "raffs",
-  "rafts",
-  "ragas",
-  "raged",
-  "ragee",
-  "rages",
-  "raggy",
-  "ragis",
-  "raias",
-  "raids",
-  "rails",
-  "rains",
-  "rainy",
-  "raise",
-  "rajah",
-  "rajas",
-  "rajes",
-  "raked",
-  "rakee",
-  "raker",
-  "rakes",
-  "rakis",
-  "rales",
-  "rally",
-  "ralph",
-  "ramee",
-  "ramet",
-  "ramie",
-  "rammy",
-  "ramps",
-  "ramus",
-  "rance",
-  "ranch",
-  "rands",
-  "randy",
-  "ranee",
-  "range",
-  "rangy",
-  "ranid",
-  "ranis",
-  "ranks",
-  "rants",
-  "raped",
-  "raper",
-  "rapes",
-  "raphe",
-  "rapid",
-  "rared",
-  "rarer",
-  "rares",
-  "rased",
-  "raser",
-  "rases",
-  "rasps",
-  "raspy",
-  "ratal",
-  "ratan",
-  "ratch",
-  "rated",
-  "ratel",
-  "rater",
-  "rates",
-  "rathe",
-  "ratio",
-  "ratos",
-  "ratty",
-  "raved",
-  "ravel",
-  "raven",
-  "raver",
-  "raves",
-  "ravin",
-  "rawer",
-  "rawin",
-  "rawly",
-  "raxed",
-  "raxes",
-  "rayah",
-  "rayas",
-  "rayed",
-  "rayon",
-  "razed",
-  "razee",
-  "razer",
-  "razes",
-  "razor",
-  "reach",
-  "react",
-  "readd",
-  "reads",
-  "ready",
-  "realm",
-  "reals",
-  "reams",
-  "reaps",
-  "rearm",
-  "rears",
-  "reata",
-  "reave",
-  "rebar",
-  "rebbe",
-  "rebec",
-  "rebel",
-  "rebid",
-  "rebop",
-  "rebus",
-  "rebut",
-  "rebuy",
-  "recap",
-  "recce",
-  "recks",
-  "recon",
-  "recta",
-  "recti",
-  "recto",
-  "recur",
-  "recut",
-  "redan",
-  "redds",
-  "reded",
-  "redes",
-  "redia",
-  "redid",
-  "redip",
-  "redly",
-  "redon",
-  "redos",
-  "redox",
-  "redry",
-  "redub",
-  "redux",
-  "redye",
-  "reeds",
-  "reedy",
-  "reefs",
-  "reefy",
-  "reeks",
-  "reeky",
-  "reels",
-  "reest",
-  "reeve",
-  "refed",
-  "refel",
-  "refer",
-  "refit",
-  "refix",
-  "refly",
-  "refry",
-  "regal",
-  "reges",
-  "regma",
-  "regna",
-  "rehab",
-  "rehem",
-  "reifs",
-  "reify",
-  "reign",
-  "reink",
-  "reins",
-  "reive",
-  "rekey",
-  "relax",
-  "relay",
-  "relet",
-  "relic",
-  "relit",
-  "reman",
-  "remap",
-  "remet",
-  "remex",
-  "remit",
-  "remix",
-  "renal",
-  "rends",
-  "renew",
-  "renig",
-  "renin",
-  "rente",
-  "rents",
-  "reoil",
-  "repay",
-  "repeg",
-  "repel",
-  "repin",
-  "reply",
-  "repos",
-  "repot",
-  "repps",
-  "repro",
-  "reran",
-  "rerig",
-  "rerun",
-  "resaw",
-  "resay",
-  "resee",
-  "reset",
-  "resew",
-  "resid",
-  "resin",
-  "resod",
-  "resow",
-  "rests",
-  "retag",
-  "retax",
-  "retch",
-  "retem",
-  "retia",
-  "retie",
-  "retro",
-  "retry",
-  "reuse",
-  "revel",
-  "revet",
-  "revue",
-  "rewan",
-  "rewax",
-  "rewed",
-  "rewet",
-  "rewin",
-  "rewon",
-  "rexes",
-  "rheas",
-  "rheum",
-  "rhino",
-  "rhomb",
-  "rhumb",
-  "rhyme",
-  "rhyta",
-  "rials",
-  "riant",
-  "riata",
-  "ribby",
-  "ribes",
-  "riced",
-  "ricer",
-  "rices",
-  "ricin",
-  "ricks",
-  "rider",
-  "rides",
-  "ridge",
-  "ridgy",
-  "riels",
-  "rifer",
-  "riffs",
-  "rifle",
-  "rifts",
-  "right",
-  "rigid",
-  "rigor",
-  "riled",
-  "riles",
-  "riley",
-  "rille",
-  "rills",
-  "rimed",
-  "rimer",
-  "rimes",
-  "rinds",
-  "rings",
-  "rinks",
-  "rinse",
-  "rioja",
-  "riots",
-  "riped",
-  "ripen",
-  "riper",
-  "ripes",
-  "risen",
-  "riser",
-  "rises",
-  "rishi",
-  "risks",
-  "risky",
-  "risus",
-  "rites",
-  "ritzy",
-  "rival",
-  "rived",
-  "riven",
-  "river",
-  "rives",
-  "rivet",
-  "riyal",
-  "roach",
-  "roads",
-  "roams",
-  "roans",
-  "roars",
-  "roast",
-  "robed",
-  "robes",
-  "robin",
-  "roble",
-  "robot",
-  "rocks",
-  "rocky",
-  "rodeo",
-  "roger",
-  "rogue",
-  "roils",
-  "roily",
-  "roles",
-  "rolfs",
-  "rolls",
-  "roman",
-  "romeo",
-  "romps",
-  "rondo",
-  "roods",
-  "roofs",
-  "rooks",
-  "rooky",
-  "rooms",
-  "roomy",
-  "roose",
-  "roost",
-  "roots",
-  "rooty",
-  "roped",
-  "roper",
-  "ropes",
-  "ropey",
-  "roque",
-  "rosed",
-  "roses",
-  "roset",
-  "rosin",
-  "rotas",
-  "rotch",
-  "rotes",
-  "rotis",
-  "rotls",
-  "rotor",
-  "rotos",
-  "rotte",
-  "rouen",
-  "roues",
-  "rouge",
-  "rough",
-  "round",
-  "roups",
-  "roupy",
-  "rouse",
-  "roust",
-  "route",
-  "routh",
-  "routs",
-  "roved",
-  "roven",
-  "rover",
-  "roves",
-  "rowan",
-  "rowdy",
-  "rowed",
-  "rowel",
-  "rowen",
-  "rower",
-  "rowth",
-  "royal",
-  "ruana",
-  "rubes",
-  "ruble",
-  "rubus",
-  "ruche",
-  "rucks",
-  "rudds",
-  "ruddy",
-  "ruder",
-  "ruers",
-  "ruffe",
-  "ruffs",
-  "rugae",
-  "rugal",
-  "rugby",
-  "ruing",
-  "ruins",
-  "ruled",
-  "ruler",
-  "rules",
-  "rumba",
-  "rumen",
-  "rummy",
-  "rumor",
-  "rumps",
-  "runes",
-  "rungs",
-  "runic",
-  "runny",
-  "runts",
-  "runty",
-  "rupee",
-  "rural",
-  "ruses",
-  "rushy",
-  "rusks",
-  "rusts",
-  "rusty",
-  "ruths",
-  "rutin",
-  "rutty",
-  "ryked",
-  "rykes",
-  "rynds",
-  "ryots",
-  "sabed",
-  "saber",
-  "sabes",
-  "sabin",
-  "sabir",
-  "sable",
-  "sabot",
-  "sabra",
-  "sabre",
-  "sacks",
-  "sacra",
-  "sades",
-  "sadhe",
-  "sadhu",
-  "sadis",
-  "sadly",
-  "safer",
-  "safes",
-  "sagas",
-  "sager",
-  "sages",
-  "saggy",
-  "sagos",
-  "sagum",
-  "sahib",
-  "saice",
-  "saids",
-  "saiga",
-  "sails",
-  "sains",
-  "saint",
-  "saith",
-  "sajou",
-  "saker",
-  "sakes",
-  "sakis",
-  "salad",
-  "salal",
-  "salep",
-  "sales",
-  "salic",
-  "sally",
-  "salmi",
-  "salol",
-  "salon",
-  "salpa",
-  "salps",
-  "salsa",
-  "salts",
-  "salty",
-  "salve",
-  "salvo",
-  "samba",
-  "sambo",
-  "samek",
-  "samps",
-  "sands",
-  "sandy",
-  "saned",
-  "saner",
-  "sanes",
-  "sanga",
-  "sangh",
-  "santo",
-  "sapid",
-  "sapor",
-  "sappy",
-  "saran",
-  "sards",
-  "saree",
-  "sarge",
-  "sarin",
-  "saris",
-  "sarks",
-  "sarky",
-  "sarod",
-  "saros",
-  "sasin",
-  "sassy",
-  "satay",
-  "sated",
-  "satem",
-  "sates",
-  "satin",
-  "satis",
-  "satyr",
-  "sauce",
-  "sauch",
-  "saucy",
-  "saugh",
-  "sauls",
-  "sault",
-  "sauna",
-  "saury",
-  "saute",
-  "saved",
-  "saver",
-  "saves",
-  "savin",
-  "savor",
-  "savoy",
-  "savvy",
-  "sawed",
-  "sawer",
-  "saxes",
-  "sayer",
-  "sayid",
-  "sayst",
-  "scabs",
-  "scads",
-  "scags",
-  "scald",
-  "scale",
-  "scall",
-  "scalp",
-  "scaly",
-  "scamp",
-  "scams",
-  "scans",
-  "scant",
-  "scape",
-  "scare",
-  "scarf",
-  "scarp",
-  "scars",
-  "scart",
-  "scary",
-  "scats",
-  "scatt",
-  "scaup",
-  "scaur",
-  "scena",
-  "scend",
-  "scene",
-  "scent",
-  "schav",
-  "schmo",
-  "schul",
-  "schwa",
-  "scion",
-  "scoff",
-  "scold",
-  "scone",
-  "scoop",
-  "scoot",
-  "scope",
-  "scops",
-  "score",
-  "scorn",
-  "scots",
-  "scour",
-  "scout",
-  "scowl",
-  "scows",
-  "scrag",
-  "scram",
-  "scrap",
-  "scree",
-  "screw",
-  "scrim",
-  "scrip",
-  "scrod",
-  "scrub",
-  "scrum",
-  "scuba",
-  "scudi",
-  "scudo",
-  "scuds",
-  "scuff",
-  "sculk",
-  "scull",
-  "sculp",
-  "scums",
-  "scups",
-  "scurf",
-  "scuta",
-  "scute",
-  "scuts",
-  "seals",
-  "seams",
-  "seamy",
-  "sears",
-  "seats",
-  "sebum",
-  "secco",
-  "sects",
-  "sedan",
-  "seder",
-  "sedge",
-  "sedgy",
-  "sedum",
-  "seeds",
-  "seedy",
-  "seeks",
-  "seels",
-  "seely",
-  "seems",
-  "seeps",
-  "seepy",
-  "seers",
-  "segni",
-  "segno",
-  "segos",
-  "segue",
-  "seifs",
-  "seine",
-  "seise",
-  "seism",
-  "seize",
-  "selah",
-  "selfs",
-  "selle",
-  "sells",
-  "selva",
-  "semen",
-  "semes",
-  "semis",
-  "sends",
-  "sengi",
-  "senna",
-  "senor",
-  "sensa",
-  "sense",
-  "sente",
-  "senti",
-  "sepal",
-  "sepia",
-  "sepic",
-  "sepoy",
-  "septa",
-  "septs",
-  "serac",
-  "serai",
-  "seral",
-  "sered",
-  "serer",
-  "seres",
-  "serfs",
-  "serge",
-  "serif",
-  "serin",
-  "serow",
-  "serry",
-  "serum",
-  "serve",
-  "servo",
-  "setae",
-  "setal",
-  "seton",
-  "setts",
-  "setup",
-  "seven",
-  "sever",
-  "sewan",
-  "sewar",
-  "sewed",
-  "sewer",
-  "sexed",
-  "sexes",
-  "sexto",
-  "sexts",
-  "shack",
-  "shade",
-  "shads",
-  "shady",
-  "shaft",
-  "shags",
-  "shahs",
-  "shake",
-  "shako",
-  "shaky",
-  "shale",
-  "shall",
-  "shalt",
-  "shaly",
-  "shame",
-  "shams",
-  "shank",
-  "shape",
-  "shard",
-  "share",
-  "shark",
-  "sharn",
-  "sharp",
-  "shaul",
-  "shave",
-  "shawl",
-  "shawm",
-  "shawn",
-  "shaws",
-  "shays",
-  "sheaf",
-  "sheal",
-  "shear",
-  "sheas",
-  "sheds",
-  "sheen",
-  "sheep",
-  "sheer",
-  "sheet",
-  "sheik",
-  "shelf",
-  "shell",
-  "shend",
-  "shent",
-  "sheol",
-  "sherd",
-  "shewn",
-  "shews",
-  "shied",
-  "shiel",
-  "shier",
-  "shies",
-  "shift",
-  "shill",
-  "shily",
-  "shims",
-  "shine",
-  "shins",
-  "shiny",
-  "ships",
-  "shire",
-  "shirk",
-  "shirr",
-  "shirt",
-  "shist",
-  "shits",
-  "shiva",
-  "shive",
-  "shivs",
-  "shlep",
-  "shoal",
-  "shoat",
-  "shock",
-  "shoed",
-  "shoer",
-  "shoes",
-  "shogs",
-  "shoji",
-  "shone",
-  "shook",
-  "shool",
-  "shoon",
-  "shoos",
-  "shoot",
-  "shops",
-  "shore",
-  "shorl",
-  "shorn",
-  "short",
-  "shote",
-  "shots",
-  "shott",
-  "shout",
-  "shove",
-  "shown",
-  "shows",
-  "showy",
-  "shoyu",
-  "shred",
-  "shrew",
-  "shris",
-  "shrub",
-  "shrug",
-  "shtik",
-  "shuck",
-  "shuln",
-  "shuls",
-  "shuns",
-  "shunt",
-  "shush",
-  "shute",
-  "shuts",
-  "shyer",
-  "shyly",
-  "sials",
-  "sibbs",
-  "sibyl",
-  "sices",
-  "sicko",
-  "sicks",
-  "sided",
-  "sides",
-  "sidle",
-  "siege",
-  "sieur",
-  "sieve",
-  "sifts",
-  "sighs",
-  "sight",
-  "sigil",
-  "sigma",
-  "signs",
-  "siker",
-  "sikes",
-  "silds",
-  "silex",
-  "silks",
-  "silky",
-  "sills",
-  "silly",
-  "silos",
-  "silts",
-  "silty",
-  "silva",
-  "simar",
-  "simas",
-  "simps",
-  "since",
-  "sines",
-  "sinew",
-  "singe",
-  "sings",
-  "sinhs",
-  "sinks",
-  "sinus",
-  "siped",
-  "sipes",
-  "sired",
-  "siree",
-  "siren",
-  "sires",
-  "sirra",
-  "sirup",
-  "sisal",
-  "sises",
-  "sissy",
-  "sitar",
-  "sited",
-  "sites",
-  "situp",
-  "situs",
-  "siver",
-  "sixes",
-  "sixmo",
-  "sixte",
-  "sixth",
-  "sixty",
-  "sizar",
-  "sized",
-  "sizer",
-  "sizes",
-  "skags",
-  "skald",
-  "skate",
-  "skats",
-  "skean",
-  "skeed",
-  "skeen",
-  "skees",
-  "skeet",
-  "skegs",
-  "skein",
-  "skelm",
-  "skelp",
-  "skene",
-  "skeps",
-  "skews",
-  "skids",
-  "skied",
-  "skier",
-  "skies",
-  "skiey",
-  "skiff",
-  "skill",
-  "skimo",
-  "skimp",
-  "skims",
-  "skink",
-  "skins",
-  "skint",
-  "skips",
-  "skirl",
-  "skirr",
-  "skirt",
-  "skite",
-  "skits",
-  "skive",
-  "skoal",
-  "skosh",
-  "skuas",
-  "skulk",
-  "skull",
-  "skunk",
-  "skyed",
-  "skyey",
-  "slabs",
-  "slack",
-  "slags",
-  "slain",
-  "slake",
-  "slams",
-  "slang",
-  "slank",
-  "slant",
-  "slaps",
-  "slash",
-  "slate",
-  "slats",
-  "slaty",
-  "slave",
-  "slaws",
-  "slays",
-  "sleds",
-  "sleek",
-  "sleep",
-  "sleet",
-  "slept",
-  "slews",
-  "slice",
-  "slick",
-  "slide",
-  "slier",
-  "slily",
-  "slime",
-  "slims",
-  "slimy",
-  "sling",
-  "slink",
-  "slipe",
-  "slips",
-  "slipt",
-  "slits",
-  "slobs",
-  "sloes",
-  "slogs",
-  "sloid",
-  "slojd",
-  "sloop",
-  "slope",
-  "slops",
-  "slosh",
-  "sloth",
-  "slots",
-  "slows",
-  "sloyd",
-  "slubs",
-  "slued",
-  "slues",
-  "sluff",
-  "slugs",
-  "slump",
-  "slums",
-  "slung",
-  "slunk",
-  "slurb",
-  "slurp",
-  "slurs",
-  "slush",
-  "sluts",
-  "slyer",
-  "slyly",
-  "slype",
-  "smack",
-  "small",
-  "smalt",
-  "smarm",
-  "smart",
-  "smash",
-  "smaze",
-  "smear",
-  "smeek",
-  "smell",
-  "smelt",
-  "smerk",
-  "smews",
-  "smile",
-  "smirk",
-  "smite",
-  "smith",
-  "smock",
-  "smogs",
-  "smoke",
-  "smoky",
-  "smolt",
-  "smote",
-  "smuts",
-  "snack",
-  "snafu",
-  "snags",
-  "snail",
-  "snake",
-  "snaky",
-  "snaps",
-  "snare",
-  "snark",
-  "snarl",
-  "snash",
-  "snath",
-  "snaws",
-  "sneak",
-  "sneap",
-  "sneck",
-  "sneds",
-  "sneer",
-  "snell",
-  "snibs",
-  "snick",
-  "snide",
-  "sniff",
-  "snipe",
-  "snips",
-  "snits",
-  "snobs",
-  "snogs",
-  "snood",
-  "snook",
-  "snool",
-  "snoop",
-  "snoot",
-  "snore",
-  "snort",
-  "snots",
-  "snout",
-  "snows",
-  "snowy",
-  "snubs",
-  "snuck",
-  "snuff",
-  "snugs",
-  "snyes",
-  "soaks",
-  "soaps",
-  "soapy",
-  "soars",
-  "soave",
-  "sober",
-  "socko",
-  "socks",
-  "socle",
-  "sodas",
-  "soddy",
-  "sodic",
-  "sodom",
-  "sofar",
-  "sofas",
-  "softa",
-  "softs",
-  "softy",
-  "soggy",
-  "soils",
-  "sojas",
-  "sokes",
-  "sokol",
-  "solan",
-  "solar",
-  "soldi",
-  "soldo",
-  "soled",
-  "solei",
-  "soles",
-  "solid",
-  "solon",
-  "solos",
-  "solum",
-  "solus",
-  "solve",
-  "somas",
-  "sonar",
-  "sonde",
-  "sones",
-  "songs",
-  "sonic",
-  "sonly",
-  "sonny",
-  "sonsy",
-  "sooey",
-  "sooks",
-  "sooth",
-  "soots",
-  "sooty",
-  "sophs",
-  "sophy",
-  "sopor",
-  "soppy",
-  "soras",
-  "sorbs",
-  "sords",
-  "sorel",
-  "sorer",
-  "sores",
-  "sorgo",
-  "sorns",
-  "sorry",
-  "sorts",
-  "sorus",
-  "soths",
-  "sotol",
-  "sough",
-  "souks",
-  "souls",
-  "sound",
-  "soups",
-  "soupy",
-  "sours",
-  "souse",
-  "south",
-  "sowar",
-  "sowed",
-  "sower",
-  "soyas",
-  "soyuz",
-  "sozin",
-  "space",
-  "spacy",
-  "spade",
-  "spado",
-  "spaed",
-  "spaes",
-  "spahi",
-  "spail",
-  "spait",
-  "spake",
-  "spale",
-  "spall",
-  "spang",
-  "spank",
-  "spans",
-  "spare",
-  "spark",
-  "spars",
-  "spasm",
-  "spate",
-  "spats",
-  "spawn",
-  "spays",
-  "speak",
-  "spean",
-  "spear",
-  "speck",
-  "specs",
-  "speed",
-  "speel",
-  "speer",
-  "speil",
-  "speir",
-  "spell",
-  "spelt",
-  "spend",
-  "spent",
-  "sperm",
-  "spews",
-  "spica",
-  "spice",
-  "spick",
-  "spics",
-  "spicy",
-  "spied",
-  "spiel",
-  "spier",
-  "spies",
-  "spiff",
-  "spike",
-  "spiks",
-  "spiky",
-  "spile",
-  "spill",
-  "spilt",
-  "spine",
-  "spins",
-  "spiny",
-  "spire",
-  "spirt",
-  "spiry",
-  "spite",
-  "spits",
-  "spitz",
-  "spivs",
-  "splat",
-  "splay",
-  "split",
-  "spode",
-  "spoil",
-  "spoke",
-  "spoof",
-  "spook",
-  "spool",
-  "spoon",
-  "spoor",
-  "spore",
-  "sport",
-  "spots",
-  "spout",
-  "sprag",
-  "sprat",
-  "spray",
-  "spree",
-  "sprig",
-  "sprit",
-  "sprue",
-  "sprug",
-  "spuds",
-  "spued",
-  "spues",
-  "spume",
-  "spumy",
-  "spunk",
-  "spurn",
-  "spurs",
-  "spurt",
-  "sputa",
-  "squab",
-  "squad",
-  "squat",
-  "squaw",
-  "squeg",
-  "squib",
-  "squid",
-  "stabs",
-  "stack",
-  "stade",
-  "staff",
-  "stage",
-  "stags",
-  "stagy",
-  "staid",
-  "staig",
-  "stain",
-  "stair",
-  "stake",
-  "stale",
-  "stalk",
-  "stall",
-  "stamp",
-  "stand",
-  "stane",
-  "stang",
-  "stank",
-  "staph",
-  "stare",
-  "stark",
-  "stars",
-  "start",
-  "stash",
-  "state",
-  "stats",
-  "stave",
-  "stays",
-  "stead",
-  "steak",
-  "steal",
-  "steam",
-  "steed",
-  "steek",
-  "steel",
-  "steep",
-  "steer",
-  "stein",
-  "stela",
-  "stele",
-  "stems",
-  "steno",
-  "steps",
-  "stere",
-  "stern",
-  "stets",
-  "stews",
-  "stich",
-  "stick",
-  "stied",
-  "sties",
-  "stiff",
-  "stile",
-  "still",
-  "stilt",
-  "stime",
-  "stimy",
-  "sting",
-  "stink",
-  "stint",
-  "stipe",
-  "stirk",
-  "stirp",
-  "stirs",
-  "stoae",
-  "stoai",
-  "stoas",
-  "stoat",
-  "stobs",
-  "stock",
-  "stogy",
-  "stoic",
-  "stoke",
-  "stole",
-  "stoma",
-  "stomp",
-  "stone",
-  "stony",
-  "stood",
-  "stook",
-  "stool",
-  "stoop",
-  "stope",
-  "stops",
-  "stopt",
-  "store",
-  "stork",
-  "storm",
-  "story",
-  "stoss",
-  "stoup",
-  "stour",
-  "stout",
-  "stove",
-  "stowp",
-  "stows",
-  "strap",
-  "straw",
-  "stray",
-  "strep",
-  "strew",
-  "stria",
-  "strip",
-  "strop",
-  "strow",
-  "stroy",
-  "strum",
-  "strut",
-  "stubs",
-  "stuck",
-  "studs",
-  "study",
-  "stuff",
-  "stull",
-  "stump",
-  "stums",
-  "stung",
-  "stunk",
-  "stuns",
-  "stunt",
-  "stupa",
-  "stupe",
-  "sturt",
-  "styed",
-  "styes",
-  "style",
-  "styli",
-  "stymy",
-  "suave",
-  "subah",
-  "subas",
-  "suber",
-  "sucks",
-  "sucre",
-  "sudds",
-  "sudor",
-  "sudsy",
-  "suede",
-  "suers",
-  "suets",
-  "suety",
-  "sugar",
-  "sughs",
-  "suing",
-  "suint",
-  "suite",
-  "suits",
-  "sulci",
-  "sulfa",
-  "sulfo",
-  "sulks",
-  "sulky",
-  "sully",
-  "sulus",
-  "sumac",
-  "summa",
-  "sumos",
-  "sumps",
-  "sunna",
-  "sunns",
-  "sunny",
-  "sunup",
-  "super",
-  "supes",
-  "supra",
-  "surah",
-  "sural",
-  "suras",
-  "surds",
-  "surer",
-  "surfs",
-  "surfy",
-  "surge",
-  "surgy",
-  "surly",
-  "surra",
-  "sushi",
-  "sutra",
-  "sutta",
-  "swabs",
-  "swage",
-  "swags",
-  "swail",
-  "swain",
-  "swale",
-  "swami",
-  "swamp",
-  "swamy",
-  "swang",
-  "swank",
-  "swans",
-  "swaps",
-  "sward",
-  "sware",
-  "swarf",
-  "swarm",
-  "swart",
-  "swash",
-  "swath",
-  "swats",
-  "sways",
-  "swear",
-  "sweat",
-  "swede",
-  "sweep",
-  "sweer",
-  "sweet",
-  "swell",
-  "swept",
-  "swift",
-  "swigs",
-  "swill",
-  "swims",
-  "swine",
-  "swing",
-  "swink",
-  "swipe",
-  "swirl",
-  "swish",
-  "swiss",
-  "swith",
-  "swive",
-  "swobs",
-  "swoon",
-  "swoop",
-  "swops",
-  "sword",
-  "swore",
-  "sworn",
-  "swots",
-  "swoun",
-  "swung",
-  "sycee",
-  "syces",
-  "sykes",
-  "sylis",
-  "sylph",
-  "sylva",
-  "synch",
-  "syncs",
-  "synod",
-  "synth",
-  "syphs",
-  "syren",
-  "syrup",
-  "sysop",
-  "tabby",
-  "taber",
-  "tabes",
-  "tabid",
-  "tabla",
-  "table",
-  "taboo",
-  "tabor",
-  "tabun",
-  "tabus",
-  "taces",
-  "tacet",
-  "tache",
-  "tachs",
-  "tacit",
-  "tacks",
-  "tacky",
-  "tacos",
-  "tacts",
-  "taels",
-  "taffy",
-  "tafia",
-  "tahrs",
-  "taiga",
-  "tails",
-  "tains",
-  "taint",
-  "tajes",
-  "taken",
-  "taker",
-  "takes",
-  "takin",
-  "talar",
-  "talas",
-  "talcs",
-  "taler",
-  "tales",
-  "talks",
-  "talky",
-  "tally",
-  "talon",
-  "taluk",
-  "talus",
-  "tamal",
-  "tamed",
-  "tamer",
-  "tames",
-  "tamis",
-  "tammy",
-  "tamps",
-  "tango",
-  "tangs",
-  "tangy",
-  "tanka",
-  "tanks",
-  "tansy",
-  "tanto",
-  "tapas",
-  "taped",
-  "taper",
-  "tapes",
-  "tapir",
-  "tapis",
-  "tardo",
-  "tardy",
-  "tared",
-  "tares",
-  "targe",
-  "tarns",
-  "taroc",
-  "tarok",
-  "taros",
-  "tarot",
-  "tarps",
-  "tarre",
-  "tarry",
-  "tarsi",
-  "tarts",
-  "tarty",
-  "tasks",
-  "tasse",
-  "taste",
-  "tasty",
-  "tatar",
-  "tater",
-  "tates",
-  "tatty",
-  "taunt",
-  "taupe",
-  "tauts",
-  "tawed",
-  "tawer",
-  "tawie",
-  "tawny",
-  "tawse",
-  "taxed",
-  "taxer",
-  "taxes",
-  "taxis",
-  "taxon",
-  "taxus",
-  "tazza",
-  "tazze",
-  "teach",
-  "teaks",
-  "teals",
-  "teams",
-  "tears",
-  "teary",
-  "tease",
-  "teats",
-  "techy",
-  "tecta",
-  "teddy",
-  "teels",
-  "teems",
-  "teens",
-  "teeny",
-  "teeth",
-  "teffs",
-  "tegua",
-  "teiid",
-  "teind",
-  "telae",
-  "teles",
-  "telex",
-  "telia",
-  "telic",
-  "tells",
-  "telly",
-  "teloi",
-  "telos",
-  "tempi",
-  "tempo",
-  "temps",
-  "tempt",
-  "tench",
-  "tends",
-  "tenet",
-  "tenia",
-  "tenon",
-  "tenor",
-  "tense",
-  "tenth",
-  "tents",
-  "tenty",
-  "tepal",
-  "tepas",
-  "tepee",
-  "tepid",
-  "tepoy",
-  "terai",
-  "terce",
-  "terga",
-  "terms",
-  "terne",
-  "terns",
-  "terra",
-  "terry",
-  "terse",
-  "tesla",
-  "testa",
-  "tests",
-  "testy",
-  "teths",
-  "tetra",
-  "teuch",
-  "teugh",
-  "tewed",
-  "texas",
-  "texts",
-  "thack",
-  "thane",
-  "thank",
-  "tharm",
-  "thaws",
-  "thebe",
-  "theca",
-  "theft",
-  "thegn",
-  "thein",
-  "their",
-  "theme",
-  "thens",
-  "there",
-  "therm",
-  "these",
-  "theta",
-  "thews",
-  "thewy",
-  "thick",
-  "thief",
-  "thigh",
-  "thill",
-  "thine",
-  "thing",
-  "think",
-  "thins",
-  "thiol",
-  "third",
-  "thirl",
-  "thole",
-  "thong",
-  "thorn",
-  "thoro",
-  "thorp",
-  "those",
-  "thous",
-  "thraw",
-  "three",
-  "threw",
-  "thrip",
-  "throb",
-  "throe",
-  "throw",
-  "thrum",
-  "thuds",
-  "thugs",
-  "thuja",
-  "thumb",
-  "thump",
-  "thunk",
-  "thurl",
-  "thuya",
-  "thyme",
-  "thymi",
-  "thymy",
-  "tiara",
-  "tibia",
-  "tical",
-  "ticks",
-  "tidal",
-  "tided",
-  "tides",
-  "tiers",
-  "tiffs",
-  "tiger",
-  "tight",
-  "tigon",
-  "tikes",
-  "tikis",
-  "tilak",
-  "tilde",
-  "tiled",
-  "tiler",
-  "tiles",
-  "tills",
-  "tilth",
-  "tilts",
-  "timed",
-  "timer",
-  "times",
-  "timid",
-  "tinct",
-  "tinea",
-  "tined",
-  "tines",
-  "tinge",
-  "tings",
-  "tinny",
-  "tints",
-  "tipis",
-  "tippy",
-  "tipsy",
-  "tired",
-  "tires",
-  "tirls",
-  "tiros",
-  "titan",
-  "titer",
-  "tithe",
-  "titis",
-  "title",
-  "titre",
-  "titty",
-  "tizzy",
-  "toads",
-  "toady",
-  "toast",
-  "today",
-  "toddy",
-  "toffs",
-  "toffy",
-  "tofts",
-  "tofus",
-  "togae",
-  "togas",
-  "togue",
-  "toile",
-  "toils",
-  "toits",
-  "tokay",
-  "toked",
-  "token",
-  "toker",
-  "tokes",
-  "tolan",
-  "tolas",
-  "toled",
-  "toles",
-  "tolls",
-  "tolus",
-  "tolyl",
-  "toman",
-  "tombs",
-  "tomes",
-  "tommy",
-  "tonal",
-  "tondi",
-  "tondo",
-  "toned",
-  "toner",
-  "tones",
-  "toney",
-  "tonga",
-  "tongs",
-  "tonic",
-  "tonne",
-  "tonus",
-  "tools",
-  "toons",
-  "tooth",
-  "toots",
-  "topaz",
-  "toped",
-  "topee",
-  "toper",
-  "topes",
-  "tophe",
-  "tophi",
-  "tophs",
-  "topic",
-  "topis",
-  "topoi",
-  "topos",
-  "toque",
-  "torah",
-  "toras",
-  "torch",
-  "torcs",
-  "tores",
-  "toric",
-  "torii",
-  "toros",
-  "torot",
-  "torse",
-  "torsi",
-  "torsk",
-  "torso",
-  "torte",
-  "torts",
-  "torus",
-  "total",
-  "toted",
-  "totem",
-  "toter",
-  "totes",
-  "touch",
-  "tough",
-  "tours",
-  "touse",
-  "touts",
-  "towed",
-  "towel",
-  "tower",
-  "towie",
-  "towns",
-  "towny",
-  "toxic",
-  "toxin",
-  "toyed",
-  "toyer",
-  "toyon",
-  "toyos",
-  "trace",
-  "track",
-  "tract",
-  "trade",
-  "tragi",
-  "traik",
-  "trail",
-  "train",
-  "trait",
-  "tramp",
-  "trams",
-  "trank",
-  "tranq",
-  "trans",
-  "traps",
-  "trapt",
-  "trash",
-  "trass",
-  "trave",
-  "trawl",
-  "trays",
-  "tread",
-  "treat",
-  "treed",
-  "treen",
-  "trees",
-  "treks",
-  "trend",
-  "tress",
-  "trets",
-  "trews",
-  "treys",
-  "triac",
-  "triad",
-  "trial",
-  "tribe",
-  "trice",
-  "trick",
-  "tried",
-  "trier",
-  "tries",
-  "trigo",
-  "trigs",
-  "trike",
-  "trill",
-  "trims",
-  "trine",
-  "triol",
-  "trios",
-  "tripe",
-  "trips",
-  "trite",
-  "troak",
-  "trock",
-  "trode",
-  "trois",
-  "troke",
-  "troll",
-  "tromp",
-  "trona",
-  "trone",
-  "troop",
-  "trooz",
-  "trope",
-  "troth",
-  "trots",
-  "trout",
-  "trove",
-  "trows",
-  "troys",
-  "truce",
-  "truck",
-  "trued",
-  "truer",
-  "trues",
-  "trugs",
-  "trull",
-  "truly",
-  "trump",
-  "trunk",
-  "truss",
-  "trust",
-  "truth",
-  "tryma",
-  "tryst",
-  "tsade",
-  "tsadi",
-  "tsars",
-  "tsked",
-  "tsuba",
-  "tubae",
-  "tubal",
-  "tubas",
-  "tubby",
-  "tubed",
-  "tuber",
-  "tubes",
-  "tucks",
-  "tufas",
-  "tuffs",
-  "tufts",
-  "tufty",
-  "tules",
-  "tulip",
-  "tulle",
-  "tumid",
-  "tummy",
-  "tumor",
-  "tumps",
-  "tunas",
-  "tuned",
-  "tuner",
-  "tunes",
-  "tungs",
-  "tunic",
-  "tunny",
-  "tupik",
-  "tuque",
-  "turbo",
-  "turds",
-  "turfs",
-  "turfy",
-  "turks",
-  "turns",
-  "turps",
-  "tushy",
-  "tusks",
-  "tutee",
-  "tutor",
-  "tutti",
-  "tutty",
-  "tutus",
-  "tuxes",
-  "tuyer",
-  "twaes",
-  "twain",
-  "twang",
-  "twats",
-  "tweak",
-  "tweed",
-  "tween",
-  "tweet",
-  "twerp",
-  "twice",
-  "twier",
-  "twigs",
-  "twill",
-  "twine",
-  "twins",
-  "twiny",
-  "twirl",
-  "twirp",
-  "twist",
-  "twits",
-  "twixt",
-  "twyer",
-  "tyees",
-  "tyers",
-  "tying",
-  "tykes",
-  "tyned",
-  "tynes",
-  "typal",
-  "typed",
-  "types",
-  "typey",
-  "typic",
-  "typos",
-  "typps",
-  "tyred",
-  "tyres",
-  "tyros",
-  "tythe",
-  "tzars",
-  "udder",
-  "uhlan",
-  "ukase",
-  "ulama",
-  "ulans",
-  "ulcer",
-  "ulema",
-  "ulnad",
-  "ulnae",
-  "ulnar",
-  "ulnas",
-  "ulpan",
-  "ultra",
-  "ulvas",
-  "umbel",
-  "umber",
-  "umbos",
-  "umbra",
-  "umiac",
-  "umiak",
-  "umiaq",
-  "umped",
-  "unais",
-  "unapt",
-  "unarm",
-  "unary",
-  "unaus",
-  "unban",
-  "unbar",
-  "unbid",
-  "unbox",
-  "uncap",
-  "uncia",
-  "uncle",
-  "uncos",
-  "uncoy",
-  "uncus",
-  "uncut",
-  "undee",
-  "under",
-  "undid",
-  "undue",
-  "unfed",
-  "unfit",
-  "unfix",
-  "ungot",
-  "unhat",
-  "unhip",
-  "unify",
-  "union",
-  "unite",
-  "units",
-  "unity",
-  "unlay",
-  "unled",
-  "unlet",
-  "unlit",
-  "unman",
-  "unmet",
-  "unmew",
-  "unmix",
-  "unpeg",
-  "unpen",
-  "unpin",
-  "unrig",
-  "unrip",
-  "unsay",
-  "unset",
-  "unsew",
-  "unsex",
-  "untie",
-  "until",
-  "unwed",
-  "unwit",
-  "unwon",
-  "unzip",
-  "upbow",
-  "upbye",
-  "updos",
-  "updry",
-  "upend",
-  "uplit",
-  "upped",
-  "upper",
-  "upset",
-  "uraei",
-  "urare",
-  "urari",
-  "urase",
-  "urate",
-  "urban",
-  "urbia",
-  "ureal",
-  "ureas",
-  "uredo",
-  "ureic",
-  "urged",
-  "urger",
-  "urges",
-  "urial",
-  "urine",
-  "ursae",
-  "usage",
-  "users",
-  "usher",
-  "using",
-  "usnea",
-  "usque",
-  "usual",
-  "usurp",
-  "usury",
-  "uteri",
-  "utile",
-  "utter",
-  "uveal",
-  "uveas",
-  "uvula",
-  "vacua",
-  "vagal",
-  "vague",
-  "vagus",
-  "vails",
-  "vairs",
-  "vakil",
-  "vales",
-  "valet",
-  "valid",
-  "valor",
-  "valse",
-  "value",
-  "valve",
-  "vamps",
-  "vanda",
-  "vaned",
-  "vanes",
-  "vangs",
-  "vapid",
-  "vapor",
-  "varas",
-  "varia",
-  "varix",
-  "varna",
-  "varus",
-  "varve",
-  "vasal",
-  "vases",
-  "vasts",
-  "vasty",
-  "vatic",
-  "vatus",
-  "vault",
-  "vaunt",
-  "veals",
-  "vealy",
-  "veena",
-  "veeps",
-  "veers",
-  "veery",
-  "vegan",
-  "vegie",
-  "veils",
-  "veins",
-  "veiny",
-  "velar",
-  "velds",
-  "veldt",
-  "velum",
-  "venae",
-  "venal",
-  "vends",
-  "venge",
-  "venin",
-  "venom",
-  "vents",
-  "venue",
-  "verbs",
-  "verge",
-  "verse",
-  "verso",
-  "verst",
-  "verts",
-  "vertu",
-  "verve",
-  "vesta",
-  "vests",
-  "vetch",
-  "vexed",
-  "vexer",
-  "vexes",
-  "vexil",
-  "vials",
-  "viand",
-  "vibes",
-  "vicar",
-  "viced",
-  "vices",
-  "vichy",
-  "video",
-  "viers",
-  "views",
-  "viewy",
-  "vigas",
-  "vigil",
-  "vigor",
-  "viler",
-  "villa",
-  "villi",
-  "vills",
-  "vimen",
-  "vinal",
-  "vinas",
-  "vinca",
-  "vined",
-  "vines",
-  "vinic",
-  "vinos",
-  "vinyl",
-  "viola",
-  "viols",
-  "viper",
-  "viral",
-  "vireo",
-  "vires",
-  "virga",
-  "virid",
-  "virls",
-  "virtu",
-  "virus",
-  "visas",
-  "vised",
-  "vises",
-  "visit",
-  "visor",
-  "vista",
-  "vitae",
-  "vital",
-  "vitta",
-  "vivas",
-  "vivid",
-  "vixen",
-  "vizir",
-  "vizor",
-  "vocal",
-  "voces",
-  "vodka",
-  "vodun",
-  "vogie",
-  "vogue",
-  "voice",
-  "voids",
-  "voila",
-  "voile",
-  "volar",
-  "voled",
-  "voles",
-  "volta",
-  "volte",
-  "volti",
-  "volts",
-  "volva",
-  "vomer",
-  "vomit",
-  "voted",
-  "voter",
-  "votes",
-  "vouch",
-  "vowed",
-  "vowel",
-  "vower",
-  "vroom",
-  "vrouw",
-  "vrows",
-  "vuggs",
-  "vuggy",
-  "vughs",
-  "vulgo",
-  "vulva",
-  "vying",
-  "wacke",
-  "wacko",
-  "wacks",
-  "wacky",
-  "waddy",
-  "waded",
-  "wader",
-  "wades",
-  "wadis",
-  "wafer",
-  "waffs",
-  "wafts",
-  "waged",
-  "wager",
-  "wages",
-  "wagon",
-  "wahoo",
-  "waifs",
-  "wails",
-  "wains",
-  "wairs",
-  "waist",
-  "waits",
-  "waive",
-  "waked",
-  "waken",
-  "waker",
-  "wakes",
-  "waled",
-  "waler",
-  "wales",
-  "walks",
-  "walla",
-  "walls",
-  "wally",
-  "waltz",
-  "wames",
-  "wamus",
-  "wands",
-  "waned",
-  "wanes",
-  "waney",
-  "wanly",
-  "wants",
-  "wards",
-  "wared",
-  "wares",
-  "warks",
-  "warms",
-  "warns",
-  "warps",
-  "warts",
-  "warty",
-  "washy",
-  "wasps",
-  "waspy",
-  "waste",
-  "wasts",
-  "watap",
-  "watch",
-  "water",
-  "watts",
-  "waugh",
-  "wauks",
-  "wauls",
-  "waved",
-  "waver",
-  "waves",
-  "wavey",
-  "wawls",
-  "waxed",
-  "waxen",
-  "waxer",
-  "waxes",
-  "weald",
-  "weals",
-  "weans",
-  "wears",
-  "weary",
-  "weave",
-  "webby",
-  "weber",
-  "wecht",
-  "wedel",
-  "wedge",
-  "wedgy",
-  "weeds",
-  "weedy",
-  "weeks",
-  "weens",
-  "weeny",
-  "weeps",
-  "weepy",
-  "weest",
-  "weets",
-  "wefts",
-  "weigh",
-  "weird",
-  "weirs",
-  "wekas",
-  "welch",
-  "welds",
-  "wells",
-  "welly",
-  "welsh",
-  "welts",
-  "wench",
-  "wends",
-  "wenny",
-  "wests",
-  "wetly",
-  "whack",
-  "whale",
-  "whamo",
-  "whams",
-  "whang",
-  "whaps",
-  "wharf",
-  "whats",
-  "whaup",
-  "wheal",
-  "wheat",
-  "wheel",
-  "wheen",
-  "wheep",
-  "whelk",
-  "whelm",
-  "whelp",
-  "whens",
-  "where",
-  "whets",
-  "whews",
-  "wheys",
-  "which",
-  "whids",
-  "whiff",
-  "whigs",
-  "while",
-  "whims",
-  "whine",
-  "whins",
-  "whiny",
-  "whips",
-  "whipt",
-  "whirl",
-  "whirr",
-  "whirs",
-  "whish",
-  "whisk",
-  "whist",
-  "white",
-  "whits",
-  "whity",
-  "whizz",
-  "whole",
-  "whomp",
-  "whoof",
-  "whoop",
-  "whops",
-  "whore",
-  "whorl",
-  "whort",
-  "whose",
-  "whoso",
-  "whump",
-  "wicks",
-  "widdy",
-  "widen",
-  "wider",
-  "wides",
-  "widow",
-  "width",
-  "wield",
-  "wifed",
-  "wifes",
-  "wifty",
-  "wigan",
-  "wiggy",
-  "wight",
-  "wilco",
-  "wilds",
-  "wiled",
-  "wiles",
-  "wills",
-  "willy",
-  "wilts",
-  "wimps",
-  "wimpy",
-  "wince",
-  "winch",
-  "winds",
-  "windy",
-  "wined",
-  "wines",
-  "winey",
-  "wings",
-  "wingy",
-  "winks",
-  "winos",
-  "winze",
-  "wiped",
-  "wiper",
-  "wipes",
-  "wired",
-  "wirer",
-  "wires",
-  "wirra",
-  "wised",
-  "wiser",
-  "wises",
-  "wisha",
-  "wisps",
-  "wispy",
-  "wists",
-  "witan",
-  "witch",
-  "wited",
-  "wites",
-  "withe",
-  "withy",
-  "witty",
-  "wived",
-  "wiver",
-  "wives",
-  "wizen",
-  "wizes",
-  "woads",
-  "woald",
-  "wodge",
-  "woful",
-  "woken",
-  "wolds",
-  "wolfs",
-  "woman",
-  "wombs",
-  "womby",
-  "women",
-  "wonks",
-  "wonky",
-  "wonts",
-  "woods",
-  "woody",
-  "wooed",
-  "wooer",
-  "woofs",
-  "wools",
-  "wooly",
-  "woops",
-  "woosh",
-  "woozy",
-  "words",
-  "wordy",
-  "works",
-  "world",
-  "worms",
-  "wormy",
-  "worry",
-  "worse",
-  "worst",
-  "worth",
-  "worts",
-  "would",
-  "wound",
-  "woven",
-  "wowed",
-  "wrack",
-  "wrang",
-  "wraps",
-  "wrapt",
-  "wrath",
-  "wreak",
-  "wreck",
-  "wrens",
-  "wrest",
-  "wrick",
-  "wried",
-  "wrier",
-  "wries",
-  "wring",
-  "wrist",
-  "write",
-  "writs",
-  "wrong",
-  "wrote",
-  "wroth",
-  "wrung",
-  "wryer",
-  "wryly",
-  "wurst",
-  "wussy",
-  "wyled",
-  "wyles",
-  "wynds",
-  "wynns",
-  "wyted",
-  "wytes",
-  "xebec",
-  "xenia",
-  "xenic",
-  "xenon",
-  "xeric",
-  "xerox",
-  "xerus",
-  "xylan",
-  "xylem",
-  "xylol",
-  "xylyl",
-  "xysti",
-  "xysts",
-  "yacht",
-  "yacks",
-  "yaffs",
-  "yager",
-  "yagis",
-  "yahoo",
-  "yaird",
-  "yamen",
-  "yamun",
-  "yangs",
-  "yanks",
-  "yapok",
-  "yapon",
-  "yards",
-  "yarer",
-  "yarns",
-  "yauds",
-  "yauld",
-  "yaups",
-  "yawed",
-  "yawls",
-  "yawns",
-  "yawps",
-  "yeans",
-  "yearn",
-  "years",
-  "yeast",
-  "yecch",
-  "yechs",
-  "yechy",
-  "yeggs",
-  "yelks",
-  "yells",
-  "yelps",
-  "yenta",
-  "yente",
-  "yerba",
-  "yerks",
-  "yeses",
-  "yetis",
-  "yetts",
-  "yeuks",
-  "yeuky",
-  "yield",
-  "yikes",
-  "yills",
-  "yince",
-  "yipes",
-  "yirds",
-  "yirrs",
-  "yirth",
-  "ylems",
-  "yobbo",
-  "yocks",
-  "yodel",
-  "yodhs",
-  "yodle",
-  "yogas",
-  "yogee",
-  "yoghs",
-  "yogic",
-  "yogin",
-  "yogis",
-  "yoked",
-  "yokel",
-  "yokes",
-  "yolks",
-  "yolky",
-  "yomim",
-  "yonic",
-  "yonis",
-  "yores",
-  "young",
-  "yourn",
-  "yours",
-  "youse",
-  "youth",
-  "yowed",
-  "yowes",
-  "yowie",
-  "yowls",
-  "yuans",
-  "yucas",
-  "yucca",
-  "yucch",
-  "yucks",
-  "yucky",
-  "yugas",
-  "yulan",
-  "yules",
-  "yummy",
-  "yupon",
-  "yurta",
-  "yurts",
-  "zaire",
-  "zamia",
-  "zanza",
-  "zappy",
-  "zarfs",
-  "zaxes",
-  "zayin",
-  "zazen",
-  "zeals",
-  "zebec",
-  "zebra",
-  "zebus",
-  "zeins",
-  "zerks",
-  "zeros",
-  "zests",
-  "zesty",
-  "zetas",
-  "zibet",
-  "zilch",
-  "zills",
-  "zincs",
-  "zincy",
-  "zineb",
-  "zings",
-  "zingy",
-  "zinky",
-  "zippy",
-  "ziram",
-  "zitis",
-  "zizit",
-  "zlote",
-  "zloty",
-  "zoeae",
-  "zoeal",
-  "zoeas",
-  "zombi",
-  "zonal",
-  "zoned",
-  "zoner",
-  "zones",
-  "zonks",
-  "zooid",
-  "zooks",
-  "zooms",
-  "zoons",
-  "zooty",
-  "zoril",
-  "zoris",
-  "zowie",
-  "zymes",
-];
+export const words =
+  "5|0aahed2lii2rgh1baca4i4k3ft3ka3mp3se4h3te2bas3es4y3ot2eam3le3ts2hor2ide2ler4s2mho2ode3hm3il3ma3on3rt3ut3ve0abris2use3ts3zz2yes3sm4s1cari2erb3ta2hed4s3oo2ids4y3ng4i2kee2mes3ic2ned4s2ock3ld3rn2red4s3id2ted3in3or2ute0acyls1dage3pt2dax3ed4r3le2eem3pt2ieu3os3ts2man3en3it4x2obe4o3pt3re4n3wn3ze2ult3nc3st2yta2zes1ecia2des2gis2ons0aerie1fars2fix2ire2oot3re3ul2rit2ter1gain3ma3pe3rs3te3ve3ze2ene4t3rs2ger3ie3ro2has2ile3ng3os3sm4t2lee4t4y3ow0agmas2one4s4y3ra2ree3ia2ues1head2old2ull1ided4r4s2led2med4r2oli2red4r3ns3th4s2sle2tch2ver1jiva2uga1kees3la3ne1lack0alamo3nd4e4g4s4t3rm4y3te2bas3um2cid2der3ol2ecs3fs3ph3rt2fas2gae4l4s3id4n3or3um2ias3bi3en3fs3gn3ke0aline3st3ve3ya2kyd4l2lay3ee4y3od4t4w4y3yl2mah4s3eh4s3ud4g2oes3ft3ha3in3ne4g3of3ud2pha2tar3er3ho0altos2ula3ms2way1mahs3in3ss3ze2ber3it3le3os3ry2eba3er3nd4s4t2ias3ce4i3de4o4s3es3ga4o3ne4o4s3rs3ss0amity2mos2nia4c2oks3le3ng3rt3ur2ple4y3ul2uck3se2yls1ncon2ear3le3nt2gas3el4r3le3ry3st2ile4s3ma4e4i3on3se0ankhs3le3us2las2nal4s3ex3oy3ul2oas3de3le3my2sae2tae4s3ed4s3ic4s3ra4e3sy2vil1orta1pace3rt2eak3ek3rs4y2hid0aphis2ian3ng3sh2nea2ods3rt2pal3el3le4y2res3on2ses3is2ter3ly1quae4s1raks2bor2ced3us2deb3or2eae4l4s3ca3ic3na3te0argal3il3le3ol4n4t3ue4s2hat2ias3el3ls3se2les2med4r4t3or2oid3ma3se2pen2ras4y3is3ow2ses3is3on2tal3el3sy0arums2val3os2yls1sana2cot3us2dic2hed4n4s2ide2ked4r4w3oi4s2pen4r3ic4s2sai4y3es4t2ter3ir2yla1taps3xy2ilt2las0atman4s2oll3ms4y3ne4y3py2ria4p2tar3ic1udad3io4t2ger3ht3ur2lic2nts4y2rae4l4r4s3ei4s3ic4s3um2tos2xin0avail3nt3st2ens3rs4t2gas2ian3on3so2oid3ws1wait3ke3rd4e3sh2ful2ing2ned2oke3ls1xels2ial3le4s3ng3om4n3te2led4s0axman3en2one4s1yahs2ins1zans2ide4o3ne2lon2oic3le3ns3te4h2ure0baaed3ls2bas3el4s3ka3oo3ul4s2cca3ks3on2ddy3ge3ly0baffs4y2gel3gy2hts2ils3rn3th4s3za4e2ked4r4s2las3ds4y3ed4r4s3ks4y3ls4y3ms4y3sa2nal3co3ds4y3ed0banes3gs3jo3ks3ns3ty2rbe4s3de4s3ed4r4s3fs3ge3ic3ks4y3ms4y3ns4y3on3re3ye2sal3ed4r4s3ic4l4n0basis3ks3si4o4y3te4s2tch3ed4s3he4s3ik3on3ts4u4y2uds3lk2wds4y3ls3ty2yed3ou2zar3oo1each3ds4y3ks4y0beams4y3no4s3rd4s3st3ts3us4t4x2bop2cap3ks2del4w3im2ech3fs4y3ps3rs4y3ts2fit3og2gan4t3et3in3ot3um0begun2ige4y3ng2lay3ch3ga3ie3le4s4y3ow3ts2mas3ix2nch3ds4y3es3ne4i4y3ts2ret3gs3me4s3ry3th3yl2set3om0besot3ts2tas3el3hs3on3ta2vel3or2wig2zel3il1hang2oot2uts1iali4y2bbs3le2ces2ddy3ed4r4s4t2eld3rs2ffs4y3id2ght3ly0bigot2jou2ked4r4s3ie2lbo3es3ge4y3ks3ls4y2mah4s3bo2nal3di4s3es3ge4o3it3ts2ome3nt3ta2ped3od2rch3ds3ks0birle4s3rs3se3th2ses3ks3on2tch3er4s3sy3ts4y2zes1labs3ck3de3hs3in3me4s3nd4k3re3se4t3te4s3wn4s3ze0bleak4r4t3bs3ed4p3nd4t3ss4t3ts2imp4y3nd4i4k3ps3ss3te4z2oat3bs3ck4s3ke3nd3od4m4p3ts3wn4s0blowy2ubs3ed4r4s4t4y3ff3me3nt3rb4s4t3sh2ype1oard4s4t3st3ts2bby2cce4i3he3ks2ded4s2ffo4s2gan3ey3gy0bogie3le3us2hea2ils3ng3te2lar4s3ds3es3ls3os3ts3us2mbe4s2nds3ed4r4s4y3go4s3ks3ne4y3us3ze2obs4y3ed0boogy3ks3ms4y3ns3rs3st3th4s4y3ze4y2ral4s4x3ed4r4s3ic3ne3on3ts4y4z2sks4y3om4n3sy3un2tas3ch0botel3hy3ts2ugh3le3nd3rg4n3se4y3ts2vid2wed4l4r3ls3se2xed4r4s2yar3la3os2zos1race4h4t3ds3es3gs3id4l0brain3ke4y3nd4k4s4t3sh4s3ts3va4e4i4o3wl4n4s3xy3ys3za4e2ead4k4m3de3ed4s3ns4t3ve3ws2iar0bribe3ck3de3ef4r4s3gs3ll3ms3ne4g4k4s4y3os3sk3ts4t2oad3ck3il3ke3me4o3nc3od4k4m4s3se4y3th0brown4s2ugh3in4t3me3nt3sh4k3te1ubal3by2cko4s2ddy3ge2ffi4o4s4y2ggy3le2hls3rs2ild4t2lbs3ge4y3ks4y3la0bulls4y2mfs3ph4s4y2nch4o3ds4t3gs3ko4s3ns4y3ts3ya2oys2ran4s3bs3ds3et3gh4s3in3ke3ls4y3ns4t3ps0burro4s4y3sa4e4t2sby3ed4s3hy3ks3ts4y2tch3eo3le3te4s4y3ut3yl2xom2yer1wana1ylaw2res3ls2ssi2tes2way0cabal3by0caber3in3le3ob2cao4s3he3ti2ddy3es4t3ge4y3is3re2eca2fes3fs2ged4r4s4y2how2ids3ns3rd4n2jon2ked4s4y2lfs0calif4x3ks3la4s3ms3ve3yx2mas3el4o4s3pi4o4s4y2nal3dy3ed4r4s3id3na4y3oe4n3so4t3to4s4y2ped0caper4s3hs3on4s3ut2rat3bo4s3ds3ed4r4s4t4x3go3ks3le4s3ns4y3ob4l4m3pi4s3rs4y3se3te4s3ve0casas3ed4s3ks4y3te4s3us2tch3er4s3ty2uld4k4s3se2ved4r4s3ie4l2wed1ease2bid2cal3um2dar3ed4r4s3is2iba0ceils2leb3la4i4o4s3om3ts2nse3to4s2orl2pes2rci3ed4s3ia4c3os2sta4i2tes1hads3fe4f3in4r3lk3mp4s3ng4t0chaos3pe4s4t3rd4e4k4m4r4s4t4y3se4m3ts3ws3ys2eap4t3ck3ek4p4r3fs3la3mo3rt3ss4t3th3vy3ws0chewy2iao4s3ck4o4s3de3ef4l3ld4e4i4l3mb4e4p3na4e4k4o4s3ps3rk4m4o4p4r3ts3ve4y2ock3ir0choke4y3lo3mp3ok3ps3rd4e3se3tt3ws2ubs3ck3fa4f3gs3mp4s3nk3rl4n4r3te2yle3me1ibol2der2gar2lia2mex2nch3es0cions2rca3es3ri2sco3sy3ts2ted4r4s2vet3ic4e4l3vy1lach4k3de4s3gs3im3mp4s3ng4k4s3ps4t3ro4y3sh4p0class4t3ve4i3ws3ys2ean4r4t3ek3fs4t3pe4t3rk3ws2ick3ff4t3mb4e3ne4g4k3ps4t2oak3ck3ds3gs3mb4p0clone4k4s3ot3ps3se3th4s3ud4r4t3ve3wn3ys3ze2ubs3ck3ed4s3mp3ng4k1oach4t3la4s4y3pt3st3ti4s2bbs0cobby3ia3le3ra2cas3ci3ks4y3oa4s2das3ec4d4n4r4s4x3on2eds2ffs2gon2hog4s2ifs3gn3ls3ns3rs2ked4s2las3ds0coled4s3ic4n3ly3og4n4r3ts3za2mae4l4s3be4o4s3er4s4t3fy3ic4x3ma4y3po4s4t3te2nch3do3ed4s0coney3ga4e4o3ic4n3ks4y3ns3te4o3us2och3ed4e4r4y3fs3ks4y3ls4y3mb3ns3ps4t3ts2pal3ed4n4r4s0copra3se2ral3by3ds3ed4r4s3gi3ia3ks4y3ms3ns4u4y3ps3se2sec4s4t4y3ie3ta4s2tan3ed4s3ta2uch3de3gh0could3nt3pe4s3rt3th2ved4n4r4s4t4y3in2wed4r3ls3ry2xae4l3ed4s2yed4r3ly3pu2zen4s4y3ie1raal3bs3ck0craft3gs3ke3mp4s3ne4k3pe4s3sh4s3te3ve3wl4s3ze4y2eak4m3do3ed4k4l4p3me3pe4t4y3ss4t3ws2ibs0crick3ed4r4s3me4p3pe3sp2oak3ci4k4s3ft3ne4y3ok4n3ps3re3ss3up3wd4n4s3ze2uck3de4s3el4t3mb4p0cruor3ra3se4h4t2wth2ypt1ubby3eb4d4r4s3ic4t2ddy2ffs2ifs3ng3sh2kes2lch3et4x3ls4y3ms3pa3ti4s2min2nts2pel0cupid3pa4y2rbs3ch3ds4y3ed4r4s4t3fs3ia4e4o3ls4y3ns3rs4y3se4t3ve4y2sec3hy3ks3ps3so2tch3er4s0cutey3ie4n4s3ty3up1yano4s2cad4s3le4o2der2lix2mae4r4s3es3ol2nic2sts2ton1zars0daces3ha2das3dy3os2ffs4y2gga3os0dahls2ily3ry3sy2les3ly2man4r3es3ns3ps2nce3dy3gs3io2rbs3ed4r4s3ic3ks4y3ns3ts2shi4y2ted4r4s3os3to3um0daube4s4y3nt3ts2ven3it2wed4n3ks3ns3ts2zed4s1eads3ir3ls4t3ns3rs4y3sh3th3ve2bar3it3ts3ug4t3ye2caf4l0decay3ks3or4s4y3ry2dal2eds4y3ms3ps3rs3ts2fat3er3is3og2gas3um2ice3fy3gn3ls3sm4t3ty2ked4s3ko2lay3ed4s0delfs4t3is3ls4y3ta3ve2mes3it3ob4n4s3ur2nes3im3se3ts2oxy2pot3th2rat4y3by3ma4s3ry2sex3ks2ter3ox2uce2vas0devel3il3on2wan4r4x3ed2xes3ie1haks3ls2obi3le3ti3ws2uti1ials3ry3zo2ced4r4s4y3ks4y3ot3ta4y2die3os3st2ene0diets2ght3it2ked4r4s4y2ldo3ls4y2mer4s3ly2nar3ed4r4s3ge4o4s4y3ks4y3ts2ode3ls2ppy3so2rer3ge3ks3ls0dirts4y2sci4o4s3hy3ks3me2tas3ch3es3sy3to4y3zy2van4s3ed4r4s3ot3vy2wan2xit2zen3zy1jinn4s1oats2bby3ie3la0dobra2cks2dge4y3os2ers3st3th2ffs2ges4y3go4y3ie3ma2ily3ng3ts2jos2lce4i3ed4s3ls4y3ma3or3ts2mal3ed4s3ic0donas3ee3ga4s3na4e3or3sy3ut2oly3ms4y3rs3zy2pas3ed4r4s4y2rks4y3ms4y3ps3rs3sa3ty2sed4r4s2tal3ed0doter4s3ty2ubt3ce3gh3ma4s3ra3se2ven4s2wdy3ed4l4r3ie3ns4y3ry3se2xie2yen3ly2zed4n4r4s1rabs3ff4t3gs0drail4n3ke3ma4s3nk3pe3ts3ve3wl4n4s3ys2ead4m4r3ck3ed4s3gs3ks3ss4t2ibs3ed4r4s3ft3ll4y3nk3ps0dript3ve2oit3ll3ne3ol4p3ps4t3ss3uk3ve3wn2ubs3gs3id3ms3nk3pe3se2yad3er3ly1uads3ls2cal4t3es3hy3ks4y3ts0duddy3ed4s2els3ts2ffs2its2ked4s2lia3ls4y3se2mas3bs3ka4y3my3ps4y2nam3ce4h3es3gs4y3ks3ts2omi4o2ped4r0dupes3le2ral4s3ed4s3ns3oc4s3ra4s3st3um2sks4y3ts4y2tch2vet1warf2eeb3ll4t2ine1yads2ers2ing2ked4s4y2nel4s0eager3le3re2red3ls4y3ns3th2sed4l4s3ts2ten4r2ved4s1bbed4t2ons4y1ched4s3os2lat2rus1dema2ged4r4s2ict3fy3le0edits2uce4t1erie1gads2ers3st2gar3ed4r2ret1ider3os2ght2kon1ject1king1lain3nd4s3te2bow2der2ect3gy3mi2fin2ide3nt3te2oin3pe0elude3te2ver4s1mbar4y3ed4r3ow2cee2eer3nd3ry3us2irs3ts2mer4t2ote2pty2yde4s1nact3te2ded4r3ow3ue2ema4y2joy2nui0enoki3ls3rm3ws2rol2sky3ue2ter3ia3ry2ure2voi4y2zym1osin1pact2ees2hah4s3od4r2ics2och3de3xy1qual3id4p1rase2ect2got2ica0ernes2ode3se2red3or2ses2uct3go3pt2vil1scar3ot2kar3er2say3es2ter3op1tape2her3ic3os3yl2nas2ude3is2wee2yma1uros1vade2ens4t0evert4y2ict3ls3te2oke1wers1xact3lt3ms2cel2ecs3rt2ile3ne3st3ts2ons2pat3el3os2tol3ra2ude3lt3rb1yers2ing2ras3es3ie4r0fable2ced4r4s4t3ia3ts2ddy3ed4r4s3ge3os2ena3ry2ggy3in3ot2ils3nt3rs4y3th2ked4r4s4y3ir2lls3se2med4s0fancy3es3ga4s3ny3on4s3um2qir2rad3ce4i4y3ds3ed4r4s3le4s3ms3os3ts2sts2tal3ed4s3ly3so3ty3wa2ugh3ld0fault3na4s3ve2vas3es3or3us2wns4y2xed4s2yed2zed4s1ears3se4t3ts3ze2cal3es3ks2eds3ls3ze2ign3nt3st2lid3la4s0felly3on3ts2mes3me3ur2nce3ds3ny2ods3ff2ral3es3ia3ly3mi3ns4y3ry2sse2tal4s3ch3ed4s3id3or3us2uar3ds3ed2ver0fewer2yer3ly2zes1iars3ts2ber3re2ces3he4u3in3us2dge3os2efs3ld3nd3ry2fed4r4s3th4y2ght2lar3ch3ed4r4s4t3le0fillo4s4y3ms4y3os3th3um2nal3ch3ds3ed4r4s3is3ks3ny3os2ord2que2red4r4s3ms3ns3ry3st3th2scs3hy3ts2tch0fitly2ver4s2xed4r4s3it2zzy1jeld2ord1labs3ck3gs3il4r3ke4y3me4s4y3nk4s3ps3re3sh4k3ts3ws4y3xy3ys2eam0fleas3ck3er4s4t3sh3ws3ys2ick4s3ed4r4s3ng4t3ps3rt3te4s2oat3ck4s3es3gs3ng3od4r3ps3ra3ss3ta3ur0flout3wn4s2ubs3ed4s3ff3id3ke4y3me4p3ng4k3or3sh3te4y3yt2yby3er3te1oals3ms4y2cal3us2ehn2gey3gy3ie2hns0foils3ns3st2lds3ia4o3ks4y3ly2nds4u3ts2ods3ls3ts4y2ram4y3bs4y3ce3do4s3es3ge4o3ks4y3me4s3te4h0forts4y3um2ssa4e2uls3nd4t3rs2vea2wls2xed4s2yer1rags3il3me3nc4k3ps3ss3ts3ud3ys2eak3ed4r4s3md3na3re3sh0frets2iar3ed4r4s3gs3ll3se4k3th4s4t4z3zz2ock3es3gs3nd4s4t3re3sh4t3th3wn4s3ze2ugs3it3mp2yer1ubsy0fucks3us2dge2els2gal3gy3io3le3ue4s2jis2lls4y2med4r4s4t2ndi4s3gi4o3ks4y3ny2ran3ls3or3ry3ze4y2sed4e0fusel4s3il3sy3ty2ton2zed4e4s3il3zy1yces2kes2tte0gabby3le2ddi3id4s2ffe4s2ged4r4s2ily3ns3ts2lah4s4x3ea4s0galls4y3op2mas4y3ba4e4s3ed4r4s4y3ic4n3ma4y3ps3ut2nef4v3gs3ja3of2ols2ped4r4s3py2rbs3ni3th2ses0gasps3sy3ts2ted4s3or2uds4y3ge3lt3ms3nt3rs3ss3ze4y2vel3ot2wks4y3ps3sy2yal3er3ly2zar3ed4r4s1ears2cko4s0geeks4y3se4t2lds3ee3id3ts2mma4y3ot2nes4t3ic4e4i4p3oa4m3re4o3ts3ua4s2ode3id2rah3ms4y2sso3te4s0getas3up2ums1hast3ts3ut3zi2ees2ost3ul2yll1iant2bed4r4s2ddy2fts2gas3he3ot3ue2lds3ls4y3ts2mel3me3ps4y2nks3ny2pon0gipsy2rds3ls4y3ns3on4s3sh3th4s2smo3ts2ven4r4s2zmo1lace3de4s4y3ir3nd4s3re4y3ss3ze4y2eam4n3ba4e0glede4s3ed4k4s4t3ns3ys2ial4s3de3ff3me4s3nt3tz2oam4t3be4s3gg3ms3om3ps3ry3ss4t3ut3ve3ws3ze2ued0gluer4s4y3gs3me3on3ts2yph1narl4r4s3sh3ts3wn4s2ome1oads3ls3ts2ban3os2det3ly2ers2fer2gos2ing2lds3em3fs3ly2mbo0gonad3ef4r3gs3ia4f3of3zo2ods4y3ey3fs4y3ks4y3ns4y3ps4y3se4y2ral3ed4s3ge3ps3se4y2uge3rd3ts4y0gowan3ds3ks3ns2xes2yim1raal3bs3ce3de4s3ft3il4n3ma4p4s3na4d4s4t3pe4h4y3sp4s3te3ve4y3ys3ze2eat0grebe3ed4k4n4s4t3go3ys2ide4s3ef3ff4t3gs3ll3me4y3nd4s3ot3pe4s4t4y3st3th4s2oan4t3gs3in3om0grope3ss4z3ts3up4t3ve3wl4n4s2ubs3el4s3ff3me4p3nt1uaco3no4s3rd4s3va2cks2des2ess4t2ffs2ide4s3ld4e0guilt3ro3se2lag4r3ch3es3fs4y3ls4y3ps4y2mbo3ma4y2nks4y3ny2ppy2rge3ry3sh3us2shy3sy3to4s4y2tsy3ta4y0guyed3ot1ybed4s2psy2ral3ed4s3on4s3us2ved4s0haafs3rs2bit3us2cek3ks2dal3ed4s3ji3st2ems3ts2fis4z3ts2has2ika4s0haiku3ls3rs4y2jes3is3ji2kes3im2led4r4s3id3lo4s3ma4s3os3ts3va4e2mal3es3my3za2nce3ds4y3gs3ks4y3sa0hanse3ts2ole2pax3ly3py2rds4y3ed4m4s3ks3ls3ms3ps4y3ry3sh3ts2sps3te4y2tch3ed4r4s2ugh3lm4s3nt3te2ven0haver4s3oc2wed3ks3se2yed4r2zan3ed4l4r4s1eads4y3ls3ps3rd4s4t3th4s3ve4y2bes2cks2der3ge4y2eds3ls3ze0hefts4y2igh3ls3rs3st2lio4x3lo4s3ms3os4t3ps3ve2mal3es3ic4n3ps4y2nce3na3ry3ts2rbs4y3ds3es3ls3ma4s0herns3on4s3ry3tz2sts2ths2uch3gh2wed4r2xad3ed4r4s3yl1icks2ded4r4s2ghs4t2ked4r4s2lar3lo4s4y3ts3um4s0hinds3ge3ny3ts2ppo4y2red4r4s2ssy3ts2tch2ved4s1oagy3rd4s4y2bby3os2cks3us2dad2ers2gan3gs2ick3se4t2ked4s4y0hokku3um2lds3ed4s4y3ks3la4o4y3ms3ts2med4r4s4y3os2nan3da3ed4r4s4y3gs3ks4y3or2och3ds4y3ey3fs0hooka4s4y3ly3ps3ts4y2ped4r4s3py2rah4l4s3de3ns4y3se4t4y2sed4l4n4s3ta4s2tch3el3ly2und3ri4s0house2vel4r2wdy3es3ff4s3ks3ls2yas3le1ubby2cks2ffs4y2ger2las3ks4y3lo4s2man3ic4d3or3ph4s4y3us2nch3ks4y0hunts2rds3ls4y3ry3st3ts2sks4y3sy2tch2zza1ydra4o2ena2ing2las2men3ns2oid2ped4r4s3ha3os2rax2son0iambi4s1chor2ier3ly0icing2ker2ons2tic3us1deal4s2iom4t2led4r4s2ols2yll4s1gloo3us1hram1kats2ons1leac4l3um4s2iac4d4l3um2ler1mage4o3ms0imaum2bed3ue2ide4o4s3ne4o2mix2ped4l3is3ly1nane3pt3rm2bye2cog3ur4s2dex3ie3ol4w3ri3ue2ept3rt2fer3ix3os3ra0ingle3ot2ion2ked4r3le2lay3et2ned4r2put2set2ter3is3ro2ure4n2var1odic4d4n2nic2tas1rade3te2ids3ng2ked2oko3ne4s4y0isbas2led4s4t2sei3ue2tle1tchy2ems2her1vied4s2ory1xias2ora2tle1zars0jabot2cal3ks4y2ded4s2ger3gs4y3ra2ils2kes2lap3op2mbe0jambs3my2nes3ty2pan3ed4r4s2rls2tos2uks3nt3ps2vas2wan3ed2zzy1eans2bel2eps3rs2fes2had3us2lls4y2mmy2nny2rid3ks4y3ry0jesse3ts2tes3on3ty2wed4l1ibbs3ed4r4s2ffs4y2had2lls3ts2mmy3py2ngo3ks3ni4s2sms2ved4r4s4y1nana1ocko4s2eys2hns0joins4t3st2ked4r4s4y2les3ly3ts4y2nes2ram3um2tas3ty2ual3ks3le3st2war3ed3ls4y2yed1ubas3es2das3ge3os2gal3um0juice4y2jus2ked4s2lep2mbo3ps4y2nco3ks4y3ta4o2pes3on2ral4t3el3or2sts2tes3ty0kabab4r3ob2dis2fir2gus2iak3fs3ls0kains2kas3is2lam3es3if3pa2mes3ik2nas3es3ji2ons2pas3hs3ok3pa3ut2rat3ma3ns3oo3st3ts2sha2tas2uri4y2vas2yak3os2zoo0kbars1ebab4r3ob2cks2dge2efs3ks3ls3ns3ps3ts3ve2fir2irs2lep3im3ly3ps4y2mps4t2naf3ch3do3os2pis2rbs3fs3ne4s3ry0ketch3ol2vel3il2xes2yed1hadi3fs3ki3ns3ph3ts2eda3th4s2oum1iang2bbe4i3ei4s3la2cks4y2ddo4y2efs3rs2kes2lim3ls3ns0kilos3ts4y2nas3ds3es3gs3in3ks4y3os2osk2rks3ns2ssy3ts2ted4r4s3he4s3ty2vas2wis1long3of2uge3tz1nack3ps3rs3ur0knave2ead3ed4l4s3ll4t2ife3sh3ts2obs3ck3ll3ps3sp3ts3ut3wn4s2url4s1oala3ns2els2hls2ine2las3os2nks2oks4y2pek0kophs3je3pa2rai4t3un2tos4w1raal3ft3it3ut2eep2ill2ona4e3on2ubi1udos3us3zu2gel2kri2lak2mys2rta3us2sso1vass1yack3ks3rs0kyats2lix2rie2tes3he0laari2bel3ia3or3ra2ced4r4s4y3ks2ded4n4r4s3le2evo2gan3er2har2ich4s3gh3rd4s3th4y2ked0laker4s3hs2lls2mas3bs4y3ed4r4s3ia3ps2nai3ce3ds3es3ky2pel3in4s3se2rch3ds4y3ee4s3ge4o3is3ks4y3um0larva2sed4r4s3so3ts2tch3ed4n4r4x3he4i4s4y3ke3te2uan3ds3gh3ra2vas3ed4r4s2wed3ns4y2xer3ly2yed4r0layup2zar3ed4s1each3ds4y3fs4y3ks4y3ns4t3ps4t3rn4s4y3se4h4t3ve4y2ben2dge4y2ech3ks3rs4y3ts2fts0lefty2gal3er4s3gy3it2hrs3ua2man3ma3on3ur2nds3es3is3os3se3to2one2per3ta2tch3he3up2uds2vee4l4r3in2wis2xes3is0lezzy1iana4e4g3rd4s2bel4r3ra4i2chi4t3it3ks2dar3os2ege3ns3rs3us3ve2fer3ts2gan3er3ht2ked4n4r4s2lac3ts0liman4s3ba4i4o4s4y3ed4n4s4y3it3ns3os3pa4s2nac3dy3ed4n4r4s4y3ga4o4s4y3in3ks4y3ns3os0lints4y3um2ons2pid4n3py2ras3ot2sle3ps3ts2tai4s3er3he4o3re2ved4n4r4s3id3re1lama3no1oach3ds3fs3ms4y3ns0loath2bar3by3ed4s3os2cal3hs3ks3os3um4s2den4s3ge2ess2fts4y2gan3es3gy3ia4c3oi4s2ins2lls4y2ner3ge4s2oby0looed4y3fa4s3ie3ks3ms3ns4y3ps4y3se3ts2ped4r4s3py2ral4n3ds3es3is3ry2sel4r4s3sy2tah4s3ic3os3te0lotto3us2ugh3ie4s3pe4s3rs4y3se4y3ts2vat3ed4r4s2wed4r4s3ly3se2xed4s2yal1uaus2bes2ces3id3ks4y3re2des0ludic2ffa4s2ged4r4s2lls3us2men3ps4y2nar4s3ch3es4t3ge4i4s3ks3ts2pin3us2rch3ed4r4s3id3ks2sts4y3us0lutea4d4s2xes1weis1yard4t3se2cea4e2ing2mph2nch2res3ic2sed4s3in4s3sa2tic3ta0maars2bes2caw3ed4r4s3he4o4s3ks0macle3on3ro2dam3ly3re2fia4c2ges3ic3ma3ot3us2hoe2ids3le4l4s3ms3ns3rs3st3ze2jor2kar3er4s3os2lar3es3ic3ls0malms4y3ts4y2mas3ba4o3ey3ie3ma4y2nas3ed4s3ge4o4y3ia4c3ly3na3or4s3se3ta3us2ple2qui2rch4s3es3ge0maria3ks3ls4y3ry3se4h3ts3vy2ser3hy3ks3on3sa4e4y3ts2tch3ed4r4s4y3hs3in3te4s3za4o2uds3ls3nd3ts0mauve2ven3ie4n4s2wed2xes3im4s2yan4s3be3ed3or4s3st2zed4r4s1bira1eads3ls4y3ns4t4y3ts4y2cca2dal3ia4c0medii2eds3ts2iny2lds3ee3ic3ls3on3ts2mos2nad3ds3sa4e3ta3us2ous3ws2rcy3de3er4s3ge3it3ks3le4s3ry2sas3hy3ic0mesne3on3sy2tal3ed4r4s3hs3is3re4o2wed3ls2zes3zo1iaou4w3sm3ul2cas3he3ks3ra4o2ddy3ge3is3st2ens2ffs4y2ggs0might2ked4s3ra2lch3er4s3ia3ks4y3le4s3os3pa3ts4y2med4o4r4s3ic2nae4s3ce4y3ds3ed4r4s3gy3im4s0minke4s3ny3or3ts4y3us2red4s4x3ks4y3th3za2sdo3er4s3os3sy3ts4y2ter4s3is3re3ts2xed4r4s3up2zen1oans0moats2cha3ks2dal3el4m4s3us2ggy3ul2hel3ur2ils3ra4e3st2jos2kes2lal4r4s3ds4y3es3ls4y3to4s2mes3ma4y3us0monad4s3de4o3ey3go3ie3ks3os3te4h2och3ds4y3ed3la4s3ns4y3rs4y3se3ts2ped4r4s4y2rae4l4s4y3el0mores3ns3on3ph3ro3se3ts2sey3ks3so4y3te4s2tel4s4t4y3hs4y3if3or3te4o4s2uch3es3ld4t3nd4t3rn3se0mousy3th2ved4r4s3ie2wed4r2xas3ie2zos1ucid4n3ks4y3or3ro3us2ddy3ra2ffs3ti2ggs4y2hly2jik2lch4t3ed4s4y3la0mulls2mms4y3ps3us2nch3go3is2ons2ral4s3ed4s4x3id3ks4y3ra4e4s4y2sca3ed4r4s3hy3ic3ks4y3sy3th4s0musty2tch3ed4r4s3on3ts2zzy1ynah4s2oid3ma3pe4y2rrh2sid2ths4y0naans2bes3is3ob2cho3re2das3ir2evi2ggy2iad3fs3ls3ra0naive2ked2led2med4r4s2nas3ce4y3ny2pes3pe4y2rco4s3ds3es3ic4s3ks4y2sal3ty2tal3ch3es3ty2val4r3el4s3vy0nawab2zis1eaps3rs3th4s2cks2eds4y3ms3ps2gus2ifs3gh3st2lly2mas2ons2rds4y3ol3ts4z3ve4y2sts2top3ts4y2uks3me4s0never4s3us2wel4r3ie3ly3sy3ts2xus1gwee1icad3er3he3ks3ol2dal3ed4s3us2ece3ve2fty2ghs4t2hil2lls2mbi2nes3ja3ny3on0ninth2pas3py2sei3us2ter4s3id3on3re4o3ty2val2xed4s3ie2zam1obby3le4y2cks2dal3dy3es3us2els2ggs2how2ils4y3rs3se0noisy2los2mad4s3en4s3oi4s2nas3ce3es4t3yl2oks4y3ns3se2pal2ria4s3ms3th2sed4s4y2tal3ch3ed4r4s3um2uns0novae4s3el2way3ts1ubby3ia2cha2der4s3ge3ie3zh2ked4s2lls2mbs3en2rds3ls3se2tsy3ty1yala2lon2mph0oaken3um2red2ses3is3ts0oaten4r3hs2ves1beah3li3se3ys2ias3ts2jet2oes3le4i4s1ccur2ean2her3re4y2ker2rea2tad4l4n3et3yl2uli1dder3ly2eon3um0odist3um2ors3ur2yle4s1fays2fal3ed4r2ten4r1gams2ees2ham2ive2led4r4s2res1hias3ng2mic1idia2led4r2nks1kapi3ys2ehs2ras1lden0older3ie2eic4n3os3um2ios3ve2las2ogy1masa2ber3re2ega3ns3rs2its1nery2ion3um2set2tic1ohed2mph2rie2tid2zed4s1pahs3ls2ens3ra0opine4g3um2sin2ted3ic1rach3ls3ng3te2bed3it2cas3in2der3os2ead2gan3ic2ibi3el2les3op2mer2nis2pin2ris2tho2zos1sier2mic3ol0ossia2tia1ther2tar3er3os1ught2nce2phe4s2rie2sel3ts2tby3do3ed4r3go3re2zel3os1vals3ry3te2ens3rs4t2ine2oid3li4o2ule0owing2let2ned4r2sen1xbow2eye2ide4s3me4s2lip2ter1yers1zone0pacas3ed4r4s3ha3ks3ts2ddy3is3le3re4i2ean3on2gan3ed4r0pages3od2iks3ls3ns4t3rs3sa4e2lea4d4r4s4t3ls4y3ms4y3pi4s3sy2mpa2nda4y3ed4l4s3ga4s3ic3ne3sy0panto4s4y2pal4s4w3er3pi4y2ras3ch3di4s4y3ed4o4r4s4u3ge4o3is3ka4s3le3ol3rs4y3se3ts4y3ve0parvo2seo4s3ha3se3ta4e4s4y2tch3ed4n4r4s3hs3in4o3ly3sy3ty2use2van3ed4r4s3id4n4s2wed4r3ky3ls0pawns2xes2yed4e4r3or1eace4h3ge4s3ks4y3ls3ns3rl4s4t3se3ts4y3vy2can3hs3ks4y2dal3es3ro2eks3ls3ns3ps0peers4y3ve2ins3se2kan3es3in3oe2les3fs3on3ts2nal3ce3ds3es3go3is3na4e4i4y2ons4y2pla3os3py2rch3du4y3ea0peril4s3ks4y3ms3ry3se2sky3os3to4s4y2tal3er3it3ti4o4y2wee3it1hage3se2ial2lox2one4o4s4y3to4s2pht2uts0phyla4e1iano4s2bal2cal4s3ks4y3ot3ul2ece3rs3ta4y2ggy3my2ing2kas3ed4r4s3is2laf4r4u4w3ea4d4i4s3is0pills3ot3us2mas3ps2nas3ch3ed4s4y3go4s3ko4s4y3na4y3on4t3ta4o4s3up2ons3us2pal3ed4r4s4t3it2que0pirns3og2sco3os3te2tas3ch3hs4y3on2vot2xel4s3ie2zza1lace4k3ge3id4n4t3ne4k4s4t3sh4m3te4s4y3ya4s0plaza2ead4s4t3be4s3na3ws2ica3ed4r4s3nk2ods3nk3ps3ts4z3ws3ys2uck3gs3mb4e4p4s4y3nk3sh2yer1oach2cks0pocky2dgy3ia2ems3sy3ts2gey2ilu3nd4t3se2ked4r4s4y2lar3ed4r4s3io4s3ka3ls3os3yp4s2mes3my3ps2nce3ds3es0pongs2och3ds3fs4y3hs3ls3ns3ps3ri3ve2pes3pa4y3sy2rch3ed4s3gy3ks4y3no4s4y3ts2sed4r4s3it3se3ts2tsy0potto4y2uch3ff4s3lt3nd3rs3ts4y2wer2xed4s2you1raam3hu3ms3ng4k3os3se3te4s3us3wn3ys2eed4n4s3ps3sa4e0press4t3xy3ys2ice4k4y3de3ed4r4s3gs3ll3ma4e4i4o4p4s3nk4t3on4r3se4m4s3vy3ze2oas3be3ds3em0profs3gs3le3mo4s3ne4g3of3ps3se4o4s4t4y3ud3ve3wl4s3xy2ude3ne3ta2yer1salm2eud2haw2oae4i4s2ych1ubes3ic0pubis2ces3ka4s2dgy3ic2ffs4y2ggy2jah4s2ked4s3ka2led4r4s3ik4s3ls3ps4y3se2mas3ps2nas3ch3gs3ka4s4y3ny0punto4s4y2pae4l4s3il3py2rda3ee4r3ge3in4s3ls3rs3se4y2ses3hy3sy2ton3ti4o4s4y1ygmy2ins2lon2oid2ran3es0pyric2xes3ie4s0qaids2nat1ophs1uack3ds3ff3gs3il4s3ke4y3le4m3nt3re4k4t3sh4i4s3te3ys2ean3en4r3ll3rn4y0quest3ue3ys2ick3ds3et3ff3ll4t3ns4t3ps4u3re4k4t3te4s2ods3in4t3ta4e4h2rsh0rabat3bi3ic4d2ced4r4s0racks3on2dar3ii4o4x3on2ffs3ts2gas3ed4e4s3gy3is2ias3ds3ls3ns4y3se2jah4s3es2ked4e4r4s3is2les3ly3ph0ramee4t3ie3my3ps3us2nce4h3ds4y3ee3ge4y3id4s3ks3ts2ped4r4s3he3id2red4r4s2sed4r4s3ps4y2tal4n0ratch3ed4l4r4s3he3io3os3ty2ved4l4n4r4s3in2wer3in3ly2xed4s2yah4s3ed3on2zed4e4r4s3or1each4t3dd0reads4y3lm4s3ms3ps3rm4s3ta3ve2bar3be3ec4l3id3op3us4t4y2cap3ce3ks3on3ta4i4o3ur4t2dan3ds3ed4s0redia4d4p3ly3on4s4x3ry3ub4x3ye2eds4y3fs4y3ks4y3ls3st3ve2fed4l4r3it4x3ly3ry2gal3es3ma3na2hab0rehem2ifs4y3gn3nk4s3ve2key2lax4y3et3ic4t2man4p3et4x3it4x2nal3ds3ew3ig4n3te4s2oil2pay3eg4l3in3ly0repos4t3ps3ro2ran3ig3un2saw4y3ee4t4w3id4n3od4w3ts2tag4x3ch3em3ia4e3ro4y2use2vel4t3ue2wan4x3ed0rewet3in3on2xes1heas3um2ino2omb2umb2yme3ta1ials3nt3ta2bby3es2ced4r4s3in3ks2der4s3ge4y2els2fer3fs3le3ts2ght3id0rigor2led4s4y3le4s2med4r4s2nds3gs3ks3se2oja3ts2ped4n4r4s2sen4r4s3hi3ks4y3us2tes3zy2val3ed4n4r0rives4t2yal1oach3ds3ms3ns3rs3st2bed4s3in3le3ot2cks4y2deo2ger3ue2ils4y2les3fs3ls2man3eo3ps2ndo2ods3fs3ks4y0rooms4y3se4t3ts4y2ped4r4s4y2que2sed4s4t3in2tas3ch3es3is3ls3or4s3te2uen4s3ge4h3nd3ps4y3se4t0route4h4s2ved4n4r4s2wan3dy3ed4l4n4r3th2yal1uana2bes3le3us2che3ks2dds4y3er2ers2ffe4s2gae4l3by2ing4s0ruled4r4s2mba3en3my3or3ps2nes3gs3ic3ny3ts4y2pee2ral2ses3hy3ks3ts4y2ths3in3ty1yked4s2nds2ots0sabed4r4s3in0sabir3le3ot3ra4e2cks3ra2des3he4u3is3ly2fer4s2gas3er4s3gy3os3um2hib2ice3ds3ga3ls3ns4t3th2jou2ker4s3is0salad4l3ep4s3ic3ly3mi3ol4n3pa4s3sa3ts4y3ve4o2mba4o3ek3ps2nds4y3ed4r4s3ga4h3to2pid3or3py2ran0sards3ee3ge3in4s3ks4y3od4s2sin3sy2tay3ed4m4s3in4s3yr2uce4h4y3gh3ls4t3na3ry3te2ved4r4s3in3or0savoy3vy2wed4r2xes2yer3id3st1cabs3ds3gs3ld4e4l4p4y3mp4s3ns4t3pe3re4f4p4s4t4y3ts4t3up4r2ena0scend4e4t2hav3mo3ul3wa2ion2off3ld3ne3op4t3pe4s3re4n3ts3ur4t3wl4s2rag4m4p3ee4w3im4p3od3ub4m0scuba3di4o4s3ff3lk4l4p3ms3ps3rf3ta4e4s1eals3ms4y3rs3ts2bum2cco3ts2dan3er3ge4y3um2eds4y3ks3ls4y0seems3ps4y3rs2gni4o3os3ue2ifs3ne3se4m3ze2lah3fs3le4s3va2men4s3is2nds3gi3na3or3sa4e3te4i2pal3ia4c0sepoy3ta4s2rac4i4l3ed4r4s3fs3ge3if4n3ow3ry3um3ve4o2tae4l3on3ts3up2ven4r2wan4r3ed4r2xed4s3to0sexts1hack3de4s4y3ft3gs3hs3ke4o4y3le4l4t4y3me4s3nk3pe3rd4e4k4n4p3ul3ve3wl4m4n4s3ys2eaf0sheal4r4s3ds3en4p4r4t3ik3lf4l3nd4t3ol3rd3wn4s2ied4l4r4s3ft3ll4y3ms3ne4s4y3ps3re4k4r0shirt3st3ts3va4e4s2lep2oal4t3ck3ed4r4s3gs3ji3ne3ok4l4n4s4t3ps3re4l4n4t3te4s4t3ut3ve3wn0shows4y3yu2red4w3is3ub4g2tik2uck3ln4s3ns4t3sh3te4s2yer3ly1ials2bbs3yl2ces3ko4s2ded4s3le2ege3ur3ve2fts0sighs4t3il3ma3ns2ker4s2lds3ex3ks4y3ls4y3os3ts4y3va2mar4s3ps2nce3es4w3ge4s3hs3ks3us2ped4s2red4e0siren4s3ra3up2sal3es3sy2tar3ed4s3up4s2ver2xes3mo3te4h4y2zar3ed4r4s1kags3ld3te4s2ean3ed4n4s4t3gs0skein3lm4p3ne3ps3ws2ids3ed4r4s4y3ff3ll3mo4p4s3nk4s4t3ps3rl4r4t3te4s3ve2oal3sh2uas3lk4l3nk0skyed4y1labs3ck3gs3in3ke3ms3ng4k4t3ps3sh3te4s4y3ve3ws3ys2eds3ek4p4t3pt3ws2ice4k3de3er3ly3me4s0slimy3ng4k3pe4s4t3ts2obs3es3gs3id3jd3op3pe4s3sh3th4s3ws3yd2ubs3ed4s3ff3gs3mp4s3ng4k3rb4p4s0slush3ts2yer3ly3pe1mack3ll4t3rm4t3sh3ze2ear3ek3ll4t3rk3ws2ile3rk3te4h2ock3gs3ke4y3lt3te2uts1nack3fu3gs0snail3ke4y3ps3re4k4l3sh3th3ws2eak4p3ck3ds3er3ll2ibs3ck3de3ff3pe4s3ts2obs3gs3od4k4l4p4t3re4t0snots3ut3ws4y2ubs3ck3ff3gs2yes1oaks3ps4y3rs3ve2ber2cko4s3le2das3dy3ic3om2far4s3ta4s4y2ggy2ils2jas2kes3ol0solan4r3di4o3ed4i4s3id3on4s3um4s3ve2mas2nar3de3es3gs3ic3ly3ny3sy2oey3ks3th4s4y2phs4y3or3py2ras0sorbs3ds3el4r4s3go3ns3ry3ts3us2ths3ol2ugh3ks3ls3nd3ps4y3rs3se3th2war3ed4r2yas3uz2zin1pace4y3de4o3ed0spaes3hi3il4t3ke3le4l3ng4k4s3re4k4s3sm3te4s3wn3ys2eak4n4r3ck4s3ed4l4r3il4r3ll4t3nd4t0sperm3ws2ica4e4k4s4y3ed4l4r4s3ff3ke4s4y3le4l4t3ne4s4y3re4t4y3te4s4z3vs2lat4y3it2ode0spoil3ke3of4k4l4n4r3re4t3ts3ut2rag4t4y3ee3ig4t3ue4g2uds3ed4s3me4y3nk3rn4s4t3ta1quab4d4t0squaw3eg3ib4d1tabs3ck3de3ff3ge4s4y3id4g4n4r3ke3le4k4l3mp3nd4e4g4k3ph3re4k4s4t3sh3te4s0stave3ys2ead4k4l4m3ed4k4l4p4r3in3la4e3ms3no3ps3re4n3ts3ws2ich4k3ed4s3ff3le4l4t3me4y3ng0stink4t3pe3rk4p4s2oae4i4s4t3bs3ck3gy3ic3ke3le3ma4p3ne4y3od4k4l4p3pe4s4t3re4k4m4y3ss0stoup4r4t3ve3wp4s2rap4w4y3ep4w3ia4p3op4w4y3um4t2ubs3ck3ds4y3ff3ll3mp4s3ng4k4s4t3pa4e0sturt2yed4s3le4i3my1uave2bah4s3er2cks3re2dds3or3sy2ede3rs3ts4y2gar3hs2ing4t3te4s2lci3fa4o3ks4y3ly3us0sumac3ma3os3ps2nna4s4y3up2per4s3ra2rah4l4s3ds3er3fs4y3ge4y3ly3ra2shi2tra3ta1wabs3ge4s3il4n3le3mi0swamp4y3ng4k4s3ps3rd4e4f4m4t3sh3th4s3ys2ear4t3de3ep4r4t3ll3pt2ift3gs3ll3ms3ne4g4k3pe3rl0swish4s3th3ve2obs3on4p3ps3rd4e4n3ts3un2ung1ycee4s2kes2lis3ph3va2nch4s3od3th2phs2ren3up2sop0tabby3er4s3id0tabla4e3oo4r3un4s2ces4t3he4s3it3ks4y3os3ts2els2ffy3ia2hrs2iga3ls3ns4t2jes2ken4r4s3in2lar4s3cs3er0tales3ks4y3ly3on3uk4s2mal3ed4r4s3is3my3ps2ngo4s4y3ka4s3sy3to2pas3ed4r4s3ir4s2rdo4y3ed4s3ge0tarns3oc4k4s4t3ps3re4y3si3ts4y2sks3se3te4y2tar3er4s3ty2unt3pe3ts2wed4r3ie3ny3se2xed4r4s3is3on0taxus2zza4e1each3ks3ls3ms3rs4y3se3ts2chy3ta2ddy2els3ms3ns4y3th2ffs2gua2iid3nd2lae3es4x3ia4c3ls4y3oi4s0tempi4o4s4t2nch3ds3et3ia3on4r3se3th4s4y2pal4s3ee3id3oy2rai3ce3ga3ms3ne4s3ra4y3se2sla3ta4s4y0teths3ra2uch3gh2wed2xas3ts1hack3ne4k3rm3ws2ebe3ca3ft3gn3in4r3me3ns3re4m3se3ta3ws4y2ick3ef3gh3ll3ne4g0think4s3ol3rd4l2ole3ng3rn4o4p3se3us2raw3ee4w3ip3ob4e4w3um2uds3gs3ja3mb4p3nk3rl3ya2yme4i4y1iara0tibia2cal3ks2dal3ed4s2ers2ffs2ger3ht3on2kes3is2lak3de3ed4r4s3ls3th4s2med4r4s3id2nct3ea4d4s3ge4s3ny0tints2pis3py3sy2red4s3ls3os2tan3er3he3is3le3re3ty2zzy1oads4y3st2day3dy2ffs4y3ts3us2gae4s3ue2ile4s3ts2kay0toked4n4r4s2lan4s3ed4s3ls3us3yl2man3bs3es3my2nal3di4o3ed4r4s4y3ga4s3ic3ne3us2ols3ns3th4s2paz0toped4e4r4s3he4i4s3ic4s3oi4s2que2rah4s3ch4s3es3ic4i3os4t3se4i4k4o3te4s3us2tal3ed4m4r0totes2uch3gh3rs3se3ts2wed4l4r3ie3ns4y2xic4n2yed4r3on4s1race4k4t3de3gi3ik4l4n4t3mp4s3nk4q4s0traps4t3sh4s3ve3wl3ys2ead4t3ed4n4s3ks3nd3ss3ts3ws3ys2iac4d4l3be3ce4k3ed4r4s3go4s3ke3ll3ms0trine3ol4s3pe4s3te2oak3ck3de3is3ke3ll3mp3na4e3op4z3pe3th4s3ut3ve3ws3ys2uce4k3ed4r4s3gs3ll4y0trump3nk3ss4t3th2yma3st1sade4i3rs2ked2uba1ubae4l4s3by3ed4r4s2cks2fas3fs3ts4y2les3ip3le2mid3my3or3ps2nas0tuned4r4s3gs3ic3ny2pik2que2rbo3ds3fs4y3ks3ns3ps2shy3ks2tee3or3ti4y3us2xes2yer1waes3in3ng3ts2eak3ed4n4t0twerp2ice3er3gs3ll3ne4s4y3rl4p3st3ts3xt2yer1yees3rs2ing2kes2ned4s2pal3ed4s4y3ic3os3ps2red4s3os2the1zars0udder1hlan1kase1lama3ns2cer2ema2nad4e4r4s2pan2tra2vas1mbel4r3os3ra2iac4k4q2ped1nais3pt3rm4y3us2ban4r3id3ox2cap0uncia3le3os4y3us4t2dee4r3id3ue2fed3it4x2got2hat3ip2ify3on3te4s4y2lay3ed4t3it2man3et4w3ix2peg4n3in0unrig4p2say3et4w4x2tie4l2wed3it3on2zip1pbow3ye2dos3ry2end2lit2ped4r2set1raei3re4i3se3te2ban3ia2eal4s3do3ic0urged4r4s2ial3ne2sae1sage2ers2her2ing2nea2que2ual3rp4y1teri2ile2ter1veal4s2ula0vacua2gal3ue4s2ils3rs2kil2les4t3id3or0valse3ue3ve2mps2nda3ed4s3gs2pid3or2ras3ia4x3na3us3ve2sal3es3ts4y2tic3us2ult3nt1eals4y2ena3ps3rs4y2gan3ie0veils3ns4y2lar3ds4t3um2nae4l3ds3ge3in3om3ts3ue2rbs3ge3se4o4t3ts4u3ve2sta4s2tch2xed4r4s3il1ials3nd0vibes2car3ed4s3hy2deo2ers3ws4y2gas3il3or2ler3la4i4s2men2nal4s3ca3ed4s3ic3os3yl2ola4s2per2ral3eo4s3ga0virid3ls3tu3us2sas3ed4s3it3or3ta2tae4l3ta2vas3id2xen2zir3or1ocal3es2dka3un2gie3ue2ice3ds3la4e2lar3ed4s3ta0volte4i4s3va2mer3it2ted4r4s2uch2wed4l4r1room3uw3ws1uggs4y3hs2lgo3va1ying0wacke4o4s4y2ddy3ed4r4s3is2fer0waffs3ts2ged4r4s3on2hoo2ifs3ls3ns3rs3st3ts3ve2ked4n4r4s2led4r4s3ks3la4s4y3tz2mes3us2nds3ed4s4y0wanly3ts2rds3ed4s3ks3ms3ns3ps3ts4y2shy3ps4y3te4s2tap3ch3er3ts2ugh3ks3ls2ved4r4s4y2wls2xed4n4r4s0weald4s3ns3rs4y3ve2bby3er2cht2del3ge4y2eds4y3ks3ns4y3ps4y3st3ts2fts2igh3rd4s2kas2lch3ds3ls4y3sh3ts0wench3ds3ny2sts2tly1hack3le3mo4s3ng3ps3rf3ts3up2eal4t3el4n4p3lk4m4p3ns3re3ts3ws3ys2ich3ds3ff3gs3le0whims3ne4s4y3ps4t3rl4r4s3sh4k4t3te4s4y3zz2ole3mp3of4p3ps3re4l4t3se4o2ump1icks2ddy3en4r4s0widow3th2eld2fed4s3ty2gan3gy3ht2lco3ds3ed4s3ls4y3ts2mps4y2nce4h3ds4y3ed4s4y3gs4y3ks3os3ze2ped4r0wipes2red4r4s3ra2sed4r4s3ha3ps4y3ts2tan3ch3ed4s3he4y3ty2ved4r4s2zen4s1oads3ld2dge2ful2ken2lds3fs2man0wombs4y3en2nks4y3ts2ods4y3ed4r3fs3ls4y3ps3sh3zy2rds4y3ks3ld3ms4y3ry3se4t3th4s2uld3nd2ven2wed1rack0wrang3ps4t3th2eak3ck3ns3st2ick3ed4r4s3ng3st3te4s2ong3te4h2ung2yer3ly1urst2ssy1yled4s2nds3ns2ted4s0xebec2nia0xenic3on2ric3ox3us1ylan3em3ol3yl2sti4s0yacht3ks2ffs2ger3is2hoo2ird2men3un2ngs3ks2pok4n2rds3er3ns2uds3ld3ps2wed3ls0yawns3ps1eans3rn4s3st2cch3hs4y2ggs2lks3ls3ps2nta4e2rba3ks2ses2tis3ts2uks4y1ield2kes2lls2nce2pes2rds3rs3th1lems1obbo0yocks2del3hs3le2gas3ee3hs3ic4n4s2ked4l4s2lks4y2mim2nic4s2res2ung3rn4s3se3th2wed4s3ie3ls1uans2cas3ca4h0yucks4y2gas2lan3es2mmy2pon2rta4s0zaire2mia2nza2ppy2rfs2xes2yin2zen1eals2bec3ra3us2ins2rks3os2sts4y2tas1ibet2lch3ls2ncs4y0zineb3gs4y3ky2ppy2ram2tis2zit1lote4y1oeae4l4s2mbi2nal3ed4r4s3ks2oid3ks3ms3ns3ty2ril4s2wie1ymes";
@@ -1,3905 +1,2 @@
-export const words = [
-  "aahs",
-  "aals",
-  "abas",
-  "abba",
-  "abbe",
-  "abed",
-  "abet",
-  "able",
-  "ably",
-  "abos",
-  "abri",
-  "abut",
-  "abye",
-  "abys",
-  "aced",
-  "aces",
-  "ache",
-  "achy",
-  "acid",
-  "acme",
-  "acne",
-  "acre",
-  "acta",
-  "acts",
-  "acyl",
-  "adds",
-  "adit",
-  "ados",
-  "adze",
-  "aeon",
-  "aero",
-  "aery",
-  "afar",
-  "agar",
-  "agas",
-  "aged",
-  "agee",
-  "ager",
-  "ages",
-  "agha",
-  "agin",
-  "agio",
-  "agly",
-  "agma",
-  "agog",
-  "agon",
-  "ague",
-  "ahem",
-  "ahoy",
-  "aide",
-  "aids",
-  "ails",
-  "aims",
-  "ains",
-  "airn",
-  "airs",
-  "airt",
-  "airy",
-  "aits",
-  "ajar",
-  "ajee",
-  "akee",
-  "akin",
-  "alae",
-  "alan",
-  "alar",
-  "alas",
-  "alba",
-  "albs",
-  "alec",
-  "alee",
-  "alef",
-  "ales",
-  "alfa",
-  "alga",
-  "alif",
-  "alit",
-  "alky",
-  "alls",
-  "ally",
-  "alma",
-  "alme",
-  "alms",
-  "aloe",
-  "alow",
-  "alps",
-  "also",
-  "alto",
-  "alts",
-  "alum",
-  "amah",
-  "amas",
-  "ambo",
-  "amen",
-  "amia",
-  "amid",
-  "amie",
-  "amin",
-  "amir",
-  "amis",
-  "ammo",
-  "amok",
-  "amps",
-  "amus",
-  "amyl",
-  "anal",
-  "anas",
-  "ands",
-  "anes",
-  "anew",
-  "anga",
-  "anil",
-  "anis",
-  "ankh",
-  "anna",
-  "anoa",
-  "anon",
-  "ansa",
-  "anta",
-  "ante",
-  "anti",
-  "ants",
-  "anus",
-  "aped",
-  "aper",
-  "apes",
-  "apex",
-  "apod",
-  "apse",
-  "aqua",
-  "arak",
-  "arbs",
-  "arch",
-  "arco",
-  "arcs",
-  "area",
-  "ares",
-  "arfs",
-  "aria",
-  "arid",
-  "aril",
-  "arks",
-  "arms",
-  "army",
-  "arse",
-  "arts",
-  "arty",
-  "arum",
-  "arvo",
-  "aryl",
-  "asci",
-  "asea",
-  "ashy",
-  "asks",
-  "asps",
-  "atap",
-  "ates",
-  "atma",
-  "atom",
-  "atop",
-  "auks",
-  "auld",
-  "aunt",
-  "aura",
-  "auto",
-  "aver",
-  "aves",
-  "avid",
-  "avos",
-  "avow",
-  "away",
-  "awed",
-  "awee",
-  "awes",
-  "awls",
-  "awns",
-  "awny",
-  "awol",
-  "awry",
-  "axal",
-  "axed",
-  "axel",
-  "axes",
-  "axil",
-  "axis",
-  "axle",
-  "axon",
-  "ayah",
-  "ayes",
-  "ayin",
-  "azan",
-  "azon",
-  "baal",
-  "baas",
-  "baba",
-  "babe",
-  "babu",
-  "baby",
-  "bach",
-  "back",
-  "bade",
-  "bads",
-  "baff",
-  "bags",
-  "baht",
-  "bail",
-  "bait",
-  "bake",
-  "bald",
-  "bale",
-  "balk",
-  "ball",
-  "balm",
-  "bals",
-  "bams",
-  "band",
-  "bane",
-  "bang",
-  "bani",
-  "bank",
-  "bans",
-  "baps",
-  "barb",
-  "bard",
-  "bare",
-  "barf",
-  "bark",
-  "barm",
-  "barn",
-  "bars",
-  "base",
-  "bash",
-  "bask",
-  "bass",
-  "bast",
-  "bate",
-  "bath",
-  "bats",
-  "batt",
-  "baud",
-  "bawd",
-  "bawl",
-  "bays",
-  "bead",
-  "beak",
-  "beam",
-  "bean",
-  "bear",
-  "beat",
-  "beau",
-  "beck",
-  "beds",
-  "bedu",
-  "beef",
-  "been",
-  "beep",
-  "beer",
-  "bees",
-  "beet",
-  "begs",
-  "bell",
-  "bels",
-  "belt",
-  "bema",
-  "bend",
-  "bene",
-  "bens",
-  "bent",
-  "berg",
-  "berm",
-  "best",
-  "beta",
-  "beth",
-  "bets",
-  "bevy",
-  "beys",
-  "bhut",
-  "bias",
-  "bibb",
-  "bibs",
-  "bice",
-  "bide",
-  "bids",
-  "bier",
-  "biff",
-  "bigs",
-  "bike",
-  "bile",
-  "bilk",
-  "bill",
-  "bima",
-  "bind",
-  "bine",
-  "bins",
-  "bint",
-  "bios",
-  "bird",
-  "birk",
-  "birl",
-  "birr",
-  "bise",
-  "bisk",
-  "bite",
-  "bits",
-  "bitt",
-  "bize",
-  "blab",
-  "blae",
-  "blah",
-  "blam",
-  "blat",
-  "blaw",
-  "bleb",
-  "bled",
-  "blet",
-  "blew",
-  "blin",
-  "blip",
-  "blob",
-  "bloc",
-  "blot",
-  "blow",
-  "blub",
-  "blue",
-  "blur",
-  "boar",
-  "boas",
-  "boat",
-  "bobs",
-  "bock",
-  "bode",
-  "bods",
-  "body",
-  "boff",
-  "bogs",
-  "bogy",
-  "boil",
-  "bola",
-  "bold",
-  "bole",
-  "boll",
-  "bolo",
-  "bolt",
-  "bomb",
-  "bond",
-  "bone",
-  "bong",
-  "bonk",
-  "bony",
-  "boob",
-  "book",
-  "boom",
-  "boon",
-  "boor",
-  "boos",
-  "boot",
-  "bops",
-  "bora",
-  "bore",
-  "born",
-  "bort",
-  "bosh",
-  "bosk",
-  "boss",
-  "bota",
-  "both",
-  "bots",
-  "bott",
-  "bout",
-  "bowl",
-  "bows",
-  "boxy",
-  "boyo",
-  "boys",
-  "bozo",
-  "brad",
-  "brae",
-  "brag",
-  "bran",
-  "bras",
-  "brat",
-  "braw",
-  "bray",
-  "bred",
-  "bree",
-  "bren",
-  "brew",
-  "brie",
-  "brig",
-  "brim",
-  "brin",
-  "brio",
-  "bris",
-  "brit",
-  "broo",
-  "bros",
-  "brow",
-  "brrr",
-  "brut",
-  "bubo",
-  "bubs",
-  "buck",
-  "buds",
-  "buff",
-  "bugs",
-  "buhl",
-  "buhr",
-  "bulb",
-  "bulk",
-  "bull",
-  "bumf",
-  "bump",
-  "bums",
-  "bund",
-  "bung",
-  "bunk",
-  "bunn",
-  "buns",
-  "bunt",
-  "buoy",
-  "bura",
-  "burd",
-  "burg",
-  "burl",
-  "burn",
-  "burp",
-  "burr",
-  "burs",
-  "bury",
-  "bush",
-  "busk",
-  "buss",
-  "bust",
-  "busy",
-  "bute",
-  "buts",
-  "butt",
-  "buys",
-  "buzz",
-  "byes",
-  "byre",
-  "byrl",
-  "byte",
-  "cabs",
-  "caca",
-  "cade",
-  "cadi",
-  "cads",
-  "cafe",
-  "caff",
-  "cage",
-  "cagy",
-  "caid",
-  "cain",
-  "cake",
-  "caky",
-  "calf",
-  "calk",
-  "call",
-  "calm",
-  "calo",
-  "calx",
-  "came",
-  "camp",
-  "cams",
-  "cane",
-  "cans",
-  "cant",
-  "cape",
-  "caph",
-  "capo",
-  "caps",
-  "carb",
-  "card",
-  "care",
-  "cark",
-  "carl",
-  "carn",
-  "carp",
-  "carr",
-  "cars",
-  "cart",
-  "casa",
-  "case",
-  "cash",
-  "cask",
-  "cast",
-  "cate",
-  "cats",
-  "caul",
-  "cave",
-  "cavy",
-  "caws",
-  "cays",
-  "ceca",
-  "cede",
-  "cedi",
-  "cees",
-  "ceil",
-  "cell",
-  "cels",
-  "celt",
-  "cent",
-  "cepe",
-  "ceps",
-  "cere",
-  "cero",
-  "cess",
-  "cete",
-  "chad",
-  "cham",
-  "chao",
-  "chap",
-  "char",
-  "chat",
-  "chaw",
-  "chay",
-  "chef",
-  "chew",
-  "chez",
-  "chia",
-  "chic",
-  "chid",
-  "chin",
-  "chip",
-  "chis",
-  "chit",
-  "chon",
-  "chop",
-  "chow",
-  "chub",
-  "chug",
-  "chum",
-  "ciao",
-  "cine",
-  "cion",
-  "cire",
-  "cist",
-  "cite",
-  "city",
-  "clad",
-  "clag",
-  "clam",
-  "clan",
-  "clap",
-  "claw",
-  "clay",
-  "clef",
-  "clew",
-  "clip",
-  "clod",
-  "clog",
-  "clon",
-  "clop",
-  "clot",
-  "cloy",
-  "club",
-  "clue",
-  "coal",
-  "coat",
-  "coax",
-  "cobb",
-  "cobs",
-  "coca",
-  "cock",
-  "coco",
-  "coda",
-  "code",
-  "cods",
-  "coed",
-  "coff",
-  "coft",
-  "cogs",
-  "coho",
-  "coif",
-  "coil",
-  "coin",
-  "coir",
-  "coke",
-  "cola",
-  "cold",
-  "cole",
-  "cols",
-  "colt",
-  "coly",
-  "coma",
-  "comb",
-  "come",
-  "comp",
-  "cone",
-  "coni",
-  "conk",
-  "conn",
-  "cons",
-  "cony",
-  "coof",
-  "cook",
-  "cool",
-  "coon",
-  "coop",
-  "coos",
-  "coot",
-  "cope",
-  "cops",
-  "copy",
-  "cord",
-  "core",
-  "corf",
-  "cork",
-  "corm",
-  "corn",
-  "cory",
-  "cosh",
-  "coss",
-  "cost",
-  "cosy",
-  "cote",
-  "cots",
-  "coup",
-  "cove",
-  "cowl",
-  "cows",
-  "cowy",
-  "coxa",
-  "coys",
-  "cozy",
-  "crab",
-  "crag",
-  "cram",
-  "crap",
-  "craw",
-  "crew",
-  "crib",
-  "cris",
-  "croc",
-  "crop",
-  "crow",
-  "crud",
-  "crus",
-  "crux",
-  "cube",
-  "cubs",
-  "cuds",
-  "cued",
-  "cues",
-  "cuff",
-  "cuif",
-  "cuke",
-  "cull",
-  "culm",
-  "cult",
-  "cunt",
-  "cups",
-  "curb",
-  "curd",
-  "cure",
-  "curf",
-  "curl",
-  "curn",
-  "curr",
-  "curs",
-  "curt",
-  "cusk",
-  "cusp",
-  "cuss",
-  "cute",
-  "cuts",
-  "cwms",
-  "cyan",
-  "cyma",
-  "cyme",
-  "cyst",
-  "czar",
-  "dabs",
-  "dace",
-  "dada",
-  "dado",
-  "dads",
-  "daff",
-  "daft",
-  "dago",
-  "dags",
-  "dahl",
-  "dahs",
-  "dais",
-  "daks",
-  "dale",
-  "dals",
-  "dame",
-  "damn",
-  "damp",
-  "dams",
-  "dang",
-  "dank",
-  "daps",
-  "darb",
-  "dare",
-  "dark",
-  "darn",
-  "dart",
-  "dash",
-  "data",
-  "date",
-  "dato",
-  "daub",
-  "daut",
-  "davy",
-  "dawk",
-  "dawn",
-  "daws",
-  "dawt",
-  "days",
-  "daze",
-  "dead",
-  "deaf",
-  "deal",
-  "dean",
-  "dear",
-  "debs",
-  "debt",
-  "deck",
-  "deco",
-  "deed",
-  "deem",
-  "deep",
-  "deer",
-  "dees",
-  "deet",
-  "defi",
-  "deft",
-  "defy",
-  "deil",
-  "deke",
-  "dele",
-  "delf",
-  "deli",
-  "dell",
-  "dels",
-  "deme",
-  "demo",
-  "demy",
-  "dene",
-  "dens",
-  "dent",
-  "deny",
-  "dere",
-  "derm",
-  "desk",
-  "deva",
-  "devs",
-  "dews",
-  "dewy",
-  "dexy",
-  "deys",
-  "dhak",
-  "dhal",
-  "dhow",
-  "dial",
-  "dibs",
-  "dice",
-  "dick",
-  "dido",
-  "didy",
-  "died",
-  "diel",
-  "dies",
-  "diet",
-  "digs",
-  "dike",
-  "dill",
-  "dime",
-  "dims",
-  "dine",
-  "ding",
-  "dink",
-  "dins",
-  "dint",
-  "diol",
-  "dips",
-  "dipt",
-  "dire",
-  "dirk",
-  "dirl",
-  "dirt",
-  "disc",
-  "dish",
-  "disk",
-  "diss",
-  "dita",
-  "dite",
-  "dits",
-  "ditz",
-  "diva",
-  "dive",
-  "djin",
-  "doat",
-  "doby",
-  "dock",
-  "docs",
-  "dodo",
-  "doer",
-  "does",
-  "doff",
-  "doge",
-  "dogs",
-  "dogy",
-  "doit",
-  "dojo",
-  "dole",
-  "doll",
-  "dols",
-  "dolt",
-  "dome",
-  "doms",
-  "dona",
-  "done",
-  "dong",
-  "dons",
-  "doom",
-  "door",
-  "dopa",
-  "dope",
-  "dopy",
-  "dore",
-  "dork",
-  "dorm",
-  "dorp",
-  "dorr",
-  "dors",
-  "dory",
-  "dose",
-  "doss",
-  "dost",
-  "dote",
-  "doth",
-  "dots",
-  "doty",
-  "doum",
-  "dour",
-  "doux",
-  "dove",
-  "down",
-  "dows",
-  "doxy",
-  "doze",
-  "dozy",
-  "drab",
-  "drag",
-  "dram",
-  "drat",
-  "draw",
-  "dray",
-  "dree",
-  "dreg",
-  "drek",
-  "drew",
-  "drib",
-  "drip",
-  "drop",
-  "drub",
-  "drug",
-  "drum",
-  "drys",
-  "duad",
-  "dual",
-  "dubs",
-  "duce",
-  "duci",
-  "duck",
-  "duct",
-  "dude",
-  "duds",
-  "duel",
-  "dues",
-  "duet",
-  "duff",
-  "dugs",
-  "duit",
-  "duke",
-  "dull",
-  "duly",
-  "duma",
-  "dumb",
-  "dump",
-  "dune",
-  "dung",
-  "dunk",
-  "duns",
-  "dunt",
-  "duos",
-  "dupe",
-  "dups",
-  "dura",
-  "dure",
-  "durn",
-  "duro",
-  "durr",
-  "dusk",
-  "dust",
-  "duty",
-  "dyad",
-  "dyed",
-  "dyer",
-  "dyes",
-  "dyke",
-  "dyne",
-  "each",
-  "earl",
-  "earn",
-  "ears",
-  "ease",
-  "east",
-  "easy",
-  "eath",
-  "eats",
-  "eaux",
-  "eave",
-  "ebbs",
-  "ebon",
-  "eche",
-  "echo",
-  "ecru",
-  "ecus",
-  "eddo",
-  "eddy",
-  "edge",
-  "edgy",
-  "edhs",
-  "edit",
-  "eels",
-  "eely",
-  "eery",
-  "effs",
-  "efts",
-  "egad",
-  "egal",
-  "eger",
-  "eggs",
-  "eggy",
-  "egis",
-  "egos",
-  "eide",
-  "eked",
-  "ekes",
-  "elan",
-  "elds",
-  "elhi",
-  "elks",
-  "ells",
-  "elms",
-  "elmy",
-  "else",
-  "emes",
-  "emeu",
-  "emfs",
-  "emic",
-  "emir",
-  "emit",
-  "emus",
-  "emyd",
-  "ends",
-  "engs",
-  "enol",
-  "enow",
-  "envy",
-  "eons",
-  "epee",
-  "epha",
-  "epic",
-  "epos",
-  "eras",
-  "ergo",
-  "ergs",
-  "erne",
-  "erns",
-  "eros",
-  "errs",
-  "erst",
-  "eses",
-  "espy",
-  "etas",
-  "etch",
-  "eths",
-  "etic",
-  "etna",
-  "etui",
-  "euro",
-  "even",
-  "ever",
-  "eves",
-  "evil",
-  "ewer",
-  "ewes",
-  "exam",
-  "exec",
-  "exes",
-  "exit",
-  "exon",
-  "expo",
-  "eyas",
-  "eyed",
-  "eyen",
-  "eyer",
-  "eyes",
-  "eyne",
-  "eyra",
-  "eyre",
-  "eyry",
-  "face",
-  "fact",
-  "fade",
-  "fado",
-  "fads",
-  "fags",
-  "fail",
-  "fain",
-  "fair",
-  "fake",
-  "fall",
-  "falx",
-  "fame",
-  "fane",
-  "fang",
-  "fano",
-  "fans",
-  "fard",
-  "fare",
-  "farl",
-  "farm",
-  "faro",
-  "fart",
-  "fash",
-  "fast",
-  "fate",
-  "fats",
-  "faun",
-  "faux",
-  "fava",
-  "fave",
-  "fawn",
-  "fays",
-  "faze",
-  "feal",
-  "fear",
-  "feat",
-  "feck",
-  "feds",
-  "feed",
-  "feel",
-  "fees",
-  "feet",
-  "fehs",
-  "fell",
-  "felt",
-  "feme",
-  "fems",
-  "fend",
-  "fens",
-  "feod",
-  "fere",
-  "fern",
-  "fess",
-  "feta",
-  "fete",
-  "fets",
-  "feud",
-  "feus",
-  "fiar",
-  "fiat",
-  "fibs",
-  "fice",
-  "fico",
-  "fido",
-  "fids",
-  "fief",
-  "fife",
-  "figs",
-  "fila",
-  "file",
-  "fill",
-  "film",
-  "filo",
-  "fils",
-  "find",
-  "fine",
-  "fink",
-  "fino",
-  "fins",
-  "fire",
-  "firm",
-  "firn",
-  "firs",
-  "fisc",
-  "fish",
-  "fist",
-  "fits",
-  "five",
-  "fixt",
-  "fizz",
-  "flab",
-  "flag",
-  "flak",
-  "flam",
-  "flan",
-  "flap",
-  "flat",
-  "flaw",
-  "flax",
-  "flay",
-  "flea",
-  "fled",
-  "flee",
-  "flew",
-  "flex",
-  "fley",
-  "flic",
-  "flip",
-  "flit",
-  "floc",
-  "floe",
-  "flog",
-  "flop",
-  "flow",
-  "flub",
-  "flue",
-  "flus",
-  "flux",
-  "foal",
-  "foam",
-  "fobs",
-  "foci",
-  "foes",
-  "fogs",
-  "fogy",
-  "fohn",
-  "foil",
-  "foin",
-  "fold",
-  "folk",
-  "fond",
-  "fons",
-  "font",
-  "food",
-  "fool",
-  "foot",
-  "fops",
-  "fora",
-  "forb",
-  "ford",
-  "fore",
-  "fork",
-  "form",
-  "fort",
-  "foss",
-  "foul",
-  "four",
-  "fowl",
-  "foxy",
-  "foys",
-  "fozy",
-  "frae",
-  "frag",
-  "frap",
-  "frat",
-  "fray",
-  "free",
-  "fret",
-  "frig",
-  "frit",
-  "friz",
-  "froe",
-  "frog",
-  "from",
-  "frow",
-  "frug",
-  "fubs",
-  "fuci",
-  "fuck",
-  "fuds",
-  "fuel",
-  "fugs",
-  "fugu",
-  "fuji",
-  "full",
-  "fume",
-  "fumy",
-  "fund",
-  "funk",
-  "funs",
-  "furl",
-  "furs",
-  "fury",
-  "fuse",
-  "fuss",
-  "futz",
-  "fuze",
-  "fuzz",
-  "fyce",
-  "fyke",
-  "gabs",
-  "gaby",
-  "gadi",
-  "gads",
-  "gaed",
-  "gaen",
-  "gaes",
-  "gaff",
-  "gaga",
-  "gage",
-  "gags",
-  "gain",
-  "gait",
-  "gala",
-  "gale",
-  "gall",
-  "gals",
-  "gama",
-  "gamb",
-  "game",
-  "gamp",
-  "gams",
-  "gamy",
-  "gane",
-  "gang",
-  "gaol",
-  "gape",
-  "gaps",
-  "gapy",
-  "garb",
-  "gars",
-  "gash",
-  "gasp",
-  "gast",
-  "gate",
-  "gats",
-  "gaud",
-  "gaum",
-  "gaun",
-  "gaur",
-  "gave",
-  "gawk",
-  "gawp",
-  "gays",
-  "gaze",
-  "gear",
-  "geck",
-  "geds",
-  "geed",
-  "geek",
-  "gees",
-  "geez",
-  "geld",
-  "gels",
-  "gelt",
-  "gems",
-  "gene",
-  "gens",
-  "gent",
-  "genu",
-  "germ",
-  "gest",
-  "geta",
-  "gets",
-  "geum",
-  "ghat",
-  "ghee",
-  "ghis",
-  "gibe",
-  "gibs",
-  "gids",
-  "gied",
-  "gien",
-  "gies",
-  "gift",
-  "giga",
-  "gigs",
-  "gild",
-  "gill",
-  "gilt",
-  "gimp",
-  "gink",
-  "gins",
-  "gips",
-  "gird",
-  "girl",
-  "girn",
-  "giro",
-  "girt",
-  "gist",
-  "gits",
-  "give",
-  "glad",
-  "gled",
-  "glee",
-  "gleg",
-  "glen",
-  "gley",
-  "glia",
-  "glib",
-  "glim",
-  "glob",
-  "glom",
-  "glop",
-  "glow",
-  "glue",
-  "glug",
-  "glum",
-  "glut",
-  "gnar",
-  "gnat",
-  "gnaw",
-  "gnus",
-  "goad",
-  "goal",
-  "goas",
-  "goat",
-  "gobo",
-  "gobs",
-  "goby",
-  "gods",
-  "goer",
-  "goes",
-  "gogo",
-  "gold",
-  "golf",
-  "gone",
-  "gong",
-  "good",
-  "goof",
-  "gook",
-  "goon",
-  "goop",
-  "goos",
-  "gore",
-  "gorp",
-  "gory",
-  "gosh",
-  "gout",
-  "gowd",
-  "gowk",
-  "gown",
-  "goys",
-  "grab",
-  "grad",
-  "gram",
-  "gran",
-  "grat",
-  "gray",
-  "gree",
-  "grew",
-  "grey",
-  "grid",
-  "grig",
-  "grim",
-  "grin",
-  "grip",
-  "grit",
-  "grog",
-  "grot",
-  "grow",
-  "grub",
-  "grue",
-  "grum",
-  "guan",
-  "guar",
-  "guck",
-  "gude",
-  "guff",
-  "guid",
-  "gulf",
-  "gull",
-  "gulp",
-  "guls",
-  "gums",
-  "gunk",
-  "guns",
-  "guru",
-  "gush",
-  "gust",
-  "guts",
-  "guvs",
-  "guys",
-  "gybe",
-  "gyms",
-  "gyps",
-  "gyre",
-  "gyri",
-  "gyro",
-  "gyve",
-  "haaf",
-  "haar",
-  "habu",
-  "hack",
-  "hade",
-  "hadj",
-  "haed",
-  "haem",
-  "haen",
-  "haes",
-  "haet",
-  "haft",
-  "hags",
-  "haha",
-  "hahs",
-  "haik",
-  "hail",
-  "hair",
-  "haji",
-  "hajj",
-  "hake",
-  "hale",
-  "half",
-  "hall",
-  "halm",
-  "halo",
-  "halt",
-  "hame",
-  "hams",
-  "hand",
-  "hang",
-  "hank",
-  "hant",
-  "haps",
-  "hard",
-  "hare",
-  "hark",
-  "harl",
-  "harm",
-  "harp",
-  "hart",
-  "hash",
-  "hasp",
-  "hast",
-  "hate",
-  "hath",
-  "hats",
-  "haul",
-  "haut",
-  "have",
-  "hawk",
-  "haws",
-  "hays",
-  "haze",
-  "hazy",
-  "head",
-  "heal",
-  "heap",
-  "hear",
-  "heat",
-  "hebe",
-  "heck",
-  "heed",
-  "heel",
-  "heft",
-  "hehs",
-  "heil",
-  "heir",
-  "held",
-  "hell",
-  "helm",
-  "helo",
-  "help",
-  "heme",
-  "hemp",
-  "hems",
-  "hens",
-  "hent",
-  "herb",
-  "herd",
-  "here",
-  "herl",
-  "herm",
-  "hern",
-  "hero",
-  "hers",
-  "hest",
-  "heth",
-  "hets",
-  "hewn",
-  "hews",
-  "hick",
-  "hide",
-  "hied",
-  "hies",
-  "high",
-  "hike",
-  "hila",
-  "hili",
-  "hill",
-  "hilt",
-  "hind",
-  "hins",
-  "hint",
-  "hips",
-  "hire",
-  "hisn",
-  "hiss",
-  "hist",
-  "hits",
-  "hive",
-  "hoar",
-  "hoax",
-  "hobo",
-  "hobs",
-  "hock",
-  "hods",
-  "hoed",
-  "hoer",
-  "hoes",
-  "hogg",
-  "hogs",
-  "hoke",
-  "hold",
-  "hole",
-  "holk",
-  "holm",
-  "holp",
-  "hols",
-  "holt",
-  "holy",
-  "home",
-  "homo",
-  "homy",
-  "hone",
-  "hong",
-  "honk",
-  "hons",
-  "hood",
-  "hoof",
-  "hook",
-  "hoop",
-  "hoot",
-  "hope",
-  "hops",
-  "hora",
-  "horn",
-  "hose",
-  "host",
-  "hots",
-  "hour",
-  "hove",
-  "howe",
-  "howf",
-  "howk",
-  "howl",
-  "hows",
-  "hoya",
-  "hoys",
-  "hubs",
-  "huck",
-  "hued",
-  "hues",
-  "huff",
-  "huge",
-  "hugs",
-  "huic",
-  "hula",
-  "hulk",
-  "hull",
-  "hump",
-  "hums",
-  "hung",
-  "hunh",
-  "hunk",
-  "huns",
-  "hunt",
-  "hurl",
-  "hurt",
-  "hush",
-  "husk",
-  "huts",
-  "hwan",
-  "hyla",
-  "hymn",
-  "hype",
-  "hypo",
-  "hyps",
-  "hyte",
-  "iamb",
-  "ibex",
-  "ibis",
-  "iced",
-  "ices",
-  "ichs",
-  "icky",
-  "icon",
-  "idea",
-  "idem",
-  "ides",
-  "idle",
-  "idly",
-  "idol",
-  "idyl",
-  "iffy",
-  "iglu",
-  "ikat",
-  "ikon",
-  "ilea",
-  "ilex",
-  "ilia",
-  "ilka",
-  "ilks",
-  "ills",
-  "illy",
-  "imam",
-  "imid",
-  "immy",
-  "impi",
-  "imps",
-  "inby",
-  "inch",
-  "info",
-  "inia",
-  "inks",
-  "inky",
-  "inly",
-  "inns",
-  "inro",
-  "inti",
-  "into",
-  "ions",
-  "iota",
-  "ired",
-  "ires",
-  "irid",
-  "iris",
-  "irks",
-  "iron",
-  "isba",
-  "isle",
-  "isms",
-  "itch",
-  "item",
-  "iwis",
-  "ixia",
-  "izar",
-  "jabs",
-  "jack",
-  "jade",
-  "jagg",
-  "jags",
-  "jail",
-  "jake",
-  "jamb",
-  "jams",
-  "jane",
-  "jape",
-  "jarl",
-  "jars",
-  "jato",
-  "jauk",
-  "jaup",
-  "java",
-  "jaws",
-  "jays",
-  "jazz",
-  "jean",
-  "jeed",
-  "jeep",
-  "jeer",
-  "jees",
-  "jeez",
-  "jefe",
-  "jehu",
-  "jell",
-  "jeon",
-  "jerk",
-  "jess",
-  "jest",
-  "jete",
-  "jets",
-  "jeux",
-  "jews",
-  "jiao",
-  "jibb",
-  "jibe",
-  "jibs",
-  "jiff",
-  "jigs",
-  "jill",
-  "jilt",
-  "jimp",
-  "jink",
-  "jinn",
-  "jins",
-  "jinx",
-  "jism",
-  "jive",
-  "jobs",
-  "jock",
-  "joes",
-  "joey",
-  "jogs",
-  "john",
-  "join",
-  "joke",
-  "joky",
-  "jole",
-  "jolt",
-  "josh",
-  "joss",
-  "jota",
-  "jots",
-  "jouk",
-  "jowl",
-  "jows",
-  "joys",
-  "juba",
-  "jube",
-  "judo",
-  "juga",
-  "jugs",
-  "juju",
-  "juke",
-  "jump",
-  "junk",
-  "jupe",
-  "jura",
-  "jury",
-  "just",
-  "jute",
-  "juts",
-  "kaas",
-  "kabs",
-  "kadi",
-  "kaes",
-  "kafs",
-  "kagu",
-  "kaif",
-  "kail",
-  "kain",
-  "kaka",
-  "kaki",
-  "kale",
-  "kame",
-  "kami",
-  "kana",
-  "kane",
-  "kaon",
-  "kapa",
-  "kaph",
-  "karn",
-  "kart",
-  "kata",
-  "kats",
-  "kava",
-  "kayo",
-  "kays",
-  "kbar",
-  "keas",
-  "keck",
-  "keef",
-  "keek",
-  "keel",
-  "keen",
-  "keep",
-  "keet",
-  "kefs",
-  "kegs",
-  "keir",
-  "kelp",
-  "kemp",
-  "keno",
-  "kens",
-  "kent",
-  "kepi",
-  "keps",
-  "kept",
-  "kerb",
-  "kerf",
-  "kern",
-  "keto",
-  "keys",
-  "khaf",
-  "khan",
-  "khat",
-  "khet",
-  "khis",
-  "kibe",
-  "kick",
-  "kids",
-  "kief",
-  "kier",
-  "kifs",
-  "kike",
-  "kill",
-  "kiln",
-  "kilo",
-  "kilt",
-  "kina",
-  "kind",
-  "kine",
-  "king",
-  "kink",
-  "kino",
-  "kins",
-  "kips",
-  "kirk",
-  "kirn",
-  "kirs",
-  "kiss",
-  "kist",
-  "kite",
-  "kith",
-  "kits",
-  "kiva",
-  "kiwi",
-  "knap",
-  "knar",
-  "knee",
-  "knew",
-  "knit",
-  "knob",
-  "knop",
-  "knot",
-  "know",
-  "knur",
-  "koan",
-  "koas",
-  "kobo",
-  "kobs",
-  "koel",
-  "kohl",
-  "kola",
-  "kolo",
-  "konk",
-  "kook",
-  "koph",
-  "kops",
-  "kore",
-  "kors",
-  "koss",
-  "koto",
-  "kris",
-  "kudo",
-  "kudu",
-  "kues",
-  "kuru",
-  "kvas",
-  "kyak",
-  "kyar",
-  "kyat",
-  "kyte",
-  "labs",
-  "lace",
-  "lack",
-  "lacs",
-  "lacy",
-  "lade",
-  "lads",
-  "lady",
-  "lags",
-  "laic",
-  "laid",
-  "lain",
-  "lair",
-  "lake",
-  "lakh",
-  "laky",
-  "lall",
-  "lama",
-  "lamb",
-  "lame",
-  "lamp",
-  "lams",
-  "land",
-  "lane",
-  "lang",
-  "lank",
-  "laps",
-  "lard",
-  "lari",
-  "lark",
-  "lars",
-  "lase",
-  "lash",
-  "lass",
-  "last",
-  "late",
-  "lath",
-  "lati",
-  "lats",
-  "laud",
-  "lava",
-  "lave",
-  "lavs",
-  "lawn",
-  "laws",
-  "lays",
-  "laze",
-  "lazy",
-  "lead",
-  "leaf",
-  "leak",
-  "leal",
-  "lean",
-  "leap",
-  "lear",
-  "leas",
-  "lech",
-  "leek",
-  "leer",
-  "lees",
-  "leet",
-  "left",
-  "legs",
-  "lehr",
-  "leis",
-  "leke",
-  "leks",
-  "leku",
-  "lend",
-  "leno",
-  "lens",
-  "lent",
-  "lept",
-  "less",
-  "lest",
-  "lets",
-  "leud",
-  "leva",
-  "levo",
-  "levy",
-  "lewd",
-  "leys",
-  "liar",
-  "libs",
-  "lice",
-  "lich",
-  "lick",
-  "lido",
-  "lids",
-  "lied",
-  "lief",
-  "lien",
-  "lier",
-  "lies",
-  "lieu",
-  "life",
-  "lift",
-  "like",
-  "lilt",
-  "lily",
-  "lima",
-  "limb",
-  "lime",
-  "limn",
-  "limo",
-  "limp",
-  "limy",
-  "line",
-  "ling",
-  "link",
-  "linn",
-  "lino",
-  "lins",
-  "lint",
-  "liny",
-  "lion",
-  "lips",
-  "lira",
-  "lire",
-  "liri",
-  "lisp",
-  "list",
-  "lite",
-  "lits",
-  "litu",
-  "live",
-  "load",
-  "loaf",
-  "loam",
-  "loan",
-  "lobe",
-  "lobo",
-  "lobs",
-  "loca",
-  "loch",
-  "loci",
-  "lock",
-  "loco",
-  "lode",
-  "loft",
-  "loge",
-  "logo",
-  "logs",
-  "logy",
-  "loin",
-  "loll",
-  "lone",
-  "long",
-  "loof",
-  "look",
-  "loom",
-  "loon",
-  "loop",
-  "loos",
-  "loot",
-  "lope",
-  "lops",
-  "lord",
-  "lore",
-  "lorn",
-  "lory",
-  "lose",
-  "loss",
-  "lost",
-  "lota",
-  "loth",
-  "loti",
-  "lots",
-  "loud",
-  "loup",
-  "lour",
-  "lout",
-  "love",
-  "lowe",
-  "lown",
-  "lows",
-  "luau",
-  "lube",
-  "luce",
-  "luck",
-  "lude",
-  "lues",
-  "luff",
-  "luge",
-  "lugs",
-  "lull",
-  "lulu",
-  "lump",
-  "lums",
-  "luna",
-  "lune",
-  "lung",
-  "lunk",
-  "lunt",
-  "luny",
-  "lure",
-  "lurk",
-  "lush",
-  "lust",
-  "lute",
-  "lutz",
-  "luvs",
-  "luxe",
-  "lwei",
-  "lyes",
-  "lynx",
-  "lyre",
-  "lyse",
-  "maar",
-  "mabe",
-  "mace",
-  "mach",
-  "mack",
-  "macs",
-  "made",
-  "mads",
-  "maes",
-  "mage",
-  "magi",
-  "mags",
-  "maid",
-  "mail",
-  "maim",
-  "main",
-  "mair",
-  "make",
-  "mako",
-  "male",
-  "mall",
-  "malm",
-  "malt",
-  "mama",
-  "mana",
-  "mane",
-  "mano",
-  "mans",
-  "many",
-  "maps",
-  "marc",
-  "mare",
-  "mark",
-  "marl",
-  "mars",
-  "mart",
-  "mash",
-  "mask",
-  "mass",
-  "mast",
-  "mate",
-  "math",
-  "mats",
-  "matt",
-  "maud",
-  "maul",
-  "maun",
-  "maut",
-  "mawn",
-  "maws",
-  "maxi",
-  "maya",
-  "mayo",
-  "mays",
-  "maze",
-  "mazy",
-  "mead",
-  "meal",
-  "mean",
-  "meat",
-  "meed",
-  "meek",
-  "meet",
-  "meld",
-  "mell",
-  "mels",
-  "melt",
-  "memo",
-  "mems",
-  "mend",
-  "meno",
-  "menu",
-  "meou",
-  "meow",
-  "mere",
-  "merk",
-  "merl",
-  "mesa",
-  "mesh",
-  "mess",
-  "meta",
-  "mete",
-  "meth",
-  "mewl",
-  "mews",
-  "meze",
-  "mhos",
-  "mibs",
-  "mica",
-  "mice",
-  "mick",
-  "midi",
-  "mids",
-  "mien",
-  "miff",
-  "migg",
-  "migs",
-  "mike",
-  "mild",
-  "mile",
-  "milk",
-  "mill",
-  "milo",
-  "mils",
-  "milt",
-  "mime",
-  "mina",
-  "mind",
-  "mine",
-  "mini",
-  "mink",
-  "mint",
-  "minx",
-  "mire",
-  "miri",
-  "mirk",
-  "mirs",
-  "miry",
-  "mise",
-  "miso",
-  "miss",
-  "mist",
-  "mite",
-  "mitt",
-  "mity",
-  "mixt",
-  "moan",
-  "moas",
-  "moat",
-  "mobs",
-  "mock",
-  "mocs",
-  "mode",
-  "modi",
-  "mods",
-  "mogs",
-  "moil",
-  "mojo",
-  "moke",
-  "mola",
-  "mold",
-  "mole",
-  "moll",
-  "mols",
-  "molt",
-  "moly",
-  "mome",
-  "momi",
-  "moms",
-  "monk",
-  "mono",
-  "mons",
-  "mony",
-  "mood",
-  "mool",
-  "moon",
-  "moor",
-  "moos",
-  "moot",
-  "mope",
-  "mops",
-  "mopy",
-  "mora",
-  "more",
-  "morn",
-  "mors",
-  "mort",
-  "mosk",
-  "moss",
-  "most",
-  "mote",
-  "moth",
-  "mots",
-  "mott",
-  "moue",
-  "move",
-  "mown",
-  "mows",
-  "moxa",
-  "mozo",
-  "much",
-  "muck",
-  "muds",
-  "muff",
-  "mugg",
-  "mugs",
-  "mule",
-  "mull",
-  "mumm",
-  "mump",
-  "mums",
-  "mumu",
-  "muni",
-  "muns",
-  "muon",
-  "mura",
-  "mure",
-  "murk",
-  "murr",
-  "muse",
-  "mush",
-  "musk",
-  "muss",
-  "must",
-  "mute",
-  "muts",
-  "mutt",
-  "myna",
-  "myth",
-  "naan",
-  "nabe",
-  "nabs",
-  "nada",
-  "nags",
-  "naif",
-  "nail",
-  "name",
-  "nana",
-  "nans",
-  "naoi",
-  "naos",
-  "nape",
-  "naps",
-  "narc",
-  "nard",
-  "nark",
-  "nary",
-  "nave",
-  "navy",
-  "nays",
-  "nazi",
-  "neap",
-  "near",
-  "neat",
-  "nebs",
-  "neck",
-  "need",
-  "neem",
-  "neep",
-  "neif",
-  "nema",
-  "nene",
-  "neon",
-  "nerd",
-  "ness",
-  "nest",
-  "nets",
-  "nett",
-  "neuk",
-  "neum",
-  "neve",
-  "nevi",
-  "news",
-  "newt",
-  "next",
-  "nibs",
-  "nice",
-  "nick",
-  "nide",
-  "nidi",
-  "nigh",
-  "nill",
-  "nils",
-  "nims",
-  "nine",
-  "nipa",
-  "nips",
-  "nisi",
-  "nite",
-  "nits",
-  "nixe",
-  "nixy",
-  "nobs",
-  "nock",
-  "node",
-  "nodi",
-  "nods",
-  "noel",
-  "noes",
-  "nogg",
-  "nogs",
-  "noil",
-  "noir",
-  "nolo",
-  "noma",
-  "nome",
-  "noms",
-  "nona",
-  "none",
-  "nook",
-  "noon",
-  "nope",
-  "nori",
-  "norm",
-  "nose",
-  "nosh",
-  "nosy",
-  "nota",
-  "note",
-  "noun",
-  "nous",
-  "nova",
-  "nows",
-  "nowt",
-  "nubs",
-  "nude",
-  "nuke",
-  "null",
-  "numb",
-  "nuns",
-  "nurd",
-  "nurl",
-  "nuts",
-  "oafs",
-  "oaks",
-  "oars",
-  "oast",
-  "oath",
-  "oats",
-  "obes",
-  "obey",
-  "obia",
-  "obis",
-  "obit",
-  "oboe",
-  "obol",
-  "ocas",
-  "odds",
-  "odea",
-  "odes",
-  "odic",
-  "odor",
-  "odyl",
-  "ofay",
-  "offs",
-  "ogam",
-  "ogee",
-  "ogle",
-  "ogre",
-  "ohed",
-  "ohia",
-  "ohms",
-  "oils",
-  "oily",
-  "oink",
-  "okas",
-  "okay",
-  "okeh",
-  "okes",
-  "okra",
-  "olds",
-  "oldy",
-  "olea",
-  "oleo",
-  "oles",
-  "olio",
-  "olla",
-  "omen",
-  "omer",
-  "omit",
-  "once",
-  "ones",
-  "only",
-  "onto",
-  "onus",
-  "onyx",
-  "oohs",
-  "oops",
-  "oots",
-  "ooze",
-  "oozy",
-  "opah",
-  "opal",
-  "oped",
-  "open",
-  "opes",
-  "opts",
-  "opus",
-  "orad",
-  "oral",
-  "orbs",
-  "orby",
-  "orca",
-  "orcs",
-  "ordo",
-  "ores",
-  "orgy",
-  "orle",
-  "orra",
-  "orts",
-  "oryx",
-  "orzo",
-  "osar",
-  "oses",
-  "ossa",
-  "otic",
-  "otto",
-  "ouch",
-  "ouds",
-  "ouph",
-  "ours",
-  "oust",
-  "outs",
-  "ouzo",
-  "oval",
-  "oven",
-  "over",
-  "ovum",
-  "owed",
-  "owes",
-  "owls",
-  "owns",
-  "owse",
-  "oxen",
-  "oxes",
-  "oxid",
-  "oxim",
-  "oyer",
-  "oyes",
-  "oyez",
-  "paca",
-  "pace",
-  "pack",
-  "pacs",
-  "pact",
-  "padi",
-  "pads",
-  "page",
-  "paid",
-  "paik",
-  "pail",
-  "pain",
-  "pair",
-  "pale",
-  "pall",
-  "palm",
-  "palp",
-  "pals",
-  "paly",
-  "pams",
-  "pane",
-  "pang",
-  "pans",
-  "pant",
-  "papa",
-  "paps",
-  "para",
-  "pard",
-  "pare",
-  "park",
-  "parr",
-  "pars",
-  "part",
-  "pase",
-  "pash",
-  "pass",
-  "past",
-  "pate",
-  "path",
-  "pats",
-  "paty",
-  "pave",
-  "pawl",
-  "pawn",
-  "paws",
-  "pays",
-  "peag",
-  "peak",
-  "peal",
-  "pean",
-  "pear",
-  "peas",
-  "peat",
-  "pech",
-  "peck",
-  "pecs",
-  "peds",
-  "peed",
-  "peek",
-  "peel",
-  "peen",
-  "peep",
-  "peer",
-  "pees",
-  "pegs",
-  "pehs",
-  "pein",
-  "peke",
-  "pele",
-  "pelf",
-  "pelt",
-  "pend",
-  "pens",
-  "pent",
-  "peon",
-  "pepo",
-  "peps",
-  "peri",
-  "perk",
-  "perm",
-  "pert",
-  "peso",
-  "pest",
-  "pets",
-  "pews",
-  "pfft",
-  "pfui",
-  "phat",
-  "phew",
-  "phis",
-  "phiz",
-  "phon",
-  "phot",
-  "phut",
-  "pial",
-  "pian",
-  "pias",
-  "pica",
-  "pice",
-  "pick",
-  "pics",
-  "pied",
-  "pier",
-  "pies",
-  "pigs",
-  "pika",
-  "pike",
-  "piki",
-  "pile",
-  "pili",
-  "pill",
-  "pily",
-  "pima",
-  "pimp",
-  "pina",
-  "pine",
-  "ping",
-  "pink",
-  "pins",
-  "pint",
-  "piny",
-  "pion",
-  "pipe",
-  "pips",
-  "pipy",
-  "pirn",
-  "pish",
-  "piso",
-  "piss",
-  "pita",
-  "pith",
-  "pits",
-  "pity",
-  "pixy",
-  "plan",
-  "plat",
-  "play",
-  "plea",
-  "pleb",
-  "pled",
-  "plew",
-  "plie",
-  "plod",
-  "plop",
-  "plot",
-  "plow",
-  "ploy",
-  "plug",
-  "plum",
-  "plus",
-  "pock",
-  "poco",
-  "pods",
-  "poem",
-  "poet",
-  "pogy",
-  "pois",
-  "poke",
-  "poky",
-  "pole",
-  "poll",
-  "polo",
-  "pols",
-  "poly",
-  "pome",
-  "pomp",
-  "poms",
-  "pond",
-  "pone",
-  "pong",
-  "pons",
-  "pony",
-  "pood",
-  "poof",
-  "pooh",
-  "pool",
-  "poon",
-  "poop",
-  "poor",
-  "pope",
-  "pops",
-  "pore",
-  "pork",
-  "porn",
-  "port",
-  "pose",
-  "posh",
-  "post",
-  "posy",
-  "pots",
-  "pouf",
-  "pour",
-  "pout",
-  "pows",
-  "pram",
-  "prao",
-  "prat",
-  "prau",
-  "pray",
-  "pree",
-  "prep",
-  "prex",
-  "prey",
-  "prez",
-  "prig",
-  "prim",
-  "proa",
-  "prod",
-  "prof",
-  "prog",
-  "prom",
-  "prop",
-  "pros",
-  "prow",
-  "psis",
-  "psst",
-  "pubs",
-  "puce",
-  "puck",
-  "puds",
-  "puff",
-  "pugh",
-  "pugs",
-  "puja",
-  "puke",
-  "pula",
-  "pule",
-  "puli",
-  "pull",
-  "pulp",
-  "puls",
-  "puma",
-  "pump",
-  "puna",
-  "pung",
-  "punk",
-  "puns",
-  "punt",
-  "puny",
-  "pupa",
-  "pups",
-  "pure",
-  "puri",
-  "purl",
-  "purr",
-  "purs",
-  "push",
-  "puss",
-  "puts",
-  "putt",
-  "putz",
-  "pyas",
-  "pyes",
-  "pyic",
-  "pyin",
-  "pyre",
-  "qaid",
-  "qats",
-  "qoph",
-  "quad",
-  "quag",
-  "quai",
-  "quay",
-  "quey",
-  "quid",
-  "quin",
-  "quip",
-  "quit",
-  "quiz",
-  "quod",
-  "race",
-  "rack",
-  "racy",
-  "rads",
-  "raff",
-  "raft",
-  "raga",
-  "rage",
-  "ragi",
-  "rags",
-  "raia",
-  "raid",
-  "rail",
-  "rain",
-  "raja",
-  "rake",
-  "raki",
-  "rale",
-  "rami",
-  "ramp",
-  "rams",
-  "rand",
-  "rang",
-  "rani",
-  "rank",
-  "rant",
-  "rape",
-  "raps",
-  "rapt",
-  "rare",
-  "rase",
-  "rash",
-  "rasp",
-  "rate",
-  "rath",
-  "rato",
-  "rats",
-  "rave",
-  "raws",
-  "raya",
-  "rays",
-  "raze",
-  "razz",
-  "read",
-  "real",
-  "ream",
-  "reap",
-  "rear",
-  "rebs",
-  "reck",
-  "recs",
-  "redd",
-  "rede",
-  "redo",
-  "reds",
-  "reed",
-  "reef",
-  "reek",
-  "reel",
-  "rees",
-  "refs",
-  "reft",
-  "regs",
-  "reif",
-  "rein",
-  "reis",
-  "rely",
-  "rems",
-  "rend",
-  "rent",
-  "repo",
-  "repp",
-  "reps",
-  "resh",
-  "rest",
-  "rete",
-  "rets",
-  "revs",
-  "rhea",
-  "rhos",
-  "rhus",
-  "rial",
-  "rias",
-  "ribs",
-  "rice",
-  "rich",
-  "rick",
-  "ride",
-  "rids",
-  "riel",
-  "rife",
-  "riff",
-  "rifs",
-  "rift",
-  "rigs",
-  "rile",
-  "rill",
-  "rime",
-  "rims",
-  "rimy",
-  "rind",
-  "ring",
-  "rink",
-  "rins",
-  "riot",
-  "ripe",
-  "rips",
-  "rise",
-  "risk",
-  "rite",
-  "ritz",
-  "rive",
-  "road",
-  "roam",
-  "roan",
-  "roar",
-  "robe",
-  "robs",
-  "rock",
-  "rocs",
-  "rode",
-  "rods",
-  "roes",
-  "roil",
-  "role",
-  "rolf",
-  "roll",
-  "romp",
-  "roms",
-  "rood",
-  "roof",
-  "rook",
-  "room",
-  "root",
-  "rope",
-  "ropy",
-  "rose",
-  "rosy",
-  "rota",
-  "rote",
-  "roti",
-  "rotl",
-  "roto",
-  "rots",
-  "roue",
-  "roup",
-  "rout",
-  "roux",
-  "rove",
-  "rows",
-  "rube",
-  "rubs",
-  "ruby",
-  "ruck",
-  "rudd",
-  "rude",
-  "rued",
-  "ruer",
-  "rues",
-  "ruff",
-  "ruga",
-  "rugs",
-  "ruin",
-  "rule",
-  "ruly",
-  "rump",
-  "rums",
-  "rune",
-  "rung",
-  "runs",
-  "runt",
-  "ruse",
-  "rush",
-  "rusk",
-  "rust",
-  "ruth",
-  "ruts",
-  "ryas",
-  "ryes",
-  "ryke",
-  "rynd",
-  "ryot",
-  "sabe",
-  "sabs",
-  "sack",
-  "sacs",
-  "sade",
-  "sadi",
-  "safe",
-  "saga",
-  "sage",
-  "sago",
-  "sags",
-  "sagy",
-  "said",
-  "sail",
-  "sain",
-  "sake",
-  "saki",
-  "sale",
-  "sall",
-  "salp",
-  "sals",
-  "salt",
-  "same",
-  "samp",
-  "sand",
-  "sane",
-  "sang",
-  "sank",
-  "sans",
-  "saps",
-  "sard",
-  "sari",
-  "sark",
-  "sash",
-  "sass",
-  "sate",
-  "sati",
-  "saul",
-  "save",
-  "sawn",
-  "saws",
-  "says",
-  "scab",
-  "scad",
-  "scag",
-  "scam",
-  "scan",
-  "scar",
-  "scat",
-  "scop",
-  "scot",
-  "scow",
-  "scry",
-  "scud",
-  "scum",
-  "scup",
-  "scut",
-  "seal",
-  "seam",
-  "sear",
-  "seas",
-  "seat",
-  "secs",
-  "sect",
-  "seed",
-  "seek",
-  "seel",
-  "seem",
-  "seen",
-  "seep",
-  "seer",
-  "sees",
-  "sego",
-  "segs",
-  "seif",
-  "seis",
-  "self",
-  "sell",
-  "sels",
-  "seme",
-  "semi",
-  "send",
-  "sene",
-  "sent",
-  "sept",
-  "sera",
-  "sere",
-  "serf",
-  "sers",
-  "seta",
-  "sets",
-  "sett",
-  "sewn",
-  "sews",
-  "sext",
-  "sexy",
-  "shad",
-  "shag",
-  "shah",
-  "sham",
-  "shat",
-  "shaw",
-  "shay",
-  "shea",
-  "shed",
-  "shes",
-  "shew",
-  "shim",
-  "shin",
-  "ship",
-  "shit",
-  "shiv",
-  "shmo",
-  "shod",
-  "shoe",
-  "shog",
-  "shoo",
-  "shop",
-  "shot",
-  "show",
-  "shri",
-  "shul",
-  "shun",
-  "shut",
-  "sial",
-  "sibb",
-  "sibs",
-  "sice",
-  "sick",
-  "sics",
-  "side",
-  "sift",
-  "sigh",
-  "sign",
-  "sike",
-  "sild",
-  "silk",
-  "sill",
-  "silo",
-  "silt",
-  "sima",
-  "simp",
-  "sims",
-  "sine",
-  "sing",
-  "sinh",
-  "sink",
-  "sins",
-  "sipe",
-  "sips",
-  "sire",
-  "sirs",
-  "site",
-  "sith",
-  "sits",
-  "size",
-  "sizy",
-  "skag",
-  "skas",
-  "skat",
-  "skee",
-  "skeg",
-  "skep",
-  "skew",
-  "skid",
-  "skim",
-  "skin",
-  "skip",
-  "skis",
-  "skit",
-  "skua",
-  "slab",
-  "slag",
-  "slam",
-  "slap",
-  "slat",
-  "slaw",
-  "slay",
-  "sled",
-  "slew",
-  "slid",
-  "slim",
-  "slip",
-  "slit",
-  "slob",
-  "sloe",
-  "slog",
-  "slop",
-  "slot",
-  "slow",
-  "slub",
-  "slue",
-  "slug",
-  "slum",
-  "slur",
-  "slut",
-  "smew",
-  "smit",
-  "smog",
-  "smug",
-  "smut",
-  "snag",
-  "snap",
-  "snaw",
-  "sned",
-  "snib",
-  "snip",
-  "snit",
-  "snob",
-  "snog",
-  "snot",
-  "snow",
-  "snub",
-  "snug",
-  "snye",
-  "soak",
-  "soap",
-  "soar",
-  "sobs",
-  "sock",
-  "soda",
-  "sods",
-  "sofa",
-  "soft",
-  "soil",
-  "soja",
-  "soke",
-  "sola",
-  "sold",
-  "sole",
-  "soli",
-  "solo",
-  "sols",
-  "soma",
-  "some",
-  "sone",
-  "song",
-  "sons",
-  "sook",
-  "soon",
-  "soot",
-  "soph",
-  "sops",
-  "sora",
-  "sorb",
-  "sord",
-  "sore",
-  "sori",
-  "sorn",
-  "sort",
-  "soth",
-  "sots",
-  "souk",
-  "soul",
-  "soup",
-  "sour",
-  "sous",
-  "sown",
-  "sows",
-  "soya",
-  "soys",
-  "spae",
-  "span",
-  "spar",
-  "spas",
-  "spat",
-  "spay",
-  "spaz",
-  "spec",
-  "sped",
-  "spew",
-  "spic",
-  "spik",
-  "spin",
-  "spit",
-  "spiv",
-  "spot",
-  "spry",
-  "spud",
-  "spue",
-  "spun",
-  "spur",
-  "sris",
-  "stab",
-  "stag",
-  "star",
-  "stat",
-  "staw",
-  "stay",
-  "stem",
-  "step",
-  "stet",
-  "stew",
-  "stey",
-  "stir",
-  "stoa",
-  "stob",
-  "stop",
-  "stow",
-  "stub",
-  "stud",
-  "stum",
-  "stun",
-  "stye",
-  "suba",
-  "subs",
-  "such",
-  "suck",
-  "sudd",
-  "suds",
-  "sued",
-  "suer",
-  "sues",
-  "suet",
-  "sugh",
-  "suit",
-  "sulk",
-  "sulu",
-  "sumo",
-  "sump",
-  "sums",
-  "sung",
-  "sunk",
-  "sunn",
-  "suns",
-  "supe",
-  "sups",
-  "suqs",
-  "sura",
-  "surd",
-  "sure",
-  "surf",
-  "suss",
-  "swab",
-  "swag",
-  "swam",
-  "swan",
-  "swap",
-  "swat",
-  "sway",
-  "swig",
-  "swim",
-  "swob",
-  "swop",
-  "swot",
-  "swum",
-  "sybo",
-  "syce",
-  "syke",
-  "syli",
-  "sync",
-  "syne",
-  "syph",
-  "tabs",
-  "tabu",
-  "tace",
-  "tach",
-  "tack",
-  "taco",
-  "tact",
-  "tads",
-  "tael",
-  "tags",
-  "tahr",
-  "tail",
-  "tain",
-  "taka",
-  "take",
-  "tala",
-  "talc",
-  "tale",
-  "tali",
-  "talk",
-  "tall",
-  "tame",
-  "tamp",
-  "tams",
-  "tang",
-  "tank",
-  "tans",
-  "taos",
-  "tapa",
-  "tape",
-  "taps",
-  "tare",
-  "tarn",
-  "taro",
-  "tarp",
-  "tars",
-  "tart",
-  "task",
-  "tass",
-  "tate",
-  "tats",
-  "taus",
-  "taut",
-  "tavs",
-  "taws",
-  "taxa",
-  "taxi",
-  "teak",
-  "teal",
-  "team",
-  "tear",
-  "teas",
-  "teat",
-  "teds",
-  "teed",
-  "teel",
-  "teem",
-  "teen",
-  "tees",
-  "teff",
-  "tegs",
-  "tela",
-  "tele",
-  "tell",
-  "tels",
-  "temp",
-  "tend",
-  "tens",
-  "tent",
-  "tepa",
-  "term",
-  "tern",
-  "test",
-  "teth",
-  "tets",
-  "tews",
-  "text",
-  "thae",
-  "than",
-  "that",
-  "thaw",
-  "thee",
-  "them",
-  "then",
-  "thew",
-  "they",
-  "thin",
-  "thio",
-  "thir",
-  "this",
-  "thou",
-  "thro",
-  "thru",
-  "thud",
-  "thug",
-  "thus",
-  "tick",
-  "tics",
-  "tide",
-  "tidy",
-  "tied",
-  "tier",
-  "ties",
-  "tiff",
-  "tike",
-  "tiki",
-  "tile",
-  "till",
-  "tils",
-  "tilt",
-  "time",
-  "tine",
-  "ting",
-  "tins",
-  "tint",
-  "tiny",
-  "tipi",
-  "tips",
-  "tire",
-  "tirl",
-  "tiro",
-  "titi",
-  "tits",
-  "tivy",
-  "toad",
-  "toby",
-  "tods",
-  "tody",
-  "toea",
-  "toed",
-  "toes",
-  "toff",
-  "toft",
-  "tofu",
-  "toga",
-  "togs",
-  "toil",
-  "toit",
-  "toke",
-  "tola",
-  "told",
-  "tole",
-  "toll",
-  "tolu",
-  "tomb",
-  "tome",
-  "toms",
-  "tone",
-  "tong",
-  "tons",
-  "tony",
-  "took",
-  "tool",
-  "toom",
-  "toon",
-  "toot",
-  "tope",
-  "toph",
-  "topi",
-  "tops",
-  "tora",
-  "torc",
-  "tore",
-  "tori",
-  "torn",
-  "toro",
-  "torr",
-  "tors",
-  "tort",
-  "tory",
-  "tosh",
-  "toss",
-  "tost",
-  "tote",
-  "tots",
-  "tour",
-  "tout",
-  "town",
-  "tows",
-  "towy",
-  "toyo",
-  "toys",
-  "trad",
-  "tram",
-  "trap",
-  "tray",
-  "tree",
-  "tref",
-  "trek",
-  "tret",
-  "trey",
-  "trig",
-  "trim",
-  "trio",
-  "trip",
-  "trod",
-  "trop",
-  "trot",
-  "trow",
-  "troy",
-  "true",
-  "trug",
-  "tsar",
-  "tsks",
-  "tuba",
-  "tube",
-  "tubs",
-  "tuck",
-  "tufa",
-  "tuff",
-  "tuft",
-  "tugs",
-  "tuis",
-  "tule",
-  "tump",
-  "tuna",
-  "tune",
-  "tung",
-  "tuns",
-  "tups",
-  "turd",
-  "turf",
-  "turk",
-  "turn",
-  "tush",
-  "tusk",
-  "tuts",
-  "tutu",
-  "twae",
-  "twas",
-  "twat",
-  "twee",
-  "twig",
-  "twin",
-  "twit",
-  "twos",
-  "tyee",
-  "tyer",
-  "tyes",
-  "tyke",
-  "tyne",
-  "type",
-  "typo",
-  "typp",
-  "typy",
-  "tyre",
-  "tyro",
-  "tzar",
-  "udos",
-  "ughs",
-  "ugly",
-  "ukes",
-  "ulan",
-  "ulna",
-  "ulus",
-  "ulva",
-  "umbo",
-  "umps",
-  "unai",
-  "unau",
-  "unbe",
-  "unci",
-  "unco",
-  "unde",
-  "undo",
-  "undy",
-  "unit",
-  "unto",
-  "upas",
-  "upby",
-  "updo",
-  "upon",
-  "urbs",
-  "urds",
-  "urea",
-  "urge",
-  "uric",
-  "urns",
-  "ursa",
-  "urus",
-  "used",
-  "user",
-  "uses",
-  "utas",
-  "uvea",
-  "vacs",
-  "vagi",
-  "vail",
-  "vain",
-  "vair",
-  "vale",
-  "vamp",
-  "vane",
-  "vang",
-  "vans",
-  "vara",
-  "vars",
-  "vary",
-  "vasa",
-  "vase",
-  "vast",
-  "vats",
-  "vatu",
-  "vaus",
-  "vavs",
-  "vaws",
-  "veal",
-  "veep",
-  "veer",
-  "vees",
-  "veil",
-  "vein",
-  "vela",
-  "veld",
-  "vena",
-  "vend",
-  "vent",
-  "vera",
-  "verb",
-  "vert",
-  "very",
-  "vest",
-  "veto",
-  "vets",
-  "vext",
-  "vial",
-  "vibe",
-  "vice",
-  "vide",
-  "vied",
-  "vier",
-  "vies",
-  "view",
-  "viga",
-  "vigs",
-  "vile",
-  "vill",
-  "vims",
-  "vina",
-  "vine",
-  "vino",
-  "viny",
-  "viol",
-  "virl",
-  "visa",
-  "vise",
-  "vita",
-  "viva",
-  "vive",
-  "voes",
-  "void",
-  "vole",
-  "volt",
-  "vote",
-  "vows",
-  "vrow",
-  "vugg",
-  "vugh",
-  "vugs",
-  "wabs",
-  "wack",
-  "wade",
-  "wadi",
-  "wads",
-  "wady",
-  "waes",
-  "waff",
-  "waft",
-  "wage",
-  "wags",
-  "waif",
-  "wail",
-  "wain",
-  "wair",
-  "wait",
-  "wake",
-  "wale",
-  "walk",
-  "wall",
-  "waly",
-  "wame",
-  "wand",
-  "wane",
-  "wans",
-  "want",
-  "wany",
-  "waps",
-  "ward",
-  "ware",
-  "wark",
-  "warm",
-  "warn",
-  "warp",
-  "wars",
-  "wart",
-  "wary",
-  "wash",
-  "wasp",
-  "wast",
-  "wats",
-  "watt",
-  "wauk",
-  "waul",
-  "waur",
-  "wave",
-  "wavy",
-  "wawl",
-  "waws",
-  "waxy",
-  "ways",
-  "weak",
-  "weal",
-  "wean",
-  "wear",
-  "webs",
-  "weds",
-  "weed",
-  "week",
-  "weel",
-  "ween",
-  "weep",
-  "weer",
-  "wees",
-  "weet",
-  "weft",
-  "weir",
-  "weka",
-  "weld",
-  "well",
-  "welt",
-  "wend",
-  "wens",
-  "went",
-  "wept",
-  "were",
-  "wert",
-  "west",
-  "wets",
-  "wham",
-  "whap",
-  "what",
-  "whee",
-  "when",
-  "whet",
-  "whew",
-  "whey",
-  "whid",
-  "whig",
-  "whim",
-  "whin",
-  "whip",
-  "whir",
-  "whit",
-  "whiz",
-  "whoa",
-  "whom",
-  "whop",
-  "whys",
-  "wich",
-  "wick",
-  "wide",
-  "wife",
-  "wigs",
-  "wild",
-  "wile",
-  "will",
-  "wilt",
-  "wily",
-  "wimp",
-  "wind",
-  "wine",
-  "wing",
-  "wink",
-  "wino",
-  "wins",
-  "winy",
-  "wipe",
-  "wire",
-  "wiry",
-  "wise",
-  "wish",
-  "wisp",
-  "wiss",
-  "wist",
-  "wite",
-  "with",
-  "wits",
-  "wive",
-  "woad",
-  "woes",
-  "wogs",
-  "woke",
-  "woks",
-  "wold",
-  "wolf",
-  "womb",
-  "wonk",
-  "wons",
-  "wont",
-  "wood",
-  "woof",
-  "wool",
-  "woos",
-  "wops",
-  "word",
-  "wore",
-  "work",
-  "worm",
-  "worn",
-  "wort",
-  "wost",
-  "wots",
-  "wove",
-  "wows",
-  "wrap",
-  "wren",
-  "writ",
-  "wuss",
-  "wych",
-  "wyes",
-  "wyle",
-  "wynd",
-  "wynn",
-  "wyns",
-  "wyte",
-  "xyst",
-  "yack",
-  "yaff",
-  "yagi",
-  "yaks",
-  "yald",
-  "yams",
-  "yang",
-  "yank",
-  "yaps",
-  "yard",
-  "yare",
-  "yarn",
-  "yaud",
-  "yaup",
-  "yawl",
-  "yawn",
-  "yawp",
-  "yaws",
-  "yays",
-  "yeah",
-  "yean",
-  "year",
-  "yeas",
-  "yech",
-  "yegg",
-  "yeld",
-  "yelk",
-  "yell",
-  "yelp",
-  "yens",
-  "yerk",
-  "yeti",
-  "yett",
-  "yeuk",
-  "yews",
-  "yids",
-  "yill",
-  "yins",
-  "yipe",
-  "yips",
-  "yird",
-  "yirr",
-  "ylem",
-  "yobs",
-  "yock",
-  "yodh",
-  "yods",
-  "yoga",
-  "yogh",
-  "yogi",
-  "yoke",
-  "yoks",
-  "yolk",
-  "yond",
-  "yoni",
-  "yore",
-  "your",
-  "yowe",
-  "yowl",
-  "yows",
-  "yuan",
-  "yuca",
-  "yuch",
-  "yuck",
-  "yuga",
-  "yuks",
-  "yule",
-  "yups",
-  "yurt",
-  "ywis",
-  "zags",
-  "zany",
-  "zaps",
-  "zarf",
-  "zeal",
-  "zebu",
-  "zeds",
-  "zees",
-  "zein",
-  "zeks",
-  "zerk",
-  "zero",
-  "zest",
-  "zeta",
-  "zigs",
-  "zill",
-  "zinc",
-  "zing",
-  "zins",
-  "zips",
-  "ziti",
-  "zits",
-  "zoea",
-  "zoic",
-  "zone",
-  "zonk",
-  "zoom",
-  "zoon",
-  "zoos",
-  "zori",
-  "zyme",
-];
+export const words =
+  "4|0aahs2ls1bas2ba3e2ed3t2le3y2os2ri2ut2ye3s1ced3s2he3y2id2me2ne2re2ta3s2yl1dds2it2os2ze1eon2ro3y0afar1gar3s2ed3e3r3s2ha2in3o2ly2ma2og3n2ue1hem2oy1ide3s2ls2ms2ns2rn3s3t3y2ts1jar2ee1kee2in1lae0alan3r3s2ba3s2ec3e3f3s2fa2ga2if3t2ky2ls3y2ma3e3s2oe3w2ps2so2to3s2um1mah3s2bo2en2ia3d0amie3n3r3s2mo2ok2ps2us2yl1nal3s2ds2es3w2ga2il3s2kh2na2oa3n2sa2ta3e3i3s2us1ped3r3s3x2od0apse1qua1rak2bs2ch3o3s2ea3s2fs2ia3d3l2ks2ms3y2se2ts3y2um2vo2yl1sci2ea2hy2ks2ps1tap2es2ma2om3p0auks2ld2nt2ra2to1ver3s2id2os3w1way2ed3e3s2ls2ns3y2ol2ry1xal2ed3l3s2il3s2le2on1yah2es2in1zan2on0baal3s2ba3e3u3y2ch3k2de3s2ff2gs2ht2il3t2ke2ld3e3k3l3m3s2ms2nd3e3g3i3k3s2ps2rb3d0bare3f3k3m3n3s2se3h3k3s3t2te3h3s3t2ud2wd3l2ys1ead3k3m3n3r3t3u2ck2ds3u2ef3n3p0beer3s3t2gs2ll3s3t2ma2nd3e3s3t2rg3m2st2ta3h3s2vy2ys1hut1ias2bb3s2ce2de3s2er2ff2gs2ke2le0bilk3l2ma2nd3e3s3t2os2rd3k3l3r2se3k2te3s3t2ze1lab3e3h3m3t3w2eb3d3t3w2in3p2ob3c0blot3w2ub3e3r1oar3s3t2bs2ck2de3s3y2ff2gs3y2il2la3d3e3l3o3t2mb2nd3e3g3k3y2ob3k3m0boon3r3s3t2ps2ra3e3n3t2sh3k3s2ta3h3s3t2ut2wl3s2xy2yo3s2zo1rad3e3g3n3s3t3w3y2ed0bree3n3w2ie3g3m3n3o3s3t2oo3s3w2rr2ut1ubo3s2ck2ds2ff2gs2hl3r2lb3k3l2mf3p3s2nd3g3k0bunn3s3t2oy2ra3d3g3l3n3p3r3s3y2sh3k3s3t3y2te3s3t2ys2zz1yes2re3l2te0cabs2ca2de3i3s0cafe3f2ge3y2id3n2ke3y2lf3k3l3m3o3x2me3p3s2ne3s3t2pe3h3o3s2rb3d3e3k3l3n3p3r0cars3t2sa3e3h3k3t2te3s2ul2ve3y2ws2ys1eca2de3i2es2il2ll3s3t2nt2pe3s2re3o2ss2te1had3m3o0chap3r3t3w3y2ef3w3z2ia3c3d3n3p3s3t2on3p3w2ub3g3m1iao2ne2on2re2st2te3y1lad3g3m3n0clap3w3y2ef3w2ip2od3g3n3p3t3y2ub3e1oal3t3x2bb3s2ca3k3o2da3e3s2ed2ff3t2gs2ho2if3l0coin3r2ke2la3d3e3s3t3y2ma3b3e3p2ne3i3k3n3s3y2of3k3l3n3p3s3t2pe3s3y2rd3e3f0cork3m3n3y2sh3s3t3y2te3s2up2ve2wl3s3y2xa2ys2zy1rab3g3m3p3w2ew2ib3s2oc3p3w2ud3s3x0cube3s2ds2ed3s2ff2if2ke2ll3m3t2nt2ps2rb3d3e3f3l3n3r3s3t2sk3p3s2te3s1wms1yan2ma3e2st0czar0dabs2ce2da3o3s2ff3t2go3s2hl3s2is2ks2le3s2me3n3p3s2ng3k2ps2rb3e3k3n3t2sh2ta3e3o0daub3t2vy2wk3n3s3t2ys2ze1ead3f3l3n3r2bs3t2ck3o2ed3m3p3r3s3t2fi3t3y2il2ke2le3f3i0dell3s2me3o3y2ne3s3t3y2re3m2sk2va3s2ws3y2xy2ys1hak3l2ow1ial2bs2ce3k2do3y2ed3l3s3t2gs0dike2ll2me3s2ne3g3k3s3t2ol2ps3t2re3k3l3t2sc3h3k3s2ta3e3s3z2va3e1jin1oat2by2ck3s2do0doer3s2ff2ge3s3y2it2jo2le3l3s3t2me3s2na3e3g3s2om3r2pa3e3y2re3k3m3p3r3s3y2se3s0dost2te3h3s3y2um3r3x2ve2wn3s2xy2ze3y1rab3g3m3t3w3y2ee3g3k3w2ib3p2op2ub3g3m2ys1uad0dual2bs2ce3i3k3t2de3s2el3s3t2ff2gs2it2ke2ll3y2ma3b3p2ne3g3k3s3t2os2pe3s2ra3e3n3o0durr2sk3t2ty1yad2ed3r3s2ke2ne0each2rl3n3s2se3t3y2th3s2ux2ve1bbs2on1che3o2ru2us1ddo3y2ge3y2hs0edit1els3y2ry1ffs2ts1gad3l2er2gs3y2is2os1ide1ked3s1lan2ds2hi2ks2ls2ms3y2se1mes3u2fs2ic3r3t2us2yd0ends2gs2ol3w2vy1ons1pee2ha2ic2os1ras2go3s2ne3s2os2rs2st1ses2py1tas2ch2hs2ic2na2ui1uro1ven3r3s2il1wer0ewes1xam2ec3s2it2on2po1yas2ed3n3r3s2ne2ra3e3y0face3t2de3o3s2gs2il3n3r2ke2ll3x2me2ne3g3o0fans2rd3e3l3m3o3t2sh3t2te3s2un3x2va3e2wn2ys2ze1eal3r3t2ck2ds2ed3l3s3t2hs2ll3t2me3s0fend3s2od2re3n2ss2ta3e3s2ud3s1iar3t2bs2ce3o2do3s2ef2fe2gs2la3e3l3m3o3s2nd3e3k3o3s0fire3m3n3s2sc3h3t2ts2ve2xt2zz1lab3g3k3m3n3p3t3w3x3y2ea3d3e3w3x3y2ic3p3t2oc3e0flog3p3w2ub3e3s3x1oal3m2bs2ci2es2gs3y2hn2il3n2ld3k2nd3s3t2od3l3t2ps2ra3b3d3e3k3m0fort2ss2ul3r2wl2xy2ys2zy1rae3g3p3t3y2ee3t2ig3t3z2oe3g3m3w2ug1ubs2ci3k2ds2el2gs3u2ji2ll0fume3y2nd3k3s2rl3s3y2se3s2tz2ze3z1yce2ke0gabs3y2di3s2ed3n3s2ff2ga3e3s2in3t2la3e3l3s0gama3b3e3p3s3y2ne3g2ol2pe3s3y2rb3s2sh3p3t2te3s2ud3m3n3r2ve2wk3p2ys2ze1ear2ck2ds2ed0geek3s3z2ld3s3t2ms2ne3s3t3u2rm2st2ta3s2um1hat2ee2is1ibe3s2ds2ed3n3s2ft2ga3s2ld3l3t2mp0gink3s2ps2rd3l3n3o3t2st2ts2ve1lad2ed3e3g3n3y2ia3b3m2ob3m3p3w2ue3g3m3t1nar3t3w2us0goad3l3s3t2bo3s3y2ds2er3s2go2ld3f2ne3g2od3f3k3n3p3s2re3p3y2sh2ut2wd3k3n2ys1rab3d0gram3n3t3y2ee3w3y2id3g3m3n3p3t2og3t3w2ub3e3m1uan3r2ck2de2ff2id2lf3l3p3s2ms2nk3s0guru2sh3t2ts2vs2ys1ybe2ms2ps2re3i3o2ve0haaf3r2bu2ck2de3j2ed3m3n3s3t2ft2gs2ha3s2ik3l3r2ji0hajj2ke2le3f3l3m3o3t2me3s2nd3g3k3t2ps2rd3e3k3l3m3p3t2sh3p3t2te3h3s2ul3t2ve2wk0haws2ys2ze3y1ead3l3p3r3t2be2ck2ed3l2ft2hs2il3r2ld3l3m3o3p2me3p3s2ns3t2rb3d3e3l3m0hern3o3s2st2th3s2wn3s1ick2de2ed3s2gh2ke2la3i3l3t2nd3s3t2ps2re2sn3s3t2ts2ve1oar3x2bo3s0hock2ds2ed3r3s2gg3s2ke2ld3e3k3m3p3s3t3y2me3o3y2ne3g3k3s2od3f3k3p3t2pe3s2ra3n0hose3t2ts2ur2ve2we3f3k3l3s2ya3s1ubs2ck2ed3s2ff2ge3s2ic2la3k3l2mp3s2ng3h3k3s3t2rl3t0hush3k2ts1wan1yla2mn2pe3o3s2te0iamb1bex2is1ced3s2hs2ky2on1dea3m3s2le3y2ol2yl1ffy1glu1kat2on1lea3x2ia0ilka3s2ls3y1mam2id2my2pi3s1nby2ch2fo2ia2ks3y2ly2ns2ro2ti3o1ons2ta1red3s2id3s2ks2on1sba2le2ms1tch0item1wis1xia1zar0jabs2ck2de2gg3s2il2ke2mb3s2ne2pe2rl3s2to2uk3p2va2ws2ys2zz1ean2ed3p3r3s3z2fe2hu0jell2on2rk2ss3t2te3s2ux2ws1iao2bb3e3s2ff2gs2ll3t2mp2nk3n3s3x2sm2ve1obs2ck2es3y2gs2hn2in2ke0joky2le3t2sh3s2ta3s2uk2wl3s2ys1uba3e2do2ga3s2ju2ke2mp2nk2pe2ra3y2st2te3s0kaas2bs2di2es2fs2gu0kaif3l3n2ka3i2le2me3i2na3e2on2pa3h2rn3t2ta3s2va2yo3s1bar1eas2ck2ef3k3l3n3p3t2fs2gs2ir0kelp2mp2no3s3t2pi3s3t2rb3f3n2to2ys1haf3n3t2et2is1ibe2ck2ds2ef3r2fs2ke2ll3n3o3t2na3d3e0king3k3o3s2ps2rk3n3s2ss3t2te3h3s2va2wi1nap3r2ee3w2it2ob3p3t3w2ur1oan3s2bo3s2el2hl2la0kolo2nk2ok2ph3s2re3s2ss2to1ris1udo3u2es2ru1vas1yak3r3t2te0labs2ce3k3s3y2de3s3y2gs2ic3d3n3r0lake3h3y2ll2ma3b3e3p3s2nd3e3g3k2ps2rd3i3k3s2se3h3s3t2te3h3i3s2ud2va3e3s2wn3s0lays2ze3y1ead3f3k3l3n3p3r3s2ch2ek3r3s3t2ft2gs2hr2is2ke3s3u2nd3o3s3t2pt2ss3t2ts2ud0leva3o3y2wd2ys1iar2bs2ce3h3k2do3s2ed3f3n3r3s3u2fe3t2ke2lt3y2ma3b3e3n3o3p3y2ne3g0link3n3o3s3t3y2on2ps2ra3e3i2sp3t2te3s3u2ve1oad3f3m3n2be3o3s2ca3h3i3k3o2de2ft2ge0logo3s3y2in2ll2ne3g2of3k3m3n3p3s3t2pe3s2rd3e3n3y2se3s3t2ta3h3i3s2ud3p3r3t2ve0lowe3n3s1uau2be2ce3k2de2es2ff2ge3s2ll3u2mp3s2na3e3g3k3t3y2re3k2sh3t2te3z2vs2xe1wei1yes0lynx2re2se0maar2be2ce3h3k3s2de3s2es2ge3i3s2id3l3m3n3r2ke3o2le3l3m3t2ma2na3e3o3s3y0maps2rc3e3k3l3s3t2sh3k3s3t2te3h3s3t2ud3l3n3t2wn3s2xi2ya3o3s2ze3y1ead3l3n3t2ed0meek3t2ld3l3s3t2mo3s2nd3o3u2ou3w2re3k3l2sa3h3s2ta3e3h2wl3s2ze1hos1ibs2ca3e3k2di3s0mien2ff2gg3s2ke2ld3e3k3l3o3s3t2me2na3d3e3i3k3t3x2re3i3k3s3y2se3o3s3t2te3t3y0mixt1oan3s3t2bs2ck3s2de3i3s2gs2il2jo2ke2la3d3e3l3s3t3y2me3i3s2nk3o3s3y2od3l3n3r0moos3t2pe3s3y2ra3e3n3s3t2sk3s3t2te3h3s3t2ue2ve2wn3s2xa2zo1uch3k2ds2ff2gg3s2le3l2mm0mump3s3u2ni3s2on2ra3e3k3r2se3h3k3s3t2te3s3t1yna2th0naan2be3s2da2gs2if3l2me2na3s2oi3s0nape3s2rc3d3k3y2ve3y2ys2zi1eap3r3t2bs2ck2ed3m3p2if2ma2ne2on2rd2ss3t2ts3t2uk3m2ve3i2ws0newt2xt1ibs2ce3k2de3i2gh2ll3s2ms2ne2pa3s2si2te3s2xe3y1obs2ck2de3i3s2el3s2gg3s2il3r2lo2ma0nome3s2na3e2ok3n2pe2ri3m2se3h3y2ta3e2un3s2va2ws3t1ubs2de2ke2ll2mb2ns2rd3l2ts0oafs2ks2rs2st0oath3s1bes3y2ia3s3t2oe3l1cas1dds2ea3s2ic2or2yl1fay2fs1gam2ee2le2re1hed2ia2ms1ils3y2nk1kas3y2eh3s0okra1lds3y2ea3o3s2io2la1men3r2it1nce2es2ly2to2us2yx1ohs2ps2ts2ze3y1pah3l2ed3n3s2ts2us1rad3l2bs0orby2ca3s2do2es2gy2le2ra2ts2yx2zo1sar2es2sa1tic2to1uch2ds2ph2rs2st2ts2zo1val2en3r2um1wed3s2ls2ns2se0oxen3s2id3m1yer3s3z0paca3e3k3s3t2di3s2ge2id3k3l3n3r2le3l3m3p3s3y2ms2ne3g3s3t2pa0paps2ra3d3e3k3r3s3t2se3h3s3t2te3h3s3y2ve2wl3n3s2ys1eag3k3l3n3r3s3t2ch3k3s2ds0peed3k3l3n3p3r3s2gs2hs2in2ke2le3f3t2nd3s3t2on2po3s2ri3k3m3t2so3t2ts2ws1fft2ui1hat2ew0phis3z2on3t2ut1ial3n3s2ca3e3k3s2ed3r3s2gs2ka3e3i2le3i3l3y2ma3p2na3e3g3k3s3t3y0pion2pe3s3y2rn2sh3o3s2ta3h3s3y2xy1lan3t3y2ea3b3d3w2ie2od3p3t3w3y2ug3m3s1ock3o2ds0poem3t2gy2is2ke3y2le3l3o3s3y2me3p3s2nd3e3g3s3y2od3f3h3l3n3p3r2pe3s2re3k3n3t0pose3h3t3y2ts2uf3r3t2ws1ram3o3t3u3y2ee3p3x3y3z2ig3m2oa3d3f3g3m3p3s3w1sis2st1ubs0puce3k2ds2ff2gh3s2ja2ke2la3e3i3l3p3s2ma3p2na3g3k3s3t3y2pa3s2re3i3l3r3s2sh3s2ts0putt3z1yas2es2ic3n2re0qaid2ts1oph1uad3g3i3y2ey2id3n3p3t3z2od0race3k3y2ds2ff3t2ga3e3i3s2ia0raid3l3n2ja2ke3i2le2mi3p3s2nd3g3i3k3t2pe3s3t2re2se3h3p2te3h3o3s2ve2ws2ya3s2ze3z0read3l3m3p3r2bs2ck3s2dd3e3o3s2ed3f3k3l3s2fs3t2gs2if3n3s2ly2ms2nd3t2po3p3s2sh3t0rete3s2vs1hea2os2us1ial3s2bs2ce3h3k2de3s2el2fe3f3s3t2gs2le3l2me3s3y2nd3g3k3s2ot2pe3s0rise3k2te3z2ve1oad3m3n3r2be3s2ck3s2de3s2es2il2le3f3l2mp3s2od3f3k3m3t2pe3y2se3y2ta0rote3i3l3o3s2ue3p3t3x2ve2ws1ube3s3y2ck2dd3e2ed3r3s2ff2ga3s2in2le3y2mp3s2ne3g3s3t0ruse3h3k3t2th3s1yas2es2ke2nd2ot0sabe3s2ck3s2de3i2fe2ga3e3o3s3y2id3l3n2ke3i2le3l3p3s0salt2me3p2nd3e3g3k3s2ps2rd3i3k2sh3s2te3i2ul2ve2wn3s2ys1cab3d3g3m3n3r3t2op3t3w2ry0scud3m3p3t1eal3m3r3s3t2cs3t2ed3k3l3m3n3p3r3s2go3s2if3s2lf3l3s2me3i2nd3e3t2pt0sera3e3f3s2ta3s3t2wn3s2xt3y1had3g3h3m3t3w3y2ea3d3s3w2im3n3p3t3v2mo2od3e3g3o0shop3t3w2ri2ul3n3t1ial2bb3s2ce3k3s2de2ft2gh3n2ke2ld3k3l3o3t2ma3p3s2ne3g3h3k3s2pe0sips2re3s2te3h3s2ze3y1kag3s3t2ee3g3p3w2id3m3n3p3s3t2ua1lab3g3m3p3t3w3y2ed3w2id0slim3p3t2ob3e3g3p3t3w2ub3e3g3m3r3t1mew2it2og2ug3t1nag3p3w2ed2ib3p3t2ob3g3t3w2ub0snug2ye1oak3p3r2bs2ck2da3s2fa3t2il2ja2ke2la3d3e3i3o3s2ma3e2ne3g3s2ok3n3t2ph3s2ra3b0sord3e3i3n3t2th3s2uk3l3p3r3s2wn3s2ya3s1pae3n3r3s3t3y3z2ec3d3w2ic3k3n3t3v2ot0spry2ud3e3n3r1ris1tab3g3r3t3w3y2em3p3t3w3y2ir2oa3b3p3w2ub3d3m3n2ye1uba3s2ch3k2dd0suds2ed3r3s3t2gh2it2lk3u2mo3p3s2ng3k3n3s2pe3s2qs2ra3d3e3f2ss1wab3g3m3n3p3t3y2ig0swim2ob3p3t2um1ybo2ce2ke2li2nc3e2ph0tabs3u2ce3h3k3o3t2ds2el2gs2hr2il3n2ka3e2la3c3e3i3k0tall2me3p3s2ng3k3s2os2pa3e3s2re3n3o3p3s3t2sk3s2te3s2us3t2vs2ws2xa3i1eak3l3m3r3s0teat2ds2ed3l3m3n3s2ff2gs2la3e3l3s2mp2nd3s3t2pa2rm3n2st2th3s2ws2xt1hae3n3t3w2ee3m3n0thew3y2in3o3r3s2ou2ro3u2ud3g3s1ick3s2de3y2ed3r3s2ff2ke3i2le3l3s3t2me2ne3g3s3t3y0tipi3s2re3l3o2ti3s2vy1oad2by2ds3y2ea3d3s2ff3t3u2ga3s2il3t2ke2la3d3e3l3u2mb3e3s2ne0tong3s3y2ok3l3m3n3t2pe3h3i3s2ra3c3e3i3n3o3r3s3t3y2sh3s3t2te3s2ur3t2wn3s3y0toyo3s1rad3m3p3y2ee3f3k3t3y2ig3m3o3p2od3p3t3w3y2ue3g1sar2ks1uba3e3s2ck2fa3f3t2gs0tuis2le2mp2na3e3g3s2ps2rd3f3k3n2sh3k2ts3u1wae3s3t2ee2ig3n3t2os1yee3r3s2ke2ne2pe3o3p0typy2re3o1zar0udos1ghs2ly1kes1lan2na2us2va1mbo2ps1nai3u2be2ci3o2de3o3y2it2to1pas2by2do2on1rbs2ds2ea2ge0uric2ns2sa2us1sed3r3s1tas1vea0vacs2gi2il3n3r2le2mp2ne3g3s2ra3s3y2sa3e3t2ts3u2us2vs2ws1eal2ep0veer3s2il3n2la3d2na3d3t2ra3b3t3y2st2to3s2xt1ial2be2ce2de2ed3r3s3w2ga3s2le3l2ms2na3e0vino3y2ol2rl2sa3e2ta2va3e1oes2id2le3t2te2ws1row1ugg3h3s0wabs2ck2de3i3s3y2es2ff3t2ge3s2if3l0wain3r3t2ke2le3k3l3y2me2nd3e3s3t3y2ps2rd3e3k3m3n3p3s3t3y2sh3p3t2ts3t2uk3l3r0wave3y2wl3s2xy2ys1eak3l3n3r2bs2ds2ed3k3l3n3p3r3s3t2ft2ir2ka2ld3l3t2nd3s3t2pt2re3t0west2ts1ham3p3t2ee3n3t3w3y2id3g3m3n3p3r3t3z2oa3m3p2ys1ich3k2de2fe2gs2ld3e3l3t3y0wimp2nd3e3g3k3o3s3y2pe2re3y2se3h3p3s3t2te3h3s2ve1oad2es2gs2ke3s2ld3f2mb2nk3s3t2od0woof3l3s2ps2rd3e3k3m3n3t2st2ts2ve2ws1rap2en2it1uss1ych2es2le2nd3n3s2te0xyst0yack2ff2gi2ks2ld2ms0yang3k2ps2rd3e3n2ud3p2wl3n3p3s2ys1eah3n3r3s2ch2gg2ld3k3l3p2ns2rk2ti3t2uk2ws1ids2ll2ns0yipe3s2rd3r1lem1obs2ck2dh3s2ga3h3i2ke3s2lk2nd3i2re2ur2we3l3s1uan2ca3h3k2ga2ks2le2ps2rt1wis0zags2ny2ps2rf1eal2bu2ds2es2in2ks2rk3o2st2ta1igs2ll2nc3g3s2ps2ti3s1oea2ic2ne3k2om3n3s2ri1yme";
@@ -4,4 +4,7 @@ import { words as Four } from "./four";
 import { words as Five } from "./five";
 import { words as Six } from "./six";
 
-export const words = new Set(Two.concat(Three).concat(Four).concat(Five).concat(Six));
+// These are packed with `packWords`, since the plain lists are huge. Run
+// `npm run puzzle -- unpack-words --length N` to get one back as a list, and
+// `pack-words` to put it back after editing it.
+export const words = [Two, Three, Four, Five, Six];
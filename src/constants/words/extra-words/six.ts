@@ -1,15233 +1,2 @@
-export const words = [
-  "aahing",
-  "aarrgh",
-  "abacas",
-  "abacus",
-  "abakas",
-  "abamps",
-  "abased",
-  "abaser",
-  "abases",
-  "abasia",
-  "abated",
-  "abater",
-  "abates",
-  "abatis",
-  "abator",
-  "abbacy",
-  "abbess",
-  "abbeys",
-  "abbots",
-  "abduce",
-  "abduct",
-  "abeles",
-  "abelia",
-  "abhors",
-  "abided",
-  "abider",
-  "abides",
-  "abject",
-  "abjure",
-  "ablate",
-  "ablaut",
-  "ablaze",
-  "ablest",
-  "ablins",
-  "abloom",
-  "ablush",
-  "abmhos",
-  "aboard",
-  "aboded",
-  "abodes",
-  "abohms",
-  "abolla",
-  "abomas",
-  "aboral",
-  "aborts",
-  "abound",
-  "aboves",
-  "abrade",
-  "abroad",
-  "abrupt",
-  "abseil",
-  "absent",
-  "absorb",
-  "absurd",
-  "abulia",
-  "abulic",
-  "abused",
-  "abuser",
-  "abuses",
-  "abvolt",
-  "abwatt",
-  "abying",
-  "abysms",
-  "acacia",
-  "acajou",
-  "acarid",
-  "acarus",
-  "accede",
-  "accent",
-  "accept",
-  "access",
-  "accord",
-  "accost",
-  "accrue",
-  "accuse",
-  "acedia",
-  "acetal",
-  "acetic",
-  "acetin",
-  "acetum",
-  "acetyl",
-  "achene",
-  "achier",
-  "aching",
-  "acidic",
-  "acidly",
-  "acinar",
-  "acinic",
-  "acinus",
-  "ackees",
-  "acnode",
-  "acorns",
-  "acquit",
-  "across",
-  "acting",
-  "actins",
-  "action",
-  "active",
-  "actors",
-  "actual",
-  "acuate",
-  "acuity",
-  "aculei",
-  "acumen",
-  "acuter",
-  "acutes",
-  "adages",
-  "adagio",
-  "adapts",
-  "addend",
-  "adders",
-  "addict",
-  "adding",
-  "addled",
-  "addles",
-  "adduce",
-  "adduct",
-  "adeems",
-  "adenyl",
-  "adepts",
-  "adhere",
-  "adieus",
-  "adieux",
-  "adipic",
-  "adjoin",
-  "adjure",
-  "adjust",
-  "admass",
-  "admire",
-  "admits",
-  "admixt",
-  "adnate",
-  "adnexa",
-  "adnoun",
-  "adobes",
-  "adobos",
-  "adonis",
-  "adopts",
-  "adored",
-  "adorer",
-  "adores",
-  "adorns",
-  "adrift",
-  "adroit",
-  "adsorb",
-  "adults",
-  "advect",
-  "advent",
-  "adverb",
-  "advert",
-  "advice",
-  "advise",
-  "adytum",
-  "adzuki",
-  "aecial",
-  "aecium",
-  "aedile",
-  "aedine",
-  "aeneus",
-  "aeonic",
-  "aerate",
-  "aerial",
-  "aeried",
-  "aerier",
-  "aeries",
-  "aerify",
-  "aerily",
-  "aerobe",
-  "aerugo",
-  "aether",
-  "afeard",
-  "affair",
-  "affect",
-  "affine",
-  "affirm",
-  "afflux",
-  "afford",
-  "affray",
-  "afghan",
-  "afield",
-  "aflame",
-  "afloat",
-  "afraid",
-  "afreet",
-  "afresh",
-  "afrits",
-  "afters",
-  "aftosa",
-  "agamas",
-  "agamic",
-  "agapae",
-  "agapai",
-  "agaric",
-  "agates",
-  "agaves",
-  "agedly",
-  "ageing",
-  "ageism",
-  "ageist",
-  "agency",
-  "agenda",
-  "agenes",
-  "agents",
-  "aggers",
-  "aggies",
-  "aggros",
-  "aghast",
-  "agings",
-  "agisms",
-  "agists",
-  "aglare",
-  "agleam",
-  "aglets",
-  "agnail",
-  "agnate",
-  "agnize",
-  "agonal",
-  "agones",
-  "agonic",
-  "agorae",
-  "agoras",
-  "agorot",
-  "agouti",
-  "agouty",
-  "agrafe",
-  "agreed",
-  "agrees",
-  "agrias",
-  "aguish",
-  "ahchoo",
-  "ahimsa",
-  "aholds",
-  "ahorse",
-  "aiders",
-  "aidful",
-  "aiding",
-  "aidman",
-  "aidmen",
-  "aiglet",
-  "aigret",
-  "aikido",
-  "ailing",
-  "aimers",
-  "aimful",
-  "aiming",
-  "aiolis",
-  "airbus",
-  "airers",
-  "airest",
-  "airier",
-  "airily",
-  "airing",
-  "airman",
-  "airmen",
-  "airted",
-  "airths",
-  "airway",
-  "aisled",
-  "aisles",
-  "aivers",
-  "ajivas",
-  "ajowan",
-  "ajugas",
-  "akelas",
-  "akenes",
-  "akimbo",
-  "alamos",
-  "alands",
-  "alanin",
-  "alants",
-  "alanyl",
-  "alarms",
-  "alarum",
-  "alaska",
-  "alated",
-  "alates",
-  "albata",
-  "albedo",
-  "albeit",
-  "albino",
-  "albite",
-  "albums",
-  "alcade",
-  "alcaic",
-  "alcids",
-  "alcove",
-  "alders",
-  "aldols",
-  "aldose",
-  "aldrin",
-  "alegar",
-  "alephs",
-  "alerts",
-  "alevin",
-  "alexia",
-  "alexin",
-  "alfaki",
-  "algins",
-  "algoid",
-  "algors",
-  "algums",
-  "alibis",
-  "alible",
-  "alidad",
-  "aliens",
-  "alight",
-  "aligns",
-  "alined",
-  "aliner",
-  "alines",
-  "aliped",
-  "aliyah",
-  "aliyas",
-  "aliyos",
-  "aliyot",
-  "alkali",
-  "alkane",
-  "alkene",
-  "alkies",
-  "alkine",
-  "alkoxy",
-  "alkyds",
-  "alkyls",
-  "alkyne",
-  "allays",
-  "allees",
-  "allege",
-  "allele",
-  "alleys",
-  "allied",
-  "allies",
-  "allium",
-  "allods",
-  "allots",
-  "allows",
-  "alloys",
-  "allude",
-  "allure",
-  "allyls",
-  "almahs",
-  "almehs",
-  "almner",
-  "almond",
-  "almost",
-  "almuce",
-  "almude",
-  "almuds",
-  "almugs",
-  "alnico",
-  "alodia",
-  "alohas",
-  "aloins",
-  "alpaca",
-  "alphas",
-  "alphyl",
-  "alpine",
-  "alsike",
-  "altars",
-  "alters",
-  "althea",
-  "aludel",
-  "alulae",
-  "alular",
-  "alumin",
-  "alumna",
-  "alumni",
-  "alvine",
-  "always",
-  "amadou",
-  "amarna",
-  "amatol",
-  "amazed",
-  "amazes",
-  "amazon",
-  "ambage",
-  "ambari",
-  "ambary",
-  "ambeer",
-  "ambers",
-  "ambery",
-  "ambits",
-  "ambled",
-  "ambler",
-  "ambles",
-  "ambush",
-  "amebae",
-  "ameban",
-  "amebas",
-  "amebic",
-  "ameers",
-  "amends",
-  "aments",
-  "amerce",
-  "amices",
-  "amicus",
-  "amides",
-  "amidic",
-  "amidin",
-  "amidol",
-  "amidst",
-  "amigas",
-  "amigos",
-  "amines",
-  "aminic",
-  "ammine",
-  "ammino",
-  "ammono",
-  "amnion",
-  "amoeba",
-  "amoles",
-  "amoral",
-  "amount",
-  "amours",
-  "ampere",
-  "ampler",
-  "ampule",
-  "ampuls",
-  "amrita",
-  "amtrac",
-  "amucks",
-  "amulet",
-  "amused",
-  "amuser",
-  "amuses",
-  "amusia",
-  "amylic",
-  "amylum",
-  "anabas",
-  "anadem",
-  "anally",
-  "analog",
-  "ananke",
-  "anarch",
-  "anatto",
-  "anchor",
-  "ancone",
-  "anears",
-  "aneled",
-  "aneles",
-  "anemia",
-  "anemic",
-  "anenst",
-  "anergy",
-  "angary",
-  "angels",
-  "angers",
-  "angina",
-  "angled",
-  "angler",
-  "angles",
-  "angora",
-  "angsts",
-  "anilin",
-  "animal",
-  "animas",
-  "animes",
-  "animis",
-  "animus",
-  "anions",
-  "anises",
-  "anisic",
-  "ankled",
-  "ankles",
-  "anklet",
-  "ankush",
-  "anlace",
-  "anlage",
-  "annals",
-  "anneal",
-  "annexe",
-  "annoys",
-  "annual",
-  "annuli",
-  "annuls",
-  "anodal",
-  "anodes",
-  "anodic",
-  "anoint",
-  "anoles",
-  "anomic",
-  "anomie",
-  "anonym",
-  "anopia",
-  "anorak",
-  "anoxia",
-  "anoxic",
-  "ansate",
-  "answer",
-  "anteed",
-  "anthem",
-  "anther",
-  "antiar",
-  "antick",
-  "antics",
-  "anting",
-  "antler",
-  "antral",
-  "antres",
-  "antrum",
-  "anural",
-  "anuran",
-  "anuria",
-  "anuric",
-  "anuses",
-  "anvils",
-  "anyhow",
-  "anyone",
-  "anyway",
-  "aorist",
-  "aortae",
-  "aortal",
-  "aortas",
-  "aortic",
-  "aoudad",
-  "apache",
-  "apathy",
-  "apercu",
-  "apexes",
-  "aphids",
-  "aphtha",
-  "apiary",
-  "apical",
-  "apices",
-  "apiece",
-  "aplite",
-  "aplomb",
-  "apneal",
-  "apneas",
-  "apneic",
-  "apnoea",
-  "apodal",
-  "apogee",
-  "apollo",
-  "apolog",
-  "appall",
-  "appals",
-  "appeal",
-  "appear",
-  "appels",
-  "append",
-  "apples",
-  "appose",
-  "aprons",
-  "aptest",
-  "arabic",
-  "arable",
-  "aramid",
-  "arbors",
-  "arbour",
-  "arbute",
-  "arcade",
-  "arcana",
-  "arcane",
-  "arched",
-  "archer",
-  "arches",
-  "archil",
-  "archly",
-  "archon",
-  "arcing",
-  "arcked",
-  "arctic",
-  "ardebs",
-  "ardent",
-  "ardors",
-  "ardour",
-  "arecas",
-  "arenas",
-  "areola",
-  "areole",
-  "aretes",
-  "argala",
-  "argali",
-  "argals",
-  "argent",
-  "argils",
-  "argled",
-  "argles",
-  "argols",
-  "argons",
-  "argosy",
-  "argots",
-  "argued",
-  "arguer",
-  "argues",
-  "argufy",
-  "argyle",
-  "argyll",
-  "arhats",
-  "arider",
-  "aridly",
-  "ariels",
-  "aright",
-  "ariled",
-  "ariose",
-  "ariosi",
-  "arioso",
-  "arisen",
-  "arises",
-  "arista",
-  "aristo",
-  "arkose",
-  "armada",
-  "armers",
-  "armets",
-  "armful",
-  "armies",
-  "arming",
-  "armlet",
-  "armors",
-  "armory",
-  "armour",
-  "armpit",
-  "armure",
-  "arnica",
-  "aroids",
-  "aroint",
-  "aromas",
-  "around",
-  "arouse",
-  "aroynt",
-  "arpens",
-  "arpent",
-  "arrack",
-  "arrant",
-  "arrays",
-  "arrear",
-  "arrest",
-  "arrive",
-  "arroba",
-  "arrows",
-  "arrowy",
-  "arroyo",
-  "arseno",
-  "arshin",
-  "arsine",
-  "arsino",
-  "arsons",
-  "artels",
-  "artery",
-  "artful",
-  "artier",
-  "artily",
-  "artist",
-  "asanas",
-  "asarum",
-  "ascend",
-  "ascent",
-  "ascots",
-  "asdics",
-  "ashcan",
-  "ashier",
-  "ashing",
-  "ashlar",
-  "ashler",
-  "ashman",
-  "ashmen",
-  "ashore",
-  "ashram",
-  "asides",
-  "askant",
-  "askers",
-  "asking",
-  "aslant",
-  "asleep",
-  "aslope",
-  "aspect",
-  "aspens",
-  "aspers",
-  "aspics",
-  "aspire",
-  "aspish",
-  "asrama",
-  "assail",
-  "assais",
-  "assays",
-  "assent",
-  "assert",
-  "assess",
-  "assets",
-  "assign",
-  "assist",
-  "assize",
-  "assoil",
-  "assort",
-  "assume",
-  "assure",
-  "astern",
-  "asters",
-  "asthma",
-  "astony",
-  "astral",
-  "astray",
-  "astute",
-  "aswarm",
-  "aswirl",
-  "aswoon",
-  "asylum",
-  "atabal",
-  "ataman",
-  "atavic",
-  "ataxia",
-  "ataxic",
-  "atelic",
-  "atlatl",
-  "atmans",
-  "atolls",
-  "atomic",
-  "atonal",
-  "atoned",
-  "atoner",
-  "atones",
-  "atonic",
-  "atopic",
-  "atrial",
-  "atrium",
-  "attach",
-  "attack",
-  "attain",
-  "attars",
-  "attend",
-  "attent",
-  "attest",
-  "attics",
-  "attire",
-  "attorn",
-  "attune",
-  "atwain",
-  "atween",
-  "atypic",
-  "aubade",
-  "auburn",
-  "aucuba",
-  "audads",
-  "audial",
-  "audile",
-  "auding",
-  "audios",
-  "audits",
-  "augend",
-  "augers",
-  "aughts",
-  "augite",
-  "augurs",
-  "augury",
-  "august",
-  "auklet",
-  "aulder",
-  "auntie",
-  "auntly",
-  "aurate",
-  "aureus",
-  "aurist",
-  "aurora",
-  "aurous",
-  "aurums",
-  "auspex",
-  "ausubo",
-  "auteur",
-  "author",
-  "autism",
-  "autoed",
-  "autumn",
-  "auxins",
-  "avails",
-  "avatar",
-  "avaunt",
-  "avenge",
-  "avenue",
-  "averse",
-  "averts",
-  "avians",
-  "aviary",
-  "aviate",
-  "avidin",
-  "avidly",
-  "avions",
-  "avisos",
-  "avocet",
-  "avoids",
-  "avoset",
-  "avouch",
-  "avowal",
-  "avowed",
-  "avower",
-  "avulse",
-  "awaits",
-  "awaked",
-  "awaken",
-  "awakes",
-  "awards",
-  "aweary",
-  "aweigh",
-  "aweing",
-  "awhile",
-  "awhirl",
-  "awless",
-  "awmous",
-  "awning",
-  "awoken",
-  "axeman",
-  "axemen",
-  "axenic",
-  "axilla",
-  "axioms",
-  "axions",
-  "axised",
-  "axises",
-  "axites",
-  "axlike",
-  "axonal",
-  "axones",
-  "axonic",
-  "axseed",
-  "azalea",
-  "azides",
-  "azines",
-  "azlons",
-  "azoles",
-  "azonal",
-  "azonic",
-  "azoted",
-  "azotes",
-  "azoths",
-  "azotic",
-  "azures",
-  "azygos",
-  "baaing",
-  "baalim",
-  "baases",
-  "babble",
-  "babels",
-  "babied",
-  "babies",
-  "babkas",
-  "babool",
-  "baboon",
-  "baboos",
-  "babuls",
-  "baccae",
-  "bached",
-  "baches",
-  "backed",
-  "backer",
-  "backup",
-  "bacons",
-  "bacula",
-  "badass",
-  "badder",
-  "baddie",
-  "badged",
-  "badger",
-  "badges",
-  "badman",
-  "badmen",
-  "baffed",
-  "baffle",
-  "bagass",
-  "bagels",
-  "bagful",
-  "bagged",
-  "bagger",
-  "baggie",
-  "bagman",
-  "bagmen",
-  "bagnio",
-  "baguet",
-  "bagwig",
-  "bailed",
-  "bailee",
-  "bailer",
-  "bailey",
-  "bailie",
-  "bailor",
-  "bairns",
-  "baited",
-  "baiter",
-  "baizas",
-  "baizes",
-  "bakers",
-  "bakery",
-  "baking",
-  "balata",
-  "balboa",
-  "balded",
-  "balder",
-  "baldly",
-  "baleen",
-  "balers",
-  "baling",
-  "balked",
-  "balker",
-  "ballad",
-  "balled",
-  "baller",
-  "ballet",
-  "ballon",
-  "ballot",
-  "ballsy",
-  "balsam",
-  "balsas",
-  "bamboo",
-  "bammed",
-  "banana",
-  "bancos",
-  "banded",
-  "bander",
-  "bandit",
-  "bandog",
-  "banged",
-  "banger",
-  "bangle",
-  "banian",
-  "baning",
-  "banish",
-  "banjax",
-  "banjos",
-  "banked",
-  "banker",
-  "banned",
-  "banner",
-  "bannet",
-  "bantam",
-  "banter",
-  "banyan",
-  "banzai",
-  "baobab",
-  "barbal",
-  "barbed",
-  "barbel",
-  "barber",
-  "barbes",
-  "barbet",
-  "barbut",
-  "barded",
-  "bardes",
-  "bardic",
-  "barege",
-  "barely",
-  "barest",
-  "barfed",
-  "barfly",
-  "barged",
-  "bargee",
-  "barges",
-  "barhop",
-  "baring",
-  "barite",
-  "barium",
-  "barked",
-  "barker",
-  "barley",
-  "barlow",
-  "barman",
-  "barmen",
-  "barmie",
-  "barong",
-  "barons",
-  "barony",
-  "barque",
-  "barred",
-  "barrel",
-  "barren",
-  "barres",
-  "barret",
-  "barrio",
-  "barrow",
-  "barter",
-  "baryes",
-  "baryon",
-  "baryta",
-  "baryte",
-  "basalt",
-  "basely",
-  "basest",
-  "bashaw",
-  "bashed",
-  "basher",
-  "bashes",
-  "basics",
-  "basify",
-  "basils",
-  "basing",
-  "basins",
-  "basion",
-  "basked",
-  "basket",
-  "basque",
-  "basses",
-  "basset",
-  "bassly",
-  "bassos",
-  "basted",
-  "baster",
-  "bastes",
-  "batboy",
-  "bateau",
-  "bathed",
-  "bather",
-  "bathes",
-  "bathos",
-  "batiks",
-  "bating",
-  "batman",
-  "batmen",
-  "batons",
-  "batted",
-  "batten",
-  "batter",
-  "battik",
-  "battle",
-  "battue",
-  "baubee",
-  "bauble",
-  "baulks",
-  "baulky",
-  "bawbee",
-  "bawdry",
-  "bawled",
-  "bawler",
-  "bawtie",
-  "bayamo",
-  "bayard",
-  "baying",
-  "bayman",
-  "baymen",
-  "bayous",
-  "bazaar",
-  "bazars",
-  "bazoos",
-  "beachy",
-  "beacon",
-  "beaded",
-  "beadle",
-  "beagle",
-  "beaked",
-  "beaker",
-  "beamed",
-  "beaned",
-  "beanie",
-  "beanos",
-  "beards",
-  "bearer",
-  "beasts",
-  "beaten",
-  "beater",
-  "beauts",
-  "beauty",
-  "beaver",
-  "bebops",
-  "becalm",
-  "became",
-  "becaps",
-  "becked",
-  "becket",
-  "beckon",
-  "beclog",
-  "become",
-  "bedamn",
-  "bedaub",
-  "bedbug",
-  "bedded",
-  "bedder",
-  "bedeck",
-  "bedell",
-  "bedels",
-  "bedews",
-  "bedims",
-  "bedlam",
-  "bedpan",
-  "bedrid",
-  "bedrug",
-  "bedsit",
-  "beduin",
-  "bedumb",
-  "beebee",
-  "beechy",
-  "beefed",
-  "beeped",
-  "beeper",
-  "beetle",
-  "beeves",
-  "beezer",
-  "befall",
-  "befell",
-  "befits",
-  "beflag",
-  "beflea",
-  "befogs",
-  "befool",
-  "before",
-  "befoul",
-  "befret",
-  "begall",
-  "begaze",
-  "begets",
-  "beggar",
-  "begged",
-  "begins",
-  "begird",
-  "begirt",
-  "beglad",
-  "begone",
-  "begrim",
-  "begulf",
-  "begums",
-  "behalf",
-  "behave",
-  "behead",
-  "beheld",
-  "behest",
-  "behind",
-  "behold",
-  "behoof",
-  "behove",
-  "behowl",
-  "beiges",
-  "beings",
-  "bekiss",
-  "beknot",
-  "belady",
-  "belaud",
-  "belays",
-  "beldam",
-  "beleap",
-  "belfry",
-  "belgas",
-  "belied",
-  "belief",
-  "belier",
-  "belies",
-  "belike",
-  "belive",
-  "belled",
-  "belles",
-  "bellow",
-  "belong",
-  "belows",
-  "belted",
-  "belter",
-  "beluga",
-  "bemata",
-  "bemean",
-  "bemire",
-  "bemist",
-  "bemixt",
-  "bemoan",
-  "bemock",
-  "bemuse",
-  "bename",
-  "benday",
-  "bended",
-  "bendee",
-  "bender",
-  "bendys",
-  "benign",
-  "bennes",
-  "bennet",
-  "bennis",
-  "benumb",
-  "benzal",
-  "benzin",
-  "benzol",
-  "benzyl",
-  "berake",
-  "berate",
-  "bereft",
-  "berets",
-  "berime",
-  "berlin",
-  "bermes",
-  "bertha",
-  "berths",
-  "beryls",
-  "beseem",
-  "besets",
-  "beside",
-  "besmut",
-  "besnow",
-  "besoms",
-  "besots",
-  "bested",
-  "bestir",
-  "bestow",
-  "bestud",
-  "betake",
-  "betels",
-  "bethel",
-  "betide",
-  "betime",
-  "betise",
-  "betons",
-  "betony",
-  "betook",
-  "betray",
-  "bettas",
-  "betted",
-  "better",
-  "bettor",
-  "bevels",
-  "bevies",
-  "bevors",
-  "bewail",
-  "beware",
-  "beweep",
-  "bewept",
-  "bewigs",
-  "beworm",
-  "bewrap",
-  "bewray",
-  "beylic",
-  "beylik",
-  "beyond",
-  "bezant",
-  "bezazz",
-  "bezels",
-  "bezils",
-  "bezoar",
-  "bhakta",
-  "bhakti",
-  "bhangs",
-  "bharal",
-  "bhoots",
-  "bialis",
-  "bialys",
-  "biased",
-  "biases",
-  "biaxal",
-  "bibbed",
-  "bibber",
-  "bibles",
-  "bicarb",
-  "biceps",
-  "bicker",
-  "bicorn",
-  "bicron",
-  "bidden",
-  "bidder",
-  "biders",
-  "bidets",
-  "biding",
-  "bields",
-  "biface",
-  "biffed",
-  "biffin",
-  "biflex",
-  "bifold",
-  "biform",
-  "bigamy",
-  "bigeye",
-  "bigger",
-  "biggie",
-  "biggin",
-  "bights",
-  "bigots",
-  "bigwig",
-  "bijous",
-  "bijoux",
-  "bikers",
-  "bikies",
-  "biking",
-  "bikini",
-  "bilboa",
-  "bilbos",
-  "bilged",
-  "bilges",
-  "bilked",
-  "bilker",
-  "billed",
-  "biller",
-  "billet",
-  "billie",
-  "billon",
-  "billow",
-  "bimahs",
-  "bimbos",
-  "binary",
-  "binate",
-  "binder",
-  "bindis",
-  "bindle",
-  "binged",
-  "binger",
-  "binges",
-  "bingos",
-  "binits",
-  "binned",
-  "binocs",
-  "biogas",
-  "biogen",
-  "biomes",
-  "bionic",
-  "bionts",
-  "biopic",
-  "biopsy",
-  "biotas",
-  "biotic",
-  "biotin",
-  "bipack",
-  "bipeds",
-  "bipods",
-  "birded",
-  "birder",
-  "birdie",
-  "bireme",
-  "birkie",
-  "birled",
-  "birler",
-  "birles",
-  "birred",
-  "birses",
-  "births",
-  "bisect",
-  "bishop",
-  "bisons",
-  "bisque",
-  "bister",
-  "bistre",
-  "bistro",
-  "bitchy",
-  "biters",
-  "biting",
-  "bitted",
-  "bitten",
-  "bitter",
-  "bizone",
-  "bizzes",
-  "blabby",
-  "blacks",
-  "bladed",
-  "blades",
-  "blains",
-  "blamed",
-  "blamer",
-  "blames",
-  "blanch",
-  "blanks",
-  "blared",
-  "blares",
-  "blasts",
-  "blasty",
-  "blawed",
-  "blazed",
-  "blazer",
-  "blazes",
-  "blazon",
-  "bleach",
-  "bleaks",
-  "blears",
-  "bleary",
-  "bleats",
-  "blebby",
-  "bleeds",
-  "bleeps",
-  "blench",
-  "blende",
-  "blends",
-  "blenny",
-  "blight",
-  "blimey",
-  "blimps",
-  "blinds",
-  "blinis",
-  "blinks",
-  "blintz",
-  "blites",
-  "blithe",
-  "bloats",
-  "blocks",
-  "blocky",
-  "blokes",
-  "blonde",
-  "blonds",
-  "bloods",
-  "bloody",
-  "blooey",
-  "blooie",
-  "blooms",
-  "bloomy",
-  "bloops",
-  "blotch",
-  "blotto",
-  "blotty",
-  "blouse",
-  "blousy",
-  "blowby",
-  "blowed",
-  "blower",
-  "blowsy",
-  "blowup",
-  "blowzy",
-  "bluely",
-  "bluest",
-  "bluesy",
-  "bluets",
-  "blueys",
-  "bluffs",
-  "bluing",
-  "bluish",
-  "blumed",
-  "blumes",
-  "blunge",
-  "blunts",
-  "blurbs",
-  "blurry",
-  "blurts",
-  "blypes",
-  "boards",
-  "boarts",
-  "boasts",
-  "boated",
-  "boatel",
-  "boater",
-  "bobbed",
-  "bobber",
-  "bobbin",
-  "bobble",
-  "bobcat",
-  "bocces",
-  "boccia",
-  "boccie",
-  "boccis",
-  "boches",
-  "bodega",
-  "bodice",
-  "bodied",
-  "bodies",
-  "bodily",
-  "boding",
-  "bodkin",
-  "boffin",
-  "boffos",
-  "bogans",
-  "bogeys",
-  "bogged",
-  "boggle",
-  "bogies",
-  "bogles",
-  "boheas",
-  "bohunk",
-  "boiled",
-  "boiler",
-  "boites",
-  "bolder",
-  "boldly",
-  "bolero",
-  "bolete",
-  "boleti",
-  "bolide",
-  "bolled",
-  "bollix",
-  "bollox",
-  "bolshy",
-  "bolson",
-  "bolted",
-  "bolter",
-  "bombax",
-  "bombed",
-  "bomber",
-  "bombes",
-  "bombyx",
-  "bonaci",
-  "bonbon",
-  "bonded",
-  "bonder",
-  "bonduc",
-  "boners",
-  "bonged",
-  "bongos",
-  "bonier",
-  "boning",
-  "bonita",
-  "bonito",
-  "bonked",
-  "bonnes",
-  "bonnet",
-  "bonnie",
-  "bonsai",
-  "bonzer",
-  "bonzes",
-  "boobed",
-  "boobie",
-  "booboo",
-  "boodle",
-  "booger",
-  "boogey",
-  "boogie",
-  "boohoo",
-  "booing",
-  "booked",
-  "booker",
-  "bookie",
-  "boomed",
-  "boomer",
-  "boosts",
-  "booted",
-  "bootee",
-  "booths",
-  "bootie",
-  "boozed",
-  "boozer",
-  "boozes",
-  "bopeep",
-  "bopped",
-  "bopper",
-  "borage",
-  "borals",
-  "borane",
-  "borate",
-  "bordel",
-  "border",
-  "boreal",
-  "boreen",
-  "borers",
-  "boride",
-  "boring",
-  "borons",
-  "borrow",
-  "borsch",
-  "borsht",
-  "borzoi",
-  "boshes",
-  "bosker",
-  "bosket",
-  "bosoms",
-  "bosomy",
-  "bosons",
-  "bosque",
-  "bossed",
-  "bosses",
-  "boston",
-  "bosuns",
-  "botany",
-  "botchy",
-  "botels",
-  "botfly",
-  "bother",
-  "bottle",
-  "bottom",
-  "boubou",
-  "boucle",
-  "bouffe",
-  "boughs",
-  "bought",
-  "bougie",
-  "boules",
-  "boulle",
-  "bounce",
-  "bouncy",
-  "bounds",
-  "bounty",
-  "bourgs",
-  "bourne",
-  "bourns",
-  "bourse",
-  "boused",
-  "bouses",
-  "bouton",
-  "bovids",
-  "bovine",
-  "bowels",
-  "bowers",
-  "bowery",
-  "bowfin",
-  "bowing",
-  "bowled",
-  "bowleg",
-  "bowler",
-  "bowman",
-  "bowmen",
-  "bowpot",
-  "bowsed",
-  "bowses",
-  "bowwow",
-  "bowyer",
-  "boxcar",
-  "boxers",
-  "boxful",
-  "boxier",
-  "boxing",
-  "boyard",
-  "boyars",
-  "boyish",
-  "boylas",
-  "braced",
-  "bracer",
-  "braces",
-  "brachs",
-  "bracts",
-  "braggy",
-  "brahma",
-  "braids",
-  "brails",
-  "brains",
-  "brainy",
-  "braise",
-  "braize",
-  "braked",
-  "brakes",
-  "branch",
-  "brands",
-  "brandy",
-  "branks",
-  "branny",
-  "brants",
-  "brashy",
-  "brasil",
-  "brassy",
-  "bratty",
-  "bravas",
-  "braved",
-  "braver",
-  "braves",
-  "bravos",
-  "brawer",
-  "brawls",
-  "brawly",
-  "brawns",
-  "brawny",
-  "brayed",
-  "brayer",
-  "brazas",
-  "brazed",
-  "brazen",
-  "brazer",
-  "brazes",
-  "brazil",
-  "breach",
-  "breads",
-  "bready",
-  "breaks",
-  "breams",
-  "breast",
-  "breath",
-  "bredes",
-  "breech",
-  "breeds",
-  "breeks",
-  "breeze",
-  "breezy",
-  "bregma",
-  "brents",
-  "breves",
-  "brevet",
-  "brewed",
-  "brewer",
-  "brewis",
-  "briard",
-  "briars",
-  "briary",
-  "bribed",
-  "bribee",
-  "briber",
-  "bribes",
-  "bricks",
-  "bricky",
-  "bridal",
-  "brides",
-  "bridge",
-  "bridle",
-  "briefs",
-  "briers",
-  "briery",
-  "bright",
-  "brills",
-  "brined",
-  "briner",
-  "brines",
-  "brings",
-  "brinks",
-  "briony",
-  "brisks",
-  "britts",
-  "broach",
-  "broads",
-  "broche",
-  "brocks",
-  "brogan",
-  "brogue",
-  "broils",
-  "broken",
-  "broker",
-  "brolly",
-  "bromal",
-  "bromes",
-  "bromic",
-  "bromid",
-  "bromin",
-  "bromos",
-  "bronco",
-  "broncs",
-  "bronze",
-  "bronzy",
-  "brooch",
-  "broods",
-  "broody",
-  "brooks",
-  "brooms",
-  "broomy",
-  "broses",
-  "broths",
-  "brothy",
-  "browed",
-  "browns",
-  "browny",
-  "browse",
-  "brucin",
-  "brughs",
-  "bruins",
-  "bruise",
-  "bruits",
-  "brulot",
-  "brumal",
-  "brumby",
-  "brumes",
-  "brunch",
-  "brunet",
-  "brunts",
-  "brushy",
-  "brutal",
-  "bruted",
-  "brutes",
-  "bryony",
-  "bubale",
-  "bubals",
-  "bubble",
-  "bubbly",
-  "buboed",
-  "buboes",
-  "buccal",
-  "bucked",
-  "bucker",
-  "bucket",
-  "buckle",
-  "buckra",
-  "budded",
-  "budder",
-  "buddle",
-  "budged",
-  "budger",
-  "budges",
-  "budget",
-  "budgie",
-  "buffed",
-  "buffer",
-  "buffet",
-  "buffos",
-  "bugeye",
-  "bugged",
-  "bugger",
-  "bugled",
-  "bugler",
-  "bugles",
-  "bugsha",
-  "builds",
-  "bulbar",
-  "bulbed",
-  "bulbel",
-  "bulbil",
-  "bulbul",
-  "bulged",
-  "bulger",
-  "bulges",
-  "bulgur",
-  "bulked",
-  "bullae",
-  "bulled",
-  "bullet",
-  "bumble",
-  "bumkin",
-  "bummed",
-  "bummer",
-  "bumped",
-  "bumper",
-  "bumphs",
-  "bunchy",
-  "buncos",
-  "bundle",
-  "bundts",
-  "bunged",
-  "bungee",
-  "bungle",
-  "bunion",
-  "bunked",
-  "bunker",
-  "bunkos",
-  "bunkum",
-  "bunted",
-  "bunter",
-  "bunyas",
-  "buoyed",
-  "buppie",
-  "buqsha",
-  "burans",
-  "burble",
-  "burbly",
-  "burbot",
-  "burden",
-  "burdie",
-  "bureau",
-  "burets",
-  "burgee",
-  "burger",
-  "burghs",
-  "burgle",
-  "burgoo",
-  "burial",
-  "buried",
-  "burier",
-  "buries",
-  "burins",
-  "burked",
-  "burker",
-  "burkes",
-  "burlap",
-  "burled",
-  "burler",
-  "burley",
-  "burned",
-  "burner",
-  "burnet",
-  "burnie",
-  "burped",
-  "burred",
-  "burrer",
-  "burros",
-  "burrow",
-  "bursae",
-  "bursal",
-  "bursar",
-  "bursas",
-  "burses",
-  "bursts",
-  "burton",
-  "busbar",
-  "busboy",
-  "bushed",
-  "bushel",
-  "busher",
-  "bushes",
-  "bushwa",
-  "busied",
-  "busier",
-  "busies",
-  "busily",
-  "busing",
-  "busked",
-  "busker",
-  "buskin",
-  "busman",
-  "busmen",
-  "bussed",
-  "busses",
-  "busted",
-  "buster",
-  "bustic",
-  "bustle",
-  "butane",
-  "butene",
-  "buteos",
-  "butled",
-  "butler",
-  "butles",
-  "butted",
-  "butter",
-  "buttes",
-  "button",
-  "bututs",
-  "butyls",
-  "buyers",
-  "buying",
-  "buyout",
-  "buzuki",
-  "buzzed",
-  "buzzer",
-  "buzzes",
-  "bwanas",
-  "byelaw",
-  "bygone",
-  "bylaws",
-  "byline",
-  "byname",
-  "bypass",
-  "bypast",
-  "bypath",
-  "byplay",
-  "byrled",
-  "byrnie",
-  "byroad",
-  "byssus",
-  "bytalk",
-  "byways",
-  "byword",
-  "bywork",
-  "byzant",
-  "cabala",
-  "cabals",
-  "cabana",
-  "cabbed",
-  "cabbie",
-  "cabers",
-  "cabins",
-  "cabled",
-  "cables",
-  "cablet",
-  "cabman",
-  "cabmen",
-  "cabobs",
-  "cacaos",
-  "cached",
-  "caches",
-  "cachet",
-  "cachou",
-  "cackle",
-  "cactus",
-  "caddie",
-  "caddis",
-  "cadent",
-  "cadets",
-  "cadged",
-  "cadger",
-  "cadges",
-  "cadmic",
-  "cadres",
-  "caecal",
-  "caecum",
-  "caeoma",
-  "caesar",
-  "caftan",
-  "cagers",
-  "cagier",
-  "cagily",
-  "caging",
-  "cahier",
-  "cahoot",
-  "cahows",
-  "caiman",
-  "caique",
-  "cairds",
-  "cairns",
-  "cairny",
-  "cajole",
-  "cakier",
-  "caking",
-  "calami",
-  "calash",
-  "calcar",
-  "calces",
-  "calcic",
-  "calesa",
-  "calico",
-  "califs",
-  "caliph",
-  "calked",
-  "calker",
-  "calkin",
-  "callan",
-  "callas",
-  "called",
-  "caller",
-  "callet",
-  "callow",
-  "callus",
-  "calmed",
-  "calmer",
-  "calmly",
-  "calory",
-  "calpac",
-  "calque",
-  "calved",
-  "calves",
-  "calxes",
-  "camail",
-  "camass",
-  "camber",
-  "cambia",
-  "camels",
-  "cameos",
-  "camera",
-  "camion",
-  "camisa",
-  "camise",
-  "camlet",
-  "camped",
-  "camper",
-  "campos",
-  "campus",
-  "canals",
-  "canape",
-  "canard",
-  "canary",
-  "cancan",
-  "cancel",
-  "cancer",
-  "cancha",
-  "candid",
-  "candle",
-  "candor",
-  "caners",
-  "canful",
-  "cangue",
-  "canids",
-  "canine",
-  "caning",
-  "canker",
-  "cannas",
-  "canned",
-  "cannel",
-  "canner",
-  "cannie",
-  "cannon",
-  "cannot",
-  "canoed",
-  "canoes",
-  "canola",
-  "canons",
-  "canopy",
-  "cansos",
-  "canted",
-  "canter",
-  "canthi",
-  "cantic",
-  "cantle",
-  "canton",
-  "cantor",
-  "cantos",
-  "cantus",
-  "canula",
-  "canvas",
-  "canyon",
-  "capers",
-  "capful",
-  "capias",
-  "capita",
-  "caplet",
-  "caplin",
-  "capons",
-  "capote",
-  "capped",
-  "capper",
-  "capric",
-  "capris",
-  "capsid",
-  "captan",
-  "captor",
-  "carack",
-  "carafe",
-  "carate",
-  "carats",
-  "carbon",
-  "carbos",
-  "carboy",
-  "carcel",
-  "carded",
-  "carder",
-  "cardia",
-  "careen",
-  "career",
-  "carers",
-  "caress",
-  "carets",
-  "carful",
-  "cargos",
-  "carhop",
-  "caribe",
-  "caried",
-  "caries",
-  "carina",
-  "caring",
-  "carked",
-  "carles",
-  "carlin",
-  "carman",
-  "carmen",
-  "carnal",
-  "carnet",
-  "carney",
-  "carnie",
-  "carobs",
-  "caroch",
-  "caroli",
-  "carols",
-  "caroms",
-  "carpal",
-  "carped",
-  "carpel",
-  "carper",
-  "carpet",
-  "carpus",
-  "carrel",
-  "carrom",
-  "carrot",
-  "carses",
-  "carted",
-  "cartel",
-  "carter",
-  "cartes",
-  "carton",
-  "cartop",
-  "carved",
-  "carvel",
-  "carven",
-  "carver",
-  "carves",
-  "casaba",
-  "casava",
-  "casbah",
-  "casefy",
-  "caseic",
-  "casein",
-  "casern",
-  "cashaw",
-  "cashed",
-  "cashes",
-  "cashew",
-  "cashoo",
-  "casing",
-  "casini",
-  "casino",
-  "casita",
-  "casked",
-  "casket",
-  "casque",
-  "cassia",
-  "cassis",
-  "caster",
-  "castes",
-  "castle",
-  "castor",
-  "casual",
-  "catalo",
-  "catchy",
-  "catena",
-  "caters",
-  "catgut",
-  "cation",
-  "catkin",
-  "catlin",
-  "catnap",
-  "catnip",
-  "catsup",
-  "catted",
-  "cattie",
-  "cattle",
-  "caucus",
-  "caudad",
-  "caudal",
-  "caudex",
-  "caudle",
-  "caught",
-  "caulds",
-  "caules",
-  "caulis",
-  "caulks",
-  "causal",
-  "caused",
-  "causer",
-  "causes",
-  "causey",
-  "caveat",
-  "cavern",
-  "cavers",
-  "caviar",
-  "cavies",
-  "cavils",
-  "caving",
-  "cavity",
-  "cavort",
-  "cawing",
-  "cayman",
-  "cayuse",
-  "ceased",
-  "ceases",
-  "cebids",
-  "ceboid",
-  "cedarn",
-  "cedars",
-  "ceders",
-  "ceding",
-  "cedula",
-  "ceibas",
-  "ceiled",
-  "ceiler",
-  "celebs",
-  "celery",
-  "celiac",
-  "cellae",
-  "cellar",
-  "celled",
-  "cellos",
-  "celoms",
-  "cement",
-  "cenote",
-  "censed",
-  "censer",
-  "censes",
-  "censor",
-  "census",
-  "cental",
-  "center",
-  "centos",
-  "centra",
-  "centre",
-  "centum",
-  "ceorls",
-  "cerate",
-  "cercis",
-  "cercus",
-  "cereal",
-  "cereus",
-  "cerias",
-  "cering",
-  "ceriph",
-  "cerise",
-  "cerite",
-  "cerium",
-  "cermet",
-  "cerous",
-  "certes",
-  "ceruse",
-  "cervid",
-  "cervix",
-  "cesium",
-  "cessed",
-  "cesses",
-  "cestas",
-  "cestoi",
-  "cestos",
-  "cestus",
-  "cesura",
-  "cetane",
-  "chabuk",
-  "chacma",
-  "chadar",
-  "chador",
-  "chadri",
-  "chaeta",
-  "chafed",
-  "chafer",
-  "chafes",
-  "chaffs",
-  "chaffy",
-  "chaine",
-  "chains",
-  "chairs",
-  "chaise",
-  "chakra",
-  "chalah",
-  "chaleh",
-  "chalet",
-  "chalks",
-  "chalky",
-  "challa",
-  "chally",
-  "chalot",
-  "chammy",
-  "champs",
-  "champy",
-  "chance",
-  "chancy",
-  "change",
-  "changs",
-  "chants",
-  "chanty",
-  "chapel",
-  "chapes",
-  "charas",
-  "chards",
-  "chared",
-  "chares",
-  "charge",
-  "charka",
-  "charks",
-  "charms",
-  "charro",
-  "charrs",
-  "charry",
-  "charts",
-  "chased",
-  "chaser",
-  "chases",
-  "chasms",
-  "chasmy",
-  "chasse",
-  "chaste",
-  "chatty",
-  "chaunt",
-  "chawed",
-  "chawer",
-  "chazan",
-  "cheapo",
-  "cheaps",
-  "cheats",
-  "chebec",
-  "checks",
-  "cheder",
-  "cheeks",
-  "cheeky",
-  "cheeps",
-  "cheero",
-  "cheers",
-  "cheery",
-  "cheese",
-  "cheesy",
-  "chegoe",
-  "chelae",
-  "chelas",
-  "chemic",
-  "chemos",
-  "cheque",
-  "cherry",
-  "cherts",
-  "cherty",
-  "cherub",
-  "chests",
-  "chesty",
-  "chetah",
-  "cheths",
-  "chevre",
-  "chewed",
-  "chewer",
-  "chiasm",
-  "chiaus",
-  "chicer",
-  "chichi",
-  "chicks",
-  "chicle",
-  "chicly",
-  "chicos",
-  "chided",
-  "chider",
-  "chides",
-  "chiefs",
-  "chield",
-  "chiels",
-  "chigoe",
-  "childe",
-  "chiles",
-  "chilli",
-  "chills",
-  "chilly",
-  "chimar",
-  "chimbs",
-  "chimed",
-  "chimer",
-  "chimes",
-  "chimla",
-  "chimps",
-  "chinas",
-  "chinch",
-  "chined",
-  "chines",
-  "chinks",
-  "chinky",
-  "chinos",
-  "chints",
-  "chintz",
-  "chippy",
-  "chiral",
-  "chirks",
-  "chirms",
-  "chiros",
-  "chirps",
-  "chirpy",
-  "chirre",
-  "chirrs",
-  "chisel",
-  "chital",
-  "chitin",
-  "chiton",
-  "chitty",
-  "chives",
-  "chivvy",
-  "choana",
-  "chocks",
-  "choice",
-  "choirs",
-  "choked",
-  "choker",
-  "chokes",
-  "chokey",
-  "choler",
-  "cholla",
-  "cholos",
-  "chomps",
-  "chooks",
-  "choose",
-  "choosy",
-  "chopin",
-  "choppy",
-  "choral",
-  "chords",
-  "chorea",
-  "chored",
-  "chores",
-  "choric",
-  "chorus",
-  "chosen",
-  "choses",
-  "chotts",
-  "chough",
-  "chouse",
-  "choush",
-  "chowed",
-  "chowse",
-  "chrism",
-  "chroma",
-  "chrome",
-  "chromo",
-  "chubby",
-  "chucks",
-  "chucky",
-  "chufas",
-  "chuffs",
-  "chuffy",
-  "chukar",
-  "chukka",
-  "chummy",
-  "chumps",
-  "chunks",
-  "chunky",
-  "church",
-  "churls",
-  "churns",
-  "churrs",
-  "chuted",
-  "chutes",
-  "chyles",
-  "chymes",
-  "chymic",
-  "cibols",
-  "cicada",
-  "cicala",
-  "cicale",
-  "cicely",
-  "cicero",
-  "ciders",
-  "cigars",
-  "cilice",
-  "cilium",
-  "cinder",
-  "cinema",
-  "cineol",
-  "cinque",
-  "cipher",
-  "circle",
-  "circus",
-  "cirque",
-  "cirrus",
-  "ciscos",
-  "cistus",
-  "citers",
-  "cither",
-  "citied",
-  "cities",
-  "citify",
-  "citing",
-  "citola",
-  "citole",
-  "citral",
-  "citric",
-  "citrin",
-  "citron",
-  "citrus",
-  "civets",
-  "civics",
-  "civies",
-  "civism",
-  "clachs",
-  "clacks",
-  "clades",
-  "claims",
-  "clammy",
-  "clamor",
-  "clamps",
-  "clangs",
-  "clanks",
-  "claque",
-  "claret",
-  "claros",
-  "clasps",
-  "claspt",
-  "classy",
-  "clasts",
-  "clause",
-  "claver",
-  "claves",
-  "clavus",
-  "clawed",
-  "clawer",
-  "claxon",
-  "clayed",
-  "clayey",
-  "cleans",
-  "clears",
-  "cleats",
-  "cleave",
-  "cleeks",
-  "clefts",
-  "clench",
-  "cleome",
-  "cleped",
-  "clepes",
-  "clergy",
-  "cleric",
-  "clerid",
-  "clerks",
-  "clever",
-  "clevis",
-  "clewed",
-  "cliche",
-  "clicks",
-  "client",
-  "cliffs",
-  "cliffy",
-  "clifts",
-  "climax",
-  "climbs",
-  "climes",
-  "clinal",
-  "clinch",
-  "clines",
-  "clings",
-  "clingy",
-  "clinic",
-  "clinks",
-  "clique",
-  "cliquy",
-  "clitic",
-  "clivia",
-  "cloaca",
-  "cloaks",
-  "cloche",
-  "clocks",
-  "cloddy",
-  "cloggy",
-  "clomps",
-  "clonal",
-  "cloned",
-  "cloner",
-  "clones",
-  "clonic",
-  "clonks",
-  "clonus",
-  "cloots",
-  "cloque",
-  "closed",
-  "closer",
-  "closes",
-  "closet",
-  "clothe",
-  "cloths",
-  "clotty",
-  "clouds",
-  "cloudy",
-  "clough",
-  "clours",
-  "clouts",
-  "cloven",
-  "clover",
-  "cloves",
-  "clowns",
-  "cloyed",
-  "clozes",
-  "clubby",
-  "clucks",
-  "cluing",
-  "clumps",
-  "clumpy",
-  "clumsy",
-  "clunks",
-  "clunky",
-  "clutch",
-  "clypei",
-  "coacts",
-  "coalas",
-  "coaled",
-  "coaler",
-  "coapts",
-  "coarse",
-  "coasts",
-  "coated",
-  "coatee",
-  "coater",
-  "coatis",
-  "coaxal",
-  "coaxed",
-  "coaxer",
-  "coaxes",
-  "cobalt",
-  "cobber",
-  "cobble",
-  "cobias",
-  "cobles",
-  "cobnut",
-  "cobras",
-  "cobweb",
-  "cocain",
-  "coccal",
-  "coccic",
-  "coccid",
-  "coccus",
-  "coccyx",
-  "cochin",
-  "cocked",
-  "cocker",
-  "cockle",
-  "cockup",
-  "cocoas",
-  "cocoon",
-  "codded",
-  "codder",
-  "coddle",
-  "codecs",
-  "codeia",
-  "codein",
-  "codens",
-  "coders",
-  "codger",
-  "codify",
-  "coding",
-  "codlin",
-  "codons",
-  "coedit",
-  "coelom",
-  "coempt",
-  "coerce",
-  "coeval",
-  "coffee",
-  "coffer",
-  "coffin",
-  "coffle",
-  "cogent",
-  "cogged",
-  "cogito",
-  "cognac",
-  "cogons",
-  "cogway",
-  "cohead",
-  "coheir",
-  "cohere",
-  "cohogs",
-  "cohort",
-  "cohosh",
-  "cohost",
-  "cohune",
-  "coifed",
-  "coiffe",
-  "coigne",
-  "coigns",
-  "coiled",
-  "coiler",
-  "coined",
-  "coiner",
-  "coital",
-  "coitus",
-  "cojoin",
-  "coking",
-  "colder",
-  "coldly",
-  "colead",
-  "coleus",
-  "colics",
-  "colies",
-  "colins",
-  "collar",
-  "collet",
-  "collie",
-  "collop",
-  "colobi",
-  "cologs",
-  "colone",
-  "coloni",
-  "colons",
-  "colony",
-  "colors",
-  "colour",
-  "colter",
-  "colugo",
-  "column",
-  "colure",
-  "colzas",
-  "comade",
-  "comake",
-  "comate",
-  "combat",
-  "combed",
-  "comber",
-  "combes",
-  "combos",
-  "comedo",
-  "comedy",
-  "comely",
-  "comers",
-  "cometh",
-  "comets",
-  "comfit",
-  "comics",
-  "coming",
-  "comity",
-  "commas",
-  "commie",
-  "commit",
-  "commix",
-  "common",
-  "comose",
-  "comous",
-  "comped",
-  "compel",
-  "comply",
-  "compos",
-  "compts",
-  "comtes",
-  "concha",
-  "conchs",
-  "conchy",
-  "concur",
-  "condom",
-  "condor",
-  "condos",
-  "coneys",
-  "confab",
-  "confer",
-  "confit",
-  "congas",
-  "congee",
-  "conger",
-  "conges",
-  "congii",
-  "congos",
-  "congou",
-  "conics",
-  "conies",
-  "conine",
-  "coning",
-  "conins",
-  "conium",
-  "conked",
-  "conker",
-  "conned",
-  "conner",
-  "conoid",
-  "consol",
-  "consul",
-  "contes",
-  "contos",
-  "contra",
-  "convex",
-  "convey",
-  "convoy",
-  "coocoo",
-  "cooeed",
-  "cooees",
-  "cooers",
-  "cooeys",
-  "cooing",
-  "cooked",
-  "cooker",
-  "cookey",
-  "cookie",
-  "cooled",
-  "cooler",
-  "coolie",
-  "coolly",
-  "coolth",
-  "coombe",
-  "coombs",
-  "cooped",
-  "cooper",
-  "coopts",
-  "cooter",
-  "cootie",
-  "copalm",
-  "copals",
-  "copeck",
-  "copens",
-  "copers",
-  "copied",
-  "copier",
-  "copies",
-  "coping",
-  "coplot",
-  "copped",
-  "copper",
-  "coppra",
-  "coprah",
-  "copras",
-  "copses",
-  "copter",
-  "copula",
-  "coquet",
-  "corals",
-  "corban",
-  "corbel",
-  "corbie",
-  "corded",
-  "corder",
-  "cordon",
-  "corers",
-  "corgis",
-  "coring",
-  "corium",
-  "corked",
-  "corker",
-  "cormel",
-  "cornea",
-  "corned",
-  "cornel",
-  "corner",
-  "cornet",
-  "cornua",
-  "cornus",
-  "corody",
-  "corona",
-  "corpse",
-  "corpus",
-  "corral",
-  "corrie",
-  "corsac",
-  "corses",
-  "corset",
-  "cortex",
-  "cortin",
-  "corvee",
-  "corves",
-  "corvet",
-  "corymb",
-  "coryza",
-  "cosecs",
-  "cosets",
-  "coseys",
-  "coshed",
-  "cosher",
-  "coshes",
-  "cosied",
-  "cosier",
-  "cosies",
-  "cosign",
-  "cosily",
-  "cosine",
-  "cosmic",
-  "cosmos",
-  "cosset",
-  "costae",
-  "costal",
-  "costar",
-  "costed",
-  "coster",
-  "costly",
-  "cotans",
-  "coteau",
-  "coting",
-  "cottae",
-  "cottar",
-  "cottas",
-  "cotter",
-  "cotton",
-  "cotype",
-  "cougar",
-  "coughs",
-  "coulee",
-  "coulis",
-  "counts",
-  "county",
-  "couped",
-  "coupes",
-  "couple",
-  "coupon",
-  "course",
-  "courts",
-  "cousin",
-  "couter",
-  "couths",
-  "covens",
-  "covers",
-  "covert",
-  "covets",
-  "coveys",
-  "coving",
-  "covins",
-  "cowage",
-  "coward",
-  "cowboy",
-  "cowers",
-  "cowier",
-  "cowing",
-  "cowled",
-  "cowman",
-  "cowmen",
-  "cowpat",
-  "cowpea",
-  "cowpie",
-  "cowpox",
-  "cowrie",
-  "coxing",
-  "coydog",
-  "coyest",
-  "coying",
-  "coyish",
-  "coyote",
-  "coypou",
-  "coypus",
-  "cozens",
-  "cozeys",
-  "cozied",
-  "cozier",
-  "cozies",
-  "cozily",
-  "cozzes",
-  "craals",
-  "crabby",
-  "cracks",
-  "cracky",
-  "cradle",
-  "crafts",
-  "crafty",
-  "craggy",
-  "crakes",
-  "crambe",
-  "crambo",
-  "cramps",
-  "cranch",
-  "craned",
-  "cranes",
-  "crania",
-  "cranks",
-  "cranky",
-  "cranny",
-  "craped",
-  "crapes",
-  "crappy",
-  "crases",
-  "crasis",
-  "cratch",
-  "crated",
-  "crater",
-  "crates",
-  "craton",
-  "cravat",
-  "craved",
-  "craven",
-  "craver",
-  "craves",
-  "crawls",
-  "crawly",
-  "crayon",
-  "crazed",
-  "crazes",
-  "creaks",
-  "creaky",
-  "creams",
-  "creamy",
-  "crease",
-  "creasy",
-  "create",
-  "creche",
-  "credal",
-  "credit",
-  "credos",
-  "creeds",
-  "creeks",
-  "creels",
-  "creeps",
-  "creepy",
-  "creese",
-  "creesh",
-  "cremes",
-  "crenel",
-  "creole",
-  "creped",
-  "crepes",
-  "crepey",
-  "crepon",
-  "cresol",
-  "crests",
-  "cresyl",
-  "cretic",
-  "cretin",
-  "crewed",
-  "crewel",
-  "cricks",
-  "criers",
-  "crikey",
-  "crimes",
-  "crimps",
-  "crimpy",
-  "cringe",
-  "crinum",
-  "cripes",
-  "crises",
-  "crisic",
-  "crisis",
-  "crisps",
-  "crispy",
-  "crissa",
-  "crista",
-  "critic",
-  "croaks",
-  "croaky",
-  "crocks",
-  "crocus",
-  "crofts",
-  "crojik",
-  "crones",
-  "crooks",
-  "croons",
-  "crores",
-  "crosse",
-  "crotch",
-  "croton",
-  "crouch",
-  "croupe",
-  "croups",
-  "croupy",
-  "crouse",
-  "crowds",
-  "crowdy",
-  "crowed",
-  "crower",
-  "crowns",
-  "crozer",
-  "crozes",
-  "cruces",
-  "crucks",
-  "cruddy",
-  "cruder",
-  "crudes",
-  "cruets",
-  "cruise",
-  "crumbs",
-  "crumby",
-  "crummy",
-  "crumps",
-  "crunch",
-  "cruors",
-  "crural",
-  "cruses",
-  "cruset",
-  "crusts",
-  "crusty",
-  "crutch",
-  "cruxes",
-  "crwths",
-  "crying",
-  "crypto",
-  "crypts",
-  "cubage",
-  "cubebs",
-  "cubers",
-  "cubics",
-  "cubing",
-  "cubism",
-  "cubist",
-  "cubits",
-  "cuboid",
-  "cuckoo",
-  "cuddie",
-  "cuddle",
-  "cuddly",
-  "cudgel",
-  "cueing",
-  "cuesta",
-  "cuffed",
-  "cuisse",
-  "culets",
-  "cullay",
-  "culled",
-  "culler",
-  "cullet",
-  "cullis",
-  "culmed",
-  "culpae",
-  "cultch",
-  "cultic",
-  "cultus",
-  "culver",
-  "cumber",
-  "cumins",
-  "cummer",
-  "cummin",
-  "cumuli",
-  "cundum",
-  "cuneal",
-  "cunner",
-  "cupels",
-  "cupful",
-  "cupids",
-  "cupola",
-  "cuppas",
-  "cupped",
-  "cupper",
-  "cupric",
-  "cuprum",
-  "cupula",
-  "cupule",
-  "curacy",
-  "curagh",
-  "curara",
-  "curare",
-  "curari",
-  "curate",
-  "curbed",
-  "curber",
-  "curded",
-  "curdle",
-  "curers",
-  "curets",
-  "curfew",
-  "curiae",
-  "curial",
-  "curies",
-  "curing",
-  "curios",
-  "curite",
-  "curium",
-  "curled",
-  "curler",
-  "curlew",
-  "curran",
-  "curred",
-  "currie",
-  "cursed",
-  "curser",
-  "curses",
-  "cursor",
-  "curtal",
-  "curter",
-  "curtly",
-  "curtsy",
-  "curule",
-  "curved",
-  "curves",
-  "curvet",
-  "curvey",
-  "cuscus",
-  "cusecs",
-  "cushat",
-  "cushaw",
-  "cusped",
-  "cuspid",
-  "cuspis",
-  "cussed",
-  "cusser",
-  "cusses",
-  "cussos",
-  "custom",
-  "custos",
-  "cutely",
-  "cutest",
-  "cutesy",
-  "cuteys",
-  "cuties",
-  "cutins",
-  "cutlas",
-  "cutler",
-  "cutlet",
-  "cutoff",
-  "cutout",
-  "cutter",
-  "cuttle",
-  "cutups",
-  "cyanic",
-  "cyanid",
-  "cyanin",
-  "cyborg",
-  "cycads",
-  "cycled",
-  "cycler",
-  "cycles",
-  "cyclic",
-  "cyclos",
-  "cyders",
-  "cyeses",
-  "cyesis",
-  "cygnet",
-  "cymars",
-  "cymbal",
-  "cymene",
-  "cymlin",
-  "cymoid",
-  "cymols",
-  "cymose",
-  "cymous",
-  "cynics",
-  "cypher",
-  "cypres",
-  "cyprus",
-  "cystic",
-  "cytons",
-  "dabbed",
-  "dabber",
-  "dabble",
-  "dachas",
-  "dacker",
-  "dacoit",
-  "dactyl",
-  "daddle",
-  "dadoed",
-  "dadoes",
-  "daedal",
-  "daemon",
-  "daffed",
-  "dafter",
-  "daftly",
-  "daggas",
-  "dagger",
-  "daggle",
-  "dagoba",
-  "dagoes",
-  "dahlia",
-  "dahoon",
-  "daiker",
-  "daikon",
-  "daimen",
-  "daimio",
-  "daimon",
-  "daimyo",
-  "dainty",
-  "daises",
-  "dakoit",
-  "dalasi",
-  "daledh",
-  "daleth",
-  "dalles",
-  "dalton",
-  "damage",
-  "damans",
-  "damars",
-  "damask",
-  "dammar",
-  "dammed",
-  "dammer",
-  "damned",
-  "damner",
-  "damped",
-  "dampen",
-  "damper",
-  "damply",
-  "damsel",
-  "damson",
-  "danced",
-  "dancer",
-  "dances",
-  "dander",
-  "dandle",
-  "danged",
-  "danger",
-  "dangle",
-  "danios",
-  "danish",
-  "danker",
-  "dankly",
-  "daphne",
-  "dapped",
-  "dapper",
-  "dapple",
-  "darers",
-  "darics",
-  "daring",
-  "darked",
-  "darken",
-  "darker",
-  "darkey",
-  "darkie",
-  "darkle",
-  "darkly",
-  "darned",
-  "darnel",
-  "darner",
-  "darted",
-  "darter",
-  "dartle",
-  "dashed",
-  "dasher",
-  "dashes",
-  "dashis",
-  "dassie",
-  "datary",
-  "datcha",
-  "daters",
-  "dating",
-  "dative",
-  "dattos",
-  "datums",
-  "datura",
-  "daubed",
-  "dauber",
-  "daubes",
-  "daubry",
-  "daunts",
-  "dauted",
-  "dautie",
-  "davens",
-  "davies",
-  "davits",
-  "dawdle",
-  "dawing",
-  "dawned",
-  "dawted",
-  "dawtie",
-  "daybed",
-  "dayfly",
-  "daylit",
-  "dazing",
-  "dazzle",
-  "deacon",
-  "deaden",
-  "deader",
-  "deadly",
-  "deafen",
-  "deafer",
-  "deafly",
-  "deairs",
-  "dealer",
-  "deaned",
-  "dearer",
-  "dearie",
-  "dearly",
-  "dearth",
-  "deasil",
-  "deaths",
-  "deathy",
-  "deaved",
-  "deaves",
-  "debark",
-  "debars",
-  "debase",
-  "debate",
-  "debeak",
-  "debits",
-  "debone",
-  "debris",
-  "debtor",
-  "debugs",
-  "debunk",
-  "debuts",
-  "debyes",
-  "decade",
-  "decafs",
-  "decals",
-  "decamp",
-  "decane",
-  "decant",
-  "decare",
-  "decays",
-  "deceit",
-  "decent",
-  "decern",
-  "decide",
-  "decile",
-  "decked",
-  "deckel",
-  "decker",
-  "deckle",
-  "declaw",
-  "decoct",
-  "decode",
-  "decors",
-  "decoys",
-  "decree",
-  "decury",
-  "dedans",
-  "deduce",
-  "deduct",
-  "deeded",
-  "deejay",
-  "deemed",
-  "deepen",
-  "deeper",
-  "deeply",
-  "deewan",
-  "deface",
-  "defame",
-  "defang",
-  "defats",
-  "defeat",
-  "defect",
-  "defend",
-  "defers",
-  "defied",
-  "defier",
-  "defies",
-  "defile",
-  "define",
-  "deflea",
-  "defoam",
-  "defogs",
-  "deform",
-  "defray",
-  "defter",
-  "deftly",
-  "defund",
-  "defuse",
-  "defuze",
-  "degage",
-  "degame",
-  "degami",
-  "degerm",
-  "degree",
-  "degums",
-  "degust",
-  "dehorn",
-  "dehort",
-  "deiced",
-  "deicer",
-  "deices",
-  "deific",
-  "deigns",
-  "deisms",
-  "deists",
-  "deixis",
-  "deject",
-  "dekare",
-  "deking",
-  "dekkos",
-  "delate",
-  "delays",
-  "delead",
-  "delete",
-  "delfts",
-  "delict",
-  "delime",
-  "delist",
-  "deltas",
-  "deltic",
-  "delude",
-  "deluge",
-  "deluxe",
-  "delved",
-  "delver",
-  "delves",
-  "demand",
-  "demark",
-  "demast",
-  "demean",
-  "dement",
-  "demies",
-  "demise",
-  "demits",
-  "demobs",
-  "demode",
-  "demons",
-  "demote",
-  "demure",
-  "demurs",
-  "denary",
-  "dengue",
-  "denial",
-  "denied",
-  "denier",
-  "denies",
-  "denims",
-  "denned",
-  "denote",
-  "denser",
-  "dental",
-  "dented",
-  "dentil",
-  "dentin",
-  "denude",
-  "deodar",
-  "depart",
-  "depend",
-  "deperm",
-  "depict",
-  "deploy",
-  "depone",
-  "deport",
-  "depose",
-  "depots",
-  "depths",
-  "depute",
-  "deputy",
-  "derail",
-  "derate",
-  "derats",
-  "derays",
-  "deride",
-  "derive",
-  "dermal",
-  "dermas",
-  "dermic",
-  "dermis",
-  "derris",
-  "desalt",
-  "desand",
-  "descry",
-  "desert",
-  "design",
-  "desire",
-  "desist",
-  "desman",
-  "desmid",
-  "desorb",
-  "desoxy",
-  "despot",
-  "detach",
-  "detail",
-  "detain",
-  "detect",
-  "detent",
-  "deters",
-  "detest",
-  "detick",
-  "detour",
-  "deuced",
-  "deuces",
-  "devein",
-  "devels",
-  "devest",
-  "device",
-  "devils",
-  "devise",
-  "devoid",
-  "devoir",
-  "devons",
-  "devote",
-  "devour",
-  "devout",
-  "dewans",
-  "dewars",
-  "dewier",
-  "dewily",
-  "dewing",
-  "dewlap",
-  "dewool",
-  "deworm",
-  "dexies",
-  "dexter",
-  "dextro",
-  "dezinc",
-  "dharma",
-  "dharna",
-  "dhobis",
-  "dholes",
-  "dhooly",
-  "dhoora",
-  "dhooti",
-  "dhotis",
-  "dhurna",
-  "dhutis",
-  "diacid",
-  "diadem",
-  "dialed",
-  "dialer",
-  "dialog",
-  "diamin",
-  "diaper",
-  "diapir",
-  "diatom",
-  "diazin",
-  "dibbed",
-  "dibber",
-  "dibble",
-  "dibbuk",
-  "dicast",
-  "dicers",
-  "dicier",
-  "dicing",
-  "dicked",
-  "dicker",
-  "dickey",
-  "dickie",
-  "dicots",
-  "dictum",
-  "didact",
-  "diddle",
-  "diddly",
-  "didies",
-  "didoes",
-  "dieing",
-  "dienes",
-  "diesel",
-  "dieses",
-  "diesis",
-  "dieted",
-  "dieter",
-  "differ",
-  "digamy",
-  "digest",
-  "digged",
-  "digger",
-  "dights",
-  "digits",
-  "diglot",
-  "dikdik",
-  "dikers",
-  "diking",
-  "diktat",
-  "dilate",
-  "dildoe",
-  "dildos",
-  "dilled",
-  "dilute",
-  "dimers",
-  "dimity",
-  "dimmed",
-  "dimmer",
-  "dimout",
-  "dimple",
-  "dimply",
-  "dimwit",
-  "dinars",
-  "dindle",
-  "dinero",
-  "diners",
-  "dinged",
-  "dinger",
-  "dinges",
-  "dingey",
-  "dinghy",
-  "dingle",
-  "dingus",
-  "dining",
-  "dinked",
-  "dinkey",
-  "dinkly",
-  "dinkum",
-  "dinned",
-  "dinner",
-  "dinted",
-  "diobol",
-  "diodes",
-  "dioecy",
-  "dioxan",
-  "dioxid",
-  "dioxin",
-  "diplex",
-  "diploe",
-  "dipnet",
-  "dipody",
-  "dipole",
-  "dipped",
-  "dipper",
-  "dipsas",
-  "dipsos",
-  "diquat",
-  "dirdum",
-  "direct",
-  "direly",
-  "direst",
-  "dirges",
-  "dirham",
-  "dirked",
-  "dirled",
-  "dirndl",
-  "disarm",
-  "disbar",
-  "disbud",
-  "disced",
-  "discos",
-  "discus",
-  "dished",
-  "dishes",
-  "disked",
-  "dismal",
-  "dismay",
-  "dismes",
-  "disown",
-  "dispel",
-  "dissed",
-  "disses",
-  "distal",
-  "distil",
-  "disuse",
-  "dither",
-  "dittos",
-  "ditzes",
-  "diuron",
-  "divans",
-  "divers",
-  "divert",
-  "divest",
-  "divide",
-  "divine",
-  "diving",
-  "divots",
-  "diwans",
-  "dixits",
-  "dizens",
-  "djebel",
-  "djinni",
-  "djinns",
-  "djinny",
-  "doable",
-  "doated",
-  "dobber",
-  "dobbin",
-  "dobies",
-  "doblas",
-  "doblon",
-  "dobras",
-  "dobson",
-  "docent",
-  "docile",
-  "docked",
-  "docker",
-  "docket",
-  "doctor",
-  "dodder",
-  "dodged",
-  "dodgem",
-  "dodger",
-  "dodges",
-  "dodoes",
-  "doffed",
-  "doffer",
-  "dogdom",
-  "dogear",
-  "dogeys",
-  "dogged",
-  "dogger",
-  "doggie",
-  "dogies",
-  "dogleg",
-  "dogmas",
-  "dognap",
-  "doiled",
-  "doings",
-  "doited",
-  "doling",
-  "dollar",
-  "dolled",
-  "dollop",
-  "dolman",
-  "dolmas",
-  "dolmen",
-  "dolors",
-  "dolour",
-  "domain",
-  "domine",
-  "doming",
-  "domino",
-  "donate",
-  "donees",
-  "dongas",
-  "donjon",
-  "donkey",
-  "donnas",
-  "donned",
-  "donnee",
-  "donors",
-  "donsie",
-  "donuts",
-  "donzel",
-  "doodad",
-  "doodle",
-  "doofus",
-  "doolee",
-  "doolie",
-  "doomed",
-  "doozer",
-  "doozie",
-  "dopant",
-  "dopers",
-  "dopier",
-  "doping",
-  "dorado",
-  "dorbug",
-  "dories",
-  "dormer",
-  "dormie",
-  "dormin",
-  "dorper",
-  "dorsad",
-  "dorsal",
-  "dorsel",
-  "dorser",
-  "dorsum",
-  "dosage",
-  "dosers",
-  "dosing",
-  "dossal",
-  "dossed",
-  "dossel",
-  "dosser",
-  "dosses",
-  "dossil",
-  "dotage",
-  "dotard",
-  "doters",
-  "dotier",
-  "doting",
-  "dotted",
-  "dottel",
-  "dotter",
-  "dottle",
-  "double",
-  "doubly",
-  "doubts",
-  "douche",
-  "doughs",
-  "dought",
-  "doughy",
-  "doumas",
-  "dourah",
-  "douras",
-  "dourer",
-  "dourly",
-  "doused",
-  "douser",
-  "douses",
-  "dovens",
-  "dovish",
-  "dowels",
-  "dowers",
-  "dowery",
-  "dowing",
-  "downed",
-  "downer",
-  "dowsed",
-  "dowser",
-  "dowses",
-  "doxies",
-  "doyens",
-  "doyley",
-  "dozens",
-  "dozers",
-  "dozier",
-  "dozily",
-  "dozing",
-  "drably",
-  "drachm",
-  "draffs",
-  "draffy",
-  "drafts",
-  "drafty",
-  "dragee",
-  "draggy",
-  "dragon",
-  "drails",
-  "drains",
-  "drakes",
-  "dramas",
-  "draped",
-  "draper",
-  "drapes",
-  "drapey",
-  "drawee",
-  "drawer",
-  "drawls",
-  "drawly",
-  "drayed",
-  "dreads",
-  "dreams",
-  "dreamt",
-  "dreamy",
-  "drears",
-  "dreary",
-  "drecks",
-  "drecky",
-  "dredge",
-  "dreggy",
-  "dreich",
-  "dreidl",
-  "dreigh",
-  "drench",
-  "dressy",
-  "driegh",
-  "driers",
-  "driest",
-  "drifts",
-  "drifty",
-  "drills",
-  "drinks",
-  "drippy",
-  "drivel",
-  "driven",
-  "driver",
-  "drives",
-  "drogue",
-  "droits",
-  "drolls",
-  "drolly",
-  "dromon",
-  "droned",
-  "droner",
-  "drones",
-  "drongo",
-  "drools",
-  "droops",
-  "droopy",
-  "dropsy",
-  "drosky",
-  "drossy",
-  "drouks",
-  "drouth",
-  "droved",
-  "drover",
-  "droves",
-  "drownd",
-  "drowns",
-  "drowse",
-  "drowsy",
-  "drudge",
-  "druggy",
-  "druids",
-  "drumly",
-  "drunks",
-  "drupes",
-  "druses",
-  "dryads",
-  "dryers",
-  "dryest",
-  "drying",
-  "dryish",
-  "drylot",
-  "dually",
-  "dubbed",
-  "dubber",
-  "dubbin",
-  "ducats",
-  "ducked",
-  "ducker",
-  "duckie",
-  "ductal",
-  "ducted",
-  "duddie",
-  "dudeen",
-  "duding",
-  "dudish",
-  "dueled",
-  "dueler",
-  "duelli",
-  "duello",
-  "duende",
-  "duenna",
-  "duffel",
-  "duffer",
-  "duffle",
-  "dugong",
-  "dugout",
-  "duiker",
-  "duking",
-  "dulcet",
-  "dulias",
-  "dulled",
-  "duller",
-  "dulses",
-  "dumbed",
-  "dumber",
-  "dumbly",
-  "dumdum",
-  "dumped",
-  "dumper",
-  "dunams",
-  "dunces",
-  "dunged",
-  "dunite",
-  "dunked",
-  "dunker",
-  "dunlin",
-  "dunned",
-  "dunner",
-  "dunted",
-  "duolog",
-  "duomos",
-  "dupers",
-  "dupery",
-  "duping",
-  "duplex",
-  "dupped",
-  "durbar",
-  "duress",
-  "durian",
-  "during",
-  "durion",
-  "durned",
-  "durocs",
-  "durras",
-  "durrie",
-  "durums",
-  "dusked",
-  "dusted",
-  "duster",
-  "dustup",
-  "duties",
-  "duvets",
-  "dwarfs",
-  "dweebs",
-  "dwells",
-  "dwined",
-  "dwines",
-  "dyable",
-  "dyadic",
-  "dybbuk",
-  "dyeing",
-  "dyings",
-  "dyking",
-  "dynamo",
-  "dynast",
-  "dynein",
-  "dynels",
-  "dynode",
-  "dyvour",
-  "eagers",
-  "eagles",
-  "eaglet",
-  "eagres",
-  "earful",
-  "earing",
-  "earlap",
-  "earned",
-  "earner",
-  "earths",
-  "earthy",
-  "earwax",
-  "earwig",
-  "easels",
-  "easier",
-  "easies",
-  "easily",
-  "easing",
-  "easter",
-  "eaters",
-  "eatery",
-  "eating",
-  "ebbets",
-  "ebbing",
-  "ecarte",
-  "ecesis",
-  "echard",
-  "eching",
-  "echini",
-  "echoed",
-  "echoer",
-  "echoes",
-  "echoey",
-  "echoic",
-  "eclair",
-  "eclats",
-  "ectype",
-  "eczema",
-  "eddied",
-  "eddies",
-  "eddoes",
-  "edemas",
-  "edenic",
-  "edgers",
-  "edgier",
-  "edgily",
-  "edging",
-  "edible",
-  "edicts",
-  "ediles",
-  "edited",
-  "editor",
-  "educed",
-  "educes",
-  "educts",
-  "eelier",
-  "eerier",
-  "eerily",
-  "efface",
-  "effect",
-  "effete",
-  "effigy",
-  "efflux",
-  "effort",
-  "effuse",
-  "egesta",
-  "egests",
-  "eggars",
-  "eggcup",
-  "eggers",
-  "egging",
-  "eggnog",
-  "egises",
-  "egoism",
-  "egoist",
-  "egress",
-  "egrets",
-  "eiders",
-  "eidola",
-  "eighth",
-  "eights",
-  "eighty",
-  "eikons",
-  "either",
-  "ejecta",
-  "ejects",
-  "ekuele",
-  "elains",
-  "elands",
-  "elapid",
-  "elapse",
-  "elated",
-  "elater",
-  "elates",
-  "elbows",
-  "elders",
-  "eldest",
-  "elects",
-  "elegit",
-  "elemis",
-  "eleven",
-  "elevon",
-  "elfins",
-  "elfish",
-  "elicit",
-  "elided",
-  "elides",
-  "elints",
-  "elites",
-  "elixir",
-  "elmier",
-  "elodea",
-  "eloign",
-  "eloins",
-  "eloped",
-  "eloper",
-  "elopes",
-  "eluant",
-  "eluate",
-  "eluded",
-  "eluder",
-  "eludes",
-  "eluent",
-  "eluted",
-  "elutes",
-  "eluvia",
-  "elvers",
-  "elvish",
-  "elytra",
-  "embalm",
-  "embank",
-  "embark",
-  "embars",
-  "embays",
-  "embeds",
-  "embers",
-  "emblem",
-  "embody",
-  "emboli",
-  "emboly",
-  "embosk",
-  "emboss",
-  "embows",
-  "embrue",
-  "embryo",
-  "emceed",
-  "emcees",
-  "emeers",
-  "emends",
-  "emerge",
-  "emerod",
-  "emeses",
-  "emesis",
-  "emetic",
-  "emetin",
-  "emeute",
-  "emigre",
-  "emmers",
-  "emmets",
-  "emodin",
-  "emoted",
-  "emoter",
-  "emotes",
-  "empale",
-  "empery",
-  "empire",
-  "employ",
-  "emydes",
-  "enable",
-  "enacts",
-  "enamel",
-  "enamor",
-  "enates",
-  "enatic",
-  "encage",
-  "encamp",
-  "encase",
-  "encash",
-  "encina",
-  "encode",
-  "encore",
-  "encyst",
-  "endear",
-  "enders",
-  "ending",
-  "endite",
-  "endive",
-  "endows",
-  "endrin",
-  "endued",
-  "endues",
-  "endure",
-  "enduro",
-  "enemas",
-  "energy",
-  "enface",
-  "enfold",
-  "engage",
-  "engild",
-  "engine",
-  "engird",
-  "engirt",
-  "englut",
-  "engram",
-  "engulf",
-  "enhalo",
-  "enigma",
-  "enisle",
-  "enjoin",
-  "enjoys",
-  "enlace",
-  "enlist",
-  "enmesh",
-  "enmity",
-  "ennead",
-  "ennuis",
-  "ennuye",
-  "enokis",
-  "enolic",
-  "enosis",
-  "enough",
-  "enrage",
-  "enrapt",
-  "enrich",
-  "enrobe",
-  "enroll",
-  "enrols",
-  "enroot",
-  "enserf",
-  "ensign",
-  "ensile",
-  "ensoul",
-  "ensued",
-  "ensues",
-  "ensure",
-  "entail",
-  "entera",
-  "enters",
-  "entice",
-  "entire",
-  "entity",
-  "entoil",
-  "entomb",
-  "entrap",
-  "entree",
-  "enured",
-  "enures",
-  "envied",
-  "envier",
-  "envies",
-  "envois",
-  "envoys",
-  "enwind",
-  "enwomb",
-  "enwrap",
-  "enzyme",
-  "enzyms",
-  "eolian",
-  "eolith",
-  "eonian",
-  "eonism",
-  "eosine",
-  "eosins",
-  "epacts",
-  "eparch",
-  "ephahs",
-  "ephebe",
-  "ephebi",
-  "ephods",
-  "ephori",
-  "ephors",
-  "epical",
-  "epigon",
-  "epilog",
-  "epimer",
-  "epizoa",
-  "epochs",
-  "epodes",
-  "eponym",
-  "epopee",
-  "eposes",
-  "equals",
-  "equate",
-  "equids",
-  "equine",
-  "equips",
-  "equity",
-  "erased",
-  "eraser",
-  "erases",
-  "erbium",
-  "erects",
-  "erenow",
-  "ergate",
-  "ergots",
-  "ericas",
-  "eringo",
-  "ermine",
-  "eroded",
-  "erodes",
-  "eroses",
-  "erotic",
-  "errand",
-  "errant",
-  "errata",
-  "erring",
-  "errors",
-  "ersatz",
-  "eructs",
-  "erugos",
-  "erupts",
-  "ervils",
-  "eryngo",
-  "escape",
-  "escarp",
-  "escars",
-  "eschar",
-  "eschew",
-  "escort",
-  "escots",
-  "escrow",
-  "escudo",
-  "eskars",
-  "eskers",
-  "espial",
-  "espied",
-  "espies",
-  "esprit",
-  "essays",
-  "essoin",
-  "estate",
-  "esteem",
-  "esters",
-  "estops",
-  "estral",
-  "estray",
-  "estrin",
-  "estrum",
-  "estrus",
-  "etalon",
-  "etamin",
-  "etapes",
-  "etched",
-  "etcher",
-  "etches",
-  "eterne",
-  "ethane",
-  "ethene",
-  "ethers",
-  "ethics",
-  "ethion",
-  "ethnic",
-  "ethnos",
-  "ethoxy",
-  "ethyls",
-  "ethyne",
-  "etoile",
-  "etudes",
-  "etwees",
-  "etymon",
-  "euchre",
-  "eulogy",
-  "eunuch",
-  "eupnea",
-  "eureka",
-  "euripi",
-  "euroky",
-  "eutaxy",
-  "evaded",
-  "evader",
-  "evades",
-  "evened",
-  "evener",
-  "evenly",
-  "events",
-  "everts",
-  "evicts",
-  "eviler",
-  "evilly",
-  "evince",
-  "evited",
-  "evites",
-  "evoked",
-  "evoker",
-  "evokes",
-  "evolve",
-  "evzone",
-  "exacta",
-  "exacts",
-  "exalts",
-  "examen",
-  "exarch",
-  "exceed",
-  "excels",
-  "except",
-  "excess",
-  "excide",
-  "excise",
-  "excite",
-  "excuse",
-  "exedra",
-  "exempt",
-  "exequy",
-  "exerts",
-  "exeunt",
-  "exhale",
-  "exhort",
-  "exhume",
-  "exiled",
-  "exiles",
-  "exilic",
-  "exines",
-  "exists",
-  "exited",
-  "exodoi",
-  "exodos",
-  "exodus",
-  "exogen",
-  "exonic",
-  "exotic",
-  "expand",
-  "expats",
-  "expect",
-  "expels",
-  "expend",
-  "expert",
-  "expire",
-  "expiry",
-  "export",
-  "expose",
-  "exsect",
-  "exsert",
-  "extant",
-  "extend",
-  "extent",
-  "extern",
-  "extoll",
-  "extols",
-  "extort",
-  "extras",
-  "exuded",
-  "exudes",
-  "exults",
-  "exurbs",
-  "exuvia",
-  "eyases",
-  "eyebar",
-  "eyecup",
-  "eyeful",
-  "eyeing",
-  "eyelet",
-  "eyelid",
-  "eyries",
-  "fabled",
-  "fabler",
-  "fables",
-  "fabric",
-  "facade",
-  "facers",
-  "facete",
-  "facets",
-  "faceup",
-  "facial",
-  "facias",
-  "facies",
-  "facile",
-  "facing",
-  "factor",
-  "facula",
-  "faders",
-  "fadged",
-  "fadges",
-  "fading",
-  "faecal",
-  "faeces",
-  "faenas",
-  "faerie",
-  "fagged",
-  "faggot",
-  "fagins",
-  "fagots",
-  "failed",
-  "faille",
-  "fainer",
-  "faints",
-  "faired",
-  "fairer",
-  "fairly",
-  "faiths",
-  "fajita",
-  "fakeer",
-  "fakers",
-  "fakery",
-  "faking",
-  "fakirs",
-  "falces",
-  "falcon",
-  "fallal",
-  "fallen",
-  "faller",
-  "fallow",
-  "falser",
-  "falsie",
-  "falter",
-  "family",
-  "famine",
-  "faming",
-  "famish",
-  "famous",
-  "famuli",
-  "fandom",
-  "fanega",
-  "fangas",
-  "fanged",
-  "fanion",
-  "fanjet",
-  "fanned",
-  "fanner",
-  "fanons",
-  "fantod",
-  "fantom",
-  "fanums",
-  "faqirs",
-  "faquir",
-  "farads",
-  "farced",
-  "farcer",
-  "farces",
-  "farcie",
-  "farded",
-  "fardel",
-  "farers",
-  "farfal",
-  "farfel",
-  "farina",
-  "faring",
-  "farles",
-  "farmed",
-  "farmer",
-  "farrow",
-  "farted",
-  "fasces",
-  "fascia",
-  "fashed",
-  "fashes",
-  "fasted",
-  "fasten",
-  "faster",
-  "father",
-  "fathom",
-  "fating",
-  "fatsos",
-  "fatted",
-  "fatten",
-  "fatter",
-  "fatwas",
-  "faucal",
-  "fauces",
-  "faucet",
-  "faulds",
-  "faults",
-  "faulty",
-  "faunae",
-  "faunal",
-  "faunas",
-  "fauves",
-  "favela",
-  "favism",
-  "favors",
-  "favour",
-  "fawned",
-  "fawner",
-  "faxing",
-  "faying",
-  "fazing",
-  "fealty",
-  "feared",
-  "fearer",
-  "feased",
-  "feases",
-  "feasts",
-  "feater",
-  "featly",
-  "feazed",
-  "feazes",
-  "fecial",
-  "feckly",
-  "fecula",
-  "fecund",
-  "fedora",
-  "feeble",
-  "feebly",
-  "feeder",
-  "feeing",
-  "feeler",
-  "feezed",
-  "feezes",
-  "feigns",
-  "feijoa",
-  "feints",
-  "feirie",
-  "feists",
-  "feisty",
-  "felids",
-  "feline",
-  "fellah",
-  "fellas",
-  "felled",
-  "feller",
-  "felloe",
-  "fellow",
-  "felons",
-  "felony",
-  "felted",
-  "female",
-  "femmes",
-  "femora",
-  "femurs",
-  "fenced",
-  "fencer",
-  "fences",
-  "fended",
-  "fender",
-  "fennec",
-  "fennel",
-  "feoffs",
-  "ferbam",
-  "feriae",
-  "ferial",
-  "ferias",
-  "ferine",
-  "ferity",
-  "ferlie",
-  "fermis",
-  "ferrel",
-  "ferret",
-  "ferric",
-  "ferrum",
-  "ferula",
-  "ferule",
-  "fervid",
-  "fervor",
-  "fescue",
-  "fessed",
-  "fesses",
-  "festal",
-  "fester",
-  "fetial",
-  "fetich",
-  "feting",
-  "fetish",
-  "fetors",
-  "fetted",
-  "fetter",
-  "fettle",
-  "feuars",
-  "feudal",
-  "feuded",
-  "feuing",
-  "fevers",
-  "fewest",
-  "feyest",
-  "fezzed",
-  "fezzes",
-  "fiacre",
-  "fiance",
-  "fiasco",
-  "fibbed",
-  "fibber",
-  "fibers",
-  "fibres",
-  "fibril",
-  "fibrin",
-  "fibula",
-  "fiches",
-  "fichus",
-  "ficins",
-  "fickle",
-  "fickly",
-  "ficoes",
-  "fiddle",
-  "fiddly",
-  "fidged",
-  "fidges",
-  "fidget",
-  "fields",
-  "fiends",
-  "fierce",
-  "fiesta",
-  "fifers",
-  "fifing",
-  "fifths",
-  "figged",
-  "fights",
-  "figure",
-  "filers",
-  "filets",
-  "filial",
-  "filing",
-  "filled",
-  "filler",
-  "filles",
-  "fillet",
-  "fillip",
-  "fillos",
-  "filmed",
-  "filmer",
-  "filmic",
-  "filose",
-  "filter",
-  "filths",
-  "filthy",
-  "fimble",
-  "finale",
-  "finals",
-  "finder",
-  "finely",
-  "finery",
-  "finest",
-  "finger",
-  "finial",
-  "fining",
-  "finish",
-  "finite",
-  "finked",
-  "finned",
-  "fiords",
-  "fipple",
-  "fiques",
-  "firers",
-  "firing",
-  "firkin",
-  "firman",
-  "firmed",
-  "firmer",
-  "firmly",
-  "firsts",
-  "firths",
-  "fiscal",
-  "fished",
-  "fisher",
-  "fishes",
-  "fisted",
-  "fistic",
-  "fitchy",
-  "fitful",
-  "fitted",
-  "fitter",
-  "fivers",
-  "fixate",
-  "fixers",
-  "fixing",
-  "fixity",
-  "fixure",
-  "fizgig",
-  "fizzed",
-  "fizzer",
-  "fizzes",
-  "fizzle",
-  "fjelds",
-  "fjords",
-  "flabby",
-  "flacks",
-  "flacon",
-  "flaggy",
-  "flagon",
-  "flails",
-  "flairs",
-  "flaked",
-  "flaker",
-  "flakes",
-  "flakey",
-  "flambe",
-  "flamed",
-  "flamen",
-  "flamer",
-  "flames",
-  "flanes",
-  "flange",
-  "flanks",
-  "flappy",
-  "flared",
-  "flares",
-  "flashy",
-  "flasks",
-  "flatly",
-  "flatus",
-  "flaunt",
-  "flavin",
-  "flavor",
-  "flawed",
-  "flaxen",
-  "flaxes",
-  "flayed",
-  "flayer",
-  "fleams",
-  "fleche",
-  "flecks",
-  "flecky",
-  "fledge",
-  "fledgy",
-  "fleece",
-  "fleech",
-  "fleecy",
-  "fleers",
-  "fleets",
-  "flench",
-  "flense",
-  "fleshy",
-  "fletch",
-  "fleury",
-  "flexed",
-  "flexes",
-  "flexor",
-  "fleyed",
-  "flicks",
-  "fliers",
-  "fliest",
-  "flight",
-  "flimsy",
-  "flinch",
-  "flings",
-  "flints",
-  "flinty",
-  "flippy",
-  "flirts",
-  "flirty",
-  "flitch",
-  "flited",
-  "flites",
-  "floats",
-  "floaty",
-  "flocci",
-  "flocks",
-  "flocky",
-  "flongs",
-  "floods",
-  "flooey",
-  "flooie",
-  "floors",
-  "floosy",
-  "floozy",
-  "floppy",
-  "florae",
-  "floral",
-  "floras",
-  "floret",
-  "florid",
-  "florin",
-  "flossy",
-  "flotas",
-  "flours",
-  "floury",
-  "flouts",
-  "flowed",
-  "flower",
-  "fluent",
-  "fluffs",
-  "fluffy",
-  "fluids",
-  "fluked",
-  "flukes",
-  "flukey",
-  "flumed",
-  "flumes",
-  "flumps",
-  "flunks",
-  "flunky",
-  "fluors",
-  "flurry",
-  "fluted",
-  "fluter",
-  "flutes",
-  "flutey",
-  "fluxed",
-  "fluxes",
-  "fluyts",
-  "flyboy",
-  "flybys",
-  "flyers",
-  "flying",
-  "flyman",
-  "flymen",
-  "flyoff",
-  "flysch",
-  "flyted",
-  "flytes",
-  "flyway",
-  "foaled",
-  "foamed",
-  "foamer",
-  "fobbed",
-  "fodder",
-  "fodgel",
-  "foehns",
-  "foeman",
-  "foemen",
-  "foetal",
-  "foetid",
-  "foetor",
-  "foetus",
-  "fogbow",
-  "fogdog",
-  "fogeys",
-  "fogged",
-  "fogger",
-  "fogies",
-  "foible",
-  "foiled",
-  "foined",
-  "foison",
-  "foists",
-  "folate",
-  "folded",
-  "folder",
-  "foliar",
-  "folios",
-  "folium",
-  "folkie",
-  "folksy",
-  "folles",
-  "follis",
-  "follow",
-  "foment",
-  "fomite",
-  "fonded",
-  "fonder",
-  "fondle",
-  "fondly",
-  "fondue",
-  "fondus",
-  "fontal",
-  "foodie",
-  "fooled",
-  "footed",
-  "footer",
-  "footie",
-  "footle",
-  "footsy",
-  "foozle",
-  "fopped",
-  "forage",
-  "forams",
-  "forays",
-  "forbad",
-  "forbid",
-  "forbye",
-  "forced",
-  "forcer",
-  "forces",
-  "forded",
-  "fordid",
-  "foreby",
-  "foredo",
-  "forego",
-  "forest",
-  "forgat",
-  "forged",
-  "forger",
-  "forges",
-  "forget",
-  "forgot",
-  "forint",
-  "forked",
-  "forker",
-  "formal",
-  "format",
-  "formed",
-  "formee",
-  "former",
-  "formes",
-  "formic",
-  "formol",
-  "formyl",
-  "fornix",
-  "forrit",
-  "fortes",
-  "fortis",
-  "forums",
-  "forwhy",
-  "fossae",
-  "fossas",
-  "fosses",
-  "fossil",
-  "foster",
-  "fought",
-  "fouled",
-  "fouler",
-  "foully",
-  "founds",
-  "founts",
-  "fourth",
-  "foveae",
-  "foveal",
-  "foveas",
-  "fowled",
-  "fowler",
-  "foxier",
-  "foxily",
-  "foxing",
-  "foyers",
-  "fozier",
-  "fracas",
-  "fracti",
-  "fraena",
-  "frails",
-  "fraise",
-  "framed",
-  "framer",
-  "frames",
-  "francs",
-  "franks",
-  "frappe",
-  "frater",
-  "frauds",
-  "frayed",
-  "frazil",
-  "freaks",
-  "freaky",
-  "freely",
-  "freers",
-  "freest",
-  "freeze",
-  "french",
-  "frenum",
-  "frenzy",
-  "freres",
-  "fresco",
-  "fretty",
-  "friars",
-  "friary",
-  "fridge",
-  "friend",
-  "friers",
-  "frieze",
-  "fright",
-  "frigid",
-  "frijol",
-  "frills",
-  "frilly",
-  "fringe",
-  "fringy",
-  "frises",
-  "frisks",
-  "frisky",
-  "friths",
-  "fritts",
-  "frivol",
-  "frized",
-  "frizer",
-  "frizes",
-  "frizzy",
-  "frocks",
-  "froggy",
-  "frolic",
-  "fronds",
-  "fronts",
-  "frosts",
-  "frosty",
-  "froths",
-  "frothy",
-  "frouzy",
-  "frowns",
-  "frowst",
-  "frowsy",
-  "frowzy",
-  "frozen",
-  "frugal",
-  "fruits",
-  "fruity",
-  "frumps",
-  "frumpy",
-  "frusta",
-  "fryers",
-  "frying",
-  "frypan",
-  "fubbed",
-  "fucked",
-  "fucker",
-  "fuckup",
-  "fucoid",
-  "fucose",
-  "fucous",
-  "fuddle",
-  "fudged",
-  "fudges",
-  "fueled",
-  "fueler",
-  "fugato",
-  "fugged",
-  "fugios",
-  "fugled",
-  "fugles",
-  "fugued",
-  "fugues",
-  "fuhrer",
-  "fulcra",
-  "fulfil",
-  "fulgid",
-  "fulham",
-  "fullam",
-  "fulled",
-  "fuller",
-  "fulmar",
-  "fumble",
-  "fumers",
-  "fumets",
-  "fumier",
-  "fuming",
-  "fumuli",
-  "funded",
-  "fundic",
-  "fundus",
-  "funest",
-  "fungal",
-  "fungic",
-  "fungus",
-  "funked",
-  "funker",
-  "funkia",
-  "funned",
-  "funnel",
-  "funner",
-  "furane",
-  "furans",
-  "furfur",
-  "furies",
-  "furled",
-  "furler",
-  "furore",
-  "furors",
-  "furred",
-  "furrow",
-  "furzes",
-  "fusain",
-  "fusees",
-  "fusels",
-  "fusile",
-  "fusils",
-  "fusing",
-  "fusion",
-  "fussed",
-  "fusser",
-  "fusses",
-  "fustic",
-  "futile",
-  "futons",
-  "future",
-  "futzed",
-  "futzes",
-  "fuzees",
-  "fuzils",
-  "fuzing",
-  "fuzzed",
-  "fuzzes",
-  "fylfot",
-  "fyttes",
-  "gabbed",
-  "gabber",
-  "gabble",
-  "gabbro",
-  "gabies",
-  "gabion",
-  "gabled",
-  "gables",
-  "gaboon",
-  "gadded",
-  "gadder",
-  "gaddis",
-  "gadfly",
-  "gadget",
-  "gadids",
-  "gadoid",
-  "gaeing",
-  "gaffed",
-  "gaffer",
-  "gaffes",
-  "gagaku",
-  "gagers",
-  "gagged",
-  "gagger",
-  "gaggle",
-  "gaging",
-  "gagman",
-  "gagmen",
-  "gaiety",
-  "gaijin",
-  "gained",
-  "gainer",
-  "gainly",
-  "gainst",
-  "gaited",
-  "gaiter",
-  "galago",
-  "galahs",
-  "galaxy",
-  "galeae",
-  "galeas",
-  "galena",
-  "galere",
-  "galiot",
-  "galled",
-  "gallet",
-  "galley",
-  "gallic",
-  "gallon",
-  "gallop",
-  "gallus",
-  "galoot",
-  "galops",
-  "galore",
-  "galosh",
-  "galyac",
-  "galyak",
-  "gamays",
-  "gambas",
-  "gambes",
-  "gambia",
-  "gambir",
-  "gambit",
-  "gamble",
-  "gambol",
-  "gamely",
-  "gamers",
-  "gamest",
-  "gamete",
-  "gamier",
-  "gamily",
-  "gamine",
-  "gaming",
-  "gamins",
-  "gammas",
-  "gammed",
-  "gammer",
-  "gammon",
-  "gamuts",
-  "gander",
-  "ganefs",
-  "ganevs",
-  "ganged",
-  "ganger",
-  "gangly",
-  "gangue",
-  "ganjah",
-  "ganjas",
-  "gannet",
-  "ganofs",
-  "ganoid",
-  "gantry",
-  "gaoled",
-  "gaoler",
-  "gapers",
-  "gaping",
-  "gapped",
-  "garage",
-  "garbed",
-  "garble",
-  "garcon",
-  "garden",
-  "garget",
-  "gargle",
-  "garish",
-  "garlic",
-  "garner",
-  "garnet",
-  "garote",
-  "garred",
-  "garret",
-  "garron",
-  "garter",
-  "garths",
-  "garvey",
-  "gasbag",
-  "gascon",
-  "gashed",
-  "gasher",
-  "gashes",
-  "gasify",
-  "gasket",
-  "gaskin",
-  "gaslit",
-  "gasman",
-  "gasmen",
-  "gasped",
-  "gasper",
-  "gassed",
-  "gasser",
-  "gasses",
-  "gasted",
-  "gaster",
-  "gateau",
-  "gather",
-  "gating",
-  "gators",
-  "gauche",
-  "gaucho",
-  "gauged",
-  "gauger",
-  "gauges",
-  "gaults",
-  "gaumed",
-  "gauzes",
-  "gavage",
-  "gavels",
-  "gavial",
-  "gavots",
-  "gawked",
-  "gawker",
-  "gawped",
-  "gawper",
-  "gawsie",
-  "gayals",
-  "gayest",
-  "gayety",
-  "gazabo",
-  "gazars",
-  "gazebo",
-  "gazers",
-  "gazing",
-  "gazump",
-  "geared",
-  "gecked",
-  "geckos",
-  "geegaw",
-  "geeing",
-  "geests",
-  "geezer",
-  "geisha",
-  "gelada",
-  "gelant",
-  "gelate",
-  "gelati",
-  "gelato",
-  "gelded",
-  "gelder",
-  "gelees",
-  "gelled",
-  "gemmae",
-  "gemmed",
-  "gemote",
-  "gemots",
-  "gender",
-  "genera",
-  "genets",
-  "geneva",
-  "genial",
-  "genies",
-  "genips",
-  "genius",
-  "genoas",
-  "genome",
-  "genoms",
-  "genres",
-  "genros",
-  "gentes",
-  "gentil",
-  "gentle",
-  "gently",
-  "gentoo",
-  "gentry",
-  "geodes",
-  "geodic",
-  "geoids",
-  "gerahs",
-  "gerbil",
-  "gerent",
-  "german",
-  "germen",
-  "gerund",
-  "gestes",
-  "gestic",
-  "getter",
-  "getups",
-  "gewgaw",
-  "geyser",
-  "gharri",
-  "gharry",
-  "ghauts",
-  "ghazis",
-  "gherao",
-  "ghetto",
-  "ghibli",
-  "ghosts",
-  "ghosty",
-  "ghouls",
-  "ghylls",
-  "giants",
-  "giaour",
-  "gibbed",
-  "gibber",
-  "gibbet",
-  "gibbon",
-  "gibers",
-  "gibing",
-  "giblet",
-  "gibson",
-  "giddap",
-  "gieing",
-  "gifted",
-  "gigged",
-  "giggle",
-  "giggly",
-  "giglet",
-  "giglot",
-  "gigolo",
-  "gigots",
-  "gigues",
-  "gilded",
-  "gilder",
-  "gilled",
-  "giller",
-  "gillie",
-  "gimbal",
-  "gimels",
-  "gimlet",
-  "gimmal",
-  "gimmes",
-  "gimmie",
-  "gimped",
-  "gingal",
-  "ginger",
-  "gingko",
-  "ginkgo",
-  "ginned",
-  "ginner",
-  "gipons",
-  "gipped",
-  "gipper",
-  "girded",
-  "girder",
-  "girdle",
-  "girlie",
-  "girned",
-  "girons",
-  "girted",
-  "girths",
-  "gismos",
-  "gitano",
-  "gittin",
-  "givens",
-  "givers",
-  "giving",
-  "gizmos",
-  "glaces",
-  "glacis",
-  "glades",
-  "gladly",
-  "glaire",
-  "glairs",
-  "glairy",
-  "glaive",
-  "glamor",
-  "glance",
-  "glands",
-  "glared",
-  "glares",
-  "glassy",
-  "glazed",
-  "glazer",
-  "glazes",
-  "gleams",
-  "gleamy",
-  "gleans",
-  "glebae",
-  "glebes",
-  "gledes",
-  "gleeds",
-  "gleeks",
-  "gleets",
-  "gleety",
-  "glegly",
-  "gleyed",
-  "glibly",
-  "glided",
-  "glider",
-  "glides",
-  "gliffs",
-  "glimed",
-  "glimes",
-  "glints",
-  "glioma",
-  "glitch",
-  "glitzy",
-  "gloams",
-  "gloats",
-  "global",
-  "globby",
-  "globed",
-  "globes",
-  "globin",
-  "gloggs",
-  "glomus",
-  "glooms",
-  "gloomy",
-  "gloppy",
-  "gloria",
-  "glossa",
-  "glossy",
-  "glosts",
-  "glouts",
-  "gloved",
-  "glover",
-  "gloves",
-  "glowed",
-  "glower",
-  "glozed",
-  "glozes",
-  "glucan",
-  "gluers",
-  "gluier",
-  "gluily",
-  "gluing",
-  "glumes",
-  "glumly",
-  "glumpy",
-  "glunch",
-  "gluons",
-  "glutei",
-  "gluten",
-  "glycan",
-  "glycin",
-  "glycol",
-  "glycyl",
-  "glyphs",
-  "gnarls",
-  "gnarly",
-  "gnarrs",
-  "gnatty",
-  "gnawed",
-  "gnawer",
-  "gneiss",
-  "gnomes",
-  "gnomic",
-  "gnomon",
-  "gnoses",
-  "gnosis",
-  "goaded",
-  "goaled",
-  "goalie",
-  "goanna",
-  "goatee",
-  "gobang",
-  "gobans",
-  "gobbed",
-  "gobbet",
-  "gobble",
-  "gobies",
-  "goblet",
-  "goblin",
-  "goboes",
-  "gobony",
-  "goddam",
-  "godded",
-  "godets",
-  "godown",
-  "godson",
-  "godwit",
-  "gofers",
-  "goffer",
-  "goggle",
-  "goggly",
-  "goglet",
-  "goings",
-  "goiter",
-  "goitre",
-  "golden",
-  "golder",
-  "golems",
-  "golfed",
-  "golfer",
-  "golosh",
-  "gombos",
-  "gomuti",
-  "gonads",
-  "gonefs",
-  "goners",
-  "gonged",
-  "goniff",
-  "gonifs",
-  "gonion",
-  "gonium",
-  "gonofs",
-  "gonoph",
-  "goober",
-  "goodby",
-  "goodie",
-  "goodly",
-  "goofed",
-  "googly",
-  "googol",
-  "gooier",
-  "gooney",
-  "goonie",
-  "gooral",
-  "goosed",
-  "gooses",
-  "goosey",
-  "gopher",
-  "gorals",
-  "gorged",
-  "gorger",
-  "gorges",
-  "gorget",
-  "gorgon",
-  "gorhen",
-  "gorier",
-  "gorily",
-  "goring",
-  "gorses",
-  "gospel",
-  "gossan",
-  "gossip",
-  "gothic",
-  "gotten",
-  "gouged",
-  "gouger",
-  "gouges",
-  "gourde",
-  "gourds",
-  "govern",
-  "gowans",
-  "gowany",
-  "gowned",
-  "goyish",
-  "graals",
-  "grabby",
-  "graben",
-  "graced",
-  "graces",
-  "graded",
-  "grader",
-  "grades",
-  "gradin",
-  "gradus",
-  "grafts",
-  "graham",
-  "grails",
-  "grains",
-  "grainy",
-  "gramas",
-  "gramme",
-  "gramps",
-  "grands",
-  "grange",
-  "granny",
-  "grants",
-  "granum",
-  "grapes",
-  "grapey",
-  "graphs",
-  "grappa",
-  "grasps",
-  "grassy",
-  "grated",
-  "grater",
-  "grates",
-  "gratin",
-  "gratis",
-  "graved",
-  "gravel",
-  "graven",
-  "graver",
-  "graves",
-  "gravid",
-  "grayed",
-  "grayer",
-  "grayly",
-  "grazed",
-  "grazer",
-  "grazes",
-  "grease",
-  "greasy",
-  "greats",
-  "greave",
-  "grebes",
-  "greeds",
-  "greedy",
-  "greens",
-  "greeny",
-  "greets",
-  "gregos",
-  "greige",
-  "gremmy",
-  "greyed",
-  "greyer",
-  "greyly",
-  "grided",
-  "grides",
-  "griefs",
-  "grieve",
-  "griffe",
-  "griffs",
-  "grifts",
-  "grigri",
-  "grille",
-  "grills",
-  "grilse",
-  "grimed",
-  "grimes",
-  "grimly",
-  "grinch",
-  "grinds",
-  "gringo",
-  "griots",
-  "griped",
-  "griper",
-  "gripes",
-  "gripey",
-  "grippe",
-  "grippy",
-  "grisly",
-  "grison",
-  "grists",
-  "griths",
-  "gritty",
-  "grivet",
-  "groans",
-  "groats",
-  "grocer",
-  "groggy",
-  "groins",
-  "grooms",
-  "groove",
-  "groovy",
-  "groped",
-  "groper",
-  "gropes",
-  "grosze",
-  "groszy",
-  "grotto",
-  "grotty",
-  "grouch",
-  "ground",
-  "groups",
-  "grouse",
-  "grouts",
-  "grouty",
-  "groved",
-  "grovel",
-  "groves",
-  "grower",
-  "growls",
-  "growly",
-  "growth",
-  "groyne",
-  "grubby",
-  "grudge",
-  "gruels",
-  "gruffs",
-  "gruffy",
-  "grugru",
-  "grumes",
-  "grumps",
-  "grumpy",
-  "grunge",
-  "grungy",
-  "grunts",
-  "grutch",
-  "guacos",
-  "guaiac",
-  "guanay",
-  "guanin",
-  "guanos",
-  "guards",
-  "guavas",
-  "guenon",
-  "guests",
-  "guffaw",
-  "guggle",
-  "guglet",
-  "guided",
-  "guider",
-  "guides",
-  "guidon",
-  "guilds",
-  "guiled",
-  "guiles",
-  "guilts",
-  "guilty",
-  "guimpe",
-  "guinea",
-  "guiros",
-  "guised",
-  "guises",
-  "guitar",
-  "gulags",
-  "gulden",
-  "gulfed",
-  "gulled",
-  "gullet",
-  "gulley",
-  "gulped",
-  "gulper",
-  "gumbos",
-  "gummas",
-  "gummed",
-  "gummer",
-  "gundog",
-  "gunite",
-  "gunman",
-  "gunmen",
-  "gunned",
-  "gunnel",
-  "gunnen",
-  "gunner",
-  "gunsel",
-  "gurged",
-  "gurges",
-  "gurgle",
-  "gurnet",
-  "gurney",
-  "gushed",
-  "gusher",
-  "gushes",
-  "gusset",
-  "gussie",
-  "gusted",
-  "guttae",
-  "gutted",
-  "gutter",
-  "guttle",
-  "guying",
-  "guyots",
-  "guzzle",
-  "gweduc",
-  "gybing",
-  "gypped",
-  "gypper",
-  "gypsum",
-  "gyrase",
-  "gyrate",
-  "gyrene",
-  "gyring",
-  "gyrons",
-  "gyrose",
-  "gyving",
-  "habile",
-  "habits",
-  "haboob",
-  "haceks",
-  "hacked",
-  "hackee",
-  "hacker",
-  "hackie",
-  "hackle",
-  "hackly",
-  "hading",
-  "hadith",
-  "hadjee",
-  "hadjes",
-  "hadjis",
-  "hadron",
-  "haeing",
-  "haemal",
-  "haemic",
-  "haemin",
-  "haeres",
-  "haffet",
-  "haffit",
-  "hafted",
-  "hafter",
-  "hagbut",
-  "hagdon",
-  "hagged",
-  "haggis",
-  "haggle",
-  "hailed",
-  "hailer",
-  "hairdo",
-  "haired",
-  "hajjes",
-  "hajjis",
-  "hakeem",
-  "hakims",
-  "halala",
-  "halers",
-  "haleru",
-  "halest",
-  "halide",
-  "halids",
-  "haling",
-  "halite",
-  "hallah",
-  "hallel",
-  "halloa",
-  "halloo",
-  "hallos",
-  "hallot",
-  "hallow",
-  "hallux",
-  "halmas",
-  "haloed",
-  "haloes",
-  "haloid",
-  "halted",
-  "halter",
-  "halutz",
-  "halvah",
-  "halvas",
-  "halved",
-  "halves",
-  "hamada",
-  "hamals",
-  "hamate",
-  "hamaul",
-  "hamlet",
-  "hammal",
-  "hammed",
-  "hammer",
-  "hamper",
-  "hamuli",
-  "hamzah",
-  "hamzas",
-  "hances",
-  "handed",
-  "handle",
-  "hangar",
-  "hanged",
-  "hanger",
-  "hangul",
-  "hangup",
-  "haniwa",
-  "hanked",
-  "hanker",
-  "hankie",
-  "hansas",
-  "hansel",
-  "hanses",
-  "hansom",
-  "hanted",
-  "hantle",
-  "haoles",
-  "happed",
-  "happen",
-  "hapten",
-  "haptic",
-  "harass",
-  "harbor",
-  "harden",
-  "harder",
-  "hardly",
-  "hareem",
-  "harems",
-  "haring",
-  "harked",
-  "harken",
-  "harlot",
-  "harmed",
-  "harmer",
-  "harmin",
-  "harped",
-  "harper",
-  "harpin",
-  "harrow",
-  "hartal",
-  "hashed",
-  "hashes",
-  "haslet",
-  "hasped",
-  "hassel",
-  "hassle",
-  "hasted",
-  "hasten",
-  "hastes",
-  "hatbox",
-  "haters",
-  "hatful",
-  "hating",
-  "hatpin",
-  "hatred",
-  "hatted",
-  "hatter",
-  "haughs",
-  "hauled",
-  "hauler",
-  "haulms",
-  "haulmy",
-  "haunch",
-  "haunts",
-  "hausen",
-  "havens",
-  "havers",
-  "having",
-  "havior",
-  "havocs",
-  "hawing",
-  "hawked",
-  "hawker",
-  "hawkey",
-  "hawkie",
-  "hawser",
-  "hawses",
-  "hayers",
-  "haying",
-  "haymow",
-  "hazans",
-  "hazard",
-  "hazels",
-  "hazers",
-  "hazier",
-  "hazily",
-  "hazing",
-  "hazzan",
-  "headed",
-  "header",
-  "healed",
-  "healer",
-  "health",
-  "heaped",
-  "hearer",
-  "hearse",
-  "hearth",
-  "hearts",
-  "hearty",
-  "heated",
-  "heater",
-  "heaths",
-  "heathy",
-  "heaume",
-  "heaved",
-  "heaven",
-  "heaver",
-  "heaves",
-  "heckle",
-  "hectic",
-  "hector",
-  "heddle",
-  "heders",
-  "hedged",
-  "hedger",
-  "hedges",
-  "heeded",
-  "heeder",
-  "heehaw",
-  "heeled",
-  "heeler",
-  "heezed",
-  "heezes",
-  "hefted",
-  "hefter",
-  "hegari",
-  "hegira",
-  "heifer",
-  "height",
-  "heiled",
-  "heinie",
-  "heired",
-  "heishi",
-  "heists",
-  "hejira",
-  "heliac",
-  "helios",
-  "helium",
-  "helled",
-  "heller",
-  "hellos",
-  "helmed",
-  "helmet",
-  "helots",
-  "helped",
-  "helper",
-  "helved",
-  "helves",
-  "hemins",
-  "hemmed",
-  "hemmer",
-  "hemoid",
-  "hempen",
-  "hempie",
-  "henbit",
-  "hennas",
-  "henrys",
-  "hented",
-  "hepcat",
-  "heptad",
-  "herald",
-  "herbal",
-  "herbed",
-  "herded",
-  "herder",
-  "herdic",
-  "hereat",
-  "hereby",
-  "herein",
-  "hereof",
-  "hereon",
-  "heresy",
-  "hereto",
-  "heriot",
-  "hermae",
-  "hermai",
-  "hermit",
-  "hernia",
-  "heroes",
-  "heroic",
-  "heroin",
-  "herons",
-  "herpes",
-  "hetero",
-  "hetman",
-  "heuchs",
-  "heughs",
-  "hewers",
-  "hewing",
-  "hexade",
-  "hexads",
-  "hexane",
-  "hexers",
-  "hexing",
-  "hexone",
-  "hexose",
-  "hexyls",
-  "heyday",
-  "heydey",
-  "hiatal",
-  "hiatus",
-  "hiccup",
-  "hickey",
-  "hidden",
-  "hiders",
-  "hiding",
-  "hieing",
-  "hiemal",
-  "higgle",
-  "higher",
-  "highly",
-  "highth",
-  "hights",
-  "hijack",
-  "hikers",
-  "hiking",
-  "hilled",
-  "hiller",
-  "hilloa",
-  "hillos",
-  "hilted",
-  "hinder",
-  "hinged",
-  "hinger",
-  "hinges",
-  "hinted",
-  "hinter",
-  "hipped",
-  "hipper",
-  "hippie",
-  "hippos",
-  "hirers",
-  "hiring",
-  "hirple",
-  "hirsel",
-  "hirsle",
-  "hispid",
-  "hissed",
-  "hisser",
-  "hisses",
-  "histed",
-  "hither",
-  "hitter",
-  "hiving",
-  "hoagie",
-  "hoards",
-  "hoarse",
-  "hoaxed",
-  "hoaxer",
-  "hoaxes",
-  "hobbed",
-  "hobbit",
-  "hobble",
-  "hobnob",
-  "hoboed",
-  "hoboes",
-  "hocked",
-  "hocker",
-  "hockey",
-  "hodads",
-  "hodden",
-  "hoddin",
-  "hoeing",
-  "hogans",
-  "hogged",
-  "hogger",
-  "hogget",
-  "hognut",
-  "hogtie",
-  "hoicks",
-  "hoiden",
-  "hoised",
-  "hoises",
-  "hoists",
-  "hokier",
-  "hokily",
-  "hoking",
-  "hokums",
-  "holard",
-  "holden",
-  "holder",
-  "holdup",
-  "holier",
-  "holies",
-  "holily",
-  "holing",
-  "holism",
-  "holist",
-  "holked",
-  "hollas",
-  "holler",
-  "holloa",
-  "holloo",
-  "hollos",
-  "hollow",
-  "holmic",
-  "holpen",
-  "homage",
-  "hombre",
-  "homely",
-  "homers",
-  "homier",
-  "homily",
-  "homing",
-  "hominy",
-  "hommos",
-  "honans",
-  "honcho",
-  "hondas",
-  "hondle",
-  "honers",
-  "honest",
-  "honeys",
-  "honied",
-  "honing",
-  "honked",
-  "honker",
-  "honkey",
-  "honkie",
-  "honors",
-  "honour",
-  "hooded",
-  "hoodie",
-  "hoodoo",
-  "hooeys",
-  "hoofed",
-  "hoofer",
-  "hookah",
-  "hookas",
-  "hooked",
-  "hooker",
-  "hookey",
-  "hookup",
-  "hoolie",
-  "hooped",
-  "hooper",
-  "hoopla",
-  "hoopoe",
-  "hoopoo",
-  "hoorah",
-  "hooray",
-  "hootch",
-  "hooted",
-  "hooter",
-  "hooved",
-  "hooves",
-  "hopers",
-  "hoping",
-  "hopped",
-  "hopper",
-  "hopple",
-  "horahs",
-  "horary",
-  "horded",
-  "hordes",
-  "horned",
-  "hornet",
-  "horrid",
-  "horror",
-  "horsed",
-  "horses",
-  "horsey",
-  "horste",
-  "horsts",
-  "hosels",
-  "hosier",
-  "hosing",
-  "hostas",
-  "hosted",
-  "hostel",
-  "hostly",
-  "hotbed",
-  "hotbox",
-  "hotdog",
-  "hotels",
-  "hotrod",
-  "hotted",
-  "hotter",
-  "houdah",
-  "hounds",
-  "houris",
-  "hourly",
-  "housed",
-  "housel",
-  "houser",
-  "houses",
-  "hovels",
-  "hovers",
-  "howdah",
-  "howdie",
-  "howffs",
-  "howked",
-  "howled",
-  "howler",
-  "howlet",
-  "hoyden",
-  "hoyles",
-  "hubbly",
-  "hubbub",
-  "hubcap",
-  "hubris",
-  "huckle",
-  "huddle",
-  "huffed",
-  "hugely",
-  "hugest",
-  "hugged",
-  "hugger",
-  "huipil",
-  "hulked",
-  "hulled",
-  "huller",
-  "hulloa",
-  "hullos",
-  "humane",
-  "humans",
-  "humate",
-  "humble",
-  "humbly",
-  "humbug",
-  "humeri",
-  "hummed",
-  "hummer",
-  "hummus",
-  "humors",
-  "humour",
-  "humped",
-  "humphs",
-  "humvee",
-  "hunger",
-  "hungry",
-  "hunker",
-  "hunted",
-  "hunter",
-  "hurdle",
-  "hurled",
-  "hurler",
-  "hurley",
-  "hurrah",
-  "hurray",
-  "hursts",
-  "hurter",
-  "hurtle",
-  "hushed",
-  "hushes",
-  "husked",
-  "husker",
-  "hussar",
-  "hustle",
-  "hutted",
-  "hutzpa",
-  "huzzah",
-  "huzzas",
-  "hyaena",
-  "hyalin",
-  "hybrid",
-  "hybris",
-  "hydrae",
-  "hydras",
-  "hydria",
-  "hydric",
-  "hydrid",
-  "hydros",
-  "hyenas",
-  "hyenic",
-  "hyetal",
-  "hymens",
-  "hymnal",
-  "hymned",
-  "hyoids",
-  "hyphae",
-  "hyphal",
-  "hyphen",
-  "hyping",
-  "hypnic",
-  "hypoed",
-  "hysons",
-  "hyssop",
-  "iambic",
-  "iambus",
-  "iatric",
-  "ibexes",
-  "ibices",
-  "ibidem",
-  "ibises",
-  "icebox",
-  "icecap",
-  "iceman",
-  "icemen",
-  "ichors",
-  "icicle",
-  "iciest",
-  "icings",
-  "ickers",
-  "ickier",
-  "ickily",
-  "icones",
-  "iconic",
-  "ideals",
-  "ideate",
-  "idiocy",
-  "idioms",
-  "idiots",
-  "idlers",
-  "idlest",
-  "idling",
-  "idylls",
-  "iffier",
-  "igloos",
-  "ignify",
-  "ignite",
-  "ignore",
-  "iguana",
-  "ihrams",
-  "ilexes",
-  "iliads",
-  "illest",
-  "illite",
-  "illume",
-  "imaged",
-  "imager",
-  "images",
-  "imagos",
-  "imaret",
-  "imaums",
-  "imbalm",
-  "imbark",
-  "imbeds",
-  "imbibe",
-  "imbody",
-  "imbrue",
-  "imbued",
-  "imbues",
-  "imides",
-  "imidic",
-  "imines",
-  "immane",
-  "immesh",
-  "immies",
-  "immune",
-  "immure",
-  "impact",
-  "impair",
-  "impala",
-  "impale",
-  "impark",
-  "impart",
-  "impawn",
-  "impede",
-  "impels",
-  "impend",
-  "imphee",
-  "imping",
-  "impish",
-  "impone",
-  "import",
-  "impose",
-  "impost",
-  "improv",
-  "impugn",
-  "impure",
-  "impute",
-  "inaner",
-  "inanes",
-  "inarch",
-  "inarms",
-  "inborn",
-  "inbred",
-  "incage",
-  "incant",
-  "incase",
-  "incept",
-  "incest",
-  "inched",
-  "inches",
-  "incise",
-  "incite",
-  "inclip",
-  "incogs",
-  "income",
-  "incony",
-  "incubi",
-  "incult",
-  "incurs",
-  "incuse",
-  "indaba",
-  "indeed",
-  "indene",
-  "indent",
-  "indict",
-  "indies",
-  "indign",
-  "indigo",
-  "indite",
-  "indium",
-  "indole",
-  "indols",
-  "indoor",
-  "indows",
-  "indris",
-  "induce",
-  "induct",
-  "indued",
-  "indues",
-  "indult",
-  "inerts",
-  "infall",
-  "infamy",
-  "infant",
-  "infare",
-  "infect",
-  "infers",
-  "infest",
-  "infirm",
-  "inflow",
-  "influx",
-  "infold",
-  "inform",
-  "infuse",
-  "ingate",
-  "ingest",
-  "ingles",
-  "ingots",
-  "ingulf",
-  "inhale",
-  "inhaul",
-  "inhere",
-  "inhume",
-  "inject",
-  "injure",
-  "injury",
-  "inkers",
-  "inkier",
-  "inking",
-  "inkjet",
-  "inkles",
-  "inkpot",
-  "inlace",
-  "inlaid",
-  "inland",
-  "inlays",
-  "inlets",
-  "inlier",
-  "inmate",
-  "inmesh",
-  "inmost",
-  "innate",
-  "inners",
-  "inning",
-  "inpour",
-  "inputs",
-  "inroad",
-  "inrush",
-  "insane",
-  "inseam",
-  "insect",
-  "insert",
-  "insets",
-  "inside",
-  "insist",
-  "insole",
-  "insoul",
-  "inspan",
-  "instal",
-  "instar",
-  "instep",
-  "instil",
-  "insult",
-  "insure",
-  "intact",
-  "intake",
-  "intend",
-  "intent",
-  "intern",
-  "inters",
-  "intima",
-  "intime",
-  "intine",
-  "intomb",
-  "intone",
-  "intort",
-  "intown",
-  "intron",
-  "intros",
-  "intuit",
-  "inturn",
-  "inulin",
-  "inured",
-  "inures",
-  "inurns",
-  "invade",
-  "invars",
-  "invent",
-  "invert",
-  "invest",
-  "invite",
-  "invoke",
-  "inwall",
-  "inward",
-  "inwind",
-  "inwove",
-  "inwrap",
-  "iodate",
-  "iodide",
-  "iodids",
-  "iodine",
-  "iodins",
-  "iodise",
-  "iodism",
-  "iodize",
-  "iodous",
-  "iolite",
-  "ionics",
-  "ionise",
-  "ionium",
-  "ionize",
-  "ionone",
-  "ipecac",
-  "irades",
-  "irater",
-  "ireful",
-  "irenic",
-  "irides",
-  "iridic",
-  "irised",
-  "irises",
-  "iritic",
-  "iritis",
-  "irking",
-  "irokos",
-  "ironed",
-  "ironer",
-  "irones",
-  "ironic",
-  "irreal",
-  "irrupt",
-  "isatin",
-  "ischia",
-  "island",
-  "islets",
-  "isling",
-  "isobar",
-  "isogon",
-  "isohel",
-  "isolog",
-  "isomer",
-  "isopod",
-  "isseis",
-  "issued",
-  "issuer",
-  "issues",
-  "isthmi",
-  "istles",
-  "italic",
-  "itched",
-  "itches",
-  "itemed",
-  "iterum",
-  "itself",
-  "ixodid",
-  "ixoras",
-  "ixtles",
-  "izzard",
-  "jabbed",
-  "jabber",
-  "jabiru",
-  "jabots",
-  "jacals",
-  "jacana",
-  "jackal",
-  "jacked",
-  "jacker",
-  "jacket",
-  "jading",
-  "jadish",
-  "jaeger",
-  "jagers",
-  "jagged",
-  "jagger",
-  "jagras",
-  "jaguar",
-  "jailed",
-  "jailer",
-  "jailor",
-  "jalaps",
-  "jalops",
-  "jalopy",
-  "jambed",
-  "jambes",
-  "jammed",
-  "jammer",
-  "jangle",
-  "jangly",
-  "japans",
-  "japers",
-  "japery",
-  "japing",
-  "jarful",
-  "jargon",
-  "jarina",
-  "jarrah",
-  "jarred",
-  "jarvey",
-  "jasmin",
-  "jasper",
-  "jassid",
-  "jauked",
-  "jaunce",
-  "jaunts",
-  "jaunty",
-  "jauped",
-  "jawans",
-  "jawing",
-  "jaygee",
-  "jayvee",
-  "jazzed",
-  "jazzer",
-  "jazzes",
-  "jebels",
-  "jeeing",
-  "jeeped",
-  "jeered",
-  "jeerer",
-  "jehads",
-  "jejuna",
-  "jejune",
-  "jelled",
-  "jennet",
-  "jerboa",
-  "jereed",
-  "jerids",
-  "jerked",
-  "jerker",
-  "jerkin",
-  "jerrid",
-  "jersey",
-  "jessed",
-  "jesses",
-  "jested",
-  "jester",
-  "jesuit",
-  "jetons",
-  "jetsam",
-  "jetsom",
-  "jetted",
-  "jetton",
-  "jewels",
-  "jewing",
-  "jezail",
-  "jibbed",
-  "jibber",
-  "jibers",
-  "jibing",
-  "jicama",
-  "jigged",
-  "jigger",
-  "jiggle",
-  "jiggly",
-  "jigsaw",
-  "jihads",
-  "jilted",
-  "jilter",
-  "jiminy",
-  "jimper",
-  "jimply",
-  "jingal",
-  "jingko",
-  "jingle",
-  "jingly",
-  "jinked",
-  "jinker",
-  "jinnee",
-  "jinxed",
-  "jinxes",
-  "jitney",
-  "jitter",
-  "jivers",
-  "jivier",
-  "jiving",
-  "jnanas",
-  "jobbed",
-  "jobber",
-  "jockey",
-  "jockos",
-  "jocose",
-  "jocund",
-  "jogged",
-  "jogger",
-  "joggle",
-  "johnny",
-  "joined",
-  "joiner",
-  "joints",
-  "joists",
-  "jojoba",
-  "jokers",
-  "jokier",
-  "jokily",
-  "joking",
-  "jolted",
-  "jolter",
-  "jorams",
-  "jordan",
-  "jorums",
-  "joseph",
-  "joshed",
-  "josher",
-  "joshes",
-  "josses",
-  "jostle",
-  "jotted",
-  "jotter",
-  "jouals",
-  "jouked",
-  "joules",
-  "jounce",
-  "jouncy",
-  "jousts",
-  "jovial",
-  "jowars",
-  "jowing",
-  "jowled",
-  "joyful",
-  "joying",
-  "joyous",
-  "joypop",
-  "jubbah",
-  "jubhah",
-  "jubile",
-  "judder",
-  "judged",
-  "judger",
-  "judges",
-  "judoka",
-  "jugate",
-  "jugful",
-  "jugged",
-  "juggle",
-  "jugula",
-  "jugums",
-  "juiced",
-  "juicer",
-  "juices",
-  "jujube",
-  "juking",
-  "juleps",
-  "jumbal",
-  "jumble",
-  "jumbos",
-  "jumped",
-  "jumper",
-  "juncos",
-  "jungle",
-  "jungly",
-  "junior",
-  "junked",
-  "junker",
-  "junket",
-  "junkie",
-  "juntas",
-  "juntos",
-  "jupons",
-  "jurant",
-  "jurats",
-  "jurels",
-  "juried",
-  "juries",
-  "jurist",
-  "jurors",
-  "justed",
-  "juster",
-  "justle",
-  "justly",
-  "jutted",
-  "kababs",
-  "kabaka",
-  "kabala",
-  "kabars",
-  "kabaya",
-  "kabiki",
-  "kabobs",
-  "kabuki",
-  "kaffir",
-  "kafirs",
-  "kaftan",
-  "kahuna",
-  "kaiaks",
-  "kainit",
-  "kaiser",
-  "kakapo",
-  "kalams",
-  "kalian",
-  "kalifs",
-  "kaliph",
-  "kalium",
-  "kalmia",
-  "kalong",
-  "kalpak",
-  "kalpas",
-  "kamala",
-  "kamiks",
-  "kamsin",
-  "kanban",
-  "kanjis",
-  "kantar",
-  "kaolin",
-  "kapoks",
-  "kappas",
-  "kaputt",
-  "karate",
-  "karats",
-  "karmas",
-  "karmic",
-  "karoos",
-  "kaross",
-  "karroo",
-  "karsts",
-  "kasbah",
-  "kashas",
-  "kasher",
-  "kation",
-  "kauris",
-  "kavass",
-  "kayaks",
-  "kayles",
-  "kayoed",
-  "kayoes",
-  "kazoos",
-  "kebabs",
-  "kebars",
-  "kebbie",
-  "keblah",
-  "kebobs",
-  "kecked",
-  "keckle",
-  "keddah",
-  "kedged",
-  "kedges",
-  "keeked",
-  "keeled",
-  "keened",
-  "keener",
-  "keenly",
-  "keeper",
-  "keeves",
-  "kefirs",
-  "kegler",
-  "keleps",
-  "kelims",
-  "keloid",
-  "kelped",
-  "kelpie",
-  "kelson",
-  "kelter",
-  "kelvin",
-  "kenafs",
-  "kendos",
-  "kenned",
-  "kennel",
-  "kepped",
-  "keppen",
-  "kerbed",
-  "kerfed",
-  "kermes",
-  "kermis",
-  "kerned",
-  "kernel",
-  "kernes",
-  "kerria",
-  "kersey",
-  "ketene",
-  "ketols",
-  "ketone",
-  "ketose",
-  "kettle",
-  "kevels",
-  "kevils",
-  "keying",
-  "keypad",
-  "keyset",
-  "keyway",
-  "khadis",
-  "khakis",
-  "khalif",
-  "khaphs",
-  "khazen",
-  "khedah",
-  "khedas",
-  "kheths",
-  "khoums",
-  "kiangs",
-  "kiaugh",
-  "kibbeh",
-  "kibbes",
-  "kibbis",
-  "kibble",
-  "kibeis",
-  "kibitz",
-  "kiblah",
-  "kiblas",
-  "kibosh",
-  "kicked",
-  "kicker",
-  "kickup",
-  "kidded",
-  "kidder",
-  "kiddie",
-  "kiddos",
-  "kidnap",
-  "kidney",
-  "kidvid",
-  "kilims",
-  "killed",
-  "killer",
-  "killie",
-  "kilned",
-  "kilted",
-  "kilter",
-  "kiltie",
-  "kimchi",
-  "kimono",
-  "kinase",
-  "kinder",
-  "kindle",
-  "kindly",
-  "kinema",
-  "kinged",
-  "kingly",
-  "kinins",
-  "kinked",
-  "kiosks",
-  "kipped",
-  "kippen",
-  "kipper",
-  "kirned",
-  "kirsch",
-  "kirtle",
-  "kishka",
-  "kishke",
-  "kismat",
-  "kismet",
-  "kissed",
-  "kisser",
-  "kisses",
-  "kiters",
-  "kithed",
-  "kithes",
-  "kiting",
-  "kitsch",
-  "kitted",
-  "kittel",
-  "kitten",
-  "kittle",
-  "klatch",
-  "klaxon",
-  "klepht",
-  "klongs",
-  "kloofs",
-  "kludge",
-  "kluges",
-  "klutzy",
-  "knacks",
-  "knarry",
-  "knaurs",
-  "knaves",
-  "knawel",
-  "kneads",
-  "kneels",
-  "knells",
-  "knifed",
-  "knifer",
-  "knifes",
-  "knight",
-  "knives",
-  "knobby",
-  "knocks",
-  "knolls",
-  "knolly",
-  "knosps",
-  "knotty",
-  "knouts",
-  "knower",
-  "knowns",
-  "knubby",
-  "knurls",
-  "knurly",
-  "koalas",
-  "kobold",
-  "koines",
-  "kolhoz",
-  "kolkoz",
-  "konked",
-  "koodoo",
-  "kookie",
-  "kopeck",
-  "kopeks",
-  "kopjes",
-  "koppas",
-  "koppie",
-  "korats",
-  "koruna",
-  "koruny",
-  "kosher",
-  "kotows",
-  "koumis",
-  "koumys",
-  "kouroi",
-  "kouros",
-  "kousso",
-  "kowtow",
-  "kraals",
-  "krafts",
-  "kraits",
-  "kraken",
-  "krater",
-  "krauts",
-  "kreeps",
-  "krills",
-  "krises",
-  "kronen",
-  "kroner",
-  "kronor",
-  "kronur",
-  "krooni",
-  "kroons",
-  "krubis",
-  "krubut",
-  "kuchen",
-  "kudzus",
-  "kugels",
-  "kukris",
-  "kulaki",
-  "kulaks",
-  "kultur",
-  "kumiss",
-  "kummel",
-  "kurgan",
-  "kurtas",
-  "kussos",
-  "kuvasz",
-  "kvases",
-  "kvetch",
-  "kwacha",
-  "kwanza",
-  "kyacks",
-  "kybosh",
-  "kyries",
-  "kythed",
-  "kythes",
-  "laager",
-  "labara",
-  "labels",
-  "labial",
-  "labile",
-  "labium",
-  "labors",
-  "labour",
-  "labret",
-  "labrum",
-  "lacers",
-  "laches",
-  "lacier",
-  "lacily",
-  "lacing",
-  "lacked",
-  "lacker",
-  "lackey",
-  "lactam",
-  "lactic",
-  "lacuna",
-  "lacune",
-  "ladder",
-  "laddie",
-  "ladens",
-  "laders",
-  "ladies",
-  "lading",
-  "ladino",
-  "ladled",
-  "ladler",
-  "ladles",
-  "ladron",
-  "lagans",
-  "lagend",
-  "lagers",
-  "lagged",
-  "lagger",
-  "lagoon",
-  "laguna",
-  "lagune",
-  "lahars",
-  "laical",
-  "laichs",
-  "laighs",
-  "lairds",
-  "laired",
-  "lakers",
-  "lakier",
-  "laking",
-  "lallan",
-  "lalled",
-  "lambda",
-  "lambed",
-  "lamber",
-  "lambie",
-  "lamedh",
-  "lameds",
-  "lamely",
-  "lament",
-  "lamest",
-  "lamiae",
-  "lamias",
-  "lamina",
-  "laming",
-  "lammed",
-  "lampad",
-  "lampas",
-  "lamped",
-  "lanais",
-  "lanate",
-  "lanced",
-  "lancer",
-  "lances",
-  "lancet",
-  "landau",
-  "landed",
-  "lander",
-  "lanely",
-  "langue",
-  "langur",
-  "lanker",
-  "lankly",
-  "lanner",
-  "lanose",
-  "lanugo",
-  "lapdog",
-  "lapels",
-  "lapful",
-  "lapins",
-  "lapped",
-  "lapper",
-  "lappet",
-  "lapsed",
-  "lapser",
-  "lapses",
-  "lapsus",
-  "laptop",
-  "larded",
-  "larder",
-  "lardon",
-  "larees",
-  "larger",
-  "larges",
-  "largos",
-  "lariat",
-  "larine",
-  "larked",
-  "larker",
-  "larrup",
-  "larums",
-  "larvae",
-  "larval",
-  "larvas",
-  "larynx",
-  "lascar",
-  "lasers",
-  "lashed",
-  "lasher",
-  "lashes",
-  "lasing",
-  "lasses",
-  "lassie",
-  "lassos",
-  "lasted",
-  "laster",
-  "lastly",
-  "lateen",
-  "lately",
-  "latens",
-  "latent",
-  "latest",
-  "lathed",
-  "lather",
-  "lathes",
-  "lathis",
-  "latigo",
-  "latino",
-  "latish",
-  "latkes",
-  "latria",
-  "latten",
-  "latter",
-  "lattes",
-  "lattin",
-  "lauans",
-  "lauded",
-  "lauder",
-  "laughs",
-  "launce",
-  "launch",
-  "laurae",
-  "lauras",
-  "laurel",
-  "lavabo",
-  "lavage",
-  "laveer",
-  "lavers",
-  "laving",
-  "lavish",
-  "lawful",
-  "lawine",
-  "lawing",
-  "lawman",
-  "lawmen",
-  "lawyer",
-  "laxest",
-  "laxity",
-  "layers",
-  "laying",
-  "layman",
-  "laymen",
-  "layoff",
-  "layout",
-  "layups",
-  "lazars",
-  "lazied",
-  "lazier",
-  "lazies",
-  "lazily",
-  "lazing",
-  "lazuli",
-  "leachy",
-  "leaded",
-  "leaden",
-  "leader",
-  "leafed",
-  "league",
-  "leaked",
-  "leaker",
-  "leally",
-  "lealty",
-  "leaned",
-  "leaner",
-  "leanly",
-  "leaped",
-  "leaper",
-  "learns",
-  "learnt",
-  "leased",
-  "leaser",
-  "leases",
-  "leasts",
-  "leaved",
-  "leaven",
-  "leaver",
-  "leaves",
-  "lebens",
-  "leched",
-  "lecher",
-  "leches",
-  "lechwe",
-  "lectin",
-  "lector",
-  "ledger",
-  "ledges",
-  "leered",
-  "leeway",
-  "lefter",
-  "legacy",
-  "legals",
-  "legate",
-  "legato",
-  "legend",
-  "legers",
-  "legged",
-  "leggin",
-  "legion",
-  "legist",
-  "legits",
-  "legman",
-  "legmen",
-  "legong",
-  "legume",
-  "lehuas",
-  "lekvar",
-  "lemans",
-  "lemmas",
-  "lemons",
-  "lemony",
-  "lemurs",
-  "lender",
-  "length",
-  "lenity",
-  "lensed",
-  "lenses",
-  "lenten",
-  "lentic",
-  "lentil",
-  "lentos",
-  "leones",
-  "lepers",
-  "lepton",
-  "lesion",
-  "lessee",
-  "lessen",
-  "lesser",
-  "lesson",
-  "lessor",
-  "lethal",
-  "lethes",
-  "letted",
-  "letter",
-  "letups",
-  "leucin",
-  "leudes",
-  "leukon",
-  "levant",
-  "leveed",
-  "levees",
-  "levels",
-  "levers",
-  "levied",
-  "levier",
-  "levies",
-  "levins",
-  "levity",
-  "lewder",
-  "lewdly",
-  "lexeme",
-  "lexica",
-  "lezzes",
-  "lezzie",
-  "liable",
-  "liaise",
-  "lianas",
-  "lianes",
-  "liangs",
-  "liards",
-  "libber",
-  "libels",
-  "libers",
-  "libido",
-  "liblab",
-  "librae",
-  "libras",
-  "lichee",
-  "lichen",
-  "liches",
-  "lichis",
-  "lichts",
-  "licked",
-  "licker",
-  "lictor",
-  "lidars",
-  "lidded",
-  "lieder",
-  "liefer",
-  "liefly",
-  "lieges",
-  "lienal",
-  "lierne",
-  "liever",
-  "lifers",
-  "lifted",
-  "lifter",
-  "ligand",
-  "ligans",
-  "ligase",
-  "ligate",
-  "ligers",
-  "lights",
-  "lignin",
-  "ligula",
-  "ligule",
-  "ligure",
-  "likely",
-  "likens",
-  "likers",
-  "likest",
-  "liking",
-  "likuta",
-  "lilacs",
-  "lilied",
-  "lilies",
-  "lilted",
-  "limans",
-  "limbas",
-  "limbed",
-  "limber",
-  "limbic",
-  "limbos",
-  "limbus",
-  "limens",
-  "limeys",
-  "limier",
-  "limina",
-  "liming",
-  "limits",
-  "limmer",
-  "limned",
-  "limner",
-  "limnic",
-  "limpas",
-  "limped",
-  "limper",
-  "limpet",
-  "limpid",
-  "limply",
-  "limpsy",
-  "limuli",
-  "linacs",
-  "linage",
-  "linden",
-  "lineal",
-  "linear",
-  "linens",
-  "lineny",
-  "liners",
-  "lineup",
-  "lingam",
-  "lingas",
-  "linger",
-  "lingua",
-  "linier",
-  "lining",
-  "linins",
-  "linked",
-  "linker",
-  "linkup",
-  "linnet",
-  "linsey",
-  "lintel",
-  "linter",
-  "lintol",
-  "linums",
-  "lipase",
-  "lipide",
-  "lipids",
-  "lipins",
-  "lipoid",
-  "lipoma",
-  "lipped",
-  "lippen",
-  "lipper",
-  "liquid",
-  "liquor",
-  "liroth",
-  "lisles",
-  "lisped",
-  "lisper",
-  "lissom",
-  "listed",
-  "listee",
-  "listel",
-  "listen",
-  "lister",
-  "litany",
-  "litchi",
-  "liters",
-  "lither",
-  "lithia",
-  "lithic",
-  "lithos",
-  "litmus",
-  "litres",
-  "litten",
-  "litter",
-  "little",
-  "lively",
-  "livens",
-  "livers",
-  "livery",
-  "livest",
-  "livier",
-  "living",
-  "livres",
-  "livyer",
-  "lizard",
-  "llamas",
-  "llanos",
-  "loaded",
-  "loader",
-  "loafed",
-  "loafer",
-  "loamed",
-  "loaned",
-  "loaner",
-  "loathe",
-  "loaves",
-  "lobate",
-  "lobbed",
-  "lobber",
-  "lobule",
-  "locale",
-  "locals",
-  "locate",
-  "lochan",
-  "lochia",
-  "locked",
-  "locker",
-  "locket",
-  "lockup",
-  "locoed",
-  "locoes",
-  "locule",
-  "loculi",
-  "locums",
-  "locust",
-  "lodens",
-  "lodged",
-  "lodger",
-  "lodges",
-  "lofted",
-  "lofter",
-  "logans",
-  "logged",
-  "logger",
-  "loggia",
-  "loggie",
-  "logics",
-  "logier",
-  "logily",
-  "logion",
-  "logjam",
-  "logway",
-  "loiter",
-  "lolled",
-  "loller",
-  "lollop",
-  "lomein",
-  "loment",
-  "lonely",
-  "loners",
-  "longan",
-  "longed",
-  "longer",
-  "longes",
-  "longly",
-  "looeys",
-  "loofah",
-  "loofas",
-  "looies",
-  "looing",
-  "looked",
-  "looker",
-  "lookup",
-  "loomed",
-  "looney",
-  "looped",
-  "looper",
-  "loosed",
-  "loosen",
-  "looser",
-  "looses",
-  "looted",
-  "looter",
-  "lopers",
-  "loping",
-  "lopped",
-  "lopper",
-  "loquat",
-  "lorans",
-  "lorded",
-  "lordly",
-  "loreal",
-  "lorica",
-  "lories",
-  "losels",
-  "losers",
-  "losing",
-  "losses",
-  "lotahs",
-  "lotion",
-  "lotted",
-  "lottes",
-  "lottos",
-  "louche",
-  "louden",
-  "louder",
-  "loudly",
-  "loughs",
-  "louies",
-  "lounge",
-  "loungy",
-  "louped",
-  "loupen",
-  "loupes",
-  "loured",
-  "loused",
-  "louses",
-  "louted",
-  "louver",
-  "louvre",
-  "lovage",
-  "lovats",
-  "lovely",
-  "lovers",
-  "loving",
-  "lowboy",
-  "lowers",
-  "lowery",
-  "lowest",
-  "lowing",
-  "lowish",
-  "loxing",
-  "lubber",
-  "lubric",
-  "lucent",
-  "lucern",
-  "lucked",
-  "luckie",
-  "lucres",
-  "luetic",
-  "luffas",
-  "luffed",
-  "lugers",
-  "lugged",
-  "lugger",
-  "luggie",
-  "lulled",
-  "lumbar",
-  "lumber",
-  "lumens",
-  "lumina",
-  "lummox",
-  "lumped",
-  "lumpen",
-  "lumper",
-  "lunacy",
-  "lunars",
-  "lunate",
-  "lunets",
-  "lungan",
-  "lunged",
-  "lungee",
-  "lunger",
-  "lunges",
-  "lungis",
-  "lungyi",
-  "lunier",
-  "lunies",
-  "lunker",
-  "lunted",
-  "lunula",
-  "lunule",
-  "lupine",
-  "lupins",
-  "lupous",
-  "lurdan",
-  "lurers",
-  "luring",
-  "lurked",
-  "lurker",
-  "lushed",
-  "lusher",
-  "lushes",
-  "lushly",
-  "lusted",
-  "luster",
-  "lustra",
-  "lustre",
-  "luteal",
-  "lutein",
-  "luteum",
-  "luting",
-  "lutist",
-  "lutzes",
-  "luxate",
-  "luxury",
-  "lyases",
-  "lycees",
-  "lyceum",
-  "lychee",
-  "lyings",
-  "lymphs",
-  "lynxes",
-  "lyrate",
-  "lyrics",
-  "lyrism",
-  "lyrist",
-  "lysate",
-  "lysine",
-  "lysing",
-  "lysins",
-  "lyssas",
-  "lyttae",
-  "lyttas",
-  "macaco",
-  "macaws",
-  "macers",
-  "maches",
-  "machos",
-  "macing",
-  "mackle",
-  "macled",
-  "macles",
-  "macons",
-  "macron",
-  "macros",
-  "macula",
-  "macule",
-  "madame",
-  "madams",
-  "madcap",
-  "madded",
-  "madden",
-  "madder",
-  "madman",
-  "madmen",
-  "madras",
-  "madres",
-  "maduro",
-  "maenad",
-  "maffia",
-  "mafias",
-  "maftir",
-  "maggot",
-  "magian",
-  "magics",
-  "magilp",
-  "maglev",
-  "magmas",
-  "magnet",
-  "magnum",
-  "magots",
-  "magpie",
-  "maguey",
-  "mahoes",
-  "mahout",
-  "mahzor",
-  "maiden",
-  "maigre",
-  "maihem",
-  "mailed",
-  "mailer",
-  "mailes",
-  "maills",
-  "maimed",
-  "maimer",
-  "mainly",
-  "maists",
-  "maizes",
-  "majors",
-  "makars",
-  "makers",
-  "makeup",
-  "making",
-  "makuta",
-  "malady",
-  "malars",
-  "malate",
-  "malfed",
-  "malgre",
-  "malice",
-  "malign",
-  "maline",
-  "malkin",
-  "malled",
-  "mallee",
-  "mallei",
-  "mallet",
-  "mallow",
-  "maloti",
-  "malted",
-  "maltha",
-  "maltol",
-  "mambas",
-  "mambos",
-  "mameys",
-  "mamies",
-  "mamluk",
-  "mammae",
-  "mammal",
-  "mammas",
-  "mammee",
-  "mammer",
-  "mammet",
-  "mammey",
-  "mammie",
-  "mammon",
-  "manage",
-  "manana",
-  "manche",
-  "manege",
-  "manful",
-  "mangel",
-  "manger",
-  "manges",
-  "mangey",
-  "mangle",
-  "mangos",
-  "maniac",
-  "manias",
-  "manics",
-  "manila",
-  "manioc",
-  "manito",
-  "manitu",
-  "mannan",
-  "mannas",
-  "manned",
-  "manner",
-  "manors",
-  "manque",
-  "manses",
-  "mantas",
-  "mantel",
-  "mantes",
-  "mantic",
-  "mantid",
-  "mantis",
-  "mantle",
-  "mantra",
-  "mantua",
-  "manual",
-  "manure",
-  "maples",
-  "mapped",
-  "mapper",
-  "maquis",
-  "maraca",
-  "maraud",
-  "marble",
-  "marbly",
-  "marcel",
-  "margay",
-  "marges",
-  "margin",
-  "marina",
-  "marine",
-  "marish",
-  "marked",
-  "marker",
-  "market",
-  "markka",
-  "markup",
-  "marled",
-  "marlin",
-  "marmot",
-  "maroon",
-  "marque",
-  "marram",
-  "marred",
-  "marrer",
-  "marron",
-  "marrow",
-  "marses",
-  "marshy",
-  "marted",
-  "marten",
-  "martin",
-  "martyr",
-  "marvel",
-  "mascon",
-  "mascot",
-  "masers",
-  "mashed",
-  "masher",
-  "mashes",
-  "mashie",
-  "masjid",
-  "masked",
-  "maskeg",
-  "masker",
-  "masons",
-  "masque",
-  "massas",
-  "massed",
-  "masses",
-  "massif",
-  "masted",
-  "master",
-  "mastic",
-  "mastix",
-  "maters",
-  "mateys",
-  "mating",
-  "matins",
-  "matres",
-  "matrix",
-  "matron",
-  "matsah",
-  "matted",
-  "matter",
-  "mattes",
-  "mattin",
-  "mature",
-  "matzah",
-  "matzas",
-  "matzoh",
-  "matzos",
-  "matzot",
-  "mauger",
-  "maugre",
-  "mauled",
-  "mauler",
-  "maumet",
-  "maunds",
-  "maundy",
-  "mauves",
-  "mavens",
-  "mavies",
-  "mavins",
-  "mawing",
-  "maxima",
-  "maxims",
-  "maxixe",
-  "maybes",
-  "mayday",
-  "mayest",
-  "mayfly",
-  "mayhap",
-  "mayhem",
-  "maying",
-  "mayors",
-  "maypop",
-  "mayvin",
-  "mazard",
-  "mazers",
-  "mazier",
-  "mazily",
-  "mazing",
-  "mazuma",
-  "mbiras",
-  "meadow",
-  "meager",
-  "meagre",
-  "mealie",
-  "meaner",
-  "meanie",
-  "meanly",
-  "measle",
-  "measly",
-  "meatal",
-  "meated",
-  "meatus",
-  "meccas",
-  "medaka",
-  "medals",
-  "meddle",
-  "medfly",
-  "mediad",
-  "mediae",
-  "medial",
-  "median",
-  "medias",
-  "medick",
-  "medico",
-  "medics",
-  "medina",
-  "medium",
-  "medius",
-  "medlar",
-  "medley",
-  "medusa",
-  "meeker",
-  "meekly",
-  "meeter",
-  "meetly",
-  "megass",
-  "megilp",
-  "megohm",
-  "megrim",
-  "meikle",
-  "meinie",
-  "melded",
-  "melder",
-  "melees",
-  "melled",
-  "mellow",
-  "melody",
-  "meloid",
-  "melons",
-  "melted",
-  "melter",
-  "melton",
-  "member",
-  "memoir",
-  "memory",
-  "menace",
-  "menads",
-  "menage",
-  "mended",
-  "mender",
-  "menhir",
-  "menial",
-  "meninx",
-  "mensae",
-  "mensal",
-  "mensas",
-  "mensch",
-  "mensed",
-  "menses",
-  "mental",
-  "mentor",
-  "mentum",
-  "meoued",
-  "meowed",
-  "mercer",
-  "merdes",
-  "merely",
-  "merest",
-  "merged",
-  "merger",
-  "merges",
-  "merino",
-  "merits",
-  "merles",
-  "merlin",
-  "merlon",
-  "merlot",
-  "merman",
-  "mermen",
-  "mescal",
-  "meshed",
-  "meshes",
-  "mesial",
-  "mesian",
-  "mesnes",
-  "mesons",
-  "messan",
-  "messed",
-  "messes",
-  "mestee",
-  "metage",
-  "metals",
-  "metate",
-  "meteor",
-  "metepa",
-  "meters",
-  "method",
-  "methyl",
-  "metier",
-  "meting",
-  "metope",
-  "metred",
-  "metres",
-  "metric",
-  "metros",
-  "mettle",
-  "metump",
-  "mewing",
-  "mewled",
-  "mewler",
-  "mezcal",
-  "mezuza",
-  "mezzos",
-  "miaous",
-  "miaows",
-  "miasma",
-  "miasms",
-  "miauls",
-  "micell",
-  "miched",
-  "miches",
-  "mickey",
-  "mickle",
-  "micron",
-  "micros",
-  "midair",
-  "midday",
-  "midden",
-  "middle",
-  "midges",
-  "midget",
-  "midgut",
-  "midleg",
-  "midrib",
-  "midsts",
-  "midway",
-  "miffed",
-  "miggle",
-  "mights",
-  "mighty",
-  "mignon",
-  "mihrab",
-  "mikado",
-  "miking",
-  "mikron",
-  "mikvah",
-  "mikveh",
-  "miladi",
-  "milady",
-  "milage",
-  "milden",
-  "milder",
-  "mildew",
-  "mildly",
-  "milers",
-  "milieu",
-  "milium",
-  "milked",
-  "milker",
-  "milled",
-  "miller",
-  "milles",
-  "millet",
-  "milneb",
-  "milord",
-  "milpas",
-  "milted",
-  "milter",
-  "mimbar",
-  "mimeos",
-  "mimers",
-  "mimics",
-  "miming",
-  "mimosa",
-  "minced",
-  "mincer",
-  "minces",
-  "minded",
-  "minder",
-  "miners",
-  "mingle",
-  "minify",
-  "minima",
-  "minims",
-  "mining",
-  "minion",
-  "minish",
-  "minium",
-  "minkes",
-  "minnow",
-  "minors",
-  "minted",
-  "minter",
-  "minuet",
-  "minute",
-  "minxes",
-  "minyan",
-  "mioses",
-  "miosis",
-  "miotic",
-  "mirage",
-  "mirier",
-  "miring",
-  "mirker",
-  "mirror",
-  "mirths",
-  "mirzas",
-  "misact",
-  "misadd",
-  "misaim",
-  "misate",
-  "miscue",
-  "miscut",
-  "misdid",
-  "miseat",
-  "misers",
-  "misery",
-  "misfit",
-  "mishap",
-  "mishit",
-  "miskal",
-  "mislay",
-  "misled",
-  "mislie",
-  "mislit",
-  "mismet",
-  "mispen",
-  "missal",
-  "missay",
-  "missed",
-  "missel",
-  "misses",
-  "misset",
-  "missis",
-  "missus",
-  "misted",
-  "mister",
-  "misuse",
-  "miters",
-  "mither",
-  "mitier",
-  "mitral",
-  "mitred",
-  "mitres",
-  "mitten",
-  "mixers",
-  "mixing",
-  "mixups",
-  "mizens",
-  "mizzen",
-  "mizzle",
-  "mizzly",
-  "moaned",
-  "moaner",
-  "moated",
-  "mobbed",
-  "mobber",
-  "mobcap",
-  "mobile",
-  "mobled",
-  "mochas",
-  "mocked",
-  "mocker",
-  "mockup",
-  "models",
-  "modems",
-  "modern",
-  "modest",
-  "modica",
-  "modify",
-  "modish",
-  "module",
-  "moduli",
-  "modulo",
-  "mogged",
-  "moggie",
-  "moguls",
-  "mohair",
-  "mohels",
-  "mohurs",
-  "moiety",
-  "moiled",
-  "moiler",
-  "moirai",
-  "moires",
-  "mojoes",
-  "molars",
-  "molded",
-  "molder",
-  "molest",
-  "molies",
-  "moline",
-  "mollah",
-  "mollie",
-  "moloch",
-  "molted",
-  "molten",
-  "molter",
-  "moment",
-  "momism",
-  "mommas",
-  "momser",
-  "momzer",
-  "monads",
-  "mondes",
-  "mondos",
-  "moneys",
-  "monger",
-  "mongoe",
-  "mongol",
-  "mongos",
-  "mongst",
-  "monied",
-  "monies",
-  "monish",
-  "monism",
-  "monist",
-  "monkey",
-  "monody",
-  "montes",
-  "months",
-  "mooing",
-  "moolah",
-  "moolas",
-  "mooley",
-  "mooned",
-  "moored",
-  "mooted",
-  "mooter",
-  "mopeds",
-  "mopers",
-  "mopery",
-  "mopier",
-  "moping",
-  "mopish",
-  "mopoke",
-  "mopped",
-  "mopper",
-  "moppet",
-  "morale",
-  "morals",
-  "morass",
-  "morays",
-  "morbid",
-  "moreen",
-  "morels",
-  "morgan",
-  "morgen",
-  "morgue",
-  "morion",
-  "morons",
-  "morose",
-  "morpho",
-  "morphs",
-  "morris",
-  "morros",
-  "morrow",
-  "morsel",
-  "mortal",
-  "mortar",
-  "morula",
-  "mosaic",
-  "moseys",
-  "moshav",
-  "mosque",
-  "mossed",
-  "mosser",
-  "mosses",
-  "mostly",
-  "motels",
-  "motets",
-  "mother",
-  "motifs",
-  "motile",
-  "motion",
-  "motive",
-  "motley",
-  "motmot",
-  "motors",
-  "mottes",
-  "mottle",
-  "mottos",
-  "moujik",
-  "moulds",
-  "mouldy",
-  "moulin",
-  "moults",
-  "mounds",
-  "mounts",
-  "mourns",
-  "moused",
-  "mouser",
-  "mouses",
-  "mousey",
-  "mousse",
-  "mouths",
-  "mouthy",
-  "mouton",
-  "movers",
-  "movies",
-  "moving",
-  "mowers",
-  "mowing",
-  "moxies",
-  "muches",
-  "muchly",
-  "mucins",
-  "mucked",
-  "mucker",
-  "muckle",
-  "mucluc",
-  "mucoid",
-  "mucors",
-  "mucosa",
-  "mucose",
-  "mucous",
-  "mudcap",
-  "mudcat",
-  "mudded",
-  "mudder",
-  "muddle",
-  "muddly",
-  "mudras",
-  "muesli",
-  "muffed",
-  "muffin",
-  "muffle",
-  "muftis",
-  "mugful",
-  "muggar",
-  "mugged",
-  "muggee",
-  "mugger",
-  "muggur",
-  "mujiks",
-  "mukluk",
-  "muktuk",
-  "mulcts",
-  "muleta",
-  "muleys",
-  "muling",
-  "mulish",
-  "mullah",
-  "mullas",
-  "mulled",
-  "mullen",
-  "muller",
-  "mullet",
-  "mulley",
-  "mumble",
-  "mumbly",
-  "mummed",
-  "mummer",
-  "mumped",
-  "mumper",
-  "mungos",
-  "muntin",
-  "muonic",
-  "murals",
-  "murder",
-  "murein",
-  "murids",
-  "murine",
-  "muring",
-  "murker",
-  "murkly",
-  "murmur",
-  "murphy",
-  "murras",
-  "murres",
-  "murrey",
-  "murrha",
-  "muscae",
-  "muscat",
-  "muscid",
-  "muscle",
-  "muscly",
-  "musers",
-  "museum",
-  "mushed",
-  "musher",
-  "mushes",
-  "musics",
-  "musing",
-  "musjid",
-  "muskeg",
-  "musket",
-  "muskie",
-  "muskit",
-  "muslin",
-  "mussed",
-  "mussel",
-  "musses",
-  "musted",
-  "mustee",
-  "muster",
-  "musths",
-  "mutant",
-  "mutase",
-  "mutate",
-  "mutely",
-  "mutest",
-  "mutine",
-  "muting",
-  "mutiny",
-  "mutism",
-  "mutons",
-  "mutter",
-  "mutton",
-  "mutual",
-  "mutuel",
-  "mutule",
-  "muumuu",
-  "muzhik",
-  "muzjik",
-  "muzzle",
-  "myases",
-  "myasis",
-  "mycele",
-  "myelin",
-  "mynahs",
-  "myomas",
-  "myopes",
-  "myopia",
-  "myopic",
-  "myoses",
-  "myosin",
-  "myosis",
-  "myotic",
-  "myriad",
-  "myrica",
-  "myrrhs",
-  "myrtle",
-  "myself",
-  "mysids",
-  "mysost",
-  "mystic",
-  "mythic",
-  "mythoi",
-  "mythos",
-  "myxoid",
-  "myxoma",
-  "nabbed",
-  "nabber",
-  "nabobs",
-  "nachas",
-  "naches",
-  "nachos",
-  "nacred",
-  "nacres",
-  "nadirs",
-  "naevus",
-  "nagana",
-  "nagged",
-  "nagger",
-  "naiads",
-  "nailed",
-  "nailer",
-  "naiver",
-  "naives",
-  "naleds",
-  "namely",
-  "namers",
-  "naming",
-  "nances",
-  "nandin",
-  "nanism",
-  "nankin",
-  "nannie",
-  "napalm",
-  "napery",
-  "napkin",
-  "napped",
-  "napper",
-  "nappes",
-  "nappie",
-  "narcos",
-  "narial",
-  "narine",
-  "narked",
-  "narrow",
-  "narwal",
-  "nasals",
-  "nasial",
-  "nasion",
-  "nastic",
-  "natant",
-  "nation",
-  "native",
-  "natron",
-  "natter",
-  "nature",
-  "naught",
-  "nausea",
-  "nautch",
-  "navaid",
-  "navars",
-  "navels",
-  "navies",
-  "nawabs",
-  "nazify",
-  "nearby",
-  "neared",
-  "nearer",
-  "nearly",
-  "neaten",
-  "neater",
-  "neatly",
-  "nebula",
-  "nebule",
-  "nebuly",
-  "necked",
-  "necker",
-  "nectar",
-  "needed",
-  "needer",
-  "needle",
-  "negate",
-  "neighs",
-  "nekton",
-  "nellie",
-  "nelson",
-  "neoned",
-  "nephew",
-  "nereid",
-  "nereis",
-  "neroli",
-  "nerols",
-  "nerved",
-  "nerves",
-  "nesses",
-  "nested",
-  "nester",
-  "nestle",
-  "nestor",
-  "nether",
-  "netops",
-  "netted",
-  "netter",
-  "nettle",
-  "nettly",
-  "neumes",
-  "neumic",
-  "neural",
-  "neuron",
-  "neuter",
-  "nevoid",
-  "newels",
-  "newest",
-  "newies",
-  "newish",
-  "newsie",
-  "newton",
-  "niacin",
-  "nibbed",
-  "nibble",
-  "nicads",
-  "nicely",
-  "nicest",
-  "nicety",
-  "niched",
-  "niches",
-  "nicked",
-  "nickel",
-  "nicker",
-  "nickle",
-  "nicols",
-  "nidget",
-  "nidify",
-  "niding",
-  "nieces",
-  "nielli",
-  "niello",
-  "nieves",
-  "niffer",
-  "nigger",
-  "niggle",
-  "nighed",
-  "nigher",
-  "nights",
-  "nighty",
-  "nihils",
-  "nilgai",
-  "nilgau",
-  "nilled",
-  "nimble",
-  "nimbly",
-  "nimbus",
-  "nimmed",
-  "nimrod",
-  "ninety",
-  "ninjas",
-  "ninons",
-  "ninths",
-  "niobic",
-  "nipped",
-  "nipper",
-  "nipple",
-  "niseis",
-  "niters",
-  "nitery",
-  "nitons",
-  "nitres",
-  "nitric",
-  "nitrid",
-  "nitril",
-  "nitros",
-  "nitwit",
-  "nixies",
-  "nixing",
-  "nizams",
-  "nobble",
-  "nobler",
-  "nobles",
-  "nobody",
-  "nocent",
-  "nocked",
-  "nodded",
-  "nodder",
-  "noddle",
-  "nodose",
-  "nodous",
-  "nodule",
-  "noesis",
-  "noetic",
-  "nogged",
-  "noggin",
-  "noised",
-  "noises",
-  "nomads",
-  "nomina",
-  "nomism",
-  "nonage",
-  "nonart",
-  "nonces",
-  "noncom",
-  "nonego",
-  "nonets",
-  "nonfan",
-  "nonfat",
-  "nongay",
-  "nonman",
-  "nonmen",
-  "nonpar",
-  "nontax",
-  "nonuse",
-  "nonwar",
-  "nonyls",
-  "noodge",
-  "noodle",
-  "noosed",
-  "nooser",
-  "nooses",
-  "nopals",
-  "nordic",
-  "norias",
-  "norite",
-  "normal",
-  "normed",
-  "norths",
-  "noshed",
-  "nosher",
-  "noshes",
-  "nosier",
-  "nosily",
-  "nosing",
-  "nostoc",
-  "notary",
-  "notate",
-  "noters",
-  "nother",
-  "notice",
-  "notify",
-  "noting",
-  "notion",
-  "nougat",
-  "nought",
-  "nounal",
-  "nouses",
-  "novels",
-  "novena",
-  "novice",
-  "noways",
-  "nowise",
-  "noyade",
-  "nozzle",
-  "nuance",
-  "nubbin",
-  "nubble",
-  "nubbly",
-  "nubias",
-  "nubile",
-  "nuchae",
-  "nuchal",
-  "nuclei",
-  "nudely",
-  "nudest",
-  "nudged",
-  "nudger",
-  "nudges",
-  "nudies",
-  "nudism",
-  "nudist",
-  "nudity",
-  "nudnik",
-  "nugget",
-  "nuking",
-  "nullah",
-  "nulled",
-  "numbat",
-  "numbed",
-  "number",
-  "numbly",
-  "numina",
-  "nuncio",
-  "nuncle",
-  "nurled",
-  "nursed",
-  "nurser",
-  "nurses",
-  "nutant",
-  "nutate",
-  "nutlet",
-  "nutmeg",
-  "nutria",
-  "nutted",
-  "nutter",
-  "nuzzle",
-  "nyalas",
-  "nylons",
-  "nympha",
-  "nympho",
-  "nymphs",
-  "oafish",
-  "oakums",
-  "oaring",
-  "oaters",
-  "obeahs",
-  "obelia",
-  "obelus",
-  "obeyed",
-  "obeyer",
-  "obiism",
-  "object",
-  "objets",
-  "oblast",
-  "oblate",
-  "oblige",
-  "oblong",
-  "oboist",
-  "oboles",
-  "obolus",
-  "obsess",
-  "obtain",
-  "obtect",
-  "obtest",
-  "obtund",
-  "obtuse",
-  "obvert",
-  "occult",
-  "occupy",
-  "occurs",
-  "oceans",
-  "ocelli",
-  "ocelot",
-  "ochers",
-  "ochery",
-  "ochone",
-  "ochrea",
-  "ochred",
-  "ochres",
-  "ockers",
-  "ocreae",
-  "octads",
-  "octane",
-  "octans",
-  "octant",
-  "octave",
-  "octavo",
-  "octets",
-  "octopi",
-  "octroi",
-  "octyls",
-  "ocular",
-  "oculus",
-  "oddest",
-  "oddish",
-  "oddity",
-  "odeons",
-  "odeums",
-  "odious",
-  "odists",
-  "odiums",
-  "odored",
-  "odours",
-  "odyles",
-  "oedema",
-  "oeuvre",
-  "offals",
-  "offcut",
-  "offend",
-  "offers",
-  "office",
-  "offing",
-  "offish",
-  "offkey",
-  "offset",
-  "oftest",
-  "ogdoad",
-  "oghams",
-  "ogival",
-  "ogives",
-  "oglers",
-  "ogling",
-  "ogress",
-  "ogrish",
-  "ogrism",
-  "ohmage",
-  "oidium",
-  "oilcan",
-  "oilcup",
-  "oilers",
-  "oilier",
-  "oilily",
-  "oiling",
-  "oilman",
-  "oilmen",
-  "oilway",
-  "oinked",
-  "okapis",
-  "okayed",
-  "oldest",
-  "oldies",
-  "oldish",
-  "oleate",
-  "olefin",
-  "oleine",
-  "oleins",
-  "oleums",
-  "olives",
-  "omasum",
-  "ombers",
-  "ombres",
-  "omegas",
-  "omelet",
-  "omened",
-  "omenta",
-  "onager",
-  "onagri",
-  "onions",
-  "oniony",
-  "onrush",
-  "onsets",
-  "onside",
-  "onuses",
-  "onward",
-  "onyxes",
-  "oocyst",
-  "oocyte",
-  "oodles",
-  "oogamy",
-  "oogeny",
-  "oohing",
-  "oolite",
-  "oolith",
-  "oology",
-  "oolong",
-  "oomiac",
-  "oomiak",
-  "oompah",
-  "oomphs",
-  "oorali",
-  "ootids",
-  "oozier",
-  "oozily",
-  "oozing",
-  "opaque",
-  "opened",
-  "opener",
-  "openly",
-  "operas",
-  "operon",
-  "ophite",
-  "opiate",
-  "opined",
-  "opines",
-  "opioid",
-  "opiums",
-  "oppose",
-  "oppugn",
-  "opsins",
-  "optics",
-  "optima",
-  "optime",
-  "opting",
-  "option",
-  "opuses",
-  "orache",
-  "oracle",
-  "orally",
-  "orange",
-  "orangs",
-  "orangy",
-  "orated",
-  "orates",
-  "orator",
-  "orbier",
-  "orbing",
-  "orbits",
-  "orcein",
-  "orchid",
-  "orchil",
-  "orchis",
-  "orcins",
-  "ordain",
-  "ordeal",
-  "orders",
-  "ordure",
-  "oreads",
-  "oreide",
-  "orfray",
-  "organa",
-  "organs",
-  "orgasm",
-  "orgeat",
-  "orgiac",
-  "orgies",
-  "orgone",
-  "oribis",
-  "oriels",
-  "orient",
-  "origan",
-  "origin",
-  "oriole",
-  "orison",
-  "orlops",
-  "ormers",
-  "ormolu",
-  "ornate",
-  "ornery",
-  "oroide",
-  "orphan",
-  "orphic",
-  "orpine",
-  "orpins",
-  "orrery",
-  "orrice",
-  "oryxes",
-  "oscine",
-  "oscula",
-  "oscule",
-  "osiers",
-  "osmics",
-  "osmium",
-  "osmole",
-  "osmols",
-  "osmose",
-  "osmous",
-  "osmund",
-  "osprey",
-  "ossein",
-  "ossify",
-  "osteal",
-  "ostium",
-  "ostler",
-  "ostomy",
-  "otalgy",
-  "others",
-  "otiose",
-  "otitic",
-  "otitis",
-  "ottars",
-  "ottava",
-  "otters",
-  "ouched",
-  "ouches",
-  "oughts",
-  "ounces",
-  "ouphes",
-  "ourang",
-  "ourari",
-  "ourebi",
-  "ousels",
-  "ousted",
-  "ouster",
-  "outact",
-  "outadd",
-  "outage",
-  "outask",
-  "outate",
-  "outbeg",
-  "outbid",
-  "outbox",
-  "outbuy",
-  "outbye",
-  "outcry",
-  "outdid",
-  "outeat",
-  "outers",
-  "outfit",
-  "outfly",
-  "outfox",
-  "outgas",
-  "outgun",
-  "outhit",
-  "outing",
-  "outjut",
-  "outlaw",
-  "outlay",
-  "outlet",
-  "outlie",
-  "outman",
-  "output",
-  "outran",
-  "outrow",
-  "outrun",
-  "outsat",
-  "outsaw",
-  "outsee",
-  "outset",
-  "outsin",
-  "outsit",
-  "outvie",
-  "outwar",
-  "outwit",
-  "ouzels",
-  "ovally",
-  "overdo",
-  "overed",
-  "overly",
-  "ovibos",
-  "ovines",
-  "ovisac",
-  "ovoids",
-  "ovolos",
-  "ovonic",
-  "ovular",
-  "ovules",
-  "owlets",
-  "owlish",
-  "owners",
-  "owning",
-  "oxalic",
-  "oxalis",
-  "oxbows",
-  "oxcart",
-  "oxeyes",
-  "oxford",
-  "oxides",
-  "oxidic",
-  "oximes",
-  "oxlips",
-  "oxtail",
-  "oxters",
-  "oxygen",
-  "oyster",
-  "ozones",
-  "ozonic",
-  "pablum",
-  "pacers",
-  "pachas",
-  "pacify",
-  "pacing",
-  "packed",
-  "packer",
-  "packet",
-  "packly",
-  "padauk",
-  "padded",
-  "padder",
-  "paddle",
-  "padles",
-  "padnag",
-  "padouk",
-  "padres",
-  "paeans",
-  "paella",
-  "paeons",
-  "paesan",
-  "pagans",
-  "pagers",
-  "paging",
-  "pagoda",
-  "pagods",
-  "paiked",
-  "painch",
-  "pained",
-  "paints",
-  "painty",
-  "paired",
-  "paisan",
-  "paisas",
-  "pajama",
-  "pakeha",
-  "palace",
-  "palais",
-  "palate",
-  "paleae",
-  "paleal",
-  "palely",
-  "palest",
-  "palets",
-  "palier",
-  "paling",
-  "palish",
-  "palled",
-  "pallet",
-  "pallia",
-  "pallid",
-  "pallor",
-  "palmar",
-  "palmed",
-  "palmer",
-  "palpal",
-  "palpus",
-  "palter",
-  "paltry",
-  "pampas",
-  "pamper",
-  "panada",
-  "panama",
-  "pandas",
-  "pander",
-  "pandit",
-  "panels",
-  "panfry",
-  "panful",
-  "pangas",
-  "panged",
-  "pangen",
-  "panics",
-  "panier",
-  "panned",
-  "pannes",
-  "panted",
-  "pantie",
-  "pantos",
-  "pantry",
-  "panzer",
-  "papacy",
-  "papain",
-  "papaws",
-  "papaya",
-  "papers",
-  "papery",
-  "papist",
-  "pappus",
-  "papula",
-  "papule",
-  "papyri",
-  "parade",
-  "paramo",
-  "parang",
-  "paraph",
-  "parcel",
-  "pardah",
-  "pardee",
-  "pardie",
-  "pardon",
-  "parent",
-  "pareos",
-  "parers",
-  "pareus",
-  "pareve",
-  "parged",
-  "parges",
-  "parget",
-  "pargos",
-  "pariah",
-  "parian",
-  "paries",
-  "paring",
-  "parish",
-  "parity",
-  "parkas",
-  "parked",
-  "parker",
-  "parlay",
-  "parled",
-  "parles",
-  "parley",
-  "parlor",
-  "parody",
-  "parole",
-  "parols",
-  "parous",
-  "parral",
-  "parred",
-  "parrel",
-  "parrot",
-  "parsec",
-  "parsed",
-  "parser",
-  "parses",
-  "parson",
-  "partan",
-  "parted",
-  "partly",
-  "parton",
-  "parura",
-  "parure",
-  "parvis",
-  "parvos",
-  "pascal",
-  "paseos",
-  "pashas",
-  "pashed",
-  "pashes",
-  "passed",
-  "passee",
-  "passel",
-  "passer",
-  "passes",
-  "passim",
-  "passus",
-  "pastas",
-  "pasted",
-  "pastel",
-  "paster",
-  "pastes",
-  "pastie",
-  "pastil",
-  "pastis",
-  "pastor",
-  "pastry",
-  "pataca",
-  "patchy",
-  "patens",
-  "patent",
-  "paters",
-  "pathos",
-  "patina",
-  "patine",
-  "patins",
-  "patios",
-  "patois",
-  "patrol",
-  "patron",
-  "patted",
-  "pattee",
-  "patten",
-  "patter",
-  "pattie",
-  "patzer",
-  "paulin",
-  "paunch",
-  "pauper",
-  "pausal",
-  "paused",
-  "pauser",
-  "pauses",
-  "pavane",
-  "pavans",
-  "paveed",
-  "pavers",
-  "paving",
-  "pavins",
-  "pavior",
-  "pavise",
-  "pawers",
-  "pawing",
-  "pawned",
-  "pawnee",
-  "pawner",
-  "pawnor",
-  "pawpaw",
-  "paxwax",
-  "payday",
-  "payees",
-  "payers",
-  "paying",
-  "paynim",
-  "payoff",
-  "payola",
-  "payors",
-  "payout",
-  "pazazz",
-  "peaced",
-  "peaces",
-  "peachy",
-  "peages",
-  "peahen",
-  "peaked",
-  "pealed",
-  "peanut",
-  "pearls",
-  "pearly",
-  "peasen",
-  "peases",
-  "peavey",
-  "pebble",
-  "pebbly",
-  "pecans",
-  "pechan",
-  "peched",
-  "pecked",
-  "pecker",
-  "pecten",
-  "pectic",
-  "pectin",
-  "pedalo",
-  "pedals",
-  "pedant",
-  "pedate",
-  "peddle",
-  "pedlar",
-  "pedler",
-  "pedros",
-  "peeing",
-  "peeked",
-  "peeled",
-  "peeler",
-  "peened",
-  "peeped",
-  "peeper",
-  "peepul",
-  "peered",
-  "peerie",
-  "peeved",
-  "peeves",
-  "peewee",
-  "peewit",
-  "pegbox",
-  "pegged",
-  "peined",
-  "peised",
-  "peises",
-  "pekans",
-  "pekins",
-  "pekoes",
-  "pelage",
-  "pelite",
-  "pellet",
-  "pelmet",
-  "pelota",
-  "pelted",
-  "pelter",
-  "peltry",
-  "pelves",
-  "pelvic",
-  "pelvis",
-  "penang",
-  "pencel",
-  "pencil",
-  "pended",
-  "pengos",
-  "penial",
-  "penile",
-  "penman",
-  "penmen",
-  "pennae",
-  "penned",
-  "penner",
-  "pennia",
-  "pennis",
-  "pennon",
-  "pensee",
-  "pensil",
-  "pentad",
-  "pentyl",
-  "penult",
-  "penury",
-  "peones",
-  "people",
-  "peplos",
-  "peplum",
-  "peplus",
-  "pepped",
-  "pepper",
-  "pepsin",
-  "peptic",
-  "peptid",
-  "perdie",
-  "perdue",
-  "perdus",
-  "pereia",
-  "pereon",
-  "perils",
-  "period",
-  "perish",
-  "perked",
-  "permed",
-  "permit",
-  "peroxy",
-  "perron",
-  "perses",
-  "person",
-  "perter",
-  "pertly",
-  "peruke",
-  "peruse",
-  "pesade",
-  "peseta",
-  "pesewa",
-  "pester",
-  "pestle",
-  "pestos",
-  "petals",
-  "petard",
-  "peters",
-  "petite",
-  "petnap",
-  "petrel",
-  "petrol",
-  "petsai",
-  "petted",
-  "petter",
-  "pettle",
-  "pewees",
-  "pewits",
-  "pewter",
-  "peyote",
-  "peyotl",
-  "phages",
-  "phalli",
-  "pharos",
-  "phased",
-  "phases",
-  "phasic",
-  "phasis",
-  "phatic",
-  "phenix",
-  "phenol",
-  "phenom",
-  "phenyl",
-  "phials",
-  "phizes",
-  "phlegm",
-  "phloem",
-  "phobia",
-  "phobic",
-  "phoebe",
-  "phonal",
-  "phoned",
-  "phones",
-  "phoney",
-  "phonic",
-  "phonon",
-  "phonos",
-  "phooey",
-  "photic",
-  "photog",
-  "photon",
-  "photos",
-  "phrase",
-  "phylae",
-  "phylar",
-  "phylic",
-  "phyllo",
-  "phylon",
-  "phylum",
-  "physed",
-  "physes",
-  "physic",
-  "physis",
-  "phytol",
-  "phyton",
-  "piaffe",
-  "pianic",
-  "pianos",
-  "piazza",
-  "piazze",
-  "pibals",
-  "picara",
-  "picaro",
-  "pickax",
-  "picked",
-  "picker",
-  "picket",
-  "pickle",
-  "pickup",
-  "picnic",
-  "picots",
-  "picric",
-  "piculs",
-  "piddle",
-  "piddly",
-  "pidgin",
-  "pieced",
-  "piecer",
-  "pieces",
-  "pieing",
-  "pierce",
-  "pietas",
-  "piffle",
-  "pigeon",
-  "pigged",
-  "piggie",
-  "piggin",
-  "piglet",
-  "pignus",
-  "pignut",
-  "pigout",
-  "pigpen",
-  "pigsty",
-  "pikake",
-  "pikers",
-  "piking",
-  "pilaff",
-  "pilafs",
-  "pilaus",
-  "pilaws",
-  "pileum",
-  "pileup",
-  "pileus",
-  "pilfer",
-  "piling",
-  "pillar",
-  "pilled",
-  "pillow",
-  "pilose",
-  "pilots",
-  "pilous",
-  "pilule",
-  "pimped",
-  "pimple",
-  "pimply",
-  "pinang",
-  "pinata",
-  "pincer",
-  "pinder",
-  "pineal",
-  "pinene",
-  "pinery",
-  "pineta",
-  "pinged",
-  "pinger",
-  "pingos",
-  "pinier",
-  "pining",
-  "pinion",
-  "pinite",
-  "pinked",
-  "pinken",
-  "pinker",
-  "pinkey",
-  "pinkie",
-  "pinkly",
-  "pinkos",
-  "pinnae",
-  "pinnal",
-  "pinnas",
-  "pinned",
-  "pinner",
-  "pinole",
-  "pinons",
-  "pinots",
-  "pintas",
-  "pintle",
-  "pintos",
-  "pinups",
-  "pinyin",
-  "pinyon",
-  "piolet",
-  "pionic",
-  "pipage",
-  "pipals",
-  "pipers",
-  "pipets",
-  "pipier",
-  "piping",
-  "pipits",
-  "pipkin",
-  "pipped",
-  "pippin",
-  "piqued",
-  "piques",
-  "piquet",
-  "piracy",
-  "pirana",
-  "pirate",
-  "piraya",
-  "pirogi",
-  "piscos",
-  "pished",
-  "pishes",
-  "pissed",
-  "pisser",
-  "pisses",
-  "pistes",
-  "pistil",
-  "pistol",
-  "piston",
-  "pitchy",
-  "pithed",
-  "pitied",
-  "pitier",
-  "pities",
-  "pitman",
-  "pitmen",
-  "pitons",
-  "pitsaw",
-  "pitted",
-  "pivots",
-  "pixels",
-  "pixies",
-  "pizazz",
-  "pizzas",
-  "pizzle",
-  "placed",
-  "placer",
-  "places",
-  "placet",
-  "placid",
-  "placks",
-  "plagal",
-  "plages",
-  "plague",
-  "plaguy",
-  "plaice",
-  "plaids",
-  "plains",
-  "plaint",
-  "plaits",
-  "planar",
-  "planch",
-  "planed",
-  "planer",
-  "planes",
-  "planet",
-  "planks",
-  "plants",
-  "plaque",
-  "plashy",
-  "plasma",
-  "plasms",
-  "platan",
-  "plated",
-  "platen",
-  "plater",
-  "plates",
-  "platys",
-  "playas",
-  "played",
-  "player",
-  "plazas",
-  "pleach",
-  "pleads",
-  "please",
-  "pleats",
-  "plebes",
-  "pledge",
-  "pleiad",
-  "plench",
-  "plenty",
-  "plenum",
-  "pleura",
-  "plexal",
-  "plexor",
-  "plexus",
-  "pliant",
-  "plicae",
-  "plical",
-  "pliers",
-  "plight",
-  "plinks",
-  "plinth",
-  "plisky",
-  "plisse",
-  "ploidy",
-  "plonks",
-  "plotty",
-  "plough",
-  "plover",
-  "plowed",
-  "plower",
-  "ployed",
-  "plucks",
-  "plucky",
-  "plumbs",
-  "plumed",
-  "plumes",
-  "plummy",
-  "plumps",
-  "plunge",
-  "plunks",
-  "plural",
-  "pluses",
-  "plushy",
-  "plutei",
-  "pluton",
-  "plyers",
-  "plying",
-  "pneuma",
-  "poachy",
-  "pocked",
-  "pocket",
-  "podded",
-  "podite",
-  "podium",
-  "podsol",
-  "podzol",
-  "poetic",
-  "poetry",
-  "pogeys",
-  "pogies",
-  "pogrom",
-  "poilus",
-  "poinds",
-  "pointe",
-  "points",
-  "pointy",
-  "poised",
-  "poiser",
-  "poises",
-  "poisha",
-  "poison",
-  "pokers",
-  "pokeys",
-  "pokier",
-  "pokies",
-  "pokily",
-  "poking",
-  "polars",
-  "polder",
-  "poleax",
-  "poleis",
-  "polers",
-  "poleyn",
-  "police",
-  "policy",
-  "poling",
-  "polios",
-  "polish",
-  "polite",
-  "polity",
-  "polkas",
-  "polled",
-  "pollee",
-  "pollen",
-  "poller",
-  "pollex",
-  "polypi",
-  "polyps",
-  "pomace",
-  "pomade",
-  "pomelo",
-  "pommee",
-  "pommel",
-  "pommie",
-  "pompom",
-  "pompon",
-  "ponced",
-  "ponces",
-  "poncho",
-  "ponded",
-  "ponder",
-  "ponent",
-  "ponged",
-  "pongee",
-  "pongid",
-  "ponied",
-  "ponies",
-  "pontes",
-  "pontil",
-  "ponton",
-  "poodle",
-  "poohed",
-  "pooled",
-  "pooped",
-  "poorer",
-  "pooris",
-  "poorly",
-  "pooves",
-  "popery",
-  "popgun",
-  "popish",
-  "poplar",
-  "poplin",
-  "poppas",
-  "popped",
-  "popper",
-  "poppet",
-  "popple",
-  "popsie",
-  "poring",
-  "porism",
-  "porker",
-  "pornos",
-  "porose",
-  "porous",
-  "portal",
-  "ported",
-  "porter",
-  "portly",
-  "posada",
-  "posers",
-  "poseur",
-  "posher",
-  "poshly",
-  "posies",
-  "posing",
-  "posits",
-  "posses",
-  "posset",
-  "possum",
-  "postal",
-  "posted",
-  "poster",
-  "postin",
-  "potage",
-  "potash",
-  "potato",
-  "potboy",
-  "poteen",
-  "potent",
-  "potful",
-  "pother",
-  "potion",
-  "potman",
-  "potmen",
-  "potpie",
-  "potsie",
-  "potted",
-  "potter",
-  "pottle",
-  "pottos",
-  "potzer",
-  "pouchy",
-  "poufed",
-  "pouffe",
-  "pouffs",
-  "poults",
-  "pounce",
-  "pounds",
-  "poured",
-  "pourer",
-  "pouted",
-  "pouter",
-  "powder",
-  "powers",
-  "powter",
-  "powwow",
-  "poxing",
-  "poyous",
-  "praams",
-  "prahus",
-  "praise",
-  "prance",
-  "prangs",
-  "pranks",
-  "prases",
-  "prated",
-  "prater",
-  "prates",
-  "prawns",
-  "praxes",
-  "praxis",
-  "prayed",
-  "prayer",
-  "preach",
-  "preact",
-  "preamp",
-  "prearm",
-  "precis",
-  "precut",
-  "preens",
-  "prefab",
-  "prefer",
-  "prefix",
-  "prelim",
-  "preman",
-  "premed",
-  "premen",
-  "premie",
-  "premix",
-  "prepay",
-  "preppy",
-  "preset",
-  "presto",
-  "prests",
-  "pretax",
-  "pretor",
-  "pretty",
-  "prevue",
-  "prewar",
-  "prexes",
-  "preyed",
-  "preyer",
-  "prezes",
-  "priapi",
-  "priced",
-  "pricer",
-  "prices",
-  "pricey",
-  "pricks",
-  "pricky",
-  "prided",
-  "prides",
-  "priers",
-  "priest",
-  "prills",
-  "primal",
-  "primas",
-  "primed",
-  "primer",
-  "primes",
-  "primly",
-  "primos",
-  "primps",
-  "primus",
-  "prince",
-  "prinks",
-  "prints",
-  "prions",
-  "priors",
-  "priory",
-  "prised",
-  "prises",
-  "prisms",
-  "prison",
-  "prissy",
-  "privet",
-  "prized",
-  "prizer",
-  "prizes",
-  "probed",
-  "prober",
-  "probes",
-  "probit",
-  "proems",
-  "profit",
-  "projet",
-  "prolan",
-  "proleg",
-  "proles",
-  "prolix",
-  "prolog",
-  "promos",
-  "prompt",
-  "prongs",
-  "pronto",
-  "proofs",
-  "propel",
-  "proper",
-  "propyl",
-  "prosed",
-  "proser",
-  "proses",
-  "prosit",
-  "prosos",
-  "protea",
-  "protei",
-  "proton",
-  "protyl",
-  "proved",
-  "proven",
-  "prover",
-  "proves",
-  "prowar",
-  "prower",
-  "prowls",
-  "prudes",
-  "pruned",
-  "pruner",
-  "prunes",
-  "prunus",
-  "prutah",
-  "prutot",
-  "pryers",
-  "prying",
-  "psalms",
-  "pseudo",
-  "pseuds",
-  "pshaws",
-  "psocid",
-  "psyche",
-  "psycho",
-  "psychs",
-  "psylla",
-  "psywar",
-  "pterin",
-  "ptisan",
-  "ptoses",
-  "ptosis",
-  "ptotic",
-  "public",
-  "pucker",
-  "puddle",
-  "puddly",
-  "pueblo",
-  "puffed",
-  "puffer",
-  "puffin",
-  "pugged",
-  "puggry",
-  "pugree",
-  "puisne",
-  "pujahs",
-  "puking",
-  "pulers",
-  "puling",
-  "pulled",
-  "puller",
-  "pullet",
-  "pulley",
-  "pullup",
-  "pulpal",
-  "pulped",
-  "pulper",
-  "pulpit",
-  "pulque",
-  "pulsar",
-  "pulsed",
-  "pulser",
-  "pulses",
-  "pumelo",
-  "pumice",
-  "pummel",
-  "pumped",
-  "pumper",
-  "punchy",
-  "pundit",
-  "pungle",
-  "punier",
-  "punily",
-  "punish",
-  "punkah",
-  "punkas",
-  "punker",
-  "punkey",
-  "punkie",
-  "punkin",
-  "punned",
-  "punner",
-  "punnet",
-  "punted",
-  "punter",
-  "puntos",
-  "pupate",
-  "pupils",
-  "pupped",
-  "puppet",
-  "purana",
-  "purdah",
-  "purdas",
-  "pureed",
-  "purees",
-  "purely",
-  "purest",
-  "purfle",
-  "purged",
-  "purger",
-  "purges",
-  "purify",
-  "purine",
-  "purins",
-  "purism",
-  "purist",
-  "purity",
-  "purled",
-  "purlin",
-  "purple",
-  "purply",
-  "purred",
-  "pursed",
-  "purser",
-  "purses",
-  "pursue",
-  "purvey",
-  "pushed",
-  "pusher",
-  "pushes",
-  "pushup",
-  "pusley",
-  "pusses",
-  "pussly",
-  "putlog",
-  "putoff",
-  "putons",
-  "putout",
-  "putrid",
-  "putsch",
-  "putted",
-  "puttee",
-  "putter",
-  "putzed",
-  "putzes",
-  "puzzle",
-  "pyemia",
-  "pyemic",
-  "pyknic",
-  "pylons",
-  "pylori",
-  "pyoses",
-  "pyosis",
-  "pyrans",
-  "pyrene",
-  "pyrite",
-  "pyrola",
-  "pyrone",
-  "pyrope",
-  "pyrrol",
-  "python",
-  "pyuria",
-  "pyxies",
-  "qanats",
-  "qindar",
-  "qintar",
-  "qiviut",
-  "quacks",
-  "quaere",
-  "quaffs",
-  "quagga",
-  "quaggy",
-  "quahog",
-  "quaich",
-  "quaigh",
-  "quails",
-  "quaint",
-  "quaked",
-  "quaker",
-  "quakes",
-  "qualia",
-  "qualms",
-  "qualmy",
-  "quango",
-  "quanta",
-  "quants",
-  "quarks",
-  "quarry",
-  "quarte",
-  "quarto",
-  "quarts",
-  "quartz",
-  "quasar",
-  "quatre",
-  "quaver",
-  "queans",
-  "queasy",
-  "queazy",
-  "queens",
-  "queers",
-  "quells",
-  "quench",
-  "querns",
-  "quests",
-  "queued",
-  "queuer",
-  "queues",
-  "quezal",
-  "quiche",
-  "quicks",
-  "quiets",
-  "quiffs",
-  "quills",
-  "quilts",
-  "quince",
-  "quinic",
-  "quinin",
-  "quinoa",
-  "quinol",
-  "quinsy",
-  "quinta",
-  "quinte",
-  "quints",
-  "quippu",
-  "quipus",
-  "quired",
-  "quires",
-  "quirks",
-  "quirky",
-  "quirts",
-  "quitch",
-  "quiver",
-  "quohog",
-  "quoins",
-  "quoits",
-  "quokka",
-  "quorum",
-  "quotas",
-  "quoted",
-  "quoter",
-  "quotes",
-  "quotha",
-  "qurush",
-  "qwerty",
-  "rabato",
-  "rabats",
-  "rabbet",
-  "rabbin",
-  "rabbis",
-  "rabbit",
-  "rabble",
-  "rabies",
-  "raceme",
-  "racers",
-  "rachet",
-  "rachis",
-  "racial",
-  "racier",
-  "racily",
-  "racing",
-  "racism",
-  "racist",
-  "racked",
-  "racker",
-  "racket",
-  "rackle",
-  "racons",
-  "racoon",
-  "radars",
-  "radded",
-  "raddle",
-  "radial",
-  "radian",
-  "radios",
-  "radish",
-  "radium",
-  "radius",
-  "radome",
-  "radons",
-  "radula",
-  "raffia",
-  "raffle",
-  "rafted",
-  "rafter",
-  "ragbag",
-  "ragees",
-  "ragged",
-  "raggee",
-  "raggle",
-  "raging",
-  "raglan",
-  "ragman",
-  "ragmen",
-  "ragout",
-  "ragtag",
-  "ragtop",
-  "raided",
-  "raider",
-  "railed",
-  "railer",
-  "rained",
-  "raised",
-  "raiser",
-  "raises",
-  "raisin",
-  "rajahs",
-  "rakees",
-  "rakers",
-  "raking",
-  "rakish",
-  "rallye",
-  "ralphs",
-  "ramate",
-  "ramble",
-  "ramees",
-  "ramets",
-  "ramies",
-  "ramify",
-  "ramjet",
-  "rammed",
-  "rammer",
-  "ramose",
-  "ramous",
-  "ramped",
-  "ramrod",
-  "ramson",
-  "ramtil",
-  "rances",
-  "rancho",
-  "rancid",
-  "rancor",
-  "randan",
-  "random",
-  "ranees",
-  "ranged",
-  "ranger",
-  "ranges",
-  "ranids",
-  "ranked",
-  "ranker",
-  "rankle",
-  "rankly",
-  "ransom",
-  "ranted",
-  "ranter",
-  "ranula",
-  "rapers",
-  "raphae",
-  "raphes",
-  "raphia",
-  "raphis",
-  "rapids",
-  "rapier",
-  "rapine",
-  "raping",
-  "rapini",
-  "rapist",
-  "rapped",
-  "rappee",
-  "rappel",
-  "rappen",
-  "rapper",
-  "raptly",
-  "raptor",
-  "rarefy",
-  "rarely",
-  "rarest",
-  "rarify",
-  "raring",
-  "rarity",
-  "rascal",
-  "rasers",
-  "rasher",
-  "rashes",
-  "rashly",
-  "rasing",
-  "rasped",
-  "rasper",
-  "rassle",
-  "raster",
-  "rasure",
-  "ratals",
-  "ratans",
-  "ratany",
-  "ratbag",
-  "ratels",
-  "raters",
-  "rather",
-  "ratify",
-  "ratine",
-  "rating",
-  "ration",
-  "ratios",
-  "ratite",
-  "ratlin",
-  "ratoon",
-  "rattan",
-  "ratted",
-  "ratten",
-  "ratter",
-  "rattle",
-  "rattly",
-  "ratton",
-  "raunch",
-  "ravage",
-  "ravels",
-  "ravens",
-  "ravers",
-  "ravine",
-  "raving",
-  "ravins",
-  "ravish",
-  "rawest",
-  "rawins",
-  "rawish",
-  "raxing",
-  "rayahs",
-  "raying",
-  "rayons",
-  "razeed",
-  "razees",
-  "razers",
-  "razing",
-  "razors",
-  "razzed",
-  "razzes",
-  "reacts",
-  "readds",
-  "reader",
-  "reagin",
-  "realer",
-  "reales",
-  "realia",
-  "really",
-  "realms",
-  "realty",
-  "reamed",
-  "reamer",
-  "reaped",
-  "reaper",
-  "reared",
-  "rearer",
-  "rearms",
-  "reason",
-  "reatas",
-  "reaved",
-  "reaver",
-  "reaves",
-  "reavow",
-  "rebait",
-  "rebars",
-  "rebate",
-  "rebato",
-  "rebbes",
-  "rebeck",
-  "rebecs",
-  "rebels",
-  "rebids",
-  "rebill",
-  "rebind",
-  "rebody",
-  "reboil",
-  "rebook",
-  "reboot",
-  "rebops",
-  "rebore",
-  "reborn",
-  "rebozo",
-  "rebred",
-  "rebuff",
-  "rebuke",
-  "rebury",
-  "rebuts",
-  "rebuys",
-  "recall",
-  "recane",
-  "recant",
-  "recaps",
-  "recast",
-  "recces",
-  "recede",
-  "recent",
-  "recept",
-  "recess",
-  "rechew",
-  "recipe",
-  "recite",
-  "recked",
-  "reckon",
-  "reclad",
-  "recoal",
-  "recock",
-  "recode",
-  "recoil",
-  "recoin",
-  "recomb",
-  "recons",
-  "recook",
-  "recopy",
-  "record",
-  "recork",
-  "recoup",
-  "rectal",
-  "rector",
-  "rectos",
-  "rectum",
-  "rectus",
-  "recurs",
-  "recuse",
-  "recuts",
-  "redact",
-  "redans",
-  "redate",
-  "redbay",
-  "redbud",
-  "redbug",
-  "redcap",
-  "redded",
-  "redden",
-  "redder",
-  "reddle",
-  "redear",
-  "redeem",
-  "redefy",
-  "redeny",
-  "redeye",
-  "redfin",
-  "rediae",
-  "redial",
-  "redias",
-  "reding",
-  "redips",
-  "redipt",
-  "redleg",
-  "redock",
-  "redoes",
-  "redone",
-  "redons",
-  "redout",
-  "redowa",
-  "redraw",
-  "redrew",
-  "redtop",
-  "redubs",
-  "reduce",
-  "redyed",
-  "redyes",
-  "reearn",
-  "reecho",
-  "reechy",
-  "reeded",
-  "reedit",
-  "reefed",
-  "reefer",
-  "reeked",
-  "reeker",
-  "reeled",
-  "reeler",
-  "reemit",
-  "reests",
-  "reeved",
-  "reeves",
-  "reface",
-  "refall",
-  "refect",
-  "refeed",
-  "refeel",
-  "refell",
-  "refels",
-  "refelt",
-  "refers",
-  "reffed",
-  "refile",
-  "refill",
-  "refilm",
-  "refind",
-  "refine",
-  "refire",
-  "refits",
-  "reflet",
-  "reflew",
-  "reflex",
-  "reflow",
-  "reflux",
-  "refold",
-  "reform",
-  "refuel",
-  "refuge",
-  "refund",
-  "refuse",
-  "refute",
-  "regain",
-  "regale",
-  "regard",
-  "regave",
-  "regear",
-  "regent",
-  "reggae",
-  "regild",
-  "regilt",
-  "regime",
-  "regina",
-  "region",
-  "regius",
-  "regive",
-  "reglet",
-  "reglow",
-  "reglue",
-  "regnal",
-  "regnum",
-  "regret",
-  "regrew",
-  "regrow",
-  "reguli",
-  "rehabs",
-  "rehang",
-  "rehash",
-  "rehear",
-  "reheat",
-  "reheel",
-  "rehems",
-  "rehire",
-  "rehung",
-  "reigns",
-  "reined",
-  "reinks",
-  "reived",
-  "reiver",
-  "reives",
-  "reject",
-  "rejoin",
-  "rekeys",
-  "reknit",
-  "relace",
-  "relaid",
-  "relate",
-  "relays",
-  "relend",
-  "relent",
-  "relets",
-  "releve",
-  "relics",
-  "relict",
-  "relied",
-  "relief",
-  "relier",
-  "relies",
-  "reline",
-  "relink",
-  "relish",
-  "relist",
-  "relive",
-  "reload",
-  "reloan",
-  "relock",
-  "relook",
-  "reluct",
-  "relume",
-  "remade",
-  "remail",
-  "remain",
-  "remake",
-  "remand",
-  "remans",
-  "remaps",
-  "remark",
-  "remate",
-  "remedy",
-  "remeet",
-  "remelt",
-  "remend",
-  "remind",
-  "remint",
-  "remise",
-  "remiss",
-  "remits",
-  "remixt",
-  "remold",
-  "remora",
-  "remote",
-  "remove",
-  "remuda",
-  "renail",
-  "rename",
-  "rended",
-  "render",
-  "renege",
-  "renest",
-  "renews",
-  "renigs",
-  "renins",
-  "rennet",
-  "rennin",
-  "renown",
-  "rental",
-  "rented",
-  "renter",
-  "rentes",
-  "renvoi",
-  "reoils",
-  "reopen",
-  "repack",
-  "repaid",
-  "repair",
-  "repand",
-  "repark",
-  "repass",
-  "repast",
-  "repave",
-  "repays",
-  "repeal",
-  "repeat",
-  "repegs",
-  "repels",
-  "repent",
-  "reperk",
-  "repine",
-  "repins",
-  "replan",
-  "replay",
-  "repled",
-  "replot",
-  "repoll",
-  "report",
-  "repose",
-  "repots",
-  "repour",
-  "repped",
-  "repros",
-  "repugn",
-  "repump",
-  "repute",
-  "requin",
-  "rerack",
-  "reread",
-  "rerigs",
-  "rerise",
-  "reroll",
-  "reroof",
-  "rerose",
-  "reruns",
-  "resaid",
-  "resail",
-  "resale",
-  "resawn",
-  "resaws",
-  "resays",
-  "rescue",
-  "reseal",
-  "reseat",
-  "reseau",
-  "resect",
-  "reseda",
-  "reseed",
-  "reseek",
-  "reseen",
-  "resees",
-  "resell",
-  "resend",
-  "resent",
-  "resets",
-  "resewn",
-  "resews",
-  "reshes",
-  "reship",
-  "reshod",
-  "reshoe",
-  "reshot",
-  "reshow",
-  "reside",
-  "resids",
-  "resift",
-  "resign",
-  "resile",
-  "resins",
-  "resiny",
-  "resist",
-  "resite",
-  "resize",
-  "resoak",
-  "resods",
-  "resold",
-  "resole",
-  "resorb",
-  "resort",
-  "resown",
-  "resows",
-  "respot",
-  "rested",
-  "rester",
-  "result",
-  "resume",
-  "retack",
-  "retags",
-  "retail",
-  "retain",
-  "retake",
-  "retape",
-  "retard",
-  "reteam",
-  "retear",
-  "retell",
-  "retems",
-  "retene",
-  "retest",
-  "retial",
-  "retied",
-  "reties",
-  "retile",
-  "retime",
-  "retina",
-  "retine",
-  "retint",
-  "retire",
-  "retold",
-  "retook",
-  "retool",
-  "retore",
-  "retorn",
-  "retort",
-  "retral",
-  "retrim",
-  "retros",
-  "retted",
-  "retune",
-  "return",
-  "retuse",
-  "retype",
-  "reused",
-  "reuses",
-  "revamp",
-  "reveal",
-  "revels",
-  "reverb",
-  "revere",
-  "revers",
-  "revert",
-  "revery",
-  "revest",
-  "revets",
-  "review",
-  "revile",
-  "revise",
-  "revive",
-  "revoke",
-  "revolt",
-  "revote",
-  "revues",
-  "revved",
-  "rewake",
-  "reward",
-  "rewarm",
-  "rewash",
-  "reweds",
-  "reweld",
-  "rewets",
-  "rewind",
-  "rewins",
-  "rewire",
-  "rewoke",
-  "reword",
-  "rework",
-  "rewove",
-  "rewrap",
-  "rezone",
-  "rhaphe",
-  "rhebok",
-  "rhesus",
-  "rhetor",
-  "rheums",
-  "rheumy",
-  "rhinal",
-  "rhinos",
-  "rhodic",
-  "rhombi",
-  "rhombs",
-  "rhumba",
-  "rhumbs",
-  "rhuses",
-  "rhymed",
-  "rhymer",
-  "rhymes",
-  "rhythm",
-  "rhyton",
-  "rialto",
-  "riatas",
-  "ribald",
-  "riband",
-  "ribbed",
-  "ribber",
-  "ribbon",
-  "ribier",
-  "riblet",
-  "ribose",
-  "ricers",
-  "richen",
-  "richer",
-  "riches",
-  "richly",
-  "ricing",
-  "ricins",
-  "ricked",
-  "rickey",
-  "ricrac",
-  "rictal",
-  "rictus",
-  "ridded",
-  "ridden",
-  "ridder",
-  "riddle",
-  "rident",
-  "riders",
-  "ridged",
-  "ridgel",
-  "ridges",
-  "ridgil",
-  "riding",
-  "ridley",
-  "riever",
-  "rifely",
-  "rifest",
-  "riffed",
-  "riffle",
-  "rifled",
-  "rifler",
-  "rifles",
-  "rifted",
-  "rigged",
-  "rigger",
-  "righto",
-  "rights",
-  "righty",
-  "rigors",
-  "rigour",
-  "riling",
-  "rilled",
-  "rilles",
-  "rillet",
-  "rimers",
-  "rimier",
-  "riming",
-  "rimmed",
-  "rimmer",
-  "rimose",
-  "rimous",
-  "rimple",
-  "rinded",
-  "ringed",
-  "ringer",
-  "rinsed",
-  "rinser",
-  "rinses",
-  "riojas",
-  "rioted",
-  "rioter",
-  "ripely",
-  "ripens",
-  "ripest",
-  "riping",
-  "ripoff",
-  "ripost",
-  "ripped",
-  "ripper",
-  "ripple",
-  "ripply",
-  "riprap",
-  "ripsaw",
-  "risers",
-  "rishis",
-  "rising",
-  "risked",
-  "risker",
-  "risque",
-  "ritard",
-  "ritter",
-  "ritual",
-  "ritzes",
-  "rivage",
-  "rivals",
-  "rivers",
-  "rivets",
-  "riving",
-  "riyals",
-  "roadeo",
-  "roadie",
-  "roamed",
-  "roamer",
-  "roared",
-  "roarer",
-  "roasts",
-  "robalo",
-  "roband",
-  "robbed",
-  "robber",
-  "robbin",
-  "robing",
-  "robins",
-  "robles",
-  "robots",
-  "robust",
-  "rochet",
-  "rocked",
-  "rocker",
-  "rocket",
-  "rococo",
-  "rodded",
-  "rodent",
-  "rodeos",
-  "rodman",
-  "rodmen",
-  "rogers",
-  "rogued",
-  "rogues",
-  "roiled",
-  "rolfed",
-  "rolfer",
-  "rolled",
-  "roller",
-  "romano",
-  "romans",
-  "romeos",
-  "romped",
-  "romper",
-  "rondel",
-  "rondos",
-  "ronion",
-  "ronnel",
-  "ronyon",
-  "roofed",
-  "roofer",
-  "rooked",
-  "rookie",
-  "roomed",
-  "roomer",
-  "roomie",
-  "roosed",
-  "rooser",
-  "rooses",
-  "roosts",
-  "rooted",
-  "rooter",
-  "ropers",
-  "ropery",
-  "ropier",
-  "ropily",
-  "roping",
-  "roques",
-  "roquet",
-  "rosary",
-  "roscoe",
-  "rosery",
-  "rosets",
-  "rosier",
-  "rosily",
-  "rosing",
-  "rosins",
-  "rosiny",
-  "roster",
-  "rostra",
-  "rotary",
-  "rotate",
-  "rotche",
-  "rotgut",
-  "rotors",
-  "rotted",
-  "rotten",
-  "rotter",
-  "rottes",
-  "rotund",
-  "rouble",
-  "rouche",
-  "rouens",
-  "rouged",
-  "rouges",
-  "roughs",
-  "rounds",
-  "rouped",
-  "roupet",
-  "roused",
-  "rouser",
-  "rouses",
-  "rousts",
-  "routed",
-  "router",
-  "routes",
-  "rouths",
-  "rovers",
-  "roving",
-  "rowans",
-  "rowels",
-  "rowens",
-  "rowers",
-  "rowing",
-  "rowths",
-  "royals",
-  "rozzer",
-  "ruanas",
-  "rubace",
-  "rubato",
-  "rubbed",
-  "rubber",
-  "rubble",
-  "rubbly",
-  "rubied",
-  "rubier",
-  "rubies",
-  "rubigo",
-  "rubles",
-  "ruboff",
-  "rubout",
-  "rubric",
-  "ruched",
-  "ruches",
-  "rucked",
-  "ruckle",
-  "ruckus",
-  "rudder",
-  "ruddle",
-  "rudely",
-  "rudest",
-  "rueful",
-  "ruffed",
-  "ruffes",
-  "ruffle",
-  "ruffly",
-  "rufous",
-  "rugate",
-  "rugged",
-  "rugger",
-  "rugola",
-  "rugosa",
-  "rugose",
-  "rugous",
-  "ruined",
-  "ruiner",
-  "rulers",
-  "rulier",
-  "ruling",
-  "rumaki",
-  "rumbas",
-  "rumble",
-  "rumbly",
-  "rumens",
-  "rumina",
-  "rummer",
-  "rumors",
-  "rumour",
-  "rumple",
-  "rumply",
-  "rumpus",
-  "rundle",
-  "runkle",
-  "runlet",
-  "runnel",
-  "runner",
-  "runoff",
-  "runout",
-  "runway",
-  "rupees",
-  "rupiah",
-  "rurban",
-  "rushed",
-  "rushee",
-  "rusher",
-  "rushes",
-  "rusine",
-  "russet",
-  "rusted",
-  "rustic",
-  "rustle",
-  "rutile",
-  "rutins",
-  "rutted",
-  "ryking",
-  "ryokan",
-  "sabbat",
-  "sabbed",
-  "sabers",
-  "sabine",
-  "sabins",
-  "sabirs",
-  "sables",
-  "sabots",
-  "sabras",
-  "sabred",
-  "sabres",
-  "sacbut",
-  "sachem",
-  "sachet",
-  "sacked",
-  "sacker",
-  "sacque",
-  "sacral",
-  "sacred",
-  "sacrum",
-  "sadden",
-  "sadder",
-  "saddhu",
-  "saddle",
-  "sadhes",
-  "sadhus",
-  "sadism",
-  "sadist",
-  "safari",
-  "safely",
-  "safest",
-  "safety",
-  "safrol",
-  "sagbut",
-  "sagely",
-  "sagest",
-  "saggar",
-  "sagged",
-  "sagger",
-  "sagier",
-  "sahibs",
-  "saices",
-  "saigas",
-  "sailed",
-  "sailer",
-  "sailor",
-  "saimin",
-  "sained",
-  "saints",
-  "saithe",
-  "saiyid",
-  "sajous",
-  "sakers",
-  "salaam",
-  "salads",
-  "salals",
-  "salami",
-  "salary",
-  "saleps",
-  "salify",
-  "salina",
-  "saline",
-  "saliva",
-  "sallet",
-  "sallow",
-  "salmis",
-  "salmon",
-  "salols",
-  "salons",
-  "saloon",
-  "saloop",
-  "salpae",
-  "salpas",
-  "salpid",
-  "salsas",
-  "salted",
-  "salter",
-  "saltie",
-  "saluki",
-  "salute",
-  "salved",
-  "salver",
-  "salves",
-  "salvia",
-  "salvor",
-  "salvos",
-  "samara",
-  "sambar",
-  "sambas",
-  "sambos",
-  "sambur",
-  "samech",
-  "samekh",
-  "sameks",
-  "samiel",
-  "samite",
-  "samlet",
-  "samosa",
-  "sampan",
-  "sample",
-  "samshu",
-  "sancta",
-  "sandal",
-  "sanded",
-  "sander",
-  "sandhi",
-  "sanely",
-  "sanest",
-  "sangar",
-  "sangas",
-  "sanger",
-  "sanghs",
-  "sanies",
-  "saning",
-  "sanity",
-  "sanjak",
-  "sannop",
-  "sannup",
-  "sansar",
-  "sansei",
-  "santir",
-  "santol",
-  "santos",
-  "santur",
-  "sapors",
-  "sapota",
-  "sapote",
-  "sapour",
-  "sapped",
-  "sapper",
-  "sarans",
-  "sarape",
-  "sardar",
-  "sarees",
-  "sarges",
-  "sarins",
-  "sarode",
-  "sarods",
-  "sarong",
-  "sarsar",
-  "sarsen",
-  "sartor",
-  "sashay",
-  "sashed",
-  "sashes",
-  "sasins",
-  "sassed",
-  "sasses",
-  "satang",
-  "satara",
-  "satays",
-  "sateen",
-  "sating",
-  "satins",
-  "satiny",
-  "satire",
-  "satori",
-  "satrap",
-  "satyrs",
-  "sauced",
-  "saucer",
-  "sauces",
-  "sauchs",
-  "sauger",
-  "saughs",
-  "saughy",
-  "saults",
-  "saunas",
-  "saurel",
-  "sauted",
-  "sautes",
-  "savage",
-  "savant",
-  "savate",
-  "savers",
-  "savine",
-  "saving",
-  "savins",
-  "savior",
-  "savors",
-  "savory",
-  "savour",
-  "savoys",
-  "sawers",
-  "sawfly",
-  "sawing",
-  "sawlog",
-  "sawney",
-  "sawyer",
-  "saxony",
-  "sayers",
-  "sayest",
-  "sayids",
-  "saying",
-  "sayyid",
-  "scabby",
-  "scalar",
-  "scalds",
-  "scaled",
-  "scaler",
-  "scales",
-  "scalls",
-  "scalps",
-  "scampi",
-  "scamps",
-  "scants",
-  "scanty",
-  "scaped",
-  "scapes",
-  "scarab",
-  "scarce",
-  "scared",
-  "scarer",
-  "scares",
-  "scarey",
-  "scarfs",
-  "scarph",
-  "scarps",
-  "scarry",
-  "scarts",
-  "scathe",
-  "scatts",
-  "scatty",
-  "scaups",
-  "scaurs",
-  "scenas",
-  "scends",
-  "scenes",
-  "scenic",
-  "scents",
-  "schavs",
-  "schema",
-  "scheme",
-  "schism",
-  "schist",
-  "schizo",
-  "schizy",
-  "schlep",
-  "schmoe",
-  "schmos",
-  "schnoz",
-  "school",
-  "schorl",
-  "schrik",
-  "schrod",
-  "schtik",
-  "schuit",
-  "schuln",
-  "schuss",
-  "schwas",
-  "scilla",
-  "scions",
-  "sclaff",
-  "sclera",
-  "scoffs",
-  "scolds",
-  "scolex",
-  "sconce",
-  "scones",
-  "scoops",
-  "scoots",
-  "scoped",
-  "scopes",
-  "scorch",
-  "scored",
-  "scorer",
-  "scores",
-  "scoria",
-  "scorns",
-  "scotch",
-  "scoter",
-  "scotia",
-  "scours",
-  "scouse",
-  "scouth",
-  "scouts",
-  "scowed",
-  "scowls",
-  "scrags",
-  "scrams",
-  "scrape",
-  "scraps",
-  "scrawl",
-  "screak",
-  "scream",
-  "screed",
-  "screen",
-  "screes",
-  "screws",
-  "screwy",
-  "scribe",
-  "scried",
-  "scries",
-  "scrimp",
-  "scrims",
-  "scrips",
-  "script",
-  "scrive",
-  "scrods",
-  "scroll",
-  "scroop",
-  "scrota",
-  "scrubs",
-  "scruff",
-  "scrums",
-  "scubas",
-  "scuffs",
-  "sculks",
-  "sculls",
-  "sculps",
-  "sculpt",
-  "scummy",
-  "scurfs",
-  "scurfy",
-  "scurry",
-  "scurvy",
-  "scutch",
-  "scutes",
-  "scutum",
-  "scuzzy",
-  "scyphi",
-  "scythe",
-  "seabag",
-  "seabed",
-  "seadog",
-  "sealed",
-  "sealer",
-  "seaman",
-  "seamed",
-  "seamen",
-  "seamer",
-  "seance",
-  "search",
-  "seared",
-  "searer",
-  "season",
-  "seated",
-  "seater",
-  "seawan",
-  "seaway",
-  "sebums",
-  "secant",
-  "seccos",
-  "secede",
-  "secern",
-  "second",
-  "secpar",
-  "secret",
-  "sector",
-  "secund",
-  "secure",
-  "sedans",
-  "sedate",
-  "seders",
-  "sedges",
-  "sedile",
-  "seduce",
-  "sedums",
-  "seeded",
-  "seeder",
-  "seeing",
-  "seeker",
-  "seeled",
-  "seemed",
-  "seemer",
-  "seemly",
-  "seeped",
-  "seesaw",
-  "seethe",
-  "seggar",
-  "segnos",
-  "segued",
-  "segues",
-  "seiche",
-  "seidel",
-  "seined",
-  "seiner",
-  "seines",
-  "seised",
-  "seiser",
-  "seises",
-  "seisin",
-  "seisms",
-  "seisor",
-  "seized",
-  "seizer",
-  "seizes",
-  "seizin",
-  "seizor",
-  "sejant",
-  "selahs",
-  "seldom",
-  "select",
-  "selfed",
-  "seller",
-  "selles",
-  "selsyn",
-  "selvas",
-  "selves",
-  "sememe",
-  "semens",
-  "semina",
-  "semple",
-  "sempre",
-  "senary",
-  "senate",
-  "sendal",
-  "sended",
-  "sender",
-  "sendup",
-  "seneca",
-  "senega",
-  "senhor",
-  "senile",
-  "senior",
-  "seniti",
-  "sennas",
-  "sennet",
-  "sennit",
-  "senora",
-  "senors",
-  "senryu",
-  "sensed",
-  "senses",
-  "sensor",
-  "sensum",
-  "sentry",
-  "sepals",
-  "sepias",
-  "sepoys",
-  "sepses",
-  "sepsis",
-  "septal",
-  "septet",
-  "septic",
-  "septum",
-  "sequel",
-  "sequin",
-  "seracs",
-  "serail",
-  "serais",
-  "serape",
-  "seraph",
-  "serdab",
-  "serein",
-  "serene",
-  "serest",
-  "serges",
-  "serial",
-  "series",
-  "serifs",
-  "serine",
-  "sering",
-  "serins",
-  "sermon",
-  "serosa",
-  "serous",
-  "serows",
-  "serums",
-  "serval",
-  "served",
-  "server",
-  "serves",
-  "servos",
-  "sesame",
-  "sestet",
-  "setoff",
-  "setons",
-  "setose",
-  "setous",
-  "setout",
-  "settee",
-  "setter",
-  "settle",
-  "setups",
-  "sevens",
-  "severe",
-  "severs",
-  "sewage",
-  "sewans",
-  "sewars",
-  "sewers",
-  "sewing",
-  "sexier",
-  "sexily",
-  "sexing",
-  "sexism",
-  "sexist",
-  "sexpot",
-  "sextan",
-  "sextet",
-  "sexton",
-  "sextos",
-  "sexual",
-  "shabby",
-  "shacko",
-  "shacks",
-  "shaded",
-  "shader",
-  "shades",
-  "shadow",
-  "shaduf",
-  "shafts",
-  "shaggy",
-  "shaird",
-  "shairn",
-  "shaken",
-  "shaker",
-  "shakes",
-  "shakos",
-  "shaled",
-  "shales",
-  "shaley",
-  "shalom",
-  "shaman",
-  "shamas",
-  "shamed",
-  "shames",
-  "shammy",
-  "shamos",
-  "shamoy",
-  "shamus",
-  "shandy",
-  "shanks",
-  "shanny",
-  "shanti",
-  "shanty",
-  "shaped",
-  "shapen",
-  "shaper",
-  "shapes",
-  "shards",
-  "shared",
-  "sharer",
-  "shares",
-  "sharif",
-  "sharks",
-  "sharns",
-  "sharny",
-  "sharps",
-  "sharpy",
-  "shaugh",
-  "shauls",
-  "shaved",
-  "shaven",
-  "shaver",
-  "shaves",
-  "shavie",
-  "shawed",
-  "shawls",
-  "shawms",
-  "sheafs",
-  "sheals",
-  "shears",
-  "sheath",
-  "sheave",
-  "sheens",
-  "sheeny",
-  "sheers",
-  "sheets",
-  "sheeve",
-  "sheikh",
-  "sheiks",
-  "sheila",
-  "shekel",
-  "shells",
-  "shelly",
-  "shelta",
-  "shelty",
-  "shelve",
-  "shelvy",
-  "shends",
-  "sheols",
-  "sheqel",
-  "sherds",
-  "sherif",
-  "sherpa",
-  "sherry",
-  "sheuch",
-  "sheugh",
-  "shewed",
-  "shewer",
-  "shibah",
-  "shield",
-  "shiels",
-  "shiers",
-  "shiest",
-  "shifts",
-  "shifty",
-  "shikar",
-  "shiksa",
-  "shikse",
-  "shills",
-  "shimmy",
-  "shindy",
-  "shined",
-  "shiner",
-  "shines",
-  "shinny",
-  "shires",
-  "shirks",
-  "shirrs",
-  "shirts",
-  "shirty",
-  "shists",
-  "shitty",
-  "shivah",
-  "shivas",
-  "shiver",
-  "shives",
-  "shlepp",
-  "shleps",
-  "shlock",
-  "shlump",
-  "shmear",
-  "shmoes",
-  "shmuck",
-  "shnaps",
-  "shnook",
-  "shoals",
-  "shoaly",
-  "shoats",
-  "shocks",
-  "shoddy",
-  "shoers",
-  "shofar",
-  "shogun",
-  "shojis",
-  "sholom",
-  "shooed",
-  "shooks",
-  "shools",
-  "shoots",
-  "shoppe",
-  "shoran",
-  "shored",
-  "shores",
-  "shorls",
-  "shorts",
-  "shorty",
-  "shotes",
-  "shotts",
-  "should",
-  "shouts",
-  "shoved",
-  "shovel",
-  "shover",
-  "shoves",
-  "showed",
-  "shower",
-  "shoyus",
-  "shrank",
-  "shreds",
-  "shrewd",
-  "shrews",
-  "shriek",
-  "shrift",
-  "shrike",
-  "shrill",
-  "shrimp",
-  "shrine",
-  "shrink",
-  "shrive",
-  "shroff",
-  "shroud",
-  "shrove",
-  "shrubs",
-  "shrugs",
-  "shrunk",
-  "shtetl",
-  "shtick",
-  "shtiks",
-  "shucks",
-  "shunts",
-  "shuted",
-  "shutes",
-  "shyers",
-  "shyest",
-  "shying",
-  "sialic",
-  "sialid",
-  "sibyls",
-  "siccan",
-  "sicced",
-  "sicked",
-  "sickee",
-  "sicken",
-  "sicker",
-  "sickie",
-  "sickle",
-  "sickly",
-  "sickos",
-  "siddur",
-  "siding",
-  "sidled",
-  "sidler",
-  "sidles",
-  "sieged",
-  "sieges",
-  "sienna",
-  "sierra",
-  "siesta",
-  "sieurs",
-  "sieved",
-  "sieves",
-  "sifaka",
-  "sifted",
-  "sifter",
-  "sighed",
-  "sigher",
-  "sights",
-  "sigils",
-  "sigloi",
-  "siglos",
-  "sigmas",
-  "signal",
-  "signed",
-  "signee",
-  "signer",
-  "signet",
-  "signor",
-  "silage",
-  "silane",
-  "sileni",
-  "silent",
-  "silica",
-  "silked",
-  "silken",
-  "siller",
-  "siloed",
-  "silted",
-  "silvae",
-  "silvan",
-  "silvas",
-  "silver",
-  "silvex",
-  "simars",
-  "simian",
-  "simile",
-  "simlin",
-  "simmer",
-  "simnel",
-  "simony",
-  "simoom",
-  "simoon",
-  "simper",
-  "simple",
-  "simply",
-  "sinews",
-  "sinewy",
-  "sinful",
-  "singed",
-  "singer",
-  "singes",
-  "single",
-  "singly",
-  "sinker",
-  "sinned",
-  "sinner",
-  "sinter",
-  "siphon",
-  "siping",
-  "sipped",
-  "sipper",
-  "sippet",
-  "sirdar",
-  "sirees",
-  "sirens",
-  "siring",
-  "sirrah",
-  "sirras",
-  "sirree",
-  "sirups",
-  "sirupy",
-  "sisals",
-  "siskin",
-  "sister",
-  "sistra",
-  "sitars",
-  "sitcom",
-  "siting",
-  "sitten",
-  "sitter",
-  "situps",
-  "sivers",
-  "sixmos",
-  "sixtes",
-  "sixths",
-  "sizars",
-  "sizers",
-  "sizier",
-  "sizing",
-  "sizzle",
-  "skalds",
-  "skated",
-  "skater",
-  "skates",
-  "skatol",
-  "skeane",
-  "skeans",
-  "skeens",
-  "skeets",
-  "skeigh",
-  "skeins",
-  "skelms",
-  "skelps",
-  "skenes",
-  "skerry",
-  "sketch",
-  "skewed",
-  "skewer",
-  "skibob",
-  "skiddy",
-  "skidoo",
-  "skiers",
-  "skiffs",
-  "skiing",
-  "skills",
-  "skimos",
-  "skimps",
-  "skimpy",
-  "skinks",
-  "skinny",
-  "skirls",
-  "skirrs",
-  "skirts",
-  "skited",
-  "skites",
-  "skived",
-  "skiver",
-  "skives",
-  "skivvy",
-  "sklent",
-  "skoals",
-  "skulks",
-  "skulls",
-  "skunks",
-  "skybox",
-  "skycap",
-  "skying",
-  "skylit",
-  "skyman",
-  "skymen",
-  "skyway",
-  "slacks",
-  "slaggy",
-  "slaked",
-  "slaker",
-  "slakes",
-  "slalom",
-  "slangs",
-  "slangy",
-  "slants",
-  "slanty",
-  "slatch",
-  "slated",
-  "slater",
-  "slates",
-  "slatey",
-  "slaved",
-  "slaver",
-  "slaves",
-  "slavey",
-  "slayed",
-  "slayer",
-  "sleave",
-  "sleaze",
-  "sleazo",
-  "sleazy",
-  "sledge",
-  "sleeks",
-  "sleeky",
-  "sleeps",
-  "sleepy",
-  "sleets",
-  "sleety",
-  "sleeve",
-  "sleigh",
-  "sleuth",
-  "slewed",
-  "sliced",
-  "slicer",
-  "slices",
-  "slicks",
-  "slider",
-  "slides",
-  "sliest",
-  "slight",
-  "slimed",
-  "slimes",
-  "slimly",
-  "slimsy",
-  "slings",
-  "slinks",
-  "slinky",
-  "sliped",
-  "slipes",
-  "slippy",
-  "slipup",
-  "sliver",
-  "slobby",
-  "slogan",
-  "sloids",
-  "slojds",
-  "sloops",
-  "sloped",
-  "sloper",
-  "slopes",
-  "sloppy",
-  "sloshy",
-  "sloths",
-  "slouch",
-  "slough",
-  "sloven",
-  "slowed",
-  "slower",
-  "slowly",
-  "sloyds",
-  "sludge",
-  "sludgy",
-  "sluffs",
-  "sluice",
-  "sluicy",
-  "sluing",
-  "slummy",
-  "slumps",
-  "slurbs",
-  "slurps",
-  "slurry",
-  "slushy",
-  "slutty",
-  "slyest",
-  "slypes",
-  "smacks",
-  "smalls",
-  "smalti",
-  "smalto",
-  "smalts",
-  "smarms",
-  "smarmy",
-  "smarts",
-  "smarty",
-  "smazes",
-  "smears",
-  "smeary",
-  "smeeks",
-  "smegma",
-  "smells",
-  "smelly",
-  "smelts",
-  "smerks",
-  "smidge",
-  "smilax",
-  "smiled",
-  "smiler",
-  "smiles",
-  "smiley",
-  "smirch",
-  "smirks",
-  "smirky",
-  "smiter",
-  "smites",
-  "smiths",
-  "smithy",
-  "smocks",
-  "smoggy",
-  "smoked",
-  "smoker",
-  "smokes",
-  "smokey",
-  "smolts",
-  "smooch",
-  "smooth",
-  "smudge",
-  "smudgy",
-  "smugly",
-  "smutch",
-  "smutty",
-  "snacks",
-  "snafus",
-  "snaggy",
-  "snails",
-  "snaked",
-  "snakes",
-  "snakey",
-  "snappy",
-  "snared",
-  "snarer",
-  "snares",
-  "snarks",
-  "snarky",
-  "snarls",
-  "snarly",
-  "snatch",
-  "snathe",
-  "snaths",
-  "snawed",
-  "snazzy",
-  "sneaks",
-  "sneaky",
-  "sneaps",
-  "snecks",
-  "sneers",
-  "sneesh",
-  "sneeze",
-  "sneezy",
-  "snells",
-  "snicks",
-  "snider",
-  "sniffs",
-  "sniffy",
-  "sniped",
-  "sniper",
-  "snipes",
-  "snippy",
-  "snitch",
-  "snivel",
-  "snobby",
-  "snoods",
-  "snooks",
-  "snools",
-  "snoops",
-  "snoopy",
-  "snoots",
-  "snooty",
-  "snooze",
-  "snoozy",
-  "snored",
-  "snorer",
-  "snores",
-  "snorts",
-  "snotty",
-  "snouts",
-  "snouty",
-  "snowed",
-  "snubby",
-  "snuffs",
-  "snuffy",
-  "snugly",
-  "soaked",
-  "soaker",
-  "soaped",
-  "soaper",
-  "soared",
-  "soarer",
-  "soaves",
-  "sobbed",
-  "sobber",
-  "sobeit",
-  "sobers",
-  "sobful",
-  "socage",
-  "soccer",
-  "social",
-  "socked",
-  "socket",
-  "socles",
-  "socman",
-  "socmen",
-  "sodded",
-  "sodden",
-  "sodium",
-  "sodoms",
-  "sodomy",
-  "soever",
-  "sofars",
-  "soffit",
-  "softas",
-  "soften",
-  "softer",
-  "softie",
-  "softly",
-  "sogged",
-  "soigne",
-  "soiled",
-  "soiree",
-  "sokols",
-  "solace",
-  "soland",
-  "solano",
-  "solans",
-  "solate",
-  "soldan",
-  "solder",
-  "solely",
-  "solemn",
-  "soleus",
-  "solgel",
-  "solidi",
-  "solids",
-  "soling",
-  "solion",
-  "soloed",
-  "solons",
-  "solums",
-  "solute",
-  "solved",
-  "solver",
-  "solves",
-  "somata",
-  "somber",
-  "sombre",
-  "somite",
-  "sonant",
-  "sonars",
-  "sonata",
-  "sonder",
-  "sondes",
-  "sonics",
-  "sonnet",
-  "sonsie",
-  "sooner",
-  "sooted",
-  "soothe",
-  "sooths",
-  "sopite",
-  "sopors",
-  "sopped",
-  "sorbed",
-  "sorbet",
-  "sorbic",
-  "sordid",
-  "sordor",
-  "sorels",
-  "sorely",
-  "sorest",
-  "sorgho",
-  "sorgos",
-  "soring",
-  "sorned",
-  "sorner",
-  "sorrel",
-  "sorrow",
-  "sorted",
-  "sorter",
-  "sortie",
-  "sotols",
-  "sotted",
-  "souari",
-  "soucar",
-  "soudan",
-  "soughs",
-  "sought",
-  "souled",
-  "sounds",
-  "souped",
-  "source",
-  "soured",
-  "sourer",
-  "sourly",
-  "soused",
-  "souses",
-  "souter",
-  "souths",
-  "soviet",
-  "sovran",
-  "sowans",
-  "sowars",
-  "sowcar",
-  "sowens",
-  "sowers",
-  "sowing",
-  "sozine",
-  "sozins",
-  "spaced",
-  "spacer",
-  "spaces",
-  "spacey",
-  "spaded",
-  "spader",
-  "spades",
-  "spadix",
-  "spahee",
-  "spahis",
-  "spails",
-  "spaits",
-  "spales",
-  "spalls",
-  "spanks",
-  "spared",
-  "sparer",
-  "spares",
-  "sparge",
-  "sparid",
-  "sparks",
-  "sparky",
-  "sparry",
-  "sparse",
-  "spasms",
-  "spates",
-  "spathe",
-  "spavie",
-  "spavin",
-  "spawns",
-  "spayed",
-  "speaks",
-  "speans",
-  "spears",
-  "specie",
-  "specks",
-  "speech",
-  "speedo",
-  "speeds",
-  "speedy",
-  "speels",
-  "speers",
-  "speils",
-  "speirs",
-  "speise",
-  "speiss",
-  "spells",
-  "spelts",
-  "speltz",
-  "spence",
-  "spends",
-  "spense",
-  "sperms",
-  "spewed",
-  "spewer",
-  "sphene",
-  "sphere",
-  "sphery",
-  "sphinx",
-  "spicae",
-  "spicas",
-  "spiced",
-  "spicer",
-  "spices",
-  "spicey",
-  "spicks",
-  "spider",
-  "spiels",
-  "spiers",
-  "spiffs",
-  "spiffy",
-  "spigot",
-  "spiked",
-  "spiker",
-  "spikes",
-  "spikey",
-  "spiled",
-  "spiles",
-  "spills",
-  "spilth",
-  "spinal",
-  "spined",
-  "spinel",
-  "spines",
-  "spinet",
-  "spinny",
-  "spinor",
-  "spinto",
-  "spiral",
-  "spirea",
-  "spired",
-  "spirem",
-  "spires",
-  "spirit",
-  "spirts",
-  "spital",
-  "spited",
-  "spites",
-  "splake",
-  "splash",
-  "splats",
-  "splays",
-  "spleen",
-  "splent",
-  "splice",
-  "spliff",
-  "spline",
-  "splint",
-  "splits",
-  "splore",
-  "splosh",
-  "spodes",
-  "spoils",
-  "spoilt",
-  "spoked",
-  "spoken",
-  "spokes",
-  "sponge",
-  "spongy",
-  "spoofs",
-  "spoofy",
-  "spooks",
-  "spooky",
-  "spools",
-  "spoons",
-  "spoony",
-  "spoors",
-  "sporal",
-  "spored",
-  "spores",
-  "sports",
-  "sporty",
-  "spotty",
-  "spouse",
-  "spouts",
-  "sprags",
-  "sprain",
-  "sprang",
-  "sprats",
-  "sprawl",
-  "sprays",
-  "spread",
-  "sprees",
-  "sprent",
-  "sprier",
-  "sprigs",
-  "spring",
-  "sprint",
-  "sprite",
-  "sprits",
-  "spritz",
-  "sprout",
-  "spruce",
-  "sprucy",
-  "sprues",
-  "sprugs",
-  "sprung",
-  "spryer",
-  "spryly",
-  "spuing",
-  "spumed",
-  "spumes",
-  "spunks",
-  "spunky",
-  "spurge",
-  "spurns",
-  "spurry",
-  "spurts",
-  "sputum",
-  "spying",
-  "squabs",
-  "squads",
-  "squall",
-  "squama",
-  "square",
-  "squash",
-  "squats",
-  "squawk",
-  "squaws",
-  "squeak",
-  "squeal",
-  "squegs",
-  "squibs",
-  "squids",
-  "squill",
-  "squint",
-  "squire",
-  "squirm",
-  "squirt",
-  "squish",
-  "squush",
-  "sradha",
-  "stable",
-  "stably",
-  "stacks",
-  "stacte",
-  "stades",
-  "stadia",
-  "staffs",
-  "staged",
-  "stager",
-  "stages",
-  "stagey",
-  "staggy",
-  "staigs",
-  "stains",
-  "stairs",
-  "staked",
-  "stakes",
-  "stalag",
-  "staled",
-  "staler",
-  "stales",
-  "stalks",
-  "stalky",
-  "stalls",
-  "stamen",
-  "stamps",
-  "stance",
-  "stanch",
-  "stands",
-  "staned",
-  "stanes",
-  "stangs",
-  "stanks",
-  "stanza",
-  "stapes",
-  "staphs",
-  "staple",
-  "starch",
-  "stared",
-  "starer",
-  "stares",
-  "starry",
-  "starts",
-  "starve",
-  "stases",
-  "stasis",
-  "statal",
-  "stated",
-  "stater",
-  "states",
-  "static",
-  "stator",
-  "statue",
-  "status",
-  "staved",
-  "staves",
-  "stayed",
-  "stayer",
-  "steads",
-  "steady",
-  "steaks",
-  "steals",
-  "steams",
-  "steamy",
-  "steeds",
-  "steeks",
-  "steels",
-  "steely",
-  "steeps",
-  "steers",
-  "steeve",
-  "steins",
-  "stelae",
-  "stelai",
-  "stelar",
-  "steles",
-  "stelic",
-  "stella",
-  "stemma",
-  "stemmy",
-  "stench",
-  "stenos",
-  "steppe",
-  "stereo",
-  "steres",
-  "steric",
-  "sterna",
-  "sterns",
-  "sterol",
-  "stewed",
-  "stichs",
-  "sticks",
-  "sticky",
-  "stiffs",
-  "stifle",
-  "stigma",
-  "stiles",
-  "stills",
-  "stilly",
-  "stilts",
-  "stimes",
-  "stingo",
-  "stings",
-  "stingy",
-  "stinko",
-  "stinks",
-  "stinky",
-  "stints",
-  "stiped",
-  "stipel",
-  "stipes",
-  "stirks",
-  "stirps",
-  "stitch",
-  "stithy",
-  "stiver",
-  "stoats",
-  "stocks",
-  "stocky",
-  "stodge",
-  "stodgy",
-  "stogey",
-  "stogie",
-  "stoics",
-  "stoked",
-  "stoker",
-  "stokes",
-  "stoled",
-  "stolen",
-  "stoles",
-  "stolid",
-  "stolon",
-  "stomal",
-  "stomas",
-  "stomps",
-  "stoned",
-  "stoner",
-  "stones",
-  "stoney",
-  "stooge",
-  "stooks",
-  "stools",
-  "stoops",
-  "stoped",
-  "stoper",
-  "stopes",
-  "storax",
-  "stored",
-  "stores",
-  "storey",
-  "storks",
-  "storms",
-  "stormy",
-  "stound",
-  "stoups",
-  "stoure",
-  "stours",
-  "stoury",
-  "stouts",
-  "stover",
-  "stoves",
-  "stowed",
-  "stowps",
-  "strafe",
-  "strain",
-  "strait",
-  "strake",
-  "strand",
-  "strang",
-  "straps",
-  "strass",
-  "strata",
-  "strath",
-  "strati",
-  "straws",
-  "strawy",
-  "strays",
-  "streak",
-  "stream",
-  "streek",
-  "streel",
-  "street",
-  "streps",
-  "stress",
-  "strewn",
-  "strews",
-  "striae",
-  "strick",
-  "strict",
-  "stride",
-  "strife",
-  "strike",
-  "string",
-  "stripe",
-  "strips",
-  "stript",
-  "stripy",
-  "strive",
-  "strobe",
-  "strode",
-  "stroke",
-  "stroll",
-  "stroma",
-  "strong",
-  "strook",
-  "strops",
-  "stroud",
-  "strove",
-  "strown",
-  "strows",
-  "stroys",
-  "struck",
-  "struma",
-  "strums",
-  "strung",
-  "strunt",
-  "struts",
-  "stubby",
-  "stucco",
-  "studio",
-  "studly",
-  "stuffs",
-  "stuffy",
-  "stulls",
-  "stumps",
-  "stumpy",
-  "stunts",
-  "stupas",
-  "stupes",
-  "stupid",
-  "stupor",
-  "sturdy",
-  "sturts",
-  "stying",
-  "stylar",
-  "styled",
-  "styler",
-  "styles",
-  "stylet",
-  "stylus",
-  "stymie",
-  "styrax",
-  "suable",
-  "suably",
-  "suaver",
-  "subahs",
-  "subbed",
-  "subdeb",
-  "subdue",
-  "subers",
-  "subfix",
-  "subgum",
-  "subito",
-  "sublet",
-  "sublot",
-  "submit",
-  "subnet",
-  "suborn",
-  "subpar",
-  "subsea",
-  "subset",
-  "subtle",
-  "subtly",
-  "suburb",
-  "subway",
-  "succah",
-  "succor",
-  "sucked",
-  "sucker",
-  "suckle",
-  "sucres",
-  "sudary",
-  "sudden",
-  "sudors",
-  "sudsed",
-  "sudser",
-  "sudses",
-  "sueded",
-  "suedes",
-  "suffer",
-  "suffix",
-  "sugars",
-  "sugary",
-  "sughed",
-  "suints",
-  "suited",
-  "suiter",
-  "suites",
-  "suitor",
-  "sukkah",
-  "sukkot",
-  "sulcal",
-  "sulcus",
-  "suldan",
-  "sulfas",
-  "sulfid",
-  "sulfur",
-  "sulked",
-  "sulker",
-  "sullen",
-  "sulpha",
-  "sultan",
-  "sultry",
-  "sumach",
-  "sumacs",
-  "summae",
-  "summas",
-  "summed",
-  "summer",
-  "summit",
-  "summon",
-  "sunbow",
-  "sundae",
-  "sunder",
-  "sundew",
-  "sundog",
-  "sundry",
-  "sunken",
-  "sunket",
-  "sunlit",
-  "sunnah",
-  "sunnas",
-  "sunned",
-  "sunset",
-  "suntan",
-  "sunups",
-  "superb",
-  "supers",
-  "supine",
-  "supped",
-  "supper",
-  "supple",
-  "supply",
-  "surahs",
-  "surely",
-  "surest",
-  "surety",
-  "surfed",
-  "surfer",
-  "surged",
-  "surger",
-  "surges",
-  "surimi",
-  "surras",
-  "surrey",
-  "surtax",
-  "survey",
-  "sushis",
-  "suslik",
-  "sussed",
-  "susses",
-  "sutler",
-  "sutras",
-  "suttas",
-  "suttee",
-  "suture",
-  "svaraj",
-  "svelte",
-  "swabby",
-  "swaged",
-  "swager",
-  "swages",
-  "swails",
-  "swains",
-  "swales",
-  "swamis",
-  "swamps",
-  "swampy",
-  "swanks",
-  "swanky",
-  "swaraj",
-  "swards",
-  "swarfs",
-  "swarms",
-  "swarth",
-  "swarty",
-  "swatch",
-  "swathe",
-  "swaths",
-  "swayed",
-  "swayer",
-  "swears",
-  "sweats",
-  "sweaty",
-  "swedes",
-  "sweeny",
-  "sweeps",
-  "sweepy",
-  "sweets",
-  "swells",
-  "swerve",
-  "sweven",
-  "swifts",
-  "swills",
-  "swimmy",
-  "swinge",
-  "swings",
-  "swingy",
-  "swinks",
-  "swiped",
-  "swipes",
-  "swiple",
-  "swirls",
-  "swirly",
-  "swishy",
-  "switch",
-  "swithe",
-  "swived",
-  "swivel",
-  "swives",
-  "swivet",
-  "swoons",
-  "swoops",
-  "swoosh",
-  "swords",
-  "swound",
-  "swouns",
-  "syboes",
-  "sycees",
-  "sylphs",
-  "sylphy",
-  "sylvae",
-  "sylvan",
-  "sylvas",
-  "sylvin",
-  "symbol",
-  "synced",
-  "synchs",
-  "syncom",
-  "syndet",
-  "syndic",
-  "syngas",
-  "synods",
-  "syntax",
-  "synths",
-  "synura",
-  "sypher",
-  "syphon",
-  "syrens",
-  "syrinx",
-  "syrups",
-  "syrupy",
-  "sysops",
-  "system",
-  "syzygy",
-  "tabard",
-  "tabbed",
-  "tabbis",
-  "tabers",
-  "tablas",
-  "tabled",
-  "tables",
-  "tablet",
-  "taboos",
-  "tabors",
-  "tabour",
-  "tabued",
-  "tabuli",
-  "tabuns",
-  "taches",
-  "tacked",
-  "tacker",
-  "tacket",
-  "tackey",
-  "tackle",
-  "tactic",
-  "taenia",
-  "taffia",
-  "tafias",
-  "tagged",
-  "tagger",
-  "tagrag",
-  "tahini",
-  "tahsil",
-  "taigas",
-  "tailed",
-  "tailer",
-  "taille",
-  "tailor",
-  "taints",
-  "taipan",
-  "takahe",
-  "takers",
-  "takeup",
-  "taking",
-  "takins",
-  "talars",
-  "talced",
-  "talcky",
-  "talcum",
-  "talent",
-  "talers",
-  "talion",
-  "talked",
-  "talker",
-  "talkie",
-  "taller",
-  "tallis",
-  "tallit",
-  "tallol",
-  "tallow",
-  "talons",
-  "taluka",
-  "taluks",
-  "tamale",
-  "tamals",
-  "tamari",
-  "tambac",
-  "tambak",
-  "tambur",
-  "tamein",
-  "tamely",
-  "tamers",
-  "tamest",
-  "taming",
-  "tammie",
-  "tampan",
-  "tamped",
-  "tamper",
-  "tampon",
-  "tandem",
-  "tanged",
-  "tangle",
-  "tangly",
-  "tangos",
-  "tanist",
-  "tankas",
-  "tanked",
-  "tanker",
-  "tanned",
-  "tanner",
-  "tannic",
-  "tannin",
-  "tanrec",
-  "tantra",
-  "tanuki",
-  "tapalo",
-  "tapers",
-  "tapeta",
-  "taping",
-  "tapirs",
-  "tapped",
-  "tapper",
-  "tappet",
-  "tarama",
-  "targes",
-  "target",
-  "tariff",
-  "taring",
-  "tarmac",
-  "tarnal",
-  "tarocs",
-  "taroks",
-  "tarots",
-  "tarpan",
-  "tarpon",
-  "tarred",
-  "tarres",
-  "tarsal",
-  "tarsia",
-  "tarsus",
-  "tartan",
-  "tartar",
-  "tarted",
-  "tarter",
-  "tartly",
-  "tarzan",
-  "tasked",
-  "tassel",
-  "tasses",
-  "tasset",
-  "tassie",
-  "tasted",
-  "taster",
-  "tastes",
-  "tatami",
-  "tatars",
-  "taters",
-  "tatted",
-  "tatter",
-  "tattie",
-  "tattle",
-  "tattoo",
-  "taught",
-  "taunts",
-  "taupes",
-  "tauted",
-  "tauten",
-  "tauter",
-  "tautly",
-  "tautog",
-  "tavern",
-  "tawdry",
-  "tawers",
-  "tawing",
-  "tawney",
-  "tawpie",
-  "tawsed",
-  "tawses",
-  "taxeme",
-  "taxers",
-  "taxied",
-  "taxies",
-  "taxing",
-  "taxite",
-  "taxman",
-  "taxmen",
-  "taxons",
-  "tazzas",
-  "teabox",
-  "teacup",
-  "teamed",
-  "teapot",
-  "teapoy",
-  "teared",
-  "tearer",
-  "teased",
-  "teasel",
-  "teaser",
-  "teases",
-  "teated",
-  "teazel",
-  "teazle",
-  "teched",
-  "techie",
-  "tectal",
-  "tectum",
-  "tedded",
-  "tedder",
-  "tedium",
-  "teeing",
-  "teemed",
-  "teemer",
-  "teener",
-  "teensy",
-  "teepee",
-  "teeter",
-  "teethe",
-  "tegmen",
-  "teguas",
-  "teiids",
-  "teinds",
-  "teledu",
-  "telega",
-  "telfer",
-  "telial",
-  "telium",
-  "teller",
-  "tellys",
-  "telome",
-  "telson",
-  "temped",
-  "tempeh",
-  "temper",
-  "temple",
-  "tempos",
-  "tempts",
-  "tenace",
-  "tenail",
-  "tenant",
-  "tended",
-  "tender",
-  "tendon",
-  "tenets",
-  "teniae",
-  "tenias",
-  "tenner",
-  "tennis",
-  "tenons",
-  "tenors",
-  "tenour",
-  "tenpin",
-  "tenrec",
-  "tensed",
-  "tenser",
-  "tenses",
-  "tensor",
-  "tented",
-  "tenter",
-  "tenths",
-  "tentie",
-  "tenues",
-  "tenuis",
-  "tenure",
-  "tenuti",
-  "tenuto",
-  "teopan",
-  "tepals",
-  "tepees",
-  "tepefy",
-  "tephra",
-  "tepoys",
-  "terais",
-  "teraph",
-  "terbia",
-  "terbic",
-  "tercel",
-  "terces",
-  "tercet",
-  "teredo",
-  "terete",
-  "tergal",
-  "tergum",
-  "termed",
-  "termer",
-  "termly",
-  "termor",
-  "ternes",
-  "terrae",
-  "terras",
-  "terret",
-  "territ",
-  "terror",
-  "terser",
-  "teslas",
-  "testae",
-  "tested",
-  "testee",
-  "tester",
-  "testes",
-  "testis",
-  "teston",
-  "tetany",
-  "tetchy",
-  "tether",
-  "tetrad",
-  "tetras",
-  "tetryl",
-  "tetter",
-  "tewing",
-  "thacks",
-  "thairm",
-  "thaler",
-  "thalli",
-  "thanes",
-  "thanks",
-  "tharms",
-  "thatch",
-  "thawed",
-  "thawer",
-  "thecae",
-  "thecal",
-  "thefts",
-  "thegns",
-  "theine",
-  "theins",
-  "theirs",
-  "theism",
-  "theist",
-  "themed",
-  "themes",
-  "thenal",
-  "thenar",
-  "thence",
-  "theory",
-  "theres",
-  "therme",
-  "therms",
-  "theses",
-  "thesis",
-  "thetas",
-  "thetic",
-  "thicks",
-  "thieve",
-  "thighs",
-  "thills",
-  "things",
-  "thinks",
-  "thinly",
-  "thiols",
-  "thiram",
-  "thirds",
-  "thirls",
-  "thirst",
-  "thirty",
-  "tholed",
-  "tholes",
-  "tholoi",
-  "tholos",
-  "thongs",
-  "thorax",
-  "thoria",
-  "thoric",
-  "thorns",
-  "thorny",
-  "thoron",
-  "thorpe",
-  "thorps",
-  "thoued",
-  "though",
-  "thrall",
-  "thrash",
-  "thrave",
-  "thrawn",
-  "thraws",
-  "thread",
-  "threap",
-  "threat",
-  "threep",
-  "threes",
-  "thresh",
-  "thrice",
-  "thrift",
-  "thrill",
-  "thrips",
-  "thrive",
-  "throat",
-  "throbs",
-  "throes",
-  "throne",
-  "throng",
-  "throve",
-  "thrown",
-  "throws",
-  "thrums",
-  "thrush",
-  "thrust",
-  "thujas",
-  "thulia",
-  "thumbs",
-  "thumps",
-  "thunks",
-  "thurls",
-  "thusly",
-  "thuyas",
-  "thwack",
-  "thwart",
-  "thymes",
-  "thymey",
-  "thymic",
-  "thymol",
-  "thymus",
-  "thyrse",
-  "thyrsi",
-  "tiaras",
-  "tibiae",
-  "tibial",
-  "tibias",
-  "ticals",
-  "ticked",
-  "ticker",
-  "ticket",
-  "tickle",
-  "tictac",
-  "tictoc",
-  "tidbit",
-  "tiddly",
-  "tidied",
-  "tidier",
-  "tidies",
-  "tidily",
-  "tiding",
-  "tieing",
-  "tiepin",
-  "tierce",
-  "tiered",
-  "tiffed",
-  "tiffin",
-  "tigers",
-  "tights",
-  "tiglon",
-  "tigons",
-  "tilaks",
-  "tildes",
-  "tilers",
-  "tiling",
-  "tilled",
-  "tiller",
-  "tilted",
-  "tilter",
-  "tilths",
-  "timbal",
-  "timber",
-  "timbre",
-  "timely",
-  "timers",
-  "timing",
-  "tincal",
-  "tincts",
-  "tinder",
-  "tineal",
-  "tineas",
-  "tineid",
-  "tinful",
-  "tinged",
-  "tinges",
-  "tingle",
-  "tingly",
-  "tinier",
-  "tinily",
-  "tining",
-  "tinker",
-  "tinkle",
-  "tinkly",
-  "tinman",
-  "tinmen",
-  "tinned",
-  "tinner",
-  "tinsel",
-  "tinted",
-  "tinter",
-  "tipcat",
-  "tipoff",
-  "tipped",
-  "tipper",
-  "tippet",
-  "tipple",
-  "tiptoe",
-  "tiptop",
-  "tirade",
-  "tiring",
-  "tirled",
-  "tisane",
-  "tissue",
-  "titans",
-  "titbit",
-  "titers",
-  "titfer",
-  "tithed",
-  "tither",
-  "tithes",
-  "titian",
-  "titled",
-  "titles",
-  "titman",
-  "titmen",
-  "titres",
-  "titter",
-  "tittie",
-  "tittle",
-  "tittup",
-  "tmeses",
-  "tmesis",
-  "toasts",
-  "toasty",
-  "tobies",
-  "tocher",
-  "tocsin",
-  "todays",
-  "toddle",
-  "todies",
-  "toecap",
-  "toeing",
-  "toffee",
-  "togaed",
-  "togate",
-  "togged",
-  "toggle",
-  "togues",
-  "toiled",
-  "toiler",
-  "toiles",
-  "toilet",
-  "toited",
-  "tokays",
-  "tokens",
-  "tokers",
-  "toking",
-  "tolane",
-  "tolans",
-  "toledo",
-  "toling",
-  "tolled",
-  "toller",
-  "toluic",
-  "toluid",
-  "toluol",
-  "toluyl",
-  "tolyls",
-  "tomans",
-  "tomato",
-  "tombac",
-  "tombak",
-  "tombal",
-  "tombed",
-  "tomboy",
-  "tomcat",
-  "tomcod",
-  "tommed",
-  "tomtit",
-  "tondos",
-  "toneme",
-  "toners",
-  "tongas",
-  "tonged",
-  "tonger",
-  "tongue",
-  "tonics",
-  "tonier",
-  "toning",
-  "tonish",
-  "tonlet",
-  "tonner",
-  "tonnes",
-  "tonsil",
-  "tooled",
-  "tooler",
-  "tooted",
-  "tooter",
-  "tooths",
-  "toothy",
-  "tootle",
-  "tootsy",
-  "topees",
-  "topers",
-  "topful",
-  "tophes",
-  "tophus",
-  "topics",
-  "toping",
-  "topped",
-  "topper",
-  "topple",
-  "toques",
-  "toquet",
-  "torahs",
-  "torchy",
-  "torero",
-  "tories",
-  "toroid",
-  "torose",
-  "toroth",
-  "torous",
-  "torpid",
-  "torpor",
-  "torque",
-  "torrid",
-  "torses",
-  "torsks",
-  "torsos",
-  "torten",
-  "tortes",
-  "torula",
-  "toshes",
-  "tossed",
-  "tosser",
-  "tosses",
-  "tossup",
-  "totals",
-  "totems",
-  "toters",
-  "tother",
-  "toting",
-  "totted",
-  "totter",
-  "toucan",
-  "touche",
-  "touchy",
-  "toughs",
-  "toughy",
-  "toupee",
-  "toured",
-  "tourer",
-  "toused",
-  "touses",
-  "tousle",
-  "touted",
-  "touter",
-  "touzle",
-  "towage",
-  "toward",
-  "towels",
-  "towers",
-  "towery",
-  "towhee",
-  "towies",
-  "towing",
-  "townee",
-  "townie",
-  "toxics",
-  "toxine",
-  "toxins",
-  "toxoid",
-  "toyers",
-  "toying",
-  "toyish",
-  "toyons",
-  "traced",
-  "tracer",
-  "traces",
-  "tracks",
-  "tracts",
-  "traded",
-  "trader",
-  "trades",
-  "tragic",
-  "tragus",
-  "traiks",
-  "trails",
-  "trains",
-  "traits",
-  "tramel",
-  "tramps",
-  "trance",
-  "tranks",
-  "tranqs",
-  "trapan",
-  "trapes",
-  "trashy",
-  "trauma",
-  "travel",
-  "traves",
-  "trawls",
-  "treads",
-  "treats",
-  "treaty",
-  "treble",
-  "trebly",
-  "treens",
-  "trefah",
-  "tremor",
-  "trench",
-  "trends",
-  "trendy",
-  "trepan",
-  "trepid",
-  "tressy",
-  "trevet",
-  "triacs",
-  "triads",
-  "triage",
-  "trials",
-  "tribal",
-  "tribes",
-  "triced",
-  "trices",
-  "tricks",
-  "tricky",
-  "tricot",
-  "triene",
-  "triens",
-  "triers",
-  "trifid",
-  "trifle",
-  "trigly",
-  "trigon",
-  "trigos",
-  "trijet",
-  "trikes",
-  "trilby",
-  "trills",
-  "trimer",
-  "trimly",
-  "trinal",
-  "trined",
-  "trines",
-  "triode",
-  "triols",
-  "triose",
-  "tripes",
-  "triple",
-  "triply",
-  "tripod",
-  "tripos",
-  "trippy",
-  "triste",
-  "triter",
-  "triton",
-  "triune",
-  "trivet",
-  "trivia",
-  "troaks",
-  "trocar",
-  "troche",
-  "trocks",
-  "trogon",
-  "troika",
-  "troked",
-  "trokes",
-  "trolls",
-  "trolly",
-  "trompe",
-  "tromps",
-  "tronas",
-  "trones",
-  "troops",
-  "tropes",
-  "trophy",
-  "tropic",
-  "tropin",
-  "troths",
-  "trotyl",
-  "trough",
-  "troupe",
-  "trouts",
-  "trouty",
-  "trover",
-  "troves",
-  "trowed",
-  "trowel",
-  "trowth",
-  "truant",
-  "truced",
-  "truces",
-  "trucks",
-  "trudge",
-  "truest",
-  "truffe",
-  "truing",
-  "truism",
-  "trulls",
-  "trumps",
-  "trunks",
-  "trusts",
-  "trusty",
-  "truths",
-  "trying",
-  "tryout",
-  "tryste",
-  "trysts",
-  "tsades",
-  "tsadis",
-  "tsetse",
-  "tsking",
-  "tsktsk",
-  "tsores",
-  "tsoris",
-  "tsuris",
-  "tubate",
-  "tubbed",
-  "tubber",
-  "tubers",
-  "tubful",
-  "tubing",
-  "tubist",
-  "tubule",
-  "tuchun",
-  "tucked",
-  "tucker",
-  "tucket",
-  "tuffet",
-  "tufoli",
-  "tufted",
-  "tufter",
-  "tugged",
-  "tugger",
-  "tugrik",
-  "tuille",
-  "tuladi",
-  "tulips",
-  "tulles",
-  "tumble",
-  "tumefy",
-  "tumors",
-  "tumour",
-  "tumped",
-  "tumuli",
-  "tumult",
-  "tundra",
-  "tuners",
-  "tuneup",
-  "tunica",
-  "tunics",
-  "tuning",
-  "tunned",
-  "tunnel",
-  "tupelo",
-  "tupiks",
-  "tupped",
-  "tuques",
-  "turaco",
-  "turban",
-  "turbid",
-  "turbit",
-  "turbos",
-  "turbot",
-  "tureen",
-  "turfed",
-  "turgid",
-  "turgor",
-  "turkey",
-  "turned",
-  "turner",
-  "turnip",
-  "turnup",
-  "turret",
-  "turtle",
-  "turves",
-  "tusche",
-  "tushed",
-  "tushes",
-  "tushie",
-  "tusked",
-  "tusker",
-  "tussah",
-  "tussal",
-  "tussar",
-  "tusseh",
-  "tusser",
-  "tussis",
-  "tussle",
-  "tussor",
-  "tussur",
-  "tutees",
-  "tutors",
-  "tutted",
-  "tuttis",
-  "tuxedo",
-  "tuyere",
-  "tuyers",
-  "twains",
-  "twangs",
-  "twangy",
-  "twanky",
-  "tweaks",
-  "tweaky",
-  "tweeds",
-  "tweedy",
-  "tweeny",
-  "tweets",
-  "tweeze",
-  "twelve",
-  "twenty",
-  "twerps",
-  "twibil",
-  "twiers",
-  "twiggy",
-  "twilit",
-  "twills",
-  "twined",
-  "twiner",
-  "twines",
-  "twinge",
-  "twirls",
-  "twirly",
-  "twirps",
-  "twists",
-  "twisty",
-  "twitch",
-  "twofer",
-  "twyers",
-  "tycoon",
-  "tymbal",
-  "tympan",
-  "tyning",
-  "typhon",
-  "typhus",
-  "typier",
-  "typify",
-  "typing",
-  "typist",
-  "tyrant",
-  "tyring",
-  "tythed",
-  "tythes",
-  "tzetze",
-  "tzuris",
-  "ubiety",
-  "ubique",
-  "udders",
-  "uglier",
-  "uglies",
-  "uglify",
-  "uglily",
-  "ugsome",
-  "uhlans",
-  "ukases",
-  "ulamas",
-  "ulcers",
-  "ulemas",
-  "ullage",
-  "ulster",
-  "ultima",
-  "ultimo",
-  "ultras",
-  "umbels",
-  "umbers",
-  "umbles",
-  "umbrae",
-  "umbral",
-  "umbras",
-  "umiack",
-  "umiacs",
-  "umiaks",
-  "umiaqs",
-  "umlaut",
-  "umping",
-  "umpire",
-  "unable",
-  "unaged",
-  "unakin",
-  "unarms",
-  "unawed",
-  "unbans",
-  "unbars",
-  "unbear",
-  "unbelt",
-  "unbend",
-  "unbent",
-  "unbind",
-  "unbolt",
-  "unborn",
-  "unbred",
-  "unbusy",
-  "uncage",
-  "uncake",
-  "uncaps",
-  "uncase",
-  "unchic",
-  "unciae",
-  "uncial",
-  "uncini",
-  "unclad",
-  "uncles",
-  "unclip",
-  "unclog",
-  "uncock",
-  "uncoil",
-  "uncool",
-  "uncork",
-  "uncuff",
-  "uncurb",
-  "uncurl",
-  "uncute",
-  "undead",
-  "undies",
-  "undine",
-  "undock",
-  "undoer",
-  "undoes",
-  "undone",
-  "undraw",
-  "undrew",
-  "unduly",
-  "undyed",
-  "unease",
-  "uneasy",
-  "uneven",
-  "unfair",
-  "unfelt",
-  "unfits",
-  "unfixt",
-  "unfold",
-  "unfond",
-  "unfree",
-  "unfurl",
-  "ungird",
-  "ungirt",
-  "unglue",
-  "ungual",
-  "ungues",
-  "unguis",
-  "ungula",
-  "unhair",
-  "unhand",
-  "unhang",
-  "unhats",
-  "unhelm",
-  "unhewn",
-  "unholy",
-  "unhood",
-  "unhook",
-  "unhung",
-  "unhurt",
-  "unhusk",
-  "unific",
-  "unions",
-  "unipod",
-  "unique",
-  "unisex",
-  "unison",
-  "united",
-  "uniter",
-  "unites",
-  "unjust",
-  "unkend",
-  "unkent",
-  "unkept",
-  "unkind",
-  "unkink",
-  "unknit",
-  "unknot",
-  "unlace",
-  "unlade",
-  "unlaid",
-  "unlash",
-  "unlays",
-  "unlead",
-  "unless",
-  "unlike",
-  "unlink",
-  "unlive",
-  "unload",
-  "unlock",
-  "unmade",
-  "unmake",
-  "unmans",
-  "unmask",
-  "unmeet",
-  "unmesh",
-  "unmews",
-  "unmixt",
-  "unmold",
-  "unmoor",
-  "unmown",
-  "unnail",
-  "unopen",
-  "unpack",
-  "unpaid",
-  "unpegs",
-  "unpens",
-  "unpent",
-  "unpick",
-  "unpile",
-  "unpins",
-  "unplug",
-  "unpure",
-  "unread",
-  "unreal",
-  "unreel",
-  "unrent",
-  "unrest",
-  "unrigs",
-  "unripe",
-  "unrips",
-  "unrobe",
-  "unroll",
-  "unroof",
-  "unroot",
-  "unrove",
-  "unruly",
-  "unsafe",
-  "unsaid",
-  "unsawn",
-  "unsays",
-  "unseal",
-  "unseam",
-  "unseat",
-  "unseen",
-  "unsell",
-  "unsent",
-  "unsets",
-  "unsewn",
-  "unsews",
-  "unsexy",
-  "unshed",
-  "unship",
-  "unshod",
-  "unshut",
-  "unsnap",
-  "unsold",
-  "unsown",
-  "unspun",
-  "unstep",
-  "unstop",
-  "unsung",
-  "unsunk",
-  "unsure",
-  "untack",
-  "untame",
-  "untidy",
-  "untied",
-  "unties",
-  "untold",
-  "untorn",
-  "untrim",
-  "untrod",
-  "untrue",
-  "untuck",
-  "untune",
-  "unused",
-  "unveil",
-  "unvext",
-  "unwary",
-  "unwell",
-  "unwept",
-  "unwind",
-  "unwise",
-  "unwish",
-  "unwits",
-  "unworn",
-  "unwove",
-  "unwrap",
-  "unyoke",
-  "unzips",
-  "upases",
-  "upbear",
-  "upbeat",
-  "upbind",
-  "upboil",
-  "upbore",
-  "upbows",
-  "upcast",
-  "upcoil",
-  "upcurl",
-  "updart",
-  "update",
-  "updive",
-  "updove",
-  "upends",
-  "upflow",
-  "upfold",
-  "upgaze",
-  "upgird",
-  "upgirt",
-  "upgrew",
-  "upgrow",
-  "upheap",
-  "upheld",
-  "uphill",
-  "uphold",
-  "uphove",
-  "uphroe",
-  "upkeep",
-  "upland",
-  "upleap",
-  "uplift",
-  "uplink",
-  "upload",
-  "upmost",
-  "uppers",
-  "uppile",
-  "upping",
-  "uppish",
-  "uppity",
-  "upprop",
-  "uprate",
-  "uprear",
-  "uprise",
-  "uproar",
-  "uproot",
-  "uprose",
-  "uprush",
-  "upsend",
-  "upsent",
-  "upsets",
-  "upshot",
-  "upside",
-  "upsoar",
-  "upstep",
-  "upstir",
-  "uptake",
-  "uptear",
-  "uptick",
-  "uptilt",
-  "uptime",
-  "uptore",
-  "uptorn",
-  "uptoss",
-  "uptown",
-  "upturn",
-  "upwaft",
-  "upward",
-  "upwell",
-  "upwind",
-  "uracil",
-  "uraeus",
-  "urania",
-  "uranic",
-  "uranyl",
-  "urares",
-  "uraris",
-  "urases",
-  "urates",
-  "uratic",
-  "urbane",
-  "urbias",
-  "urchin",
-  "urease",
-  "uredia",
-  "uredos",
-  "ureide",
-  "uremia",
-  "uremic",
-  "ureter",
-  "uretic",
-  "urgent",
-  "urgers",
-  "urging",
-  "urials",
-  "urinal",
-  "urines",
-  "uropod",
-  "ursine",
-  "urtext",
-  "uruses",
-  "usable",
-  "usably",
-  "usages",
-  "usance",
-  "useful",
-  "ushers",
-  "usneas",
-  "usques",
-  "usuals",
-  "usurer",
-  "usurps",
-  "uterus",
-  "utmost",
-  "utopia",
-  "utters",
-  "uveous",
-  "uvulae",
-  "uvular",
-  "uvulas",
-  "vacant",
-  "vacate",
-  "vacuum",
-  "vadose",
-  "vagary",
-  "vagile",
-  "vagina",
-  "vagrom",
-  "vaguer",
-  "vahine",
-  "vailed",
-  "vainer",
-  "vainly",
-  "vakeel",
-  "vakils",
-  "valets",
-  "valgus",
-  "valine",
-  "valise",
-  "valkyr",
-  "valley",
-  "valors",
-  "valour",
-  "valses",
-  "valued",
-  "valuer",
-  "values",
-  "valuta",
-  "valval",
-  "valvar",
-  "valved",
-  "valves",
-  "vamose",
-  "vamped",
-  "vamper",
-  "vandal",
-  "vandas",
-  "vanish",
-  "vanity",
-  "vanman",
-  "vanmen",
-  "vanned",
-  "vanner",
-  "vapors",
-  "vapory",
-  "vapour",
-  "varied",
-  "varier",
-  "varies",
-  "varlet",
-  "varnas",
-  "varoom",
-  "varved",
-  "varves",
-  "vassal",
-  "vaster",
-  "vastly",
-  "vatful",
-  "vatted",
-  "vaults",
-  "vaulty",
-  "vaunts",
-  "vaunty",
-  "vaward",
-  "vealed",
-  "vealer",
-  "vector",
-  "veejay",
-  "veenas",
-  "veepee",
-  "veered",
-  "vegans",
-  "vegete",
-  "veggie",
-  "vegies",
-  "veiled",
-  "veiler",
-  "veinal",
-  "veined",
-  "veiner",
-  "velars",
-  "velate",
-  "veldts",
-  "vellum",
-  "veloce",
-  "velour",
-  "velure",
-  "velvet",
-  "vended",
-  "vendee",
-  "vender",
-  "vendor",
-  "vendue",
-  "veneer",
-  "venery",
-  "venged",
-  "venges",
-  "venial",
-  "venine",
-  "venins",
-  "venire",
-  "venoms",
-  "venose",
-  "venous",
-  "vented",
-  "venter",
-  "venues",
-  "venule",
-  "verbal",
-  "verbid",
-  "verdin",
-  "verged",
-  "verger",
-  "verges",
-  "verier",
-  "verify",
-  "verily",
-  "verism",
-  "verist",
-  "verite",
-  "verity",
-  "vermes",
-  "vermin",
-  "vermis",
-  "vernal",
-  "vernix",
-  "versal",
-  "versed",
-  "verser",
-  "verses",
-  "verset",
-  "versos",
-  "verste",
-  "versts",
-  "versus",
-  "vertex",
-  "vertus",
-  "verves",
-  "vervet",
-  "vesica",
-  "vesper",
-  "vespid",
-  "vessel",
-  "vestal",
-  "vestas",
-  "vested",
-  "vestee",
-  "vestry",
-  "vetoed",
-  "vetoer",
-  "vetoes",
-  "vetted",
-  "vexers",
-  "vexils",
-  "vexing",
-  "viable",
-  "viably",
-  "vialed",
-  "viands",
-  "viatic",
-  "viator",
-  "vibist",
-  "vibrio",
-  "vicars",
-  "vicing",
-  "victim",
-  "victor",
-  "vicuna",
-  "videos",
-  "viewed",
-  "viewer",
-  "vigils",
-  "vigors",
-  "vigour",
-  "viking",
-  "vilely",
-  "vilest",
-  "vilify",
-  "villae",
-  "villas",
-  "villus",
-  "vimina",
-  "vinals",
-  "vincas",
-  "vineal",
-  "vinery",
-  "vinier",
-  "vinify",
-  "vining",
-  "vinous",
-  "vinyls",
-  "violas",
-  "violet",
-  "violin",
-  "vipers",
-  "virago",
-  "vireos",
-  "virgas",
-  "virgin",
-  "virile",
-  "virion",
-  "viroid",
-  "virtue",
-  "virtus",
-  "visaed",
-  "visage",
-  "visard",
-  "viscid",
-  "viscus",
-  "viseed",
-  "vising",
-  "vision",
-  "visits",
-  "visive",
-  "visors",
-  "vistas",
-  "visual",
-  "vitals",
-  "vitric",
-  "vittae",
-  "vittle",
-  "vivace",
-  "vivary",
-  "vivers",
-  "vivify",
-  "vixens",
-  "vizard",
-  "vizier",
-  "vizirs",
-  "vizors",
-  "vizsla",
-  "vocals",
-  "vodkas",
-  "vodoun",
-  "voduns",
-  "vogued",
-  "voguer",
-  "vogues",
-  "voiced",
-  "voicer",
-  "voices",
-  "voided",
-  "voider",
-  "voiles",
-  "volant",
-  "volery",
-  "voling",
-  "volley",
-  "volost",
-  "voltes",
-  "volume",
-  "volute",
-  "volvas",
-  "volvox",
-  "vomers",
-  "vomica",
-  "vomito",
-  "vomits",
-  "voodoo",
-  "vortex",
-  "votary",
-  "voters",
-  "voting",
-  "votive",
-  "vowels",
-  "vowers",
-  "vowing",
-  "voyage",
-  "voyeur",
-  "vrooms",
-  "vrouws",
-  "vulgar",
-  "vulgus",
-  "vulvae",
-  "vulval",
-  "vulvar",
-  "vulvas",
-  "wabble",
-  "wabbly",
-  "wackes",
-  "wackos",
-  "wadded",
-  "wadder",
-  "waddie",
-  "waddle",
-  "waddly",
-  "waders",
-  "wadies",
-  "wading",
-  "wadmal",
-  "wadmel",
-  "wadmol",
-  "wadset",
-  "waeful",
-  "wafers",
-  "wafery",
-  "waffed",
-  "waffie",
-  "waffle",
-  "wafted",
-  "wafter",
-  "wagers",
-  "wagged",
-  "wagger",
-  "waggle",
-  "waggly",
-  "waggon",
-  "waging",
-  "wagons",
-  "wahine",
-  "wahoos",
-  "waifed",
-  "wailed",
-  "wailer",
-  "waired",
-  "waists",
-  "waited",
-  "waiter",
-  "waived",
-  "waiver",
-  "waives",
-  "wakens",
-  "wakers",
-  "wakiki",
-  "waking",
-  "walers",
-  "walies",
-  "waling",
-  "walked",
-  "walker",
-  "walkup",
-  "wallah",
-  "wallas",
-  "walled",
-  "wallet",
-  "wallie",
-  "wallop",
-  "wallow",
-  "walnut",
-  "walrus",
-  "wamble",
-  "wambly",
-  "wammus",
-  "wampum",
-  "wampus",
-  "wander",
-  "wandle",
-  "wangan",
-  "wangle",
-  "wangun",
-  "wanier",
-  "waning",
-  "wanion",
-  "wanned",
-  "wanner",
-  "wanted",
-  "wanter",
-  "wanton",
-  "wapiti",
-  "wapped",
-  "warble",
-  "warded",
-  "warden",
-  "warder",
-  "warier",
-  "warily",
-  "waring",
-  "warked",
-  "warmed",
-  "warmer",
-  "warmly",
-  "warmth",
-  "warmup",
-  "warned",
-  "warner",
-  "warped",
-  "warper",
-  "warred",
-  "warren",
-  "warsaw",
-  "warsle",
-  "warted",
-  "wasabi",
-  "washed",
-  "washer",
-  "washes",
-  "washup",
-  "wasted",
-  "waster",
-  "wastes",
-  "wastry",
-  "watape",
-  "wataps",
-  "waters",
-  "watery",
-  "watter",
-  "wattle",
-  "waucht",
-  "waught",
-  "wauked",
-  "wauled",
-  "wavers",
-  "wavery",
-  "waveys",
-  "wavier",
-  "wavies",
-  "wavily",
-  "waving",
-  "wawled",
-  "waxers",
-  "waxier",
-  "waxily",
-  "waxing",
-  "waylay",
-  "weaken",
-  "weaker",
-  "weakly",
-  "wealds",
-  "wealth",
-  "weaned",
-  "weaner",
-  "weapon",
-  "wearer",
-  "weasel",
-  "weason",
-  "weaved",
-  "weaver",
-  "weaves",
-  "webbed",
-  "webers",
-  "webfed",
-  "wechts",
-  "wedded",
-  "wedder",
-  "wedeln",
-  "wedels",
-  "wedged",
-  "wedges",
-  "wedgie",
-  "weeded",
-  "weeder",
-  "weekly",
-  "weened",
-  "weenie",
-  "weensy",
-  "weeper",
-  "weepie",
-  "weeted",
-  "weever",
-  "weevil",
-  "weewee",
-  "weighs",
-  "weight",
-  "weiner",
-  "weirdo",
-  "weirds",
-  "weirdy",
-  "welded",
-  "welder",
-  "weldor",
-  "welkin",
-  "welled",
-  "wellie",
-  "welted",
-  "welter",
-  "wended",
-  "weskit",
-  "wester",
-  "wether",
-  "wetted",
-  "wetter",
-  "whacko",
-  "whacks",
-  "whacky",
-  "whaled",
-  "whaler",
-  "whales",
-  "whammo",
-  "whammy",
-  "whangs",
-  "wharfs",
-  "wharve",
-  "whaups",
-  "wheals",
-  "wheats",
-  "wheels",
-  "wheens",
-  "wheeps",
-  "wheeze",
-  "wheezy",
-  "whelks",
-  "whelky",
-  "whelms",
-  "whelps",
-  "whenas",
-  "whence",
-  "wheres",
-  "wherry",
-  "wherve",
-  "wheyey",
-  "whidah",
-  "whiffs",
-  "whiled",
-  "whiles",
-  "whilom",
-  "whilst",
-  "whimsy",
-  "whined",
-  "whiner",
-  "whines",
-  "whiney",
-  "whinge",
-  "whinny",
-  "whippy",
-  "whirls",
-  "whirly",
-  "whirrs",
-  "whirry",
-  "whisht",
-  "whisks",
-  "whisky",
-  "whists",
-  "whited",
-  "whiten",
-  "whiter",
-  "whites",
-  "whitey",
-  "wholes",
-  "wholly",
-  "whomps",
-  "whomso",
-  "whoofs",
-  "whoops",
-  "whoosh",
-  "whored",
-  "whores",
-  "whorls",
-  "whorts",
-  "whosis",
-  "whumps",
-  "whydah",
-  "wiches",
-  "wicked",
-  "wicker",
-  "wicket",
-  "wicopy",
-  "widder",
-  "widdie",
-  "widdle",
-  "widely",
-  "widens",
-  "widest",
-  "widget",
-  "widish",
-  "widows",
-  "widths",
-  "wields",
-  "wieldy",
-  "wiener",
-  "wienie",
-  "wifely",
-  "wifing",
-  "wigans",
-  "wigeon",
-  "wigged",
-  "wiggle",
-  "wiggly",
-  "wights",
-  "wiglet",
-  "wigwag",
-  "wigwam",
-  "wikiup",
-  "wilder",
-  "wildly",
-  "wilful",
-  "wilier",
-  "wilily",
-  "wiling",
-  "willed",
-  "willer",
-  "willet",
-  "willow",
-  "wilted",
-  "wimble",
-  "wimple",
-  "winced",
-  "wincer",
-  "winces",
-  "wincey",
-  "winded",
-  "winder",
-  "windle",
-  "window",
-  "windup",
-  "winery",
-  "winged",
-  "winger",
-  "winier",
-  "wining",
-  "winish",
-  "winked",
-  "winker",
-  "winkle",
-  "winned",
-  "winner",
-  "winnow",
-  "winoes",
-  "winter",
-  "wintle",
-  "wintry",
-  "winzes",
-  "wipers",
-  "wiping",
-  "wirers",
-  "wirier",
-  "wirily",
-  "wiring",
-  "wisdom",
-  "wisely",
-  "wisent",
-  "wisest",
-  "wished",
-  "wisher",
-  "wishes",
-  "wising",
-  "wisped",
-  "wissed",
-  "wisses",
-  "wisted",
-  "witchy",
-  "withal",
-  "withed",
-  "wither",
-  "withes",
-  "within",
-  "witing",
-  "witney",
-  "witted",
-  "wittol",
-  "wivern",
-  "wivers",
-  "wiving",
-  "wizard",
-  "wizens",
-  "wizzen",
-  "woaded",
-  "woalds",
-  "wobble",
-  "wobbly",
-  "wodges",
-  "woeful",
-  "wolfed",
-  "wolfer",
-  "wolver",
-  "wolves",
-  "womans",
-  "wombat",
-  "wombed",
-  "womera",
-  "wonder",
-  "wonned",
-  "wonner",
-  "wonted",
-  "wonton",
-  "wooded",
-  "wooden",
-  "woodie",
-  "woodsy",
-  "wooers",
-  "woofed",
-  "woofer",
-  "wooing",
-  "wooled",
-  "woolen",
-  "wooler",
-  "woolie",
-  "woolly",
-  "worded",
-  "worked",
-  "worker",
-  "workup",
-  "worlds",
-  "wormed",
-  "wormer",
-  "wormil",
-  "worrit",
-  "worsen",
-  "worser",
-  "worses",
-  "worset",
-  "worsts",
-  "worths",
-  "worthy",
-  "wotted",
-  "wounds",
-  "wovens",
-  "wowing",
-  "wowser",
-  "wracks",
-  "wraith",
-  "wrangs",
-  "wrasse",
-  "wraths",
-  "wrathy",
-  "wreaks",
-  "wreath",
-  "wrecks",
-  "wrench",
-  "wrests",
-  "wretch",
-  "wricks",
-  "wriest",
-  "wright",
-  "wrings",
-  "wrists",
-  "wristy",
-  "writer",
-  "writes",
-  "writhe",
-  "wrongs",
-  "wryest",
-  "wrying",
-  "wursts",
-  "wurzel",
-  "wusses",
-  "wuther",
-  "wyches",
-  "wyling",
-  "wyting",
-  "wyvern",
-  "xebecs",
-  "xenial",
-  "xenias",
-  "xenons",
-  "xylans",
-  "xylems",
-  "xylene",
-  "xyloid",
-  "xylols",
-  "xylose",
-  "xylyls",
-  "xyster",
-  "xystoi",
-  "xystos",
-  "xystus",
-  "yabber",
-  "yachts",
-  "yacked",
-  "yaffed",
-  "yagers",
-  "yahoos",
-  "yairds",
-  "yakked",
-  "yakker",
-  "yamens",
-  "yammer",
-  "yamuns",
-  "yanked",
-  "yanqui",
-  "yantra",
-  "yapock",
-  "yapoks",
-  "yapons",
-  "yapped",
-  "yapper",
-  "yarded",
-  "yarely",
-  "yarest",
-  "yarned",
-  "yarner",
-  "yarrow",
-  "yasmak",
-  "yatter",
-  "yauped",
-  "yauper",
-  "yaupon",
-  "yautia",
-  "yawing",
-  "yawled",
-  "yawned",
-  "yawner",
-  "yawped",
-  "yawper",
-  "yclept",
-  "yeaned",
-  "yearly",
-  "yearns",
-  "yeasts",
-  "yeasty",
-  "yecchs",
-  "yeelin",
-  "yelled",
-  "yeller",
-  "yellow",
-  "yelped",
-  "yelper",
-  "yenned",
-  "yentas",
-  "yentes",
-  "yeoman",
-  "yeomen",
-  "yerbas",
-  "yerked",
-  "yessed",
-  "yesses",
-  "yester",
-  "yeuked",
-  "yields",
-  "yipped",
-  "yippee",
-  "yippie",
-  "yirred",
-  "yirths",
-  "yobbos",
-  "yocked",
-  "yodels",
-  "yodled",
-  "yodler",
-  "yodles",
-  "yogees",
-  "yogini",
-  "yogins",
-  "yogurt",
-  "yoicks",
-  "yokels",
-  "yoking",
-  "yolked",
-  "yonder",
-  "yonker",
-  "youngs",
-  "youpon",
-  "youths",
-  "yowies",
-  "yowing",
-  "yowled",
-  "yowler",
-  "yttria",
-  "yttric",
-  "yuccas",
-  "yucked",
-  "yukked",
-  "yulans",
-  "yupons",
-  "yuppie",
-  "zaddik",
-  "zaffar",
-  "zaffer",
-  "zaffir",
-  "zaffre",
-  "zaftig",
-  "zagged",
-  "zaikai",
-  "zaires",
-  "zamias",
-  "zanana",
-  "zander",
-  "zanier",
-  "zanies",
-  "zanily",
-  "zanzas",
-  "zapped",
-  "zapper",
-  "zareba",
-  "zariba",
-  "zayins",
-  "zazens",
-  "zealot",
-  "zeatin",
-  "zebeck",
-  "zebecs",
-  "zebras",
-  "zechin",
-  "zenana",
-  "zenith",
-  "zephyr",
-  "zeroed",
-  "zeroes",
-  "zeroth",
-  "zested",
-  "zester",
-  "zeugma",
-  "zibeth",
-  "zibets",
-  "zigged",
-  "zigzag",
-  "zillah",
-  "zinced",
-  "zincic",
-  "zincky",
-  "zinebs",
-  "zinged",
-  "zinger",
-  "zinnia",
-  "zipped",
-  "zipper",
-  "zirams",
-  "zircon",
-  "zither",
-  "zizith",
-  "zizzle",
-  "zlotys",
-  "zoaria",
-  "zodiac",
-  "zoecia",
-  "zoftig",
-  "zombie",
-  "zombis",
-  "zonary",
-  "zonate",
-  "zoners",
-  "zoning",
-  "zonked",
-  "zonula",
-  "zonule",
-  "zooids",
-  "zoomed",
-  "zoonal",
-  "zorils",
-  "zoster",
-  "zouave",
-  "zounds",
-  "zoysia",
-  "zydeco",
-  "zygoid",
-  "zygoma",
-  "zygose",
-  "zygote",
-  "zymase",
-];
+export const words =
+  "6|0aahing2rrgh1bacas4us3kas3mps3sed5r5s4ia3ted5r5s4is4or2bacy3ess4ys3ots2duce5t2eles4ia2hors2ided5r5s2ject3ure2late4ut4ze0ablest3ins3oom3ush2mhos2oard3ded5s3hms3lla3mas3ral4ts3und3ves2rade3oad3upt2seil4nt3orb3urd2ulia5c3sed5r5s2volt2watt2ying3sms1cacia0acajou3rid4us2cede4nt4pt4ss3ord4st3rue3use2edia3tal4ic5n4um4yl2hene3ier4ng2idic4ly3nar4ic4us2kees2node2orns2quit2ross2ting5s0action4ve3ors3ual2uate3ity3lei3men3ter5s1dages4io3pts2dend4rs3ict4ng3led5s3uce5t2eems3nyl3pts2here2ieus5x3pic2join3ure4st2mass0admire4ts4xt2nate3exa3oun2obes4os3nis3pts3red5r5s4ns2rift3oit2sorb2ults2vect4nt4rb5t3ice4se2ytum2zuki1ecial4um2dile4ne2neus2onic0aerate3ial4ed5r5s4fy4ly3obe3ugo2ther1feard2fair3ect3ine4rm3lux3ord3ray2ghan2ield2lame3oat2raid3eet4sh3its2ters3osa1gamas4ic3pae5i0agaric3tes3ves2edly3ing4sm5t3ncy4da4es4ts2gers3ies3ros2hast2ings3sms4ts2lare3eam4ts2nail4te3ize2onal4es4ic3rae5s4ot3uti5y0agrafe3eed5s3ias2uish1hchoo2imsa2olds3rse1iders3ful3ing3man4en2glet3ret2kido2ling2mers3ful3ing2olis2rbus3ers4st3ier4ly4ng3man4en3ted4hs0airway2sled5s2vers1jivas2owan2ugas1kelas3nes2imbo1lamos3nds4in4ts4yl3rms4um3ska3ted5s2bata3edo4it3ino4te3ums2cade4ic3ids3ove2ders3ols0aldose3rin2egar3phs3rts3vin3xia5n2faki2gins3oid4rs3ums2ibis4le3dad3ens3ght4ns3ned5r5s3ped3yah5s4os5t2kali4ne3ene3ies4ne0alkoxy3yds4ls4ne2lays3ees4ge4le4ys3ied5s4um3ods4ts4ws4ys3ude4re3yls2mahs3ehs3ner3ond4st3uce4de5s4gs2nico2odia3has3ins0alpaca3has4yl3ine2sike2tars3ers3hea2udel3lae5r3min4na5i2vine2ways1madou3rna3tol3zed5s4on2bage4ri5y3eer4rs5y3its3led5r5s0ambush2ebae5n5s4ic3ers3nds4ts3rce2ices4us3des4ic5n4ol4st3gas4os3nes4ic2mine5o3ono2nion2oeba3les3ral3unt4rs2pere3ler3ule0ampuls2rita2trac2ucks3let3sed5r5s4ia2ylic4um1nabas3dem3lly4og3nke3rch3tto2chor3one2ears3led5s3mia5c3nst3rgy2gary3els4rs3ina3led0angler5s3ora3sts2ilin3mal5s4es4is4us3ons3ses4ic2kled5s5t3ush2lace4ge2nals3eal4xe3oys3ual4li5s2odal4es4ic3int3les3mic0anomie3nym3pia3rak3xia5c2sate3wer2teed3hem5r3iar4ck5s4ng3ler3ral4es4um2ural5n4ia5c3ses2vils2yhow3one3way1orist3tae5l5s0aortic2udad1pache3thy2ercu3xes2hids3tha2iary3cal4es3ece2lite3omb2neal5s4ic3oea2odal3gee3llo4og2pall5s3eal5r4ls4nd3les3ose2rons2test0arabic4le3mid2bors4ur3ute2cade4na5e3hed5r5s4il4ly4on3ing3ked3tic2debs4nt3ors4ur2ecas3nas3ola5e3tes2gala5i5s3ent3ils0argled5s3ols4ns4sy4ts3ued5r5s4fy3yle5l2hats2ider4ly3els3ght3led3ose5i5o3sen5s4ta5o2kose2mada3ers4ts3ful3ies4ng0armlet3ors5y4ur3pit3ure2nica2oids4nt3mas3und4se3ynt2pens5t2rack4nt4ys3ear4st3ive3oba4ws5y4yo2seno3hin3ine5o3ons2tels4ry0artful3ier4ly4st1sanas3rum2cend5t3ots2dics2hcan3ier4ng3lar4er3man4en3ore3ram2ides2kant3ers3ing2lant3eep3ope2pect4ns4rs3ics4re4sh0asrama2sail5s4ys3ent4rt4ss4ts3ign4st4ze3oil4rt3ume4re2tern5s3hma3ony3ral5y3ute2warm3irl3oon2ylum1tabal3man3vic3xia5c2elic0atlatl2mans2olls3mic3nal4ed5r5s4ic3pic2rial4um2tach5k4in4rs3end5t4st3ics4re3orn3une2wain3een2ypic1ubade3urn2cuba2dads3ial4le0auding4os4ts2gend4rs3hts3ite3urs5y4st2klet2lder2ntie4ly2rate3eus3ist3ora4us3ums2spex3ubo2teur3hor3ism3oed3umn2xins1vails3tar3unt2enge0avenue3rse4ts2ians4ry4te3din4ly3ons3sos2ocet3ids3set3uch3wal4ed5r2ulse1waits3ked5n5s3rds2eary3igh4ng2hile4rl2less2mous2ning2oken0axeman4en3nic2illa3oms4ns3sed5s3tes2like2onal4es4ic2seed1zalea2ides3nes2lons2oles3nal4ic3ted5s4hs4ic2ures2ygos0baaing3lim3ses2bble3els0babied5s3kas3ool5n5s3uls2ccae3hed5s3ked5r4up3ons3ula2dass3der4ie3ged5r5s3man4en2ffed4le2gass3els3ful3ged5r4ie3man0bagmen3nio3uet3wig2iled5e5r5y4ie4or3rns3ted5r3zas4es2kers5y3ing2lata3boa3ded5r4ly3een4rs3ing3ked5r3lad4ed5r5t0ballon5t4sy3sam5s2mboo3med2nana3cos3ded5r4it4og3ged5r4le3ian4ng4sh3jax4os3ked5r3ned5r5t3tam4er3yan3zai2obab2rbal0barbed5l5r5s5t4ut3ded5s4ic3ege4ly4st3fed4ly3ged5e5s3hop3ing4te4um3ked5r3ley4ow3man4en4ie3ong5s5y3que0barred5l5n5s5t4io4ow3ter3yes4on4ta5e2salt3ely4st3haw4ed5r5s3ics4fy4ls4ng5s4on3ked5t3que3ses5t4ly4os0basted5r5s2tboy3eau3hed5r5s4os3iks4ng3man4en3ons3ted5n5r4ik4le4ue2ubee4le3lks5y2wbee3dry3led5r3tie2yamo4rd3ing0bayman4en3ous2zaar4rs3oos1eachy4on3ded4le3gle3ked5r3med3ned4ie4os3rds4er3sts3ten5r3uts5y3ver2bops2calm4me4ps3ked5t4on0beclog3ome2damn4ub3bug3ded5r3eck4ll5s4ws3ims3lam3pan3rid4ug3sit3uin4mb2ebee3chy3fed3ped5r3tle3ves3zer2fall3ell3its3lag4ea0befogs4ol4re4ul3ret2gall4ze3ets3gar4ed3ins4rd5t3lad3one3rim3ulf4ms2half4ve3ead4ld4st3ind3old4of4ve4wl2iges3ngs2kiss3not0belady4ud4ys3dam3eap3fry3gas3ied5f5r5s4ke4ve3led5s4ow3ong4ws3ted5r3uga2mata3ean3ire4st4xt3oan4ck3use2name3day4ed0bendee5r4ys3ign3nes5t4is3umb3zal4in4ol4yl2rake4te3eft4ts3ime3lin3mes3tha5s3yls2seem4ts3ide3mut3now3oms4ts3ted4ir4ow0bestud2take3els3hel3ide4me4se3ons5y4ok3ray3tas4ed5r4or2vels3ies3ors2wail4re3eep4pt3igs3orm3rap5y2ylic5k3ond2zant4zz3els0bezils3oar1hakta5i3ngs3ral2oots1ialis4ys3sed5s3xal2bbed5r3les2carb3eps3ker3orn3ron2dden5r3ers4ts3ing2elds2face3fed4in3lex3old4rm0bigamy3eye3ger4ie5n3hts3ots3wig2jous5x2kers3ies4ng5i2lboa5s3ged5s3ked5r3led5r5t4ie4on5w2mahs3bos2nary4te3der4is0bindle3ged5r5s4os3its3ned3ocs2ogas4en3mes3nic4ts3pic4sy3tas4ic5n2pack3eds3ods2rded5r4ie3eme3kie3led5r5s3red3ses3ths0bisect3hop3ons3que3ter4re5o2tchy3ers3ing3ted5n5r2zone3zes1labby3cks3ded5s3ins3med5r5s3nch4ks3red5s3sts5y3wed3zed5r0blazes4on2each4ks4rs5y4ts3bby3eds4ps3nch4de5s4ny2ight3mey4ps3nds4is4ks4tz3tes4he2oats3cks5y3kes3nde5s3ods5y4ey0blooie4ms5y4ps3tch4to5y3use5y3wby4ed5r4sy4up4zy2uely4st5y4ts4ys3ffs3ing4sh3med5s3nge4ts3rbs4ry4ts2ypes1oards0boarts3sts3ted5l5r2bbed5r4in4le3cat2cces4ia5e5s3hes2dega3ice4ed5s4ly4ng3kin2ffin4os2gans3eys3ged4le3ies3les2heas3unk0boiled5r3tes2lder4ly3ero4te5i3ide3led4ix4ox3shy4on3ted5r2mbax4ed5r5s4yx2naci3bon3ded5r4uc3ers3ged4os3ier4ng4ta0bonito3ked3nes5t4ie3sai3zer5s2obed4ie4oo3dle3ger5y4ie3hoo3ing3ked5r4ie3med5r3sts3ted5e4hs4ie3zed5r5s2peep3ped0bopper2rage4ls4ne4te3del5r3eal4en4rs3ide4ng3ons3row3sch4ht3zoi2shes3ker5t3oms5y4ns3que3sed5s3ton3uns2tany3chy3els3fly0bother3tle4om2ubou3cle3ffe3ghs5t4ie3les4le3nce5y4ds4ty3rgs4ne5s4se3sed5s3ton2vids4ne2wels4rs5y3fin3ing3led5g5r0bowman4en3pot3sed5s3wow3yer2xcar3ers3ful3ier4ng2yard5s3ish3las1raced5r5s4hs4ts3ggy3hma3ids4ls4ns5y4se4ze3ked5s3nch0brands5y4ks4ny4ts3shy4il4sy3tty3vas4ed5r5s4os3wer4ls5y4ns5y3yed5r3zas4ed5n5r5s4il2each4ds5y4ks4ms0breast4th3des3ech4ds4ks4ze5y3gma3nts3ves5t3wed5r4is2iard5s5y3bed5e5r5s3cks5y3dal4es4ge4le3efs4rs5y3ght0brills3ned5r5s4gs4ks3ony3sks3tts2oach4ds3che4ks3gan4ue3ils3ken5r3lly3mal4es4ic5d5n4os3nco5s4ze5y3och4ds5y0brooks4ms5y3ses3ths5y3wed4ns5y4se2ucin3ghs3ins4se4ts3lot3mal4by4es3nch4et4ts3shy3tal4ed5s2yony1ubale5s3ble5y3oed0buboes2ccal3ked5r5t4le4ra2dded5r4le3ged5r5s5t4ie2ffed5r5t4os2geye3ged5r3led5r5s3sha2ilds2lbar4ed5l4il4ul0bulged5r5s4ur3ked3lae4ed5t2mble3kin3med5r3ped5r4hs2nchy4os3dle4ts3ged5e4le3ion3ked5r4os4um3ted5r3yas2oyed2ppie0buqsha2rans3ble5y4ot3den4ie3eau4ts3gee5r4hs4le4oo3ial4ed5r5s4ns3ked5r5s3lap4ed5r5y3ned5r5t4ie3ped3red0burrer4os5w3sae5l5r5s4es4ts3ton2sbar4oy3hed5l5r5s4wa3ied5r5s4ly4ng3ked5r4in3man4en3sed5s3ted5r4ic0bustle2tane3ene4os3led5r5s3ted5r5s4on3uts3yls2yers3ing3out2zuki3zed5r5s1wanas1yelaw2gone2laws3ine2name2pass5t4th3lay2rled3nie0byroad2ssus2talk2ways3ord5k2zant0cabala5s4na3bed4ie3ers3ins3led5s5t3man4en3obs2caos3hed5s5t4ou3kle3tus2ddie5s3ent4ts3ged0cadger5s3mic3res2ecal4um3oma3sar2ftan2gers3ier4ly4ng2hier3oot4ws2iman3que3rds4ns5y2jole2kier4ng2lami4sh3car4es4ic3esa3ico4fs0caliph3ked5r4in3lan5s4ed5r5t4ow4us3med5r4ly3ory3pac3que3ved5s3xes2mail4ss3ber4ia3els4os4ra3ion4sa5e3let3ped0camper4os4us2nals4pe4rd5y3can4el5r4ha3did4le4or3ers3ful3gue3ids4ne5g3ker3nas4ed5l5r4ie4on5t3oed5s4la4ns0canopy3sos3ted5r4hi4ic4le4on5r5s4us3ula3vas3yon2pers3ful3ias4ta3let4in3ons4te3ped5r3ric5s3sid3tan4or2rack4fe4te0carats3bon5s5y3cel3ded5r4ia3een5r4rs4ss4ts3ful3gos3hop3ibe4ed5s4na5g3ked3les4in3man4en3nal4et5y4ie3obs4ch0caroli5s4ms3pal4ed5l5r5t4us3rel4om5t3ses3ted5l5r5s4on5p3ved5l5n5r5s2saba4va3bah3efy4ic5n4rn3haw0cashed5s5w4oo3ing5i5o4ta3ked5t3que3sia5s3ter5s4le4or3ual2talo3chy3ena4rs3gut3ion3kin3lin3nap4ip3sup3ted4ie4le0caucus3dad5l4ex4le3ght3lds4es4is4ks3sal4ed5r5s5y2veat4rn5s3iar4es4ls4ng4ty3ort2wing2yman3use1eased5s2bids3oid2darn0cedars3ers3ing3ula2ibas3led5r2lebs4ry3iac3lae5r4ed4os3oms2ment2note3sed5r5s4or4us3tal4er4os4ra5e4um2orls2rate3cis4us0cereal4us3ias4ng4ph4se4te4um3met3ous3tes3use3vid5x2sium3sed5s3tas4oi5s4us3ura2tane1habuk3cma3dar4or4ri3eta3fed5r5s0chaffs5y3ine5s4rs4se3kra3lah4eh5t4ks5y4la5y4ot3mmy4ps5y3nce5y4ge5s4ts5y3pel5s3ras4ds4ed5s4ge4ka0charks4ms4ro5s5y4ts3sed5r5s4ms5y4se4te3tty3unt3wed5r3zan2eapo5s4ts3bec3cks3der3eks5y4ps4ro5s5y4se5y0chegoe3lae5s3mic4os3que3rry4ts5y4ub3sts5y3tah4hs3vre3wed5r2iasm4us3cer4hi4ks4le5y4os3ded5r5s3efs4ld5s3goe0childe4es4li5s5y3mar4bs4ed5r5s4la4ps3nas4ch4ed5s4ks5y4os4ts5z3ppy3ral4ks4ms4os4ps5y4re5s3sel3tal0chitin4on4ty3ves4vy2oana3cks3ice4rs3ked5r5s5y3ler4la4os3mps3oks4se5y3pin4py3ral4ds4ea5d5s4ic4us3sen5s3tts0chough4se5h3wed4se2rism3oma5e5o2ubby3cks5y3fas4fs5y3kar4ka3mmy4ps3nks5y3rch4ls4ns4rs3ted5s2yles3mes4ic1ibols2cada0cicala5e3ely4ro2ders2gars2lice4um2nder3ema4ol3que2pher2rcle4us3que3rus2scos3tus2ters3her3ied5s4fy4ng3ola5e3ral4ic5n4on4us0civets3ics4es4sm1lachs4ks3des3ims3mmy4or4ps3ngs4ks3que3ret4os3sps5t4sy4ts3use3ver5s4us3wed5r3xon3yed5y2eans4rs4ts0cleave3eks3fts3nch3ome3ped5s3rgy4ic5d4ks3ver4is3wed2iche4ks3ent3ffs5y4ts3max4bs4es3nal4ch4es4gs5y4ic4ks3que5y0clitic3via2oaca4ks3che4ks3ddy3ggy3mps3nal4ed5r5s4ic4ks4us3ots3que3sed5r5s5t3the5s4ty3uds5y4gh4rs4ts3ven5r0cloves3wns3yed3zes2ubby3cks3ing3mps5y4sy3nks5y3tch2ypei1oacts3las4ed5r3pts3rse3sts3ted5e5r4is3xal4ed5r5s2balt3ber4le0cobias3les3nut3ras3web2cain3cal4ic5d4us4yx3hin3ked5r4le4up3oas4on2dded5r4le3ecs4ia5n4ns4rs3ger3ify4ng3lin3ons2edit0coelom3mpt3rce3val2ffee5r4in4le2gent3ged3ito3nac3ons3way2head4ir4re3ogs4rt4sh5t3une2ifed4fe3gne5s3led5r3ned5r3tal4us0cojoin2king2lder4ly3ead4us3ics4es4ns3lar4et4ie4op3obi4gs4ne5i5s5y4rs4ur3ter3ugo4mn4re3zas2made4ke4te3bat4ed5r0combes4os3edo5y4ly4rs4th5s3fit3ics4ng4ty3mas4ie5t5x4on3ose4us3ped5l4ly4os4ts3tes2ncha5s5y4ur3dom5r5s0coneys3fab4er4it3gas4ee5r5s4ii4os5u3ics4es4ne5g5s4um3ked5r3ned5r3oid3sol4ul3tes4os4ra3vex5y4oy2ocoo3eed0cooees4rs4ys3ing3ked5r5y4ie3led5r4ie4ly4th3mbe5s3ped5r4ts3ter4ie2palm5s3eck4ns4rs3ied5r5s4ng3lot3ped5r0coppra3rah5s3ses3ter3ula2quet2rals3ban4el4ie3ded5r4on3ers3gis3ing4um3ked5r3mel3nea5d5l5r5t4ua5s3ody4na3pse4us0corral4ie3sac4es5t3tex4in3vee5s5t3ymb4za2secs4ts4ys3hed5r5s3ied5r5s4gn4ly4ne3mic4os3set3tae5l5r4ed5r0costly2tans3eau3ing3tae5r5s4er4on3ype2ugar4hs3lee4is3nts5y3ped5s4le4on3rse4ts3sin3ter4hs2vens4rs5t4ts4ys3ing5s0cowage4rd3boy3ers3ier4ng3led3man4en3pat4ea4ie4ox3rie2xing2ydog3est3ing4sh3ote3pou4us2zens4ys3ied5r5s4ly3zes1raals3bby3cks0cracky3dle3fts5y3ggy3kes3mbe5o4ps3nch4ed5s4ia4ks5y4ny3ped5s4py3ses4is3tch4ed5r5s4on3vat4ed5n5r5s3wls0crawly3yon3zed5s2eaks5y4ms5y4se5y4te3che3dal4it4os3eds4ks4ls4ps5y4se5h3mes3nel3ole3ped5s5y4on3sol4ts4yl0cretic5n3wed5l2icks3ers3key3mes4ps5y3nge4um3pes3ses4ic5s4ps5y4sa4ta3tic2oaks5y3cks4us3fts3jik3nes3oks4ns3res3sse0crotch4on3uch4pe5s5y4se3wds5y4ed5r4ns3zer5s2uces4ks3ddy4er5s3ets3ise3mbs5y4my4ps3nch3ors3ral3ses5t4ts5y0crutch3xes2wths2ying3pto5s1ubage3ebs4rs3ics4ng4sm5t4ts3oid2ckoo2ddie4le5y3gel2eing3sta2ffed2isse2lets3lay4ed5r5t4is3med3pae0cultch4ic4us3ver2mber3ins3mer4in3uli2ndum3eal3ner2pels3ful3ids3ola3pas4ed5r3ric4um3ula5e2racy4gh4ra5e5i4te3bed5r3ded0curdle3ers4ts3few3iae5l4es4ng4os4te4um3led5r5w3ran4ed4ie3sed5r5s4or3tal4er4ly4sy3ule3ved5s5t5y2scus3ecs0cushat5w3ped4id5s3sed5r5s4os3tom5s2tely4st5y4ys3ies4ns3las4er5t3off4ut3ter4le3ups1yanic5d5n2borg2cads3led5r0cycles4ic4os2ders2eses4is2gnet2mars3bal3ene3lin3oid4ls4se4us2nics2pher3res4us2stic2tons0dabbed5r4le2chas3ker3oit3tyl2ddle3oed5s2edal0daemon2ffed3ter4ly2ggas4er4le3oba4es2hlia3oon2iker4on3men4io4on4yo3nty3ses2koit2lasi3edh4th3les3ton2mage4ns4rs4sk3mar4ed5r0damned5r3ped5n5r4ly3sel4on2nced5r5s3der4le3ged5r4le3ios4sh3ker4ly2phne3ped5r4le2rers3ics4ng3ked5n5r5y4ie0darkle5y3ned5l5r3ted5r4le2shed5r5s4is3sie2tary3cha3ers3ing4ve3tos3ums4ra2ubed5r5s4ry3nts3ted4ie2vens3ies4ts2wdle0dawing3ned3ted4ie2ybed3fly3lit2zing3zle1eacon3den5r4ly3fen5r4ly3irs3ler3ned3rer4ie4ly4th3sil3ths5y3ved5s2bark5s4se4te0debeak3its3one3ris3tor3ugs4nk4ts3yes2cade4fs4ls4mp4ne5t4re4ys3eit4nt4rn3ide4le3ked5l5r4le3law3oct4de4rs4ys3ree0decury2dans3uce5t2eded3jay3med3pen5r4ly3wan2face4me4ng4ts3eat4ct4nd4rs3ied5r5s4le4ne3lea3oam4gs4rm3ray3ter4ly3und0defuse4ze2gage4me5i3erm3ree3ums4st2horn5t2iced5r5s3fic3gns3sms4ts3xis2ject2kare3ing3kos2late4ys3ead4te3fts3ict4me4st3tas0deltic3ude4ge4xe3ved5r5s2mand4rk4st3ean4nt3ies4se4ts3obs4de4ns4te3ure5s2nary3gue3ial4ed5r5s4ms3ned3ote3ser3tal0dented4il5n3ude2odar2part3end4rm3ict3loy3one4rt4se4ts3ths3ute5y2rail4te5s4ys3ide4ve3mal5s4ic5s3ris2salt4nd3cry3ert0design4re4st3man4id3orb4xy3pot2tach4il5n3ect4nt4rs4st3ick3our2uced5s2vein4ls4st3ice4ls4se3oid5r4ns4te4ur5t2wans0dewars3ier4ly4ng3lap3ool4rm2xies3ter4ro2zinc1harma4na2obis3les3oly4ra4ti3tis2urna3tis1iacid3dem3led5r4og3min3per4ir3tom3zin2bbed0dibber4le4uk2cast3ers3ier4ng3ked5r5y4ie3ots3tum2dact3dle5y3ies3oes2eing3nes3sel5s4is3ted5r2ffer2gamy3est3ged5r3hts3its0diglot2kdik3ers3ing3tat2late3doe5s3led3ute2mers3ity3med5r3out3ple5y3wit2nars3dle3ero5s3ged5r5s5y4hy4le4us3ing3ked5y0dinkly4um3ned5r3ted2obol3des3ecy3xan4id5n2plex4oe3net3ody4le3ped5r3sas4os2quat2rdum3ect4ly4st3ges3ham3ked3led3ndl2sarm3bar0disbud3ced4os4us3hed5s3ked3mal5y4es3own3pel3sed5s3tal4il3use2ther3tos3zes2uron2vans3ers5t4st3ide4ne5g3ots2wans2xits2zens0djebel2inni5s5y1oable3ted2bber4in3ies3las4on3ras3son2cent3ile3ked5r5t3tor2dder3ged5m5r5s3oes2ffed5r2gdom3ear4ys3ged5r0doggie3ies3leg3mas3nap2iled3ngs3ted2ling3lar4ed4op3man5s4en3ors4ur2main3ine5g5o2nate3ees3gas3jon3key3nas4ed5e3ors3sie3uts0donzel2odad4le3fus3lee4ie3med3zer4ie2pant3ers3ier4ng2rado3bug3ies3mer4ie5n3per3sad5l4el5r4um2sage3ers3ing3sal4ed5l5r0dosses4il2tage4rd3ers3ier4ng3ted5l5r4le2uble5y4ts3che3ghs5t5y3mas3rah5s4er4ly3sed5r5s2vens3ish2wels4rs5y3ing0downed5r3sed5r5s2xies2yens3ley2zens4rs3ier4ly4ng1rably3chm3ffs5y4ts5y3gee4gy4on3ils4ns3kes3mas3ped5r5s5y3wee5r0drawls5y3yed2eads4ms5t5y4rs5y3cks5y3dge3ggy3ich4dl4gh3nch3ssy2iegh4rs4st3fts5y3lls3nks3ppy3vel5n5r5s2ogue3its0drolls5y3mon3ned5r5s4go3ols4ps5y3psy3sky4sy3uks4th3ved5r5s3wnd5s4se5y2udge3ggy3ids3mly3nks3pes3ses2yads3ers4st0drying4sh3lot1ually2bbed5r4in2cats3ked5r4ie3tal4ed2ddie3een3ing4sh2eled5r4li5o3nde4na2ffel5r4le2gong4ut2iker2king2lcet3ias0dulled5r3ses2mbed5r4ly3dum3ped5r2nams3ces3ged3ite3ked5r3lin3ned5r3ted2olog3mos2pers5y3ing3lex3ped2rbar3ess3ian4ng4on3ned0durocs3ras4ie3ums2sked3ted5r4up2ties2vets1warfs2eebs3lls2ined5s1yable3dic2bbuk2eing2ings2king2namo4st3ein4ls3ode2vour0eagers3les5t3res2rful0earing3lap3ned5r3ths5y3wax4ig2sels3ier5s4ly4ng3ter2ters5y3ing1bbets3ing1carte2esis2hard3ing5i3oed5r5s5y4ic2lair4ts2type0eczema1ddied5s3oes2emas3nic2gers3ier4ly4ng2ible3cts3les3ted4or2uced5s4ts1elier2rier4ly1fface3ect4te3igy3lux3ort3use1gesta5s2gars3cup0eggers3ing3nog2ises2oism5t2ress4ts1iders3ola2ghth5s5y2kons2ther1jecta5s1kuele1lains3nds3pid4se3ted5r5s2bows2ders4st2ects3git3mis3ven0elevon2fins4sh2icit3ded5s3nts3tes3xir2mier2odea3ign4ns3ped5r5s2uant4te3ded5r5s3ent3ted5s3via2vers3ish2ytra1mbalm4nk4rk5s0embays3eds4rs3lem3ody4li5y4sk5s4ws3rue4yo2ceed5s2eers3nds3rge4od3ses4is3tic5n3ute2igre2mers4ts2odin3ted5r5s2pale3ery0empire3loy2ydes1nable3cts3mel4or3tes4ic2cage4mp4se5h3ina3ode4re3yst2dear4rs3ing4te4ve3ows3rin3ued5s4re5o2emas3rgy2face3old0engage3ild4ne4rd5t3lut3ram3ulf2halo2igma3sle2join4ys2lace3ist2mesh3ity2nead3uis4ye2okis3lic3sis3ugh2rage4pt3ich3obe4ll5s4ot2serf0ensign4le3oul3ued5s4re2tail3era5s3ice4re4ty3oil4mb3rap4ee2ured5s2vied5r5s3ois4ys2wind3omb3rap2zyme5s1olian4th2nian4sm0eosine5s1pacts3rch2hahs3ebe5i3ods4ri5s2ical3gon3log3mer3zoa2ochs3des3nym3pee3ses1quals4te3ids4ne4ps4ty1rased5r5s2bium2ects3now0ergate3ots2icas3ngo2mine2oded5s3ses3tic2rand5t4ta3ing3ors2satz2ucts3gos3pts2vils2yngo1scape4rp5s3har4ew3ort4ts3row3udo2kars3ers2pial0espied5s3rit2says3oin2tate3eem4rs3ops3ral5y4in4um5s1talon3min3pes2ched5r5s2erne2hane3ene4rs3ics4on3nic4os3oxy3yls4ne2oile0etudes2wees2ymon1uchre2logy2nuch2pnea2reka3ipi3oky2taxy1vaded5r5s2ened5r4ly4ts3rts2icts3ler4ly3nce3ted5s2oked5r5s3lve2zone1xacta5s0exalts3men3rch2ceed4ls4pt4ss3ide4se4te3use2edra3mpt3quy3rts3unt2hale3ort3ume2iled5s4ic3nes3sts3ted2odoi5s4us3gen3nic3tic2pand0expats3ect4ls4nd4rt3ire5y3ort4se2sect4rt2tant3end5t4rn3oll5s4rt3ras2uded5s3lts3rbs3via1yases2ebar3cup3ful3ing3let4id2ries0fabled5r5s3ric2cade3ers4te5s4up3ial5s4es4le4ng3tor3ula2ders3ged5s3ing2ecal4es3nas3rie2gged4ot3ins3ots2iled4le3ner4ts0faired5r4ly3ths2jita2keer4rs5y3ing4rs2lces4on3lal4en5r4ow3ser4ie3ter2mily4ne5g4sh3ous3uli2ndom3ega3gas4ed3ion3jet3ned0fanner3ons3tod5m3ums2qirs3uir2rads3ced5r5s4ie3ded5l3ers3fal4el3ina5g3les3med5r3row3ted2sces4ia3hed5s3ted5n5r2ther0fathom3ing3sos3ted5n5r3was2ucal4es5t3lds4ts5y3nae5l5s3ves2vela3ism3ors4ur2wned5r2xing2ying2zing1ealty3red5r3sed5s4ts0feater4ly3zed5s2cial3kly3ula4nd2dora2eble5y3der3ing3ler3zed5s2igns3joa3nts3rie3sts5y2lids4ne3lah5s4ed5r4oe5w3ons5y0felted2male3mes3ora3urs2nced5r5s3ded5r3nec5l2offs2rbam3iae5l5s4ne4ty3lie3mis3rel5t4ic4um3ula5e3vid4or2scue3sed5s0festal4er2tial4ch4ng4sh3ors3ted5r4le2uars3dal4ed3ing2vers2west2yest2zzed5s1iacre3nce3sco2bbed5r3ers3res4il5n3ula2ches4us3ins0fickle5y3oes2ddle5y3ged5s5t2elds3nds3rce3sta2fers3ing3ths2gged3hts3ure2lers4ts3ial4ng3led5r5s5t4ip4os3med5r4ic3ose0filter4hs5y2mble2nale5s3der3ely4ry4st3ger3ial4ng4sh4te3ked3ned2ords2pple2ques2rers3ing3kin3man4ed5r4ly3sts3ths2scal3hed5r0fishes3ted4ic2tchy3ful3ted5r2vers2xate3ers3ing4ty3ure2zgig3zed5r5s4le1jelds2ords1labby3cks4on3ggy4on3ils4rs3ked5r5s5y3mbe0flamed5n5r5s3nes4ge4ks3ppy3red5s3shy4ks3tly4us3unt3vin4or3wed3xen5s3yed5r2eams3che4ks5y3dge5y3ece5h5y4rs0fleets3nch4se3shy3tch3ury3xed5s4or3yed2icks3ers4st3ght3msy3nch4gs4ts5y3ppy3rts5y3tch4ed5s2oats5y3cci4ks5y3ngs3ods0flooey4ie4rs4sy4zy3ppy3rae5l5s4et4id5n3ssy3tas3urs5y4ts3wed5r2uent3ffs5y3ids3ked5s5y3med5s4ps3nks5y3ors0flurry3ted5r5s5y3xed5s3yts2yboy4ys3ers3ing3man4en3off3sch3ted5s3way1oaled3med5r2bbed2dder3gel2ehns3man4en3tal4id4or4us0fogbow3dog3eys3ged5r3ies2ible3led3ned3son4ts2late3ded5r3iar4os4um3kie4sy3les4is4ow2ment3ite2nded5r4le5y4ue5s3tal2odie0fooled3ted5r4ie4le4sy3zle2pped2rage4ms4ys3bad4id4ye3ced5r5s3ded4id3eby4do4go4st3gat4ed5r5s5t4ot3int3ked5r0formal5t4ed5e5r5s4ic4ol4yl3nix3rit3tes4is3ums3why2ssae5s4es4il3ter2ught3led5r4ly3nds4ts3rth2veae5l5s2wled5r0foxier4ly4ng2yers2zier1racas4ti3ena3ils4se3med5r5s3ncs4ks3ppe3ter3uds3yed3zil2eaks5y3ely4rs4st4ze3nch4um4zy3res3sco3tty0friars5y3dge3end4rs4ze3ght4id3jol3lls5y3nge5y3ses4ks5y3ths4ts3vol3zed5r5s4zy2ocks3ggy3lic3nds4ts3sts5y3ths5y0frouzy3wns4st5y4zy3zen2ugal3its5y3mps5y3sta2yers3ing3pan1ubbed2cked5r4up3oid4se4us2ddle3ged5s2eled5r2gato3ged3ios3led5s0fugued5s2hrer2lcra3fil3gid3ham3lam4ed5r3mar2mble3ers4ts3ier4ng3uli2nded4ic4us3est3gal4ic4us3ked5r4ia3ned5l5r2rane5s0furfur3ies3led5r3ore5s3red4ow3zes2sain3ees4ls3ile5s4ng4on3sed5r5s3tic2tile3ons3ure3zed5s2zees3ils4ng3zed5s1ylfot2ttes0gabbed5r4le4ro3ies4on3led5s3oon2dded5r4is3fly3get3ids3oid2eing2ffed5r5s2gaku3ers3ged5r4le3ing3man4en2iety3jin3ned5r0gainly4st3ted5r2lago4hs4xy3eae5s4na4re3iot3led5t5y4ic4on5p4us3oot4ps4re4sh3yac5k2mays3bas4es4ia5r5t4le0gambol3ely4rs4st4te3ier4ly4ne5g5s3mas4ed5r4on3uts2nder3efs4vs3ged5r4ly4ue3jah5s3net3ofs4id3try2oled5r2pers3ing0gapped2rage3bed4le3con3den3get4le3ish3lic3ner5t3ote3red5t4on3ter4hs3vey2sbag3con3hed5r5s3ify3ket4in3lit3man4en3ped5r0gassed5r5s3ted5r2teau3her3ing3ors2uche5o3ged5r5s3lts3med3zes2vage3els3ial3ots2wked5r3ped5r3sie2yals3est4ty2zabo4rs3ebo0gazers3ing3ump1eared2cked4os2egaw3ing3sts3zer2isha2lada4nt4te5i5o3ded5r3ees3led2mmae4ed3ote5s2nder3era4ts4va3ial4es4ps4us0genoas4me5s3res4os3tes4il4le5y4oo4ry2odes4ic3ids2rahs3bil3ent3man4en3und2stes4ic2tter3ups2wgaw2yser1harri5y3uts3zis2erao3tto0ghibli2osts5y3uls2ylls1iants3our2bbed5r5t4on3ers3ing3let3son2ddap2eing2fted2gged4le5y3let4ot3olo4ts3ues2lded5r3led5r4ie2mbal0gimels3let3mal4es4ie3ped2ngal4er4ko3kgo3ned5r2pons3ped5r2rded5r4le3lie3ned3ons3ted4hs2smos2tano3tin2vens4rs3ing2zmos1laces4is0glades4ly3ire5s5y4ve3mor3nce4ds3red5s3ssy3zed5r5s2eams5y4ns3bae4es3des3eds4ks4ts5y3gly3yed2ibly3ded5r5s3ffs0glimed5s3nts3oma3tch4zy2oams4ts3bal4by4ed5s4in3ggs3mus3oms5y3ppy3ria3ssa5y4ts3uts3ved5r5s3wed5r3zed5s2ucan3ers0gluier4ly4ng3mes4ly4py3nch3ons3tei5n2ycan4in4ol4yl3phs1narls5y4rs3tty3wed5r2eiss2omes4ic4on3ses4is1oaded3led4ie3nna3tee0gobang5s3bed5t4le3ies3let4in3oes4ny2ddam4ed3ets3own3son3wit2fers3fer2ggle5y3let2ings3ter4re2lden5r3ems3fed5r3osh2mbos3uti0gonads3efs4rs3ged3iff5s4on4um3ofs4ph2ober3dby4ie4ly3fed3gly4ol3ier3ney4ie3ral3sed5s5y2pher2rals3ged5r5s5t4on3hen0gorier4ly4ng3ses2spel3san4ip2thic3ten2uged5r5s3rde5s2vern2wans5y3ned2yish1raals3bby4en3ced5s3ded5r5s4in4us3fts3ham3ils0grains5y3mas4me4ps3nds4ge4ny4ts4um3pes5y4hs4pa3sps4sy3ted5r5s4in5s3ved5l5n5r5s4id3yed5r4ly3zed5r0grazes2ease5y4ts4ve3bes3eds5y4ns5y4ts3gos3ige3mmy3yed5r4ly2ided5s3efs4ve3ffe5s4ts3gri3lle5s4se3med5s4ly3nch0grinds4go3ots3ped5r5s5y4pe5y3sly4on4ts3ths4ty3vet2oans4ts3cer3ggy3ins3oms4ve5y3ped5r5s3sze5y3tto5y3uch4nd0groups4se4ts5y3ved5l5s3wer4ls5y4th3yne2ubby3dge3els3ffs5y3gru3mes4ps5y3nge5y4ts3tch1uacos3iac3nay4in4os3rds3vas0guenon3sts2ffaw2ggle3let2ided5r5s4on3lds4ed5s4ts5y3mpe3nea3ros3sed5s3tar2lags3den3fed3led5t5y3ped5r2mbos3mas4ed5r0gundog3ite3man4en3ned5l5n5r3sel2rged5s4le3net5y2shed5r5s3set4ie3ted2ttae4ed5r4le2ying3ots2zzle1weduc1ybing2pped5r3sum0gyrase4te3ene3ing3ons4se2ving0habile4ts3oob2ceks3ked5e5r4ie4le5y2ding4th3jee5s4is3ron2eing3mal4ic5n3res2ffet4it3ted5r0hagbut3don3ged4is4le2iled5r3rdo4ed2jjes4is2keem3ims2lala3ers5u4st3ide5s4ng4te3lah4el4oa5o5s5t5w4ux3mas3oed5s0haloid3ted5r3utz3vah5s4ed5s2mada4ls4te4ul3let3mal4ed5r3per3uli3zah5s2nces3ded4le3gar4ed5r4ul5p3iwa3ked5r4ie0hansas4el5s4om3ted4le2oles2pped5n3ten4ic2rass3bor3den5r4ly3eem4ms3ing3ked5n3lot3med5r4in3ped5r4in3row3tal2shed5s0haslet3ped3sel4le3ted5n5s2tbox3ers3ful3ing3pin3red3ted5r2ughs3led5r4ms5y3nch4ts3sen2vens4rs3ing4or3ocs2wing3ked5r5y0hawkie3ser5s2yers3ing3mow2zans4rd3els4rs3ier4ly4ng3zan1eaded5r3led5r4th3ped3rer4se4th5s5y3ted5r4hs5y3ume3ved5n0heaver5s2ckle3tic4or2ddle3ers3ged5r5s2eded5r3haw3led5r3zed5s2fted5r2gari3ira2ifer3ght3led3nie3red3shi4ts2jira2liac4os4um0helled5r4os3med5t3ots3ped5r3ved5s2mins3med5r3oid3pen4ie2nbit3nas3rys3ted2pcat3tad2rald3bal4ed3ded5r4ic3eat4by4in4of0hereon4sy4to3iot3mae5i4it3nia3oes4ic5n4ns3pes2tero3man2uchs3ghs2wers3ing2xade5s4ne3ers3ing3one4se3yls2yday4ey1iatal4us2ccup0hickey2dden3ers3ing2eing3mal2ggle3her4ly4th5s2jack2kers3ing2lled5r4oa5s3ted2nder3ged5r5s3ted5r2pped5r4ie4os2rers3ing3ple0hirsel4le2spid3sed5r5s3ted2ther3ter2ving1oagie3rds4se3xed5r5s2bbed4it4le3nob3oed5s2cked5r5y2dads3den4in2eing2gans3ged5r0hogget3nut3tie2icks3den3sed5s4ts2kier4ly4ng3ums2lard3den5r4up3ier5s4ly4ng4sm5t3ked3las4er4oa5o5s5w3mic3pen2mage0hombre3ely4rs3ier4ly4ng5y3mos2nans3cho3das4le3ers4st4ys3ied4ng3ked5r5y4ie3ors4ur2oded4ie4oo3eys3fed5r3kah5s4ed0hooker5y4up3lie3ped5r4la4oe5o3rah5y3tch4ed5r3ved5s2pers3ing3ped5r4le2rahs4ry3ded5s3ned5t3rid4or3sed5s5y0horste5s2sels3ier4ng3tas4ed5l4ly2tbed4ox3dog3els3rod3ted5r2udah3nds3ris4ly3sed5l5r5s2vels4rs2wdah4ie3ffs3ked3led5r0howlet2yden3les1ubbly4ub3cap3ris2ckle2ddle2ffed2gely4st3ged5r2ipil2lked3led5r4oa5s2mane5s4te3ble5y4ug3eri3med5r4us3ors4ur0humped4hs3vee2nger4ry3ker3ted5r2rdle3led5r5y3rah5y3sts3ter4le2shed5s3ked5r3sar3tle2tted3zpa2zzah5s1yaena3lin2brid5s2drae0hydras4ia5c5d4os2enas4ic3tal2mens3nal4ed2oids2phae5l4en3ing3nic3oed2sons3sop0iambic4us2tric1bexes2ices3dem3ses1cebox3cap3man4en2hors0icicle3est3ngs2kers3ier4ly2ones4ic1deals4te2iocy4ms4ts2lers4st3ing2ylls1ffier1gloos2nify4te3ore2uana1hrams1lexes2iads2lest3ite3ume1maged5r5s0imagos3ret3ums2balm4rk3eds3ibe3ody3rue3ued5s2ides4ic3nes2mane3esh3ies3une4re2pact4ir4la5e4rk5t4wn3ede4ls4nd3hee3ing4sh0impone4rt4se5t3rov3ugn4re4te1naner5s3rch4ms2born3red2cage4nt4se3ept4st3hed5s3ise4te3lip3ogs4me4ny3ubi4lt4rs4se2daba0indeed4ne5t3ict4es4gn5o4te4um3ole5s4or4ws3ris3uce5t4ed5s4lt2erts2fall4my4nt4re3ect4rs4st3irm3low4ux3old4rm0infuse2gate3est3les3ots3ulf2hale4ul3ere3ume2ject3ure5y2kers3ier4ng3jet3les3pot2lace4id4nd4ys3ets3ier2mate3esh3ost2nate3ers3ing2pour0inputs2road3ush2sane3eam4ct4rt4ts3ide4st3ole4ul3pan3tal5r4ep4il3ult4re2tact4ke3end5t4rn5s3ima5e4ne3omb4ne4rt4wn0intron5s3uit4rn2ulin3red5s4ns2vade4rs3ent4rt4st3ite3oke2wall4rd3ind3ove3rap1odate3ide5s4ne5s4se5m4ze3ous2lite2nics4se0ionium4ze3one1pecac1rades3ter2eful3nic2ides4ic3sed5s3tic5s2king2okos3ned5r5s4ic2real3upt1satin2chia2land3ets3ing2obar3gon3hel3log3mer0isopod2seis3ued5r5s2thmi3les1talic2ched5s2emed3rum2self1xodid3ras2tles1zzard0jabbed5r3iru3ots2cals4na3kal4ed5r5t2ding4sh2eger2gers3ged0jagger3ras3uar2iled5r4or2laps3ops5y2mbed5s3med5r2ngle5y2pans3ers5y3ing2rful3gon3ina3rah4ed3vey2smin3per3sid2uked3nce4ts5y0jauped2wans3ing2ygee3vee2zzed5r5s1ebels2eing3ped3red5r2hads2juna5e2lled2nnet2rboa3eed3ids3ked5r4in3rid3sey2ssed5s3ted5r3uit2tons0jetsam4om3ted4on2wels3ing2zail1ibbed5r3ers3ing2cama2gged5r4le5y3saw2hads2lted5r2miny3per4ly2ngal4ko4le5y3ked5r3nee3xed5s0jitney3ter2vers3ier4ng1nanas1obbed5r2ckey4os3ose3und2gged5r4le2hnny2ined5r4ts3sts2joba2kers3ier4ly4ng2lted5r2rams3dan3ums2seph3hed0josher5s3ses3tle2tted5r2uals3ked3les3nce5y3sts2vial2wars3ing3led2yful3ing3ous3pop1ubbah3hah3ile2dder3ged5r5s3oka2gate3ful3ged4le0jugula4ms2iced5r5s2jube2king2leps2mbal4le4os3ped5r2ncos3gle5y3ior3ked5r5t4ie3tas4os2pons2rant4ts3els3ied5s4st3ors2sted0juster4le5y2tted0kababs4ka4la4rs4ya3iki3obs3uki2ffir3irs3tan2huna2iaks3nit3ser2kapo2lams3ian4fs4ph4um3mia3ong3pak5s2mala3iks3sin0kanban3jis3tar2olin2poks3pas3utt2rate5s3mas4ic3oos4ss3roo3sts2sbah3has4er2tion2uris2vass2yaks3les3oed5s2zoos1ebabs4rs3bie3lah3obs2cked0keckle2ddah3ged5s2eked3led3ned5r4ly3per3ves2firs2gler2leps3ims3oid3ped4ie3son3ter3vin2nafs3dos3ned5l2pped5n2rbed3fed3mes4is3ned0kernel5s3ria3sey2tene3ols4ne4se3tle2vels3ils2ying3pad3set3way1hadis3kis3lif3phs3zen2edah5s3ths2oums1iangs3ugh2bbeh5s4is4le3eis3itz0kiblah5s3osh2cked5r4up2dded5r4ie4os3nap4ey3vid2lims3led5r4ie3ned3ted5r4ie2mchi3ono2nase3der4le5y3ema3ged4ly3ins3ked0kiosks2pped5n5r2rned3sch3tle2shka5e3mat4et3sed5r5s2ters3hed5s3ing3sch3ted5l5n4le1latch3xon2epht2ongs3ofs2udge3ges3tzy1nacks0knarry3urs3ves3wel2eads3els3lls2ifed5r5s3ght3ves2obby3cks3lls5y3sps3tty3uts3wer4ns2ubby3rls5y1oalas2bold2ines2lhoz3koz2nked2odoo3kie0kopeck4ks3jes3pas4ie2rats3una5y2sher2tows2umis4ys3roi5s3sso2wtow1raals3fts3its3ken3ter3uts2eeps2ills3ses2onen5r4or4ur3oni5s2ubis0krubut1uchen2dzus2gels2kris2laki5s3tur2miss3mel2rgan3tas2ssos2vasz1vases2etch1wacha3nza1yacks2bosh2ries2thed5s0laager2bara3els3ial4le4um3ors4ur3ret0labrum2cers3hes3ier4ly4ng3ked5r5y3tam4ic3una5e2dder4ie3ens4rs3ies4ng5o3led5r5s3ron2gans3end4rs3ged5r3oon3una5e0lahars2ical4hs3ghs3rds4ed2kers3ier4ng2llan4ed2mbda4ed5r4ie3edh5s4ly4nt4st3iae5s4na5g3med3pad5s4ed2nais4te3ced5r0lances5t3dau4ed5r3ely3gue5r3ker4ly3ner3ose3ugo2pdog3els3ful3ins3ped5r5t3sed5r5s4us3top2rded5r4on3ees3ger5s4os0lariat4ne3ked5r3rup3ums3vae5l5s3ynx2scar3ers3hed5r5s3ing3ses4ie4os3ted5r4ly2teen4ly4ns5t4st3hed5r5s4is3igo0latino4sh3kes3ria3ten5r5s4in2uans3ded5r3ghs3nce5h3rae5s4el2vabo4ge3eer4rs3ing4sh2wful3ine5g3man4en3yer2xest3ity2yers0laying3man4en3off4ut3ups2zars3ied5r5s4ly4ng3uli1eachy3ded5n5r3fed3gue3ked5r3lly4ty3ned5r4ly3ped5r3rns5t3sed5r0leases4ts3ved5n5r5s2bens2ched5r5s4we3tin4or2dger5s2ered3way2fter2gacy4ls4te5o3end4rs3ged4in3ion4st4ts3man4en3ong0legume2huas2kvar2mans3mas3ons5y3urs2nder3gth3ity3sed5s3ten4ic5l4os2ones2pers3ton2sion3see5n5r4on5r2thal4es3ted5r3ups2ucin0leudes3kon2vant3eed5s4ls4rs3ied5r5s4ns4ty2wder4ly2xeme3ica2zzes4ie1iable3ise3nas4es4gs3rds2bber3els4rs3ido3lab3rae5s2chee0lichen5s4is4ts3ked5r3tor2dars3ded2eder3fer4ly3ges3nal3rne3ver2fers3ted5r2gand5s4se4te3ers3hts3nin3ula5e4re2kely4ns4rs0likest3ing3uta2lacs3ied5s3ted2mans3bas4ed5r4ic4os4us3ens4ys3ier4na5g4ts3mer3ned5r4ic3pas4ed5r5t4id4ly4sy3uli0linacs4ge3den3eal5r4ns5y4rs4up3gam5s4er4ua3ier4ng5s3ked5r4up3net3sey3tel5r4ol3ums2pase3ide5s4ns3oid4ma3ped0lippen5r2quid4or2roth2sles3ped5r3som3ted5e5l5n5r2tany3chi3ers3her4ia5c4os3mus3res3ten5r4le2vely4ns4rs5y4st3ier0living3res3yer2zard1lamas3nos1oaded5r3fed5r3med3ned5r3the3ves2bate3bed5r3ule2cale5s4te3han4ia3ked5r5t4up3oed5s3ule5i0locums4st2dens3ged5r5s2fted5r2gans3ged5r4ia5e3ics4er4ly4on3jam3way2iter2lled5r4op2mein4nt2nely4rs3gan4ed5r5s4ly0looeys3fah5s3ies4ng3ked5r4up3med3ney3ped5r3sed5n5r5s3ted5r2pers3ing3ped5r2quat2rans3ded4ly3eal3ica4es2sels4rs3ing0losses2tahs3ion3ted5s4os2uche3den5r4ly3ghs3ies3nge5y3ped5n5s3red3sed5s3ted3ver4re2vage4ts3ely4rs3ing2wboy3ers5y4st0lowing4sh2xing1ubber3ric2cent4rn3ked4ie3res2etic2ffas4ed2gers3ged5r4ie2lled2mbar4er3ens3ina3mox3ped5n5r2nacy4rs4te3ets3gan4ed0lungee5r5s4is4yi3ier5s3ker3ted3ula5e2pine5s3ous2rdan3ers3ing3ked5r2shed5r5s4ly3ted5r4ra5e2teal4in4um3ing4st0lutzes2xate3ury1yases2cees4um3hee2ings2mphs2nxes2rate3ics4sm5t2sate3ine5g5s3sas2ttae5s0macaco4ws3ers3hes4os3ing3kle3led5s3ons3ron0macros3ula5e2dame5s3cap3ded5n5r3man4en3ras4es3uro2enad2ffia3ias3tir2ggot3ian4cs4lp3lev3mas3net4um3ots3pie3uey2hoes4ut3zor0maiden3gre3hem3led5r5s4ls3med5r3nly3sts3zes2jors2kars3ers4up3ing3uta2lady4rs4te3fed3gre3ice4gn4ne3kin3led5e5i5t4ow0maloti3ted4ha4ol2mbas4os3eys3ies3luk3mae5l5s4ee5r5t5y4ie4on2nage4na3che3ege3ful3gel5r5s5y4le4os3iac5s4cs0manila4oc4to5u3nan5s4ed5r3ors3que3ses3tas4el5s4ic5d5s4le4ra4ua3ual4re2ples3ped5r2quis2raca4ud3ble5y3cel3gay0marges4in3ina5e4sh3ked5r5t4ka4up3led4in3mot3oon3que3ram4ed5r4on5w3ses4hy3ted5n4in4yr3vel2scon5t3ers3hed5r0mashes4ie3jid3ked5g5r3ons3que3sas4ed5s4if3ted5r4ic5x2ters4ys3ing5s3res4ix4on3sah3ted5r5s4in3ure3zah5s4oh0matzos5t2uger4re3led5r3met3nds5y3ves2vens3ies4ns2wing2xima5s4xe2ybes3day3est3fly3hap4em3ing3ors3pop3vin2zard3ers3ier4ly4ng0mazuma1biras1eadow3ger4re3lie3ner4ie4ly3sle5y3tal4ed4us2ccas2daka4ls3dle3fly3iad5e5l5n5s4ck5o5s4na4um5s3lar4ey0medusa2eker4ly3ter4ly2gass3ilp3ohm3rim2ikle3nie2lded5r3ees3led4ow3ody4id4ns3ted5r4on2mber3oir4ry2nace4ds4ge3ded5r3hir3ial0meninx3sae5l5s4ch4ed5s3tal4or4um2oued3wed2rcer3des3ely4st3ged5r5s3ino4ts3les4in4on5t3man4en2scal3hed5s3ial5n0mesnes3ons3san4ed5s3tee2tage4ls4te3eor4pa4rs3hod4yl3ier4ng3ope3red5s4ic4os3tle3ump2wing3led5r2zcal3uza3zos1iaous4ws3sma0miasms3uls2cell3hed5s3key4le3ron5s2dair3day4en4le3ges5t4ut3leg3rib3sts3way2ffed2ggle3hts5y3non2hrab2kado3ing3ron3vah4eh2ladi0milady4ge3den5r5w4ly3ers3ieu4um3ked5r3led5r5s5t3neb3ord3pas3ted5r2mbar3eos4rs3ics4ng3osa2nced5r5s3ded5r3ers0mingle3ify4ma5s4ng4on4sh4um3kes3now3ors3ted5r3uet4te3xes3yan2oses4is3tic2rage3ier4ng3ker3ror3ths3zas2sact4dd4im4te3cue0miscut3did3eat4rs5y3fit3hap4it3kal3lay4ed4ie5t3met3pen3sal5y4ed5l5s5t4is4us3ted5r3use2ters3her3ier3ral4ed5s0mitten2xers3ing3ups2zens3zen4le5y1oaned5r3ted2bbed5r3cap3ile3led2chas3ked5r4up2dels4ms4rn4st3ica4fy4sh3ule5i5o2gged4ie0moguls2hair3els3urs2iety3led5r3rai4es2joes2lars3ded5r3est3ies4ne3lah4ie3och3ted5n5r2ment3ism3mas3ser3zer2nads3des4os3eys3ger0mongoe5l5s4st3ied5s4sh5m5t3key3ody3tes4hs2oing3lah5s4ey3ned3red3ted5r2peds4rs5y3ier4ng4sh3oke3ped5r5t2rale0morals4ss4ys3bid3een4ls3gan4en4ue3ion3ons4se3pho5s3ris4os5w3sel3tal5r3ula2saic3eys3hav3que3sed5r5s3tly2tels4ts3her0motifs4le4on4ve3ley3mot3ors3tes4le4os2ujik3lds5y4in4ts3nds4ts3rns3sed5r5s5y4se3ths5y4on2vers3ies4ng2wers3ing2xies0muches4ly3ins3ked5r4le3luc3oid4rs4sa5e4us2dcap5t3ded5r4le5y3ras2esli2ffed4in4le3tis2gful3gar4ed5e5r4ur2jiks2kluk0muktuk2lcts3eta4ys3ing4sh3lah5s4ed5n5r5t5y2mble5y3med5r3ped5r2ngos3tin2onic2rals3der3ein3ids4ne5g3ker4ly3mur3phy0murras4es5y4ha2scae5t4id4le5y3ers4um3hed5r5s3ics4ng3jid3keg5t4ie5t3lin3sed5l5s3ted5e5r4hs2tant4se4te0mutely4st3ine5g5y4sm3ons3ter4on3ual4el4le2umuu2zhik3jik3zle1yases4is2cele2elin2nahs2omas3pes4ia5c3ses4in5s3tic2riad4ca3rhs0myrtle2self3ids3ost3tic2thic4oi5s2xoid4ma0nabbed5r3obs2chas4es4os3red5s2dirs2evus2gana3ged5r2iads3led5r3ver5s2leds2mely4rs3ing0nances3din3ism3kin3nie2palm3ery3kin3ped5r5s4ie2rcos3ial4ne3ked3row3wal2sals3ial4on3tic2tant3ion4ve3ron3ter3ure2ught3sea3tch2vaid0navars3els3ies2wabs2zify1earby4ed5r4ly3ten5r4ly2bula5e5y2cked5r3tar2eded5r4le2gate2ighs2kton2llie3son2oned2phew2reid5s3oli5s0nerved5s2sses3ted5r4le4or2ther3ops3ted5r4le5y2umes4ic3ral4on3ter2void2wels4st3ies4sh3sie3ton1iacin2bbed4le2cads3ely4st4ty0niched5s3ked5l5r4le3ols2dget3ify4ng2eces3lli5o3ves2ffer2gger4le3hed5r4ts5y2hils2lgai5u3led2mble5y4us3med3rod2nety3jas0ninons3ths2obic2pped5r4le2seis2ters5y3ons3res4ic5d5l4os3wit2xies4ng2zams1obble3ler5s3ody2cent3ked2dded5r4le3ose4us3ule2esis0noetic2gged4in2ised5s2mads3ina4sm2nage4rt3ces4om3ego4ts3fan5t3gay3man4en3par3tax3use3war3yls2odge4le3sed5r5s2pals2rdic3ias0norite3mal4ed3ths2shed5r5s3ier4ly4ng3toc2tary4te3ers3her3ice4fy4ng4on2ugat4ht3nal3ses2vels4na3ice2ways3ise2yade2zzle1uance2bbin0nubble5y3ias4le2chae5l3lei2dely4st3ged5r5s3ies4sm5t4ty3nik2gget2king2llah4ed2mbat4ed5r4ly3ina2ncio4le2rled3sed5r5s0nutant4te3let3meg3ria3ted5r2zzle1yalas2lons2mpha5o5s0oafish2kums2ring2ters1beahs3lia4us3yed5r2iism2ject4ts2last4te3ige3ong2oist3les4us0obsess2tain3ect4st3und4se2vert1ccult4py4rs2eans3lli4ot2hers5y3one3rea5d5s2kers2reae2tads4ne5s5t4ve5o3ets3opi3roi3yls2ular0oculus1ddest3ish4ty2eons3ums2ious3sts3ums2ored3urs2yles1edema2uvre1ffals3cut3end4rs3ice4ng4sh3key3set2test1gdoad2hams2ival4es2lers3ing2ress3ish0ogrism1hmage1idium2lcan4up3ers3ier4ly4ng3man4en3way2nked1kapis3yed1ldest3ies4sh2eate3fin3ine5s3ums2ives1masum2bers3res2egas3let3ned4ta1nager0onagri2ions5y2rush2sets3ide2uses2ward2yxes1ocyst4te2dles2gamy3eny2hing2lite5h3ogy4ng2miac5k3pah4hs2rali2tids2zier4ly4ng1paque2ened5r4ly0operas4on2hite2iate3ned5s3oid3ums2pose3ugn2sins2tics4ma5e4ng4on2uses1rache4le3lly3nge5s5y3ted5s4or2bier4ng4ts2cein3hid5l0orchis3ins2dain3eal4rs3ure2eads3ide2fray2gana5s4sm3eat3iac4es3one2ibis3els4nt3gan4in3ole3son2lops2mers3olu2nate3ery2oide2phan4ic3ine0orpins2rery3ice2yxes1scine3ula5e2iers2mics4um3ole5s4se4us3und2prey2sein3ify2teal3ium3ler3omy1talgy2hers2iose3tic5s2tars4va3ers1uched5s0oughts2nces2phes2rang4ri3ebi2sels3ted5r2tact4dd4ge4sk4te3beg4id4ox4uy4ye3cry3did3eat4rs3fit4ly4ox3gas4un3hit3ing3jut3law0outlay4et4ie3man3put3ran4ow4un3sat5w4ee5t4in5t3vie3war4it2zels1vally2erdo4ed4ly2ibos3nes3sac2oids3los3nic2ular4es1wlets3ish0owners3ing1xalic5s2bows2cart2eyes2ford2ides4ic3mes2lips2tail3ers2ygen1yster1zones4ic0pablum2cers3has3ify4ng3ked5r5t4ly2dauk3ded5r4le3les0padnag3ouk3res2eans3lla3ons3san2gans3ers3ing3oda5s2iked3nch4ed4ts5y3red3san5s2jama2keha2lace4is4te3eae5l4ly4st4ts3ier4ng0palish3led5t4ia5d4or3mar4ed5r3pal4us3ter4ry2mpas4er2nada4ma3das4er4it3els3fry4ul3gas4ed5n3ics4er3ned5s3ted4ie0pantos4ry3zer2pacy4in4ws4ya3ers5y3ist3pus3ula5e3yri2rade4mo4ng4ph3cel3dah4ee4ie4on3ent4os4rs4us4ve3ged5s5t4os0pariah5n4es4ng4sh4ty3kas4ed5r3lay4ed5s5y4or3ody4le5s4us3ral4ed5l4ot3sec5d5r5s4on3tan4ed4ly4on3ura0parure3vis4os2scal3eos3has4ed5s3sed5e5l5r5s4im4us3tas4ed5l5r5s4ie5l5s4or4ry2taca3chy3ens5t4rs3hos3ina0patine5s4os3ois3rol5n3ted5e5n5r4ie3zer2ulin3nch3per3sal4ed5r5s2vane5s3eed4rs3ing5s4or4se2wers3ing3ned5e5r0pawnor3paw2xwax2yday3ees4rs3ing3nim3off4la4rs4ut2zazz1eaced5s4hy3ges3hen3ked3led3nut3rls5y3sen5s3vey2bble5y2cans3han4ed3ked0pecker3ten4ic5n2dalo5s4nt4te3dle3lar4er3ros2eing3ked3led5r3ned3ped5r4ul3red4ie3ved5s3wee4it2gbox3ged2ined3sed5s2kans0pekins3oes2lage3ite3let3met3ota3ted5r4ry3ves4ic5s2nang3cel4il3ded3gos3ial4le3man4en3nae4ed5r4ia5s4on3see4il3tad4yl0penult4ry2ones3ple2plos4um5s3ped5r3sin3tic5d2rdie4ue5s3eia4on3ils4od4sh3ked3med4it3oxy3ron3ses4on3ter4ly3uke4se2sade0peseta4wa3ter4le4os2tals4rd3ers3ite3nap3rel4ol3sai3ted5r4le2wees3its3ter2yote5l1hages3lli3ros3sed5s4ic5s3tic2enix4ol5m0phenyl2ials3zes2legm3oem2obia5c3ebe3nal4ed5s5y4ic4on5s3oey3tic4og5n5s2rase2ylae5r4ic4lo4on4um3sed5s4ic5s3tol0phyton1iaffe3nic4os3zza5e2bals2cara5o3kax4ed5r5t4le4up3nic3ots3ric3uls2ddle5y3gin2eced5r5s3ing3rce3tas2ffle2geon3ged4ie0piggin3let3nus5t3out3pen3sty2kake3ers3ing2laff5s4us4ws3eum5p5s3fer3ing3lar4ed4ow3ose4ts4us3ule2mped4le5y2nang4ta3cer0pinder3eal4ne4ry4ta3ged5r4os3ier4ng4on4te3ked5n5r5y4ie4ly4os3nae5l5s4ed5r3ole4ns4ts3tas4le4os3ups3yin0pinyon2olet3nic2page4ls3ers4ts3ier4ng4ts3kin3ped4in2qued5s5t2racy4na4te4ya3ogi2scos3hed5s3sed5r5s3tes4il4ol5n2tchy0pithed3ied5r5s3man4en3ons3saw3ted2vots2xels3ies2zazz3zas4le1laced5r5s5t4id4ks3gal4es4ue5y3ice4ds4ns5t4ts3nar4ch0planed5r5s5t4ks4ts3que3shy4ma5s3tan4ed5n5r5s4ys3yas4ed5r3zas2each4ds4se4ts3bes3dge3iad3nch4ty4um3ura3xal0plexor4us2iant3cae5l3ers3ght3nks4th3sky4se2oidy3nks3tty3ugh3ver3wed5r3yed2ucks5y3mbs4ed5s4my4ps3nge4ks3ral3ses4hy3tei0pluton2yers3ing1neuma1oachy2cked5t2dded3ite4um3sol3zol2etic4ry2geys3ies3rom2ilus3nds4te5s5y3sed5r5s4ha4on2kers4ys3ier5s4ly0poking2lars3der3eax4is4rs4yn3ice5y4ng4os4sh4te5y3kas3led5e5n5r5x3ypi5s2mace4de3elo3mee5l4ie3pom5n2nced5s0poncho3ded5r3ent3ged5e4id3ied5s3tes4il4on2odle3hed3led3ped3rer4is4ly3ves2pery3gun3ish3lar4in3pas4ed5r5t4le3sie2ring0porism3ker3nos3ose4us3tal4ed5r4ly2sada3ers4ur3her4ly3ies4ng4ts3ses5t4um3tal4ed5r4in2tage4sh4to3boy3een4nt3ful3her0potion3man4en3pie3sie3ted5r4le4os3zer2uchy3fed4fe5s3lts3nce4ds3red5r3ted5r2wder3ers3ter3wow2xing2yous1raams3hus3ise3nce4gs0pranks3ses3ted5r5s3wns3xes4is3yed5r2each5t4mp4rm3cis4ut3ens3fab4er4ix3lim3man4ed5n4ie5x3pay4py3set4to5s3tax0pretor4ty3vue3war3xes3yed5r3zes2iapi3ced5r5s5y4ks5y3ded5s3ers4st3lls3mal5s4ed5r5s4ly4os4ps4us3nce4ks4ts0prions4rs5y3sed5s4ms4on4sy3vet3zed5r5s2obed5r5s4it3ems3fit3jet3lan4eg5s4ix4og3mos4pt3ngs4to3ofs3pel5r4yl0prosed5r5s4it4os3tea5i4on4yl3ved5n5r5s3war4er4ls2udes3ned5r5s4us3tah4ot2yers3ing1salms2eudo5s2haws2ocid2yche5o0psychs3lla3war1terin2isan2oses4is3tic1ublic2cker2ddle5y2eblo2ffed5r4in2gged4ry3ree2isne2jahs2king2lers3ing3led5r5t5y4up3pal4ed5r0pulpit3que3sar4ed5r5s2melo3ice3mel3ped5r2nchy3dit3gle3ier4ly4sh3kah5s4er5y4ie5n3ned5r5t3ted5r4os2pate3ils3ped0puppet2rana3dah5s3eed5s4ly4st3fle3ged5r5s3ify4ne5s4sm5t4ty3led4in3ple5y3red3sed5r5s4ue3vey2shed5r5s4up0pusley3ses4ly2tlog3off4ns4ut3rid3sch3ted5e5r3zed5s2zzle1yemia5c2knic2lons4ri2oses4is2rans3ene3ite3ola4ne4pe3rol2thon2uria2xies0qanats1indar3tar2viut1uacks3ere3ffs3gga5y3hog3ich4gh4ls4nt3ked5r5s3lia4ms5y3ngo4ta5s3rks4ry4te5o5s5z3sar3tre3ver0queans4sy4zy3ens4rs3lls3nch3rns3sts3ued5r5s3zal2iche4ks3ets3ffs3lls4ts3nce4ic5n4oa5l4sy4ta5e5s3ppu4us3red5s0quirks5y4ts3tch3ver2ohog3ins4ts3kka3rum3tas4ed5r5s4ha2rush1werty0rabato5s3bet4in5s5t4le3ies2ceme4rs3het4is3ial4er4ly0racing4sm5t3ked5r5t4le3ons4on2dars3ded4le3ial5n4os4sh4um5s3ome4ns3ula2ffia4le3ted5r2gbag3ees3ged5e4le3ing3lan0ragman4en3out3tag4op2ided5r3led5r3ned3sed5r5s4in2jahs2kees4rs3ing4sh2llye3phs2mate3ble3ees4ts3ies4fy3jet3med5r3ose4us0ramped3rod3son3til2nces4ho4id4or3dan4om3ees3ged5r5s3ids3ked5r4le5y3som3ted5r3ula2pers3hae4es4ia5s3ids4er4ne5g0rapini4st3ped5e5l5n5r3tly4or2refy4ly4st3ify4ng4ty2scal3ers3her5s4ly3ing3ped5r3sle3ter3ure2tals4ns5y3bag3els4rs0rather3ify4ne5g4on5s4te3lin3oon3tan4ed5n5r4le5y4on2unch2vage3els4ns4rs3ine5g5s4sh2west3ins4sh2xing2yahs3ing3ons0razeed5s4rs3ing3ors3zed5s1eacts3dds4er3gin3ler5s4ia4ly4ms4ty3med5r3ped5r3red5r4ms3son3tas3ved5r5s4ow2bait4rs0rebate5o3bes3eck5s4ls3ids4ll4nd3ody4il4ok5t4ps4re5n4zo3red3uff4ke4ry4ts4ys2call4ne5t4ps4st3ces3ede4nt4pt0recess3hew3ipe4te3ked4on3lad3oal4ck4de4il5n4mb4ns4ok4py4rd5k4up3tal4or5s4um5s3urs4se4ts2dact4ns4te3bay4ud0redbug3cap3ded5n5r4le3ear4em4fy4ny4ye3fin3iae5l5s4ng4ps5t3leg3ock4es4ne5s4ut4wa3raw4ew3top3ubs4ce3yed5s0reearn3cho5y3ded4it3fed5r3ked5r3led5r3mit3sts3ved5s2face4ll3ect4ed5l4ll5s5t4rs3fed3ile5l5m4nd5e4re4ts0reflet5w5x4ow4ux3old4rm3uel4ge4nd4se4te2gain4le4rd4ve3ear4nt3gae3ild5t4me4na4on4us4ve3let4ow4ue3nal4um3ret0regrew4ow3uli2habs4ng4sh3ear5t4el4ms3ire3ung2igns3ned4ks3ved5r5s2ject3oin2keys3nit2lace4id4te4ys3end5t4ts4ve3ics5t0relied5f5r5s4ne5k4sh5t4ve3oad5n4ck4ok3uct4me2made4il5n4ke4nd5s4ps4rk4te3edy4et4lt4nd3ind5t4se5s0remits4xt3old4ra4te4ve3uda2nail4me3ded5r3ege4st4ws3igs4ns3net4in3own3tal4ed5r5s3voi2oils3pen2pack4id5r4nd4rk4ss0repast4ve4ys3eal5t4gs4ls4nt4rk3ine5s3lan5y4ed4ot3oll4rt4se4ts4ur3ped3ros3ugn4mp4te2quin2rack3ead3igs4se3oll4of0rerose3uns2said5l4le4wn5s4ys3cue3eal5t5u4ct4da4ed5k5n5s4ll4nd5t4ts4wn5s3hes4ip4od5e5t5w3ide5s0resift4gn4le4ns5y4st4te4ze3oak4ds4ld5e4rb5t4wn5s3pot3ted5r3ult4me2tack4gs4il5n4ke4pe4rd3eam5r4ll4ms0retene4st3ial4ed5s4le4me4na5e5t4re3old4ok5l4re5n5t3ral4im4os3ted3une4rn4se3ype2used5s2vamp3eal4ls4rb5e0revers5t5y4st4ts3iew4le4se4ve3oke4lt4te3ues3ved2wake4rd5m4sh3eds4ld4ts3ind5s4re3oke4rd5k4ve3rap2zone1haphe2ebok0rhesus3tor3ums5y2inal4os2odic3mbi5s2umba5s3ses2ymed5r5s3thm4on1ialto3tas2bald4nd3bed5r4on3ier3let3ose2cers3hen5r5s4ly0ricing5s3ked5y3rac3tal4us2dded5n5r4le3ent4rs3ged5l5s4il3ing3ley2ever2fely4st3fed4le3led5r5s3ted2gged5r3hto5s0righty3ors4ur2ling3led5s5t2mers3ier4ng3med5r3ose4us3ple2nded3ged5r3sed5r5s2ojas3ted5r2pely4ns4st3ing3off4st3ped5r0ripple5y3rap3saw2sers3his3ing3ked5r3que2tard3ter3ual3zes2vage4ls3ers4ts3ing2yals1oadeo4ie3med5r3red5r3sts2balo4nd3bed5r4in0robing5s3les3ots3ust2chet3ked5r5t3oco2dded3ent4os3man4en2gers3ued5s2iled2lfed5r3led5r2mano5s3eos3ped5r2ndel4os3ion3nel0ronyon2ofed5r3ked4ie3med5r4ie3sed5r5s4ts3ted5r2pers5y3ier4ly4ng2ques5t2sary3coe3ery4ts3ier4ly4ng5s5y3ter4ra0rotary4te3che3gut3ors3ted5n5r5s3und2uble3che3ens3ged5s4hs3nds3ped5t3sed5r5s4ts3ted5r5s4hs2vers3ing2wans3els4ns0rowers3ing3ths2yals2zzer1uanas2bace4to3bed5r4le5y3ied5r5s4go3les3off4ut3ric2ched5s3ked4le4us2dder4le3ely4st2eful2ffed5s0ruffle5y3ous2gate3ged5r3ola4sa5e4us2ined5r2lers3ier4ng2maki3bas4le5y3ens3ina3mer3ors4ur3ple5y4us2ndle3kle3let3nel5r0runoff4ut3way2pees3iah2rban2shed5e5r5s3ine3set3ted4ic4le2tile4ns3ted1yking2okan0sabbat4ed3ers3ine5s4rs3les3ots3ras4ed5s2cbut0sachem5t3ked5r3que3ral4ed4um2dden5r4hu4le3hes4us3ism5t2fari3ely4st4ty3rol2gbut3ely4st3gar4ed5r3ier2hibs2ices3gas3led0sailer4or3min3ned4ts3the3yid2jous2kers2laam4ds4ls4mi4ry3eps3ify4na5e4va3let4ow3mis4on3ols4ns4on5p3pae5s4id3sas3ted0salter4ie3uki4te3ved5r5s4ia4or5s2mara3bar5s4os4ur3ech4kh5s3iel4te3let3osa3pan4le3shu2ncta3dal4ed5r4hi3ely4st0sangar5s4er4hs3ies4ng4ty3jak3nop4up3sar4ei3tir4ol5s4ur2pors4ta5e4ur3ped5r2rans4pe3dar3ees3ges3ins3ode5s4ng3sar0sarsen3tor2shay4ed5s3ins3sed5s2tang4ra4ys3een3ing5s5y4re3ori3rap3yrs2uced5r5s4hs3ger4hs5y3lts3nas3rel3ted5s2vage0savant4te3ers3ine5g5s4or3ors5y4ur4ys2wers3fly3ing3log3ney3yer2xony2yers4st3ids4ng3yid1cabby3lar4ds4ed5r5s4ls4ps3mpi0scamps3nts5y3ped5s3rab4ce4ed5r5s5y4fs4ph5s4ry4ts3the4ts5y3ups4rs2enas4ds4es4ic4ts2havs3ema5e3ism5t4zo0schizy3lep3moe5s3noz3ool4rl3rik4od3tik3uit4ln4ss3was2illa3ons2laff3era2offs3lds4ex3nce4es3ops4ts3ped5s3rch4ed5r5s4ia0scorns3tch4er4ia3urs4se4th5s3wed4ls2rags4ms4pe5s4wl3eak5m4ed5n5s4ws5y3ibe4ed5s4mp5s4ps5t4ve3ods4ll0scroop4ta3ubs4ff4ms2ubas3ffs3lks4ls4ps5t3mmy3rfs5y4ry4vy3tch4es4um3zzy2yphi3the1eabag4ed3dog3led5r3man4ed5n5r3nce0search4ed5r3son3ted5r3wan5y2bums2cant3cos3ede4rn3ond3par3ret3tor3und4re2dans4te3ers3ges3ile3uce4ms2eded5r3ing3ker3led3med0seemer4ly3ped3saw3the2ggar3nos3ued5s2iche3del3ned5r5s3sed5r5s4in4ms4or3zed5r5s4in4or2jant2lahs3dom3ect3fed3ler5s0selsyn3vas4es2meme4ns3ina3ple4re2nary4te3dal4ed5r4up3eca4ga3hor3ile4or4ti3nas4et4it3ora5s3ryu3sed5s4or4um3try2pals0sepias3oys3ses4is3tal4et4ic4um2quel4in2racs4il5s4pe5h3dab3ein4ne4st3ges3ial4es4fs4ne5g5s3mon3osa4us4ws3ums3val0served5r5s4os2same3tet2toff4ns4se4us5t3tee5r4le3ups2vens4re5s2wage4ns4rs3ers3ing2xier4ly4ng4sm5t3pot3tan4et4on0sextos3ual1habby3cko5s3ded5r5s4ow4uf3fts3ggy3ird5n3ken5r5s4os3led5s5y4om3man5s4ed5s4my4os5y4us3ndy4ks0shanny4ti5y3ped5n5r5s3rds4ed5r5s4if4ks4ns5y4ps5y3ugh4ls3ved5n5r5s4ie3wed4ls4ms2eafs4ls4rs4th4ve0sheens5y4rs4ts4ve3ikh5s4la3kel3lls5y4ta5y4ve5y3nds3ols3qel3rds4if4pa4ry3uch4gh3wed5r2ibah3eld5s4rs4st3fts0shifty3kar4sa5e3lls3mmy3ndy4ed5r5s4ny3res4ks4rs4ts5y3sts3tty3vah5s4er5s2lepp5s3ock3ump2mear3oes3uck2naps3ook2oals0shoaly4ts3cks3ddy3ers3far3gun3jis3lom3oed4ks4ls4ts3ppe3ran4ed5s4ls4ts5y3tes4ts3uld4ts3ved5l5r5s3wed5r3yus2rank0shreds4wd5s3iek4ft4ke4ll4mp4ne5k4ve3off4ud4ve3ubs4gs4nk2tetl3ick4ks2ucks3nts3ted5s2yers4st3ing1ialic5d2byls2ccan4ed0sicked5e5n5r4ie4le5y4os2ddur3ing3led5r5s2eged5s3nna3rra3sta3urs3ved5s2faka3ted5r2ghed5r4ts3ils3loi5s3mas3nal0signed5e5r5t4or2lage4ne3eni5t3ica3ked5n3ler3oed3ted3vae5n5s4er5x2mars3ian4le3lin3mer3nel3ony4om5n3per4le5y0sinews5y3ful3ged5r5s4le5y3ker3ned5r3ter2phon3ing3ped5r5t2rdar3ees4ns3ing3rah5s4ee3ups5y2sals3kin3ter4ra2tars3com0siting3ten5r3ups2vers2xmos3tes4hs2zars3ers3ier4ng3zle1kalds3ted5r5s4ol2eane5s3ens4ts3igh4ns3lms4ps3nes3rry3tch3wed5r2ibob0skiddy4oo3ers3ffs3ing3lls3mos4ps5y3nks4ny3rls4rs4ts3ted5s3ved5r5s4vy2lent2oals2ulks4ls3nks2ybox3cap3ing3lit3man4en3way0slacks3ggy3ked5r5s3lom3ngs5y4ts5y3tch4ed5r5s5y3ved5r5s5y3yed5r2eave4ze5o5y3dge3eks5y4ps5y4ts5y0sleeve3igh3uth3wed2iced5r5s4ks3der5s3est3ght3med5s4ly4sy3ngs4ks5y3ped5s4py4up3ver2obby3gan3ids3jds3ops3ped5r5s0sloppy3shy3ths3uch4gh3ven3wed5r4ly3yds2udge5y3ffs3ice5y4ng3mmy4ps3rbs4ps4ry3shy3tty2yest3pes1macks3lls4ti5o5s3rms5y0smarts5y3zes2ears5y3eks3gma3lls5y4ts3rks2idge3lax4ed5r5s5y3rch4ks5y3ter5s4hs5y2ocks3ggy3ked5r5s5y3lts3och0smooth2udge5y3gly3tch4ty1nacks3fus3ggy3ils3ked5s5y3ppy3red5r5s4ks5y4ls5y3tch4he5s3wed3zzy2eaks5y4ps3cks3ers4sh0sneeze5y3lls2icks3der3ffs5y3ped5r5s4py3tch3vel2obby3ods4ks4ls4ps5y4ts5y4ze5y3red5r5s4ts3tty3uts5y3wed2ubby0snuffs5y3gly1oaked5r3ped5r3red5r3ves2bbed5r3eit4rs3ful2cage3cer3ial3ked5t3les3man4en2dded5n3ium3oms5y2ever2fars3fit3tas0soften5r4ie4ly2gged2igne3led3ree2kols2lace4nd5o5s4te3dan4er3ely4mn4us3gel3idi5s4ng4on3oed4ns3ums4te3ved5r5s2mata0somber4re3ite2nant4rs4ta3der5s3ics3net3sie2oner3ted4he5s2pite3ors3ped2rbed5t4ic3did4or3els5y4st3gho4os3ing3ned5r3rel0sorrow3ted5r4ie2tols3ted2uari3car3dan3ghs5t3led3nds3ped3rce4ed5r4ly3sed5s3ter4hs2viet3ran2wans4rs3car3ens4rs3ing2zine5s0spaced5r5s5y3ded5r5s4ix3hee4is3ils4ts3les4ls3nks3red5r5s4ge4id4ks5y4ry4se3sms3tes4he3vie5n3wns3yed2eaks0speans4rs3cie4ks3ech4do5s5y4ls4rs3ils4rs4se5s3lls4ts5z3nce4ds4se3rms3wed5r2hene4re5y3inx2icae5s4ed5r5s0spicey4ks3der3els4rs3ffs5y3got3ked5r5s5y3led5s4ls4th3nal4ed5l5s5t4ny4or4to3ral4ea5d5m5s4it4ts3tal0spited5s2lake4sh4ts4ys3een4nt3ice4ff4ne5t4ts3ore4sh2odes3ils5t3ked5n5s3nge5y3ofs5y4ks5y4ls4ns5y4rs3ral0spored5s4ts5y3tty3use4ts2rags4in4ng4ts4wl4ys3ead4es4nt3ier4gs4ng5t4te5s5z3out3uce5y4es4gs4ng3yer4ly2uing0spumed5s3nks5y3rge4ns4ry4ts3tum2ying1quabs4ds4ll4ma4re4sh4ts4wk5s3eak5l4gs3ibs4ds4ll4nt4re5m5t4sh3ush1radha0stable5y3cks4te3des4ia3ffs3ged5r5s5y4gy3igs4ns4rs3ked5s3lag4ed5r5s4ks5y4ls3men4ps3nce5h4ds4ed5s4gs0stanks4za3pes4hs4le3rch4ed5r5s4ry4ts4ve3ses4is3tal4ed5r5s4ic4or4ue5s3ved5s3yed5r2eads5y4ks4ls4ms5y0steeds4ks4ls5y4ps4rs4ve3ins3lae5i5r4es4ic4la3mma5y3nch4os3ppe3reo5s4ic4na5s4ol3wed2ichs4ks5y3ffs4le3gma0stiles4ls5y4ts3mes3ngo5s5y4ko5s5y4ts3ped5l5s3rks4ps3tch4hy3ver2oats3cks5y3dge5y3gey4ie3ics3ked5r5s3led0stolen5s4id4on3mal5s4ps3ned5r5s5y3oge4ks4ls4ps3ped5r5s3rax4ed5s5y4ks4ms5y3und4ps4re5s5y4ts3ver0stoves3wed4ps2rafe4in5t4ke4nd5g4ps4ss4ta5h5i4ws5y4ys3eak5m4ek5l5t4ps4ss4wn5s3iae4ck5t4de4fe4ke0string4pe5s5t5y4ve3obe4de4ke4ll4ma4ng4ok4ps4ud4ve4wn5s4ys3uck4ma5s4ng5t4ts2ubby3cco3dio4ly3ffs5y3lls0stumps5y3nts3pas4es4id4or3rdy4ts2ying3lar4ed5r5s5t4us3mie3rax1uable5y3ver2bahs3bed3deb4ue3ers3fix3gum3ito3let4ot3mit0subnet3orn3par3sea5t3tle5y3urb3way2ccah4or3ked5r4le3res2dary3den3ors3sed5r5s2eded5s2ffer4ix2gars5y3hed2ints3ted5r5s0suitor2kkah4ot2lcal4us3dan3fas4id4ur3ked5r3len3pha3tan4ry2mach5s3mae5s4ed5r4it4on2nbow3dae4er5w4og4ry3ken5t3lit0sunnah5s4ed3set3tan3ups2perb5s3ine3ped5r4le5y2rahs3ely4st4ty3fed5r3ged5r5s3imi3ras4ey3tax3vey2shis3lik3sed5s2tler0sutras3tas4ee3ure1varaj2elte1wabby3ged5r5s3ils4ns3les3mis4ps5y3nks5y3raj4ds4fs4ms4th5y3tch4he5s3yed5r2ears4ts5y0swedes3eny4ps5y4ts3lls3rve3ven2ifts3lls3mmy3nge5s5y4ks3ped5s4le3rls5y3shy3tch4he3ved5l5s5t2oons4ps4sh3rds3und0swouns1yboes2cees2lphs5y3vae5n5s4in2mbol2nced4hs4om3det4ic3gas3ods3tax4hs3ura2pher4on2rens3inx3ups5y2sops3tem2zygy0tabard3bed4is0tabers3las4ed5s5t3oos4rs4ur3ued4li4ns2ches3ked5r5t5y4le3tic2enia2ffia3ias2gged5r3rag2hini3sil2igas3led5r4le4or3nts0taipan2kahe3ers4up3ing5s2lars3ced4ky4um3ent4rs3ion3ked5r4ie3ler4is5t4ol5w3ons3uka5s2male5s4ri3bac5k4ur3ein4ly0tamers4st3ing3mie3pan4ed5r4on2ndem3ged4le5y4os3ist3kas4ed5r3ned5r4ic5n3rec3tra3uki2palo3ers4ta3ing4rs3ped5r5t0tarama3ges5t3iff4ng3mac3nal3ocs4ks4ts3pan4on3red5s3sal4ia4us3tan5r4ed5r4ly3zan2sked3sel5s5t4ie3ted5r5s2tami0tatars3ers3ted5r4ie4le4oo2ught3nts3pes3ted5n5r4ly4og2vern2wdry3ers3ing3ney3pie3sed5s2xeme4rs3ied5s4ng4te3man4en3ons0tazzas1eabox3cup3med3pot5y3red5r3sed5l5r5s3ted3zel4le2ched4ie3tal4um2dded5r3ium2eing3med5r3ner4sy3pee3ter4he2gmen3uas0teiids3nds2ledu4ga3fer3ial4um3ler4ys3ome3son2mped5h5r4le4os4ts2nace4il4nt3ded5r4on3ets3iae5s3ner4is3ons4rs4ur3pin0tenrec3sed5r5s4or3ted5r4hs4ie3ues4is4re4ti5o2opan2pals3ees4fy3hra3oys2rais4ph3bia5c3cel5s5t3edo4te3gal4um3med0termer4ly4or3nes3rae5s4et4it4or3ser2slas3tae4ed5e5r5s4is4on2tany3chy3her3rad5s4yl3ter2wing1hacks3irm3ler4li3nes4ks0tharms3tch3wed5r2ecae5l3fts3gns3ine5s4rs4sm5t3med5s3nal5r4ce3ory3res4me5s3ses4is3tas4ic2icks3eve3ghs3lls3ngs4ks0thinly3ols3ram4ds4ls4st4ty2oled5s4oi5s3ngs3rax4ia5c4ns5y4on4pe5s3ued4gh2rall4sh4ve4wn5s3ead5p5t4ep5s0thresh3ice4ft4ll4ps4ve3oat4bs4es4ne5g4ve4wn5s3ums4sh5t2ujas3lia3mbs4ps3nks3rls3sly3yas2wack4rt2ymes5y4ic4ol4us0thyrse5i1iaras2biae5l5s2cals3ked5r5t4le3tac4oc2dbit3dly3ied5r5s4ly4ng2eing3pin3rce4ed2ffed4in2gers3hts3lon3ons2laks3des0tilers3ing3led5r3ted5r4hs2mbal4er4re3ely4rs3ing2ncal4ts3der3eal5s4id3ful3ged5s4le5y3ier4ly4ng3ker4le5y3man4en0tinned5r3sel3ted5r2pcat3off3ped5r5t4le3toe5p2rade3ing3led2sane3sue2tans3bit3ers3fer3hed5r5s3ian3led5s3man4en3res3ter0tittie4le4up1meses4is1oasts5y2bies2cher3sin2days3dle3ies2ecap3ing2ffee2gaed4te3ged4le3ues2iled5r5s5t3ted2kays3ens4rs3ing2lane5s0toledo3ing3led5r3uic5d4ol4yl3yls2mans4to3bac5k5l4ed4oy3cat4od3med3tit2ndos3eme4rs3gas4ed5r4ue3ics4er4ng4sh3let0tonner5s3sil2oled5r3ted5r4hs5y4le4sy2pees4rs3ful3hes4us3ics4ng3ped5r4le2ques5t2rahs3chy3ero3ies3oid4se4th4us3pid0torpor3que3rid3ses4ks4os3ten5s3ula2shes3sed5r5s4up2tals3ems4rs3her3ing3ted5r2ucan4he5y3ghs5y3pee3red5r3sed5s4le0touted5r3zle2wage4rd3els4rs5y3hee3ies4ng3nee4ie2xics4ne5s3oid2yers3ing4sh3ons1raced5r5s4ks4ts3ded5r5s3gic4us3iks0trails4ns4ts3mel4ps3nce4ks4qs3pan4es3shy3uma3vel5s3wls2eads4ts5y3ble5y3ens3fah3mor3nch4ds5y3pan4id3ssy3vet2iacs4ds0triage4ls3bal4es3ced5s4ks5y4ot3ene5s4rs3fid4le3gly4on5s3jet3kes3lby4ls3mer4ly3nal4ed5s3ode4ls4se3pes4le5y0tripod5s4py3ste3ter4on3une3vet4ia2oaks3car4he4ks3gon3ika3ked5s3lls5y3mpe5s3nas4es3ops3pes4hy4ic5n3ths4yl3ugh4pe0trouts5y3ver5s3wed5l4th2uant3ced5s4ks3dge3est3ffe3ing4sm3lls3mps3nks3sts5y3ths2ying3out3ste5s1sades4is2etse2king3tsk2ores0tsoris2uris1ubate3bed5r3ers3ful3ing4st3ule2chun3ked5r5t2ffet3oli3ted5r2gged5r3rik2ille2ladi3ips3les2mble3efy3ors4ur3ped3uli5t0tundra3ers4up3ica5s4ng3ned5l2pelo3iks3ped2ques2raco3ban4id5t4os5t3een3fed3gid4or3key3ned5r4ip4up3ret3tle3ves2sche3hed0tushes4ie3ked5r3sah5l5r4eh5r4is4le4or4ur2tees3ors3ted4is2xedo2yere5s1wains3ngs5y4ky2eaks5y3eds5y4ny4ts4ze3lve0twenty3rps2ibil3ers3ggy3lit4ls3ned5r5s4ge3rls5y4ps3sts5y3tch2ofer2yers1ycoon2mbal3pan2ning2phon4us3ier4fy4ng4st2rant3ing2thed0tythes1zetze2uris0ubiety3que1dders1glier5s4fy4ly2some1hlans1kases1lamas2cers2emas2lage2ster2tima5o3ras1mbels4rs3les3rae5l5s2iack5s4ks4qs2laut0umping4re1nable3ged3kin3rms3wed2bans4rs3ear4lt4nd5t3ind3olt4rn3red3usy2cage4ke4ps4se3hic3iae5l4ni3lad4es4ip4og3ock4il0uncool4rk3uff4rb5l4te2dead3ies4ne3ock4er5s4ne3raw4ew3uly3yed2ease5y3ven2fair3elt3its4xt3old4nd3ree3url2gird5t3lue3ual0ungues4is4la2hair4nd5g4ts3elm4wn3oly4od5k3ung4rt4sk2ific3ons3pod3que3sex4on3ted5r5s2just2kend5t4pt3ind5k3nit4ot0unlace4de4id4sh4ys3ead4ss3ike4nk4ve3oad4ck2made4ke4ns4sk3eet4sh4ws3ixt3old4or4wn2nail2open2pack4id3egs4ns5t3ick4le0unpins3lug3ure2read5l4el4nt4st3igs4pe5s3obe4ll4of5t4ve3uly2safe4id4wn4ys3eal5m5t4en4ll4nt4ts4wn5s4xy3hed0unship4od4ut3nap3old4wn3pun3tep4op3ung5k4re2tack4me3idy4ed5s3old4rn3rim4od4ue3uck4ne2used2veil4xt2wary3ell4pt3ind4se0unwish4ts3orn4ve3rap2yoke2zips1pases2bear5t3ind3oil4re4ws2cast3oil3url2dart4te3ive3ove2ends2flow3old2gaze3ird5t3rew4ow2heap4ld3ill0uphold4ve3roe2keep2land3eap3ift4nk3oad2most2pers3ile4ng4sh4ty3rop2rate3ear3ise3oar4ot4se3ush2send5t4ts3hot3ide3oar3tep4ir2take0uptear3ick4lt4me3ore5n4ss4wn3urn2waft4rd3ell3ind1racil3eus3nia5c4yl3res4is3ses3tes4ic2bane3ias2chin2ease3dia4os3ide3mia5c0ureter4ic2gent4rs3ing2ials3nal4es2opod2sine2text2uses1sable5y3ges3nce2eful2hers2neas2ques2uals3rer4ps1terus2most2opia2ters1veous2ulae5r5s0vacant0vacate3uum2dose2gary3ile4na3rom3uer2hine2iled3ner4ly2keel3ils2lets3gus3ine4se3kyr3ley3ors4ur3ses3ued5r5s4ta3val5r4ed5s2mose0vamped5r2ndal5s3ish4ty3man4en3ned5r2pors5y4ur2ried5r5s3let3nas3oom3ved5s2ssal3ter4ly2tful3ted2ults5y3nts5y2ward1ealed0vealer2ctor2ejay3nas3pee3red2gans3ete3gie3ies2iled5r3nal4ed5r2lars4te3dts3lum3oce4ur3ure3vet2nded5e5r4or4ue3eer4ry3ged5s0venial4ne5s4re3oms4se4us3ted5r3ues4le2rbal4id3din3ged5r5s3ier4fy4ly4sm5t4te5y3mes4in5s3nal4ix3sal4ed5r0verses5t4os4te5s4us3tex4us3ves5t2sica3per4id3sel3tal5s4ed5e4ry2toed5r5s3ted2xers3ils4ng1iable5y3led3nds3tic4or0vibist3rio2cars3ing3tim4or3una2deos2ewed5r2gils3ors4ur2king2lely4st3ify3lae5s4us2mina2nals3cas3eal4ry3ier4fy4ng3ous3yls2olas4et0violin2pers2rago3eos3gas4in3ile4on3oid3tue5s2saed4ge4rd3cid4us3eed3ing4on4ts4ve3ors3tas3ual2tals3ric3tae4le2vace4ry3ers3ify0vixens2zard3ier4rs3ors3sla1ocals2dkas3oun3uns2gued5r5s2iced5r5s3ded5r3les2lant3ery3ing3ley3ost3tes3ume4te3vas4ox2mers3ica4to0vomits2odoo2rtex2tary3ers3ing4ve2wels4rs3ing2yage3eur1rooms3uws1ulgar4us3vae5l5r5s0wabble5y2ckes4os2dded5r4ie4le5y3ers3ies4ng0wadmal4el4ol3set2eful2fers5y3fed4ie4le3ted5r2gers3ged5r4le5y4on3ing3ons2hine3oos2ifed3led5r3red3sts3ted5r3ved5r5s0wakens4rs3iki4ng2lers3ies4ng3ked5r4up3lah5s4ed5t4ie4op5w3nut3rus2mble5y3mus3pum5s2nder4le3gan4le4un3ier4ng4on0wanned5r3ted5r4on2piti3ped2rble3ded5n5r3ier4ly4ng3ked3med5r4ly4th4up3ned5r3ped5r3red5n3saw4le3ted2sabi3hed5r0washes4up3ted5r5s4ry2tape5s3ers5y3ter4le2ucht3ght3ked3led2vers5y4ys3ier5s4ly4ng2wled2xers3ier4ly4ng2ylay1eaken5r4ly0wealds4th3ned5r3pon3rer3sel4on3ved5r5s2bbed3ers3fed2chts2dded5r3eln5s3ged5s4ie2eded5r3kly3ned4ie4sy3per4ie3ted3ver0weevil3wee2ighs5t3ner3rdo5s5y2lded5r4or3kin3led4ie3ted5r2nded2skit3ter2ther3ted5r1hacko5s5y3led5r5s3mmo5y3ngs3rfs0wharve3ups2eals4ts3els4ns4ps4ze5y3lks5y4ms4ps3nas4ce3res4ry4ve3yey2idah3ffs3led5s4om4st3msy3ned5r5s5y4ge4ny0whippy3rls5y4rs5y3sht4ks5y4ts3ted5n5r5s5y2oles4ly3mps4so3ofs4ps4sh3red5s4ls4ts3sis2umps2ydah1iches3ked5r5t0wicopy2dder4ie4le3ely4ns4st3get3ish3ows3ths2elds5y3ner4ie2fely3ing2gans3eon3ged4le5y3hts3let3wag5m2kiup2lder4ly3ful3ier4ly0wiling3led5r5t4ow3ted2mble3ple2nced5r5s5y3ded5r4le4ow4up3ery3ged5r3ier4ng4sh3ked5r4le3ned5r4ow3oes3ter4le0wintry3zes2pers3ing2rers3ier4ly4ng2sdom3ely4nt4st3hed5r5s3ing3ped3sed5s3ted2tchy3hal4ed5r5s4in3ing3ney3ted4ol2vern5s0wiving2zard3ens3zen1oaded3lds2bble5y2dges2eful2lfed5r3ver5s2mans3bat4ed3era2nder3ned5r3ted4on2oded5n4ie4sy3ers3fed5r3ing3led0woolen5r4ie4ly2rded3ked5r4up3lds3med5r4il3rit3sen5r5s5t4ts3ths5y2tted2unds2vens2wing3ser1racks3ith3ngs3sse3ths5y2eaks0wreath3cks3nch3sts3tch2icks3est3ght3ngs3sts5y3ter5s4he2ongs2yest3ing1ursts3zel2sses2ther1yches2ling2ting2vern0xebecs2nial5s3ons1ylans3ems4ne0xyloid4ls4se3yls2ster4oi5s4us0yabber2chts3ked2ffed2gers2hoos2irds2kked5r2mens3mer3uns2nked3qui3tra2pock4ks4ns3ped5r2rded3ely4st3ned0yarner3row2smak2tter2uped5r4on3tia2wing3led3ned5r3ped5r1clept1eaned3rly4ns3sts5y2cchs2elin2lled5r4ow3ped5r2nned3tas4es2oman4en0yerbas3ked2ssed5s3ter2uked1ields2pped5e4ie2rred3ths1obbos2cked2dels3led5r5s2gees3ini5s3urt2icks2kels3ing2lked2nder3ker2ungs3pon3ths2wies0yowing3led5r1ttria5c1uccas3ked2kked2lans2pons3pie0zaddik2ffar4er4ir4re3tig2gged2ikai3res2mias2nana3der3ier5s4ly3zas2pped5r2reba3iba2yins0zazens1ealot3tin2beck5s3ras2chin2nana3ith2phyr2roed5s4th2sted5r2ugma1ibeth5s2gged3zag2llah2nced4ic4ky3ebs3ged5r3nia2pped5r2rams3con0zither2zith3zle1lotys1oaria2diac2ecia2ftig2mbie5s2nary4te3ers3ing3ked3ula5e2oids3med3nal2rils2ster2uave3nds2ysia1ydeco2goid4ma4se4te2mase";
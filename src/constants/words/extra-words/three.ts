@@ -1,971 +1,2 @@
-export const words = [
-  "aah",
-  "aba",
-  "abo",
-  "abs",
-  "aby",
-  "ace",
-  "act",
-  "add",
-  "ado",
-  "ads",
-  "adz",
-  "aff",
-  "aft",
-  "aga",
-  "age",
-  "ago",
-  "aha",
-  "aid",
-  "ail",
-  "aim",
-  "ain",
-  "air",
-  "ais",
-  "ait",
-  "ala",
-  "alb",
-  "ale",
-  "all",
-  "alp",
-  "als",
-  "alt",
-  "ama",
-  "ami",
-  "amp",
-  "amu",
-  "ana",
-  "and",
-  "ane",
-  "ani",
-  "ant",
-  "any",
-  "ape",
-  "apt",
-  "arb",
-  "arc",
-  "are",
-  "arf",
-  "ark",
-  "arm",
-  "ars",
-  "art",
-  "ash",
-  "ask",
-  "asp",
-  "ass",
-  "ate",
-  "att",
-  "auk",
-  "ava",
-  "ave",
-  "avo",
-  "awa",
-  "awe",
-  "awl",
-  "awn",
-  "axe",
-  "aye",
-  "ays",
-  "azo",
-  "baa",
-  "bad",
-  "bag",
-  "bah",
-  "bal",
-  "bam",
-  "ban",
-  "bap",
-  "bar",
-  "bas",
-  "bat",
-  "bay",
-  "bed",
-  "bee",
-  "beg",
-  "bel",
-  "ben",
-  "bet",
-  "bey",
-  "bib",
-  "bid",
-  "big",
-  "bin",
-  "bio",
-  "bis",
-  "bit",
-  "biz",
-  "boa",
-  "bob",
-  "bod",
-  "bog",
-  "boo",
-  "bop",
-  "bos",
-  "bot",
-  "bow",
-  "box",
-  "boy",
-  "bra",
-  "bro",
-  "brr",
-  "bub",
-  "bud",
-  "bug",
-  "bum",
-  "bun",
-  "bur",
-  "bus",
-  "but",
-  "buy",
-  "bye",
-  "bys",
-  "cab",
-  "cad",
-  "cam",
-  "can",
-  "cap",
-  "car",
-  "cat",
-  "caw",
-  "cay",
-  "cee",
-  "cel",
-  "cep",
-  "chi",
-  "cis",
-  "cob",
-  "cod",
-  "cog",
-  "col",
-  "con",
-  "coo",
-  "cop",
-  "cor",
-  "cos",
-  "cot",
-  "cow",
-  "cox",
-  "coy",
-  "coz",
-  "cry",
-  "cub",
-  "cud",
-  "cue",
-  "cum",
-  "cup",
-  "cur",
-  "cut",
-  "cwm",
-  "dab",
-  "dad",
-  "dag",
-  "dah",
-  "dak",
-  "dal",
-  "dam",
-  "dap",
-  "daw",
-  "day",
-  "deb",
-  "dee",
-  "del",
-  "den",
-  "dev",
-  "dew",
-  "dex",
-  "dey",
-  "dib",
-  "did",
-  "die",
-  "dig",
-  "dim",
-  "din",
-  "dip",
-  "dis",
-  "dit",
-  "doc",
-  "doe",
-  "dog",
-  "dol",
-  "dom",
-  "don",
-  "dor",
-  "dos",
-  "dot",
-  "dow",
-  "dry",
-  "dub",
-  "dud",
-  "due",
-  "dug",
-  "dui",
-  "dun",
-  "duo",
-  "dup",
-  "dye",
-  "ear",
-  "eat",
-  "eau",
-  "ebb",
-  "ecu",
-  "edh",
-  "eel",
-  "eff",
-  "efs",
-  "eft",
-  "egg",
-  "ego",
-  "eke",
-  "eld",
-  "elf",
-  "elk",
-  "ell",
-  "elm",
-  "els",
-  "eme",
-  "emf",
-  "ems",
-  "emu",
-  "end",
-  "eng",
-  "ens",
-  "eon",
-  "era",
-  "ere",
-  "erg",
-  "ern",
-  "err",
-  "ers",
-  "ess",
-  "eta",
-  "eth",
-  "eve",
-  "ewe",
-  "eye",
-  "fad",
-  "fan",
-  "far",
-  "fas",
-  "fat",
-  "fax",
-  "fay",
-  "fed",
-  "fee",
-  "feh",
-  "fem",
-  "fen",
-  "fer",
-  "fet",
-  "feu",
-  "few",
-  "fey",
-  "fez",
-  "fib",
-  "fid",
-  "fie",
-  "fig",
-  "fil",
-  "fin",
-  "fir",
-  "fit",
-  "fix",
-  "fiz",
-  "flu",
-  "fly",
-  "fob",
-  "foe",
-  "fog",
-  "foh",
-  "fon",
-  "fop",
-  "for",
-  "fou",
-  "fox",
-  "foy",
-  "fro",
-  "fry",
-  "fub",
-  "fud",
-  "fug",
-  "fun",
-  "fur",
-  "gab",
-  "gad",
-  "gae",
-  "gag",
-  "gal",
-  "gam",
-  "gan",
-  "gap",
-  "gar",
-  "gas",
-  "gat",
-  "gay",
-  "ged",
-  "gee",
-  "gel",
-  "gem",
-  "gen",
-  "get",
-  "gey",
-  "ghi",
-  "gib",
-  "gid",
-  "gie",
-  "gig",
-  "gin",
-  "gip",
-  "git",
-  "gnu",
-  "goa",
-  "gob",
-  "god",
-  "goo",
-  "gor",
-  "got",
-  "gox",
-  "goy",
-  "gul",
-  "gum",
-  "gun",
-  "gut",
-  "guv",
-  "guy",
-  "gym",
-  "gyp",
-  "had",
-  "hae",
-  "hag",
-  "hah",
-  "haj",
-  "ham",
-  "hao",
-  "hap",
-  "has",
-  "hat",
-  "haw",
-  "hay",
-  "heh",
-  "hem",
-  "hen",
-  "hep",
-  "her",
-  "hes",
-  "het",
-  "hew",
-  "hex",
-  "hey",
-  "hic",
-  "hid",
-  "hie",
-  "him",
-  "hin",
-  "hip",
-  "his",
-  "hit",
-  "hmm",
-  "hob",
-  "hod",
-  "hoe",
-  "hog",
-  "hon",
-  "hop",
-  "hot",
-  "how",
-  "hoy",
-  "hub",
-  "hue",
-  "hug",
-  "huh",
-  "hum",
-  "hun",
-  "hup",
-  "hut",
-  "hyp",
-  "ice",
-  "ich",
-  "ick",
-  "icy",
-  "ids",
-  "iff",
-  "ifs",
-  "ilk",
-  "ill",
-  "imp",
-  "ink",
-  "inn",
-  "ins",
-  "ion",
-  "ire",
-  "irk",
-  "ism",
-  "its",
-  "ivy",
-  "jab",
-  "jag",
-  "jam",
-  "jar",
-  "jaw",
-  "jay",
-  "jee",
-  "jet",
-  "jeu",
-  "jew",
-  "jib",
-  "jig",
-  "jin",
-  "job",
-  "joe",
-  "jog",
-  "jot",
-  "jow",
-  "joy",
-  "jug",
-  "jun",
-  "jus",
-  "jut",
-  "kab",
-  "kae",
-  "kaf",
-  "kas",
-  "kat",
-  "kay",
-  "kea",
-  "kef",
-  "keg",
-  "ken",
-  "kep",
-  "kex",
-  "key",
-  "khi",
-  "kid",
-  "kif",
-  "kin",
-  "kip",
-  "kir",
-  "kit",
-  "koa",
-  "kob",
-  "koi",
-  "kop",
-  "kor",
-  "kos",
-  "kue",
-  "lab",
-  "lac",
-  "lad",
-  "lag",
-  "lam",
-  "lap",
-  "lar",
-  "las",
-  "lat",
-  "lav",
-  "law",
-  "lax",
-  "lay",
-  "lea",
-  "led",
-  "lee",
-  "leg",
-  "lei",
-  "lek",
-  "let",
-  "leu",
-  "lev",
-  "lex",
-  "ley",
-  "lez",
-  "lib",
-  "lid",
-  "lie",
-  "lin",
-  "lip",
-  "lis",
-  "lit",
-  "lob",
-  "log",
-  "loo",
-  "lop",
-  "lot",
-  "low",
-  "lox",
-  "lug",
-  "lum",
-  "luv",
-  "lux",
-  "lye",
-  "mac",
-  "mad",
-  "mae",
-  "mag",
-  "man",
-  "map",
-  "mar",
-  "mas",
-  "mat",
-  "maw",
-  "max",
-  "may",
-  "med",
-  "mel",
-  "mem",
-  "men",
-  "met",
-  "mew",
-  "mho",
-  "mib",
-  "mid",
-  "mig",
-  "mil",
-  "mim",
-  "mir",
-  "mis",
-  "mix",
-  "moa",
-  "mob",
-  "moc",
-  "mod",
-  "mog",
-  "mol",
-  "mom",
-  "mon",
-  "moo",
-  "mop",
-  "mor",
-  "mos",
-  "mot",
-  "mow",
-  "mud",
-  "mug",
-  "mum",
-  "mun",
-  "mus",
-  "mut",
-  "nab",
-  "nae",
-  "nag",
-  "nah",
-  "nam",
-  "nan",
-  "nap",
-  "naw",
-  "nay",
-  "neb",
-  "nee",
-  "net",
-  "new",
-  "nib",
-  "nil",
-  "nim",
-  "nip",
-  "nit",
-  "nix",
-  "nob",
-  "nod",
-  "nog",
-  "noh",
-  "nom",
-  "noo",
-  "nor",
-  "nos",
-  "not",
-  "now",
-  "nth",
-  "nub",
-  "nun",
-  "nus",
-  "nut",
-  "oaf",
-  "oak",
-  "oar",
-  "oat",
-  "obe",
-  "obi",
-  "oca",
-  "odd",
-  "ode",
-  "ods",
-  "oes",
-  "off",
-  "oft",
-  "ohm",
-  "oho",
-  "ohs",
-  "oil",
-  "oka",
-  "oke",
-  "old",
-  "ole",
-  "oms",
-  "one",
-  "ons",
-  "ooh",
-  "oot",
-  "ope",
-  "ops",
-  "opt",
-  "ora",
-  "orb",
-  "orc",
-  "ore",
-  "ors",
-  "ort",
-  "ose",
-  "oud",
-  "our",
-  "out",
-  "ova",
-  "owe",
-  "owl",
-  "own",
-  "oxo",
-  "oxy",
-  "pac",
-  "pad",
-  "pah",
-  "pal",
-  "pam",
-  "pan",
-  "pap",
-  "par",
-  "pas",
-  "pat",
-  "paw",
-  "pax",
-  "pay",
-  "pea",
-  "pec",
-  "ped",
-  "pee",
-  "peg",
-  "peh",
-  "pen",
-  "pep",
-  "per",
-  "pes",
-  "pet",
-  "pew",
-  "phi",
-  "pht",
-  "pia",
-  "pic",
-  "pie",
-  "pig",
-  "pin",
-  "pip",
-  "pis",
-  "pit",
-  "piu",
-  "pix",
-  "ply",
-  "pod",
-  "poh",
-  "poi",
-  "pol",
-  "pom",
-  "pop",
-  "pot",
-  "pow",
-  "pox",
-  "pro",
-  "pry",
-  "psi",
-  "pub",
-  "pud",
-  "pug",
-  "pul",
-  "pun",
-  "pup",
-  "pur",
-  "pus",
-  "put",
-  "pya",
-  "pye",
-  "pyx",
-  "qat",
-  "qua",
-  "rad",
-  "rag",
-  "rah",
-  "raj",
-  "ram",
-  "ran",
-  "rap",
-  "ras",
-  "rat",
-  "raw",
-  "rax",
-  "ray",
-  "reb",
-  "rec",
-  "red",
-  "ree",
-  "ref",
-  "reg",
-  "rei",
-  "rem",
-  "rep",
-  "res",
-  "ret",
-  "rev",
-  "rex",
-  "rho",
-  "ria",
-  "rib",
-  "rid",
-  "rif",
-  "rig",
-  "rim",
-  "rin",
-  "rip",
-  "rob",
-  "roc",
-  "rod",
-  "roe",
-  "rom",
-  "rot",
-  "row",
-  "rub",
-  "rue",
-  "rug",
-  "rum",
-  "run",
-  "rut",
-  "rya",
-  "rye",
-  "sab",
-  "sac",
-  "sad",
-  "sae",
-  "sag",
-  "sal",
-  "sap",
-  "sat",
-  "sau",
-  "saw",
-  "sax",
-  "say",
-  "sea",
-  "sec",
-  "see",
-  "seg",
-  "sei",
-  "sel",
-  "sen",
-  "ser",
-  "set",
-  "sew",
-  "sex",
-  "sha",
-  "she",
-  "shh",
-  "shy",
-  "sib",
-  "sic",
-  "sim",
-  "sin",
-  "sip",
-  "sir",
-  "sis",
-  "sit",
-  "six",
-  "ska",
-  "ski",
-  "sky",
-  "sly",
-  "sob",
-  "sod",
-  "sol",
-  "son",
-  "sop",
-  "sos",
-  "sot",
-  "sou",
-  "sow",
-  "sox",
-  "soy",
-  "spa",
-  "spy",
-  "sri",
-  "sty",
-  "sub",
-  "sue",
-  "sum",
-  "sun",
-  "sup",
-  "suq",
-  "syn",
-  "tab",
-  "tad",
-  "tae",
-  "tag",
-  "taj",
-  "tam",
-  "tan",
-  "tao",
-  "tap",
-  "tar",
-  "tas",
-  "tat",
-  "tau",
-  "tav",
-  "taw",
-  "tax",
-  "tea",
-  "ted",
-  "tee",
-  "teg",
-  "tel",
-  "ten",
-  "tet",
-  "tew",
-  "the",
-  "tho",
-  "thy",
-  "tic",
-  "tie",
-  "til",
-  "tin",
-  "tip",
-  "tis",
-  "tit",
-  "tod",
-  "toe",
-  "tog",
-  "tom",
-  "ton",
-  "too",
-  "top",
-  "tor",
-  "tot",
-  "tow",
-  "toy",
-  "try",
-  "tsk",
-  "tub",
-  "tug",
-  "tui",
-  "tun",
-  "tup",
-  "tut",
-  "tux",
-  "twa",
-  "two",
-  "tye",
-  "udo",
-  "ugh",
-  "uke",
-  "ulu",
-  "umm",
-  "ump",
-  "uns",
-  "upo",
-  "ups",
-  "urb",
-  "urd",
-  "urn",
-  "use",
-  "uta",
-  "uts",
-  "vac",
-  "van",
-  "var",
-  "vas",
-  "vat",
-  "vau",
-  "vav",
-  "vaw",
-  "vee",
-  "veg",
-  "vet",
-  "vex",
-  "via",
-  "vie",
-  "vig",
-  "vim",
-  "vis",
-  "voe",
-  "vow",
-  "vox",
-  "vug",
-  "wab",
-  "wad",
-  "wae",
-  "wag",
-  "wan",
-  "wap",
-  "war",
-  "was",
-  "wat",
-  "waw",
-  "wax",
-  "way",
-  "web",
-  "wed",
-  "wee",
-  "wen",
-  "wet",
-  "wha",
-  "who",
-  "why",
-  "wig",
-  "win",
-  "wis",
-  "wit",
-  "wiz",
-  "woe",
-  "wog",
-  "wok",
-  "won",
-  "woo",
-  "wop",
-  "wos",
-  "wot",
-  "wow",
-  "wry",
-  "wud",
-  "wye",
-  "wyn",
-  "xis",
-  "yah",
-  "yak",
-  "yam",
-  "yap",
-  "yar",
-  "yaw",
-  "yay",
-  "yea",
-  "yeh",
-  "yen",
-  "yep",
-  "yes",
-  "yet",
-  "yew",
-  "yid",
-  "yin",
-  "yip",
-  "yob",
-  "yod",
-  "yok",
-  "yom",
-  "yon",
-  "you",
-  "yow",
-  "yuk",
-  "yum",
-  "yup",
-  "zag",
-  "zap",
-  "zax",
-  "zed",
-  "zee",
-  "zek",
-  "zig",
-  "zin",
-  "zip",
-  "zit",
-  "zoa",
-  "zoo",
-];
+export const words =
+  "3|0aah1ba2o2s2y1ce2t1dd2o2s2z1ff2t1ga2e2o1ha1id2l2m2n2r2s2t1la2b2e2l2p2s2t1ma0ami2p2u1na2d2e2i2t2y1pe2t1rb2c2e2f2k2m2s2t1sh2k2p2s1te2t1uk1va2e2o1wa2e2l0awn1xe1ye2s1zo0baa2d2g2h2l2m2n2p2r2s2t2y1ed2e2g2l2n2t2y1ib2d2g2n2o2s2t2z0boa2b2d2g2o2p2s2t2w2x2y1ra2o2r1ub2d2g2m2n2r2s2t2y1ye2s0cab2d2m2n2p2r2t0caw2y1ee2l2p1hi1is1ob2d2g2l2n2o2p2r2s2t2w2x2y2z1ry1ub2d2e2m2p2r2t1wm0dab2d0dag2h2k2l2m2p2w2y1eb2e2l2n2v2w2x2y1ib2d2e2g2m2n2p2s2t1oc2e2g2l2m2n2r0dos2t2w1ry1ub2d2e2g2i2n2o2p1ye0ear2t2u1bb1cu1dh1el1ff2s2t1gg2o1ke1ld2f2k2l2m2s0eme2f2s2u1nd2g2s1on1ra2e2g2n2r2s1ss1ta2h1ve1we1ye0fad2n2r2s2t2x2y1ed2e2h2m2n0fer2t2u2w2y2z1ib2d2e2g2l2n2r2t2x2z1lu2y1ob2e2g2h2n2p2r2u2x2y1ro2y1ub2d0fug2n2r0gab2d2e2g2l2m2n2p2r2s2t2y1ed2e2l2m2n2t2y1hi1ib2d2e2g2n2p2t1nu1oa0gob2d2o2r2t2x2y1ul2m2n2t2v2y1ym2p0had2e2g2h2j2m2o2p2s2t2w2y1eh2m2n2p2r0hes2t2w2x2y1ic2d2e2m2n2p2s2t1mm1ob2d2e2g2n2p2t2w2y1ub2e2g2h2m2n2p2t1yp0ice2h2k2y1ds1ff2s1lk2l1mp1nk2n2s1on1re2k1sm1ts1vy0jab2g2m2r2w2y1ee2t2u2w1ib2g2n0job2e2g2t2w2y1ug2n2s2t0kab2e2f2s2t2y1ea2f2g2n2p2x2y1hi1id2f2n2p2r2t1oa2b0koi2p2r2s1ue0lab2c2d2g2m2p2r2s2t2v2w2x2y1ea2d2e2g2i2k2t2u2v2x2y2z1ib2d0lie2n2p2s2t1ob2g2o2p2t2w2x1ug2m2v2x1ye0mac2d2e2g2n2p2r2s2t2w2x2y1ed2l2m0men2t2w1ho1ib2d2g2l2m2r2s2x1oa2b2c2d2g2l2m2n2o2p2r2s2t2w1ud2g2m2n2s2t0nab2e2g2h2m2n2p2w2y1eb2e2t2w1ib2l2m2p2t2x1ob2d2g2h2m2o2r2s2t2w1th1ub2n0nus2t0oaf2k2r2t1be2i1ca1dd2e2s1es1ff2t1hm2o2s1il1ka2e1ld2e1ms1ne2s1oh2t1pe2s2t1ra0orb2c2e2s2t1se1ud2r2t1va1we2l2n1xo2y0pac2d2h2l2m2n2p2r2s2t2w2x2y1ea2c2d2e0peg2h2n2p2r2s2t2w1hi2t1ia2c2e2g2n2p2s2t2u2x1ly1od2h2i2l2m2p2t2w2x1ro2y0psi1ub2d2g2l2n2p2r2s2t1ya2e2x0qat1ua0rad2g2h2j2m2n2p2s2t2w2x2y1eb2c2d2e2f0reg2i2m2p2s2t2v2x1ho1ia2b2d2f2g2m2n2p1ob2c2d2e2m2t2w1ub2e2g2m2n2t1ya2e0sab2c2d2e2g2l2p2t2u2w2x2y1ea2c2e2g2i2l2n2r2t2w2x1ha2e2h2y1ib2c2m2n2p0sir2s2t2x1ka2i2y1ly1ob2d2l2n2p2s2t2u2w2x2y1pa2y1ri1ty1ub2e2m2n2p2q1yn0tab2d0tae2g2j2m2n2o2p2r2s2t2u2v2w2x1ea2d2e2g2l2n2t2w1he2o2y1ic2e2l2n2p2s2t0tod2e2g2m2n2o2p2r2t2w2y1ry1sk1ub2g2i2n2p2t2x1wa2o1ye0udo1gh1ke1lu1mm2p1ns1po2s0urb2d2n1se1ta2s0vac2n2r2s2t2u2v2w1ee2g2t2x1ia2e2g2m2s1oe2w2x1ug0wab2d2e2g2n0wap2r2s2t2w2x2y1eb2d2e2n2t1ha2o2y1ig2n2s2t2z1oe2g2k2n2o2p2s2t2w1ry1ud1ye0wyn0xis0yah2k2m2p2r2w2y1ea2h2n2p2s2t2w1id2n2p1ob2d2k2m2n2u2w1uk2m2p0zag2p2x0zed2e2k1ig2n2p2t1oa2o";
@@ -1,98 +1,2 @@
-export const words = [
-  "aa",
-  "ab",
-  "ad",
-  "ae",
-  "ag",
-  "ah",
-  "ai",
-  "al",
-  "am",
-  "an",
-  "ar",
-  "as",
-  "at",
-  "aw",
-  "ax",
-  "ay",
-  "ba",
-  "be",
-  "bi",
-  "bo",
-  "by",
-  "de",
-  "do",
-  "ed",
-  "ef",
-  "eh",
-  "el",
-  "em",
-  "en",
-  "er",
-  "es",
-  "et",
-  "ex",
-  "fa",
-  "go",
-  "ha",
-  "he",
-  "hi",
-  "hm",
-  "ho",
-  "id",
-  "if",
-  "in",
-  "is",
-  "it",
-  "jo",
-  "ka",
-  "la",
-  "li",
-  "lo",
-  "ma",
-  "me",
-  "mi",
-  "mm",
-  "mo",
-  "mu",
-  "my",
-  "na",
-  "ne",
-  "no",
-  "nu",
-  "od",
-  "oe",
-  "of",
-  "oh",
-  "om",
-  "on",
-  "op",
-  "or",
-  "os",
-  "ow",
-  "ox",
-  "oy",
-  "pa",
-  "pe",
-  "pi",
-  "re",
-  "sh",
-  "si",
-  "so",
-  "ta",
-  "ti",
-  "to",
-  "uh",
-  "um",
-  "un",
-  "up",
-  "us",
-  "ut",
-  "we",
-  "wo",
-  "xi",
-  "xu",
-  "ya",
-  "ye",
-  "yo",
-];
+export const words =
+  "2|0aa1b1d1e1g1h1i1l1m1n1r1s1t1w1x1y0ba1e1i1o1y0de1o0ed1f1h1l1m1n1r1s1t0ex0fa0go0ha1e1i1m1o0id1f1n1s1t0jo0ka0la1i1o0ma1e1i1m1o1u1y0na1e1o1u0od1e1f0oh1m1n1p1r1s1w1x1y0pa1e1i0re0sh1i1o0ta1i1o0uh1m1n1p1s1t0we1o0xi1u0ya1e1o";
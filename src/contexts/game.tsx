@@ -1,12 +1,26 @@
-import React, { FC, createContext } from "react";
+import React, { FC, createContext, useContext } from "react";
 import { GameOptions, useGame } from "../hooks/useGame";
+import { PuzzleContext } from "./puzzle";
+import { Puzzle } from "../utils/puzzle-calendar";
 
 export const GameContext = createContext<GameOptions | null>(
   null,
 ) as React.Context<GameOptions>;
 
-export const GameProvider: FC<{}> = ({ children }) => {
-  const state = useGame();
+const PuzzleGameProvider: FC<{ puzzle: Puzzle }> = ({ puzzle, children }) => {
+  const state = useGame(puzzle);
 
   return <GameContext.Provider value={state}>{children}</GameContext.Provider>;
 };
+
+// The game is keyed by the puzzle's seed, so switching puzzles starts over
+// with a fresh game state instead of carrying over the previous puzzle's.
+export const GameProvider: FC<{}> = ({ children }) => {
+  const { puzzle } = useContext(PuzzleContext);
+
+  return (
+    <PuzzleGameProvider key={puzzle.seed} puzzle={puzzle}>
+      {children}
+    </PuzzleGameProvider>
+  );
+};
@@ -0,0 +1,30 @@
+import React, { FC, createContext } from "react";
+import { PuzzleOptions, useLocale, usePuzzle } from "../hooks/usePuzzle";
+import { Locale } from "../utils/locale";
+
+export const PuzzleContext = createContext<PuzzleOptions | null>(
+  null,
+) as React.Context<PuzzleOptions>;
+
+type LocalePuzzleProviderProps = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+};
+
+const LocalePuzzleProvider: FC<LocalePuzzleProviderProps> = ({ locale, setLocale, children }) => {
+  const state = usePuzzle(locale, setLocale);
+
+  return <PuzzleContext.Provider value={state}>{children}</PuzzleContext.Provider>;
+};
+
+// Keyed by the locale, so switching locales picks up that locale's practice
+// puzzle and starts on its daily puzzle.
+export const PuzzleProvider: FC<{}> = ({ children }) => {
+  const [locale, setLocale] = useLocale();
+
+  return (
+    <LocalePuzzleProvider key={locale} locale={locale} setLocale={setLocale}>
+      {children}
+    </LocalePuzzleProvider>
+  );
+};
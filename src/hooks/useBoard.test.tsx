@@ -0,0 +1,56 @@
+import { act, render } from "@testing-library/react";
+import { Letter } from "../utils/game";
+import { getPuzzle } from "../utils/puzzle-calendar";
+import { useBoard } from "./useBoard";
+
+const a: Letter = { id: "letter-a", letter: "a" };
+const b: Letter = { id: "letter-b", letter: "b" };
+
+// Renders the hook and hands back whatever it returned last.
+function mountBoard() {
+  const result = { current: null as unknown as ReturnType<typeof useBoard> };
+  const Harness = () => {
+    result.current = useBoard(getPuzzle(1800));
+    return null;
+  };
+  render(<Harness />);
+  return result;
+}
+
+beforeEach(() => localStorage.clear());
+
+describe("useBoard", () => {
+  it("undoes and redoes letters placed on the board", () => {
+    const hook = mountBoard();
+    act(() => hook.current.placeLetterAt(a, 0, 0));
+    act(() => hook.current.placeLetterAt(b, 0, 1));
+    expect(hook.current.canUndo).toBe(true);
+
+    act(() => hook.current.undo());
+    expect(hook.current.board.tiles[0][1].letter).toBeNull();
+    expect(hook.current.canRedo).toBe(true);
+
+    act(() => hook.current.redo());
+    expect(hook.current.board.tiles[0][1].letter).toEqual(b);
+    expect(hook.current.canRedo).toBe(false);
+  });
+
+  it("can't undo past a locked letter", () => {
+    const hook = mountBoard();
+    act(() => hook.current.placeLetterAt(a, 0, 0));
+    act(() => hook.current.undo());
+    expect(hook.current.canRedo).toBe(true);
+
+    act(() => hook.current.lockLetter(b, 1, 1));
+    expect(hook.current.canUndo).toBe(false);
+    expect(hook.current.canRedo).toBe(false);
+    expect(hook.current.board.tiles[1][1].letter).toEqual({ ...b, locked: true });
+  });
+
+  it("doesn't add a step when nothing changed", () => {
+    const hook = mountBoard();
+    act(() => hook.current.backspaceBoard());
+    act(() => hook.current.removeLetterAt(2, 2));
+    expect(hook.current.canUndo).toBe(false);
+  });
+});
@@ -1,25 +1,28 @@
-import React, { useCallback } from "react";
-import { v4 as uuidv4 } from "uuid";
-import { PersistedStates } from "../constants/state";
+import React, { useCallback, useMemo } from "react";
+import { getSeededStates } from "../constants/state";
+import { Board, Directions, Letter, moveBoard, updateCursorInDirection } from "../utils/game";
 import {
-  Board,
-  Config,
-  CursorDirections,
-  decrementCursor,
-  Directions,
-  getTileAtCursor,
-  incrementCursor,
-  Letter,
-  moveBoard,
-  TileChangeReason,
-  TileState,
-  updateCursorInDirection,
-} from "../utils/game";
+  backspaceAtCursor,
+  clearBoard,
+  createEmptyBoard,
+  flipCursorDirection as flipBoardCursorDirection,
+  lockLetterAt,
+  moveLetter as moveBoardLetter,
+  placeLetterAtCursor,
+  removeLetterAt as removeBoardLetterAt,
+  setCursorPosition,
+  setLetterAtPosition,
+} from "../utils/board-operations";
+import { getBoardConfig, Puzzle } from "../utils/puzzle-calendar";
+import {
+  BoardHistory,
+  emptyHistory,
+  recordChange,
+  redoHistory,
+  undoHistory,
+} from "../utils/board-history";
 import createPersistedState from "use-persisted-state";
 
-const usePersistedBoard = createPersistedState(PersistedStates.Board);
-const defaultBoard = initalizeBoard();
-
 type BoardOptions = {
   board: Board;
   setLetterOnBoard: (letter: Letter) => void;
@@ -30,16 +33,48 @@ type BoardOptions = {
   backspaceBoard: () => void;
   shiftBoard: (direction: Directions) => void;
   moveCursorInDirection: (direction: Directions) => void;
+  placeLetterAt: (letter: Letter, row: number, col: number) => void;
+  moveLetter: (from: [number, number], to: [number, number]) => void;
+  removeLetterAt: (row: number, col: number) => void;
+  lockLetter: (letter: Letter, row: number, col: number) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 };
 
-export const useBoard = (): BoardOptions => {
+export const useBoard = (puzzle: Puzzle): BoardOptions => {
+  const usePersistedBoard = useMemo(
+    () => createPersistedState(getSeededStates(puzzle.seed).Board),
+    [puzzle.seed],
+  );
+  const usePersistedHistory = useMemo(
+    () => createPersistedState(getSeededStates(puzzle.seed).History),
+    [puzzle.seed],
+  );
+  const defaultBoard = useMemo(() => createEmptyBoard(getBoardConfig(puzzle)), [puzzle.seed]); // eslint-disable-line react-hooks/exhaustive-deps
   const [board, setBoard] = usePersistedBoard(defaultBoard) as [Board, React.Dispatch<Board>];
+  const [history, setHistory] = usePersistedHistory(emptyHistory) as [
+    BoardHistory,
+    React.Dispatch<BoardHistory>,
+  ];
+
+  const commitBoard = (nextHistory: BoardHistory, newBoard: Board) => {
+    if (nextHistory !== history) setHistory(nextHistory);
+    setBoard(newBoard);
+  };
+
+  // Any change to the letters on the board gets an undo step. Cursor moves on
+  // their own don't, but every step remembers where the cursor was.
+  const updateBoard = (newBoard: Board) => {
+    commitBoard(recordChange(history, board, newBoard), newBoard);
+  };
 
   const shiftBoard = useCallback(
     (direction: Directions) => {
-      setBoard(moveBoard(board, direction));
+      updateBoard(moveBoard(board, direction));
     },
-    [board], // eslint-disable-line react-hooks/exhaustive-deps
+    [board, history], // eslint-disable-line react-hooks/exhaustive-deps
   );
 
   const moveCursorInDirection = useCallback(
@@ -51,58 +86,61 @@ export const useBoard = (): BoardOptions => {
 
   const setLetterOnBoard = useCallback(
     (letter: Letter) => {
-      const { row, col } = board.cursor;
-      const newCursor = incrementCursor(board);
-      const newTiles = board.tiles.slice();
-
-      // Set new tile.
-      newTiles[row][col].letter = letter;
-      newTiles[row][col].state = TileState.IDLE;
-      newTiles[row][col].changeReason = TileChangeReason.LETTER;
-
-      setBoard({ cursor: newCursor, tiles: newTiles });
+      updateBoard(placeLetterAtCursor(board, letter));
     },
-    [board], // eslint-disable-line react-hooks/exhaustive-deps
+    [board, history], // eslint-disable-line react-hooks/exhaustive-deps
   );
 
   const backspaceBoard = useCallback(() => {
-    const { row, col } = board.cursor;
-    const currentTileHasLetter = getTileAtCursor(board);
+    updateBoard(backspaceAtCursor(board));
+  }, [board, history]); // eslint-disable-line react-hooks/exhaustive-deps
 
-    // Letter on current tile, just delete it and move backwards like normal.
-    if (currentTileHasLetter.letter) {
-      const newCursor = decrementCursor(board);
-      const newTiles = board.tiles.slice();
+  const placeLetterAt = useCallback(
+    (letter: Letter, row: number, col: number) => {
+      updateBoard(setLetterAtPosition(board, row, col, letter));
+    },
+    [board, history], // eslint-disable-line react-hooks/exhaustive-deps
+  );
 
-      // Set new tile.
-      newTiles[row][col].letter = null;
-      newTiles[row][col].state = TileState.IDLE;
-      newTiles[row][col].changeReason = undefined;
+  const moveLetter = useCallback(
+    (from: [number, number], to: [number, number]) => {
+      updateBoard(moveBoardLetter(board, from, to));
+    },
+    [board, history], // eslint-disable-line react-hooks/exhaustive-deps
+  );
 
-      return setBoard({ cursor: newCursor, tiles: newTiles });
-    }
+  const removeLetterAt = useCallback(
+    (row: number, col: number) => {
+      updateBoard(removeBoardLetterAt(board, row, col));
+    },
+    [board, history], // eslint-disable-line react-hooks/exhaustive-deps
+  );
 
-    // No letter on current tile, we want to delete the letter before the next
-    // decemented cursor.
-    const newCursor = decrementCursor(board);
-    const newTiles = board.tiles.slice();
+  // Locked letters come from hints, which can't be taken back, so the history
+  // starts over from here instead of being able to undo past the lock.
+  const lockLetter = useCallback(
+    (letter: Letter, row: number, col: number) => {
+      setHistory(emptyHistory);
+      setBoard(lockLetterAt(board, letter, row, col));
+    },
+    [board], // eslint-disable-line react-hooks/exhaustive-deps
+  );
 
-    // Set new tile.
-    newTiles[newCursor.row][newCursor.col].letter = null;
-    newTiles[newCursor.row][newCursor.col].state = TileState.IDLE;
-    newTiles[newCursor.row][newCursor.col].changeReason = undefined;
+  const resetBoard = useCallback(() => {
+    updateBoard(clearBoard(board));
+  }, [board, history]); // eslint-disable-line react-hooks/exhaustive-deps
 
-    setBoard({ cursor: newCursor, tiles: newTiles });
-  }, [board]); // eslint-disable-line react-hooks/exhaustive-deps
+  const undo = useCallback(() => {
+    const result = undoHistory(history, board);
+    if (!result) return;
+    commitBoard(...result);
+  }, [board, history]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  const resetBoard = useCallback(() => {
-    setBoard({
-      ...board,
-      tiles: board.tiles.map((row) =>
-        row.map((tile) => ({ ...tile, letter: null, changeReason: undefined })),
-      ),
-    });
-  }, [board]); // eslint-disable-line react-hooks/exhaustive-deps
+  const redo = useCallback(() => {
+    const result = redoHistory(history, board);
+    if (!result) return;
+    commitBoard(...result);
+  }, [board, history]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const publicSetBoard = useCallback(
     (board: Board) => setBoard(board),
@@ -110,41 +148,12 @@ export const useBoard = (): BoardOptions => {
   );
 
   const flipCursorDirection = useCallback(() => {
-    setBoard({
-      ...board,
-      cursor: {
-        ...board.cursor,
-        direction:
-          board.cursor.direction === CursorDirections.LeftToRight
-            ? CursorDirections.TopToBottom
-            : CursorDirections.LeftToRight,
-      },
-    });
+    setBoard(flipBoardCursorDirection(board));
   }, [board]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const updateCursor = useCallback(
     (row: number, col: number) => {
-      if (board.cursor.row === row && board.cursor.col === col) {
-        setBoard({
-          ...board,
-          cursor: {
-            ...board.cursor,
-            direction:
-              board.cursor.direction === CursorDirections.LeftToRight
-                ? CursorDirections.TopToBottom
-                : CursorDirections.LeftToRight,
-          },
-        });
-      } else {
-        setBoard({
-          ...board,
-          cursor: {
-            ...board.cursor,
-            row,
-            col,
-          },
-        });
-      }
+      setBoard(setCursorPosition(board, row, col));
     },
     [board], // eslint-disable-line react-hooks/exhaustive-deps
   );
@@ -159,26 +168,13 @@ export const useBoard = (): BoardOptions => {
     backspaceBoard,
     shiftBoard,
     moveCursorInDirection,
+    placeLetterAt,
+    moveLetter,
+    removeLetterAt,
+    lockLetter,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
   };
 };
-
-function initalizeBoard(): Board {
-  const initalCursor = {
-    row: 0,
-    col: 0,
-    direction: CursorDirections.LeftToRight,
-  };
-
-  const tiles = new Array(Config.TileCount).fill(null).map((_, row) =>
-    new Array(Config.TileCount).fill(null).map((_, col) => ({
-      id: uuidv4(),
-      row,
-      col,
-      letter: null,
-      state: TileState.IDLE,
-      changeReason: undefined,
-    })),
-  );
-
-  return { cursor: initalCursor, tiles };
-}
@@ -1,35 +1,37 @@
 import React from "react";
 import { Camera, Point } from "../types/canvas";
 import {
+  BoardSize,
   centerCameraAt,
+  getCenteredCamera,
   panCameraBy,
   updateCamera,
   zoomCameraTo,
 } from "../utils/camera";
-import { Bounds, getBox } from "../utils/canvas";
+import { getBox } from "../utils/canvas";
 
 type CameraOptions = {
   camera: Camera;
   zoomCamera: (center: Point, dz: number) => void;
   panCamera: (dx: number, dy: number) => void;
   panCameraTo: (x: number, y: number) => void;
+  resetCamera: () => void;
 };
 
-export const useCamera = (): CameraOptions => {
+export const useCamera = (board: BoardSize): CameraOptions => {
   const { width, height } = getBox();
-  const [camera, setCamera] = React.useState<Camera>({
-    x: -(Bounds.maxX - width) / 2,
-    y: -(Bounds.maxY - height) / 2,
-    z: 1,
-  });
+  const [camera, setCamera] = React.useState<Camera>(() =>
+    getCenteredCamera(getBox(), board),
+  );
+
+  const resetCamera = React.useCallback(() => {
+    setCamera(getCenteredCamera(getBox(), board));
+  }, [setCamera, board.width, board.height]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Re-center whenever the canvas changes size.
   React.useEffect(() => {
-    setCamera({
-      x: -(Bounds.maxX - width) / 2,
-      y: -(Bounds.maxY - height) / 2,
-      z: 1,
-    });
-  }, [height, width]);
+    resetCamera();
+  }, [height, width, resetCamera]);
 
   const panCameraTo = React.useCallback(
     (x: number, y: number) => {
@@ -65,5 +67,6 @@ export const useCamera = (): CameraOptions => {
     zoomCamera,
     panCamera,
     panCameraTo,
+    resetCamera,
   };
 };
@@ -1,23 +1,44 @@
-import React, { useCallback, useContext, useMemo } from "react";
-import { Board, Config, Directions, getPuzzleNumber, Letter, TileState } from "../utils/game";
+import React, { useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { Board, BoardConfig, Directions, Letter, TileState } from "../utils/game";
 import {
   countValidLettersOnBoard,
+  getWordFeedback,
   validateBoard,
   validateWordIsland,
+  WordFeedback,
 } from "../utils/board-validator";
 import { useBoard } from "./useBoard";
 import { useLetters } from "./useLetters";
 import { SolutionBoard } from "../utils/words-helper";
+import { getBoardConfig, Puzzle, PuzzleMode } from "../utils/puzzle-calendar";
+import { boardToSolutionBoard, getResultMarkers } from "../utils/stats";
+import { useStats } from "./useStats";
 import createPersistedState from "use-persisted-state";
-import { PersistedStates } from "../constants/state";
+import { getSeededStates, PersistedStates } from "../constants/state";
 import { ModalsContext } from "../contexts/modals";
 import { ToastContext } from "../contexts/toast";
+import { Difficulty } from "../utils/difficulty";
+import {
+  getLongestWordLetters,
+  HintKind,
+  pickLetterToLock,
+  pickWordToReveal,
+  UsedHint,
+} from "../utils/hints";
+import { DefaultLocale, getLocale } from "../utils/locale";
 
-const useIsGameOver = createPersistedState(PersistedStates.GameOver);
 const useHardMode = createPersistedState(PersistedStates.HardMode);
+const useAssistMode = createPersistedState(PersistedStates.AssistMode);
 
 export type GameOptions = {
+  puzzle: Puzzle;
+  config: BoardConfig;
+  // True while the puzzle is still being generated.
+  loading: boolean;
+  loadingFailed: boolean;
+  retryLoading: () => void;
   solutionBoard: SolutionBoard;
+  difficulty: Difficulty;
   isGameOver: boolean;
   board: Board;
   letters: Letter[];
@@ -34,14 +55,60 @@ export type GameOptions = {
   getShareLink: () => string;
   shiftBoard: (direction: Directions) => void;
   moveCursorInDirection: (direction: Directions) => void;
+  placeLetterAt: (letter: Letter, row: number, col: number) => void;
+  moveLetter: (from: [number, number], to: [number, number]) => void;
+  removeLetterAt: (row: number, col: number) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  hints: UsedHint[];
+  requestHint: (kind: HintKind) => boolean;
+  assistMode: boolean;
+  // Only calculated while assist mode is on.
+  wordFeedback: (WordFeedback | null)[][] | null;
+  tilesAreConnected: boolean;
 };
 
-export const useGame = (): GameOptions => {
+export const useGame = (puzzle: Puzzle): GameOptions => {
   const { openStats } = useContext(ModalsContext);
-  const { clearToast } = useContext(ToastContext);
+  const { sendToast, clearToast } = useContext(ToastContext);
+  const useIsGameOver = useMemo(
+    () => createPersistedState(getSeededStates(puzzle.seed).GameOver),
+    [puzzle.seed],
+  );
+  const useUsedHints = useMemo(
+    () => createPersistedState(getSeededStates(puzzle.seed).Hints),
+    [puzzle.seed],
+  );
+  const useWasAssisted = useMemo(
+    () => createPersistedState(getSeededStates(puzzle.seed).Assisted),
+    [puzzle.seed],
+  );
   const [isGameOver, setIsGameOver] = useIsGameOver(false);
+  const [assistMode] = useAssistMode(false) as [boolean, React.Dispatch<boolean>];
+  const [wasAssisted, setWasAssisted] = useWasAssisted(false) as [boolean, React.Dispatch<boolean>];
+  const [hints, setHints] = useUsedHints([]) as [UsedHint[], React.Dispatch<UsedHint[]>];
+  const config = useMemo(() => getBoardConfig(puzzle), [puzzle]);
+  const { dictionary } = getLocale(puzzle.locale);
+  // The extra words are only fetched once something has to check words, so
+  // they never hold up showing the board.
+  const [dictionaryLoaded, setDictionaryLoaded] = useState(dictionary.isLoaded);
+  const loadDictionary = useCallback(
+    () => dictionary.load().then(() => setDictionaryLoaded(true)),
+    [dictionary],
+  );
   const [hardMode] = useHardMode(false);
-  const { letters, solutionBoard, shuffleLetters } = useLetters();
+  const { recordResult } = useStats(puzzle.mode, puzzle.locale, puzzle.variant);
+  const {
+    loading,
+    loadingFailed,
+    retryLoading,
+    letters,
+    solutionBoard,
+    difficulty,
+    shuffleLetters,
+  } = useLetters(puzzle);
   const {
     board,
     setLetterOnBoard,
@@ -52,10 +119,37 @@ export const useGame = (): GameOptions => {
     flipCursorDirection,
     shiftBoard,
     moveCursorInDirection,
-  } = useBoard();
+    placeLetterAt,
+    moveLetter,
+    removeLetterAt,
+    lockLetter,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useBoard(puzzle);
 
   const tilesAreConnected = React.useMemo(() => validateWordIsland(board), [board]);
 
+  const wordFeedback = React.useMemo(
+    () => (assistMode && dictionaryLoaded ? getWordFeedback(board, dictionary) : null),
+    [assistMode, dictionaryLoaded, board, dictionary],
+  );
+
+  useEffect(() => {
+    if (assistMode && !dictionaryLoaded) {
+      loadDictionary().catch(() => sendToast("Couldn't load the words for assist mode."));
+    }
+  }, [assistMode]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Turning on assist mode at any point during a game marks that game as
+  // assisted, even if it gets turned back off before finishing.
+  useEffect(() => {
+    if (assistMode && !isGameOver && !wasAssisted) {
+      setWasAssisted(true);
+    }
+  }, [assistMode, isGameOver, wasAssisted]); // eslint-disable-line react-hooks/exhaustive-deps
+
   const boardLetterIds = React.useMemo(
     () =>
       new Set(
@@ -70,18 +164,18 @@ export const useGame = (): GameOptions => {
 
   const canFinish = useMemo(() => {
     if (hardMode) {
-      return tilesAreConnected && boardLetterIds.size === Config.MaxLetters;
+      return tilesAreConnected && boardLetterIds.size === config.letterCount;
     } else {
       return tilesAreConnected && boardLetterIds.size > 5;
     }
-  }, [hardMode, tilesAreConnected, boardLetterIds]);
+  }, [hardMode, tilesAreConnected, boardLetterIds, config]);
 
-  const requestFinish = useCallback(() => {
-    if (!canFinish) return;
-    clearToast();
+  // Set while waiting on the words, so finishing twice doesn't record twice.
+  const finishing = useRef(false);
 
+  const finish = useCallback(() => {
     // Validate the board.
-    const [newBoard] = validateBoard(board);
+    const [newBoard] = validateBoard(board, dictionary);
 
     // Animate the tiles.
     setBoard(newBoard);
@@ -89,24 +183,95 @@ export const useGame = (): GameOptions => {
     // End the game.
     setIsGameOver(true);
 
+    // Save the game to the play history.
+    recordResult({
+      mode: puzzle.mode,
+      puzzleNumber: puzzle.number,
+      seed: puzzle.seed,
+      score: countValidLettersOnBoard(newBoard),
+      hardMode: !!hardMode,
+      board: boardToSolutionBoard(newBoard),
+      finishedAt: Date.now(),
+      hints: hints.map(({ kind }) => kind),
+      assisted: wasAssisted,
+      difficulty,
+    });
+
     // Show the stats modal.
     setTimeout(openStats, 2000);
-  }, [board, canFinish, clearToast]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [board, hardMode, recordResult, puzzle, hints, wasAssisted]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const requestFinish = useCallback(() => {
+    if (!canFinish || finishing.current) return;
+    clearToast();
+
+    finishing.current = true;
+    loadDictionary()
+      .then(finish, () => sendToast("Couldn't load the words to check your board."))
+      .then(() => {
+        finishing.current = false;
+      });
+  }, [canFinish, clearToast, finish, loadDictionary]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Returns false when there's no hint of that kind left to give.
+  const requestHint = useCallback(
+    (kind: HintKind) => {
+      if (isGameOver) return false;
+
+      let hint: UsedHint | null = null;
+      switch (kind) {
+        case HintKind.RevealWord:
+          hint = pickWordToReveal(solutionBoard, hints);
+          break;
+        case HintKind.LockLetter:
+          hint = pickLetterToLock(solutionBoard, board, letters);
+          break;
+        case HintKind.LongestWord:
+          // Always points at the same letters, so there's no use asking twice.
+          hint = hints.some((hint) => hint.kind === HintKind.LongestWord)
+            ? null
+            : getLongestWordLetters(solutionBoard, letters);
+          break;
+      }
+
+      if (!hint) return false;
+
+      if (hint.kind === HintKind.LockLetter) {
+        const { letterId, position } = hint;
+        const letter = letters.find(({ id }) => id === letterId) as Letter;
+        lockLetter(letter, position.row, position.col);
+      }
+
+      setHints(hints.concat(hint));
+      return true;
+    },
+    [isGameOver, solutionBoard, hints, board, letters, lockLetter], // eslint-disable-line react-hooks/exhaustive-deps
+  );
 
   const unusedLetters = letters.filter((letter) => !boardLetterIds.has(letter.id));
 
   const getShareLink = useCallback(() => {
     return [
-      `Crosswordle ${getPuzzleNumber()} ${countValidLettersOnBoard(board)}/${
-        Config.MaxLetters
-      }${hardMode ? "*" : ""}`,
+      `Crosswordle ${getLocaleTag(puzzle)}${
+        puzzle.mode === PuzzleMode.Practice ? "Practice" : puzzle.number
+      } ${countValidLettersOnBoard(board)}/${config.letterCount}${getResultMarkers({
+        hardMode: !!hardMode,
+        hints: hints.map(({ kind }) => kind),
+        assisted: wasAssisted,
+      })}`,
       "",
       getEmojiBoard(board),
     ].join("\n");
-  }, [board, hardMode]);
+  }, [board, hardMode, puzzle, config, hints, wasAssisted]);
 
   return {
+    puzzle,
+    config,
+    loading,
+    loadingFailed,
+    retryLoading,
     solutionBoard,
+    difficulty,
     board,
     letters,
     unusedLetters,
@@ -121,6 +286,18 @@ export const useGame = (): GameOptions => {
     backspaceBoard,
     shiftBoard,
     moveCursorInDirection,
+    placeLetterAt,
+    moveLetter,
+    removeLetterAt,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    hints,
+    requestHint,
+    assistMode,
+    wordFeedback,
+    tilesAreConnected,
     isGameOver: isGameOver as boolean,
     getShareLink,
   };
@@ -150,3 +327,9 @@ function getEmojiBoard(board: Board) {
 
   return boardString;
 }
+
+// Shared results from other languages say which one, so they aren't mixed up
+// with the English puzzle of the same number.
+function getLocaleTag(puzzle: Puzzle) {
+  return puzzle.locale === DefaultLocale ? "" : `${puzzle.locale.toUpperCase()} `;
+}
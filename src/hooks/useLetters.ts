@@ -1,39 +1,90 @@
-import React, { useCallback, useEffect } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { Letter, shuffle } from "../utils/game";
-import { getTodaysLetters } from "../utils/generator";
-import { SolutionBoard } from "../utils/words-helper";
+import { createBoard, SolutionBoard } from "../utils/words-helper";
 import createPersistedState from "use-persisted-state";
-import { PersistedStates } from "../constants/state";
-
-const usePersistedLetters = createPersistedState(PersistedStates.Letters);
-const [todaysBoard, todaysLetters] = getTodaysLetters();
+import { getSeededStates } from "../constants/state";
+import { getBoardConfig, Puzzle } from "../utils/puzzle-calendar";
+import { Difficulty, rateDifficulty } from "../utils/difficulty";
+import { requestPuzzle } from "../utils/puzzle-loader";
+import { getScheduledPuzzle } from "../utils/puzzle-schedule";
+import { getLocale } from "../utils/locale";
 
 type LettersOptions = {
+  // True until the puzzle has been generated. The solution board is empty and
+  // there might not be any letters until then.
+  loading: boolean;
+  // True when the puzzle couldn't be built, until `retryLoading` is called.
+  loadingFailed: boolean;
+  retryLoading: () => void;
   solutionBoard: SolutionBoard;
   letters: Letter[];
+  difficulty: Difficulty;
   shuffleLetters: () => void;
 };
 
-export const useLetters = (): LettersOptions => {
-  const [letters, setLetters] = usePersistedLetters(todaysLetters) as [
+export const useLetters = (puzzle: Puzzle): LettersOptions => {
+  const usePersistedLetters = useMemo(
+    () => createPersistedState(getSeededStates(puzzle.seed).Letters),
+    [puzzle.seed],
+  );
+  const { dictionary, letters: bag } = getLocale(puzzle.locale);
+  // Scheduled puzzles are ready right away, so there's no loading state to
+  // flash for those. Only building a puzzle has to wait for the extra words.
+  const [generated, setGenerated] = useState(() => getScheduledPuzzle(puzzle) ?? null);
+  const emptyBoard = useMemo(() => createBoard(getBoardConfig(puzzle)), [puzzle.seed]); // eslint-disable-line react-hooks/exhaustive-deps
+  const puzzleBoard = generated ? generated[0] : emptyBoard;
+  const difficulty = useMemo(
+    () => rateDifficulty(puzzleBoard, dictionary, bag),
+    [puzzleBoard, dictionary, bag],
+  );
+  const [loadingFailed, setLoadingFailed] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+  const [letters, setLetters] = usePersistedLetters(generated ? generated[1] : []) as [
     Letter[],
     React.Dispatch<Letter[]>,
   ];
 
+  useEffect(() => {
+    if (generated) return;
+
+    let cancelled = false;
+    requestPuzzle(puzzle)
+      .then((result) => {
+        if (!cancelled) setGenerated(result);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadingFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [puzzle.seed, attempt]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // The words might not have downloaded, so it's worth another go.
+  const retryLoading = useCallback(() => {
+    setLoadingFailed(false);
+    setAttempt((attempt) => attempt + 1);
+  }, []);
+
   const shuffleLetters = useCallback(() => {
     setLetters(shuffle(letters));
   }, [letters]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // This shuffles the letters when the page loads which is nice,
-  // but more importantly it sets the letters into our persisted state.
-  // This makes sure the board is synced up with
+  // This sets the letters into our persisted state once the puzzle is ready.
+  // This makes sure the board is synced up with the rack. The initial order
+  // comes from the puzzle's seed, so we don't shuffle here.
   useEffect(() => {
-    shuffleLetters();
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+    if (!generated) return;
+    setLetters(letters.length > 0 ? letters : generated[1]);
+  }, [generated]); // eslint-disable-line react-hooks/exhaustive-deps
 
   return {
-    solutionBoard: todaysBoard,
+    loading: !generated && !loadingFailed,
+    loadingFailed,
+    retryLoading,
+    solutionBoard: puzzleBoard,
     letters,
+    difficulty,
     shuffleLetters,
   };
 };
@@ -0,0 +1,93 @@
+import { render } from "@testing-library/react";
+import { getLocaleStates, getSeededStates } from "../constants/state";
+import { Locale } from "../utils/locale";
+import { getPuzzleSeed, todaysPuzzle } from "../utils/puzzle-calendar";
+import { useLocalStorageGC } from "./useLocalStorageGC";
+
+function save(seed: string, finished = false) {
+  const states = getSeededStates(seed);
+  localStorage.setItem(states.Board, "{}");
+  localStorage.setItem(states.GameOver, JSON.stringify(finished));
+}
+
+function isSaved(seed: string) {
+  return localStorage.getItem(getSeededStates(seed).Board) !== null;
+}
+
+function collect(keepSeeds: (string | null)[] = []) {
+  const Harness = () => {
+    useLocalStorageGC(keepSeeds);
+    return null;
+  };
+  render(<Harness />);
+}
+
+beforeEach(() => localStorage.clear());
+
+describe("useLocalStorageGC", () => {
+  it("keeps today's puzzles and the ones it's told to", () => {
+    const today = getPuzzleSeed(todaysPuzzle.number);
+    const todayInSpanish = getPuzzleSeed(todaysPuzzle.number, Locale.Spanish);
+    [today, todayInSpanish, "puzzle-40", "practice-abc"].forEach((seed) => save(seed, true));
+
+    collect(["puzzle-40", "practice-abc"]);
+    [today, todayInSpanish, "puzzle-40", "practice-abc"].forEach((seed) =>
+      expect(isSaved(seed)).toBe(true),
+    );
+  });
+
+  it("removes finished puzzles and keeps unfinished ones", () => {
+    save("puzzle-40", true);
+    save("puzzle-41");
+    save("9182026", true);
+    save("9172026");
+
+    collect();
+    expect(isSaved("puzzle-40")).toBe(false);
+    expect(isSaved("puzzle-41")).toBe(true);
+    expect(isSaved("9182026")).toBe(false);
+    expect(isSaved("9172026")).toBe(true);
+  });
+
+  it("only keeps the practice puzzle that's stored for each locale", () => {
+    localStorage.setItem(getLocaleStates(Locale.German).PracticeSeed, '"practice-de-new"');
+    save("practice-de-new");
+    save("practice-de-old");
+    save("practice-mini-old");
+
+    collect();
+    expect(isSaved("practice-de-new")).toBe(true);
+    expect(isSaved("practice-de-old")).toBe(false);
+    expect(isSaved("practice-mini-old")).toBe(false);
+  });
+
+  it("keeps the 20 newest unfinished puzzles", () => {
+    const newest = new Array(20).fill(null).map((_, i) => `puzzle-${1760 + i}`);
+    newest.forEach((seed) => save(seed));
+    save("9182026");
+    save("puzzle-es-1759");
+
+    collect();
+    newest.forEach((seed) => expect(isSaved(seed)).toBe(true));
+    expect(isSaved("9182026")).toBe(false);
+    expect(isSaved("puzzle-es-1759")).toBe(false);
+  });
+
+  it("removes seeds that don't belong to any puzzle", () => {
+    save("9992026");
+    save("not-a-seed");
+
+    collect();
+    expect(isSaved("9992026")).toBe(false);
+    expect(isSaved("not-a-seed")).toBe(false);
+  });
+
+  it("leaves everything else alone", () => {
+    localStorage.setItem("something-else", "1");
+    localStorage.setItem(getLocaleStates(Locale.English).Stats, "[]");
+
+    collect();
+    expect(localStorage.getItem("something-else")).toBe("1");
+    expect(localStorage.getItem(getLocaleStates(Locale.English).Stats)).toBe("[]");
+  });
+});
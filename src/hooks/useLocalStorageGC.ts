@@ -1,6 +1,11 @@
 import { useCallback, useEffect } from "react";
-import { PersistedStorage } from "../constants/state";
-import { seed as todaySeed } from "../utils/words-helper";
+import { getLocaleStates, getSeededStates, PersistedStorage } from "../constants/state";
+import { Locale } from "../utils/locale";
+import { getPuzzleNumberFromSeed, getPuzzleSeed, todaysPuzzle } from "../utils/puzzle-calendar";
+
+// Unfinished archive puzzles past this many (the oldest ones first) get
+// cleaned up too, so they can't fill up storage.
+const MaxUnfinishedArchiveSeeds = 20;
 
 function getKeys() {
   return Object.keys(localStorage);
@@ -10,23 +15,64 @@ function deleteKey(key: string) {
   return localStorage.removeItem(key);
 }
 
-export const useLocalStorageGC = () => {
+function isFinished(seed: string) {
+  return localStorage.getItem(getSeededStates(seed).GameOver) === "true";
+}
+
+// Stored the way use-persisted-state stores it, as JSON.
+function getPracticeSeed(locale: Locale): string | null {
+  try {
+    return JSON.parse(localStorage.getItem(getLocaleStates(locale).PracticeSeed) ?? "null");
+  } catch {
+    return null;
+  }
+}
+
+// Every locale has a practice puzzle and a daily puzzle to come back to.
+function getSeedsToKeep() {
+  return Object.values(Locale).flatMap((locale) => [
+    getPuzzleSeed(todaysPuzzle.number, locale),
+    getPracticeSeed(locale),
+  ]);
+}
+
+// Old puzzles are cleaned up once they're finished, since their results
+// already live in the play history. Unfinished ones are kept around so they
+// can be picked back up from the archive, up to a point. Practice puzzles
+// can't be picked back up once a new one's started, so those go right away,
+// and so does anything with a seed that isn't any puzzle's.
+// Any seeds in `keepSeeds` (like the puzzle being played) are never cleaned up.
+export const useLocalStorageGC = (keepSeeds: (string | null)[]) => {
   const clean = useCallback(() => {
-    const oldSeededKeys = getKeys()
-      .filter(
-        (key) =>
-          key.indexOf(PersistedStorage.Stamp) > -1 &&
-          key.indexOf(PersistedStorage.SeedDivider) > -1,
-      )
-      .filter((key) => {
-        const [seed] = key.split(PersistedStorage.SeedDivider);
-        return seed !== todaySeed;
-      });
+    const seededKeys = getKeys().filter(
+      (key) =>
+        key.indexOf(PersistedStorage.Stamp) > -1 && key.indexOf(PersistedStorage.SeedDivider) > -1,
+    );
+    const keptSeeds = keepSeeds.concat(getSeedsToKeep());
+    const seeds = Array.from(
+      new Set(seededKeys.map((key) => key.split(PersistedStorage.SeedDivider)[0])),
+    ).filter((seed) => !keptSeeds.includes(seed));
+
+    const numbers = new Map(seeds.map((seed) => [seed, getPuzzleNumberFromSeed(seed)]));
+    const isArchiveSeed = (seed: string) => numbers.get(seed) !== null;
+
+    const unfinishedArchiveSeeds = seeds
+      .filter((seed) => isArchiveSeed(seed) && !isFinished(seed))
+      .sort((a, b) => (numbers.get(b) as number) - (numbers.get(a) as number));
+    const oldSeeds = new Set(
+      seeds
+        .filter((seed) => !isArchiveSeed(seed) || isFinished(seed))
+        .concat(unfinishedArchiveSeeds.slice(MaxUnfinishedArchiveSeeds)),
+    );
+
+    const oldSeededKeys = seededKeys.filter((key) =>
+      oldSeeds.has(key.split(PersistedStorage.SeedDivider)[0]),
+    );
 
     for (const oldKey of oldSeededKeys) {
       deleteKey(oldKey);
     }
-  }, []);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   useEffect(() => clean(), []); // eslint-disable-line react-hooks/exhaustive-deps
 
@@ -8,9 +8,13 @@ export type ModalsOptions = {
   openInstructions: () => void;
   openStats: () => void;
   openSettings: () => void;
+  openArchive: () => void;
+  openHints: () => void;
   isInstructionsOpen: boolean;
   isStatsOpen: boolean;
   isSettingsOpen: boolean;
+  isArchiveOpen: boolean;
+  isHintsOpen: boolean;
   isAnyModalOpen: boolean;
   closeModal: () => void;
 };
@@ -19,6 +23,8 @@ enum Modal {
   Instructions,
   Stats,
   Settings,
+  Archive,
+  Hints,
 }
 
 export const useModals = (): ModalsOptions => {
@@ -32,14 +38,20 @@ export const useModals = (): ModalsOptions => {
   const openInstructions = useCallback(() => setOpenModal(Modal.Instructions), []);
   const openStats = useCallback(() => setOpenModal(Modal.Stats), []);
   const openSettings = useCallback(() => setOpenModal(Modal.Settings), []);
+  const openArchive = useCallback(() => setOpenModal(Modal.Archive), []);
+  const openHints = useCallback(() => setOpenModal(Modal.Hints), []);
 
   return {
     openInstructions,
     openStats,
     openSettings,
+    openArchive,
+    openHints,
     isInstructionsOpen: openModal === Modal.Instructions,
     isStatsOpen: openModal === Modal.Stats,
     isSettingsOpen: openModal === Modal.Settings,
+    isArchiveOpen: openModal === Modal.Archive,
+    isHintsOpen: openModal === Modal.Hints,
     isAnyModalOpen: openModal !== null,
     closeModal,
   };
@@ -0,0 +1,98 @@
+import React, { useCallback, useState } from "react";
+import createPersistedState from "use-persisted-state";
+import { getLocaleStates, PersistedStates } from "../constants/state";
+import { BoardVariant } from "../utils/game";
+import { DefaultLocale, Locale } from "../utils/locale";
+import {
+  createPracticeSeed,
+  getPracticePuzzle,
+  getPuzzle,
+  Puzzle,
+  PuzzleMode,
+  todaysPuzzle,
+} from "../utils/puzzle-calendar";
+
+const usePersistedLocale = createPersistedState(PersistedStates.Locale);
+
+export type PuzzleOptions = {
+  puzzle: Puzzle;
+  practiceSeed: string | null;
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  openDailyPuzzle: () => void;
+  openArchivePuzzle: (puzzleNumber: number) => void;
+  openPracticePuzzle: () => void;
+  newPracticePuzzle: (variant?: BoardVariant) => void;
+};
+
+export const useLocale = (): [Locale, (locale: Locale) => void] => {
+  const [storedLocale, setLocale] = usePersistedLocale(DefaultLocale) as [
+    Locale,
+    React.Dispatch<Locale>,
+  ];
+  // In case a locale that was saved once doesn't exist anymore.
+  const locale = Object.values(Locale).includes(storedLocale) ? storedLocale : DefaultLocale;
+  return [locale, setLocale];
+};
+
+// The practice seed is persisted per locale, and use-persisted-state only
+// reads its key when it mounts. So this is expected to be remounted whenever
+// the locale changes, which also starts the new locale on today's puzzle.
+export const usePuzzle = (locale: Locale, setLocale: (locale: Locale) => void): PuzzleOptions => {
+  const [puzzle, setPuzzle] = useState<Puzzle>(() =>
+    getPuzzle(todaysPuzzle.number, PuzzleMode.Daily, locale),
+  );
+  const [usePracticeSeed] = useState(() =>
+    createPersistedState(getLocaleStates(locale).PracticeSeed),
+  );
+  const [practiceSeed, setPracticeSeed] = usePracticeSeed(null) as [
+    string | null,
+    React.Dispatch<string | null>,
+  ];
+
+  const openDailyPuzzle = useCallback(
+    () => setPuzzle(getPuzzle(todaysPuzzle.number, PuzzleMode.Daily, locale)),
+    [locale],
+  );
+
+  const openArchivePuzzle = useCallback(
+    (puzzleNumber: number) => {
+      // Today's puzzle is never part of the archive.
+      if (puzzleNumber >= todaysPuzzle.number) {
+        openDailyPuzzle();
+      } else {
+        setPuzzle(getPuzzle(puzzleNumber, PuzzleMode.Archive, locale));
+      }
+    },
+    [locale, openDailyPuzzle],
+  );
+
+  const newPracticePuzzle = useCallback(
+    (variant?: BoardVariant) => {
+      const seed = createPracticeSeed(variant, locale);
+      setPracticeSeed(seed);
+      setPuzzle(getPracticePuzzle(seed));
+    },
+    [locale], // eslint-disable-line react-hooks/exhaustive-deps
+  );
+
+  // Picks up the practice puzzle that was last being played, if any.
+  const openPracticePuzzle = useCallback(() => {
+    if (practiceSeed) {
+      setPuzzle(getPracticePuzzle(practiceSeed));
+    } else {
+      newPracticePuzzle();
+    }
+  }, [practiceSeed, newPracticePuzzle]);
+
+  return {
+    puzzle,
+    practiceSeed,
+    locale,
+    setLocale,
+    openDailyPuzzle,
+    openArchivePuzzle,
+    openPracticePuzzle,
+    newPracticePuzzle,
+  };
+};
@@ -0,0 +1,60 @@
+import React, { useCallback, useMemo } from "react";
+import createPersistedState from "use-persisted-state";
+import { getLocaleStates } from "../constants/state";
+import { PuzzleMode, todaysPuzzle } from "../utils/puzzle-calendar";
+import { Locale } from "../utils/locale";
+import { BoardConfigs, BoardVariant } from "../utils/game";
+import {
+  addResultToHistory,
+  computeStats,
+  GameResult,
+  getResultsForMode,
+  Stats,
+} from "../utils/stats";
+
+type StatsOptions = {
+  history: GameResult[];
+  stats: Stats;
+  recordResult: (result: GameResult) => void;
+};
+
+// Stats are kept separately for each puzzle mode, so archive games never
+// count towards daily streaks, and practice stats are kept for each board
+// size. Each locale has a history of its own.
+export const useStats = (
+  mode: PuzzleMode,
+  locale: Locale,
+  variant = BoardVariant.Classic,
+): StatsOptions => {
+  const usePersistedHistory = useMemo(
+    () => createPersistedState(getLocaleStates(locale).Stats),
+    [locale],
+  );
+  const [history, setHistory] = usePersistedHistory([]) as [
+    GameResult[],
+    React.Dispatch<React.SetStateAction<GameResult[]>>,
+  ];
+
+  const stats = useMemo(
+    () =>
+      computeStats(
+        getResultsForMode(history, mode, variant),
+        todaysPuzzle.number,
+        BoardConfigs[variant].letterCount,
+      ),
+    [history, mode, variant],
+  );
+
+  const recordResult = useCallback(
+    (result: GameResult) => {
+      setHistory((prev) => addResultToHistory(prev, result));
+    },
+    [setHistory],
+  );
+
+  return {
+    history,
+    stats,
+    recordResult,
+  };
+};
@@ -73,7 +73,7 @@ export const useTouchPanning = (
       }
 
       // Do zoom.
-      if (distanceRef.current && centerRef.current) {
+      if (distanceRef.current && centerRef.current && event.touches.length === 2) {
         const distanceZ = Math.hypot(
           event.touches[0].pageX - event.touches[1].pageX,
           event.touches[0].pageY - event.touches[1].pageY,
@@ -94,6 +94,8 @@ export const useTouchPanning = (
     function handleTouchEnd(event: TouchEvent) {
       event.preventDefault();
       positionRef.current = null;
+      distanceRef.current = null;
+      centerRef.current = null;
     }
 
     const canvasElement = canvasRef.current;
@@ -9,8 +9,11 @@ export const useTrackpadPanning = (
   panCamera: (dx: number, dy: number) => void,
 ) => {
   React.useEffect(() => {
+    // Only stop the browser's own pinch-zoom, so modals can still scroll.
     function killGlobalWheel(event: WheelEvent) {
-      event.preventDefault();
+      if (event.ctrlKey) {
+        event.preventDefault();
+      }
     }
 
     function handleWheel(event: WheelEvent) {
@@ -0,0 +1,22 @@
+import { Letter } from "../utils/game";
+import { Puzzle } from "../utils/puzzle-calendar";
+import { SolutionBoard } from "../utils/words-helper";
+
+// Asks the worker for a puzzle. The puzzle carries the seed and the board
+// variant, which is everything the generator needs. Ids match responses up
+// with the requests they answer.
+export type PuzzleRequest = {
+  id: number;
+  puzzle: Puzzle;
+};
+
+export type PuzzleResponse =
+  | {
+      id: number;
+      solutionBoard: SolutionBoard;
+      letters: Letter[];
+    }
+  | {
+      id: number;
+      error: string;
+    };
@@ -0,0 +1,149 @@
+import { RandomSeed } from "random-seed";
+import { BoardConfig, DefaultBoardConfig, shuffle } from "./game";
+import { DefaultDictionary, Dictionary } from "./dictionary";
+import {
+  countLettersOnBoard,
+  createBoard,
+  Direction,
+  getWordsMatching,
+  getWordsOfLength,
+  Position,
+  SolutionBoard,
+  validateWordPlacementWithGoodWords,
+  writeWordToBoard,
+} from "./words-helper";
+import { LetterPattern } from "./word-index";
+
+// How many word placements the search gets to try before giving up. Boards
+// usually fill up long before this, so it's only here so a bad config can't
+// search forever.
+const DefaultMaxSteps = 20000;
+
+// How many placements to try around one first word before starting over with
+// another. Some first words lead into a huge tree of boards that all come up a
+// letter or two short, and it's much quicker to walk away from those.
+const StepsPerStart = 500;
+
+export type BuildOptions = {
+  maxSteps?: number;
+  dictionary?: Dictionary;
+};
+
+type Placement = {
+  word: string;
+  position: Position;
+  direction: Direction;
+  // How many letters the word adds that weren't on the board already.
+  added: number;
+};
+
+// Builds a board that uses exactly `letterCount` letters, or returns null if
+// it can't find one within `maxSteps` placements.
+//
+// Unlike `createCompleteBoard`, which places words greedily and hopes for the
+// best, this backs up and tries something else whenever a board runs out of
+// places to put words before every letter is down. Every word along the way
+// has to be a good word, just like the greedy passes.
+export function buildFullBoard(
+  random: RandomSeed,
+  config: BoardConfig = DefaultBoardConfig,
+  options: BuildOptions = {},
+): SolutionBoard | null {
+  const maxSteps = options.maxSteps ?? DefaultMaxSteps;
+  const dictionary = options.dictionary ?? DefaultDictionary;
+  let steps = 0;
+  let limit = 0;
+  // The same board can be reached by placing its words in a different order,
+  // and once it's been a dead end it'll always be one.
+  const visited = new Set<string>();
+
+  function search(board: SolutionBoard, letterCount: number): SolutionBoard | null {
+    if (letterCount === config.letterCount) return board;
+
+    const remaining = config.letterCount - letterCount;
+    for (const { word, position, direction, added } of shuffle(
+      findPlacements(board, remaining, config, dictionary),
+      random,
+    )) {
+      if (++steps > limit) return null;
+
+      const newBoard = writeWordToBoard(word, position, direction, board, config);
+      const key = newBoard.map((row) => row.map((letter) => letter || ".").join("")).join("/");
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      if (
+        !validateWordPlacementWithGoodWords(newBoard, position, direction, word.length, dictionary)
+      ) {
+        continue;
+      }
+
+      const result = search(newBoard, letterCount + added);
+      if (result || steps > limit) return result;
+    }
+
+    return null;
+  }
+
+  // The first word goes across and is one of the longer ones, same as the
+  // greedy builder. If nothing works out around it, start over with another.
+  while (steps < maxSteps) {
+    const length = random.intBetween(config.maxWordLength - 1, config.maxWordLength);
+    const words = getWordsOfLength(length, dictionary);
+    const position = {
+      row: random.intBetween(0, config.rows - 1),
+      col: random.intBetween(0, config.cols - length),
+    };
+    const word = words[random.range(words.length)];
+    const board = writeWordToBoard(word, position, Direction.Right, createBoard(config), config);
+
+    steps++;
+    limit = Math.min(steps + StepsPerStart, maxSteps);
+    const result = search(board, countLettersOnBoard(board));
+    if (result) return result;
+  }
+
+  return null;
+}
+
+// Every word that could go on the board next. A word has to run through at
+// least one letter that's already down, add at least one new letter, and
+// can't add more letters than there are left.
+function findPlacements(
+  board: SolutionBoard,
+  remaining: number,
+  config: BoardConfig,
+  dictionary: Dictionary,
+): Placement[] {
+  const at = (row: number, col: number) => board[row]?.[col];
+  const placements: Placement[] = [];
+
+  for (let length = config.minWordLength; length <= config.maxWordLength; length++) {
+    for (const direction of [Direction.Right, Direction.Down]) {
+      const [dr, dc] = direction === Direction.Right ? [0, 1] : [1, 0];
+      const maxRow = config.rows - 1 - (length - 1) * dr;
+      const maxCol = config.cols - 1 - (length - 1) * dc;
+
+      for (let row = 0; row <= maxRow; row++) {
+        for (let col = 0; col <= maxCol; col++) {
+          // The word can't run into letters right before or after it.
+          if (at(row - dr, col - dc) || at(row + length * dr, col + length * dc)) continue;
+
+          const pattern: LetterPattern = [];
+          for (let i = 0; i < length; i++) {
+            const letter = at(row + i * dr, col + i * dc);
+            if (letter) pattern.push([i, letter]);
+          }
+          const added = length - pattern.length;
+          if (added === 0 || added === length || added > remaining) continue;
+
+          for (const word of getWordsMatching(length, pattern, dictionary)) {
+            placements.push({ word, position: { row, col }, direction, added });
+          }
+        }
+      }
+    }
+  }
+
+  return placements;
+}
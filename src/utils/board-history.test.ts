@@ -0,0 +1,100 @@
+import {
+  BoardHistory,
+  emptyHistory,
+  MaxHistory,
+  recordChange,
+  redoHistory,
+  undoHistory,
+} from "./board-history";
+import {
+  createEmptyBoard,
+  removeLetterAt,
+  setCursorPosition,
+  setLetterAtPosition,
+} from "./board-operations";
+import { Board, Letter } from "./game";
+
+const a: Letter = { id: "letter-a", letter: "a" };
+const b: Letter = { id: "letter-b", letter: "b" };
+
+const lettersOf = (board: Board) => board.tiles.map((row) => row.map((tile) => tile.letter?.id));
+
+// Makes a change the same way `useBoard` does, and returns what it'd keep.
+function change(history: BoardHistory, board: Board, newBoard: Board): [BoardHistory, Board] {
+  return [recordChange(history, board, newBoard), newBoard];
+}
+
+describe("board history", () => {
+  const empty = createEmptyBoard();
+
+  it("undoes and redoes changes", () => {
+    let [history, board] = change(emptyHistory, empty, setLetterAtPosition(empty, 0, 0, a));
+    [history, board] = change(history, board, setLetterAtPosition(board, 0, 1, b));
+    const placed = board;
+
+    const [undoneHistory, undone] = undoHistory(history, board)!;
+    expect(lettersOf(undone)).toEqual(lettersOf(setLetterAtPosition(empty, 0, 0, a)));
+    expect(undoneHistory.past).toHaveLength(1);
+    expect(undoneHistory.future).toHaveLength(1);
+
+    const [redoneHistory, redone] = redoHistory(undoneHistory, undone)!;
+    expect(lettersOf(redone)).toEqual(lettersOf(placed));
+    expect(redoneHistory.past).toHaveLength(2);
+    expect(redoneHistory.future).toHaveLength(0);
+  });
+
+  it("brings the cursor back along with the letters", () => {
+    const moved = setCursorPosition(empty, 3, 4);
+    const [history, board] = change(emptyHistory, moved, setLetterAtPosition(moved, 0, 0, a));
+    const [, undone] = undoHistory(history, setCursorPosition(board, 1, 1))!;
+    expect(undone.cursor).toEqual(moved.cursor);
+  });
+
+  it("has nothing to undo or redo to start with", () => {
+    expect(undoHistory(emptyHistory, empty)).toBeNull();
+    expect(redoHistory(emptyHistory, empty)).toBeNull();
+  });
+
+  it("throws away what could be redone when something changes", () => {
+    const [history, board] = change(emptyHistory, empty, setLetterAtPosition(empty, 0, 0, a));
+    const [undoneHistory, undone] = undoHistory(history, board)!;
+    const [changedHistory] = change(undoneHistory, undone, setLetterAtPosition(undone, 2, 2, b));
+    expect(changedHistory.future).toEqual([]);
+    expect(redoHistory(changedHistory, undone)).toBeNull();
+  });
+
+  it(`keeps the last ${MaxHistory} steps`, () => {
+    let history = emptyHistory;
+    let board = empty;
+    for (let i = 0; i < MaxHistory + 10; i++) {
+      const letter = { id: `letter-${i}`, letter: "a" };
+      [history, board] = change(history, board, setLetterAtPosition(board, i % 6, 0, letter));
+    }
+    expect(history.past).toHaveLength(MaxHistory);
+
+    let undos = 0;
+    for (let result = undoHistory(history, board); result; result = undoHistory(...result)) {
+      [history, board] = result;
+      undos++;
+    }
+    expect(undos).toBe(MaxHistory);
+    expect(board.tiles[4][0].letter?.id).toBe("letter-4");
+    expect(history.future).toHaveLength(MaxHistory);
+  });
+
+  it("only records changes to the letters on the board", () => {
+    expect(recordChange(emptyHistory, empty, removeLetterAt(empty, 0, 0))).toBe(emptyHistory);
+    expect(recordChange(emptyHistory, empty, setCursorPosition(empty, 2, 2))).toBe(emptyHistory);
+  });
+
+  it("compares a change with the board as it is now", () => {
+    // Taking a letter off right after placing it puts the board back the way
+    // it was one step ago, but it's still a change from the board right now.
+    let [history, board] = change(emptyHistory, empty, setLetterAtPosition(empty, 0, 0, a));
+    [history, board] = change(history, board, removeLetterAt(board, 0, 0));
+    expect(history.past).toHaveLength(2);
+
+    const [, undone] = undoHistory(history, board)!;
+    expect(undone.tiles[0][0].letter).toEqual(a);
+  });
+});
@@ -0,0 +1,86 @@
+import { Board, Cursor, Letter, TileState } from "./game";
+
+// How many undo steps are kept around for a single puzzle.
+export const MaxHistory = 50;
+
+// Snapshots only keep the letters and cursor, everything else on a tile can
+// be derived again, which keeps the persisted history small.
+export type BoardSnapshot = {
+  cursor: Cursor;
+  letters: (Letter | null)[][];
+};
+
+export type BoardHistory = {
+  past: BoardSnapshot[];
+  future: BoardSnapshot[];
+};
+
+export const emptyHistory: BoardHistory = { past: [], future: [] };
+
+export function takeSnapshot(board: Board): BoardSnapshot {
+  return {
+    cursor: { ...board.cursor },
+    letters: board.tiles.map((row) => row.map((tile) => (tile.letter ? { ...tile.letter } : null))),
+  };
+}
+
+export function restoreSnapshot(board: Board, snapshot: BoardSnapshot): Board {
+  return {
+    cursor: { ...snapshot.cursor },
+    tiles: board.tiles.map((row, r) =>
+      row.map((tile, c) => ({
+        ...tile,
+        letter: snapshot.letters[r]?.[c] ?? null,
+        state: TileState.IDLE,
+        changeReason: undefined,
+      })),
+    ),
+  };
+}
+
+export function hasSameLetters(snapshot: BoardSnapshot, board: Board): boolean {
+  return board.tiles.every((row, r) =>
+    row.every((tile, c) => (tile.letter?.id ?? null) === (snapshot.letters[r]?.[c]?.id ?? null)),
+  );
+}
+
+// Records the board as it was right before a change. Making a new change
+// always throws away whatever could have been redone.
+export function recordHistory(history: BoardHistory, board: Board): BoardHistory {
+  return {
+    past: history.past.concat(takeSnapshot(board)).slice(-MaxHistory),
+    future: [],
+  };
+}
+
+// Records going from `board` to `newBoard`, unless none of the letters on it
+// actually changed (like backspacing an empty board).
+export function recordChange(history: BoardHistory, board: Board, newBoard: Board): BoardHistory {
+  return hasSameLetters(takeSnapshot(board), newBoard) ? history : recordHistory(history, board);
+}
+
+export function undoHistory(history: BoardHistory, board: Board): [BoardHistory, Board] | null {
+  const snapshot = history.past[history.past.length - 1];
+  if (!snapshot) return null;
+
+  return [
+    {
+      past: history.past.slice(0, -1),
+      future: [takeSnapshot(board)].concat(history.future).slice(0, MaxHistory),
+    },
+    restoreSnapshot(board, snapshot),
+  ];
+}
+
+export function redoHistory(history: BoardHistory, board: Board): [BoardHistory, Board] | null {
+  const [snapshot, ...future] = history.future;
+  if (!snapshot) return null;
+
+  return [
+    {
+      past: history.past.concat(takeSnapshot(board)).slice(-MaxHistory),
+      future,
+    },
+    restoreSnapshot(board, snapshot),
+  ];
+}
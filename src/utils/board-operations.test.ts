@@ -0,0 +1,139 @@
+import {
+  backspaceAtCursor,
+  clearBoard,
+  createEmptyBoard,
+  flipCursorDirection,
+  lockLetterAt,
+  moveLetter,
+  placeLetterAtCursor,
+  setCursorPosition,
+  setLetterAtPosition,
+} from "./board-operations";
+import { Board, CursorDirections, Directions, Letter, moveBoard } from "./game";
+
+const a: Letter = { id: "letter-a", letter: "a" };
+const b: Letter = { id: "letter-b", letter: "b" };
+
+// Freezing the board makes any write to it throw, and the JSON copy catches
+// anything that slips past that.
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === "object") {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+function expectUntouched(board: Board, operation: (board: Board) => Board) {
+  const before = JSON.stringify(board);
+  const result = operation(deepFreeze(board));
+  expect(JSON.stringify(board)).toEqual(before);
+  return result;
+}
+
+function boardWithLetters(): Board {
+  let board = createEmptyBoard();
+  board = setLetterAtPosition(board, 2, 2, a);
+  board = setLetterAtPosition(board, 2, 3, b);
+  return { ...board, cursor: { row: 2, col: 3, direction: CursorDirections.LeftToRight } };
+}
+
+describe("board operations", () => {
+  it("places a letter at the cursor", () => {
+    const board = createEmptyBoard();
+    const result = expectUntouched(board, (board) => placeLetterAtCursor(board, a));
+
+    expect(result.tiles[0][0].letter).toEqual(a);
+    expect(result.cursor).toMatchObject({ row: 0, col: 1 });
+    expect(board.tiles[0][0].letter).toBeNull();
+    expect(result.tiles[1][0]).toBe(board.tiles[1][0]);
+  });
+
+  it("backspaces the letter under the cursor", () => {
+    const board = boardWithLetters();
+    const result = expectUntouched(board, backspaceAtCursor);
+
+    expect(result.tiles[2][3].letter).toBeNull();
+    expect(result.tiles[2][2].letter).toEqual(a);
+    expect(result.cursor).toMatchObject({ row: 2, col: 2 });
+  });
+
+  it("backspaces the letter before the cursor when the cursor is empty", () => {
+    const board = {
+      ...boardWithLetters(),
+      cursor: { row: 2, col: 4, direction: CursorDirections.LeftToRight },
+    };
+    const result = expectUntouched(board, backspaceAtCursor);
+
+    expect(result.tiles[2][3].letter).toBeNull();
+    expect(result.cursor).toMatchObject({ row: 2, col: 3 });
+  });
+
+  it("moves a letter between tiles", () => {
+    const board = boardWithLetters();
+    const result = expectUntouched(board, (board) => moveLetter(board, [2, 2], [4, 4]));
+
+    expect(result.tiles[2][2].letter).toBeNull();
+    expect(result.tiles[4][4].letter).toEqual(a);
+  });
+
+  it("ignores moving an empty tile", () => {
+    const board = boardWithLetters();
+    expect(moveLetter(board, [0, 0], [4, 4])).toBe(board);
+  });
+
+  it("clears the board", () => {
+    const board = boardWithLetters();
+    const result = expectUntouched(board, clearBoard);
+
+    expect(result.tiles.flat().every((tile) => tile.letter === null)).toBe(true);
+    expect(result.cursor).toEqual(board.cursor);
+  });
+
+  it("moves and flips the cursor", () => {
+    const board = boardWithLetters();
+    const moved = expectUntouched(board, (board) => setCursorPosition(board, 0, 5));
+    expect(moved.cursor).toMatchObject({ row: 0, col: 5 });
+
+    const flipped = expectUntouched(board, (board) => setCursorPosition(board, 2, 3));
+    expect(flipped.cursor.direction).toEqual(CursorDirections.TopToBottom);
+    expect(flipCursorDirection(flipped).cursor.direction).toEqual(CursorDirections.LeftToRight);
+  });
+
+  it("locks a letter, moving it off anywhere else on the board", () => {
+    const board = boardWithLetters();
+    const result = expectUntouched(board, (board) => lockLetterAt(board, a, 0, 0));
+
+    expect(result.tiles[0][0].letter).toEqual({ ...a, locked: true });
+    expect(result.tiles[2][2].letter).toBeNull();
+  });
+
+  it("never removes locked letters", () => {
+    let board = lockLetterAt(boardWithLetters(), b, 2, 3);
+
+    expect(clearBoard(board).tiles[2][3].letter?.locked).toBe(true);
+    expect(backspaceAtCursor(board).tiles[2][3].letter?.locked).toBe(true);
+    expect(moveLetter(board, [2, 3], [0, 0])).toBe(board);
+
+    board = placeLetterAtCursor(board, a);
+    expect(board.tiles[2][3].letter).toEqual({ ...b, locked: true });
+  });
+
+  it("won't shift a board with locked letters on it", () => {
+    const board = lockLetterAt(boardWithLetters(), b, 2, 3);
+
+    expect(moveBoard(board, Directions.Up)).toBe(board);
+  });
+
+  it.each([Directions.Up, Directions.Down, Directions.Left, Directions.Right])(
+    "shifts the board without touching the previous one (%s)",
+    (direction) => {
+      const board = boardWithLetters();
+      const result = expectUntouched(board, (board) => moveBoard(board, direction));
+
+      expect(result).not.toBe(board);
+      result.tiles.forEach((row, r) => expect(row).not.toBe(board.tiles[r]));
+      expect(result.tiles.flat().filter((tile) => tile.letter).length).toEqual(2);
+    },
+  );
+});
@@ -0,0 +1,164 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  Board,
+  BoardConfig,
+  CursorDirections,
+  decrementCursor,
+  DefaultBoardConfig,
+  getTileAtCursor,
+  incrementCursor,
+  Letter,
+  TileChangeReason,
+  TileState,
+} from "./game";
+
+// Every operation here returns a brand new board and never touches the one
+// it was given, so older boards (like the ones in the undo history) are safe
+// to hold on to.
+
+export function createEmptyBoard(config: BoardConfig = DefaultBoardConfig): Board {
+  const cursor = {
+    row: 0,
+    col: 0,
+    direction: CursorDirections.LeftToRight,
+  };
+
+  const tiles = new Array(config.rows).fill(null).map((_, row) =>
+    new Array(config.cols).fill(null).map((_, col) => ({
+      id: uuidv4(),
+      row,
+      col,
+      letter: null,
+      state: TileState.IDLE,
+      changeReason: undefined,
+    })),
+  );
+
+  return { cursor, tiles };
+}
+
+// Sets (or clears) the letter of a single tile, leaving everything else as is.
+export function setLetterAtPosition(
+  board: Board,
+  row: number,
+  col: number,
+  letter: Letter | null,
+): Board {
+  return {
+    ...board,
+    tiles: board.tiles.map((tiles, r) =>
+      tiles.map((tile, c) =>
+        r === row && c === col
+          ? {
+              ...tile,
+              letter,
+              state: TileState.IDLE,
+              changeReason: letter ? TileChangeReason.LETTER : undefined,
+            }
+          : tile,
+      ),
+    ),
+  };
+}
+
+function isLockedAt(board: Board, row: number, col: number) {
+  return !!board.tiles[row][col].letter?.locked;
+}
+
+// Types a letter at the cursor and moves the cursor along. Locked letters are
+// just skipped over.
+export function placeLetterAtCursor(board: Board, letter: Letter): Board {
+  const { row, col } = board.cursor;
+  if (isLockedAt(board, row, col)) {
+    return { ...board, cursor: incrementCursor(board) };
+  }
+
+  return {
+    ...setLetterAtPosition(board, row, col, letter),
+    cursor: incrementCursor(board),
+  };
+}
+
+// Deletes the letter under the cursor, or if there isn't one, the letter
+// right before it. Either way the cursor moves backwards.
+export function backspaceAtCursor(board: Board): Board {
+  const newCursor = decrementCursor(board);
+  const { row, col } = getTileAtCursor(board).letter ? board.cursor : newCursor;
+  if (isLockedAt(board, row, col)) {
+    return { ...board, cursor: newCursor };
+  }
+
+  return {
+    ...setLetterAtPosition(board, row, col, null),
+    cursor: newCursor,
+  };
+}
+
+export function moveLetter(board: Board, from: [number, number], to: [number, number]): Board {
+  const [fromRow, fromCol] = from;
+  const [toRow, toCol] = to;
+  const letter = board.tiles[fromRow][fromCol].letter;
+  if (!letter || letter.locked) return board;
+
+  const clearedBoard = setLetterAtPosition(board, fromRow, fromCol, null);
+  return setLetterAtPosition(clearedBoard, toRow, toCol, letter);
+}
+
+export function removeLetterAt(board: Board, row: number, col: number): Board {
+  if (isLockedAt(board, row, col)) return board;
+  return setLetterAtPosition(board, row, col, null);
+}
+
+// Clears everything except for letters that were locked by a hint.
+export function clearBoard(board: Board): Board {
+  return {
+    ...board,
+    tiles: board.tiles.map((row) =>
+      row.map((tile) =>
+        tile.letter?.locked ? tile : { ...tile, letter: null, changeReason: undefined },
+      ),
+    ),
+  };
+}
+
+// Locks a letter into a tile, taking it off wherever else it was on the board
+// and bumping whatever letter was in the tile before back to the rack.
+export function lockLetterAt(board: Board, letter: Letter, row: number, col: number): Board {
+  const tiles = board.tiles.map((tiles) =>
+    tiles.map((tile) =>
+      tile.letter?.id === letter.id ? { ...tile, letter: null, changeReason: undefined } : tile,
+    ),
+  );
+
+  return setLetterAtPosition({ ...board, tiles }, row, col, { ...letter, locked: true });
+}
+
+export function flipCursorDirection(board: Board): Board {
+  return {
+    ...board,
+    cursor: {
+      ...board.cursor,
+      direction:
+        board.cursor.direction === CursorDirections.LeftToRight
+          ? CursorDirections.TopToBottom
+          : CursorDirections.LeftToRight,
+    },
+  };
+}
+
+// Moves the cursor to a tile. Picking the tile the cursor is already on flips
+// the cursor direction instead.
+export function setCursorPosition(board: Board, row: number, col: number): Board {
+  if (board.cursor.row === row && board.cursor.col === col) {
+    return flipCursorDirection(board);
+  }
+
+  return {
+    ...board,
+    cursor: {
+      ...board.cursor,
+      row,
+      col,
+    },
+  };
+}
@@ -1,5 +1,5 @@
 import { Board, Tile, TileState } from "./game";
-import { words as dictionary } from "../constants/words";
+import { DefaultDictionary, Dictionary } from "./dictionary";
 
 enum WordDirection {
   LeftToRight,
@@ -95,7 +95,10 @@ function findAnyTile(tiles: Tile[][]) {
   return null;
 }
 
-export function validateBoard(board: Board): [Board, boolean] {
+export function validateBoard(
+  board: Board,
+  dictionary: Dictionary = DefaultDictionary,
+): [Board, boolean] {
   const tiles = board.tiles;
   const gridBounds = tiles.length;
 
@@ -173,6 +176,35 @@ export function validateBoard(board: Board): [Board, boolean] {
   return [validatedBoard, allWordsAreValid];
 }
 
+export enum WordFeedback {
+  Valid = "valid",
+  Invalid = "invalid",
+}
+
+// Live feedback for assist mode. Unlike `validateBoard`, letters that aren't
+// part of a word yet are left alone, so only complete words get flagged.
+// Any tile that's part of a word that isn't real is flagged as invalid.
+export function getWordFeedback(
+  board: Board,
+  dictionary: Dictionary = DefaultDictionary,
+): (WordFeedback | null)[][] {
+  const feedback: (WordFeedback | null)[][] = board.tiles.map((row) => row.map(() => null));
+  const foundWords = getWordsFromTilesLTR(board.tiles).concat(getWordsFromTilesTTB(board.tiles));
+
+  for (const { word, row, col, direction } of foundWords) {
+    const isValid = dictionary.has(word);
+
+    for (let i = 0; i < word.length; i++) {
+      const r = direction === WordDirection.TopToBottom ? row + i : row;
+      const c = direction === WordDirection.LeftToRight ? col + i : col;
+      if (feedback[r][c] === WordFeedback.Invalid) continue;
+      feedback[r][c] = isValid ? WordFeedback.Valid : WordFeedback.Invalid;
+    }
+  }
+
+  return feedback;
+}
+
 function getWordsFromTilesLTR(tiles: Tile[][]): WordFromTile[] {
   return tiles
     .map((row): WordFromTile[] => {
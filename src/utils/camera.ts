@@ -1,5 +1,10 @@
 import { Bounds, getBox, getViewport, screenToCanvas } from "./canvas";
-import { Camera, Point } from "../types/canvas";
+import { Box, Camera, Point } from "../types/canvas";
+
+export type BoardSize = {
+  width: number;
+  height: number;
+};
 
 export type ZoomRequest = {
   center: Point;
@@ -38,22 +43,41 @@ export function zoomCameraTo(camera: Camera, point: Point, dz: number): Camera {
   };
 }
 
+// Zoom requests step through 25% increments. The zoom delta is relative to the
+// current zoom since that's what `zoomCameraTo` expects.
 export function requestZoomIn(camera: Camera): ZoomRequest {
-  const i = Math.round(camera.z * 100) / 25;
-  const nextZoom = (i + 1) * 0.25;
+  const step = Math.floor(camera.z * 4 + 0.01) + 1;
+  const nextZoom = Math.min(step / 4, Bounds.maxZ);
 
   const { width, height } = getBox();
   const center = { x: width / 2, y: height / 2 };
-  return { center, dz: camera.z - nextZoom };
+  return { center, dz: (camera.z - nextZoom) / camera.z };
 }
 
 export function requestZoomOut(camera: Camera): ZoomRequest {
-  const i = Math.round(camera.z * 100) / 25;
-  const nextZoom = (i - 1) * 0.25;
+  const step = Math.ceil(camera.z * 4 - 0.01) - 1;
+  const nextZoom = Math.max(step / 4, Bounds.minZ);
 
   const { width, height } = getBox();
   const center = { x: width / 2, y: height / 2 };
-  return { center, dz: camera.z - nextZoom };
+  return { center, dz: (camera.z - nextZoom) / camera.z };
+}
+
+// The camera that fits the whole board in the middle of the canvas. Boards
+// that are too big for the canvas get zoomed out until they fit.
+export function getCenteredCamera(box: Box, board?: BoardSize): Camera {
+  const z = board
+    ? Math.max(
+        Math.min(1, box.width / board.width, box.height / board.height),
+        Bounds.minZ,
+      )
+    : 1;
+
+  return {
+    x: box.width / (2 * z) - Bounds.maxX / 2,
+    y: box.height / (2 * z) - Bounds.maxY / 2,
+    z,
+  };
 }
 
 export function updateCamera(
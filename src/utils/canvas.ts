@@ -1,13 +1,19 @@
 import { Box, Camera, Point, Viewport } from "../types/canvas";
-import { Config } from "./game";
+import { BoardConfigs, Config } from "./game";
 
 const padding = 100;
 
+// The canvas is the same size for every board, so it's made big enough for
+// the biggest one.
+const largestBoard = Math.max(
+  ...Object.values(BoardConfigs).map(({ rows, cols }) => Math.max(rows, cols)),
+);
+
 export const Bounds = {
   minX: 0 + padding,
   minY: 0 + padding,
-  maxX: Config.TileCount * Config.TileSize + Config.TileSpacing * 2 + padding,
-  maxY: Config.TileCount * Config.TileSize + Config.TileSpacing * 2 + padding,
+  maxX: largestBoard * Config.TileSize + Config.TileSpacing * 2 + padding,
+  maxY: largestBoard * Config.TileSize + Config.TileSpacing * 2 + padding,
   minZ: 0.5,
   maxZ: 2,
 };
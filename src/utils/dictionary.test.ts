@@ -0,0 +1,83 @@
+import { createDictionary, createLoadableDictionary } from "./dictionary";
+import { packWords } from "./packed-words";
+import {
+  getWordsMatching,
+  getWordsOfLength,
+  SolutionBoard,
+  validateSolutionBoard,
+} from "./words-helper";
+import { getDifficultyFactors } from "./difficulty";
+
+const dictionary = createDictionary({
+  common: ["at", "bet", "tea", "beat"],
+  extra: ["ta", "eta", "tab", "at"],
+});
+
+describe("dictionary", () => {
+  it("has every word, common or not", () => {
+    expect(dictionary.has("tea")).toBe(true);
+    expect(dictionary.has("eta")).toBe(true);
+    expect(dictionary.has("ate")).toBe(false);
+  });
+
+  it("only counts the common words as common", () => {
+    expect(dictionary.isCommon("bet")).toBe(true);
+    expect(dictionary.isCommon("at")).toBe(true);
+    expect(dictionary.isCommon("eta")).toBe(false);
+  });
+
+  it("lists words by length with the common ones first", () => {
+    expect(dictionary.wordsOfLength(3)).toEqual(["bet", "tea", "eta", "tab"]);
+    expect(dictionary.wordsOfLength(2)).toEqual(["at", "ta"]);
+    expect(dictionary.wordsOfLength(7)).toEqual([]);
+  });
+
+  it("builds boards out of the common words only", () => {
+    expect(getWordsOfLength(3, dictionary)).toEqual(["bet", "tea"]);
+    expect(getWordsMatching(3, [[0, "t"]], dictionary)).toEqual(["tea"]);
+  });
+
+  it("validates and rates boards with the words it's given", () => {
+    const board = [
+      ["t", "a", "b"],
+      ["e", undefined, undefined],
+      ["a", undefined, undefined],
+    ] as SolutionBoard;
+    expect(validateSolutionBoard(board, dictionary)).toBe(true);
+    expect(validateSolutionBoard(board, createDictionary({ common: ["tea"] }))).toBe(false);
+    expect(getDifficultyFactors(board, dictionary).extraWords).toBe(1);
+  });
+});
+
+describe("loadable dictionary", () => {
+  const loadable = () =>
+    createLoadableDictionary(["at", "bet", "tea"], () =>
+      Promise.resolve([packWords(["ta", "at"]), packWords(["eta", "tab"])]),
+    );
+
+  it("only knows the common words until it's loaded", async () => {
+    const dictionary = loadable();
+    expect(dictionary.isLoaded()).toBe(false);
+    expect(dictionary.has("eta")).toBe(false);
+    expect(dictionary.wordsOfLength(3)).toEqual(["bet", "tea"]);
+
+    await dictionary.load();
+    expect(dictionary.isLoaded()).toBe(true);
+    expect(dictionary.has("eta")).toBe(true);
+    expect(dictionary.isCommon("eta")).toBe(false);
+    expect(dictionary.wordsOfLength(2)).toEqual(["at", "ta"]);
+    expect(dictionary.wordsOfLength(3)).toEqual(["bet", "tea", "eta", "tab"]);
+  });
+
+  it("can try loading again after it fails", async () => {
+    const loadExtra = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockResolvedValueOnce([packWords(["eta"])]);
+    const dictionary = createLoadableDictionary(["tea"], loadExtra);
+
+    await expect(dictionary.load()).rejects.toThrow("offline");
+    await dictionary.load();
+    expect(dictionary.has("eta")).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+import { words as TwoCharWords } from "../constants/words/good-words/two";
+import { words as ThreeCharWords } from "../constants/words/good-words/three";
+import { words as FourCharWords } from "../constants/words/good-words/four";
+import { words as FiveCharWords } from "../constants/words/good-words/five";
+import { words as SixCharWords } from "../constants/words/good-words/six";
+import { createPackedWordList, PackedWordList } from "./packed-words";
+
+// Everything that checks or builds words goes through a dictionary, so a
+// different set of words (kid-friendly, themed, ...) can be dropped in
+// without touching the validator, the generator or the solver.
+export type Dictionary = {
+  // Whether the word counts when a player makes it.
+  has: (word: string) => boolean;
+  // Every word of the length, with the common ones first.
+  wordsOfLength: (length: number) => string[];
+  // Common words are the ones puzzles get built out of. Everything else is
+  // an obscure word that's still allowed on the board.
+  isCommon: (word: string) => boolean;
+};
+
+export type DictionaryWords = {
+  common: string[];
+  extra?: string[];
+};
+
+export function createDictionary({ common, extra = [] }: DictionaryWords): Dictionary {
+  const commonWords = new Set(common);
+  const allWords = new Set(common.concat(extra));
+
+  const byLength = new Map<number, string[]>();
+  allWords.forEach((word) => {
+    const words = byLength.get(word.length);
+    if (words) words.push(word);
+    else byLength.set(word.length, [word]);
+  });
+
+  return {
+    has: (word) => allWords.has(word),
+    wordsOfLength: (length) => byLength.get(length) ?? [],
+    isCommon: (word) => commonWords.has(word),
+  };
+}
+
+// A dictionary whose extra words are packed and only fetched when `load` is
+// called. Until they're in, it only knows about the common words.
+export type LoadableDictionary = Dictionary & {
+  load: () => Promise<void>;
+  isLoaded: () => boolean;
+};
+
+export function createLoadableDictionary(
+  common: string[],
+  // Resolves to lists packed with `packWords`.
+  loadExtra: () => Promise<string[]>,
+): LoadableDictionary {
+  const commonDictionary = createDictionary({ common });
+  const wordsByLength = new Map<number, string[]>();
+  let extra = new Map<number, PackedWordList>();
+  let loading: Promise<void> | null = null;
+  let loaded = false;
+
+  function load() {
+    if (!loading) {
+      loading = loadExtra().then(
+        (lists) => {
+          extra = new Map(lists.map(createPackedWordList).map((list) => [list.length, list]));
+          wordsByLength.clear();
+          loaded = true;
+        },
+        (error) => {
+          // Let the next caller try again.
+          loading = null;
+          throw error;
+        },
+      );
+    }
+    return loading;
+  }
+
+  function wordsOfLength(length: number) {
+    const extraList = extra.get(length);
+    if (!extraList) return commonDictionary.wordsOfLength(length);
+
+    let words = wordsByLength.get(length);
+    if (!words) {
+      const commonWords = commonDictionary.wordsOfLength(length);
+      words = commonWords.concat(extraList.words().filter((word) => !commonDictionary.has(word)));
+      wordsByLength.set(length, words);
+    }
+    return words;
+  }
+
+  return {
+    has: (word) => commonDictionary.has(word) || !!extra.get(word.length)?.has(word),
+    wordsOfLength,
+    isCommon: commonDictionary.isCommon,
+    load,
+    isLoaded: () => loaded,
+  };
+}
+
+// The good words are the common ones, and the extra words are the rest. The
+// extra words are most of the dictionary, so they're split out of the main
+// bundle. Anything that validates or generates boards has to wait for `load`
+// first, since the greedy builder allows extra words where words cross.
+export const DefaultDictionary = createLoadableDictionary(
+  TwoCharWords.concat(ThreeCharWords, FourCharWords, FiveCharWords, SixCharWords),
+  () => import("../constants/words/extra-words").then(({ words }) => words),
+);
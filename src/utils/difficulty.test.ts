@@ -0,0 +1,56 @@
+import {
+  Difficulty,
+  getDifficultyFactors,
+  getDifficultyForScore,
+  getRareLetters,
+  rateDifficulty,
+  scoreDifficulty,
+} from "./difficulty";
+import { getLocale, Locale } from "./locale";
+import { SolutionBoard } from "./words-helper";
+
+function parse(rows: string[]): SolutionBoard {
+  return rows.map((row) => row.split("").map((tile) => (tile === "." ? "" : tile)));
+}
+
+const crossword = parse(["cat...", "a.o...", "b.e...", "......", "......", "......"]);
+
+describe("difficulty", () => {
+  it("counts the rare letters in the locale's own bag", () => {
+    const board = parse(["fix...", "......", "......", "......", "......", "......"]);
+    expect(getDifficultyFactors(board).rareLetters).toBe(1);
+
+    // F is rare in Spanish, which has a single F tile.
+    const spanish = getLocale(Locale.Spanish).letters;
+    expect(getRareLetters(spanish).has("f")).toBe(true);
+    expect(getDifficultyFactors(board, undefined, spanish).rareLetters).toBe(2);
+
+    // K isn't rare in German, which has two K tiles.
+    const german = getLocale(Locale.German).letters;
+    expect(getRareLetters(german).has("k")).toBe(false);
+    expect(getRareLetters(german).has("ü")).toBe(true);
+  });
+
+  it("counts the tiles that are shared between two words", () => {
+    expect(getDifficultyFactors(crossword).intersections).toBe(2);
+
+    const single = parse(["cat...", "......", "......", "......", "......", "......"]);
+    expect(getDifficultyFactors(single).intersections).toBe(0);
+  });
+
+  it("weighs obscure words and rare letters more than crossings", () => {
+    expect(scoreDifficulty({ extraWords: 1, rareLetters: 0, intersections: 0 })).toBe(2);
+    expect(scoreDifficulty({ extraWords: 0, rareLetters: 1, intersections: 0 })).toBe(2);
+    expect(scoreDifficulty({ extraWords: 1, rareLetters: 1, intersections: 3 })).toBe(7);
+  });
+
+  it("splits scores into easy, medium and hard", () => {
+    expect(getDifficultyForScore(0)).toBe(Difficulty.Easy);
+    expect(getDifficultyForScore(6)).toBe(Difficulty.Easy);
+    expect(getDifficultyForScore(7)).toBe(Difficulty.Medium);
+    expect(getDifficultyForScore(8)).toBe(Difficulty.Medium);
+    expect(getDifficultyForScore(9)).toBe(Difficulty.Hard);
+    expect(getDifficultyForScore(30)).toBe(Difficulty.Hard);
+    expect(rateDifficulty(crossword)).toBe(Difficulty.Easy);
+  });
+});
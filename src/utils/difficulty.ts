@@ -0,0 +1,105 @@
+import { DefaultDictionary, Dictionary } from "./dictionary";
+import { Letters } from "./game";
+import { Direction, findPlacedWords, SolutionBoard } from "./words-helper";
+
+export enum Difficulty {
+  Easy = "easy",
+  Medium = "medium",
+  Hard = "hard",
+}
+
+export const DifficultyLabels: Record<Difficulty, string> = {
+  [Difficulty.Easy]: "Easy",
+  [Difficulty.Medium]: "Medium",
+  [Difficulty.Hard]: "Hard",
+};
+
+const rareLettersByBag = new WeakMap<string[], Set<string>>();
+
+// The rare letters are the ones with the fewest tiles in the bag, which for
+// the English bag are J, K, Q, X and Z.
+export function getRareLetters(letters: string[] = Letters): Set<string> {
+  let rareLetters = rareLettersByBag.get(letters);
+  if (!rareLetters) {
+    const counts = new Map<string, number>();
+    letters.forEach((letter) => {
+      const key = letter.toLowerCase();
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    const fewest = Math.min(...Array.from(counts.values()));
+    rareLetters = new Set(Array.from(counts.keys()).filter((key) => counts.get(key) === fewest));
+    rareLettersByBag.set(letters, rareLetters);
+  }
+  return rareLetters;
+}
+
+// Anything scoring below `Easy` is easy, anything at or above `Hard` is hard,
+// and everything in between is medium. These were picked so that generated
+// boards split roughly into thirds.
+const Thresholds = {
+  Easy: 7,
+  Hard: 9,
+};
+
+export type DifficultyFactors = {
+  // Words the dictionary doesn't count as common, which are the obscure ones.
+  extraWords: number;
+  rareLetters: number;
+  // Tiles that are shared between a word going across and one going down.
+  intersections: number;
+};
+
+export function getDifficultyFactors(
+  solution: SolutionBoard,
+  dictionary: Dictionary = DefaultDictionary,
+  letters: string[] = Letters,
+): DifficultyFactors {
+  const rareLetters = getRareLetters(letters);
+  const words = findPlacedWords(solution);
+  const boardLetters = solution.flat().filter(Boolean);
+
+  const tileCounts = new Map<string, number>();
+  for (const { word, position, direction } of words) {
+    for (let i = 0; i < word.length; i++) {
+      const key =
+        direction === Direction.Right
+          ? `${position.row},${position.col + i}`
+          : `${position.row + i},${position.col}`;
+      tileCounts.set(key, (tileCounts.get(key) || 0) + 1);
+    }
+  }
+
+  return {
+    extraWords: words.filter(({ word }) => !dictionary.isCommon(word)).length,
+    rareLetters: boardLetters.filter((letter) => rareLetters.has(letter)).length,
+    intersections: Array.from(tileCounts.values()).filter((count) => count > 1).length,
+  };
+}
+
+// Obscure words and awkward letters make a board harder, and so does a lot of
+// crossing since every crossing is one more letter that has to line up.
+//
+// How many other solutions a board has isn't a factor. Every scheduled board
+// we tried had more than 30 of them, so it doesn't tell boards apart.
+export function scoreDifficulty({
+  extraWords,
+  rareLetters,
+  intersections,
+}: DifficultyFactors): number {
+  return extraWords * 2 + rareLetters * 2 + intersections;
+}
+
+export function rateDifficulty(
+  solution: SolutionBoard,
+  dictionary: Dictionary = DefaultDictionary,
+  letters: string[] = Letters,
+): Difficulty {
+  const score = scoreDifficulty(getDifficultyFactors(solution, dictionary, letters));
+  return getDifficultyForScore(score);
+}
+
+export function getDifficultyForScore(score: number): Difficulty {
+  if (score < Thresholds.Easy) return Difficulty.Easy;
+  if (score >= Thresholds.Hard) return Difficulty.Hard;
+  return Difficulty.Medium;
+}
@@ -1,3 +1,5 @@
+import generator, { RandomSeed } from "random-seed";
+
 export const Config = {
   MaxLetters: 20,
   TileCount: 6,
@@ -5,6 +7,57 @@ export const Config = {
   TileSpacing: 10,
 };
 
+// The shape of a puzzle: how big the board is, how many letters there are to
+// place and how long the generated words can be. Everything that builds or
+// checks a board should go off of one of these rather than `Config`.
+export type BoardConfig = {
+  rows: number;
+  cols: number;
+  letterCount: number;
+  minWordLength: number;
+  maxWordLength: number;
+};
+
+export enum BoardVariant {
+  Classic = "classic",
+  Mini = "mini",
+  Large = "large",
+}
+
+// There aren't any words longer than six letters in the word lists, so that's
+// as long as words get even on the bigger board.
+export const BoardConfigs: Record<BoardVariant, BoardConfig> = {
+  [BoardVariant.Classic]: {
+    rows: Config.TileCount,
+    cols: Config.TileCount,
+    letterCount: Config.MaxLetters,
+    minWordLength: 3,
+    maxWordLength: 6,
+  },
+  [BoardVariant.Mini]: {
+    rows: 5,
+    cols: 5,
+    letterCount: 14,
+    minWordLength: 3,
+    maxWordLength: 5,
+  },
+  [BoardVariant.Large]: {
+    rows: 7,
+    cols: 7,
+    letterCount: 28,
+    minWordLength: 3,
+    maxWordLength: 6,
+  },
+};
+
+export const DefaultBoardConfig = BoardConfigs[BoardVariant.Classic];
+
+export const BoardVariantLabels: Record<BoardVariant, string> = {
+  [BoardVariant.Classic]: "Classic",
+  [BoardVariant.Mini]: "Mini",
+  [BoardVariant.Large]: "Large",
+};
+
 export enum Directions {
   Up,
   Left,
@@ -17,7 +70,7 @@ export enum CursorDirections {
   TopToBottom = "top-to-bottom",
 }
 
-type Cursor = {
+export type Cursor = {
   row: number;
   col: number;
   direction: CursorDirections;
@@ -26,6 +79,7 @@ type Cursor = {
 export type Letter = {
   id: string;
   letter: string; // TODO: refactor to `char`
+  locked?: boolean; // Locked into place by a hint.
 };
 
 export enum TileState {
@@ -55,7 +109,7 @@ export type Board = {
 };
 
 // https://en.wikipedia.org/wiki/Bananagrams#cite_note-7
-const Letters = [
+export const Letters = [
   "J",
   "K",
   "Q",
@@ -201,26 +255,29 @@ const Letters = [
   "E",
 ];
 
-// @TODO use a seeded randomizer so we can get one combo per day.
-function getRandom<T>(arr: T[], n: number) {
+// Used whenever the caller doesn't care about reproducing the same results,
+// like when the player shuffles their letters.
+const unseededRandom = generator.create();
+
+function getRandom<T>(arr: T[], n: number, random: RandomSeed = unseededRandom) {
   var result = new Array(n),
     len = arr.length,
     taken = new Array(len);
   if (n > len) throw new RangeError("getRandom: more elements taken than available");
   while (n--) {
-    var x = Math.floor(Math.random() * len);
+    var x = random.range(len);
     result[n] = arr[x in taken ? taken[x] : x];
     taken[x] = --len in taken ? taken[len] : len;
   }
   return result;
 }
 
-export function shuffle<T>(arr: T[]): T[] {
-  return getRandom(arr, arr.length);
+export function shuffle<T>(arr: T[], random?: RandomSeed): T[] {
+  return getRandom(arr, arr.length, random);
 }
 
-export function getRandomLetters(n: number) {
-  return getRandom(Letters, n);
+export function getRandomLetters(n: number, random?: RandomSeed) {
+  return getRandom(Letters, n, random);
 }
 
 export function wrapCursor(board: Board, cursor: Cursor): Cursor {
@@ -421,16 +478,13 @@ function shiftBoardUp(board: Board): Board {
     row.map((tile) => tile.letter),
   );
 
-  const newTiles = board.tiles.slice();
-  for (let r = 0; r < board.tiles.length; r++) {
-    for (let c = 0; c < board.tiles[0].length; c++) {
-      newTiles[r][c] = {
-        ...newTiles[r][c],
-        letter: newLetterPositions[r][c],
-        changeReason: TileChangeReason.MOVED,
-      };
-    }
-  }
+  const newTiles = board.tiles.map((row, r) =>
+    row.map((tile, c) => ({
+      ...tile,
+      letter: newLetterPositions[r][c],
+      changeReason: TileChangeReason.MOVED,
+    })),
+  );
 
   return {
     ...board,
@@ -450,16 +504,13 @@ function shiftBoardDown(board: Board): Board {
     (row) => row.map((tile) => tile.letter),
   );
 
-  const newTiles = board.tiles.slice();
-  for (let r = 0; r < board.tiles.length; r++) {
-    for (let c = 0; c < board.tiles[0].length; c++) {
-      newTiles[r][c] = {
-        ...newTiles[r][c],
-        letter: newLetterPositions[r][c],
-        changeReason: TileChangeReason.MOVED,
-      };
-    }
-  }
+  const newTiles = board.tiles.map((row, r) =>
+    row.map((tile, c) => ({
+      ...tile,
+      letter: newLetterPositions[r][c],
+      changeReason: TileChangeReason.MOVED,
+    })),
+  );
 
   return {
     ...board,
@@ -486,16 +537,13 @@ function shiftBoardLeft(board: Board): Board {
     }
   }
 
-  const newTiles = board.tiles.slice();
-  for (let r = 0; r < board.tiles.length; r++) {
-    for (let c = 0; c < board.tiles[0].length; c++) {
-      newTiles[r][c] = {
-        ...newTiles[r][c],
-        letter: newLetterPositions[r][c],
-        changeReason: TileChangeReason.MOVED,
-      };
-    }
-  }
+  const newTiles = board.tiles.map((row, r) =>
+    row.map((tile, c) => ({
+      ...tile,
+      letter: newLetterPositions[r][c],
+      changeReason: TileChangeReason.MOVED,
+    })),
+  );
 
   return {
     ...board,
@@ -522,16 +570,13 @@ function shiftBoardRight(board: Board): Board {
     }
   }
 
-  const newTiles = board.tiles.slice();
-  for (let r = 0; r < board.tiles.length; r++) {
-    for (let c = 0; c < board.tiles[0].length; c++) {
-      newTiles[r][c] = {
-        ...newTiles[r][c],
-        letter: newLetterPositions[r][c],
-        changeReason: TileChangeReason.MOVED,
-      };
-    }
-  }
+  const newTiles = board.tiles.map((row, r) =>
+    row.map((tile, c) => ({
+      ...tile,
+      letter: newLetterPositions[r][c],
+      changeReason: TileChangeReason.MOVED,
+    })),
+  );
 
   return {
     ...board,
@@ -539,7 +584,15 @@ function shiftBoardRight(board: Board): Board {
   };
 }
 
+export function hasLockedLetters(board: Board): boolean {
+  return board.tiles.some((row) => row.some((tile) => tile.letter?.locked));
+}
+
+// Letters locked by a hint have to stay in their solution tiles, so a board
+// with any of those on it can't be shifted.
 export function moveBoard(board: Board, direction: Directions): Board {
+  if (hasLockedLetters(board)) return board;
+
   switch (direction) {
     case Directions.Up:
       return shiftBoardUp(board);
@@ -551,12 +604,3 @@ export function moveBoard(board: Board, direction: Directions): Board {
       return shiftBoardRight(board);
   }
 }
-
-export function getPuzzleNumber() {
-  const now = new Date();
-  const start = new Date(now.getFullYear(), 0, 0);
-  const diff = now.getTime() - start.getTime();
-  const oneDay = 1000 * 60 * 60 * 24;
-  const day = Math.floor(diff / oneDay);
-  return day;
-}
@@ -0,0 +1,291 @@
+import generator from "random-seed";
+import { BoardConfig, BoardConfigs, BoardVariant, DefaultBoardConfig } from "./game";
+import { buildFullBoard } from "./board-builder";
+import { DefaultDictionary } from "./dictionary";
+import {
+  BoardBuilder,
+  countBoardBuildingAttempts,
+  generatePuzzle,
+  getPuzzleLetters,
+} from "./generator";
+import { getPuzzle } from "./puzzle-calendar";
+import {
+  countLettersOnBoard,
+  createBoard,
+  createTestingBoard,
+  Direction,
+  findPlacedWords,
+  placeWordRightwardsAt,
+  SolutionBoard,
+  validateSolutionBoard,
+  validateSolutionBoardWithGoodWords,
+  validateWordPlacement,
+  writeWordToBoard,
+} from "./words-helper";
+
+// Boards are written out one row per string with a "." for every empty tile,
+// which is a lot easier to eyeball than nested arrays.
+function toRows(board: SolutionBoard, config: BoardConfig = DefaultBoardConfig): string[] {
+  return board.map((row) =>
+    new Array(config.cols)
+      .fill(null)
+      .map((_, col) => row[col] || ".")
+      .join(""),
+  );
+}
+
+// If any of these change, puzzles people have already played (or are about
+// to play) have changed too. That should only ever happen on purpose.
+const goldenPuzzles = [
+  {
+    seed: "puzzle-1",
+    board: [".r....", ".eagle", ".a...l", "island", ".o...e", ".non.r"],
+    rack: "lenaarognnosrledleai",
+  },
+  {
+    seed: "puzzle-100",
+    board: ["....h.", "...hi.", "export", "x.e.i.", "..r.n.", "lounge"],
+    rack: "huexnertelgoioprinxh",
+  },
+  {
+    seed: "puzzle-365",
+    board: ["pi..p.", "amazon", ".m..r.", "quick.", ".n....", "gem..."],
+    rack: "imuanqemircgppzaknmo",
+  },
+  {
+    // The last puzzle with a date seed, as it was played on 2026-10-19.
+    seed: "9192026",
+    board: ["floppy", "a.....", "mode..", "o....o", "unlock", "s....."],
+    rack: "yneaoklcopmodofluosp",
+  },
+  {
+    seed: "practice-test",
+    board: ["..d..m", "..e..a", "depend", "i.t.or", "v....i", "e..kid"],
+    rack: "evmeddidpireiektonda",
+  },
+];
+
+// Puzzles from #1767 on are picked to match a difficulty for their weekday.
+const goldenScheduledPuzzles = [
+  {
+    number: 1767, // A Monday, so it's an easy one.
+    board: ["united", "l..o..", "try...", "r.o...", "a.....", "manage"],
+    rack: "doieuotannmtaealgrry",
+  },
+  {
+    number: 1768, // A Tuesday, which is left up to chance.
+    board: ["..job.", ".m..r.", ".echo.", ".t..n.", "freeze", ".o..ex"],
+    rack: "cbhjntfoomereexezroe",
+  },
+  {
+    number: 1773, // A Sunday, so it's a hard one.
+    board: ["..o.a.", "t.kid.", "oh.dis", ".a..pa", ".sheet", "....x."],
+    rack: "sitdexahditphaoesoak",
+  },
+];
+
+const goldenVariantPuzzles = [
+  {
+    variant: BoardVariant.Mini,
+    board: ["....e", "bikes", "at..s", "n...a", "..bay"],
+    rack: "aeitskyaaebbsn",
+  },
+  {
+    variant: BoardVariant.Large,
+    board: [".g.....", "keys.i.", ".n.pit.", "it.e...", ".locks.", "be...in", "e.macro"],
+    rack: "apsinitcbkelensimoyeeocgrkit",
+  },
+];
+
+// The greedy builder lets extra words through where words cross, so every
+// board depends on them being loaded.
+beforeAll(() => DefaultDictionary.load());
+
+describe("generator golden puzzles", () => {
+  it.each(goldenPuzzles)("builds the same board for $seed", ({ seed, board, rack }) => {
+    const [solution, letters] = getPuzzleLetters(seed);
+    expect(toRows(solution)).toEqual(board);
+    expect(letters.map(({ letter }) => letter).join("")).toEqual(rack);
+  });
+
+  it.each(goldenScheduledPuzzles)(
+    "builds the same board for #$number",
+    ({ number, board, rack }) => {
+      const [solution, letters] = generatePuzzle(getPuzzle(number));
+      expect(toRows(solution)).toEqual(board);
+      expect(letters.map(({ letter }) => letter).join("")).toEqual(rack);
+    },
+  );
+
+  it.each(goldenVariantPuzzles)("builds the same $variant board", ({ variant, board, rack }) => {
+    const config = BoardConfigs[variant];
+    const [solution, letters] = getPuzzleLetters("practice-test", { config });
+    expect(toRows(solution, config)).toEqual(board);
+    expect(letters.map(({ letter }) => letter).join("")).toEqual(rack);
+  });
+
+  it("gives every letter an id from the seed", () => {
+    const [, letters] = getPuzzleLetters("puzzle-1");
+    expect(letters.map(({ id }) => id)).toEqual(
+      letters.map((_, index) => `puzzle-1-letter-${index}`),
+    );
+  });
+});
+
+describe("generated boards", () => {
+  const seeds = new Array(100).fill(null).map((_, i) => `puzzle-${i + 1}`);
+
+  it.each(seeds)("uses every letter for %s", (seed) => {
+    const [solution, letters] = getPuzzleLetters(seed);
+    expect(countLettersOnBoard(solution)).toEqual(DefaultBoardConfig.letterCount);
+    expect(letters).toHaveLength(DefaultBoardConfig.letterCount);
+  });
+
+  it.each(seeds)("only uses good words for %s", (seed) => {
+    const [solution] = getPuzzleLetters(seed);
+    expect(validateSolutionBoardWithGoodWords(solution)).toBe(true);
+  });
+
+  it.each([BoardVariant.Mini, BoardVariant.Large])("fills every %s board", (variant) => {
+    const config = BoardConfigs[variant];
+    for (let i = 0; i < 10; i++) {
+      const [solution] = getPuzzleLetters(`practice-${variant}-${i}`, { config });
+      expect(toRows(solution, config)).toHaveLength(config.rows);
+      expect(countLettersOnBoard(solution)).toEqual(config.letterCount);
+      expect(validateSolutionBoardWithGoodWords(solution)).toBe(true);
+    }
+  });
+
+  // `getPuzzleLetters` gives up after 15 tries, so anything that needs all of
+  // them is a board that might not have every letter on it.
+  it("never needs every try to build a full board", () => {
+    const random = generator.create("attempts");
+    for (let i = 0; i < 500; i++) {
+      expect(countBoardBuildingAttempts(random)).toBeLessThan(15);
+    }
+  });
+});
+
+describe("backtracking builder", () => {
+  it.each(Object.values(BoardVariant))("fills every %s board", (variant) => {
+    const config = BoardConfigs[variant];
+    for (let i = 0; i < 10; i++) {
+      const board = buildFullBoard(generator.create(`backtracking-${i}`), config);
+      expect(board).not.toBeNull();
+      expect(countLettersOnBoard(board as SolutionBoard)).toEqual(config.letterCount);
+      expect(validateSolutionBoardWithGoodWords(board as SolutionBoard)).toBe(true);
+    }
+  });
+
+  it("reports when it runs out of steps", () => {
+    expect(
+      buildFullBoard(generator.create("backtracking"), DefaultBoardConfig, { maxSteps: 1 }),
+    ).toBeNull();
+  });
+
+  it("builds the same board for the same seed", () => {
+    const options = { builder: BoardBuilder.Backtracking };
+    expect(getPuzzleLetters("practice-test", options)).toEqual(
+      getPuzzleLetters("practice-test", options),
+    );
+  });
+});
+
+// Only the words through a placement get checked while building, which has to
+// give the same answer as checking the whole board whenever the board was
+// valid before the word went on.
+describe("placement validation", () => {
+  const { rows, cols } = DefaultBoardConfig;
+
+  it.each(goldenPuzzles.map(({ seed }) => seed))(
+    "agrees with checking the whole board for %s",
+    (seed) => {
+      const [board] = getPuzzleLetters(seed);
+      findPlacedWords(board).forEach(({ word, position, direction }) =>
+        expect(validateWordPlacement(board, position, direction, word.length)).toBe(true),
+      );
+
+      const random = generator.create(`placements-${seed}`);
+      const outcomes = new Set<boolean>();
+      for (let i = 0; i < 1000; i++) {
+        const direction = random.range(2) ? Direction.Right : Direction.Down;
+        const length = random.intBetween(2, 6);
+        const words = DefaultDictionary.wordsOfLength(length);
+        const word = words[random.range(words.length)];
+        const position =
+          direction === Direction.Right
+            ? { row: random.range(rows), col: random.range(cols - length + 1) }
+            : { row: random.range(rows - length + 1), col: random.range(cols) };
+
+        // Words only ever go where the letters they cross already match.
+        const tiles = word
+          .split("")
+          .map((_, i) =>
+            direction === Direction.Right
+              ? board[position.row][position.col + i]
+              : board[position.row + i][position.col],
+          );
+        if (tiles.some((tile, i) => tile && tile !== word[i])) continue;
+
+        const newBoard = writeWordToBoard(word, position, direction, board);
+        const valid = validateSolutionBoard(newBoard);
+        expect(validateWordPlacement(newBoard, position, direction, length)).toBe(valid);
+        outcomes.add(valid);
+      }
+
+      // Otherwise this only ever compared one kind of placement.
+      expect(Array.from(outcomes).sort()).toEqual([false, true]);
+    },
+  );
+
+  it("catches two-letter words made where a placement crosses", () => {
+    const board = writeWordToBoard("cat", { row: 0, col: 0 }, Direction.Right, createBoard());
+    const position = { row: 1, col: 1 };
+    const newBoard = writeWordToBoard("ox", position, Direction.Right, board);
+
+    // "cat" and "ox" are fine, but "ox" makes "ao" and "tx" going down.
+    expect(validateSolutionBoard(board)).toBe(true);
+    expect(DefaultDictionary.has("ox")).toBe(true);
+    expect(validateWordPlacement(newBoard, position, Direction.Right, 2)).toBe(false);
+    expect(validateSolutionBoard(newBoard)).toBe(false);
+  });
+});
+
+describe("the isbn board", () => {
+  // The "i" in "silent" on the testing board lines up with the "b" in "boxed",
+  // which is exactly the shape of "isbn", except it runs off the right edge.
+  const intersection = { row: 1, col: 3 };
+
+  it("won't write a word off the edge of the board", () => {
+    expect(() =>
+      writeWordToBoard("isbn", intersection, Direction.Right, createTestingBoard()),
+    ).toThrow();
+  });
+
+  it("only places words that fit on the board", () => {
+    const testingBoard = createTestingBoard();
+    let placed = 0;
+    for (let i = 0; i < 20; i++) {
+      const board = placeWordRightwardsAt(
+        intersection,
+        createTestingBoard(),
+        generator.create(`isbn-${i}`),
+      );
+      if (!board) continue;
+      placed++;
+
+      expect(board).toHaveLength(DefaultBoardConfig.rows);
+      board.forEach((row) => expect(row.length).toBeLessThanOrEqual(DefaultBoardConfig.cols));
+      expect(validateSolutionBoard(board)).toBe(true);
+      expect(toRows(board)[1]).not.toContain("isbn");
+
+      // Nothing that was already on the board got written over.
+      const before = toRows(testingBoard).join("");
+      const after = toRows(board).join("");
+      before.split("").forEach((tile, i) => expect([".", after[i]]).toContain(tile));
+    }
+
+    // Otherwise none of the above got checked at all.
+    expect(placed).toBeGreaterThan(0);
+  });
+});
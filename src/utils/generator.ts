@@ -1,5 +1,10 @@
-import { v4 as uuidv4 } from "uuid";
-import { Config, Letter, shuffle } from "../utils/game";
+import generator, { RandomSeed } from "random-seed";
+import { BoardConfig, DefaultBoardConfig, Letter, shuffle } from "../utils/game";
+import { Difficulty, rateDifficulty } from "./difficulty";
+import { buildFullBoard } from "./board-builder";
+import { DefaultDictionary, Dictionary } from "./dictionary";
+import { getBoardConfig, getTargetDifficulty, Puzzle, PuzzleMode } from "./puzzle-calendar";
+import { DefaultLocale, getLocale } from "./locale";
 import {
   countLettersOnBoard,
   createBoard,
@@ -8,27 +13,30 @@ import {
   fillRandomEmptyPositions,
   getLettersFromBoard,
   getWordsOfLength,
-  randomGenerator,
   SolutionBoard,
   writeWordToBoard,
 } from "./words-helper";
 
-export function createCompleteBoard(): SolutionBoard {
+export function createCompleteBoard(
+  random: RandomSeed,
+  config: BoardConfig = DefaultBoardConfig,
+  dictionary: Dictionary = DefaultDictionary,
+): SolutionBoard {
   // Initialize scene.
-  let board = createBoard();
+  let board = createBoard(config);
   let direction = Direction.Right;
 
   // 1. Finding the first word.
   // Get the very first word. This is a special case.
   // We will always pick a longer word that goes across.
-  const firstWordLength = randomGenerator.intBetween(5, 6);
-  const potentialFirstWords = getWordsOfLength(firstWordLength);
+  const firstWordLength = random.intBetween(config.maxWordLength - 1, config.maxWordLength);
+  const potentialFirstWords = getWordsOfLength(firstWordLength, dictionary);
   const firstStartingPosition = {
-    row: randomGenerator.intBetween(0, 5),
-    col: randomGenerator.intBetween(0, 6 - firstWordLength),
+    row: random.intBetween(0, config.rows - 1),
+    col: random.intBetween(0, config.cols - firstWordLength),
   };
-  const firstWord = potentialFirstWords[randomGenerator.range(potentialFirstWords.length)];
-  board = writeWordToBoard(firstWord, firstStartingPosition, direction, board);
+  const firstWord = potentialFirstWords[random.range(potentialFirstWords.length)];
+  board = writeWordToBoard(firstWord, firstStartingPosition, direction, board, config);
 
   // 2. General Word Insertion Algorithm for adding new words to an existing board.
   // Do one pass that prefers longer words.
@@ -36,29 +44,150 @@ export function createCompleteBoard(): SolutionBoard {
   //
   // This raises the success rate of building a board w/ all 20 characters
   // by a whopping ~3%
-  board = fillRandomEasyPosition(board, true) || board;
+  board = fillRandomEasyPosition(board, random, true, config, dictionary) || board;
 
   // Try a few times to fill out the board as much as we can.
   // It should never take more than 15 tries before we fill up.
   // This is just a safe arbitrary buffer.
   for (let pass = 0; pass < 15; pass++) {
-    const newBoard = fillRandomEasyPosition(board) || board;
+    const newBoard = fillRandomEasyPosition(board, random, false, config, dictionary) || board;
     if (newBoard) board = newBoard;
     else break; // We're not able to add any more word normally.
   }
 
   const currentLetters = countLettersOnBoard(board);
-  const lettersRemaining = Config.MaxLetters - currentLetters;
+  const lettersRemaining = config.letterCount - currentLetters;
   for (let i = 0; i < lettersRemaining; i++) {
-    board = fillRandomEmptyPositions(board) || board;
+    board = fillRandomEmptyPositions(board, random, config, dictionary) || board;
   }
 
   return board;
 }
 
-export function getTodaysLetters(): [SolutionBoard, Letter[]] {
+// How many full boards to build while looking for one of the right difficulty
+// before settling for whatever the last one was.
+const MaxDifficultyTries = 25;
+
+export enum BoardBuilder {
+  // Places words greedily and starts over when it comes up short.
+  Greedy = "greedy",
+  // Backs up and tries other words until every letter is down.
+  Backtracking = "backtracking",
+}
+
+export type GeneratorOptions = {
+  difficulty?: Difficulty;
+  config?: BoardConfig;
+  // Defaults to greedy, since that's what every puzzle used to be built with.
+  builder?: BoardBuilder;
+  // The words boards get built out of. Defaults to the good and extra words.
+  dictionary?: Dictionary;
+  // The bag of tiles, which decides which letters are rare. When it's given,
+  // boards that need more of a letter than the bag has get built again.
+  letters?: string[];
+};
+
+// How many boards to build while looking for one that fits in the bag before
+// settling for whatever the last one was.
+const MaxBagTries = 25;
+
+function fitsInBag(letters: string[], bag: string[]) {
+  const remaining = new Map<string, number>();
+  bag.forEach((tile) => {
+    const key = tile.toLowerCase();
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  });
+  return letters.every((letter) => {
+    const count = remaining.get(letter) ?? 0;
+    remaining.set(letter, count - 1);
+    return count > 0;
+  });
+}
+
+// Generates the puzzle for a given seed. The same seed will always produce
+// the same board, which is what lets everyone play the same puzzle each day.
+export function getPuzzleLetters(
+  seed: string,
+  options: GeneratorOptions = {},
+): [SolutionBoard, Letter[]] {
+  const random = generator.create(seed);
+  const config = options.config ?? DefaultBoardConfig;
+  const builder = options.builder ?? BoardBuilder.Greedy;
+  const dictionary = options.dictionary ?? DefaultDictionary;
+
+  const buildBoard = () => {
+    for (let tries = 0; ; tries++) {
+      const result = createFullBoard(random, config, builder, dictionary);
+      if (!result) throw new Error(`Couldn't build a board with every letter for "${seed}".`);
+      if (!options.letters || tries >= MaxBagTries || fitsInBag(result[1], options.letters)) {
+        return result;
+      }
+    }
+  };
+
+  let [board, letters] = buildBoard();
+  if (options.difficulty) {
+    for (let tries = 0; tries < MaxDifficultyTries; tries++) {
+      if (rateDifficulty(board, dictionary, options.letters) === options.difficulty) break;
+      [board, letters] = buildBoard();
+    }
+  }
+
+  // The rack order and letter ids come from the seed as well, so everyone
+  // playing the same puzzle sees the exact same rack.
+  const shuffledLetters = shuffle(letters, random).map((letter, index) => ({
+    id: createLetterId(seed, index),
+    letter,
+  }));
+  return [board, shuffledLetters];
+}
+
+// Daily puzzles from this one on are built with the backtracking search.
+// Everything before it has either been played or is already in the schedule,
+// and has to stay exactly as it was. Practice puzzles can switch right away,
+// and so can other locales since none of their puzzles came before it.
+const BacktrackingScheduleStart = 2118;
+
+function getBoardBuilder(puzzle: Puzzle): BoardBuilder {
+  return puzzle.mode === PuzzleMode.Practice ||
+    puzzle.locale !== DefaultLocale ||
+    puzzle.number >= BacktrackingScheduleStart
+    ? BoardBuilder.Backtracking
+    : BoardBuilder.Greedy;
+}
+
+// The board and rack for a puzzle, with whatever difficulty, size, builder,
+// words and tiles the puzzle calls for.
+export function generatePuzzle(puzzle: Puzzle): [SolutionBoard, Letter[]] {
+  const builder = getBoardBuilder(puzzle);
+  const { dictionary, letters } = getLocale(puzzle.locale);
+  return getPuzzleLetters(puzzle.seed, {
+    difficulty: getTargetDifficulty(puzzle),
+    config: getBoardConfig(puzzle),
+    builder,
+    dictionary,
+    // Some greedy puzzles need more of a letter than the bag has, and those
+    // have to stay the way they were. Nothing built with backtracking has
+    // been played yet, so those can be made to fit.
+    letters: builder === BoardBuilder.Backtracking ? letters : undefined,
+  });
+}
+
+// Returns null only when there's no way to get a board with every letter on
+// it, which is something the caller needs to know about.
+function createFullBoard(
+  random: RandomSeed,
+  config: BoardConfig,
+  builder: BoardBuilder,
+  dictionary: Dictionary,
+): [SolutionBoard, string[]] | null {
+  if (builder === BoardBuilder.Backtracking) {
+    const board = buildFullBoard(random, config, { dictionary });
+    return board && [board, getLettersFromBoard(board)];
+  }
+
   // Create a board in one attempt.
-  let board = createCompleteBoard();
+  let board = createCompleteBoard(random, config, dictionary);
   let letters = getLettersFromBoard(board);
 
   // There is a ~80% chance that any board we build will have all 20 letters.
@@ -75,31 +204,48 @@ export function getTodaysLetters(): [SolutionBoard, Letter[]] {
   // So a cap of 10 attempts should be more than enough. So I make it 15 so we
   // can all sleep easy at night.
   for (let tries = 0; tries < 15; tries++) {
-    if (letters.length === 20) break;
-    board = createCompleteBoard();
+    if (letters.length === config.letterCount) break;
+    board = createCompleteBoard(random, config, dictionary);
     letters = getLettersFromBoard(board);
   }
 
-  const shuffledLetters = shuffle(letters).map((letter) => ({ id: uuidv4(), letter }));
-  return [board, shuffledLetters];
+  // Even 15 tries isn't a promise. Rather than ship a board that's short on
+  // letters, let the backtracking search finish the job. Boards that make it
+  // this far were broken anyway, so nothing anyone has played changes.
+  if (letters.length !== config.letterCount) {
+    return createFullBoard(random, config, BoardBuilder.Backtracking, dictionary);
+  }
+
+  return [board, letters];
+}
+
+export function createLetterId(seed: string, index: number) {
+  return `${seed}-letter-${index}`;
+}
+
+// How many boards it takes to build one with every letter on it, giving up
+// after the same 15 tries that `getPuzzleLetters` does.
+export function countBoardBuildingAttempts(
+  random: RandomSeed,
+  config: BoardConfig = DefaultBoardConfig,
+): number {
+  let attempts = 0;
+  let letters: string[] = [];
+  for (let tries = 0; tries < 15; tries++) {
+    if (letters.length === config.letterCount) break;
+    letters = getLettersFromBoard(createCompleteBoard(random, config));
+    attempts++;
+  }
+  return attempts;
 }
 
-export function analyzeBoardBuildingPerformance(iters = 1000) {
+export function analyzeBoardBuildingPerformance(iters = 1000, random = generator.create()) {
   console.info("%cRunning board building performance...", "color: #aaa");
   const start = Date.now();
-  const results = new Array(15).fill(0);
+  const results = new Array(16).fill(0);
 
   for (let i = 0; i < iters; i++) {
-    let x = 0;
-    let board;
-    let letters = [];
-    for (let tries = 0; tries < 15; tries++) {
-      if (letters.length === 20) break;
-      board = createCompleteBoard();
-      letters = getLettersFromBoard(board);
-      x++;
-    }
-    results[x]++;
+    results[countBoardBuildingAttempts(random)]++;
   }
   const end = Date.now();
 
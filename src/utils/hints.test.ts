@@ -0,0 +1,66 @@
+import { createEmptyBoard, lockLetterAt, setLetterAtPosition } from "./board-operations";
+import { Board, Letter } from "./game";
+import { HintKind, pickLetterToLock } from "./hints";
+import { SolutionBoard } from "./words-helper";
+
+const solution: SolutionBoard = [["a", "h", "a"]];
+
+const a1: Letter = { id: "a1", letter: "a" };
+const a2: Letter = { id: "a2", letter: "a" };
+const h: Letter = { id: "h", letter: "h" };
+const letters = [a1, h, a2];
+
+function place(board: Board, ...placements: [Letter, number][]): Board {
+  return placements.reduce(
+    (next, [letter, col]) => setLetterAtPosition(next, 0, col, letter),
+    board,
+  );
+}
+
+// Cells are picked at random, so everything gets checked over plenty of picks.
+function pickMany(board: Board) {
+  return new Array(30).fill(null).map(() => {
+    const hint = pickLetterToLock(solution, board, letters);
+    if (hint?.kind !== HintKind.LockLetter) throw new Error("Expected a letter to lock");
+    return hint;
+  });
+}
+
+describe("locking a letter", () => {
+  const empty = createEmptyBoard();
+
+  it("never picks a letter that's already locked", () => {
+    const board = lockLetterAt(empty, a1, 0, 0);
+    pickMany(board).forEach(({ letterId }) => expect(letterId).not.toBe(a1.id));
+  });
+
+  it("skips cells that already have the right letter", () => {
+    const board = place(empty, [a1, 0], [h, 1]);
+    pickMany(board).forEach(({ letterId, position }) => {
+      expect(position).toEqual({ row: 0, col: 2 });
+      expect(letterId).toBe(a2.id);
+    });
+
+    expect(pickLetterToLock(solution, place(board, [a2, 2]), letters)).toBeNull();
+  });
+
+  it("prefers letters that are still on the rack", () => {
+    const board = place(empty, [a1, 1]);
+    pickMany(board)
+      .filter(({ position }) => position.col !== 1)
+      .forEach(({ letterId }) => expect(letterId).toBe(a2.id));
+  });
+
+  it("moves the player's letter off the cell it locks", () => {
+    const board = place(empty, [h, 0], [a1, 1], [a2, 2]);
+    pickMany(board).forEach(({ letterId, position }) => {
+      const letter = letters.find(({ id }) => id === letterId) as Letter;
+      const locked = lockLetterAt(board, letter, position.row, position.col);
+      const ids = locked.tiles.flat().map((tile) => tile.letter?.id);
+
+      expect(locked.tiles[position.row][position.col].letter).toEqual({ ...letter, locked: true });
+      expect(ids.filter((id) => id === letterId)).toHaveLength(1);
+      expect(letter.letter).toBe(solution[position.row][position.col]);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { Board, Letter, shuffle } from "./game";
+import { Direction, findPlacedWords, PlacedWord, Position, SolutionBoard } from "./words-helper";
+
+export enum HintKind {
+  RevealWord = "reveal-word",
+  LockLetter = "lock-letter",
+  LongestWord = "longest-word",
+}
+
+// Hints are persisted with everything needed to show them again after a
+// reload, since some of them are picked at random.
+export type UsedHint =
+  | { kind: HintKind.RevealWord; word: PlacedWord }
+  | { kind: HintKind.LockLetter; letterId: string; position: Position }
+  | { kind: HintKind.LongestWord; letterIds: string[] };
+
+export const HintMarker = "💡";
+
+// One marker per hint used, tacked onto the score in the share text.
+export function getHintMarkers(hints: HintKind[] | undefined): string {
+  return HintMarker.repeat(hints?.length ?? 0);
+}
+
+export function isPositionInWord(
+  { row, col }: Position,
+  { word, position, direction }: PlacedWord,
+) {
+  return direction === Direction.Right
+    ? row === position.row && col >= position.col && col < position.col + word.length
+    : col === position.col && row >= position.row && row < position.row + word.length;
+}
+
+// Reveals where one of the solution words goes and which way it reads, but
+// not the word itself. Words that were already revealed are skipped.
+export function pickWordToReveal(solution: SolutionBoard, usedHints: UsedHint[]): UsedHint | null {
+  const revealedWords = usedHints
+    .map((hint) => (hint.kind === HintKind.RevealWord ? hint.word : null))
+    .filter(Boolean) as PlacedWord[];
+
+  const [word] = shuffle(
+    findPlacedWords(solution).filter(
+      ({ position, direction }) =>
+        !revealedWords.some(
+          (revealed) =>
+            revealed.direction === direction &&
+            revealed.position.row === position.row &&
+            revealed.position.col === position.col,
+        ),
+    ),
+  );
+
+  return word ? { kind: HintKind.RevealWord, word } : null;
+}
+
+// Picks a solution cell that doesn't already have the right letter, along
+// with a letter from the rack that can be locked into it. Letters that are
+// still on the rack are preferred over ones already on the board.
+export function pickLetterToLock(
+  solution: SolutionBoard,
+  board: Board,
+  letters: Letter[],
+): UsedHint | null {
+  const boardLetters = board.tiles.flat().map((tile) => tile.letter);
+  const lockedIds = new Set(boardLetters.filter((l) => l?.locked).map((l) => (l as Letter).id));
+  const placedIds = new Set(boardLetters.filter(Boolean).map((l) => (l as Letter).id));
+
+  const positions: Position[] = [];
+  solution.forEach((row, r) =>
+    row.forEach((char, c) => {
+      if (char && board.tiles[r][c].letter?.letter !== char) {
+        positions.push({ row: r, col: c });
+      }
+    }),
+  );
+
+  for (const position of shuffle(positions)) {
+    const char = solution[position.row][position.col];
+    const candidates = letters
+      .filter((letter) => letter.letter === char && !lockedIds.has(letter.id))
+      .sort((a, b) => Number(placedIds.has(a.id)) - Number(placedIds.has(b.id)));
+
+    if (candidates.length > 0) {
+      return { kind: HintKind.LockLetter, letterId: candidates[0].id, position };
+    }
+  }
+
+  return null;
+}
+
+// Points out which letters on the rack make up the longest solution word.
+export function getLongestWordLetters(solution: SolutionBoard, letters: Letter[]): UsedHint | null {
+  const [longest] = findPlacedWords(solution).sort((a, b) => b.word.length - a.word.length);
+  if (!longest) return null;
+
+  const letterIds: string[] = [];
+  for (const char of longest.word.split("")) {
+    const letter = letters.find((l) => l.letter === char && !letterIds.includes(l.id));
+    if (letter) letterIds.push(letter.id);
+  }
+
+  return { kind: HintKind.LongestWord, letterIds };
+}
@@ -0,0 +1,86 @@
+import { getRareLetters } from "./difficulty";
+import { generatePuzzle } from "./generator";
+import { getLetterForKey, getLocale, Locale } from "./locale";
+import {
+  createPracticeSeed,
+  getPracticePuzzle,
+  getPuzzle,
+  getPuzzleSeed,
+  PuzzleMode,
+} from "./puzzle-calendar";
+import { BoardVariant } from "./game";
+import { getLettersFromBoard, validateSolutionBoard } from "./words-helper";
+
+describe("locales", () => {
+  it("keeps the English seeds the way they were", () => {
+    expect(getPuzzleSeed(1800)).toBe("puzzle-1800");
+    expect(getPuzzleSeed(120, Locale.Spanish)).toBe("puzzle-es-120");
+    expect(getPuzzle(120, PuzzleMode.Daily, Locale.German).seed).toBe("puzzle-de-120");
+  });
+
+  it("gets the locale and variant back from a practice seed", () => {
+    const puzzle = getPracticePuzzle(createPracticeSeed(BoardVariant.Mini, Locale.Spanish));
+    expect(puzzle.locale).toBe(Locale.Spanish);
+    expect(puzzle.variant).toBe(BoardVariant.Mini);
+
+    expect(getPracticePuzzle("practice-large-abc").locale).toBe(Locale.English);
+    expect(getPracticePuzzle("practice-de-abc").variant).toBe(BoardVariant.Classic);
+  });
+
+  it("types letters that aren't on every keyboard", () => {
+    expect(getLetterForKey("Ñ", Locale.Spanish)).toBe("ñ");
+    expect(getLetterForKey(";", Locale.Spanish)).toBe("ñ");
+    expect(getLetterForKey("á", Locale.Spanish)).toBe("a");
+    expect(getLetterForKey("'", Locale.German)).toBe("ä");
+    expect(getLetterForKey(";")).toBe(";");
+    expect(getLetterForKey("E")).toBe("e");
+  });
+
+  it("counts the letters with the fewest tiles as rare", () => {
+    expect(Array.from(getRareLetters()).sort()).toEqual(["j", "k", "q", "x", "z"]);
+    expect(getRareLetters(getLocale(Locale.Spanish).letters).has("ñ")).toBe(true);
+    expect(getRareLetters(getLocale(Locale.German).letters).has("e")).toBe(false);
+  });
+
+  const otherWords: [Locale, string[]][] = [
+    [Locale.Spanish, ["gatas", "perros"]],
+    [Locale.German, ["hunde", "kater"]],
+  ];
+
+  otherWords.forEach(([locale, words]) => {
+    const { dictionary, letters } = getLocale(locale);
+
+    it(`has a tile for every letter in the ${locale} words`, () => {
+      const tiles = new Set(letters.map((letter) => letter.toLowerCase()));
+      const missing = new Set<string>();
+      for (let length = 2; length <= 6; length++) {
+        dictionary
+          .wordsOfLength(length)
+          .forEach((word) => word.split("").forEach((l) => tiles.has(l) || missing.add(l)));
+      }
+      expect(Array.from(missing)).toEqual([]);
+    });
+
+    it(`builds ${locale} puzzles out of ${locale} words`, () => {
+      const [board, rack] = generatePuzzle(getPuzzle(120, PuzzleMode.Daily, locale));
+      expect(validateSolutionBoard(board, dictionary)).toBe(true);
+      expect(rack.map(({ letter }) => letter).sort()).toEqual(getLettersFromBoard(board).sort());
+
+      const tiles = letters.map((letter) => letter.toLowerCase());
+      rack.forEach(({ letter }) => {
+        expect(tiles).toContain(letter);
+        tiles.splice(tiles.indexOf(letter), 1);
+      });
+    });
+
+    it(`knows the rest of the ${locale} words once they're loaded`, async () => {
+      words.forEach((word) => expect(dictionary.has(word)).toBe(false));
+
+      await dictionary.load();
+      words.forEach((word) => {
+        expect(dictionary.has(word)).toBe(true);
+        expect(dictionary.isCommon(word)).toBe(false);
+      });
+    });
+  });
+});
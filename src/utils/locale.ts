@@ -0,0 +1,123 @@
+import { words as SpanishWords } from "../constants/words/es";
+import { words as GermanWords } from "../constants/words/de";
+import { createLoadableDictionary, DefaultDictionary, LoadableDictionary } from "./dictionary";
+import { Letters } from "./game";
+
+export enum Locale {
+  English = "en",
+  Spanish = "es",
+  German = "de",
+}
+
+export const DefaultLocale = Locale.English;
+
+export type LocaleConfig = {
+  label: string;
+  // Every tile in a full bag, so common letters show up more than once. New
+  // puzzles are built to fit in it, and its least common letters are the
+  // ones that make a board harder.
+  letters: string[];
+  dictionary: LoadableDictionary;
+  // Keys that type a different letter than the key itself. Accented vowels
+  // type the plain vowel, and letters that aren't on every keyboard get the
+  // key they sit on in that language's layout.
+  keys: Record<string, string>;
+};
+
+function fillBag(counts: Record<string, number>): string[] {
+  return Object.entries(counts).flatMap(([letter, count]) => new Array(count).fill(letter));
+}
+
+export const Locales: Record<Locale, LocaleConfig> = {
+  [Locale.English]: {
+    label: "English",
+    letters: Letters,
+    dictionary: DefaultDictionary,
+    keys: {},
+  },
+  // Spanish Scrabble, without the CH, LL and RR tiles. Accents don't count in
+  // word games, but Ñ is a letter of its own.
+  [Locale.Spanish]: {
+    label: "Español",
+    letters: fillBag({
+      A: 12,
+      B: 2,
+      C: 4,
+      D: 5,
+      E: 12,
+      F: 1,
+      G: 2,
+      H: 2,
+      I: 6,
+      J: 1,
+      L: 4,
+      M: 2,
+      N: 5,
+      Ñ: 1,
+      O: 9,
+      P: 2,
+      Q: 1,
+      R: 5,
+      S: 6,
+      T: 4,
+      U: 5,
+      V: 1,
+      X: 1,
+      Y: 1,
+      Z: 1,
+    }),
+    dictionary: createLoadableDictionary(SpanishWords, () =>
+      import("../constants/words/es/extra-words").then(({ words }) => words),
+    ),
+    keys: { ";": "ñ", á: "a", é: "e", í: "i", ó: "o", ú: "u", ü: "u" },
+  },
+  // German Scrabble. Umlauts are letters of their own, and ß is spelled ss.
+  [Locale.German]: {
+    label: "Deutsch",
+    letters: fillBag({
+      A: 5,
+      B: 2,
+      C: 2,
+      D: 4,
+      E: 15,
+      F: 2,
+      G: 3,
+      H: 4,
+      I: 6,
+      J: 1,
+      K: 2,
+      L: 3,
+      M: 4,
+      N: 9,
+      O: 3,
+      P: 1,
+      Q: 1,
+      R: 6,
+      S: 7,
+      T: 6,
+      U: 6,
+      V: 1,
+      W: 1,
+      X: 1,
+      Y: 1,
+      Z: 1,
+      Ä: 1,
+      Ö: 1,
+      Ü: 1,
+    }),
+    dictionary: createLoadableDictionary(GermanWords, () =>
+      import("../constants/words/de/extra-words").then(({ words }) => words),
+    ),
+    keys: { "'": "ä", ";": "ö", "[": "ü" },
+  },
+};
+
+export function getLocale(locale: Locale = DefaultLocale): LocaleConfig {
+  return Locales[locale];
+}
+
+// The letter a key types, if it types one at all.
+export function getLetterForKey(key: string, locale: Locale = DefaultLocale): string {
+  const lowerKey = key.toLowerCase();
+  return Locales[locale].keys[lowerKey] ?? lowerKey;
+}
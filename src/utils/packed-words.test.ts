@@ -0,0 +1,37 @@
+import { createPackedWordList, packWords } from "./packed-words";
+
+// Enough words for a few blocks, so lookups have to pick the right one.
+const words = Array.from("abcdefghij").flatMap((first) =>
+  Array.from("aeiou").flatMap((second) => [`${first}${second}t`, `${first}${second}n`]),
+);
+
+describe("packed words", () => {
+  it("shares prefixes with the word before", () => {
+    expect(packWords(["bet", "bat", "ban", "tea"])).toBe("3|0ban2t1et0tea");
+  });
+
+  it("unpacks to the same sorted words", () => {
+    const list = createPackedWordList(packWords(words));
+    expect(list.length).toBe(3);
+    expect(list.size).toBe(words.length);
+    expect(list.words()).toEqual(Array.from(words).sort());
+  });
+
+  it("finds every word and nothing else", () => {
+    const list = createPackedWordList(packWords(words));
+    expect(words.every(list.has)).toBe(true);
+    expect(["abt", "jap", "kat", "aaa", "zzz", "at", "bett", ""].some(list.has)).toBe(false);
+  });
+
+  it("handles an empty list", () => {
+    const list = createPackedWordList(packWords([]));
+    expect(list.size).toBe(0);
+    expect(list.has("tea")).toBe(false);
+    expect(list.words()).toEqual([]);
+  });
+
+  it("only packs lowercase words of the same length", () => {
+    expect(() => packWords(["tea", "eat", "beat"])).toThrow();
+    expect(() => packWords(["Tea"])).toThrow();
+  });
+});
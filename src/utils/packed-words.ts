@@ -0,0 +1,108 @@
+// Word lists are shipped packed into a single string instead of as an array
+// literal, which is a lot smaller and doesn't have to be copied into a `Set`
+// before it can be used.
+//
+// Every word in a list is the same length, and the words are sorted. Each one
+// is stored as a digit saying how many letters it shares with the word before
+// it, followed by the letters that are different:
+//
+//   "6|0aahing2rrgh1bacas..." is aahing, aarrgh, abacas, ...
+//
+// Every `BlockSize` words the full word is written out again, so a lookup can
+// binary search those and only has to unpack one block.
+const BlockSize = 32;
+
+export type PackedWordList = {
+  length: number;
+  size: number;
+  has: (word: string) => boolean;
+  // Unpacks the whole list, in sorted order.
+  words: () => string[];
+};
+
+export function packWords(words: string[]): string {
+  const sorted = Array.from(new Set(words)).sort();
+  const length = sorted[0]?.length ?? 0;
+
+  let packed = `${length}|`;
+  sorted.forEach((word, index) => {
+    if (word.length !== length) {
+      throw new Error(`Packed words all have to be ${length} letters long, not "${word}".`);
+    }
+    if (length > 10 || !/^\p{Ll}+$/u.test(word)) {
+      throw new Error(`Can't pack "${word}".`);
+    }
+
+    const previous = index % BlockSize === 0 ? "" : sorted[index - 1];
+    let shared = 0;
+    while (shared < length - 1 && word[shared] === previous[shared]) shared++;
+    packed += `${shared}${word.slice(shared)}`;
+  });
+
+  return packed;
+}
+
+export function createPackedWordList(packed: string): PackedWordList {
+  const separator = packed.indexOf("|");
+  const length = parseInt(packed.slice(0, separator), 10);
+
+  // Where each block starts in the string. Finding these means walking the
+  // whole thing once, which is still much quicker than unpacking it.
+  const blocks: number[] = [];
+  let size = 0;
+  for (let offset = separator + 1; offset < packed.length; size++) {
+    if (size % BlockSize === 0) blocks.push(offset);
+    offset += 1 + length - parseInt(packed[offset], 10);
+  }
+
+  // Unpacks the words in a block one at a time until `visit` returns true.
+  function readBlock(block: number, visit: (word: string) => boolean) {
+    const end = blocks[block + 1] ?? packed.length;
+    let word = "";
+    for (let offset = blocks[block]; offset < end; ) {
+      const shared = parseInt(packed[offset], 10);
+      const next = offset + 1 + length - shared;
+      word = word.slice(0, shared) + packed.slice(offset + 1, next);
+      offset = next;
+      if (visit(word)) return;
+    }
+  }
+
+  function firstWordOf(block: number) {
+    return packed.substr(blocks[block] + 1, length);
+  }
+
+  function has(word: string) {
+    if (word.length !== length || blocks.length === 0) return false;
+
+    // The last block that starts at or before the word is the only one that
+    // could have it.
+    let low = 0;
+    let high = blocks.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (firstWordOf(mid) <= word) low = mid;
+      else high = mid - 1;
+    }
+
+    let found = false;
+    readBlock(low, (candidate) => {
+      found = candidate === word;
+      return candidate >= word;
+    });
+    return found;
+  }
+
+  function words() {
+    const all: string[] = [];
+    blocks.forEach((_, block) =>
+      readBlock(block, (word) => {
+        all.push(word);
+        return false;
+      }),
+    );
+    return all;
+  }
+
+  return { length, size, has, words };
+}
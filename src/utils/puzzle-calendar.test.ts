@@ -0,0 +1,93 @@
+import { BoardVariant } from "./game";
+import { Locale } from "./locale";
+import {
+  createPracticeSeed,
+  getPracticePuzzle,
+  getPuzzleDate,
+  getPuzzleForDate,
+  getPuzzleNumber,
+  getPuzzleNumberFromSeed,
+  getPuzzleSeed,
+  PuzzleMode,
+} from "./puzzle-calendar";
+
+describe("puzzle calendar", () => {
+  it("counts puzzles from the last day of 2021", () => {
+    expect(getPuzzleNumber(new Date(2022, 0, 1))).toBe(1);
+    expect(getPuzzleNumber(new Date(2022, 11, 31))).toBe(365);
+    expect(getPuzzleNumber(new Date(2026, 9, 19))).toBe(1753);
+  });
+
+  it("goes from a date to a number to a seed", () => {
+    const puzzle = getPuzzleForDate(new Date(2026, 9, 25, 15, 30));
+    expect(puzzle.number).toBe(1759);
+    expect(puzzle.seed).toBe("puzzle-1759");
+    expect(puzzle.mode).toBe(PuzzleMode.Daily);
+    expect(puzzle.date).toEqual(new Date(2026, 9, 25));
+    expect(getPuzzleForDate(new Date(2026, 9, 25), Locale.German).seed).toBe("puzzle-de-1759");
+  });
+
+  it("changes puzzles at local midnight", () => {
+    expect(getPuzzleNumber(new Date(2026, 9, 19, 23, 59, 59, 999))).toBe(1753);
+    expect(getPuzzleNumber(new Date(2026, 9, 20, 0, 0, 0, 0))).toBe(1754);
+    expect(getPuzzleNumber(new Date(2026, 9, 19, 0, 0, 0, 0))).toBe(1753);
+  });
+
+  it("keeps counting across years", () => {
+    const lastOfYear = getPuzzleNumber(new Date(2026, 11, 31, 23, 59));
+    expect(getPuzzleNumber(new Date(2027, 0, 1, 0, 0))).toBe(lastOfYear + 1);
+    expect(getPuzzleNumber(new Date(2025, 0, 1))).toBe(getPuzzleNumber(new Date(2024, 0, 1)) + 366);
+  });
+
+  it("gives every day its own number, even around daylight saving time", () => {
+    const numbers = new Array(2 * 366)
+      .fill(null)
+      .map((_, day) => getPuzzleNumber(new Date(2026, 0, 1 + day, 12)));
+    numbers.forEach((number, day) => expect(number).toBe(numbers[0] + day));
+  });
+
+  it("gets the date back from a number", () => {
+    for (const number of [1, 365, 366, 1753, 1826, 2117]) {
+      expect(getPuzzleNumber(getPuzzleDate(number))).toBe(number);
+    }
+    expect(getPuzzleDate(366)).toEqual(new Date(2023, 0, 1));
+  });
+
+  it("keeps the seeds puzzles had before they were numbered", () => {
+    expect(getPuzzleSeed(1)).toBe("012022");
+    expect(getPuzzleSeed(1752)).toBe("9182026");
+    expect(getPuzzleSeed(1753)).toBe("9192026");
+    expect(getPuzzleSeed(1754)).toBe("puzzle-1754");
+    expect(getPuzzleSeed(1753, Locale.Spanish)).toBe("puzzle-es-1753");
+  });
+
+  it("gets the number back from a daily seed", () => {
+    expect(getPuzzleNumberFromSeed("puzzle-1800")).toBe(1800);
+    expect(getPuzzleNumberFromSeed("puzzle-es-120")).toBe(120);
+    expect(getPuzzleNumberFromSeed("9182026")).toBe(1752);
+    expect(getPuzzleNumberFromSeed("012022")).toBe(1);
+    // Feb 11 and Dec 1 2025 had the same seed.
+    expect(getPuzzleNumberFromSeed("1112025")).toBe(getPuzzleNumber(new Date(2025, 11, 1)));
+
+    expect(getPuzzleNumberFromSeed("practice-abc-123")).toBeNull();
+    expect(getPuzzleNumberFromSeed("9992026")).toBeNull();
+    expect(getPuzzleNumberFromSeed("puzzle-")).toBeNull();
+  });
+
+  it("never gives a practice puzzle a daily seed", () => {
+    const dailySeeds = new Set<string>();
+    for (let number = 1; number <= 2200; number++) {
+      Object.values(Locale).forEach((locale) => dailySeeds.add(getPuzzleSeed(number, locale)));
+    }
+
+    Object.values(Locale).forEach((locale) =>
+      Object.values(BoardVariant).forEach((variant) => {
+        const seed = createPracticeSeed(variant, locale);
+        expect(dailySeeds.has(seed)).toBe(false);
+        expect(seed).toMatch(/^practice-/);
+        expect(getPracticePuzzle(seed).mode).toBe(PuzzleMode.Practice);
+      }),
+    );
+    dailySeeds.forEach((seed) => expect(seed).not.toMatch(/^practice-/));
+  });
+});
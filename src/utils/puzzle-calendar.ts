@@ -0,0 +1,177 @@
+import { v4 as uuidv4 } from "uuid";
+import { Difficulty } from "./difficulty";
+import { BoardConfig, BoardConfigs, BoardVariant } from "./game";
+import { DefaultLocale, Locale } from "./locale";
+
+// Every puzzle is identified by its number, which is the count of days since
+// the epoch below. The epoch is the last day of 2021 so puzzle numbers line up
+// with the day-of-year numbering that was used throughout 2022.
+const PuzzleEpoch = { year: 2021, month: 11, day: 31 };
+
+const oneDay = 1000 * 60 * 60 * 24;
+
+export enum PuzzleMode {
+  Daily = "daily",
+  Archive = "archive",
+  Practice = "practice",
+}
+
+export type Puzzle = {
+  mode: PuzzleMode;
+  number: number;
+  seed: string;
+  date: Date;
+  // Only practice puzzles come in anything other than the classic size.
+  variant: BoardVariant;
+  // Every locale has its own puzzles, built out of its own words.
+  locale: Locale;
+};
+
+// Days are counted using the local calendar date, converted to UTC so that
+// daylight saving transitions never make a day 23 or 25 hours long.
+function toDayIndex(year: number, month: number, day: number) {
+  return Math.round(Date.UTC(year, month, day) / oneDay);
+}
+
+export function getPuzzleNumber(date: Date): number {
+  return (
+    toDayIndex(date.getFullYear(), date.getMonth(), date.getDate()) -
+    toDayIndex(PuzzleEpoch.year, PuzzleEpoch.month, PuzzleEpoch.day)
+  );
+}
+
+// Local midnight of the day the puzzle is played.
+export function getPuzzleDate(puzzleNumber: number): Date {
+  return new Date(PuzzleEpoch.year, PuzzleEpoch.month, PuzzleEpoch.day + puzzleNumber);
+}
+
+// English seeds don't mention the locale, since they're the ones every puzzle
+// had before there were other locales.
+function getLocalePrefix(locale: Locale) {
+  return locale === DefaultLocale ? "" : `${locale}-`;
+}
+
+// Puzzles up to the one below were played when the seed was just the date,
+// written as month (counting from 0), day and year, like "9192026" for
+// 2026-10-19. They keep that seed so they come out exactly the way they were
+// played, and so games in progress on the day this changed carry on. It isn't
+// always unique (Feb 11 and Dec 1 are both "111"), and those days share a
+// board just like they always did.
+const LegacySeedCutover = 1753;
+
+function getLegacySeed(puzzleNumber: number) {
+  const date = getPuzzleDate(puzzleNumber);
+  return `${date.getMonth()}${date.getDate()}${date.getFullYear()}`;
+}
+
+export function getPuzzleSeed(puzzleNumber: number, locale = DefaultLocale): string {
+  if (locale === DefaultLocale && puzzleNumber <= LegacySeedCutover) {
+    return getLegacySeed(puzzleNumber);
+  }
+  return `puzzle-${getLocalePrefix(locale)}${puzzleNumber}`;
+}
+
+let legacySeedNumbers: Map<string, number> | undefined;
+
+// The daily puzzle number a seed belongs to, or null if it isn't a daily
+// puzzle's seed at all. Date seeds that two days share go to the later day.
+export function getPuzzleNumberFromSeed(seed: string): number | null {
+  const match = seed.match(/^puzzle-(?:[a-z]+-)?(\d+)$/);
+  if (match) return parseInt(match[1], 10);
+
+  if (!legacySeedNumbers) {
+    legacySeedNumbers = new Map();
+    for (let number = 1; number <= LegacySeedCutover; number++) {
+      legacySeedNumbers.set(getLegacySeed(number), number);
+    }
+  }
+  return legacySeedNumbers.get(seed) ?? null;
+}
+
+export function getPuzzle(
+  puzzleNumber: number,
+  mode = PuzzleMode.Daily,
+  locale = DefaultLocale,
+): Puzzle {
+  return {
+    mode,
+    number: puzzleNumber,
+    seed: getPuzzleSeed(puzzleNumber, locale),
+    date: getPuzzleDate(puzzleNumber),
+    variant: BoardVariant.Classic,
+    locale,
+  };
+}
+
+export function getPuzzleForDate(date: Date, locale = DefaultLocale): Puzzle {
+  return getPuzzle(getPuzzleNumber(date), PuzzleMode.Daily, locale);
+}
+
+// Daily puzzles from this one on are generated to match a difficulty for their
+// day of the week. Puzzles before it were generated without one, and have to
+// stay exactly as they were.
+const DifficultyScheduleStart = 1767;
+
+// Mondays are easier, the weekend gets the harder boards and the rest of the
+// week is left up to chance.
+const DifficultyByWeekday: (Difficulty | undefined)[] = [
+  Difficulty.Hard, // Sunday
+  Difficulty.Easy,
+  undefined,
+  undefined,
+  undefined,
+  undefined,
+  Difficulty.Hard, // Saturday
+];
+
+export function getTargetDifficulty(puzzle: Puzzle): Difficulty | undefined {
+  if (puzzle.mode === PuzzleMode.Practice || puzzle.number < DifficultyScheduleStart) {
+    return undefined;
+  }
+  return DifficultyByWeekday[getPuzzleDate(puzzle.number).getDay()];
+}
+
+export function getBoardConfig(puzzle: Puzzle): BoardConfig {
+  return BoardConfigs[puzzle.variant];
+}
+
+// Practice puzzles aren't tied to a day, so they get a fresh random seed. The
+// locale and variant are part of the seed so they come back along with it.
+export function createPracticeSeed(variant = BoardVariant.Classic, locale = DefaultLocale): string {
+  const prefix = `practice-${getLocalePrefix(locale)}`;
+  return variant === BoardVariant.Classic
+    ? `${prefix}${uuidv4()}`
+    : `${prefix}${variant}-${uuidv4()}`;
+}
+
+function getLocaleFromSeed(seed: string): Locale {
+  const locales = Object.values(Locale).filter((locale) => locale !== DefaultLocale);
+  return locales.find((locale) => seed.startsWith(`practice-${locale}-`)) ?? DefaultLocale;
+}
+
+export function getVariantFromSeed(seed: string): BoardVariant {
+  const prefix = `practice-${getLocalePrefix(getLocaleFromSeed(seed))}`;
+  const variants = Object.values(BoardVariant);
+  return (
+    variants.find((variant) => seed.startsWith(`${prefix}${variant}-`)) ?? BoardVariant.Classic
+  );
+}
+
+// Practice puzzles share the number of the day they're played on, which keeps
+// them out of the way of the daily streak math.
+export function getPracticePuzzle(seed: string): Puzzle {
+  const date = new Date();
+  return {
+    mode: PuzzleMode.Practice,
+    number: getPuzzleNumber(date),
+    seed,
+    date,
+    variant: getVariantFromSeed(seed),
+    locale: getLocaleFromSeed(seed),
+  };
+}
+
+// The puzzle for this session. This is resolved exactly once so that every
+// part of the app agrees on what "today" is, even if the page stays open
+// past midnight.
+export const todaysPuzzle = getPuzzleForDate(new Date());
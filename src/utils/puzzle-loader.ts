@@ -0,0 +1,77 @@
+import { PuzzleRequest, PuzzleResponse } from "../types/puzzle-worker";
+import { Letter } from "./game";
+import { getLocale } from "./locale";
+import { Puzzle } from "./puzzle-calendar";
+import { getScheduledPuzzle, loadPuzzle } from "./puzzle-schedule";
+import { SolutionBoard } from "./words-helper";
+
+type PendingRequest = {
+  puzzle: Puzzle;
+  resolve: (result: [SolutionBoard, Letter[]]) => void;
+  reject: (error: Error) => void;
+};
+
+// One worker serves every puzzle, whether it's today's, one from the archive
+// or a practice puzzle. It's only started the first time it's needed.
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, PendingRequest>();
+
+// Builds a puzzle on the main thread, for when there's no worker to do it.
+// The builder checks crossing words against the locale's extra words, so
+// those have to be in first.
+function buildPuzzle(puzzle: Puzzle): Promise<[SolutionBoard, Letter[]]> {
+  const { dictionary } = getLocale(puzzle.locale);
+  return dictionary.load().then(() => loadPuzzle(puzzle));
+}
+
+function getWorker(): Worker | null {
+  if (workerFailed || typeof Worker === "undefined") return null;
+  if (worker) return worker;
+
+  worker = new Worker(new URL("../workers/puzzle-worker.ts", import.meta.url));
+
+  worker.onmessage = ({ data }: MessageEvent<PuzzleResponse>) => {
+    const request = pendingRequests.get(data.id);
+    if (!request) return;
+    pendingRequests.delete(data.id);
+
+    if ("error" in data) request.reject(new Error(data.error));
+    else request.resolve([data.solutionBoard, data.letters]);
+  };
+
+  // If the worker can't even start, build whatever was asked for here
+  // instead. It's slower, but it beats never loading.
+  worker.onerror = () => {
+    workerFailed = true;
+    worker?.terminate();
+    worker = null;
+
+    pendingRequests.forEach(({ puzzle, resolve, reject }) => {
+      buildPuzzle(puzzle).then(resolve, reject);
+    });
+    pendingRequests.clear();
+  };
+
+  return worker;
+}
+
+// The board and rack for a puzzle. Scheduled puzzles are looked up right
+// away, and everything else gets built by the worker, which loads the extra
+// words on its own. The main thread only needs them for checking words, and
+// those get loaded when they're needed.
+export function requestPuzzle(puzzle: Puzzle): Promise<[SolutionBoard, Letter[]]> {
+  const scheduled = getScheduledPuzzle(puzzle);
+  if (scheduled) return Promise.resolve(scheduled);
+
+  const puzzleWorker = getWorker();
+  if (!puzzleWorker) return buildPuzzle(puzzle);
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { puzzle, resolve, reject });
+    const request: PuzzleRequest = { id, puzzle };
+    puzzleWorker.postMessage(request);
+  });
+}
@@ -0,0 +1,34 @@
+import { DefaultDictionary } from "./dictionary";
+import { getPuzzle, getPuzzleNumber, getPuzzleSeed } from "./puzzle-calendar";
+import { getPuzzleSchedule, getScheduledPuzzle, verifyScheduledPuzzle } from "./puzzle-schedule";
+import { countLettersOnBoard, validateSolutionBoard } from "./words-helper";
+
+const { puzzles } = getPuzzleSchedule();
+
+// Scheduled boards can have extra words where words cross, same as the
+// greedy builder that made them.
+beforeAll(() => DefaultDictionary.load());
+
+describe("puzzle schedule", () => {
+  it("has a puzzle for every day in a row", () => {
+    expect(puzzles.length).toBeGreaterThan(0);
+    puzzles.forEach((entry, i) => expect(entry.number).toBe(puzzles[0].number + i));
+  });
+
+  it("lines the numbers up with the dates and seeds", () => {
+    puzzles.forEach(({ number, date, seed }) => {
+      const [year, month, day] = date.split("-").map((part) => parseInt(part, 10));
+      expect(getPuzzleNumber(new Date(year, month - 1, day))).toBe(number);
+      expect(seed).toBe(getPuzzleSeed(number));
+    });
+  });
+
+  it("only has valid boards", () => {
+    puzzles.forEach((entry) => {
+      const [solution, letters] = getScheduledPuzzle(getPuzzle(entry.number))!;
+      expect(validateSolutionBoard(solution)).toBe(true);
+      expect(countLettersOnBoard(solution)).toBe(letters.length);
+      expect(verifyScheduledPuzzle(entry)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import schedule from "../constants/puzzle-schedule.json";
+import { BoardConfig, DefaultBoardConfig, Letter } from "./game";
+import { createLetterId, generatePuzzle } from "./generator";
+import { getBoardConfig, getPuzzleDate, getPuzzleSeed, Puzzle } from "./puzzle-calendar";
+import { getLettersFromBoard, SolutionBoard, validateSolutionBoard } from "./words-helper";
+
+// Daily puzzles are generated ahead of time into `puzzle-schedule.json`, so a
+// change to the word lists or the generator can't quietly change a puzzle
+// that's already been scheduled. Anything not in the file is generated live.
+//
+// Boards are stored with one string per row and a "." for every empty tile,
+// and the letters are stored in rack order.
+export type ScheduledPuzzle = {
+  number: number;
+  date: string;
+  seed: string;
+  letters: string;
+  solution: string[];
+};
+
+export type PuzzleSchedule = {
+  puzzles: ScheduledPuzzle[];
+};
+
+const EmptyTile = ".";
+
+const scheduledPuzzles = new Map(
+  (schedule as PuzzleSchedule).puzzles.map((entry) => [entry.seed, entry]),
+);
+
+export function getPuzzleSchedule(): PuzzleSchedule {
+  return schedule as PuzzleSchedule;
+}
+
+// The board and rack for a puzzle, from the schedule when it's in there.
+export function loadPuzzle(puzzle: Puzzle): [SolutionBoard, Letter[]] {
+  return getScheduledPuzzle(puzzle) ?? generatePuzzle(puzzle);
+}
+
+// Scheduled puzzles don't need any generating, so they're quick enough to
+// look up on the main thread.
+export function getScheduledPuzzle(puzzle: Puzzle): [SolutionBoard, Letter[]] | undefined {
+  const entry = scheduledPuzzles.get(puzzle.seed);
+  if (!entry) return undefined;
+
+  const letters = entry.letters.split("").map((letter, index) => ({
+    id: createLetterId(entry.seed, index),
+    letter,
+  }));
+  return [parseBoard(entry.solution), letters];
+}
+
+export function createScheduledPuzzle(puzzle: Puzzle): ScheduledPuzzle {
+  const [solution, letters] = generatePuzzle(puzzle);
+  return {
+    number: puzzle.number,
+    date: formatDate(getPuzzleDate(puzzle.number)),
+    seed: puzzle.seed,
+    letters: letters.map(({ letter }) => letter).join(""),
+    solution: serializeBoard(solution, getBoardConfig(puzzle)),
+  };
+}
+
+// Returns everything wrong with a scheduled puzzle, so an empty list means
+// it's good to play.
+export function verifyScheduledPuzzle(
+  entry: ScheduledPuzzle,
+  config: BoardConfig = DefaultBoardConfig,
+): string[] {
+  const errors: string[] = [];
+  const solution = parseBoard(entry.solution);
+  const boardLetters = getLettersFromBoard(solution);
+
+  if (entry.seed !== getPuzzleSeed(entry.number)) {
+    errors.push(`seed "${entry.seed}" doesn't belong to puzzle #${entry.number}`);
+  }
+  if (entry.date !== formatDate(getPuzzleDate(entry.number))) {
+    errors.push(`date ${entry.date} doesn't belong to puzzle #${entry.number}`);
+  }
+  if (
+    entry.solution.length !== config.rows ||
+    entry.solution.some((row) => row.length !== config.cols)
+  ) {
+    errors.push(`solution isn't ${config.rows}x${config.cols}`);
+  }
+  if (boardLetters.length !== config.letterCount) {
+    errors.push(`solution has ${boardLetters.length} letters instead of ${config.letterCount}`);
+  }
+  if (sortLetters(boardLetters) !== sortLetters(entry.letters.split(""))) {
+    errors.push("letters don't match the solution");
+  }
+  if (!validateSolutionBoard(solution)) {
+    errors.push("solution has words that aren't in the dictionary");
+  }
+
+  return errors;
+}
+
+function serializeBoard(board: SolutionBoard, config: BoardConfig): string[] {
+  return board.map((row) =>
+    new Array(config.cols)
+      .fill(null)
+      .map((_, col) => row[col] || EmptyTile)
+      .join(""),
+  );
+}
+
+// Empty tiles come back as `undefined`, just like they come out of the generator.
+function parseBoard(rows: string[]): SolutionBoard {
+  return rows.map(
+    (tiles) => tiles.split("").map((tile) => (tile === EmptyTile ? undefined : tile)) as string[],
+  );
+}
+
+function sortLetters(letters: string[]) {
+  return [...letters].sort().join("");
+}
+
+function formatDate(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
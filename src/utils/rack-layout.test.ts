@@ -0,0 +1,39 @@
+import { getRackRows } from "./rack-layout";
+
+const letters = (count: number) => new Array(count).fill(null).map((_, i) => i);
+const rowSizes = (count: number, width: number) =>
+  getRackRows(letters(count), width).map((row) => row.length);
+
+describe("rack layout", () => {
+  it("fits the rack into the widest rows it can", () => {
+    expect(rowSizes(20, 1024)).toEqual([8, 7, 5]);
+    expect(rowSizes(20, 360)).toEqual([8, 7, 5]);
+  });
+
+  it("uses the narrow buttons on narrow screens", () => {
+    expect(rowSizes(20, 300)).toEqual([6, 5, 5, 4]);
+    expect(rowSizes(20, 320)).toEqual([8, 8, 4]);
+    expect(rowSizes(20, 200)).toEqual([5, 5, 5, 4, 1]);
+  });
+
+  it("leaves room for the enter and backspace buttons in the last row", () => {
+    // A row of letters on its own fits 8, but only 5 fit next to the buttons.
+    expect(rowSizes(8, 1024)).toEqual([3, 5]);
+    expect(rowSizes(14, 1024)).toEqual([5, 4, 5]);
+  });
+
+  it("keeps a small rack in a single row", () => {
+    expect(getRackRows(letters(3), 1024)).toEqual([[0, 1, 2]]);
+    expect(getRackRows(letters(0), 1024)).toEqual([[]]);
+  });
+
+  it("gives the buttons a row of their own when no letters fit next to them", () => {
+    expect(getRackRows(letters(5), 130)).toEqual([[0, 1, 2], [3, 4], []]);
+  });
+
+  it("keeps the letters in rack order", () => {
+    [130, 200, 320, 1024].forEach((width) =>
+      expect(getRackRows(letters(28), width).flat()).toEqual(letters(28)),
+    );
+  });
+});
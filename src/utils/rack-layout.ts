@@ -0,0 +1,39 @@
+// Widths of the rack's buttons with their margins included. Screens narrower
+// than `NarrowScreen` get the narrow buttons, same as the media queries in
+// `Controls`.
+const RackSizes = {
+  MaxWidth: 360,
+  NarrowScreen: 370,
+  Letter: 44,
+  NarrowLetter: 40,
+  Action: 70,
+  NarrowAction: 66,
+};
+
+// Splits the rack into rows that fit the available width. The last row shares
+// its space with the enter and backspace buttons, and whatever doesn't fit in
+// it gets spread evenly over the rows above, with any extra letters going to
+// the top rows.
+export function getRackRows<T>(letters: T[], windowWidth: number): T[][] {
+  const isNarrow = windowWidth <= RackSizes.NarrowScreen;
+  const width = Math.min(RackSizes.MaxWidth, windowWidth);
+  const letterWidth = isNarrow ? RackSizes.NarrowLetter : RackSizes.Letter;
+  const actionWidth = isNarrow ? RackSizes.NarrowAction : RackSizes.Action;
+
+  const perRow = Math.max(1, Math.floor(width / letterWidth));
+  const lastRowSize = Math.max(0, Math.floor((width - actionWidth * 2) / letterWidth));
+
+  const lastRow = letters.slice(Math.max(0, letters.length - lastRowSize));
+  const rest = letters.slice(0, letters.length - lastRow.length);
+
+  const rowCount = Math.ceil(rest.length / perRow);
+  const rows: T[][] = [];
+  let start = 0;
+  for (let i = 0; i < rowCount; i++) {
+    const size = Math.ceil((rest.length - start) / (rowCount - i));
+    rows.push(rest.slice(start, start + size));
+    start += size;
+  }
+
+  return rows.concat([lastRow]);
+}
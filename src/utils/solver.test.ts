@@ -0,0 +1,66 @@
+import { DefaultDictionary } from "./dictionary";
+import { getPuzzleLetters } from "./generator";
+import { enumerateSolutions, isSameSolution, solve } from "./solver";
+import { countLettersOnBoard, getLettersFromBoard, validateSolutionBoard } from "./words-helper";
+
+// Moves every letter on the board over by some rows and columns.
+function shiftBoard(rows: string[], dr: number, dc: number): string[] {
+  const empty = ".".repeat(rows[0].length);
+  const shifted = rows.map((_, r) => rows[r - dr] ?? empty);
+  return shifted.map((row) => (dc > 0 ? ".".repeat(dc) + row : row.slice(-dc) + ".".repeat(-dc)));
+}
+
+function parse(rows: string[]) {
+  return rows.map((row) => row.split("").map((tile) => (tile === "." ? "" : tile)));
+}
+
+beforeAll(() => DefaultDictionary.load());
+
+describe("solver", () => {
+  it.each(["puzzle-1", "puzzle-100", "practice-test"])(
+    "uses every letter from %s within its budget",
+    (seed) => {
+      const [, letters] = getPuzzleLetters(seed);
+      const timeBudget = 5000;
+      const start = Date.now();
+      const result = solve(letters, undefined, { timeBudget });
+
+      expect(Date.now() - start).toBeLessThan(timeBudget);
+      expect(result.score).toBe(letters.length);
+      expect(result.exhaustive).toBe(true);
+      expect(countLettersOnBoard(result.board)).toBe(letters.length);
+      expect(validateSolutionBoard(result.board)).toBe(true);
+      expect(getLettersFromBoard(result.board).sort()).toEqual(
+        letters.map(({ letter }) => letter).sort(),
+      );
+    },
+  );
+
+  it("says so when it runs out of time", () => {
+    const [, letters] = getPuzzleLetters("puzzle-365");
+    const result = solve(letters, undefined, { timeBudget: 0 });
+    expect(result.exhaustive).toBe(false);
+    expect(result.score).toBeLessThan(letters.length);
+
+    const solutions = enumerateSolutions(letters, { timeBudget: 0 });
+    expect(solutions.exhaustive).toBe(false);
+  });
+
+  it("stops enumerating at the limit", () => {
+    const [, letters] = getPuzzleLetters("puzzle-1");
+    const { solutions, exhaustive } = enumerateSolutions(letters, { limit: 2, timeBudget: 5000 });
+    expect(solutions).toHaveLength(2);
+    expect(exhaustive).toBe(false);
+    expect(isSameSolution(solutions[0], solutions[1])).toBe(false);
+    solutions.forEach((solution) => expect(validateSolutionBoard(solution)).toBe(true));
+  });
+
+  it("treats the same crossword anywhere on the board as the same solution", () => {
+    const rows = ["......", ".cat..", "..x...", "..e...", "......", "......"];
+    expect(isSameSolution(parse(rows), parse(shiftBoard(rows, 2, 3)))).toBe(true);
+    expect(isSameSolution(parse(rows), parse(shiftBoard(rows, -1, -1)))).toBe(true);
+
+    const different = ["......", ".cat..", "...o..", "...e..", "......", "......"];
+    expect(isSameSolution(parse(rows), parse(different))).toBe(false);
+  });
+});
@@ -0,0 +1,393 @@
+import { Board, BoardConfig, DefaultBoardConfig, Letter } from "./game";
+import { DefaultDictionary, Dictionary } from "./dictionary";
+import { Direction, findPlacedWords, PlacedWord, SolutionBoard } from "./words-helper";
+
+// How long the solver is allowed to search for, in milliseconds.
+const DefaultTimeBudget = 1500;
+
+// How many solutions `enumerateSolutions` collects before it stops looking.
+const DefaultSolutionLimit = 50;
+
+export type SolverOptions = {
+  timeBudget?: number;
+  // Only needed when there's no starting board to take the size from.
+  config?: BoardConfig;
+  dictionary?: Dictionary;
+};
+
+export type SolverResult = {
+  // The best arrangement found, including any letters from the starting board.
+  board: SolutionBoard;
+  // What the arrangement would score, counted the same way `validateBoard` does.
+  score: number;
+  // False when the search ran out of time before it could be sure.
+  exhaustive: boolean;
+};
+
+type Slot = {
+  row: number;
+  col: number;
+  direction: Direction;
+  length: number;
+};
+
+type SearchContext = {
+  dictionary: Dictionary;
+  candidates: Map<number, string[]>;
+  startingInvalidWords: Set<string>;
+  deadline: number;
+};
+
+// Searches for the arrangement of letters that scores the most. Letters that
+// are already on the starting board stay where they are, and everything else
+// is built off of them one word at a time, like a crossword. Every word that
+// gets made along the way has to be a real word, so the only invalid words in
+// the result are ones that were already on the starting board.
+export function solve(letters: Letter[], board?: Board, options: SolverOptions = {}): SolverResult {
+  const { grid, rack, context } = prepareSearch(letters, board, options);
+  const maxScore = countLetters(grid) + sumCounts(rack);
+
+  let best: SolverResult = {
+    board: copyGrid(grid),
+    score: isConnected(grid) ? scoreGrid(grid, context.dictionary) : 0,
+    exhaustive: true,
+  };
+
+  const finished = searchArrangements(grid, rack, context, (nextGrid) => {
+    if (isConnected(nextGrid)) {
+      const score = scoreGrid(nextGrid, context.dictionary);
+      if (score > best.score) {
+        best = { ...best, board: nextGrid, score };
+      }
+    }
+    return best.score === maxScore;
+  });
+
+  return { ...best, exhaustive: finished || best.score === maxScore };
+}
+
+export type EnumerateOptions = SolverOptions & {
+  // Stop looking once this many solutions have been found.
+  limit?: number;
+};
+
+export type EnumerateResult = {
+  solutions: SolutionBoard[];
+  // False when the search stopped early, because of the limit or the time
+  // budget, so there could be more solutions out there.
+  exhaustive: boolean;
+};
+
+// Finds distinct ways to use every single letter in a full, valid crossword.
+// The same crossword shifted around the board only counts once.
+export function enumerateSolutions(
+  letters: Letter[],
+  options: EnumerateOptions = {},
+): EnumerateResult {
+  const { grid, rack, context } = prepareSearch(letters, undefined, options);
+  const limit = options.limit ?? DefaultSolutionLimit;
+  const seen = new Set<string>();
+  const solutions: SolutionBoard[] = [];
+
+  const finished = searchArrangements(grid, rack, context, (nextGrid, nextRack) => {
+    if (sumCounts(nextRack) > 0) return false;
+
+    const key = getSolutionKey(nextGrid);
+    if (!seen.has(key)) {
+      seen.add(key);
+      solutions.push(nextGrid);
+    }
+    return solutions.length >= limit;
+  });
+
+  return { solutions, exhaustive: finished && solutions.length < limit };
+}
+
+// Whether two boards hold the same crossword, ignoring where on the board it
+// sits.
+export function isSameSolution(a: SolutionBoard, b: SolutionBoard) {
+  return getSolutionKey(a) === getSolutionKey(b);
+}
+
+function prepareSearch(letters: Letter[], board: Board | undefined, options: SolverOptions) {
+  const grid = board ? boardToGrid(board) : createGrid(options.config ?? DefaultBoardConfig);
+
+  const placedIds = new Set(board ? board.tiles.flat().map((tile) => tile.letter?.id) : []);
+  const rack = countChars(
+    letters.filter(({ id }) => !placedIds.has(id)).map(({ letter }) => letter.toLowerCase()),
+  );
+
+  const dictionary = options.dictionary ?? DefaultDictionary;
+  const context: SearchContext = {
+    dictionary,
+    candidates: getCandidateWords(rack, grid, dictionary),
+    startingInvalidWords: new Set(getInvalidWordKeys(grid, dictionary)),
+    deadline: Date.now() + (options.timeBudget ?? DefaultTimeBudget),
+  };
+
+  return { grid, rack, context };
+}
+
+// Walks every arrangement that can be built off of the grid one word at a
+// time, handing each one to `visit` until it returns true. Returns false if
+// it ran out of time before it was done.
+function searchArrangements(
+  grid: SolutionBoard,
+  rack: Map<string, number>,
+  context: SearchContext,
+  visit: (grid: SolutionBoard, rack: Map<string, number>) => boolean,
+): boolean {
+  let stopped = false;
+  let timedOut = false;
+  // The same grid can be reached by placing its words in a different order,
+  // and there's no point searching it twice.
+  const visited = new Set<string>();
+
+  function search(grid: SolutionBoard, rack: Map<string, number>) {
+    if (Date.now() > context.deadline) {
+      timedOut = true;
+      return;
+    }
+
+    for (const slot of getSlots(grid)) {
+      for (const word of context.candidates.get(slot.length) || []) {
+        const used = fitWord(grid, slot, word, rack);
+        if (!used) continue;
+
+        const nextGrid = writeWord(grid, slot, word);
+        const key = nextGrid.map((row) => row.join(".")).join("/");
+        if (visited.has(key)) continue;
+        visited.add(key);
+
+        if (!hasOnlyStartingInvalidWords(nextGrid, context)) continue;
+
+        const nextRack = subtractCounts(rack, used);
+        stopped = visit(nextGrid, nextRack);
+        if (!stopped) search(nextGrid, nextRack);
+        if (stopped || timedOut) return;
+      }
+    }
+  }
+
+  search(grid, rack);
+
+  return !timedOut;
+}
+
+function createGrid(config: BoardConfig): SolutionBoard {
+  return new Array(config.rows).fill(null).map(() => new Array(config.cols).fill(""));
+}
+
+function copyGrid(grid: SolutionBoard): SolutionBoard {
+  return grid.map((row) => row.slice());
+}
+
+export function boardToGrid(board: Board): SolutionBoard {
+  return board.tiles.map((row) => row.map((tile) => tile.letter?.letter.toLowerCase() || ""));
+}
+
+function countLetters(grid: SolutionBoard) {
+  return grid.flat().filter(Boolean).length;
+}
+
+function countChars(chars: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const char of chars) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  return counts;
+}
+
+function sumCounts(counts: Map<string, number>) {
+  return Array.from(counts.values()).reduce((sum, n) => sum + n, 0);
+}
+
+function subtractCounts(counts: Map<string, number>, chars: string[]) {
+  const next = new Map(counts);
+  for (const char of chars) {
+    next.set(char, (next.get(char) || 0) - 1);
+  }
+  return next;
+}
+
+// Only words that could possibly be spelled with the rack plus whatever is on
+// the board are worth looking at. Longer words are tried first since they use
+// up more letters.
+function getCandidateWords(rack: Map<string, number>, grid: SolutionBoard, dictionary: Dictionary) {
+  const available = countChars(grid.flat().filter(Boolean));
+  rack.forEach((n, char) => available.set(char, (available.get(char) || 0) + n));
+
+  const candidates = new Map<number, string[]>();
+  for (let length = 2; length <= Math.max(grid.length, grid[0].length); length++) {
+    const words = dictionary.wordsOfLength(length).filter((word) => {
+      const counts = countChars(word.split(""));
+      return Array.from(counts).every(([char, n]) => (available.get(char) || 0) >= n);
+    });
+    if (words.length > 0) candidates.set(length, words);
+  }
+
+  return candidates;
+}
+
+// Rows to try the very first word on when starting from an empty board,
+// working out from the middle since those leave the most room for words going
+// up and down.
+function getStartingRows(rows: number) {
+  const middle = Math.floor((rows - 1) / 2);
+  return new Array(rows)
+    .fill(null)
+    .map((_, i) => (i % 2 === 0 ? middle - i / 2 : middle + (i + 1) / 2));
+}
+
+// Every spot a word could go. On an empty board that's just the starting
+// rows, otherwise a word has to run through at least one letter that's
+// already down and use at least one new letter.
+function getSlots(grid: SolutionBoard): Slot[] {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const slots: Slot[] = [];
+  const isEmpty = countLetters(grid) === 0;
+
+  for (let length = Math.max(rows, cols); length >= 2; length--) {
+    if (isEmpty) {
+      for (const row of getStartingRows(rows)) {
+        for (let col = 0; col + length <= cols; col++) {
+          slots.push({ row, col, direction: Direction.Right, length });
+        }
+      }
+      continue;
+    }
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        for (const direction of [Direction.Right, Direction.Down]) {
+          const slot = { row, col, direction, length };
+          const cells = getSlotCells(slot);
+          if (cells.some(([r, c]) => r >= rows || c >= cols)) continue;
+
+          const filled = cells.filter(([r, c]) => grid[r][c]).length;
+          if (filled === 0 || filled === length) continue;
+
+          // The word can't run into letters right before or after it.
+          const [beforeR, beforeC] =
+            direction === Direction.Right ? [row, col - 1] : [row - 1, col];
+          const [afterR, afterC] =
+            direction === Direction.Right ? [row, col + length] : [row + length, col];
+          if (grid[beforeR]?.[beforeC] || grid[afterR]?.[afterC]) continue;
+
+          slots.push(slot);
+        }
+      }
+    }
+  }
+
+  return slots;
+}
+
+function getSlotCells({ row, col, direction, length }: Slot): [number, number][] {
+  return new Array(length)
+    .fill(null)
+    .map((_, i) => (direction === Direction.Right ? [row, col + i] : [row + i, col]));
+}
+
+// Returns the letters from the rack the word would use, or null if it
+// doesn't fit.
+function fitWord(
+  grid: SolutionBoard,
+  slot: Slot,
+  word: string,
+  rack: Map<string, number>,
+): string[] | null {
+  const used: string[] = [];
+  const cells = getSlotCells(slot);
+
+  for (let i = 0; i < cells.length; i++) {
+    const [r, c] = cells[i];
+    const existing = grid[r][c];
+    if (existing) {
+      if (existing !== word[i]) return null;
+    } else {
+      used.push(word[i]);
+    }
+  }
+
+  const needed = countChars(used);
+  for (const [char, n] of Array.from(needed)) {
+    if ((rack.get(char) || 0) < n) return null;
+  }
+
+  return used;
+}
+
+function writeWord(grid: SolutionBoard, slot: Slot, word: string): SolutionBoard {
+  const nextGrid = copyGrid(grid);
+  getSlotCells(slot).forEach(([r, c], i) => (nextGrid[r][c] = word[i]));
+  return nextGrid;
+}
+
+function getWordKey({ word, position, direction }: PlacedWord) {
+  return `${position.row},${position.col},${direction},${word}`;
+}
+
+function getInvalidWordKeys(grid: SolutionBoard, dictionary: Dictionary) {
+  return findPlacedWords(grid)
+    .filter(({ word }) => !dictionary.has(word))
+    .map(getWordKey);
+}
+
+function hasOnlyStartingInvalidWords(
+  grid: SolutionBoard,
+  { dictionary, startingInvalidWords }: SearchContext,
+) {
+  return getInvalidWordKeys(grid, dictionary).every((key) => startingInvalidWords.has(key));
+}
+
+// Same as `validateBoard`: a letter counts when it's part of a real word and
+// isn't part of any word that isn't.
+function scoreGrid(grid: SolutionBoard, dictionary: Dictionary) {
+  const valid = new Set<string>();
+  const invalid = new Set<string>();
+
+  for (const placedWord of findPlacedWords(grid)) {
+    const cells = getSlotCells({
+      ...placedWord.position,
+      direction: placedWord.direction,
+      length: placedWord.word.length,
+    });
+    const target = dictionary.has(placedWord.word) ? valid : invalid;
+    cells.forEach(([r, c]) => target.add(`${r},${c}`));
+  }
+
+  return Array.from(valid).filter((cell) => !invalid.has(cell)).length;
+}
+
+// Same as `validateWordIsland`, but for a grid of letters.
+function isConnected(grid: SolutionBoard) {
+  const cells: [number, number][] = [];
+  grid.forEach((row, r) => row.forEach((char, c) => char && cells.push([r, c])));
+  if (cells.length === 0) return false;
+
+  const seen = new Set<string>();
+  const stack = [cells[0]];
+  while (stack.length > 0) {
+    const [r, c] = stack.pop() as [number, number];
+    const key = `${r},${c}`;
+    if (seen.has(key) || !grid[r]?.[c]) continue;
+    seen.add(key);
+    stack.push([r - 1, c], [r + 1, c], [r, c - 1], [r, c + 1]);
+  }
+
+  return seen.size === cells.length;
+}
+
+// Trims the empty rows and columns around the letters, so the same crossword
+// gets the same key wherever it is on the board.
+function getSolutionKey(grid: SolutionBoard) {
+  const rows = grid.map((row) => row.map((char) => char || ".").join(""));
+  const filledRows = rows.filter((row) => /[^.]/.test(row));
+  const cols = grid[0].map((_, c) => c).filter((c) => grid.some((row) => row[c]));
+  if (cols.length === 0) return "";
+
+  const [start, end] = [cols[0], cols[cols.length - 1] + 1];
+  return filledRows.map((row) => row.slice(start, end)).join("/");
+}
@@ -0,0 +1,103 @@
+import { PuzzleMode } from "./puzzle-calendar";
+import { BoardVariant } from "./game";
+import { addResultToHistory, computeStats, GameResult, getResultsForMode } from "./stats";
+
+function result(puzzleNumber: number, score = 20, mode = PuzzleMode.Daily): GameResult {
+  return {
+    mode,
+    puzzleNumber,
+    seed: mode === PuzzleMode.Practice ? `practice-${puzzleNumber}` : `puzzle-${puzzleNumber}`,
+    score,
+    hardMode: false,
+    board: [],
+    finishedAt: puzzleNumber,
+  };
+}
+
+const played = (...puzzleNumbers: number[]) => puzzleNumbers.map((number) => result(number));
+
+describe("stats", () => {
+  it("counts back to back puzzles as a streak", () => {
+    const stats = computeStats(played(3, 4, 5), 5);
+    expect(stats.currentStreak).toBe(3);
+    expect(stats.longestStreak).toBe(3);
+  });
+
+  it("starts a new streak after a gap", () => {
+    const stats = computeStats(played(1, 2, 3, 4, 7, 8), 8);
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.longestStreak).toBe(4);
+  });
+
+  it("keeps the current streak alive until today's puzzle is missed", () => {
+    expect(computeStats(played(4, 5), 6).currentStreak).toBe(2);
+    expect(computeStats(played(4, 5), 7).currentStreak).toBe(0);
+    expect(computeStats(played(4, 5), 7).longestStreak).toBe(2);
+    expect(computeStats([], 7).currentStreak).toBe(0);
+  });
+
+  it("doesn't care what order the games were played in", () => {
+    const stats = computeStats(played(8, 2, 7, 1, 3), 8);
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.longestStreak).toBe(3);
+  });
+
+  it("keeps one result per seed and mode", () => {
+    let history = addResultToHistory([], result(5, 12));
+    history = addResultToHistory(history, result(6, 15));
+    history = addResultToHistory(history, result(5, 18));
+
+    expect(history.map(({ puzzleNumber, score }) => [puzzleNumber, score])).toEqual([
+      [6, 15],
+      [5, 18],
+    ]);
+    expect(computeStats(history, 6).gamesPlayed).toBe(2);
+
+    const archived = { ...result(5, 10), mode: PuzzleMode.Archive };
+    expect(addResultToHistory(history, archived)).toHaveLength(3);
+  });
+
+  it("keeps practice games out of the daily streaks", () => {
+    const history = [
+      ...played(3, 4),
+      result(5, 20, PuzzleMode.Practice),
+      result(6, 20, PuzzleMode.Practice),
+    ];
+
+    const daily = computeStats(getResultsForMode(history, PuzzleMode.Daily), 6);
+    expect(daily.gamesPlayed).toBe(2);
+    expect(daily.currentStreak).toBe(0);
+    expect(daily.longestStreak).toBe(2);
+
+    expect(getResultsForMode(history, PuzzleMode.Practice)).toHaveLength(2);
+  });
+
+  it("keeps practice games of each size apart", () => {
+    const history = [
+      { ...result(1, 10, PuzzleMode.Practice), seed: "practice-abc" },
+      { ...result(2, 10, PuzzleMode.Practice), seed: "practice-mini-abc" },
+    ];
+    expect(getResultsForMode(history, PuzzleMode.Practice)).toHaveLength(1);
+    expect(getResultsForMode(history, PuzzleMode.Practice, BoardVariant.Mini)).toHaveLength(1);
+    expect(getResultsForMode(history, PuzzleMode.Practice, BoardVariant.Large)).toHaveLength(0);
+  });
+
+  it("spreads the scores out of 20", () => {
+    const history = [result(1, 20), result(2, 17), result(3, 17), result(4, 0), result(5, 20)];
+    const stats = computeStats(history, 5);
+
+    expect(stats.distribution).toHaveLength(21);
+    expect(stats.distribution[20]).toBe(2);
+    expect(stats.distribution[17]).toBe(2);
+    expect(stats.distribution[0]).toBe(1);
+    expect(stats.distribution.reduce((total, count) => total + count, 0)).toBe(5);
+    expect(stats.perfectGames).toBe(2);
+    expect(stats.averageScore).toBe(74 / 5);
+  });
+
+  it("sizes the distribution to the board", () => {
+    const stats = computeStats([result(1, 12), result(2, 9)], 2, 12);
+    expect(stats.distribution).toHaveLength(13);
+    expect(stats.perfectGames).toBe(1);
+  });
+});
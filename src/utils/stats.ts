@@ -0,0 +1,118 @@
+import { Board, BoardVariant, Config } from "./game";
+import { SolutionBoard } from "./words-helper";
+import { getVariantFromSeed, PuzzleMode } from "./puzzle-calendar";
+import { getHintMarkers, HintKind } from "./hints";
+import { Difficulty } from "./difficulty";
+
+// A single finished game, as it gets written to the play history.
+export type GameResult = {
+  mode: PuzzleMode;
+  puzzleNumber: number;
+  seed: string;
+  score: number;
+  hardMode: boolean;
+  board: SolutionBoard;
+  finishedAt: number;
+  // Missing on results recorded before hints and assist mode existed.
+  hints?: HintKind[];
+  assisted?: boolean;
+  difficulty?: Difficulty;
+};
+
+export const AssistMarker = "🔍";
+
+export type Stats = {
+  gamesPlayed: number;
+  averageScore: number;
+  // Number of games for each score, indexed by the score itself.
+  distribution: number[];
+  perfectGames: number;
+  currentStreak: number;
+  longestStreak: number;
+};
+
+// The markers that go after a score, which keep scores comparable with each
+// other: `*` for hard mode, a 💡 for each hint and a 🔍 for assist mode.
+export function getResultMarkers({
+  hardMode,
+  hints,
+  assisted,
+}: Pick<GameResult, "hardMode" | "hints" | "assisted">): string {
+  return `${hardMode ? "*" : ""}${getHintMarkers(hints)}${assisted ? AssistMarker : ""}`;
+}
+
+// Strip a board down to just its letters so it's cheap to persist.
+export function boardToSolutionBoard(board: Board): SolutionBoard {
+  return board.tiles.map((row) => row.map((tile) => tile.letter?.letter || ""));
+}
+
+// Only one result is kept per puzzle and mode, so replaying a puzzle from the
+// archive never overwrites the result from when it was played as a daily.
+export function addResultToHistory(history: GameResult[], result: GameResult): GameResult[] {
+  return history
+    .filter(({ seed, mode }) => seed !== result.seed || mode !== result.mode)
+    .concat(result);
+}
+
+// Practice puzzles come in every size, and scores from different sizes can't
+// be compared, so each size gets stats of its own. The size is in the seed.
+export function getResultsForMode(
+  history: GameResult[],
+  mode: PuzzleMode,
+  variant = BoardVariant.Classic,
+): GameResult[] {
+  return history.filter(
+    (result) => result.mode === mode && getVariantFromSeed(result.seed) === variant,
+  );
+}
+
+export function computeStats(
+  history: GameResult[],
+  todaysPuzzleNumber: number,
+  letterCount: number = Config.MaxLetters,
+): Stats {
+  const distribution = new Array(letterCount + 1).fill(0);
+  let totalScore = 0;
+  let perfectGames = 0;
+
+  for (const { score } of history) {
+    const bucket = Math.min(Math.max(score, 0), letterCount);
+    distribution[bucket]++;
+    totalScore += score;
+    if (score >= letterCount) perfectGames++;
+  }
+
+  const [currentStreak, longestStreak] = computeStreaks(
+    history.map(({ puzzleNumber }) => puzzleNumber),
+    todaysPuzzleNumber,
+  );
+
+  return {
+    gamesPlayed: history.length,
+    averageScore: history.length > 0 ? totalScore / history.length : 0,
+    distribution,
+    perfectGames,
+    currentStreak,
+    longestStreak,
+  };
+}
+
+// A streak is a run of back to back puzzle numbers that were played.
+// The current streak is still alive as long as the last game played was
+// either today's puzzle or yesterday's.
+function computeStreaks(puzzleNumbers: number[], todaysPuzzleNumber: number): [number, number] {
+  const days = Array.from(new Set(puzzleNumbers)).sort((a, b) => a - b);
+
+  let longestStreak = 0;
+  let streak = 0;
+  for (let i = 0; i < days.length; i++) {
+    streak = i > 0 && days[i] - days[i - 1] === 1 ? streak + 1 : 1;
+    longestStreak = Math.max(longestStreak, streak);
+  }
+
+  const lastPlayed = days[days.length - 1];
+  const currentStreak =
+    lastPlayed !== undefined && todaysPuzzleNumber - lastPlayed <= 1 ? streak : 0;
+
+  return [currentStreak, longestStreak];
+}
@@ -0,0 +1,40 @@
+import { createWordIndex } from "./word-index";
+
+const index = createWordIndex([
+  ["at", "be"],
+  ["bet", "eat", "tea", "ate", "set"],
+  ["beat", "seat", "eats", "teas"],
+]);
+
+describe("word index", () => {
+  it("finds words with letters at exact indexes", () => {
+    expect(index.findWords(3, [[1, "e"]])).toEqual(["bet", "tea", "set"]);
+    expect(
+      index.findWords(4, [
+        [1, "e"],
+        [3, "t"],
+      ]),
+    ).toEqual(["beat", "seat"]);
+    expect(index.findWords(3, [[0, "z"]])).toEqual([]);
+    expect(index.findWords(7, [])).toEqual([]);
+  });
+
+  it("returns every word of a length for an empty pattern", () => {
+    expect(index.findWords(2, [])).toEqual(["at", "be"]);
+  });
+
+  it("finds words with the pattern starting anywhere, in list order", () => {
+    expect(
+      index.findWordsAnywhere(4, [
+        [0, "e"],
+        [1, "a"],
+      ]),
+    ).toEqual(["beat", "seat", "eats", "teas"]);
+    expect(
+      index.findWordsAnywhere(3, [
+        [0, "t"],
+        [2, "a"],
+      ]),
+    ).toEqual(["tea"]);
+  });
+});
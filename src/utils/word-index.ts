@@ -0,0 +1,84 @@
+// Letters that a word has to have at certain indexes, like `[[1, "e"], [3, "t"]]`
+// for words with an "e" second and a "t" fourth.
+export type LetterPattern = [number, string][];
+
+export type WordIndex = {
+  // Words of the given length that match the pattern exactly.
+  findWords: (length: number, pattern: LetterPattern) => string[];
+  // Words of the given length that match the pattern starting at any index,
+  // so `[[0, "e"], [1, "a"]]` matches "eats" as well as "beat" and "seal".
+  findWordsAnywhere: (length: number, pattern: LetterPattern) => string[];
+};
+
+type LengthIndex = {
+  words: string[];
+  // For every index in the word, the positions in `words` of the words that
+  // have each letter there. Positions are in order, so results come back in
+  // the same order as the word list.
+  buckets: Map<string, number[]>[];
+};
+
+// Every lookup the generator does is a question like "5-letter words with an
+// E at index 1 and a T at index 3". Going through the whole word list for
+// each of those adds up, so the lists get bucketed by index and letter once.
+export function createWordIndex(lists: string[][]): WordIndex {
+  const lengths = new Map<number, LengthIndex>();
+
+  for (const list of lists) {
+    for (const word of list) {
+      let index = lengths.get(word.length);
+      if (!index) {
+        index = {
+          words: [],
+          buckets: new Array(word.length).fill(null).map(() => new Map()),
+        };
+        lengths.set(word.length, index);
+      }
+
+      const { words, buckets } = index;
+      const position = words.length;
+      words.push(word);
+      word.split("").forEach((letter, i) => {
+        const positions = buckets[i].get(letter);
+        if (positions) positions.push(position);
+        else buckets[i].set(letter, [position]);
+      });
+    }
+  }
+
+  function findPositions(index: LengthIndex, pattern: LetterPattern): number[] {
+    if (pattern.length === 0) return index.words.map((_, position) => position);
+
+    // Start from the smallest bucket and check the rest of the pattern
+    // against each word in it.
+    const buckets = pattern.map(([i, letter]) => index.buckets[i]?.get(letter) || []);
+    const smallest = buckets.reduce((a, b) => (b.length < a.length ? b : a));
+    return smallest.filter((position) =>
+      pattern.every(([i, letter]) => index.words[position][i] === letter),
+    );
+  }
+
+  return {
+    findWords(length, pattern) {
+      const index = lengths.get(length);
+      if (!index) return [];
+      return findPositions(index, pattern).map((position) => index.words[position]);
+    },
+
+    findWordsAnywhere(length, pattern) {
+      const index = lengths.get(length);
+      if (!index) return [];
+
+      const span = Math.max(0, ...pattern.map(([i]) => i)) + 1;
+      const positions = new Set<number>();
+      for (let shift = 0; shift + span <= length; shift++) {
+        const shifted = pattern.map(([i, letter]) => [i + shift, letter] as [number, string]);
+        findPositions(index, shifted).forEach((position) => positions.add(position));
+      }
+
+      return Array.from(positions)
+        .sort((a, b) => a - b)
+        .map((position) => index.words[position]);
+    },
+  };
+}
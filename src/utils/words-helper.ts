@@ -1,17 +1,29 @@
-import generator from "random-seed";
-import { words as TwoCharWords } from "../constants/words/good-words/two";
-import { words as ThreeCharWords } from "../constants/words/good-words/three";
-import { words as FourCharWords } from "../constants/words/good-words/four";
-import { words as FiveCharWords } from "../constants/words/good-words/five";
-import { words as SixCharWords } from "../constants/words/good-words/six";
-import { words as dictionary } from "../constants/words";
-import { words as goodDictionary } from "../constants/words/good-words";
-import { Config } from "./game";
+import { RandomSeed } from "random-seed";
+import { BoardConfig, DefaultBoardConfig } from "./game";
+import { DefaultDictionary, Dictionary } from "./dictionary";
+import { createWordIndex, LetterPattern, WordIndex } from "./word-index";
 
 const debug = false;
 const log = debug ? console.info : (args: any[]): void => {};
 const logError = debug ? console.error : (args: any[]): void => {};
 
+// Boards are only ever built out of common words, so that's all that gets
+// indexed. Each dictionary is indexed the first time it's used.
+const MaxIndexedWordLength = 10;
+const commonWordIndexes = new WeakMap<Dictionary, WordIndex>();
+
+function getCommonWordIndex(dictionary: Dictionary): WordIndex {
+  let index = commonWordIndexes.get(dictionary);
+  if (!index) {
+    const lengths = new Array(MaxIndexedWordLength - 1).fill(null).map((_, i) => i + 2);
+    index = createWordIndex(
+      lengths.map((length) => dictionary.wordsOfLength(length).filter(dictionary.isCommon)),
+    );
+    commonWordIndexes.set(dictionary, index);
+  }
+  return index;
+}
+
 // 2D board of letters being used.
 export type SolutionBoard = string[][];
 
@@ -27,24 +39,10 @@ export enum Direction {
   Right = "right",
 }
 
-// Board is restricted to 6x6 grid.
-export const LetterBounds = Config.TileCount;
-
-// Max amount of letters we want on the board.
-export const MaxLetters = Config.MaxLetters;
-
-// Create the seeded random number generator for the day.
-const date = new Date();
-export const seed = `${date.getMonth()}${date.getDate()}${date.getFullYear()}`;
-export const randomGenerator = generator.create(seed);
-
-// @DEBUGGING
-// This is a random generator.
-// Just used for testing purposes.
-// export const randomGenerator = generator.create();
-
-export function createBoard(): SolutionBoard {
-  return [[], [], [], [], [], []];
+// Every helper that builds a board takes the board's config, which defaults
+// to the classic 6x6 board with 20 letters.
+export function createBoard(config: BoardConfig = DefaultBoardConfig): SolutionBoard {
+  return new Array(config.rows).fill(null).map(() => []);
 }
 
 // @DEBUGGING
@@ -64,7 +62,11 @@ export function createTestingBoard(): SolutionBoard {
   ];
 }
 
-export function validateSolutionBoardWithGoodWords(board: SolutionBoard): boolean {
+// Good words are the dictionary's common words.
+export function validateSolutionBoardWithGoodWords(
+  board: SolutionBoard,
+  dictionary: Dictionary = DefaultDictionary,
+): boolean {
   // Get all words going left to right.
   const leftToRight = getWordsFromBoardLTR(board);
 
@@ -75,11 +77,14 @@ export function validateSolutionBoardWithGoodWords(board: SolutionBoard): boolea
   const foundWords = leftToRight.concat(topToBottom);
 
   // Validate entire board (easier this way).
-  let allWordsAreValid = foundWords.every((word) => goodDictionary.has(word));
+  let allWordsAreValid = foundWords.every((word) => dictionary.isCommon(word));
   return allWordsAreValid;
 }
 
-export function validateSolutionBoard(board: SolutionBoard): boolean {
+export function validateSolutionBoard(
+  board: SolutionBoard,
+  dictionary: Dictionary = DefaultDictionary,
+): boolean {
   // Get all words going left to right.
   const leftToRight = getWordsFromBoardLTR(board);
 
@@ -94,6 +99,73 @@ export function validateSolutionBoard(board: SolutionBoard): boolean {
   return allWordsAreValid;
 }
 
+// Checking the whole board for every word we try gets slow. When a word goes
+// onto a board that was already valid, the only words that can change are
+// the one it's part of and the ones crossing it, so those are all we check.
+export function validateWordPlacement(
+  board: SolutionBoard,
+  position: Position,
+  direction: Direction,
+  length: number,
+  dictionary: Dictionary = DefaultDictionary,
+): boolean {
+  return getWordsThroughPlacement(board, position, direction, length).every((word) =>
+    dictionary.has(word),
+  );
+}
+
+export function validateWordPlacementWithGoodWords(
+  board: SolutionBoard,
+  position: Position,
+  direction: Direction,
+  length: number,
+  dictionary: Dictionary = DefaultDictionary,
+): boolean {
+  return getWordsThroughPlacement(board, position, direction, length).every((word) =>
+    dictionary.isCommon(word),
+  );
+}
+
+function getWordsThroughPlacement(
+  board: SolutionBoard,
+  position: Position,
+  direction: Direction,
+  length: number,
+): string[] {
+  const at = boardAt(board);
+  const across = direction === Direction.Right;
+
+  // Everything on the line through `position` going one way, stopping at the
+  // first empty tile in either direction.
+  const readLine = ({ row, col }: Position, right: boolean) => {
+    const [dr, dc] = right ? [0, 1] : [1, 0];
+    let [r, c] = [row, col];
+    while (at(r - dr, c - dc)) [r, c] = [r - dr, c - dc];
+
+    let word = "";
+    for (; at(r, c); [r, c] = [r + dr, c + dc]) word += at(r, c);
+    return word;
+  };
+
+  const words = [readLine(position, across)];
+  for (let i = 0; i < length; i++) {
+    const tile = across ? moveRight(position, i) : moveDown(position, i);
+    words.push(readLine(tile, !across));
+  }
+
+  return words.filter((word) => word.length > 1);
+}
+
+// Good words of a given length with letters at certain indexes, in the same
+// order as `getWordsOfLength`.
+export function getWordsMatching(
+  length: number,
+  pattern: LetterPattern,
+  dictionary: Dictionary = DefaultDictionary,
+): string[] {
+  return getCommonWordIndex(dictionary).findWords(length, pattern);
+}
+
 function getWordsFromBoardLTR(board: SolutionBoard): string[] {
   return board
     .map((row) => {
@@ -170,21 +242,49 @@ function getWordsFromBoardTTB(board: SolutionBoard): string[] {
   return words.flat().filter((word) => word.length > 1);
 }
 
-export function getWordsOfLength(length: number): string[] {
-  switch (length) {
-    case 2:
-      return TwoCharWords;
-    case 3:
-      return ThreeCharWords;
-    case 4:
-      return FourCharWords;
-    case 5:
-      return FiveCharWords;
-    case 6:
-      return SixCharWords;
+// A word on the board along with where it starts and which way it reads.
+export type PlacedWord = {
+  word: string;
+  position: Position;
+  direction: Direction;
+};
+
+// Same idea as the `getWordsFromBoard*` helpers, except we keep track of
+// where each word lives on the board.
+export function findPlacedWords(board: SolutionBoard): PlacedWord[] {
+  const at = boardAt(board);
+  const placedWords: PlacedWord[] = [];
+  const cols = Math.max(0, ...board.map((row) => row.length));
+
+  for (let r = 0; r < board.length; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (!at(r, c)) continue;
+
+      // Words going right start where there's no letter to the left.
+      if (!at(r, c - 1) && at(r, c + 1)) {
+        let word = "";
+        for (let i = c; at(r, i); i++) word += at(r, i);
+        placedWords.push({ word, position: { row: r, col: c }, direction: Direction.Right });
+      }
+
+      // Words going down start where there's no letter above.
+      if (!at(r - 1, c) && at(r + 1, c)) {
+        let word = "";
+        for (let i = r; at(i, c); i++) word += at(i, c);
+        placedWords.push({ word, position: { row: r, col: c }, direction: Direction.Down });
+      }
+    }
   }
 
-  return [];
+  return placedWords;
+}
+
+// The good words of a given length, which are what boards are built from.
+export function getWordsOfLength(
+  length: number,
+  dictionary: Dictionary = DefaultDictionary,
+): string[] {
+  return getCommonWordIndex(dictionary).findWords(length, []);
 }
 
 export function writeWordToBoard(
@@ -192,13 +292,14 @@ export function writeWordToBoard(
   position: Position,
   direction: Direction,
   board: SolutionBoard,
+  config: BoardConfig = DefaultBoardConfig,
 ): SolutionBoard {
-  const newBoard = createBoard();
+  const newBoard = createBoard(config);
 
   const willBoardOverflow =
     direction === Direction.Right
-      ? position.col + word.length - 1 >= LetterBounds
-      : position.row + word.length - 1 >= LetterBounds;
+      ? position.col + word.length - 1 >= config.cols
+      : position.row + word.length - 1 >= config.rows;
 
   const willBoardUnderflow =
     direction === Direction.Right ? position.col < 0 : position.row < 0;
@@ -206,8 +307,8 @@ export function writeWordToBoard(
   // Make sure writing to this board is valid.
   if (willBoardOverflow || willBoardUnderflow) throw new Error("Invalid board.");
 
-  for (let r = 0; r < LetterBounds; r++) {
-    for (let c = 0; c < LetterBounds; c++) {
+  for (let r = 0; r < config.rows; r++) {
+    for (let c = 0; c < config.cols; c++) {
       newBoard[r][c] = board[r][c];
     }
   }
@@ -227,9 +328,10 @@ export function writeWordToBoard(
 export function getAllLettersInRow(
   position: Position,
   board: SolutionBoard,
+  config: BoardConfig = DefaultBoardConfig,
 ): [string, Position][] {
   const letters = [];
-  for (let c = 0; c < LetterBounds; c++) {
+  for (let c = 0; c < config.cols; c++) {
     const letter = board[position.row][c];
     if (letter) {
       letters.push([letter, { row: position.row, col: c }] as [string, Position]);
@@ -242,9 +344,10 @@ export function getAllLettersInRow(
 export function getAllLettersInColumn(
   position: Position,
   board: SolutionBoard,
+  config: BoardConfig = DefaultBoardConfig,
 ): [string, Position][] {
   const letters = [];
-  for (let r = 0; r < LetterBounds; r++) {
+  for (let r = 0; r < config.rows; r++) {
     const letter = board[r][position.col];
     if (letter) {
       letters.push([letter, { row: r, col: position.col }] as [string, Position]);
@@ -296,12 +399,15 @@ export function none<T>(vals: T[]): boolean {
 // Positions are "empty" when they contain no letters and connects to the
 // existing board. We don't care about direction here since it's
 // just a single character.
-export function findEmptyPositions(board: SolutionBoard): Position[] {
+export function findEmptyPositions(
+  board: SolutionBoard,
+  config: BoardConfig = DefaultBoardConfig,
+): Position[] {
   const positions: Position[] = [];
   const at = boardAt(board);
 
-  for (let r = 0; r < LetterBounds; r++) {
-    for (let c = 0; c < LetterBounds; c++) {
+  for (let r = 0; r < config.rows; r++) {
+    for (let c = 0; c < config.cols; c++) {
       const letter = board[r][c];
       if (letter) continue;
 
@@ -326,12 +432,15 @@ export function findEmptyPositions(board: SolutionBoard): Position[] {
 // of issues when trying to add another word to the board.
 // The direction paired with the position is the direction which a word
 // that wants to use this position should go in.
-export function findEasyPositions(board: SolutionBoard): [Position, Direction][] {
+export function findEasyPositions(
+  board: SolutionBoard,
+  config: BoardConfig = DefaultBoardConfig,
+): [Position, Direction][] {
   const positions: [Position, Direction][] = [];
   const at = boardAt(board);
 
-  for (let r = 0; r < LetterBounds; r++) {
-    for (let c = 0; c < LetterBounds; c++) {
+  for (let r = 0; r < config.rows; r++) {
+    for (let c = 0; c < config.cols; c++) {
       const letter = board[r][c];
       if (!letter) continue;
 
@@ -416,8 +525,13 @@ export function findEasyPositions(board: SolutionBoard): [Position, Direction][]
   return positions;
 }
 
-export function fillRandomEmptyPositions(board: SolutionBoard): SolutionBoard | null {
-  let emptyPositions = findEmptyPositions(board);
+export function fillRandomEmptyPositions(
+  board: SolutionBoard,
+  random: RandomSeed,
+  config: BoardConfig = DefaultBoardConfig,
+  dictionary: Dictionary = DefaultDictionary,
+): SolutionBoard | null {
+  let emptyPositions = findEmptyPositions(board, config);
 
   const letters = [
     "q",
@@ -450,7 +564,7 @@ export function fillRandomEmptyPositions(board: SolutionBoard): SolutionBoard |
 
   // Attempt to fill each empty position with a letter until we find one
   // that fits into the board validly.
-  const start = randomGenerator.range(emptyPositions.length);
+  const start = random.range(emptyPositions.length);
   for (let i = 0; i < emptyPositions.length; i++) {
     const index = (start + i) % emptyPositions.length;
     const position = emptyPositions[index];
@@ -462,8 +576,8 @@ export function fillRandomEmptyPositions(board: SolutionBoard): SolutionBoard |
       const letter = letters[index];
 
       try {
-        const newBoard = writeWordToBoard(letter, position, Direction.Right, board);
-        if (validateSolutionBoardWithGoodWords(newBoard)) {
+        const newBoard = writeWordToBoard(letter, position, Direction.Right, board, config);
+        if (validateSolutionBoardWithGoodWords(newBoard, dictionary)) {
           log("new letter added:", letter, position);
           return newBoard;
         }
@@ -479,13 +593,16 @@ export function fillRandomEmptyPositions(board: SolutionBoard): SolutionBoard |
 
 export function fillRandomEasyPosition(
   board: SolutionBoard,
+  random: RandomSeed,
   preferLongWord = false,
+  config: BoardConfig = DefaultBoardConfig,
+  dictionary: Dictionary = DefaultDictionary,
 ): SolutionBoard | null {
-  let easyPositions = findEasyPositions(board);
+  let easyPositions = findEasyPositions(board, config);
   let updatedBoard: SolutionBoard | null = null;
 
   // Attempt to fill each easy position we find until we succeed.
-  const start = randomGenerator.range(easyPositions.length);
+  const start = random.range(easyPositions.length);
   for (let i = 0; i < easyPositions.length; i++) {
     const index = (start + i) % easyPositions.length;
     const [intersection, direction] = easyPositions[index];
@@ -494,10 +611,24 @@ export function fillRandomEasyPosition(
 
     switch (direction) {
       case Direction.Down:
-        updatedBoard = placeWordDownwardsAt(intersection, board, preferLongWord);
+        updatedBoard = placeWordDownwardsAt(
+          intersection,
+          board,
+          random,
+          preferLongWord,
+          config,
+          dictionary,
+        );
         break;
       case Direction.Right:
-        updatedBoard = placeWordRightwardsAt(intersection, board, preferLongWord);
+        updatedBoard = placeWordRightwardsAt(
+          intersection,
+          board,
+          random,
+          preferLongWord,
+          config,
+          dictionary,
+        );
         break;
     }
 
@@ -530,10 +661,13 @@ function createRange(min: number, max: number): number[] {
 export function placeWordDownwardsAt(
   intersection: Position,
   board: SolutionBoard,
+  random: RandomSeed,
   preferLongWord = false,
+  config: BoardConfig = DefaultBoardConfig,
+  dictionary: Dictionary = DefaultDictionary,
 ): SolutionBoard | null {
   const currentLetters = countLettersOnBoard(board);
-  const lettersRemaining = MaxLetters - currentLetters;
+  const lettersRemaining = config.letterCount - currentLetters;
 
   if (lettersRemaining < 3) {
     log(`Only ${lettersRemaining} letters left, skipping any placements`);
@@ -541,7 +675,7 @@ export function placeWordDownwardsAt(
   }
 
   // Get letters that are in this row at the intersection point.
-  const originalLetters = getAllLettersInColumn(intersection, board);
+  const originalLetters = getAllLettersInColumn(intersection, board, config);
 
   // We're going to attempt to fit a word with all permutations of the avaiabile
   // letters in the column.
@@ -564,7 +698,7 @@ export function placeWordDownwardsAt(
     const activeIntersection = letters[0][1];
 
     const maxLettersBeforeIntersection = intersection.row;
-    const maxLettersAfterIntersection = LetterBounds - intersection.row - 1;
+    const maxLettersAfterIntersection = config.rows - intersection.row - 1;
 
     log(`\t${++__i} Attempting to fit letters`, letters, normalizedLetters);
 
@@ -585,26 +719,38 @@ export function placeWordDownwardsAt(
       continue;
     }
 
-    // Min length of a word is either 3 (2 is too boring) or the length required
-    // to fit all letters in the column.
+    // Min length of a word is either the config's minimum (2 is too boring) or
+    // the length required to fit all letters in the column.
     const minLength =
-      letters.length > 1 ? letters[letters.length - 1][1].row - letters[0][1].row + 1 : 3;
+      letters.length > 1
+        ? letters[letters.length - 1][1].row - letters[0][1].row + 1
+        : config.minWordLength;
 
-    // Max length of a word is either 6 or the amount of letters we have left
-    // to fill the board, assuming its more than 1.
-    const maxLength = Math.min(lettersRemaining, 6);
+    // Max length of a word is either the config's maximum or the amount of
+    // letters we have left to fill the board, assuming its more than 1.
+    const maxLength = Math.min(lettersRemaining, config.maxWordLength);
 
     const range = createRange(minLength, maxLength);
     const length = preferLongWord
-      ? randomGenerator.intBetween(maxLength - 1, maxLength)
-      : randomGenerator.intBetween(minLength, maxLength);
+      ? random.intBetween(maxLength - 1, maxLength)
+      : random.intBetween(minLength, maxLength);
     const startingIndex = range.indexOf(length);
 
     for (let offset = 0; offset < range.length; offset++) {
       const wordLengthAttempt = range[(startingIndex + offset) % range.length];
 
       // Find all possible words that fit the letters criteria & the word length.
-      const candidateWords = getWordsOfLength(wordLengthAttempt).filter((word) => {
+      // The index narrows it down to words with the letters spaced out right,
+      // and the checks below make sure they line up with the first of each.
+      const pattern: LetterPattern = normalizedLetters.map(([letter, position]) => [
+        position.row,
+        letter,
+      ]);
+      const matchingWords = getCommonWordIndex(dictionary).findWordsAnywhere(
+        wordLengthAttempt,
+        pattern,
+      );
+      const candidateWords = matchingWords.filter((word) => {
         const positionOfFirstLetter = word.indexOf(normalizedLetters[0][0]);
         if (positionOfFirstLetter < 0) return false;
         const allLettersFitInWord = normalizedLetters.every(([letter, position]) => {
@@ -627,7 +773,7 @@ export function placeWordDownwardsAt(
         continue;
       }
 
-      const candidateWordOffset = randomGenerator.range(candidateWords.length);
+      const candidateWordOffset = random.range(candidateWords.length);
       for (let offset = 0; offset < candidateWords.length; offset++) {
         const word = candidateWords[(candidateWordOffset + offset) % candidateWords.length];
         const startingPosition = moveDown(
@@ -636,9 +782,17 @@ export function placeWordDownwardsAt(
         );
 
         try {
-          const newBoard = writeWordToBoard(word, startingPosition, Direction.Down, board);
-
-          if (validateSolutionBoard(newBoard)) {
+          const newBoard = writeWordToBoard(word, startingPosition, Direction.Down, board, config);
+
+          if (
+            validateWordPlacement(
+              newBoard,
+              startingPosition,
+              Direction.Down,
+              word.length,
+              dictionary,
+            )
+          ) {
             log("new word added:", word);
             return newBoard;
           }
@@ -659,10 +813,13 @@ export function placeWordDownwardsAt(
 export function placeWordRightwardsAt(
   intersection: Position,
   board: SolutionBoard,
+  random: RandomSeed,
   preferLongWord = false,
+  config: BoardConfig = DefaultBoardConfig,
+  dictionary: Dictionary = DefaultDictionary,
 ): SolutionBoard | null {
   const currentLetters = countLettersOnBoard(board);
-  const lettersRemaining = MaxLetters - currentLetters;
+  const lettersRemaining = config.letterCount - currentLetters;
 
   if (lettersRemaining < 3) {
     log(`Only ${lettersRemaining} letters left, skipping any placements`);
@@ -670,7 +827,7 @@ export function placeWordRightwardsAt(
   }
 
   // Get letters that are in this col at the intersection point.
-  const originalLetters = getAllLettersInRow(intersection, board);
+  const originalLetters = getAllLettersInRow(intersection, board, config);
 
   // We're going to attempt to fit a word with all permutations of the avaiabile
   // letters in the column.
@@ -693,7 +850,7 @@ export function placeWordRightwardsAt(
     const activeIntersection = letters[0][1];
 
     const maxLettersBeforeIntersection = activeIntersection.col;
-    const maxLettersAfterIntersection = LetterBounds - activeIntersection.col - 1;
+    const maxLettersAfterIntersection = config.cols - activeIntersection.col - 1;
 
     log(`\t${++__i} Attempting to fit letters`, letters, normalizedLetters);
 
@@ -714,26 +871,38 @@ export function placeWordRightwardsAt(
       continue;
     }
 
-    // Min length of a word is either 3 (2 is too boring) or the length required
-    // to fit all letters in the column.
+    // Min length of a word is either the config's minimum (2 is too boring) or
+    // the length required to fit all letters in the column.
     const minLength =
-      letters.length > 1 ? letters[letters.length - 1][1].col - letters[0][1].col + 1 : 3;
+      letters.length > 1
+        ? letters[letters.length - 1][1].col - letters[0][1].col + 1
+        : config.minWordLength;
 
-    // Max length of a word is either 6 or the amount of letters we have left
-    // to fill the board, assuming its more than 1.
-    const maxLength = Math.min(lettersRemaining, 6);
+    // Max length of a word is either the config's maximum or the amount of
+    // letters we have left to fill the board, assuming its more than 1.
+    const maxLength = Math.min(lettersRemaining, config.maxWordLength);
 
     const range = createRange(minLength, maxLength);
     const length = preferLongWord
-      ? randomGenerator.intBetween(maxLength - 1, maxLength)
-      : randomGenerator.intBetween(minLength, maxLength);
+      ? random.intBetween(maxLength - 1, maxLength)
+      : random.intBetween(minLength, maxLength);
     const startingIndex = range.indexOf(length);
 
     for (let offset = 0; offset < range.length; offset++) {
       const wordLengthAttempt = range[(startingIndex + offset) % range.length];
 
       // Find all possible words that fit the letters criteria & the word length.
-      const candidateWords = getWordsOfLength(wordLengthAttempt).filter((word) => {
+      // The index narrows it down to words with the letters spaced out right,
+      // and the checks below make sure they line up with the first of each.
+      const pattern: LetterPattern = normalizedLetters.map(([letter, position]) => [
+        position.col,
+        letter,
+      ]);
+      const matchingWords = getCommonWordIndex(dictionary).findWordsAnywhere(
+        wordLengthAttempt,
+        pattern,
+      );
+      const candidateWords = matchingWords.filter((word) => {
         const positionOfFirstLetter = word.indexOf(normalizedLetters[0][0]);
         if (positionOfFirstLetter < 0) return false;
         const allLettersFitInWord =
@@ -758,7 +927,7 @@ export function placeWordRightwardsAt(
         continue;
       }
 
-      const candidateWordOffset = randomGenerator.range(candidateWords.length);
+      const candidateWordOffset = random.range(candidateWords.length);
       for (let offset = 0; offset < candidateWords.length; offset++) {
         const word = candidateWords[(candidateWordOffset + offset) % candidateWords.length];
         const startingPosition = moveRight(
@@ -767,9 +936,17 @@ export function placeWordRightwardsAt(
         );
 
         try {
-          const newBoard = writeWordToBoard(word, startingPosition, Direction.Right, board);
-
-          if (validateSolutionBoard(newBoard)) {
+          const newBoard = writeWordToBoard(word, startingPosition, Direction.Right, board, config);
+
+          if (
+            validateWordPlacement(
+              newBoard,
+              startingPosition,
+              Direction.Right,
+              word.length,
+              dictionary,
+            )
+          ) {
             log("new word added:", word);
             return newBoard;
           }
@@ -787,12 +964,18 @@ export function placeWordRightwardsAt(
   return null;
 }
 
-export function printBoard(board: SolutionBoard, highlights: Position[] = []) {
+export function printBoard(
+  board: SolutionBoard,
+  highlights: Position[] = [],
+  config: BoardConfig = DefaultBoardConfig,
+) {
   console.info("");
-  const lines = ["\x1b[37m    0 1 2 3 4 5", "\x1b[37m  ┏━━━━━━━━━━━━━┓"];
-  for (let r = 0; r < LetterBounds; r++) {
+  const columns = new Array(config.cols).fill(null).map((_, c) => c % 10);
+  const border = "━".repeat(config.cols * 2 + 1);
+  const lines = [`\x1b[37m    ${columns.join(" ")}`, `\x1b[37m  ┏${border}┓`];
+  for (let r = 0; r < config.rows; r++) {
     let parts = [];
-    for (let c = 0; c < LetterBounds; c++) {
+    for (let c = 0; c < config.cols; c++) {
       const highlight = highlights.find((p) => p.row === r && p.col === c);
       const letter = board[r][c]?.toUpperCase();
       if (highlight && letter) {
@@ -806,7 +989,7 @@ export function printBoard(board: SolutionBoard, highlights: Position[] = []) {
     parts.push(`\x1b[37m┃`);
     lines.push(`\x1b[37m${r} ┃ ${parts.join(" ")}`);
   }
-  lines.push("\x1b[37m  ┗━━━━━━━━━━━━━┛");
+  lines.push(`\x1b[37m  ┗${border}┛`);
   console.info(lines.join("\n"));
   console.info("");
 }
@@ -0,0 +1,21 @@
+/* eslint-disable no-restricted-globals */
+import { PuzzleRequest, PuzzleResponse } from "../types/puzzle-worker";
+import { getLocale } from "../utils/locale";
+import { loadPuzzle } from "../utils/puzzle-schedule";
+
+// Builds boards off the main thread, since a slow phone can spend a while on
+// one. Requests are answered one at a time in the order they come in.
+self.onmessage = ({ data: { id, puzzle } }: MessageEvent<PuzzleRequest>) => {
+  const { dictionary } = getLocale(puzzle.locale);
+  dictionary
+    .load()
+    .then(() => loadPuzzle(puzzle))
+    .then(
+      ([solutionBoard, letters]): PuzzleResponse => ({ id, solutionBoard, letters }),
+      (error): PuzzleResponse => ({
+        id,
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    )
+    .then((response) => self.postMessage(response));
+};